@@ -19,6 +19,8 @@ import { AgentPropertyDashboard } from '@/features/agent/components'
 import { PropertySearchPage } from '@/features/property/pages/PropertySearchPage'
 import { ProjectDetailsPage as PublicProjectDetailsPage } from './pages/ProjectDetailsPage'
 import { FeaturedProjectDetailsPage } from './pages/FeaturedProjectDetailsPage'
+import { ProjectSearchPage } from './pages/ProjectSearchPage'
+import { ProjectComparisonPage } from './pages/ProjectComparisonPage'
 
 import { BulkUploadPage } from '@/pages/agent/BulkUploadPage'
 
@@ -29,8 +31,15 @@ import { EditProjectPage } from '@/features/builder/pages/EditProjectPage'
 import { ProjectDetailsPage } from '@/features/builder/pages/ProjectDetailsPage'
 import { ProjectUnitsPage } from '@/features/builder/pages/ProjectUnitsPage'
 import { BulkUnitsPage } from '@/features/builder/pages/BulkUnitsPage'
+import { UnitImportPage } from '@/features/builder/pages/UnitImportPage'
+import { ProjectPricingPage } from '@/features/builder/pages/ProjectPricingPage'
+import { ProjectUpdatesPage } from '@/features/builder/pages/ProjectUpdatesPage'
+import { ProjectAssetsPage } from '@/features/builder/pages/ProjectAssetsPage'
+import { ProjectPaymentsPage } from '@/features/builder/pages/ProjectPaymentsPage'
 import { LeadManagementPage } from '@/features/agent/pages/LeadManagementPage'
 import { NewUnitPage } from '@/features/builder/pages/NewUnitPage'
+import { BuilderTeamPage } from '@/features/builder/pages/BuilderTeamPage'
+import { AcceptTeamInvitationPage } from '@/features/builder/pages/AcceptTeamInvitationPage'
 // import { BulkListingPage } from './pages/builder/BulkListingPage'
 
 
@@ -44,6 +53,8 @@ function App() {
                     <Route path="/properties" element={<PropertyListingGrid />} />
                     <Route path="/search" element={<PropertySearchPage />} />
                     <Route path="/property/:id" element={<PropertyDetailsPage />} />
+                    <Route path="/projects" element={<ProjectSearchPage />} />
+                    <Route path="/projects/compare" element={<ProjectComparisonPage />} />
                     <Route path="/project/:id" element={<PublicProjectDetailsPage />} />
                     <Route path="/featured-project/:id" element={<FeaturedProjectDetailsPage />} />
                     {/* <Route path="/calculators" element={<CalculatorsPage />} /> */}
@@ -158,11 +169,11 @@ function App() {
                         }
                     />
 
-                    {/* Builder routes */}
+                    {/* Builder routes. Team members work on project pages too; the API checks what their role allows. */}
                     <Route
                         path="/builder/projects"
                         element={
-                            <ProtectedRoute requiredRole="builder">
+                            <ProtectedRoute>
                                 <ProjectsPage />
                             </ProtectedRoute>
                         }
@@ -178,7 +189,7 @@ function App() {
                     <Route
                         path="/builder/projects/:id"
                         element={
-                            <ProtectedRoute requiredRole="builder">
+                            <ProtectedRoute>
                                 <ProjectDetailsPage />
                             </ProtectedRoute>
                         }
@@ -186,7 +197,7 @@ function App() {
                     <Route
                         path="/builder/projects/:id/edit"
                         element={
-                            <ProtectedRoute requiredRole="builder">
+                            <ProtectedRoute>
                                 <EditProjectPage />
                             </ProtectedRoute>
                         }
@@ -194,13 +205,20 @@ function App() {
                     <Route
                         path="/builder/projects/:id/units"
                         element={
-                            <ProtectedRoute requiredRole="builder">
+                            <ProtectedRoute>
                                 <ProjectUnitsPage />
                             </ProtectedRoute>
                         }
                     />
-                    <Route path="/builder/projects/:id/units/new" element={<ProtectedRoute requiredRole="builder"><NewUnitPage /></ProtectedRoute>} />
-                    <Route path="/builder/projects/:id/units/bulk" element={<ProtectedRoute requiredRole="builder"><BulkUnitsPage /></ProtectedRoute>} />
+                    <Route path="/builder/projects/:id/units/new" element={<ProtectedRoute><NewUnitPage /></ProtectedRoute>} />
+                    <Route path="/builder/projects/:id/units/bulk" element={<ProtectedRoute><BulkUnitsPage /></ProtectedRoute>} />
+                    <Route path="/builder/projects/:id/units/import" element={<ProtectedRoute><UnitImportPage /></ProtectedRoute>} />
+                    <Route path="/builder/projects/:id/pricing" element={<ProtectedRoute><ProjectPricingPage /></ProtectedRoute>} />
+                    <Route path="/builder/projects/:id/updates" element={<ProtectedRoute><ProjectUpdatesPage /></ProtectedRoute>} />
+                    <Route path="/builder/projects/:id/assets" element={<ProtectedRoute><ProjectAssetsPage /></ProtectedRoute>} />
+                    <Route path="/builder/projects/:id/payments" element={<ProtectedRoute><ProjectPaymentsPage /></ProtectedRoute>} />
+                    <Route path="/builder/team" element={<ProtectedRoute requiredRole={['builder', 'agent']}><BuilderTeamPage /></ProtectedRoute>} />
+                    <Route path="/builder/team/accept" element={<ProtectedRoute><AcceptTeamInvitationPage /></ProtectedRoute>} />
                     {/* <Route
                                 path="/builder/bulk-listing"
                                 element={
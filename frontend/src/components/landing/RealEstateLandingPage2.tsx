@@ -832,6 +832,12 @@ export function RealEstateLandingPage() {
                               <span>{property.bedrooms} BHK {property.property_type}</span>
                             </div>
                             <p className="font-bold text-lg">{formatPrice(property.price)}</p>
+                            {property.recommendation_reason && (
+                              <p className="flex items-center gap-1 text-xs text-primary mt-2">
+                                <Icon icon="solar:star-bold" className="size-3" />
+                                {property.recommendation_reason}
+                              </p>
+                            )}
                           </div>
                         </CardContent>
                       </Card>
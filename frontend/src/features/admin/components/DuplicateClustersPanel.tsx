@@ -0,0 +1,304 @@
+import { useState, useEffect } from 'react';
+import { Icon } from '@iconify/react';
+import { Card } from '@/shared/components/ui/card';
+import { Button } from '@/shared/components/ui/button';
+import { Badge } from '@/shared/components/ui/badge';
+import { ConfirmationDialog } from '@/shared/components/ui/confirmation-dialog';
+import { useConfirmation } from '@/shared/hooks/useConfirmation';
+import { useAsyncOperation } from '@/shared/hooks/useAsyncOperation';
+import { propertyModerationService } from '../services/propertyModerationService';
+import type {
+  DuplicateClusterData,
+  DuplicateClusterProperty,
+  DuplicateFlagData,
+  DuplicateFlagStatus,
+  DuplicateReviewDecision
+} from '../types/moderation';
+
+interface DuplicateClustersPanelProps {
+  onReviewed?: () => void;
+}
+
+const SIGNAL_LABELS: Array<[keyof Omit<DuplicateFlagData['signals'], 'distanceMeters'>, string]> = [
+  ['address', 'Address'],
+  ['distance', 'Location'],
+  ['price', 'Price'],
+  ['area', 'Area'],
+  ['image', 'Photos'],
+];
+
+const SOURCE_LABELS: Record<DuplicateFlagData['source'], string> = {
+  create: 'On create',
+  bulk_upload: 'Bulk upload',
+  image: 'Photo match',
+};
+
+const formatPercent = (value: number) => `${Math.round(Number(value) * 100)}%`;
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 0,
+  }).format(price);
+};
+
+const getScoreBadgeColor = (score: number) => {
+  if (score >= 0.92) return 'bg-red-100 text-red-800';
+  if (score >= 0.85) return 'bg-orange-100 text-orange-800';
+  return 'bg-yellow-100 text-yellow-800';
+};
+
+export function DuplicateClustersPanel({ onReviewed }: DuplicateClustersPanelProps) {
+  const [clusters, setClusters] = useState<DuplicateClusterData[]>([]);
+  const [status, setStatus] = useState<DuplicateFlagStatus>('pending');
+  const { confirm, isOpen, config, loading: confirmLoading, handleConfirm, handleCancel } = useConfirmation();
+
+  const {
+    loading,
+    execute: fetchClusters,
+  } = useAsyncOperation(
+    async () => {
+      const response = await propertyModerationService.getDuplicateClusters(status);
+      if (response.success) {
+        const clusters = response.data ?? [];
+        setClusters(clusters);
+        return clusters;
+      } else {
+        throw new Error(response.error?.message || 'Failed to fetch duplicate listings');
+      }
+    },
+    {
+      showErrorToast: true,
+      errorMessage: 'Failed to load duplicate listings',
+    }
+  );
+
+  const {
+    loading: reviewLoading,
+    execute: executeReview,
+  } = useAsyncOperation(
+    async ({ flagIds, decision, keepPropertyId }: { flagIds: number[]; decision: DuplicateReviewDecision; keepPropertyId?: number }) => {
+      const response = await propertyModerationService.reviewDuplicateCluster(flagIds, decision, keepPropertyId);
+      if (response.success) {
+        await fetchClusters();
+        onReviewed?.();
+        return response.data;
+      } else {
+        throw new Error(response.error?.message || 'Failed to review duplicate listings');
+      }
+    },
+    {
+      showSuccessToast: true,
+      successMessage: 'Duplicate review saved',
+      showErrorToast: true,
+    }
+  );
+
+  useEffect(() => {
+    fetchClusters();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status]);
+
+  const dismissCluster = async (cluster: DuplicateClusterData) => {
+    try {
+      const confirmed = await confirm({
+        title: 'Not Duplicates',
+        description: `Mark the ${cluster.properties.length} listings in this group as distinct? They will not be flagged against each other again.`,
+        confirmText: 'Dismiss',
+        cancelText: 'Cancel',
+      });
+
+      if (confirmed) {
+        await executeReview({ flagIds: cluster.flags.map(flag => flag.id), decision: 'dismiss' });
+      }
+    } catch (error) {
+      // Error is already handled by useAsyncOperation
+    }
+  };
+
+  const keepListing = async (cluster: DuplicateClusterData, property: DuplicateClusterProperty) => {
+    try {
+      const confirmed = await confirm({
+        title: 'Confirm Duplicates',
+        description: `Keep "${property.title}" and take down the other ${cluster.properties.length - 1} listing(s) in this group? Published listings are archived and pending ones rejected.`,
+        confirmText: 'Keep This Listing',
+        cancelText: 'Cancel',
+        variant: 'destructive',
+        icon: 'solar:copy-bold',
+      });
+
+      if (confirmed) {
+        await executeReview({
+          flagIds: cluster.flags.map(flag => flag.id),
+          decision: 'confirm',
+          keepPropertyId: property.id,
+        });
+      }
+    } catch (error) {
+      // Error is already handled by useAsyncOperation
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <p className="text-sm text-gray-600">
+            Listings scored as likely duplicates of each other, grouped together. Flags come from new listings,
+            bulk uploads and matching photos.
+          </p>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as DuplicateFlagStatus)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="pending">Needs Review</option>
+            <option value="confirmed">Confirmed</option>
+            <option value="dismissed">Dismissed</option>
+          </select>
+        </div>
+      </Card>
+
+      {loading && clusters.length === 0 && (
+        <div className="flex items-center justify-center py-12">
+          <Icon icon="solar:refresh-bold" className="size-8 animate-spin text-primary" />
+        </div>
+      )}
+
+      {!loading && clusters.length === 0 && (
+        <Card className="p-8 text-center text-gray-500">
+          No duplicate listings {status === 'pending' ? 'waiting for review' : status}.
+        </Card>
+      )}
+
+      {clusters.map(cluster => (
+        <Card key={cluster.clusterId} className="p-4 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <h3 className="font-semibold text-gray-900">{cluster.properties.length} similar listings</h3>
+              <Badge className={getScoreBadgeColor(cluster.maxScore)}>
+                Up to {formatPercent(cluster.maxScore)} match
+              </Badge>
+            </div>
+            {status === 'pending' && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => dismissCluster(cluster)}
+                disabled={reviewLoading}
+              >
+                Not Duplicates
+              </Button>
+            )}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Listing</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Owner</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">State</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {cluster.properties.map(property => {
+                  const image = property.images?.find(candidate => candidate.is_primary) || property.images?.[0];
+
+                  return (
+                    <tr key={property.id}>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center gap-3">
+                          {image ? (
+                            <img
+                              src={image.thumbnail_url || image.image_url}
+                              alt={property.title}
+                              className="size-12 rounded object-cover"
+                            />
+                          ) : (
+                            <div className="size-12 rounded bg-gray-100" />
+                          )}
+                          <div>
+                            <a
+                              href={`/property/${property.id}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-sm font-medium text-gray-900 hover:underline"
+                            >
+                              #{property.id} {property.title}
+                            </a>
+                            <div className="text-sm text-gray-500">
+                              {property.address}, {property.city}
+                              {property.area_sqft ? ` • ${property.area_sqft} sqft` : ''}
+                              {property.bedrooms ? ` • ${property.bedrooms} BHK` : ''}
+                            </div>
+                          </div>
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                        {formatPrice(Number(property.price))}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <div className="text-sm text-gray-900">
+                          {property.owner ? `${property.owner.first_name} ${property.owner.last_name}` : 'N/A'}
+                        </div>
+                        <div className="text-sm text-gray-500">{property.owner?.email || 'N/A'}</div>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <Badge variant="secondary" className="capitalize">
+                          {property.listing_state.replace('_', ' ')}
+                        </Badge>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-right">
+                        {status === 'pending' && (
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => keepListing(cluster, property)}
+                            disabled={reviewLoading}
+                          >
+                            Keep This, Remove Others
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <ul className="space-y-1 text-xs text-gray-500">
+            {cluster.flags.map(flag => (
+              <li key={flag.id}>
+                <span className="font-medium text-gray-700">
+                  #{flag.property_id} ↔ #{flag.duplicate_of_id}: {formatPercent(flag.score)}
+                </span>
+                {' '}({SOURCE_LABELS[flag.source]})
+                {' · '}
+                {SIGNAL_LABELS
+                  .filter(([signal]) => flag.signals[signal] !== null)
+                  .map(([signal, label]) => `${label} ${formatPercent(flag.signals[signal] as number)}`)
+                  .join(' · ')}
+                {flag.signals.distanceMeters !== null && flag.signals.distanceMeters !== undefined
+                  ? ` · ${flag.signals.distanceMeters}m apart`
+                  : ''}
+              </li>
+            ))}
+          </ul>
+        </Card>
+      ))}
+
+      <ConfirmationDialog
+        isOpen={isOpen}
+        onClose={handleCancel}
+        onConfirm={handleConfirm}
+        loading={confirmLoading}
+        {...config}
+      />
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ export { AdminSidebar } from './AdminSidebar';
 export { AdminTopBar } from './AdminTopBar';
 export { QuickActionCard } from './QuickActionCard';
 export { UserTable } from './UserTable';
+export { DuplicateClustersPanel } from './DuplicateClustersPanel';
 
 // Export types for external use
 export type { NavItem } from './AdminSidebar';
@@ -4,6 +4,7 @@ import { Button } from '@/shared/components/ui/button';
 import { Badge } from '@/shared/components/ui/badge';
 import { Icon } from '@iconify/react';
 import { propertyModerationService } from '../services/propertyModerationService';
+import { DuplicateClustersPanel } from '../components/DuplicateClustersPanel';
 import { ConfirmationDialog } from '@/shared/components/ui/confirmation-dialog';
 import { useConfirmation } from '@/shared/hooks/useConfirmation';
 import { useErrorHandler } from '@/shared/hooks/useErrorHandler';
@@ -64,6 +65,7 @@ interface PropertyFilters {
 }
 
 export function PropertyModerationPage() {
+  const [view, setView] = useState<'listings' | 'duplicates'>('listings');
   const [properties, setProperties] = useState<PropertyModerationData[]>([]);
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
@@ -241,6 +243,40 @@ export function PropertyModerationPage() {
     }).format(price);
   };
 
+  const pageHeader = (
+    <div className="flex flex-wrap items-end justify-between gap-4">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Property Moderation</h1>
+        <p className="text-gray-600">Review and manage property listings</p>
+      </div>
+      <div className="flex gap-2">
+        <Button
+          variant={view === 'listings' ? 'default' : 'outline'}
+          onClick={() => setView('listings')}
+        >
+          <Icon icon="solar:home-2-bold" className="mr-2 size-4" />
+          All Listings
+        </Button>
+        <Button
+          variant={view === 'duplicates' ? 'default' : 'outline'}
+          onClick={() => setView('duplicates')}
+        >
+          <Icon icon="solar:copy-bold" className="mr-2 size-4" />
+          Duplicates
+        </Button>
+      </div>
+    </div>
+  );
+
+  if (view === 'duplicates') {
+    return (
+      <div className="space-y-6">
+        {pageHeader}
+        <DuplicateClustersPanel onReviewed={fetchProperties} />
+      </div>
+    );
+  }
+
   if (loading && properties.length === 0) {
     return (
       <div className="flex items-center justify-center min-h-64">
@@ -255,10 +291,7 @@ export function PropertyModerationPage() {
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div>
-        <h1 className="text-3xl font-bold text-gray-900 mb-2">Property Moderation</h1>
-        <p className="text-gray-600">Review and manage property listings</p>
-      </div>
+      {pageHeader}
 
       {/* Filters */}
       <Card className="p-6">
@@ -1,6 +1,12 @@
 import { httpClient } from '@/shared/lib/httpClient';
 import type { ApiResponse, PaginatedResponse } from '@/shared/types';
-import type { PropertyModerationData, PropertyModerationFilters } from '../types/moderation';
+import type {
+  DuplicateClusterData,
+  DuplicateFlagStatus,
+  DuplicateReviewDecision,
+  PropertyModerationData,
+  PropertyModerationFilters
+} from '../types/moderation';
 
 export interface PropertyModerationService {
   getProperties(params: PropertyModerationFilters & { page: number; limit: number }): Promise<ApiResponse<PaginatedResponse<PropertyModerationData>>>;
@@ -9,6 +15,8 @@ export interface PropertyModerationService {
   approveProperty(propertyId: number, reason?: string): Promise<ApiResponse<void>>;
   rejectProperty(propertyId: number, reason: string): Promise<ApiResponse<void>>;
   deleteProperty(propertyId: number): Promise<ApiResponse<void>>;
+  getDuplicateClusters(status?: DuplicateFlagStatus): Promise<ApiResponse<DuplicateClusterData[]>>;
+  reviewDuplicateCluster(flagIds: number[], decision: DuplicateReviewDecision, keepPropertyId?: number): Promise<ApiResponse<{ takenDownPropertyIds: number[] }>>;
 }
 
 class PropertyModerationServiceImpl implements PropertyModerationService {
@@ -183,6 +191,66 @@ class PropertyModerationServiceImpl implements PropertyModerationService {
       };
     }
   }
+
+  async getDuplicateClusters(status: DuplicateFlagStatus = 'pending'): Promise<ApiResponse<DuplicateClusterData[]>> {
+    try {
+      const response = await httpClient.get<{
+        success: boolean;
+        data: DuplicateClusterData[];
+      }>(`/admin/duplicates?status=${status}`);
+
+      return {
+        success: true,
+        data: response.data,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error: any) {
+      console.error('Error fetching duplicate clusters:', error);
+      return {
+        success: false,
+        data: [],
+        error: {
+          code: 'DUPLICATE_FETCH_ERROR',
+          message: error.response?.data?.error?.message || 'Failed to fetch duplicate listings'
+        },
+        timestamp: new Date().toISOString()
+      };
+    }
+  }
+
+  async reviewDuplicateCluster(
+    flagIds: number[],
+    decision: DuplicateReviewDecision,
+    keepPropertyId?: number
+  ): Promise<ApiResponse<{ takenDownPropertyIds: number[] }>> {
+    try {
+      const response = await httpClient.post<{
+        success: boolean;
+        data: { takenDownPropertyIds: number[] };
+      }>('/admin/duplicates/review', {
+        flagIds,
+        decision,
+        keepPropertyId
+      });
+
+      return {
+        success: true,
+        data: response.data,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error: any) {
+      console.error('Error reviewing duplicate cluster:', error);
+      return {
+        success: false,
+        data: { takenDownPropertyIds: [] },
+        error: {
+          code: 'DUPLICATE_REVIEW_ERROR',
+          message: error.response?.data?.error?.message || 'Failed to review duplicate listings'
+        },
+        timestamp: new Date().toISOString()
+      };
+    }
+  }
 }
 
 export const propertyModerationService = new PropertyModerationServiceImpl();
\ No newline at end of file
@@ -38,6 +38,67 @@ export interface PropertyModerationAction {
   reason?: string;
 }
 
+export type DuplicateFlagStatus = 'pending' | 'dismissed' | 'confirmed';
+
+export type DuplicateReviewDecision = 'dismiss' | 'confirm';
+
+export interface DuplicateClusterProperty {
+  id: number;
+  user_id: number;
+  title: string;
+  property_type: string;
+  listing_type: string;
+  price: number;
+  area_sqft?: number;
+  bedrooms?: number;
+  address: string;
+  city: string;
+  postal_code?: string;
+  listing_state: string;
+  is_active: boolean;
+  created_at: string;
+  owner?: {
+    id: number;
+    first_name: string;
+    last_name: string;
+    email: string;
+    role: string;
+  };
+  images?: Array<{
+    id: number;
+    image_url: string;
+    thumbnail_url?: string;
+    is_primary: boolean;
+    display_order: number;
+  }>;
+}
+
+// One scored pair; property_id is always the newer listing
+export interface DuplicateFlagData {
+  id: number;
+  property_id: number;
+  duplicate_of_id: number;
+  score: number;
+  signals: {
+    address: number | null;
+    distance: number | null;
+    price: number | null;
+    area: number | null;
+    image: number | null;
+    distanceMeters?: number | null;
+  };
+  source: 'create' | 'bulk_upload' | 'image';
+  status: DuplicateFlagStatus;
+  created_at: string;
+}
+
+export interface DuplicateClusterData {
+  clusterId: number;
+  maxScore: number;
+  properties: DuplicateClusterProperty[];
+  flags: DuplicateFlagData[];
+}
+
 export interface ReviewModerationData {
   id: number;
   propertyId: number;
@@ -0,0 +1,198 @@
+import { useEffect, useState } from 'react';
+import { Icon } from '@iconify/react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import { Badge } from '@/shared/components/ui/badge';
+import { Button } from '@/shared/components/ui/button';
+import { ConfirmationDialog } from '@/shared/components/ui/confirmation-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/shared/components/ui/dialog';
+import { useConfirmation } from '@/shared/hooks/useConfirmation';
+import { leadService } from '../services/leadService';
+import { LEAD_SOURCE_LABELS, LEAD_STAGE_STYLES } from './RoutedLeadsTable';
+import type { Contact, ContactDetail, PipelineStage } from '../types';
+
+interface ContactDetailDialogProps {
+  contactId: number | null;
+  stages: PipelineStage[];
+  onClose: () => void;
+  // Called after another contact was merged into this one
+  onMerged: (contact: ContactDetail) => void;
+}
+
+// Contacts keep phone numbers as their last 10 digits
+const normalizePhone = (phone: string) => phone.replace(/\D/g, '').slice(-10);
+
+const ContactDetailDialog = ({ contactId, stages, onClose, onMerged }: ContactDetailDialogProps) => {
+  const [contact, setContact] = useState<ContactDetail | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [merging, setMerging] = useState(false);
+  const { confirm, isOpen, config, loading: confirmLoading, handleConfirm, handleCancel } = useConfirmation();
+
+  useEffect(() => {
+    if (!contactId) {
+      setContact(null);
+      return;
+    }
+    fetchContact(contactId);
+  }, [contactId]);
+
+  const fetchContact = async (id: number) => {
+    try {
+      setLoading(true);
+      setContact(await leadService.fetchContact(id));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load contact');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMerge = async (duplicate: Contact) => {
+    if (!contact) return;
+
+    const confirmed = await confirm({
+      title: 'Merge Contacts',
+      description: `Move ${duplicate.name}'s ${duplicate.inquiry_count} inquiries, emails and phone numbers to ${contact.name}? ${duplicate.name} will be removed as a separate contact.`,
+      confirmText: 'Merge',
+      cancelText: 'Cancel',
+      icon: 'solar:users-group-rounded-bold',
+    });
+    if (!confirmed) return;
+
+    try {
+      setMerging(true);
+      const merged = await leadService.mergeContacts(contact.id, [duplicate.id]);
+      setContact(merged);
+      onMerged(merged);
+      toast.success('Contacts merged');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to merge contacts');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const stageLabel = (stage: string) => stages.find(s => s.stage === stage)?.label || stage;
+
+  return (
+    <>
+      <Dialog open={!!contactId} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{contact?.name || 'Contact'}</DialogTitle>
+          </DialogHeader>
+
+          {loading && !contact ? (
+            <div className="py-8 text-center text-muted-foreground">Loading contact...</div>
+          ) : contact && (
+            <div className="space-y-6">
+              <div className="flex flex-wrap gap-2">
+                {contact.emails.map(email => (
+                  <Badge key={email} variant="outline">
+                    <Icon icon="solar:letter-bold" className="size-3 mr-1" />
+                    {email}
+                  </Badge>
+                ))}
+                {contact.phones.map(phone => (
+                  <Badge key={phone} variant="outline">
+                    <Icon icon="solar:phone-bold" className="size-3 mr-1" />
+                    {phone}
+                  </Badge>
+                ))}
+              </div>
+
+              <div>
+                <h3 className="font-semibold mb-3">
+                  Inquiries ({contact.inquiries.length})
+                </h3>
+                <div className="space-y-3">
+                  {contact.inquiries.map(inquiry => (
+                    <div key={inquiry.id} className="rounded-lg border p-3">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2 font-medium">
+                            <Icon
+                              icon={inquiry.listing?.type === 'project' ? 'solar:buildings-2-bold' : 'solar:home-2-bold'}
+                              className="size-4 text-muted-foreground shrink-0"
+                            />
+                            <span className="truncate">{inquiry.listing?.title || 'Listing removed'}</span>
+                          </div>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {LEAD_SOURCE_LABELS[inquiry.source]}
+                            {inquiry.listing?.city ? ` · ${inquiry.listing.city}` : ''}
+                            {` · ${format(new Date(inquiry.created_at), 'dd MMM yyyy')}`}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          {inquiry.score !== null && (
+                            <Badge variant="outline" className="text-xs">Score {inquiry.score}</Badge>
+                          )}
+                          <Badge className={`${LEAD_STAGE_STYLES[inquiry.stage]} text-xs`}>
+                            {stageLabel(inquiry.stage)}
+                          </Badge>
+                        </div>
+                      </div>
+                      <p className="text-sm text-muted-foreground mt-2 line-clamp-2">{inquiry.message}</p>
+                      {(inquiry.email.toLowerCase() !== contact.email ||
+                        (inquiry.phone && normalizePhone(inquiry.phone) !== contact.phone)) && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          As {inquiry.email}{inquiry.phone ? `, ${inquiry.phone}` : ''}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {contact.possible_duplicates.length > 0 && (
+                <div>
+                  <h3 className="font-semibold mb-1">Possible duplicates</h3>
+                  <p className="text-sm text-muted-foreground mb-3">
+                    The same name, or a phone number one of these inquiries used
+                  </p>
+                  <div className="space-y-2">
+                    {contact.possible_duplicates.map(duplicate => (
+                      <div key={duplicate.id} className="flex items-center justify-between rounded-lg border p-3">
+                        <div className="min-w-0">
+                          <p className="font-medium">{duplicate.name}</p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {[...duplicate.emails, ...duplicate.phones].join(' · ')}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {duplicate.inquiry_count} {duplicate.inquiry_count === 1 ? 'inquiry' : 'inquiries'}
+                            {duplicate.last_inquiry_at
+                              ? `, last ${formatDistanceToNow(new Date(duplicate.last_inquiry_at), { addSuffix: true })}`
+                              : ''}
+                          </p>
+                        </div>
+                        <Button size="sm" variant="outline" disabled={merging} onClick={() => handleMerge(duplicate)}>
+                          <Icon icon="solar:users-group-rounded-bold" className="size-4 mr-1" />
+                          Merge here
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmationDialog
+        isOpen={isOpen}
+        onClose={handleCancel}
+        onConfirm={handleConfirm}
+        loading={confirmLoading}
+        {...config}
+      />
+    </>
+  );
+};
+
+export default ContactDetailDialog;
@@ -0,0 +1,252 @@
+import { useEffect, useState } from 'react';
+import { Icon } from '@iconify/react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import { Button } from '@/shared/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Checkbox } from '@/shared/components/ui/checkbox';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/shared/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/shared/components/ui/table';
+import { leadService } from '../services/leadService';
+import ContactDetailDialog from './ContactDetailDialog';
+import type { Contact, PipelineStage } from '../types';
+
+interface ContactsPanelProps {
+  stages: PipelineStage[];
+}
+
+const PAGE_SIZE = 20;
+
+const ContactsPanel = ({ stages }: ContactsPanelProps) => {
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [openContactId, setOpenContactId] = useState<number | null>(null);
+
+  // Contacts picked for a merge, and the one kept
+  const [selected, setSelected] = useState<Contact[]>([]);
+  const [mergeOpen, setMergeOpen] = useState(false);
+  const [keepId, setKeepId] = useState<string>('');
+  const [merging, setMerging] = useState(false);
+
+  useEffect(() => {
+    fetchContacts();
+  }, [search, page]);
+
+  const fetchContacts = async () => {
+    try {
+      setLoading(true);
+      const result = await leadService.fetchContacts({ search: search || undefined, page, limit: PAGE_SIZE });
+      setContacts(result.contacts);
+      setTotal(result.total);
+      setTotalPages(result.totalPages);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load contacts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setSearch(searchInput.trim());
+  };
+
+  const toggleSelected = (contact: Contact) => {
+    setSelected(current => current.some(c => c.id === contact.id)
+      ? current.filter(c => c.id !== contact.id)
+      : [...current, contact]);
+  };
+
+  const openMerge = () => {
+    // Keep the contact with the most inquiries by default
+    const keep = [...selected].sort((a, b) => b.inquiry_count - a.inquiry_count)[0];
+    setKeepId(keep.id.toString());
+    setMergeOpen(true);
+  };
+
+  const handleMerge = async () => {
+    const contactId = parseInt(keepId);
+    try {
+      setMerging(true);
+      await leadService.mergeContacts(contactId, selected.filter(c => c.id !== contactId).map(c => c.id));
+      toast.success('Contacts merged');
+      setMergeOpen(false);
+      setSelected([]);
+      fetchContacts();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to merge contacts');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const handleMerged = () => {
+    setSelected([]);
+    fetchContacts();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <CardTitle>Contacts ({total})</CardTitle>
+            <CardDescription>
+              Everyone who has inquired about your listings, with their inquiries across properties and projects
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <form onSubmit={handleSearch} className="flex items-center gap-2">
+              <Input
+                placeholder="Name, email or phone"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                className="w-56"
+              />
+              <Button type="submit" variant="outline" size="sm">
+                <Icon icon="solar:magnifer-bold" className="size-4" />
+              </Button>
+            </form>
+            <Button size="sm" disabled={selected.length < 2} onClick={openMerge}>
+              <Icon icon="solar:users-group-rounded-bold" className="size-4 mr-1" />
+              Merge{selected.length > 1 ? ` (${selected.length})` : ''}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading && contacts.length === 0 ? (
+          <div className="py-8 text-center text-muted-foreground">Loading contacts...</div>
+        ) : contacts.length === 0 ? (
+          <div className="py-8 text-center text-muted-foreground">
+            <Icon icon="solar:users-group-rounded-bold" className="size-12 mx-auto mb-3 text-gray-300" />
+            <p>{search ? 'No contacts match your search' : 'No contacts yet'}</p>
+          </div>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10"></TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email and phone</TableHead>
+                  <TableHead>Inquiries</TableHead>
+                  <TableHead>Last inquiry</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {contacts.map(contact => (
+                  <TableRow key={contact.id}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selected.some(c => c.id === contact.id)}
+                        onCheckedChange={() => toggleSelected(contact)}
+                        aria-label={`Select ${contact.name}`}
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium">{contact.name}</TableCell>
+                    <TableCell>
+                      <div className="text-sm">{contact.emails.join(', ')}</div>
+                      {contact.phones.length > 0 && (
+                        <div className="text-xs text-muted-foreground">{contact.phones.join(', ')}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{contact.inquiry_count}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {contact.last_inquiry_at
+                        ? formatDistanceToNow(new Date(contact.last_inquiry_at), { addSuffix: true })
+                        : '-'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="outline" onClick={() => setOpenContactId(contact.id)}>
+                        Open
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {totalPages > 1 && (
+              <div className="flex items-center justify-end gap-2 mt-4">
+                <Button size="sm" variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                  Previous
+                </Button>
+                <span className="text-sm text-muted-foreground">Page {page} of {totalPages}</span>
+                <Button size="sm" variant="outline" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                  Next
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={mergeOpen} onOpenChange={setMergeOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge {selected.length} contacts</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              The inquiries, emails and phone numbers of the others move to the contact you keep.
+            </p>
+            <div className="space-y-2">
+              <Label>Keep</Label>
+              <Select value={keepId} onValueChange={setKeepId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {selected.map(contact => (
+                    <SelectItem key={contact.id} value={contact.id.toString()}>
+                      {contact.name} ({contact.email || contact.phone})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMergeOpen(false)}>Cancel</Button>
+            <Button onClick={handleMerge} disabled={merging || !keepId}>
+              {merging ? 'Merging...' : 'Merge'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ContactDetailDialog
+        contactId={openContactId}
+        stages={stages}
+        onClose={() => setOpenContactId(null)}
+        onMerged={handleMerged}
+      />
+    </Card>
+  );
+};
+
+export default ContactsPanel;
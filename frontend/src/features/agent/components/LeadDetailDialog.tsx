@@ -0,0 +1,357 @@
+import { useEffect, useState } from 'react';
+import { Icon } from '@iconify/react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import { Badge } from '@/shared/components/ui/badge';
+import { Button } from '@/shared/components/ui/button';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Textarea } from '@/shared/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/shared/components/ui/dialog';
+import { leadService } from '../services/leadService';
+import { LEAD_SOURCE_LABELS, LEAD_STAGE_STYLES } from './RoutedLeadsTable';
+import type { LeadActivity, LeadActivityType, LeadStage, LoggedActivityType, PipelineStage, RoutedLead } from '../types';
+
+interface LeadDetailDialogProps {
+  lead: RoutedLead | null;
+  stages: PipelineStage[];
+  onClose: () => void;
+  onLeadUpdated: (lead: RoutedLead) => void;
+}
+
+const ACTIVITY_ICONS: Record<LeadActivityType, string> = {
+  note: 'solar:notes-bold',
+  call: 'solar:phone-calling-bold',
+  whatsapp: 'solar:chat-round-dots-bold',
+  follow_up: 'solar:calendar-bold',
+  stage_change: 'solar:routing-bold',
+};
+
+const ACTIVITY_LABELS: Record<LoggedActivityType, string> = {
+  note: 'Note',
+  call: 'Call',
+  whatsapp: 'WhatsApp',
+  follow_up: 'Follow-up',
+};
+
+// Formats a date for a datetime-local input
+const toLocalInput = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+const LeadDetailDialog = ({ lead, stages, onClose, onLeadUpdated }: LeadDetailDialogProps) => {
+  const [activities, setActivities] = useState<LeadActivity[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Stage change; lost leads need a reason before they are saved
+  const [pendingStage, setPendingStage] = useState<LeadStage | null>(null);
+  const [lostReason, setLostReason] = useState('');
+  const [savingStage, setSavingStage] = useState(false);
+
+  // Activity form
+  const [activityType, setActivityType] = useState<LoggedActivityType>('note');
+  const [content, setContent] = useState('');
+  const [occurredAt, setOccurredAt] = useState('');
+  const [followUpAt, setFollowUpAt] = useState('');
+  const [savingActivity, setSavingActivity] = useState(false);
+
+  useEffect(() => {
+    if (!lead) return;
+
+    setPendingStage(null);
+    setLostReason('');
+    setContent('');
+    setOccurredAt('');
+    setFollowUpAt('');
+    fetchActivities(lead.id);
+  }, [lead?.id]);
+
+  const fetchActivities = async (leadId: number) => {
+    try {
+      setLoading(true);
+      setActivities(await leadService.fetchLeadActivities(leadId));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load lead activity');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const stageLabel = (stage: LeadStage | null) =>
+    stages.find(s => s.stage === stage)?.label || stage || '';
+
+  const saveStage = async (stage: LeadStage, reason?: string) => {
+    if (!lead) return;
+
+    try {
+      setSavingStage(true);
+      const updated = await leadService.changeLeadStage(lead.id, stage, reason);
+      onLeadUpdated(updated);
+      setPendingStage(null);
+      setLostReason('');
+      toast.success(`Moved to ${stageLabel(stage)}`);
+      fetchActivities(lead.id);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update lead stage');
+    } finally {
+      setSavingStage(false);
+    }
+  };
+
+  const handleStageSelect = (value: string) => {
+    const stage = value as LeadStage;
+    if (stage === 'lost') {
+      setPendingStage(stage);
+      return;
+    }
+    saveStage(stage);
+  };
+
+  const handleAddActivity = async () => {
+    if (!lead) return;
+
+    try {
+      setSavingActivity(true);
+      const activity = await leadService.addLeadActivity(lead.id, {
+        type: activityType,
+        content: content.trim() || undefined,
+        occurredAt: activityType !== 'follow_up' && occurredAt ? new Date(occurredAt).toISOString() : undefined,
+        followUpAt: activityType === 'follow_up' && followUpAt ? new Date(followUpAt).toISOString() : undefined,
+      });
+
+      setContent('');
+      setOccurredAt('');
+      setFollowUpAt('');
+      toast.success(`${ACTIVITY_LABELS[activityType]} logged`);
+
+      // A call or message on a new lead moves it to contacted
+      if ((activity.type === 'call' || activity.type === 'whatsapp') && lead.stage === 'new') {
+        onLeadUpdated({ ...lead, stage: 'contacted', status: 'contacted' });
+      } else if (activity.type === 'follow_up' && activity.follow_up_at &&
+        (!lead.next_follow_up_at || new Date(activity.follow_up_at) < new Date(lead.next_follow_up_at))) {
+        onLeadUpdated({ ...lead, next_follow_up_at: activity.follow_up_at });
+      }
+      fetchActivities(lead.id);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to log activity');
+    } finally {
+      setSavingActivity(false);
+    }
+  };
+
+  const handleCompleteFollowUp = async (activity: LeadActivity) => {
+    if (!lead) return;
+
+    try {
+      const completed = await leadService.completeFollowUp(lead.id, activity.id);
+      const remaining = activities
+        .filter(a => a.type === 'follow_up' && !a.completed_at && a.id !== activity.id && a.follow_up_at)
+        .map(a => a.follow_up_at!)
+        .sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+
+      setActivities(activities.map(a => (a.id === completed.id ? completed : a)));
+      onLeadUpdated({ ...lead, next_follow_up_at: remaining[0] || null });
+      toast.success('Follow-up marked as done');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to complete follow-up');
+    }
+  };
+
+  const describeActivity = (activity: LeadActivity) => {
+    switch (activity.type) {
+      case 'stage_change':
+        return `Moved from ${stageLabel(activity.from_stage)} to ${stageLabel(activity.to_stage)}`;
+      case 'follow_up':
+        return `Follow-up due ${format(new Date(activity.follow_up_at!), 'MMM d, h:mm a')}`;
+      default:
+        return ACTIVITY_LABELS[activity.type];
+    }
+  };
+
+  const canSaveActivity = activityType === 'follow_up' ? !!followUpAt : !!content.trim();
+
+  return (
+    <Dialog open={!!lead} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        {lead && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{lead.name}</DialogTitle>
+            </DialogHeader>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+              <div className="space-y-1">
+                <div className="flex items-center">
+                  <Icon icon="solar:letter-bold" className="size-4 mr-2 text-muted-foreground" />
+                  <a href={`mailto:${lead.email}`} className="hover:underline">{lead.email}</a>
+                </div>
+                {lead.phone && (
+                  <div className="flex items-center">
+                    <Icon icon="solar:phone-bold" className="size-4 mr-2 text-muted-foreground" />
+                    <a href={`tel:${lead.phone}`} className="hover:underline">{lead.phone}</a>
+                  </div>
+                )}
+                <div className="text-muted-foreground">
+                  {lead.listing?.title || 'Removed listing'} · {LEAD_SOURCE_LABELS[lead.source]}
+                </div>
+                <div className="text-muted-foreground">
+                  Received {format(new Date(lead.created_at), 'MMM d, yyyy')}
+                  {lead.assignee && ` · Assigned to ${lead.assignee.name}`}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Stage</Label>
+                <Select value={pendingStage || lead.stage} onValueChange={handleStageSelect} disabled={savingStage}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {/* Switched-off stages are only listed while the lead is still in one */}
+                    {stages.filter(stage => stage.is_enabled || stage.stage === lead.stage).map(stage => (
+                      <SelectItem key={stage.stage} value={stage.stage} disabled={!stage.is_enabled}>{stage.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {pendingStage === 'lost' && (
+                  <div className="space-y-2">
+                    <Input
+                      placeholder="Why was the lead lost?"
+                      value={lostReason}
+                      maxLength={255}
+                      onChange={(e) => setLostReason(e.target.value)}
+                    />
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={() => saveStage('lost', lostReason.trim())} disabled={!lostReason.trim() || savingStage}>
+                        Mark as Lost
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setPendingStage(null)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                )}
+                {lead.stage === 'lost' && lead.lost_reason && !pendingStage && (
+                  <p className="text-xs text-muted-foreground">Lost: {lead.lost_reason}</p>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <h4 className="font-medium mb-2">Message</h4>
+              <p className="text-sm bg-muted p-3 rounded-lg">{lead.message}</p>
+            </div>
+
+            {/* Log activity */}
+            <div className="space-y-3 border rounded-lg p-4">
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(ACTIVITY_LABELS) as LoggedActivityType[]).map(type => (
+                  <Button
+                    key={type}
+                    size="sm"
+                    variant={activityType === type ? 'default' : 'outline'}
+                    onClick={() => setActivityType(type)}
+                  >
+                    <Icon icon={ACTIVITY_ICONS[type]} className="size-4 mr-1" />
+                    {ACTIVITY_LABELS[type]}
+                  </Button>
+                ))}
+              </div>
+              <Textarea
+                placeholder={activityType === 'follow_up' ? 'What to follow up on (optional)' : 'What happened?'}
+                value={content}
+                maxLength={2000}
+                rows={3}
+                onChange={(e) => setContent(e.target.value)}
+              />
+              <div className="flex flex-wrap items-end justify-between gap-3">
+                {activityType === 'follow_up' ? (
+                  <div className="space-y-1">
+                    <Label htmlFor="follow-up-at">Remind me at</Label>
+                    <Input
+                      id="follow-up-at"
+                      type="datetime-local"
+                      min={toLocalInput(new Date())}
+                      value={followUpAt}
+                      onChange={(e) => setFollowUpAt(e.target.value)}
+                    />
+                  </div>
+                ) : activityType !== 'note' ? (
+                  <div className="space-y-1">
+                    <Label htmlFor="occurred-at">When (leave empty for now)</Label>
+                    <Input
+                      id="occurred-at"
+                      type="datetime-local"
+                      max={toLocalInput(new Date())}
+                      value={occurredAt}
+                      onChange={(e) => setOccurredAt(e.target.value)}
+                    />
+                  </div>
+                ) : <div />}
+                <Button onClick={handleAddActivity} disabled={!canSaveActivity || savingActivity}>
+                  {savingActivity ? 'Saving...' : `Log ${ACTIVITY_LABELS[activityType]}`}
+                </Button>
+              </div>
+            </div>
+
+            {/* Timeline */}
+            <div>
+              <h4 className="font-medium mb-3">Activity</h4>
+              {loading ? (
+                <div className="flex justify-center items-center h-20">
+                  <Icon icon="solar:refresh-bold" className="size-5 mr-2 animate-spin" />
+                  <span>Loading activity...</span>
+                </div>
+              ) : activities.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No activity yet.</p>
+              ) : (
+                <ol className="space-y-4">
+                  {activities.map(activity => (
+                    <li key={activity.id} className="flex gap-3">
+                      <div className="mt-0.5 rounded-full bg-muted p-2 h-fit">
+                        <Icon icon={ACTIVITY_ICONS[activity.type]} className="size-4" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-medium text-sm">{describeActivity(activity)}</span>
+                          {activity.type === 'stage_change' && activity.to_stage && (
+                            <Badge className={LEAD_STAGE_STYLES[activity.to_stage]}>{stageLabel(activity.to_stage)}</Badge>
+                          )}
+                          {activity.type === 'follow_up' && (
+                            activity.completed_at ? (
+                              <Badge className="bg-green-100 text-green-800">Done</Badge>
+                            ) : new Date(activity.follow_up_at!) < new Date() ? (
+                              <Badge className="bg-red-100 text-red-800">Overdue</Badge>
+                            ) : null
+                          )}
+                        </div>
+                        {activity.content && (
+                          <p className="text-sm whitespace-pre-line mt-1">{activity.content}</p>
+                        )}
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {activity.user?.name || 'System'} · {formatDistanceToNow(new Date(activity.occurred_at), { addSuffix: true })}
+                        </div>
+                      </div>
+                      {activity.type === 'follow_up' && !activity.completed_at && (
+                        <Button variant="ghost" size="sm" onClick={() => handleCompleteFollowUp(activity)}>
+                          <Icon icon="solar:check-circle-bold" className="size-4 mr-1" />
+                          Done
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LeadDetailDialog;
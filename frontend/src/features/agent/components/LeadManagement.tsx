@@ -4,46 +4,61 @@ import { Button } from '@/shared/components/ui/button';
 import { Badge } from '@/shared/components/ui/badge';
 import { Alert, AlertDescription, AlertTitle } from '@/shared/components/ui/alert';
 import { Input } from '@/shared/components/ui/input';
-import { Textarea } from '@/shared/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
-import { 
-  MessageSquare, 
-  Phone, 
-  Mail, 
-  Clock, 
-  CheckCircle, 
-  XCircle,
+import {
+  MessageSquare,
+  Clock,
+  CheckCircle,
+  TrendingUp,
   Filter,
   Search,
-  Eye
+  List,
+  Columns
 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
 import { leadService } from '../services/leadService';
-import { Lead, LeadStats, LeadFilters } from '../types';
+import LeadDetailDialog from './LeadDetailDialog';
+import LeadPipelineBoard, { applyLeadToColumns } from './LeadPipelineBoard';
+import { LEAD_SOURCE_LABELS, LEAD_STAGE_STYLES } from './RoutedLeadsTable';
+import type { LeadScope, LeadStage, PipelineColumn, PipelineStage, RoutedLead } from '../types';
+
+// Used by the stage filter, whose select cannot hold an empty value
+const ALL_STAGES = 'all';
 
 const LeadManagement = () => {
-  const [leads, setLeads] = useState<Lead[]>([]);
-  const [stats, setStats] = useState<LeadStats | null>(null);
+  const [view, setView] = useState<'list' | 'board'>('list');
+  const [scope, setScope] = useState<LeadScope>('team');
+  const [stages, setStages] = useState<PipelineStage[]>([]);
+  const [columns, setColumns] = useState<PipelineColumn[]>([]);
+  const [leads, setLeads] = useState<RoutedLead[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [selectedLead, setSelectedLead] = useState<Lead | null>(null);
-  const [responseMessage, setResponseMessage] = useState('');
-  const [filters, setFilters] = useState<LeadFilters>({
-    status: '',
-    property_id: '',
-    search: ''
-  });
-  const [showResponse, setShowResponse] = useState(false);
+  const [selectedLead, setSelectedLead] = useState<RoutedLead | null>(null);
+  const [stageFilter, setStageFilter] = useState<string>(ALL_STAGES);
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    leadService.fetchPipelineStages()
+      .then(setStages)
+      .catch(err => console.error('Failed to fetch pipeline stages:', err));
+  }, []);
 
   useEffect(() => {
     fetchLeads();
-    fetchStats();
-  }, [filters]);
+  }, [scope, stageFilter]);
+
+  useEffect(() => {
+    fetchBoard();
+  }, [scope]);
 
   const fetchLeads = async () => {
     try {
       setLoading(true);
-      const leadsData = await leadService.fetchLeads(filters);
-      setLeads(leadsData);
+      const result = await leadService.fetchRoutedLeads(scope, {
+        stage: stageFilter === ALL_STAGES ? undefined : stageFilter as LeadStage,
+        limit: 100,
+      });
+      setLeads(result.leads);
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load leads');
@@ -52,76 +67,48 @@ const LeadManagement = () => {
     }
   };
 
-  const fetchStats = async () => {
+  // The board also gives the per-stage counts for the stats
+  const fetchBoard = async () => {
     try {
-      const statsData = await leadService.fetchLeadStats();
-      setStats(statsData);
+      setColumns(await leadService.fetchPipelineBoard(scope));
     } catch (err) {
-      console.error('Failed to fetch stats:', err);
+      console.error('Failed to fetch pipeline:', err);
     }
   };
 
-  const updateLeadStatus = async (leadId: number, status: string) => {
-    try {
-      await leadService.updateLeadStatus(leadId, status);
-
-      // Update local state
-      setLeads(leads.map(lead => 
-        lead.id === leadId ? { ...lead, status: status as Lead['status'] } : lead
-      ));
-      
-      if (selectedLead && selectedLead.id === leadId) {
-        setSelectedLead({ ...selectedLead, status: status as Lead['status'] });
-      }
-
-      fetchStats(); // Refresh stats
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to update status');
-    }
+  const handleRefresh = () => {
+    fetchLeads();
+    fetchBoard();
   };
 
-  const sendResponse = async () => {
-    if (!selectedLead || !responseMessage.trim()) return;
+  const handleLeadUpdated = (lead: RoutedLead) => {
+    setLeads(current => current.map(l => (l.id === lead.id ? lead : l)));
+    setColumns(current => applyLeadToColumns(current, lead));
+    setSelectedLead(current => (current?.id === lead.id ? lead : current));
+  };
 
-    try {
-      await leadService.sendResponse(selectedLead.id, responseMessage);
+  const stageTotal = (...stageNames: LeadStage[]) =>
+    columns.filter(column => stageNames.includes(column.stage)).reduce((sum, column) => sum + column.total, 0);
 
-      setResponseMessage('');
-      setShowResponse(false);
-      
-      // Update status to contacted if it was new
-      if (selectedLead.status === 'new') {
-        await updateLeadStatus(selectedLead.id, 'contacted');
-      }
-      
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to send response');
-    }
+  const won = stageTotal('won');
+  const lost = stageTotal('lost');
+  const stats = {
+    total: columns.reduce((sum, column) => sum + column.total, 0),
+    new: stageTotal('new'),
+    inProgress: stageTotal('contacted', 'qualified', 'site_visit_scheduled', 'negotiation'),
+    won,
+    conversionRate: won + lost > 0 ? (won / (won + lost)) * 100 : 0,
   };
 
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'new': return <Clock className="h-4 w-4" />;
-      case 'contacted': return <MessageSquare className="h-4 w-4" />;
-      case 'qualified': return <CheckCircle className="h-4 w-4" />;
-      case 'closed': return <CheckCircle className="h-4 w-4" />;
-      case 'spam': return <XCircle className="h-4 w-4" />;
-      default: return <Clock className="h-4 w-4" />;
-    }
-  };
+  const query = search.trim().toLowerCase();
+  const visibleLeads = query
+    ? leads.filter(lead =>
+      [lead.name, lead.email, lead.message].some(value => value.toLowerCase().includes(query)))
+    : leads;
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'new': return 'bg-blue-100 text-blue-800';
-      case 'contacted': return 'bg-yellow-100 text-yellow-800';
-      case 'qualified': return 'bg-green-100 text-green-800';
-      case 'closed': return 'bg-gray-100 text-gray-800';
-      case 'spam': return 'bg-red-100 text-red-800';
-      default: return 'bg-gray-100 text-gray-800';
-    }
-  };
+  const stageLabel = (stage: LeadStage) => stages.find(s => s.stage === stage)?.label || stage;
 
-  if (loading && leads.length === 0) {
+  if (loading && leads.length === 0 && columns.length === 0) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="text-center">
@@ -136,7 +123,17 @@ const LeadManagement = () => {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold">Lead Management</h1>
-        <Button onClick={fetchLeads}>Refresh</Button>
+        <div className="flex items-center space-x-2">
+          <Button variant={view === 'list' ? 'default' : 'outline'} size="sm" onClick={() => setView('list')}>
+            <List className="h-4 w-4 mr-1" />
+            List
+          </Button>
+          <Button variant={view === 'board' ? 'default' : 'outline'} size="sm" onClick={() => setView('board')}>
+            <Columns className="h-4 w-4 mr-1" />
+            Board
+          </Button>
+          <Button onClick={handleRefresh}>Refresh</Button>
+        </div>
       </div>
 
       {error && (
@@ -147,57 +144,57 @@ const LeadManagement = () => {
       )}
 
       {/* Stats Cards */}
-      {stats && (
-        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Total Leads</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{stats.total}</div>
-            </CardContent>
-          </Card>
-          
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">New</CardTitle>
-              <Clock className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold text-blue-600">{stats.new}</div>
-            </CardContent>
-          </Card>
-          
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Contacted</CardTitle>
-              <MessageSquare className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold text-yellow-600">{stats.contacted}</div>
-            </CardContent>
-          </Card>
-          
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Qualified</CardTitle>
-              <CheckCircle className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold text-green-600">{stats.qualified}</div>
-            </CardContent>
-          </Card>
-          
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Conversion Rate</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{stats.conversionRate.toFixed(1)}%</div>
-            </CardContent>
-          </Card>
-        </div>
-      )}
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Leads</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats.total}</div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">New</CardTitle>
+            <Clock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-blue-600">{stats.new}</div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">In Progress</CardTitle>
+            <MessageSquare className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-yellow-600">{stats.inProgress}</div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Won</CardTitle>
+            <CheckCircle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">{stats.won}</div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Conversion Rate</CardTitle>
+            <TrendingUp className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats.conversionRate.toFixed(1)}%</div>
+            <p className="text-xs text-muted-foreground">Of closed leads</p>
+          </CardContent>
+        </Card>
+      </div>
 
       {/* Filters */}
       <Card>
@@ -210,71 +207,89 @@ const LeadManagement = () => {
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
-              <label className="text-sm font-medium">Status</label>
-              <Select value={filters.status} onValueChange={(value) => setFilters({...filters, status: value})}>
+              <label className="text-sm font-medium">Leads</label>
+              <Select value={scope} onValueChange={(value) => setScope(value as LeadScope)}>
                 <SelectTrigger>
-                  <SelectValue placeholder="All statuses" />
+                  <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="">All statuses</SelectItem>
-                  <SelectItem value="new">New</SelectItem>
-                  <SelectItem value="contacted">Contacted</SelectItem>
-                  <SelectItem value="qualified">Qualified</SelectItem>
-                  <SelectItem value="closed">Closed</SelectItem>
-                  <SelectItem value="spam">Spam</SelectItem>
+                  <SelectItem value="team">My listings and teams</SelectItem>
+                  <SelectItem value="mine">Assigned to me</SelectItem>
                 </SelectContent>
               </Select>
             </div>
-            
-            <div>
-              <label className="text-sm font-medium">Search</label>
-              <div className="relative">
-                <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
-                <Input
-                  placeholder="Search by name, email, or message"
-                  value={filters.search}
-                  onChange={(e) => setFilters({...filters, search: e.target.value})}
-                  className="pl-10"
-                />
-              </div>
-            </div>
+
+            {view === 'list' && (
+              <>
+                <div>
+                  <label className="text-sm font-medium">Stage</label>
+                  <Select value={stageFilter} onValueChange={setStageFilter}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="All stages" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_STAGES}>All stages</SelectItem>
+                      {stages.map(stage => (
+                        <SelectItem key={stage.stage} value={stage.stage}>{stage.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium">Search</label>
+                  <div className="relative">
+                    <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                    <Input
+                      placeholder="Search by name, email, or message"
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                      className="pl-10"
+                    />
+                  </div>
+                </div>
+              </>
+            )}
           </div>
         </CardContent>
       </Card>
 
-      {/* Leads List */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {view === 'board' ? (
+        <LeadPipelineBoard
+          columns={columns}
+          loading={loading}
+          onOpen={setSelectedLead}
+          onLeadUpdated={handleLeadUpdated}
+        />
+      ) : (
         <Card>
           <CardHeader>
-            <CardTitle>Leads ({leads.length})</CardTitle>
-            <CardDescription>Click on a lead to view details and respond</CardDescription>
+            <CardTitle>Leads ({visibleLeads.length})</CardTitle>
+            <CardDescription>Click on a lead to move it along, log calls and notes, or set a follow-up</CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="space-y-4 max-h-96 overflow-y-auto">
-              {leads.map((lead) => (
+            <div className="space-y-4 max-h-[32rem] overflow-y-auto">
+              {visibleLeads.map((lead) => (
                 <div
                   key={lead.id}
-                  className={`p-4 border rounded-lg cursor-pointer transition-colors ${
-                    selectedLead?.id === lead.id ? 'bg-blue-50 border-blue-200' : 'hover:bg-gray-50'
-                  }`}
+                  className="p-4 border rounded-lg cursor-pointer transition-colors hover:bg-gray-50"
                   onClick={() => setSelectedLead(lead)}
                 >
                   <div className="flex items-start justify-between">
                     <div className="flex-1">
                       <div className="flex items-center space-x-2">
                         <h3 className="font-medium">{lead.name}</h3>
-                        <Badge className={`${getStatusColor(lead.status)} text-xs`}>
-                          {getStatusIcon(lead.status)}
-                          <span className="ml-1">{lead.status}</span>
+                        <Badge className={`${LEAD_STAGE_STYLES[lead.stage]} text-xs`}>
+                          {stageLabel(lead.stage)}
                         </Badge>
                       </div>
                       <p className="text-sm text-gray-600 mt-1">{lead.email}</p>
                       {lead.phone && (
                         <p className="text-sm text-gray-600">{lead.phone}</p>
                       )}
-                      {lead.property && (
+                      {lead.listing && (
                         <p className="text-sm font-medium mt-2">
-                          {lead.property.title} - ${lead.property.price.toLocaleString()}
+                          {lead.listing.title} · {LEAD_SOURCE_LABELS[lead.source]}
                         </p>
                       )}
                       <p className="text-sm text-gray-500 mt-2 line-clamp-2">
@@ -282,25 +297,19 @@ const LeadManagement = () => {
                       </p>
                     </div>
                   </div>
-                  <div className="flex items-center justify-between mt-3">
-                    <span className="text-xs text-gray-500">
-                      {new Date(lead.created_at).toLocaleDateString()}
-                    </span>
-                    <div className="flex space-x-2">
-                      <Button variant="outline" size="sm" onClick={(e) => {
-                        e.stopPropagation();
-                        setSelectedLead(lead);
-                        setShowResponse(true);
-                      }}>
-                        <MessageSquare className="h-3 w-3 mr-1" />
-                        Reply
-                      </Button>
-                    </div>
+                  <div className="flex items-center justify-between mt-3 text-xs text-gray-500">
+                    <span>{new Date(lead.created_at).toLocaleDateString()}</span>
+                    {lead.next_follow_up_at && (
+                      <span className="flex items-center">
+                        <Clock className="h-3 w-3 mr-1" />
+                        Follow up {formatDistanceToNow(new Date(lead.next_follow_up_at), { addSuffix: true })}
+                      </span>
+                    )}
                   </div>
                 </div>
               ))}
-              
-              {leads.length === 0 && (
+
+              {visibleLeads.length === 0 && (
                 <div className="text-center py-8 text-gray-500">
                   <MessageSquare className="mx-auto h-12 w-12 mb-4 text-gray-300" />
                   <p>No leads found</p>
@@ -309,108 +318,16 @@ const LeadManagement = () => {
             </div>
           </CardContent>
         </Card>
+      )}
 
-        {/* Lead Details */}
-        {selectedLead && (
-          <Card>
-            <CardHeader>
-              <CardTitle>Lead Details</CardTitle>
-              <CardDescription>
-                Received on {new Date(selectedLead.created_at).toLocaleDateString()}
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-6">
-              <div>
-                <h4 className="font-medium mb-2">Contact Information</h4>
-                <div className="space-y-2">
-                  <div className="flex items-center">
-                    <Mail className="h-4 w-4 mr-2 text-gray-400" />
-                    <span>{selectedLead.email}</span>
-                  </div>
-                  {selectedLead.phone && (
-                    <div className="flex items-center">
-                      <Phone className="h-4 w-4 mr-2 text-gray-400" />
-                      <span>{selectedLead.phone}</span>
-                    </div>
-                  )}
-                </div>
-              </div>
-
-              {selectedLead.property && (
-                <div>
-                  <h4 className="font-medium mb-2">Property of Interest</h4>
-                  <div className="p-3 bg-gray-50 rounded-lg">
-                    <h5 className="font-medium">{selectedLead.property.title}</h5>
-                    <p className="text-sm text-gray-600">
-                      ${selectedLead.property.price.toLocaleString()}
-                    </p>
-                    <p className="text-sm text-gray-600">
-                      {selectedLead.property.address}, {selectedLead.property.city}, {selectedLead.property.state}
-                    </p>
-                    <Button variant="outline" size="sm" className="mt-2">
-                      <Eye className="h-3 w-3 mr-1" />
-                      View Property
-                    </Button>
-                  </div>
-                </div>
-              )}
-
-              <div>
-                <h4 className="font-medium mb-2">Message</h4>
-                <p className="text-sm bg-gray-50 p-3 rounded-lg">{selectedLead.message}</p>
-              </div>
-
-              <div>
-                <h4 className="font-medium mb-2">Status</h4>
-                <Select 
-                  value={selectedLead.status} 
-                  onValueChange={(value) => updateLeadStatus(selectedLead.id, value)}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="new">New</SelectItem>
-                    <SelectItem value="contacted">Contacted</SelectItem>
-                    <SelectItem value="qualified">Qualified</SelectItem>
-                    <SelectItem value="closed">Closed</SelectItem>
-                    <SelectItem value="spam">Spam</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-
-              <div>
-                <div className="flex items-center justify-between mb-2">
-                  <h4 className="font-medium">Quick Response</h4>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setShowResponse(!showResponse)}
-                  >
-                    {showResponse ? 'Cancel' : 'Respond'}
-                  </Button>
-                </div>
-                
-                {showResponse && (
-                  <div className="space-y-3">
-                    <Textarea
-                      placeholder="Type your response..."
-                      value={responseMessage}
-                      onChange={(e) => setResponseMessage(e.target.value)}
-                      rows={4}
-                    />
-                    <Button onClick={sendResponse} disabled={!responseMessage.trim()}>
-                      Send Response
-                    </Button>
-                  </div>
-                )}
-              </div>
-            </CardContent>
-          </Card>
-        )}
-      </div>
+      <LeadDetailDialog
+        lead={selectedLead}
+        stages={stages}
+        onClose={() => setSelectedLead(null)}
+        onLeadUpdated={handleLeadUpdated}
+      />
     </div>
   );
 };
 
-export default LeadManagement;
\ No newline at end of file
+export default LeadManagement;
@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { Icon } from '@iconify/react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import { Badge } from '@/shared/components/ui/badge';
+import { Button } from '@/shared/components/ui/button';
+import { Input } from '@/shared/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/shared/components/ui/dialog';
+import { leadService } from '../services/leadService';
+import { LEAD_SOURCE_LABELS, LEAD_STAGE_STYLES } from './RoutedLeadsTable';
+import type { LeadStage, PipelineColumn, RoutedLead } from '../types';
+
+interface LeadPipelineBoardProps {
+  columns: PipelineColumn[];
+  loading: boolean;
+  onOpen: (lead: RoutedLead) => void;
+  // Called with the moved lead so the parent can update its columns
+  onLeadUpdated: (lead: RoutedLead) => void;
+}
+
+// Puts an updated lead in the column for its stage, moving it out of the one it was in
+export const applyLeadToColumns = (columns: PipelineColumn[], lead: RoutedLead): PipelineColumn[] =>
+  columns.map(column => {
+    const had = column.leads.some(l => l.id === lead.id);
+    if (column.stage === lead.stage) {
+      return had
+        ? { ...column, leads: column.leads.map(l => (l.id === lead.id ? lead : l)) }
+        : { ...column, total: column.total + 1, leads: [lead, ...column.leads] };
+    }
+    return had
+      ? { ...column, total: column.total - 1, leads: column.leads.filter(l => l.id !== lead.id) }
+      : column;
+  });
+
+const LeadPipelineBoard = ({ columns, loading, onOpen, onLeadUpdated }: LeadPipelineBoardProps) => {
+  const [dragOver, setDragOver] = useState<LeadStage | null>(null);
+  // A lead dropped on Lost waits here for its reason
+  const [losing, setLosing] = useState<RoutedLead | null>(null);
+  const [lostReason, setLostReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const findLead = (leadId: number) =>
+    columns.flatMap(column => column.leads).find(lead => lead.id === leadId);
+
+  const moveLead = async (lead: RoutedLead, stage: LeadStage, reason?: string) => {
+    try {
+      setSaving(true);
+      const updated = await leadService.changeLeadStage(lead.id, stage, reason);
+      onLeadUpdated(updated);
+      setLosing(null);
+      setLostReason('');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update lead stage');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, stage: LeadStage) => {
+    e.preventDefault();
+    setDragOver(null);
+
+    const lead = findLead(parseInt(e.dataTransfer.getData('text/plain')));
+    // Switched-off stages only keep a column while leads are still in them
+    if (!lead || lead.stage === stage || !columns.find(column => column.stage === stage)?.is_enabled) return;
+
+    if (stage === 'lost') {
+      setLosing(lead);
+      return;
+    }
+    moveLead(lead, stage);
+  };
+
+  if (loading && columns.length === 0) {
+    return (
+      <div className="flex justify-center items-center h-32">
+        <Icon icon="solar:refresh-bold" className="size-6 mr-2 animate-spin" />
+        <span>Loading pipeline...</span>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {columns.map(column => (
+          <div
+            key={column.stage}
+            className={`flex-shrink-0 w-72 rounded-lg border bg-muted/40 ${
+              dragOver === column.stage ? 'ring-2 ring-primary' : ''
+            }`}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragOver(column.stage);
+            }}
+            onDragLeave={() => setDragOver(null)}
+            onDrop={(e) => handleDrop(e, column.stage)}
+          >
+            <div className="flex items-center justify-between p-3 border-b">
+              <div className="flex items-center gap-2">
+                <Badge className={LEAD_STAGE_STYLES[column.stage]}>{column.label}</Badge>
+                {!column.is_enabled && <span className="text-xs text-muted-foreground">Switched off</span>}
+              </div>
+              <span className="text-sm text-muted-foreground">{column.total}</span>
+            </div>
+            <div className="p-2 space-y-2 min-h-32 max-h-[65vh] overflow-y-auto">
+              {column.leads.map(lead => (
+                <div
+                  key={lead.id}
+                  draggable
+                  onDragStart={(e) => e.dataTransfer.setData('text/plain', lead.id.toString())}
+                  onClick={() => onOpen(lead)}
+                  className="rounded-md border bg-background p-3 cursor-pointer hover:shadow-sm"
+                >
+                  <div className="font-medium text-sm">{lead.name}</div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {lead.listing?.title || 'Removed listing'} · {LEAD_SOURCE_LABELS[lead.source]}
+                  </div>
+                  <div className="flex items-center justify-between mt-2 text-xs text-muted-foreground">
+                    <span>{lead.assignee?.name || 'Unassigned'}</span>
+                    <span>{formatDistanceToNow(new Date(lead.created_at), { addSuffix: true })}</span>
+                  </div>
+                  {lead.next_follow_up_at && (
+                    <div className={`flex items-center mt-2 text-xs ${
+                      new Date(lead.next_follow_up_at) < new Date() ? 'text-red-600' : 'text-muted-foreground'
+                    }`}>
+                      <Icon icon="solar:calendar-bold" className="size-3 mr-1" />
+                      Follow up {formatDistanceToNow(new Date(lead.next_follow_up_at), { addSuffix: true })}
+                    </div>
+                  )}
+                  {lead.stage === 'lost' && lead.lost_reason && (
+                    <div className="mt-2 text-xs text-muted-foreground line-clamp-2">{lead.lost_reason}</div>
+                  )}
+                </div>
+              ))}
+              {column.total > column.leads.length && (
+                <p className="text-xs text-center text-muted-foreground py-1">
+                  Showing the {column.leads.length} most recent of {column.total}
+                </p>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Lost Reason Dialog */}
+      <Dialog open={!!losing} onOpenChange={open => !open && setLosing(null)}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>Mark {losing?.name} as Lost</DialogTitle>
+          </DialogHeader>
+          <Input
+            placeholder="Why was the lead lost?"
+            value={lostReason}
+            maxLength={255}
+            onChange={(e) => setLostReason(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setLosing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={() => losing && moveLead(losing, 'lost', lostReason.trim())} disabled={!lostReason.trim() || saving}>
+              Mark as Lost
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default LeadPipelineBoard;
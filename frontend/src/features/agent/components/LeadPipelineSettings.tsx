@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'react';
+import { Icon } from '@iconify/react';
+import { toast } from 'react-hot-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Badge } from '@/shared/components/ui/badge';
+import { Button } from '@/shared/components/ui/button';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Switch } from '@/shared/components/ui/switch';
+import { leadService } from '../services/leadService';
+import { LEAD_STAGE_STYLES } from './RoutedLeadsTable';
+import type { PipelineStage } from '../types';
+
+interface LeadPipelineSettingsProps {
+  // The owner's pipeline as last saved
+  stages: PipelineStage[];
+  onSaved: (stages: PipelineStage[]) => void;
+}
+
+const LeadPipelineSettings = ({ stages, onSaved }: LeadPipelineSettingsProps) => {
+  const [draft, setDraft] = useState<PipelineStage[]>(stages);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(stages);
+  }, [stages]);
+
+  const updateStage = (index: number, changes: Partial<PipelineStage>) =>
+    setDraft(current => current.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)));
+
+  // Stages only swap with a neighbour of the same status, so new stays first and won and lost last
+  const canSwap = (index: number, other: number) =>
+    other >= 0 && other < draft.length && draft[index].status === draft[other].status;
+
+  const swap = (index: number, other: number) =>
+    setDraft(current => {
+      const next = [...current];
+      [next[index], next[other]] = [next[other], next[index]];
+      return next;
+    });
+
+  const hasChanges = JSON.stringify(draft) !== JSON.stringify(stages);
+  const hasEmptyLabel = draft.some(stage => !stage.label.trim());
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const saved = await leadService.updatePipelineStages(
+        draft.map(stage => ({ stage: stage.stage, label: stage.label.trim(), isEnabled: stage.is_enabled }))
+      );
+      onSaved(saved);
+      toast.success('Pipeline stages saved');
+    } catch (err: any) {
+      toast.error(err.message || 'Could not save the pipeline stages');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle>Pipeline Stages</CardTitle>
+          <CardDescription>
+            Rename the stages, change their order on the board and switch off the ones you don't use. Leads can't be moved into a stage that is switched off.
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setDraft(stages)} disabled={!hasChanges || saving}>
+            Undo Changes
+          </Button>
+          <Button onClick={handleSave} disabled={!hasChanges || hasEmptyLabel || saving}>
+            {saving ? 'Saving...' : 'Save Stages'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {draft.map((stage, index) => (
+            <div key={stage.stage} className="flex flex-col gap-3 rounded-lg border p-4 md:flex-row md:items-center">
+              <div className="flex gap-1">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => swap(index, index - 1)}
+                  disabled={!canSwap(index, index - 1)}
+                  aria-label="Move up"
+                >
+                  <Icon icon="solar:alt-arrow-up-bold" className="size-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => swap(index, index + 1)}
+                  disabled={!canSwap(index, index + 1)}
+                  aria-label="Move down"
+                >
+                  <Icon icon="solar:alt-arrow-down-bold" className="size-4" />
+                </Button>
+              </div>
+              <Input
+                value={stage.label}
+                maxLength={50}
+                onChange={e => updateStage(index, { label: e.target.value })}
+                className="md:max-w-xs"
+              />
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge className={LEAD_STAGE_STYLES[stage.stage]}>{stage.stage.replace(/_/g, ' ')}</Badge>
+                <Badge variant="outline">Status: {stage.status}</Badge>
+              </div>
+              <div className="flex items-center space-x-2 md:ml-auto">
+                <Switch
+                  id={`stage-${stage.stage}`}
+                  checked={stage.is_enabled}
+                  disabled={stage.is_required}
+                  onCheckedChange={checked => updateStage(index, { is_enabled: checked })}
+                />
+                <Label htmlFor={`stage-${stage.stage}`}>{stage.is_required ? 'Always on' : 'In use'}</Label>
+              </div>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground mt-4">
+          New, contacted, won and lost are always on: leads come in as new, logging a call moves them to contacted, and won and lost close them.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LeadPipelineSettings;
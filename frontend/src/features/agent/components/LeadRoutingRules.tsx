@@ -0,0 +1,464 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Icon } from '@iconify/react';
+import { toast } from 'react-hot-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Badge } from '@/shared/components/ui/badge';
+import { Button } from '@/shared/components/ui/button';
+import { Checkbox } from '@/shared/components/ui/checkbox';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Switch } from '@/shared/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/shared/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/shared/components/ui/alert-dialog';
+import { leadService } from '../services/leadService';
+import { LEAD_SOURCE_LABELS } from './RoutedLeadsTable';
+import type { LeadAgent, LeadRoutingRule, LeadRoutingStrategy, LeadSource } from '../types';
+
+interface LeadRoutingRulesProps {
+  agents: LeadAgent[];
+  // The builder's own projects, which rules can be limited to; empty for agencies
+  projects: Array<{ id: number; name: string }>;
+}
+
+// Matches the server's property and project types
+const PROPERTY_TYPES = ['apartment', 'house', 'villa', 'plot', 'land', 'commercial', 'residential', 'mixed_use', 'office', 'retail'];
+
+const STRATEGY_LABELS: Record<LeadRoutingStrategy, string> = {
+  round_robin: 'Round-robin',
+  least_load: 'Least open leads',
+};
+
+interface RuleForm {
+  name: string;
+  priority: string;
+  isActive: boolean;
+  cities: string;
+  propertyTypes: string[];
+  minBudget: string;
+  maxBudget: string;
+  projectIds: number[];
+  sources: LeadSource[];
+  strategy: LeadRoutingStrategy;
+  agentIds: number[];
+  slaMinutes: string;
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  priority: '0',
+  isActive: true,
+  cities: '',
+  propertyTypes: [],
+  minBudget: '',
+  maxBudget: '',
+  projectIds: [],
+  sources: [],
+  strategy: 'round_robin',
+  agentIds: [],
+  slaMinutes: '',
+};
+
+const toggle = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+
+const toForm = (rule: LeadRoutingRule): RuleForm => ({
+  name: rule.name,
+  priority: String(rule.priority),
+  isActive: rule.is_active,
+  cities: (rule.cities || []).join(', '),
+  propertyTypes: rule.property_types || [],
+  minBudget: rule.min_budget != null ? String(Number(rule.min_budget)) : '',
+  maxBudget: rule.max_budget != null ? String(Number(rule.max_budget)) : '',
+  projectIds: rule.project_ids || [],
+  sources: rule.sources || [],
+  strategy: rule.strategy,
+  agentIds: rule.agent_ids,
+  slaMinutes: rule.sla_minutes != null ? String(rule.sla_minutes) : '',
+});
+
+const formatBudget = (value: number | string) => `₹${Number(value).toLocaleString('en-IN')}`;
+
+const describeRule = (rule: LeadRoutingRule, projects: LeadRoutingRulesProps['projects']): string[] => {
+  const criteria: string[] = [];
+  if (rule.cities) criteria.push(rule.cities.join(', '));
+  if (rule.property_types) criteria.push(rule.property_types.map(type => type.replace(/_/g, ' ')).join(', '));
+  if (rule.min_budget != null || rule.max_budget != null) {
+    criteria.push(`${rule.min_budget != null ? formatBudget(rule.min_budget) : 'Any'} - ${rule.max_budget != null ? formatBudget(rule.max_budget) : 'Any'}`);
+  }
+  if (rule.project_ids) {
+    criteria.push(rule.project_ids.map(id => projects.find(project => project.id === id)?.name || `Project #${id}`).join(', '));
+  }
+  if (rule.sources) criteria.push(rule.sources.map(source => LEAD_SOURCE_LABELS[source]).join(', '));
+  return criteria.length > 0 ? criteria : ['All leads'];
+};
+
+const LeadRoutingRules = ({ agents, projects }: LeadRoutingRulesProps) => {
+  const navigate = useNavigate();
+  const [rules, setRules] = useState<LeadRoutingRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  // The rule being edited, or null when creating one
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [deleting, setDeleting] = useState<LeadRoutingRule | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchRules = async () => {
+    try {
+      setRules(await leadService.fetchRoutingRules());
+    } catch (err: any) {
+      toast.error(err.message || 'Could not load routing rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const agentName = (id: number) => agents.find(agent => agent.id === id)?.name || `User #${id}`;
+
+  const openDialog = (rule?: LeadRoutingRule) => {
+    setEditingId(rule?.id ?? null);
+    setForm(rule ? toForm(rule) : EMPTY_FORM);
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (form.agentIds.length === 0) {
+      toast.error('Choose at least one person to receive the leads');
+      return;
+    }
+
+    const cities = form.cities.split(',').map(city => city.trim()).filter(Boolean);
+    const data = {
+      name: form.name.trim(),
+      priority: parseInt(form.priority) || 0,
+      isActive: form.isActive,
+      cities: cities.length > 0 ? cities : null,
+      propertyTypes: form.propertyTypes.length > 0 ? form.propertyTypes : null,
+      minBudget: form.minBudget ? Number(form.minBudget) : null,
+      maxBudget: form.maxBudget ? Number(form.maxBudget) : null,
+      projectIds: form.projectIds.length > 0 ? form.projectIds : null,
+      sources: form.sources.length > 0 ? form.sources : null,
+      strategy: form.strategy,
+      agentIds: form.agentIds,
+      slaMinutes: form.slaMinutes ? parseInt(form.slaMinutes) : null,
+    };
+
+    try {
+      setSaving(true);
+      if (editingId) {
+        await leadService.updateRoutingRule(editingId, data);
+        toast.success('Routing rule updated');
+      } else {
+        await leadService.createRoutingRule(data);
+        toast.success('Routing rule created');
+      }
+      setIsDialogOpen(false);
+      fetchRules();
+    } catch (err: any) {
+      toast.error(err.message || 'Could not save the routing rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      await leadService.deleteRoutingRule(deleting.id);
+      toast.success('Routing rule deleted');
+      setRules(current => current.filter(rule => rule.id !== deleting.id));
+    } catch (err: any) {
+      toast.error(err.message || 'Could not delete the routing rule');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle>Routing Rules</CardTitle>
+          <CardDescription>
+            New leads go to the first active rule they match, from the highest priority down. Leads no rule matches stay unassigned.
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => navigate('/builder/team')}>
+            <Icon icon="solar:users-group-rounded-bold" className="size-4 mr-2" />
+            Manage Team
+          </Button>
+          <Button onClick={() => openDialog()}>
+            <Icon icon="solar:add-circle-bold" className="size-4 mr-2" />
+            Add Rule
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center items-center h-32">
+            <Icon icon="solar:refresh-bold" className="size-6 mr-2 animate-spin" />
+            <span>Loading routing rules...</span>
+          </div>
+        ) : rules.length === 0 ? (
+          <p className="py-8 text-center text-muted-foreground">
+            No routing rules yet. Add one to share new leads with your team automatically.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {rules.map(rule => (
+              <div key={rule.id} className="flex flex-col gap-3 rounded-lg border p-4 md:flex-row md:items-center md:justify-between">
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold">{rule.name}</span>
+                    <Badge variant="outline">Priority {rule.priority}</Badge>
+                    <Badge variant="secondary">{STRATEGY_LABELS[rule.strategy]}</Badge>
+                    {!rule.is_active && <Badge variant="outline">Paused</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">Matches: {describeRule(rule, projects).join(' · ')}</p>
+                  <p className="text-sm text-muted-foreground">
+                    Assigns to: {rule.agent_ids.map(agentName).join(', ')}
+                    {rule.sla_minutes != null && ` · Respond within ${rule.sla_minutes} min`}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => openDialog(rule)}>
+                    <Icon icon="solar:pen-bold" className="size-4 mr-1" />
+                    Edit
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setDeleting(rule)}>
+                    <Icon icon="solar:trash-bin-trash-bold" className="size-4 mr-1" />
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Routing Rule' : 'New Routing Rule'}</DialogTitle>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="ruleName">Name</Label>
+                <Input
+                  id="ruleName"
+                  value={form.name}
+                  onChange={e => setForm(current => ({ ...current, name: e.target.value }))}
+                  placeholder="e.g. Pune apartments"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rulePriority">Priority</Label>
+                <Input
+                  id="rulePriority"
+                  type="number"
+                  min={0}
+                  value={form.priority}
+                  onChange={e => setForm(current => ({ ...current, priority: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="ruleCities">Cities</Label>
+              <Input
+                id="ruleCities"
+                value={form.cities}
+                onChange={e => setForm(current => ({ ...current, cities: e.target.value }))}
+                placeholder="Comma separated; leave empty for any city"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Property types</Label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {PROPERTY_TYPES.map(type => (
+                  <div key={type} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`type-${type}`}
+                      checked={form.propertyTypes.includes(type)}
+                      onCheckedChange={() => setForm(current => ({ ...current, propertyTypes: toggle(current.propertyTypes, type) }))}
+                    />
+                    <Label htmlFor={`type-${type}`} className="cursor-pointer capitalize">{type.replace(/_/g, ' ')}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="ruleMinBudget">Minimum budget (₹)</Label>
+                <Input
+                  id="ruleMinBudget"
+                  type="number"
+                  min={0}
+                  value={form.minBudget}
+                  onChange={e => setForm(current => ({ ...current, minBudget: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ruleMaxBudget">Maximum budget (₹)</Label>
+                <Input
+                  id="ruleMaxBudget"
+                  type="number"
+                  min={0}
+                  value={form.maxBudget}
+                  onChange={e => setForm(current => ({ ...current, maxBudget: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            {projects.length > 0 && (
+              <div className="space-y-2">
+                <Label>Projects</Label>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2 rounded-md border p-3">
+                  {projects.map(project => (
+                    <div key={project.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`rule-project-${project.id}`}
+                        checked={form.projectIds.includes(project.id)}
+                        onCheckedChange={() => setForm(current => ({ ...current, projectIds: toggle(current.projectIds, project.id) }))}
+                      />
+                      <Label htmlFor={`rule-project-${project.id}`} className="cursor-pointer">{project.name}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Sources</Label>
+              <div className="flex flex-wrap gap-4">
+                {(Object.keys(LEAD_SOURCE_LABELS) as LeadSource[]).map(source => (
+                  <div key={source} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`source-${source}`}
+                      checked={form.sources.includes(source)}
+                      onCheckedChange={() => setForm(current => ({ ...current, sources: toggle(current.sources, source) }))}
+                    />
+                    <Label htmlFor={`source-${source}`} className="cursor-pointer">{LEAD_SOURCE_LABELS[source]}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Assign</Label>
+                <Select
+                  value={form.strategy}
+                  onValueChange={value => setForm(current => ({ ...current, strategy: value as LeadRoutingStrategy }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(STRATEGY_LABELS) as LeadRoutingStrategy[]).map(strategy => (
+                      <SelectItem key={strategy} value={strategy}>{STRATEGY_LABELS[strategy]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ruleSla">Respond within (minutes)</Label>
+                <Input
+                  id="ruleSla"
+                  type="number"
+                  min={5}
+                  value={form.slaMinutes}
+                  onChange={e => setForm(current => ({ ...current, slaMinutes: e.target.value }))}
+                  placeholder="Default"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Share leads between</Label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2 rounded-md border p-3">
+                {agents.map(agent => (
+                  <div key={agent.id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`agent-${agent.id}`}
+                      checked={form.agentIds.includes(agent.id)}
+                      onCheckedChange={() => setForm(current => ({ ...current, agentIds: toggle(current.agentIds, agent.id) }))}
+                    />
+                    <Label htmlFor={`agent-${agent.id}`} className="cursor-pointer">
+                      {agent.is_owner ? `${agent.name} (you)` : agent.name}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Team members with the sales role can receive leads. Round-robin follows the order they are ticked in.
+              </p>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="ruleActive"
+                checked={form.isActive}
+                onCheckedChange={checked => setForm(current => ({ ...current, isActive: checked }))}
+              />
+              <Label htmlFor="ruleActive">Active</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || form.name.trim().length < 2}>
+              {saving ? 'Saving...' : 'Save Rule'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={open => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete routing rule?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deleting?.name}" will stop routing new leads. Leads it already assigned keep their assignee.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default LeadRoutingRules;
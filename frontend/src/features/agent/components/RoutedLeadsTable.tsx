@@ -0,0 +1,163 @@
+import { Icon } from '@iconify/react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Badge } from '@/shared/components/ui/badge';
+import { Button } from '@/shared/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/shared/components/ui/table';
+import type { LeadSource, LeadStage, PipelineStage, RoutedLead } from '../types';
+
+interface RoutedLeadsTableProps {
+  leads: RoutedLead[];
+  stages: PipelineStage[];
+  loading: boolean;
+  emptyMessage: string;
+  onOpen: (lead: RoutedLead) => void;
+  onReassign: (lead: RoutedLead) => void;
+  onShowHistory: (lead: RoutedLead) => void;
+}
+
+export const LEAD_SOURCE_LABELS: Record<LeadSource, string> = {
+  inquiry_form: 'Inquiry form',
+  site_visit: 'Site visit',
+  asset_download: 'Brochure download',
+};
+
+export const LEAD_STAGE_STYLES: Record<LeadStage, string> = {
+  new: 'bg-blue-100 text-blue-800',
+  contacted: 'bg-yellow-100 text-yellow-800',
+  qualified: 'bg-indigo-100 text-indigo-800',
+  site_visit_scheduled: 'bg-purple-100 text-purple-800',
+  negotiation: 'bg-orange-100 text-orange-800',
+  won: 'bg-green-100 text-green-800',
+  lost: 'bg-gray-100 text-gray-800',
+};
+
+const renderSla = (lead: RoutedLead) => {
+  switch (lead.sla_status) {
+    case 'pending':
+      return (
+        <Badge className="bg-yellow-100 text-yellow-800">
+          <Icon icon="solar:clock-circle-bold" className="size-3 mr-1" />
+          Due {formatDistanceToNow(new Date(lead.response_due_at!), { addSuffix: true })}
+        </Badge>
+      );
+    case 'missed':
+      return (
+        <Badge className="bg-red-100 text-red-800">
+          <Icon icon="solar:danger-triangle-bold" className="size-3 mr-1" />
+          SLA missed
+        </Badge>
+      );
+    case 'met':
+      return <Badge className="bg-green-100 text-green-800">Responded in time</Badge>;
+    default:
+      return <span className="text-xs text-muted-foreground">No deadline</span>;
+  }
+};
+
+const RoutedLeadsTable = ({ leads, stages, loading, emptyMessage, onOpen, onReassign, onShowHistory }: RoutedLeadsTableProps) => {
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-32">
+        <Icon icon="solar:refresh-bold" className="size-6 mr-2 animate-spin" />
+        <span>Loading leads...</span>
+      </div>
+    );
+  }
+
+  if (leads.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <Icon icon="solar:inbox-bold" className="size-12 mx-auto text-muted-foreground mb-4" />
+        <p className="text-muted-foreground">{emptyMessage}</p>
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Lead</TableHead>
+          <TableHead>Listing</TableHead>
+          <TableHead>Assigned To</TableHead>
+          <TableHead>Stage</TableHead>
+          <TableHead>Response</TableHead>
+          <TableHead>Received</TableHead>
+          <TableHead className="text-right">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {leads.map((lead) => (
+          <TableRow key={lead.id}>
+            <TableCell>
+              <div className="font-medium">{lead.name}</div>
+              <div className="text-xs text-muted-foreground">{lead.email}</div>
+              {lead.phone && <div className="text-xs">{lead.phone}</div>}
+            </TableCell>
+            <TableCell>
+              <div className="font-medium">{lead.listing?.title || 'Removed listing'}</div>
+              <div className="text-xs text-muted-foreground">
+                {lead.listing?.city}
+                {lead.listing && ' · '}
+                {LEAD_SOURCE_LABELS[lead.source]}
+              </div>
+            </TableCell>
+            <TableCell>
+              {lead.assignee ? (
+                <>
+                  <div className="font-medium">{lead.assignee.name}</div>
+                  {lead.assigned_at && (
+                    <div className="text-xs text-muted-foreground">
+                      since {format(new Date(lead.assigned_at), 'MMM d, h:mm a')}
+                    </div>
+                  )}
+                </>
+              ) : (
+                <span className="text-muted-foreground">Unassigned</span>
+              )}
+            </TableCell>
+            <TableCell>
+              <Badge className={LEAD_STAGE_STYLES[lead.stage]}>
+                {stages.find(stage => stage.stage === lead.stage)?.label || lead.stage}
+              </Badge>
+              {lead.next_follow_up_at && (
+                <div className="text-xs text-muted-foreground mt-1">
+                  Follow up {formatDistanceToNow(new Date(lead.next_follow_up_at), { addSuffix: true })}
+                </div>
+              )}
+            </TableCell>
+            <TableCell>{renderSla(lead)}</TableCell>
+            <TableCell>{format(new Date(lead.created_at), 'MMM d, yyyy')}</TableCell>
+            <TableCell className="text-right">
+              <div className="flex justify-end gap-1">
+                <Button variant="ghost" size="sm" onClick={() => onOpen(lead)}>
+                  <Icon icon="solar:eye-bold" className="size-4 mr-1" />
+                  Open
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => onShowHistory(lead)}>
+                  <Icon icon="solar:history-bold" className="size-4 mr-1" />
+                  History
+                </Button>
+                {lead.can_reassign && (
+                  <Button variant="ghost" size="sm" onClick={() => onReassign(lead)}>
+                    <Icon icon="solar:user-hand-up-bold" className="size-4 mr-1" />
+                    Reassign
+                  </Button>
+                )}
+              </div>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default RoutedLeadsTable;
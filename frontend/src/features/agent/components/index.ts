@@ -4,4 +4,11 @@ export { default as AgentStatsCard } from './AgentStatsCard';
 export { default as QuickActionCard } from './QuickActionCard';
 export { default as AgentAnalyticsChart } from './AgentAnalyticsChart';
 export { default as LeadManagement } from './LeadManagement';
-export { default as PerformanceAnalytics } from './PerformanceAnalytics';
\ No newline at end of file
+export { default as PerformanceAnalytics } from './PerformanceAnalytics';
+export { default as RoutedLeadsTable } from './RoutedLeadsTable';
+export { default as LeadRoutingRules } from './LeadRoutingRules';
+export { default as LeadDetailDialog } from './LeadDetailDialog';
+export { default as LeadPipelineBoard } from './LeadPipelineBoard';
+export { default as LeadPipelineSettings } from './LeadPipelineSettings';
+export { default as ContactsPanel } from './ContactsPanel';
+export { default as ContactDetailDialog } from './ContactDetailDialog';
\ No newline at end of file
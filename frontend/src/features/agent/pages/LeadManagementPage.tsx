@@ -31,6 +31,15 @@ import { Input } from '@/shared/components/ui/input';
 import { Textarea } from '@/shared/components/ui/textarea';
 import { Icon } from '@iconify/react';
 import { leadService } from '../services/leadService';
+import RoutedLeadsTable from '../components/RoutedLeadsTable';
+import LeadRoutingRules from '../components/LeadRoutingRules';
+import LeadPipelineSettings from '../components/LeadPipelineSettings';
+import LeadDetailDialog from '../components/LeadDetailDialog';
+import LeadPipelineBoard, { applyLeadToColumns } from '../components/LeadPipelineBoard';
+import ContactsPanel from '../components/ContactsPanel';
+import type { LeadAgent, LeadAssignmentEntry, LeadScope, PipelineColumn, PipelineStage, RoutedLead } from '../types';
+import projectService from '@/features/builder/services/projectService';
+import { useAuth } from '@/shared/contexts/AuthContext';
 import { format } from 'date-fns';
 import { toast } from 'react-hot-toast';
 
@@ -73,7 +82,38 @@ interface SiteVisitStats {
   upcoming: number;
 }
 
+// Builder and agency accounts route their leads and reassign them
+const LEAD_OWNER_ROLES = ['builder', 'agent'];
+
+// Used by the reassign dialog's select, which cannot hold null
+const UNASSIGNED = 'unassigned';
+
 export function LeadManagementPage() {
+  const { state: { user } } = useAuth();
+  const isLeadOwner = !!user && LEAD_OWNER_ROLES.includes(user.role);
+
+  const [view, setView] = useState<string>('mine');
+  const [leads, setLeads] = useState<RoutedLead[]>([]);
+  const [leadsLoading, setLeadsLoading] = useState<boolean>(true);
+  const [agents, setAgents] = useState<LeadAgent[]>([]);
+  const [ownProjects, setOwnProjects] = useState<Array<{ id: number; name: string }>>([]);
+
+  // Pipeline board and the lead detail dialog
+  const [stages, setStages] = useState<PipelineStage[]>([]);
+  const [boardScope, setBoardScope] = useState<LeadScope>('mine');
+  const [columns, setColumns] = useState<PipelineColumn[]>([]);
+  const [boardLoading, setBoardLoading] = useState<boolean>(false);
+  const [openLead, setOpenLead] = useState<RoutedLead | null>(null);
+
+  // Reassign dialog
+  const [reassigning, setReassigning] = useState<RoutedLead | null>(null);
+  const [assigneeValue, setAssigneeValue] = useState<string>(UNASSIGNED);
+  const [reassignReason, setReassignReason] = useState<string>('');
+
+  // Assignment history dialog
+  const [historyLead, setHistoryLead] = useState<RoutedLead | null>(null);
+  const [history, setHistory] = useState<LeadAssignmentEntry[]>([]);
+
   const [activeTab, setActiveTab] = useState<string>('scheduled');
   const [siteVisits, setSiteVisits] = useState<SiteVisit[]>([]);
   const [stats, setStats] = useState<SiteVisitStats>({
@@ -97,6 +137,116 @@ export function LeadManagementPage() {
   const [editTime, setEditTime] = useState<string>('');
   const [editNotes, setEditNotes] = useState<string>('');
   
+  useEffect(() => {
+    if (view === 'mine' || view === 'team') {
+      fetchLeads(view);
+    }
+  }, [view]);
+
+  useEffect(() => {
+    if (view === 'pipeline') {
+      fetchBoard(boardScope);
+    }
+  }, [view, boardScope]);
+
+  useEffect(() => {
+    leadService.fetchPipelineStages()
+      .then(setStages)
+      .catch(err => console.error('Failed to fetch pipeline stages', err));
+  }, []);
+
+  useEffect(() => {
+    if (!isLeadOwner) return;
+
+    leadService.fetchLeadAgents()
+      .then(setAgents)
+      .catch(err => console.error('Failed to fetch lead agents', err));
+
+    if (user?.role === 'builder') {
+      projectService.getBuilderProjects({ limit: 100 })
+        .then(response => setOwnProjects(
+          // Rules can only match the builder's own projects, not ones shared through another team
+          response.data.projects
+            .filter(project => project.builder_id === user.id)
+            .map(project => ({ id: project.id, name: project.name }))
+        ))
+        .catch(err => console.error('Failed to fetch projects', err));
+    }
+  }, [isLeadOwner]);
+
+  const fetchLeads = async (scope: LeadScope) => {
+    try {
+      setLeadsLoading(true);
+      const result = await leadService.fetchRoutedLeads(scope, { limit: 100 });
+      setLeads(result.leads);
+    } catch (err: any) {
+      console.error('Failed to fetch leads', err);
+      toast.error(err.message || 'Could not load leads');
+    } finally {
+      setLeadsLoading(false);
+    }
+  };
+
+  const fetchBoard = async (scope: LeadScope) => {
+    try {
+      setBoardLoading(true);
+      setColumns(await leadService.fetchPipelineBoard(scope));
+    } catch (err: any) {
+      console.error('Failed to fetch pipeline', err);
+      toast.error(err.message || 'Could not load the pipeline');
+    } finally {
+      setBoardLoading(false);
+    }
+  };
+
+  // Keeps the lists, the board and the open lead in step after a stage change or new activity
+  const handleLeadUpdated = (lead: RoutedLead) => {
+    setLeads(current => current.map(l => (l.id === lead.id ? lead : l)));
+    setColumns(current => applyLeadToColumns(current, lead));
+    setOpenLead(current => (current?.id === lead.id ? lead : current));
+  };
+
+  const handleRefresh = () => {
+    if (view === 'mine' || view === 'team') {
+      fetchLeads(view);
+    } else if (view === 'pipeline') {
+      fetchBoard(boardScope);
+    } else {
+      fetchSiteVisits();
+      fetchSiteVisitStats();
+    }
+  };
+
+  const openReassign = (lead: RoutedLead) => {
+    setReassigning(lead);
+    setAssigneeValue(lead.assignee ? String(lead.assignee.id) : UNASSIGNED);
+    setReassignReason('');
+  };
+
+  const handleReassign = async () => {
+    if (!reassigning) return;
+
+    try {
+      const assigneeId = assigneeValue === UNASSIGNED ? null : parseInt(assigneeValue);
+      const updated = await leadService.reassignLead(reassigning.id, assigneeId, reassignReason.trim() || undefined);
+      toast.success(updated.assignee ? `Lead assigned to ${updated.assignee.name}` : 'Lead unassigned');
+      setReassigning(null);
+      fetchLeads(view as LeadScope);
+    } catch (err: any) {
+      toast.error(err.message || 'Could not reassign the lead');
+    }
+  };
+
+  const openHistory = async (lead: RoutedLead) => {
+    setHistoryLead(lead);
+    setHistory([]);
+    try {
+      setHistory(await leadService.fetchAssignmentHistory(lead.id));
+    } catch (err: any) {
+      toast.error(err.message || 'Could not load assignment history');
+    }
+  };
+
   // Fetch visits based on the active tab
   useEffect(() => {
     fetchSiteVisits();
@@ -192,122 +342,305 @@ export function LeadManagementPage() {
               Manage your site visit requests and leads
             </p>
           </div>
-          <Button onClick={fetchSiteVisits}>
+          <Button onClick={handleRefresh}>
             <Icon icon="solar:refresh-bold" className="size-4 mr-2" />
             Refresh
           </Button>
         </div>
-        
-        {/* Stats Cards */}
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-4 mb-8">
-          <Card>
-            <CardContent className="p-6">
-              <div className="flex flex-col">
-                <span className="text-sm text-muted-foreground">Total Leads</span>
-                <span className="text-3xl font-bold">{stats.total}</span>
-              </div>
-            </CardContent>
-          </Card>
-          
-          <Card>
-            <CardContent className="p-6">
-              <div className="flex flex-col">
-                <span className="text-sm text-muted-foreground">Upcoming Visits</span>
-                <span className="text-3xl font-bold text-blue-600">{stats.upcoming}</span>
-              </div>
-            </CardContent>
-          </Card>
-          
-          <Card>
-            <CardContent className="p-6">
-              <div className="flex flex-col">
-                <span className="text-sm text-muted-foreground">Scheduled</span>
-                <span className="text-3xl font-bold text-blue-600">{stats.scheduled}</span>
-              </div>
-            </CardContent>
-          </Card>
-          
-          <Card>
-            <CardContent className="p-6">
-              <div className="flex flex-col">
-                <span className="text-sm text-muted-foreground">Completed</span>
-                <span className="text-3xl font-bold text-green-600">{stats.completed}</span>
-              </div>
-            </CardContent>
-          </Card>
-          
-          <Card>
-            <CardContent className="p-6">
-              <div className="flex flex-col">
-                <span className="text-sm text-muted-foreground">Cancelled</span>
-                <span className="text-3xl font-bold text-red-600">{stats.cancelled}</span>
-              </div>
-            </CardContent>
-          </Card>
-          
-          <Card>
-            <CardContent className="p-6">
-              <div className="flex flex-col">
-                <span className="text-sm text-muted-foreground">No Shows</span>
-                <span className="text-3xl font-bold text-yellow-600">{stats.no_show}</span>
-              </div>
-            </CardContent>
-          </Card>
-        </div>
-        
-        {/* Site Visits Tabs */}
-        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+
+        <Tabs value={view} onValueChange={setView} className="w-full">
           <TabsList className="mb-6">
-            <TabsTrigger value="scheduled">Scheduled</TabsTrigger>
-            <TabsTrigger value="completed">Completed</TabsTrigger>
-            <TabsTrigger value="cancelled">Cancelled</TabsTrigger>
-            <TabsTrigger value="no_show">No Shows</TabsTrigger>
+            <TabsTrigger value="mine">My Leads</TabsTrigger>
+            <TabsTrigger value="team">Team Leads</TabsTrigger>
+            <TabsTrigger value="pipeline">Pipeline</TabsTrigger>
+            <TabsTrigger value="contacts">Contacts</TabsTrigger>
+            <TabsTrigger value="site-visits">Site Visits</TabsTrigger>
+            {isLeadOwner && <TabsTrigger value="routing">Routing Rules</TabsTrigger>}
+            {isLeadOwner && <TabsTrigger value="stages">Pipeline Stages</TabsTrigger>}
           </TabsList>
-          
-          <TabsContent value="scheduled" className="mt-0">
+
+          <TabsContent value="mine" className="mt-0">
             <Card>
               <CardHeader>
-                <CardTitle>Scheduled Site Visits</CardTitle>
+                <CardTitle>Leads Assigned to You</CardTitle>
               </CardHeader>
               <CardContent>
-                {renderVisitsTable()}
+                <RoutedLeadsTable
+                  leads={leads}
+                  stages={stages}
+                  loading={leadsLoading}
+                  emptyMessage="No leads are assigned to you."
+                  onOpen={setOpenLead}
+                  onReassign={openReassign}
+                  onShowHistory={openHistory}
+                />
               </CardContent>
             </Card>
           </TabsContent>
-          
-          <TabsContent value="completed" className="mt-0">
+
+          <TabsContent value="team" className="mt-0">
             <Card>
               <CardHeader>
-                <CardTitle>Completed Site Visits</CardTitle>
+                <CardTitle>Team Leads</CardTitle>
               </CardHeader>
               <CardContent>
-                {renderVisitsTable()}
+                <RoutedLeadsTable
+                  leads={leads}
+                  stages={stages}
+                  loading={leadsLoading}
+                  emptyMessage="Leads on your listings, and on those of the teams you sell for, will appear here."
+                  onOpen={setOpenLead}
+                  onReassign={openReassign}
+                  onShowHistory={openHistory}
+                />
               </CardContent>
             </Card>
           </TabsContent>
-          
-          <TabsContent value="cancelled" className="mt-0">
+
+          <TabsContent value="pipeline" className="mt-0">
             <Card>
-              <CardHeader>
-                <CardTitle>Cancelled Site Visits</CardTitle>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle>Pipeline</CardTitle>
+                <Select value={boardScope} onValueChange={value => setBoardScope(value as LeadScope)}>
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="mine">Assigned to me</SelectItem>
+                    <SelectItem value="team">All team leads</SelectItem>
+                  </SelectContent>
+                </Select>
               </CardHeader>
               <CardContent>
-                {renderVisitsTable()}
+                <p className="text-sm text-muted-foreground mb-4">
+                  Drag a lead to another column to move it along. Click a lead to log calls, notes and follow-ups.
+                </p>
+                <LeadPipelineBoard
+                  columns={columns}
+                  loading={boardLoading}
+                  onOpen={setOpenLead}
+                  onLeadUpdated={handleLeadUpdated}
+                />
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="contacts" className="mt-0">
+            {view === 'contacts' && <ContactsPanel stages={stages} />}
+          </TabsContent>
+
+          {isLeadOwner && (
+            <TabsContent value="routing" className="mt-0">
+              <LeadRoutingRules agents={agents} projects={ownProjects} />
+            </TabsContent>
+          )}
+
+          {isLeadOwner && (
+            <TabsContent value="stages" className="mt-0">
+              <LeadPipelineSettings stages={stages} onSaved={setStages} />
+            </TabsContent>
+          )}
+
+          <TabsContent value="site-visits" className="mt-0">
+            {/* Stats Cards */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-4 mb-8">
+              <Card>
+                <CardContent className="p-6">
+                  <div className="flex flex-col">
+                    <span className="text-sm text-muted-foreground">Total Leads</span>
+                    <span className="text-3xl font-bold">{stats.total}</span>
+                  </div>
+                </CardContent>
+              </Card>
           
-          <TabsContent value="no_show" className="mt-0">
-            <Card>
-              <CardHeader>
-                <CardTitle>No Show Site Visits</CardTitle>
-              </CardHeader>
-              <CardContent>
-                {renderVisitsTable()}
-              </CardContent>
-            </Card>
+              <Card>
+                <CardContent className="p-6">
+                  <div className="flex flex-col">
+                    <span className="text-sm text-muted-foreground">Upcoming Visits</span>
+                    <span className="text-3xl font-bold text-blue-600">{stats.upcoming}</span>
+                  </div>
+                </CardContent>
+              </Card>
+          
+              <Card>
+                <CardContent className="p-6">
+                  <div className="flex flex-col">
+                    <span className="text-sm text-muted-foreground">Scheduled</span>
+                    <span className="text-3xl font-bold text-blue-600">{stats.scheduled}</span>
+                  </div>
+                </CardContent>
+              </Card>
+          
+              <Card>
+                <CardContent className="p-6">
+                  <div className="flex flex-col">
+                    <span className="text-sm text-muted-foreground">Completed</span>
+                    <span className="text-3xl font-bold text-green-600">{stats.completed}</span>
+                  </div>
+                </CardContent>
+              </Card>
+          
+              <Card>
+                <CardContent className="p-6">
+                  <div className="flex flex-col">
+                    <span className="text-sm text-muted-foreground">Cancelled</span>
+                    <span className="text-3xl font-bold text-red-600">{stats.cancelled}</span>
+                  </div>
+                </CardContent>
+              </Card>
+          
+              <Card>
+                <CardContent className="p-6">
+                  <div className="flex flex-col">
+                    <span className="text-sm text-muted-foreground">No Shows</span>
+                    <span className="text-3xl font-bold text-yellow-600">{stats.no_show}</span>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+        
+            {/* Site Visits Tabs */}
+            <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+              <TabsList className="mb-6">
+                <TabsTrigger value="scheduled">Scheduled</TabsTrigger>
+                <TabsTrigger value="completed">Completed</TabsTrigger>
+                <TabsTrigger value="cancelled">Cancelled</TabsTrigger>
+                <TabsTrigger value="no_show">No Shows</TabsTrigger>
+              </TabsList>
+          
+              <TabsContent value="scheduled" className="mt-0">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Scheduled Site Visits</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {renderVisitsTable()}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+          
+              <TabsContent value="completed" className="mt-0">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Completed Site Visits</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {renderVisitsTable()}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+          
+              <TabsContent value="cancelled" className="mt-0">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Cancelled Site Visits</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {renderVisitsTable()}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+          
+              <TabsContent value="no_show" className="mt-0">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>No Show Site Visits</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {renderVisitsTable()}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            </Tabs>
           </TabsContent>
         </Tabs>
+
+        <LeadDetailDialog
+          lead={openLead}
+          stages={stages}
+          onClose={() => setOpenLead(null)}
+          onLeadUpdated={handleLeadUpdated}
+        />
+
+        {/* Reassign Dialog */}
+        <Dialog open={!!reassigning} onOpenChange={open => !open && setReassigning(null)}>
+          <DialogContent className="sm:max-w-[500px]">
+            <DialogHeader>
+              <DialogTitle>Reassign Lead</DialogTitle>
+            </DialogHeader>
+
+            <div className="grid gap-4 py-4">
+              <p className="text-sm text-muted-foreground">
+                {reassigning?.name} · {reassigning?.listing?.title}
+              </p>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Assign to</label>
+                <Select value={assigneeValue} onValueChange={setAssigneeValue}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a team member" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED}>Nobody (unassign)</SelectItem>
+                    {agents.map(agent => (
+                      <SelectItem key={agent.id} value={String(agent.id)}>
+                        {agent.is_owner ? `${agent.name} (you)` : agent.name} · {agent.open_leads} open
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Reason</label>
+                <Input
+                  placeholder="Optional, kept in the lead's history"
+                  value={reassignReason}
+                  onChange={(e) => setReassignReason(e.target.value)}
+                  maxLength={255}
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setReassigning(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleReassign}>
+                Reassign
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Assignment History Dialog */}
+        <Dialog open={!!historyLead} onOpenChange={open => !open && setHistoryLead(null)}>
+          <DialogContent className="sm:max-w-[500px]">
+            <DialogHeader>
+              <DialogTitle>Assignment History</DialogTitle>
+            </DialogHeader>
+
+            <div className="space-y-3 py-4">
+              {history.length === 0 && (
+                <p className="text-sm text-muted-foreground">This lead has not been assigned yet.</p>
+              )}
+              {history.map(entry => (
+                <div key={entry.id} className="rounded-md border p-3 text-sm">
+                  <div className="font-medium">
+                    {entry.assigned_to ? `Assigned to ${entry.assigned_to.name}` : 'Unassigned'}
+                    {entry.previous_assignee && (
+                      <span className="font-normal text-muted-foreground"> (from {entry.previous_assignee.name})</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {format(new Date(entry.created_at), 'MMM d, yyyy h:mm a')} · {entry.assigned_by ? `by ${entry.assigned_by.name}` : 'automatically'}
+                  </div>
+                  {entry.reason && <div className="mt-1">{entry.reason}</div>}
+                </div>
+              ))}
+            </div>
+          </DialogContent>
+        </Dialog>
         
         {/* Edit Dialog */}
         <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
@@ -4,6 +4,21 @@ import {
   LeadFilters, 
   LeadsResponse, 
   LeadStatsResponse,
+  LeadScope,
+  LeadAgent,
+  LeadAssignmentEntry,
+  ContactDetail,
+  ContactsResponse,
+  LeadActivity,
+  LeadActivityInput,
+  LeadStage,
+  PipelineColumn,
+  PipelineStage,
+  PipelineStageInput,
+  LeadRoutingRule,
+  LeadRoutingRuleInput,
+  RoutedLead,
+  RoutedLeadsResponse,
   SiteVisit,
   SiteVisitStats,
   SiteVisitFilters,
@@ -104,6 +119,146 @@ class LeadService {
     }
   }
 
+  // Lead routing methods. Errors carry the server's message, e.g. why a rule was rejected.
+  async fetchRoutedLeads(scope: LeadScope, filters: { status?: string; stage?: LeadStage; page?: number; limit?: number } = {}): Promise<RoutedLeadsResponse['data']> {
+    const params = new URLSearchParams({ scope });
+    if (filters.status) params.append('status', filters.status);
+    if (filters.stage) params.append('stage', filters.stage);
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.limit) params.append('limit', filters.limit.toString());
+
+    const result: RoutedLeadsResponse = await this.request(`/api/v1/leads?${params.toString()}`, {}, 'Failed to load leads');
+    return result.data;
+  }
+
+  async reassignLead(leadId: number, assigneeId: number | null, reason?: string): Promise<RoutedLead> {
+    const result = await this.request(`/api/v1/leads/${leadId}/assignment`, {
+      method: 'PATCH',
+      body: JSON.stringify({ assigneeId, reason }),
+    }, 'Failed to reassign lead');
+    return result.data.lead;
+  }
+
+  async fetchAssignmentHistory(leadId: number): Promise<LeadAssignmentEntry[]> {
+    const result = await this.request(`/api/v1/leads/${leadId}/assignments`, {}, 'Failed to load assignment history');
+    return result.data.assignments;
+  }
+
+  async fetchLeadAgents(): Promise<LeadAgent[]> {
+    const result = await this.request('/api/v1/leads/agents', {}, 'Failed to load team');
+    return result.data.agents;
+  }
+
+  async fetchRoutingRules(): Promise<LeadRoutingRule[]> {
+    const result = await this.request('/api/v1/leads/routing-rules', {}, 'Failed to load routing rules');
+    return result.data.rules;
+  }
+
+  async createRoutingRule(data: LeadRoutingRuleInput): Promise<LeadRoutingRule> {
+    const result = await this.request('/api/v1/leads/routing-rules', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }, 'Failed to create routing rule');
+    return result.data.rule;
+  }
+
+  async updateRoutingRule(ruleId: number, data: LeadRoutingRuleInput): Promise<LeadRoutingRule> {
+    const result = await this.request(`/api/v1/leads/routing-rules/${ruleId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }, 'Failed to update routing rule');
+    return result.data.rule;
+  }
+
+  async deleteRoutingRule(ruleId: number): Promise<void> {
+    await this.request(`/api/v1/leads/routing-rules/${ruleId}`, { method: 'DELETE' }, 'Failed to delete routing rule');
+  }
+
+  // Lead pipeline methods
+  async fetchPipelineStages(): Promise<PipelineStage[]> {
+    const result = await this.request('/api/v1/inquiries/pipeline/stages', {}, 'Failed to load pipeline stages');
+    return result.data.stages;
+  }
+
+  // Saves the whole pipeline: every stage once, in board order
+  async updatePipelineStages(stages: PipelineStageInput[]): Promise<PipelineStage[]> {
+    const result = await this.request('/api/v1/inquiries/pipeline/stages', {
+      method: 'PUT',
+      body: JSON.stringify({ stages }),
+    }, 'Failed to save pipeline stages');
+    return result.data.stages;
+  }
+
+  async fetchPipelineBoard(scope: LeadScope): Promise<PipelineColumn[]> {
+    const result = await this.request(`/api/v1/inquiries/pipeline?scope=${scope}`, {}, 'Failed to load pipeline');
+    return result.data.columns;
+  }
+
+  async changeLeadStage(leadId: number, stage: LeadStage, lostReason?: string): Promise<RoutedLead> {
+    const result = await this.request(`/api/v1/inquiries/${leadId}/stage`, {
+      method: 'PATCH',
+      body: JSON.stringify({ stage, lostReason }),
+    }, 'Failed to update lead stage');
+    return result.data.lead;
+  }
+
+  async fetchLeadActivities(leadId: number): Promise<LeadActivity[]> {
+    const result = await this.request(`/api/v1/inquiries/${leadId}/activities`, {}, 'Failed to load lead activity');
+    return result.data.activities;
+  }
+
+  async addLeadActivity(leadId: number, data: LeadActivityInput): Promise<LeadActivity> {
+    const result = await this.request(`/api/v1/inquiries/${leadId}/activities`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }, 'Failed to log activity');
+    return result.data.activity;
+  }
+
+  async completeFollowUp(leadId: number, activityId: number): Promise<LeadActivity> {
+    const result = await this.request(
+      `/api/v1/inquiries/${leadId}/activities/${activityId}/complete`,
+      { method: 'POST' },
+      'Failed to complete follow-up'
+    );
+    return result.data.activity;
+  }
+
+  async fetchContacts(filters: { search?: string; page?: number; limit?: number } = {}): Promise<ContactsResponse['data']> {
+    const params = new URLSearchParams();
+    if (filters.search) params.append('search', filters.search);
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.limit) params.append('limit', filters.limit.toString());
+
+    const result: ContactsResponse = await this.request(`/api/v1/contacts?${params.toString()}`, {}, 'Failed to load contacts');
+    return result.data;
+  }
+
+  async fetchContact(contactId: number): Promise<ContactDetail> {
+    const result = await this.request(`/api/v1/contacts/${contactId}`, {}, 'Failed to load contact');
+    return result.data.contact;
+  }
+
+  // Merge the other contacts into the one kept
+  async mergeContacts(contactId: number, contactIds: number[]): Promise<ContactDetail> {
+    const result = await this.request(`/api/v1/contacts/${contactId}/merge`, {
+      method: 'POST',
+      body: JSON.stringify({ contactIds }),
+    }, 'Failed to merge contacts');
+    return result.data.contact;
+  }
+
+  private async request(url: string, init: RequestInit, fallbackMessage: string): Promise<any> {
+    const response = await fetch(url, { ...init, headers: this.getAuthHeaders() });
+    const result = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      const details = result?.error?.details;
+      throw new Error(details?.[0]?.msg || result?.error?.message || fallbackMessage);
+    }
+    return result;
+  }
+
   // Site Visit Management Methods
   async fetchAgentSiteVisits(filters: SiteVisitFilters = {}): Promise<SiteVisit[]> {
     try {
@@ -64,6 +64,174 @@ export interface LeadStats {
   conversionRate: number;
 }
 
+// Lead routing types
+export type LeadSource = 'inquiry_form' | 'site_visit' | 'asset_download';
+export type LeadScope = 'mine' | 'team';
+export type LeadSlaStatus = 'none' | 'pending' | 'met' | 'missed';
+export type LeadRoutingStrategy = 'round_robin' | 'least_load';
+
+// Lead pipeline types
+export type LeadStage =
+  | 'new'
+  | 'contacted'
+  | 'qualified'
+  | 'site_visit_scheduled'
+  | 'negotiation'
+  | 'won'
+  | 'lost';
+export type LeadActivityType = 'note' | 'call' | 'whatsapp' | 'follow_up' | 'stage_change';
+export type LoggedActivityType = Exclude<LeadActivityType, 'stage_change'>;
+
+// An inquiry as seen in "My Leads" and "Team Leads"
+export interface RoutedLead {
+  id: number;
+  name: string;
+  email: string;
+  phone: string | null;
+  message: string;
+  status: 'new' | 'contacted' | 'closed';
+  stage: LeadStage;
+  lost_reason: string | null;
+  next_follow_up_at: string | null;
+  source: LeadSource;
+  listing: { type: 'property' | 'project'; id: number; title: string; city: string } | null;
+  assignee: { id: number; name: string; email: string } | null;
+  assigned_at: string | null;
+  response_due_at: string | null;
+  first_responded_at: string | null;
+  sla_status: LeadSlaStatus;
+  can_reassign: boolean;
+  created_at: string;
+}
+
+export interface LeadAgent {
+  id: number;
+  name: string;
+  email: string;
+  is_owner: boolean;
+  open_leads: number;
+}
+
+export interface LeadAssignmentEntry {
+  id: number;
+  assigned_to: { id: number; name: string } | null;
+  previous_assignee: { id: number; name: string } | null;
+  // null when the lead was routed automatically
+  assigned_by: { id: number; name: string } | null;
+  rule: { id: number; name: string } | null;
+  reason: string | null;
+  created_at: string;
+}
+
+export interface LeadRoutingRule {
+  id: number;
+  name: string;
+  priority: number;
+  is_active: boolean;
+  cities: string[] | null;
+  property_types: string[] | null;
+  min_budget: number | string | null;
+  max_budget: number | string | null;
+  project_ids: number[] | null;
+  sources: LeadSource[] | null;
+  strategy: LeadRoutingStrategy;
+  agent_ids: number[];
+  sla_minutes: number | null;
+}
+
+export interface PipelineStage {
+  stage: LeadStage;
+  label: string;
+  status: RoutedLead['status'];
+  is_closed: boolean;
+  // Leads can't be moved into a disabled stage
+  is_enabled: boolean;
+  // New, contacted, won and lost can't be disabled
+  is_required: boolean;
+}
+
+// One stage of the owner's pipeline, sent in board order
+export interface PipelineStageInput {
+  stage: LeadStage;
+  label: string;
+  isEnabled?: boolean;
+}
+
+// A board column: the total in the stage and its most recent leads
+export interface PipelineColumn extends PipelineStage {
+  total: number;
+  leads: RoutedLead[];
+}
+
+export interface LeadActivity {
+  id: number;
+  type: LeadActivityType;
+  content: string | null;
+  from_stage: LeadStage | null;
+  to_stage: LeadStage | null;
+  user: { id: number; name: string } | null;
+  occurred_at: string;
+  follow_up_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+}
+
+export interface LeadActivityInput {
+  type: LoggedActivityType;
+  content?: string;
+  occurredAt?: string;
+  followUpAt?: string;
+}
+
+// One person who has inquired about the owner's listings, matched by email and phone
+export interface Contact {
+  id: number;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  emails: string[];
+  phones: string[];
+  inquiry_count: number;
+  last_inquiry_at: string | null;
+  created_at: string;
+}
+
+export interface ContactInquiry {
+  id: number;
+  listing: RoutedLead['listing'];
+  name: string;
+  email: string;
+  phone: string | null;
+  message: string;
+  source: LeadSource;
+  status: RoutedLead['status'];
+  stage: LeadStage;
+  score: number | null;
+  assigned_to: number | null;
+  created_at: string;
+}
+
+export interface ContactDetail extends Contact {
+  // Newest first, across properties and projects
+  inquiries: ContactInquiry[];
+  possible_duplicates: Contact[];
+}
+
+export interface LeadRoutingRuleInput {
+  name: string;
+  priority: number;
+  isActive: boolean;
+  cities: string[] | null;
+  propertyTypes: string[] | null;
+  minBudget: number | null;
+  maxBudget: number | null;
+  projectIds: number[] | null;
+  sources: LeadSource[] | null;
+  strategy: LeadRoutingStrategy;
+  agentIds: number[];
+  slaMinutes: number | null;
+}
+
 // Site Visit types
 export interface SiteVisit {
   id: number;
@@ -176,6 +344,30 @@ export interface LeadsResponse {
   };
 }
 
+export interface ContactsResponse {
+  success: boolean;
+  data: {
+    contacts: Contact[];
+    total: number;
+    page: number;
+    totalPages: number;
+  };
+}
+
+export interface RoutedLeadsResponse {
+  success: boolean;
+  data: {
+    leads: RoutedLead[];
+    total: number;
+    page: number;
+    totalPages: number;
+  };
+  error?: {
+    message: string;
+    details?: any;
+  };
+}
+
 export interface LeadStatsResponse {
   success: boolean;
   data: LeadStats;
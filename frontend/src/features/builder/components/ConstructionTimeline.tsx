@@ -0,0 +1,112 @@
+import React from 'react';
+import { Icon } from '@iconify/react';
+import { Badge } from '@/shared/components/ui/badge';
+import { Button } from '@/shared/components/ui/button';
+import { Progress } from '@/shared/components/ui/progress';
+import { formatDate, formatDateTime } from '@/shared/utils/formatters';
+import type { ProjectUpdate, ProjectUpdateType } from '@/shared/lib/api';
+
+export interface ConstructionTimelineProps {
+  updates: ProjectUpdate[];
+  // Builders can delete updates and see who was notified
+  onDelete?: (update: ProjectUpdate) => void;
+}
+
+export const UPDATE_TYPE_STYLES: Record<ProjectUpdateType, { label: string; icon: string; className: string }> = {
+  milestone: { label: 'Milestone', icon: 'solar:flag-bold', className: 'bg-purple-100 text-purple-800' },
+  progress: { label: 'Progress', icon: 'solar:buildings-2-bold', className: 'bg-blue-100 text-blue-800' },
+  quarterly_report: { label: 'Quarterly Report', icon: 'solar:document-text-bold', className: 'bg-green-100 text-green-800' },
+};
+
+export const ConstructionTimeline: React.FC<ConstructionTimelineProps> = ({ updates, onDelete }) => {
+  if (updates.length === 0) {
+    return <p className="py-6 text-center text-muted-foreground">No construction updates yet.</p>;
+  }
+
+  return (
+    <ol className="relative space-y-8 border-l border-muted pl-6">
+      {updates.map(update => {
+        const style = UPDATE_TYPE_STYLES[update.update_type];
+        const progress = update.progress_percent != null ? Number(update.progress_percent) : null;
+
+        return (
+          <li key={update.id} className="relative">
+            <span className="absolute -left-[37px] flex size-6 items-center justify-center rounded-full bg-background ring-2 ring-muted">
+              <Icon icon={style.icon} className="size-4 text-primary" />
+            </span>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-muted-foreground">{formatDate(update.update_date)}</span>
+              <Badge className={style.className}>
+                {update.update_type === 'quarterly_report'
+                  ? `Q${update.report_quarter} ${update.report_year} Report`
+                  : style.label}
+              </Badge>
+              {onDelete && (
+                <Button size="sm" variant="ghost" className="ml-auto text-red-600" onClick={() => onDelete(update)}>
+                  <Icon icon="solar:trash-bin-minimalistic-bold" className="size-4" />
+                </Button>
+              )}
+            </div>
+
+            <h4 className="mt-1 font-semibold">{update.title}</h4>
+            {update.description && (
+              <p className="mt-1 whitespace-pre-line text-sm text-muted-foreground">{update.description}</p>
+            )}
+
+            {progress !== null && (
+              <div className="mt-3 flex items-center gap-3">
+                <Progress value={progress} className="h-2 max-w-xs" />
+                <span className="text-sm font-medium">{progress}% complete</span>
+              </div>
+            )}
+
+            {update.stages && update.stages.length > 0 && (
+              <div className="mt-3 grid max-w-md grid-cols-1 gap-2 sm:grid-cols-2">
+                {update.stages.map(stage => (
+                  <div key={stage.name} className="text-xs">
+                    <div className="mb-1 flex justify-between">
+                      <span>{stage.name}</span>
+                      <span className="text-muted-foreground">{stage.percent}%</span>
+                    </div>
+                    <Progress value={stage.percent} className="h-1.5" />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {update.inventory_snapshot && (
+              <p className="mt-3 text-xs text-muted-foreground">
+                Units at filing: {update.inventory_snapshot.total_units} total · {update.inventory_snapshot.sold_units} sold ·{' '}
+                {update.inventory_snapshot.blocked_units} blocked · {update.inventory_snapshot.available_units} available
+              </p>
+            )}
+
+            {update.photos.length > 0 && (
+              <div className="mt-3 flex flex-wrap gap-2">
+                {update.photos.map(photo => (
+                  <a key={photo.id} href={photo.largeUrl || photo.url} target="_blank" rel="noopener noreferrer">
+                    <img
+                      src={photo.thumbnailUrl || photo.url}
+                      alt={update.title}
+                      className="size-24 rounded-md object-cover"
+                      loading="lazy"
+                    />
+                  </a>
+                ))}
+              </div>
+            )}
+
+            {onDelete && (
+              <p className="mt-2 text-xs text-muted-foreground">
+                {update.notified_at
+                  ? `${update.recipients_notified ?? 0} buyer(s) emailed on ${formatDateTime(update.notified_at)}`
+                  : 'Buyer notices pending'}
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/shared/components/ui/table';
+import { formatCurrency } from '@/shared/utils/formatters';
+import type { PriceListItem, PriceListSummary } from '@/shared/lib/api';
+
+export interface PriceListTableProps {
+  items: PriceListItem[];
+  summary?: PriceListSummary;
+  // Builders see how each price is made up; buyers only need the totals
+  showBreakdown?: boolean;
+}
+
+export const PriceListTable: React.FC<PriceListTableProps> = ({ items, summary, showBreakdown = true }) => {
+  if (items.length === 0) {
+    return <p className="py-6 text-center text-muted-foreground">No units to price yet.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {summary && (
+        <div className="flex flex-wrap gap-6 text-sm">
+          <span><span className="text-muted-foreground">Units:</span> {summary.units}</span>
+          {summary.price_range && (
+            <span>
+              <span className="text-muted-foreground">Range:</span>{' '}
+              {formatCurrency(summary.price_range.min)} – {formatCurrency(summary.price_range.max)}
+            </span>
+          )}
+          {showBreakdown && (
+            <span><span className="text-muted-foreground">Inventory value:</span> {formatCurrency(summary.total_value)}</span>
+          )}
+        </div>
+      )}
+
+      <div className="max-h-[480px] overflow-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Unit</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Floor</TableHead>
+              <TableHead className="text-right">Area</TableHead>
+              {showBreakdown && (
+                <>
+                  <TableHead className="text-right">Base</TableHead>
+                  <TableHead className="text-right">Floor Rise</TableHead>
+                  <TableHead className="text-right">PLC</TableHead>
+                  <TableHead className="text-right">Parking</TableHead>
+                </>
+              )}
+              <TableHead className="text-right">Total</TableHead>
+              <TableHead className="text-right">Per sqft</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((item, index) => (
+              <TableRow key={item.unit_id ?? `${item.unit_number}-${index}`}>
+                <TableCell className="font-medium">
+                  {item.tower ? `${item.tower} / ` : ''}{item.unit_number}
+                </TableCell>
+                <TableCell>{item.unit_type}</TableCell>
+                <TableCell>{item.floor_number}</TableCell>
+                <TableCell className="text-right">{Number(item.area_sqft).toLocaleString('en-IN')} sqft</TableCell>
+                {showBreakdown && (
+                  <>
+                    <TableCell className="text-right">{formatCurrency(Number(item.base_amount))}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(Number(item.floor_rise_amount))}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(Number(item.plc_amount))}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(Number(item.parking_amount))}</TableCell>
+                  </>
+                )}
+                <TableCell className="text-right font-medium">{formatCurrency(Number(item.total_price))}</TableCell>
+                <TableCell className="text-right">{formatCurrency(Number(item.price_per_sqft))}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Icon } from '@iconify/react';
+import { Badge } from '@/shared/components/ui/badge';
+import type { ProjectAsset, ProjectAssetType } from '@/shared/lib/api';
+
+export interface ProjectAssetListProps {
+  assets: ProjectAsset[];
+  // Buttons for each asset: download on the public page, editing for the project team
+  renderActions: (asset: ProjectAsset) => React.ReactNode;
+  emptyMessage?: string;
+}
+
+export const ASSET_TYPE_STYLES: Record<ProjectAssetType, { label: string; icon: string }> = {
+  brochure: { label: 'Brochure', icon: 'solar:document-text-bold' },
+  floor_plan: { label: 'Floor Plan', icon: 'solar:ruler-angular-bold' },
+  tour_3d: { label: '3D Tour', icon: 'solar:videocamera-record-bold' },
+};
+
+const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+export const ProjectAssetList: React.FC<ProjectAssetListProps> = ({
+  assets,
+  renderActions,
+  emptyMessage = 'No brochures, floor plans or tours yet.',
+}) => {
+  if (assets.length === 0) {
+    return <p className="py-6 text-center text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 xl:grid-cols-3">
+      {assets.map(asset => {
+        const style = ASSET_TYPE_STYLES[asset.asset_type];
+
+        return (
+          <div key={asset.id} className="flex flex-col overflow-hidden rounded-lg border">
+            <div className="flex h-40 items-center justify-center bg-muted">
+              {asset.thumbnail_url ? (
+                <img src={asset.thumbnail_url} alt={asset.title} className="h-full w-full object-cover" />
+              ) : (
+                <Icon icon={style.icon} className="size-12 text-muted-foreground" />
+              )}
+            </div>
+
+            <div className="flex flex-1 flex-col gap-2 p-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="secondary">
+                  <Icon icon={style.icon} className="size-3 mr-1" />
+                  {style.label}
+                </Badge>
+                {asset.unit_type && <Badge variant="outline">{asset.unit_type}</Badge>}
+                {asset.requires_lead && (
+                  <Badge variant="outline">
+                    <Icon icon="solar:lock-keyhole-bold" className="size-3 mr-1" />
+                    Lead form
+                  </Badge>
+                )}
+              </div>
+
+              <h4 className="font-semibold">{asset.title}</h4>
+              {asset.file_size != null && (
+                <p className="text-xs text-muted-foreground">
+                  {asset.mime_type === 'application/pdf' ? 'PDF' : 'Image'} · {formatFileSize(asset.file_size)}
+                </p>
+              )}
+
+              <div className="mt-auto flex flex-wrap gap-2 pt-2">{renderActions(asset)}</div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,255 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Icon } from '@iconify/react';
+import { Button } from '@/shared/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import type { ProjectUnit, StackingPlan, StackingPlanUnit } from '@/shared/lib/api';
+import projectService from '../services/projectService';
+import { toast } from 'sonner';
+
+type UnitStatus = ProjectUnit['status'];
+type ColorMode = 'status' | 'price';
+
+export interface StackingPlanGridProps {
+  projectId: string;
+  // Called after a batch status change so the page can refresh its counts
+  onUnitsChanged?: () => void;
+}
+
+const STATUS_STYLES: Record<UnitStatus, { label: string; cell: string; swatch: string }> = {
+  available: { label: 'Available', cell: 'bg-green-100 border-green-300 text-green-900', swatch: 'bg-green-300' },
+  reserved: { label: 'Reserved', cell: 'bg-blue-100 border-blue-300 text-blue-900', swatch: 'bg-blue-300' },
+  blocked: { label: 'Blocked', cell: 'bg-yellow-100 border-yellow-300 text-yellow-900', swatch: 'bg-yellow-300' },
+  sold: { label: 'Sold', cell: 'bg-gray-200 border-gray-300 text-gray-700', swatch: 'bg-gray-400' },
+};
+
+// Green for the cheapest price per sqft in the project through to red for the most expensive
+const heatColor = (heat: number | null): string | undefined =>
+  heat === null ? undefined : `hsl(${Math.round(120 - heat * 120)}, 70%, 82%)`;
+
+const formatRate = (rate: number) => `₹${Math.round(rate).toLocaleString()}/sqft`;
+
+export const StackingPlanGrid: React.FC<StackingPlanGridProps> = ({ projectId, onUnitsChanged }) => {
+  const [plan, setPlan] = useState<StackingPlan | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [colorMode, setColorMode] = useState<ColorMode>('status');
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [targetStatus, setTargetStatus] = useState<UnitStatus>('available');
+  const [applying, setApplying] = useState(false);
+  const lastClickedRef = useRef<number | null>(null);
+
+  const fetchPlan = useCallback(async () => {
+    try {
+      setLoading(true);
+      setPlan(await projectService.getStackingPlan(projectId));
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to load stacking plan');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchPlan();
+  }, [fetchPlan]);
+
+  // Units in display order, used for shift-click range selection
+  const orderedUnits = useMemo(
+    () => plan?.towers.flatMap(tower => tower.floors.flatMap(floor => floor.units)) || [],
+    [plan]
+  );
+
+  // Held and booked units change status through the reservation flow
+  const isSelectable = (unit: StackingPlanUnit) => unit.reservation_status === null;
+
+  const toggleUnits = (units: StackingPlanUnit[]) => {
+    const selectable = units.filter(isSelectable);
+    setSelected(previous => {
+      const next = new Set(previous);
+      const allSelected = selectable.every(unit => next.has(unit.id));
+      selectable.forEach(unit => (allSelected ? next.delete(unit.id) : next.add(unit.id)));
+      return next;
+    });
+  };
+
+  const handleUnitClick = (unit: StackingPlanUnit, event: React.MouseEvent) => {
+    if (!isSelectable(unit)) return;
+
+    const lastIndex = orderedUnits.findIndex(candidate => candidate.id === lastClickedRef.current);
+    const index = orderedUnits.findIndex(candidate => candidate.id === unit.id);
+
+    if (event.shiftKey && lastIndex !== -1) {
+      const [start, end] = lastIndex < index ? [lastIndex, index] : [index, lastIndex];
+      setSelected(previous => {
+        const next = new Set(previous);
+        orderedUnits.slice(start, end + 1).filter(isSelectable).forEach(candidate => next.add(candidate.id));
+        return next;
+      });
+    } else {
+      toggleUnits([unit]);
+    }
+
+    lastClickedRef.current = unit.id;
+  };
+
+  const applyStatus = async () => {
+    if (selected.size === 0) return;
+
+    try {
+      setApplying(true);
+      const response = await projectService.bulkUpdateUnitStatus(projectId, Array.from(selected), targetStatus);
+      toast.success(response.message || 'Units updated');
+      setSelected(new Set());
+      lastClickedRef.current = null;
+      await fetchPlan();
+      onUnitsChanged?.();
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to update units');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  if (loading && !plan) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Icon icon="solar:refresh-bold" className="size-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!plan || plan.total_units === 0) {
+    return <p className="py-12 text-center text-muted-foreground">No units to show yet.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Toolbar */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant={colorMode === 'status' ? 'default' : 'outline'}
+            onClick={() => setColorMode('status')}
+          >
+            Status
+          </Button>
+          <Button
+            size="sm"
+            variant={colorMode === 'price' ? 'default' : 'outline'}
+            onClick={() => setColorMode('price')}
+            disabled={!plan.price_per_sqft}
+          >
+            Price / sqft
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-muted-foreground">{selected.size} selected</span>
+          <Select value={targetStatus} onValueChange={value => setTargetStatus(value as UnitStatus)}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(STATUS_STYLES) as UnitStatus[]).map(status => (
+                <SelectItem key={status} value={status}>{STATUS_STYLES[status].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" onClick={applyStatus} disabled={selected.size === 0 || applying}>
+            {applying ? 'Updating...' : 'Set Status'}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setSelected(new Set())} disabled={selected.size === 0}>
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+        {colorMode === 'status' ? (
+          (Object.keys(STATUS_STYLES) as UnitStatus[]).map(status => (
+            <span key={status} className="flex items-center gap-1">
+              <span className={`inline-block size-3 rounded ${STATUS_STYLES[status].swatch}`} />
+              {STATUS_STYLES[status].label} ({plan.status_counts[status] || 0})
+            </span>
+          ))
+        ) : plan.price_per_sqft && (
+          <span className="flex items-center gap-2">
+            {formatRate(plan.price_per_sqft.min)}
+            <span
+              className="inline-block h-3 w-32 rounded"
+              style={{ background: `linear-gradient(to right, ${heatColor(0)}, ${heatColor(0.5)}, ${heatColor(1)})` }}
+            />
+            {formatRate(plan.price_per_sqft.max)}
+          </span>
+        )}
+        <span className="flex items-center gap-1">
+          <Icon icon="solar:lock-keyhole-bold" className="size-3" />
+          Held or booked
+        </span>
+        <span>Shift-click to select a range; click a floor number to select the floor</span>
+      </div>
+
+      {/* Towers */}
+      <div className="flex gap-8 overflow-x-auto pb-2">
+        {plan.towers.map(tower => (
+          <div key={tower.tower ?? 'unassigned'} className="shrink-0">
+            <button
+              type="button"
+              className="mb-2 text-sm font-semibold hover:underline"
+              onClick={() => toggleUnits(tower.floors.flatMap(floor => floor.units))}
+            >
+              {tower.tower ? `Tower ${tower.tower}` : 'No tower'} · {tower.unit_count} units
+            </button>
+
+            <div className="space-y-1">
+              {tower.floors.map(floor => (
+                <div key={floor.floor_number} className="flex items-stretch gap-1">
+                  <button
+                    type="button"
+                    className="w-10 shrink-0 rounded text-xs text-muted-foreground hover:bg-muted"
+                    onClick={() => toggleUnits(floor.units)}
+                    title={`Select floor ${floor.floor_number}`}
+                  >
+                    {floor.floor_number === 0 ? 'G' : floor.floor_number}
+                  </button>
+
+                  {floor.units.map(unit => {
+                    const isSelected = selected.has(unit.id);
+                    return (
+                      <button
+                        key={unit.id}
+                        type="button"
+                        onClick={event => handleUnitClick(unit, event)}
+                        className={[
+                          'relative w-20 rounded border px-1 py-1 text-left text-xs transition-shadow',
+                          colorMode === 'status' ? STATUS_STYLES[unit.status].cell : 'border-gray-300 text-gray-900',
+                          isSelected ? 'ring-2 ring-primary ring-offset-1' : '',
+                          isSelectable(unit) ? 'cursor-pointer' : 'cursor-not-allowed opacity-80',
+                        ].join(' ')}
+                        style={colorMode === 'price' ? { backgroundColor: heatColor(unit.price_heat) } : undefined}
+                        title={[
+                          `${unit.unit_number} · ${unit.unit_type}`,
+                          `${unit.area_sqft} sqft · ₹${unit.price.toLocaleString()}`,
+                          unit.price_per_sqft ? formatRate(unit.price_per_sqft) : null,
+                          STATUS_STYLES[unit.status].label,
+                          unit.reservation_status ? `Reservation: ${unit.reservation_status}` : null,
+                        ].filter(Boolean).join('\n')}
+                      >
+                        <span className="block truncate font-medium">{unit.unit_number}</span>
+                        <span className="block truncate opacity-75">{unit.unit_type}</span>
+                        {unit.reservation_status && (
+                          <Icon icon="solar:lock-keyhole-bold" className="absolute right-1 top-1 size-3" />
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/shared/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/shared/components/ui/table';
+import { formatCurrency } from '@/shared/utils/formatters';
+import { api } from '@/shared/lib/api';
+import type { PublicProjectUnit, UnitConfiguration } from '@/shared/lib/api';
+
+export interface UnitAvailabilityTableProps {
+  projectId: number;
+}
+
+const bhkLabel = (bedrooms: number) => (bedrooms === 0 ? 'Studio' : `${bedrooms} BHK`);
+
+export const UnitAvailabilityTable: React.FC<UnitAvailabilityTableProps> = ({ projectId }) => {
+  const [configurations, setConfigurations] = useState<UnitConfiguration[]>([]);
+  const [units, setUnits] = useState<PublicProjectUnit[]>([]);
+  const [bedrooms, setBedrooms] = useState<number | undefined>(undefined);
+  const [loading, setLoading] = useState(true);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setLoading(true);
+    api.getProjectAvailability(projectId, bedrooms)
+      .then(response => {
+        if (cancelled) return;
+        setConfigurations(response.data.configurations);
+        setUnits(response.data.units);
+        setFailed(false);
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, bedrooms]);
+
+  if (failed) {
+    return <p className="py-6 text-center text-muted-foreground">Unit availability is not published for this project yet.</p>;
+  }
+  if (!loading && configurations.length === 0) {
+    return <p className="py-6 text-center text-muted-foreground">No units are available right now.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant={bedrooms === undefined ? 'default' : 'outline'} onClick={() => setBedrooms(undefined)}>
+          All
+        </Button>
+        {configurations.map(configuration => (
+          <Button
+            key={configuration.bedrooms}
+            size="sm"
+            variant={bedrooms === configuration.bedrooms ? 'default' : 'outline'}
+            onClick={() => setBedrooms(configuration.bedrooms)}
+          >
+            {bhkLabel(configuration.bedrooms)} · from {formatCurrency(configuration.min_price)} ({configuration.available_units})
+          </Button>
+        ))}
+      </div>
+
+      <div className="max-h-[480px] overflow-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Unit</TableHead>
+              <TableHead>Configuration</TableHead>
+              <TableHead>Floor</TableHead>
+              <TableHead className="text-right">Area</TableHead>
+              <TableHead className="text-right">Price</TableHead>
+              <TableHead className="text-right">Per sqft</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {units.map(unit => (
+              <TableRow key={unit.id}>
+                <TableCell className="font-medium">
+                  {unit.tower ? `${unit.tower} / ` : ''}{unit.unit_number}
+                </TableCell>
+                <TableCell>
+                  {bhkLabel(unit.bedrooms)}
+                  {(unit.is_corner_unit || unit.has_terrace) && (
+                    <span className="text-xs text-muted-foreground">
+                      {' '}{[unit.is_corner_unit && 'corner', unit.has_terrace && 'terrace'].filter(Boolean).join(', ')}
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell>{unit.floor_number}</TableCell>
+                <TableCell className="text-right">{unit.area_sqft.toLocaleString('en-IN')} sqft</TableCell>
+                <TableCell className="text-right font-medium">{formatCurrency(unit.price)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(unit.price_per_sqft)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
@@ -5,9 +5,21 @@ export * from './pages/ProjectDetailsPage';
 export * from './pages/ProjectUnitsPage';
 export * from './pages/NewUnitPage';
 export * from './pages/BulkUnitsPage';
+export * from './pages/ProjectPricingPage';
+export * from './pages/ProjectUpdatesPage';
+export * from './pages/ProjectAssetsPage';
+export * from './pages/ProjectPaymentsPage';
+export * from './pages/UnitImportPage';
+export * from './pages/BuilderTeamPage';
+export * from './pages/AcceptTeamInvitationPage';
 
 export * from './components/ProjectImageUpload';
 export * from './components/EditUnitDialog';
+export * from './components/StackingPlanGrid';
+export * from './components/PriceListTable';
+export * from './components/ConstructionTimeline';
+export * from './components/ProjectAssetList';
+export * from './components/UnitAvailabilityTable';
 
 export * from './services/projectService';
 export * from './types';
\ No newline at end of file
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Icon } from '@iconify/react';
+import { Layout } from '@/shared/components/layout/Layout';
+import { Button } from '@/shared/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import type { TeamMembership } from '@/shared/lib/api';
+import projectService from '../services/projectService';
+import { toast } from 'sonner';
+
+const ROLE_LABELS: Record<TeamMembership['role'], string> = {
+  sales: 'Sales',
+  inventory_manager: 'Inventory Manager',
+  marketing: 'Marketing',
+};
+
+export function AcceptTeamInvitationPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [membership, setMembership] = useState<TeamMembership | null>(null);
+  const [accepting, setAccepting] = useState(false);
+
+  const handleAccept = async () => {
+    if (!token) return;
+
+    try {
+      setAccepting(true);
+      const response = await projectService.acceptTeamInvitation(token);
+      setMembership(response.data.membership);
+      toast.success(response.message);
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to accept invitation');
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-16 flex justify-center">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 size-16 rounded-full bg-primary/10 flex items-center justify-center">
+              <Icon icon="solar:users-group-rounded-bold" className="size-8 text-primary" />
+            </div>
+            <CardTitle>{membership ? `Welcome to ${membership.builder.name}'s team` : 'Team Invitation'}</CardTitle>
+            <CardDescription>
+              {membership
+                ? `You joined as ${ROLE_LABELS[membership.role]}.`
+                : 'Accept the invitation to work on the builder\'s projects with this account.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!token ? (
+              <p className="text-center text-muted-foreground">This invitation link is incomplete. Open the link from the email again.</p>
+            ) : membership ? (
+              <>
+                <div className="text-sm">
+                  <p className="font-medium mb-1">Projects</p>
+                  <p className="text-muted-foreground">
+                    {membership.all_projects
+                      ? 'All projects'
+                      : membership.projects.map(project => project.name).join(', ')}
+                  </p>
+                </div>
+                <Button className="w-full" onClick={() => navigate('/builder/projects')}>
+                  Go to Projects
+                </Button>
+              </>
+            ) : (
+              <Button className="w-full" onClick={handleAccept} disabled={accepting}>
+                {accepting && <Icon icon="solar:refresh-bold" className="size-4 mr-2 animate-spin" />}
+                Accept Invitation
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+}
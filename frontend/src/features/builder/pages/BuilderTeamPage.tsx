@@ -0,0 +1,323 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Icon } from '@iconify/react';
+import { Layout } from '@/shared/components/layout/Layout';
+import { Button } from '@/shared/components/ui/button';
+import { Badge } from '@/shared/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Checkbox } from '@/shared/components/ui/checkbox';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/shared/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/shared/components/ui/alert-dialog';
+import type { BuilderTeamRole, TeamMember } from '@/shared/lib/api';
+import { formatDate } from '@/shared/utils/formatters';
+import { useAuth } from '@/shared/contexts/AuthContext';
+import projectService from '../services/projectService';
+import { Project } from '../types';
+import { toast } from 'sonner';
+
+const TEAM_ROLES: Array<{ value: BuilderTeamRole; label: string; description: string }> = [
+  { value: 'sales', label: 'Sales', description: 'Inquiries, bookings, payment schedules and collections' },
+  { value: 'inventory_manager', label: 'Inventory Manager', description: 'Units, imports, price lists and payment plans' },
+  { value: 'marketing', label: 'Marketing', description: 'Project images and construction updates' },
+];
+
+const roleLabel = (role: BuilderTeamRole) => TEAM_ROLES.find(option => option.value === role)?.label || role;
+
+interface MemberForm {
+  email: string;
+  role: BuilderTeamRole;
+  allProjects: boolean;
+  projectIds: number[];
+}
+
+const EMPTY_FORM: MemberForm = { email: '', role: 'sales', allProjects: true, projectIds: [] };
+
+export function BuilderTeamPage() {
+  const navigate = useNavigate();
+  const { state: { user } } = useAuth();
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [form, setForm] = useState<MemberForm>(EMPTY_FORM);
+  // The member whose access is being changed, or null when inviting
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [removing, setRemoving] = useState<TeamMember | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchMembers = async () => {
+    try {
+      setMembers(await projectService.getTeamMembers());
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to load team members');
+    }
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      const [, projectResponse] = await Promise.all([
+        fetchMembers(),
+        projectService.getBuilderProjects({ limit: 100 }),
+      ]);
+      // Members can only be given the builder's own projects, not ones shared through another team
+      setProjects(projectResponse.data.projects.filter(project => project.builder_id === user?.id));
+      setLoading(false);
+    };
+
+    load();
+  }, []);
+
+  const projectName = (projectId: number) => projects.find(project => project.id === projectId)?.name || `Project #${projectId}`;
+
+  const toggleProject = (projectId: number) => {
+    setForm(current => ({
+      ...current,
+      projectIds: current.projectIds.includes(projectId)
+        ? current.projectIds.filter(id => id !== projectId)
+        : [...current.projectIds, projectId],
+    }));
+  };
+
+  const startEditing = (member: TeamMember) => {
+    setEditingId(member.id);
+    setForm({
+      email: member.email,
+      role: member.role,
+      allProjects: member.project_ids === null,
+      projectIds: member.project_ids || [],
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!form.allProjects && form.projectIds.length === 0) {
+      toast.error('Choose at least one project, or give access to all projects');
+      return;
+    }
+
+    const access = { role: form.role, projectIds: form.allProjects ? null : form.projectIds };
+    try {
+      setSaving(true);
+      const response = editingId
+        ? await projectService.updateTeamMember(editingId, access)
+        : await projectService.inviteTeamMember(form.email.trim(), access);
+      toast.success(response.message);
+      resetForm();
+      fetchMembers();
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to save team member');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmRemove = async () => {
+    if (!removing) return;
+
+    try {
+      await projectService.removeTeamMember(removing.id);
+      toast.success(removing.status === 'invited' ? 'Invitation withdrawn' : 'Team member removed');
+      if (editingId === removing.id) {
+        resetForm();
+      }
+      fetchMembers();
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to remove team member');
+    } finally {
+      setRemoving(null);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="sm" onClick={() => navigate(user?.role === 'agent' ? '/leads' : '/builder/projects')}>
+            <Icon icon="solar:arrow-left-bold" className="size-4 mr-2" />
+            Back
+          </Button>
+          <div>
+            <h1 className="text-3xl font-heading font-bold tracking-tight">Team</h1>
+            <p className="text-muted-foreground">Invite staff and choose which projects they work on</p>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? `Change access for ${form.email}` : 'Invite a team member'}</CardTitle>
+            <CardDescription>
+              Members sign in with their own account. Only you can edit project details and manage the team.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    required
+                    disabled={editingId !== null}
+                    value={form.email}
+                    onChange={e => setForm(current => ({ ...current, email: e.target.value }))}
+                    placeholder="name@example.com"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Role</Label>
+                  <Select value={form.role} onValueChange={value => setForm(current => ({ ...current, role: value as BuilderTeamRole }))}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {TEAM_ROLES.map(role => <SelectItem key={role.value} value={role.value}>{role.label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {TEAM_ROLES.find(role => role.value === form.role)?.description}
+                  </p>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="allProjects"
+                    checked={form.allProjects}
+                    onCheckedChange={checked => setForm(current => ({ ...current, allProjects: checked === true }))}
+                  />
+                  <Label htmlFor="allProjects" className="cursor-pointer">
+                    All projects, including ones you add later
+                  </Label>
+                </div>
+                {!form.allProjects && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-2 rounded-md border p-3">
+                    {projects.length === 0 && <p className="text-sm text-muted-foreground">You have no projects yet.</p>}
+                    {projects.map(project => (
+                      <div key={project.id} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`project-${project.id}`}
+                          checked={form.projectIds.includes(project.id)}
+                          onCheckedChange={() => toggleProject(project.id)}
+                        />
+                        <Label htmlFor={`project-${project.id}`} className="cursor-pointer">{project.name}</Label>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex justify-end gap-2">
+                {editingId && <Button type="button" variant="ghost" onClick={resetForm}>Cancel</Button>}
+                <Button type="submit" disabled={saving}>
+                  <Icon icon={editingId ? 'solar:diskette-bold' : 'solar:letter-bold'} className="size-4 mr-2" />
+                  {editingId ? 'Save Access' : 'Send Invitation'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Members</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <Icon icon="solar:refresh-bold" className="size-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : members.length === 0 ? (
+              <p className="py-8 text-center text-muted-foreground">No one has been invited yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Member</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Projects</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {members.map(member => (
+                    <TableRow key={member.id}>
+                      <TableCell>
+                        <div className="font-medium">{member.name || member.email}</div>
+                        {member.name && <div className="text-xs text-muted-foreground">{member.email}</div>}
+                      </TableCell>
+                      <TableCell>{roleLabel(member.role)}</TableCell>
+                      <TableCell className="max-w-xs">
+                        {member.project_ids === null
+                          ? 'All projects'
+                          : member.project_ids.map(projectName).join(', ')}
+                      </TableCell>
+                      <TableCell>
+                        {member.status === 'active' ? (
+                          <Badge className="bg-green-100 text-green-800">Active</Badge>
+                        ) : (
+                          <div>
+                            <Badge variant="secondary">Invited</Badge>
+                            {member.invite_expires_at && (
+                              <div className="text-xs text-muted-foreground mt-1">
+                                {new Date(member.invite_expires_at) < new Date() ? 'Expired' : `Expires ${formatDate(member.invite_expires_at)}`}
+                              </div>
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" size="sm" onClick={() => startEditing(member)}>
+                            Edit
+                          </Button>
+                          <Button variant="outline" size="sm" className="text-red-600" onClick={() => setRemoving(member)}>
+                            {member.status === 'invited' ? 'Withdraw' : 'Remove'}
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <AlertDialog open={removing !== null} onOpenChange={open => !open && setRemoving(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{removing?.status === 'invited' ? 'Withdraw invitation?' : 'Remove team member?'}</AlertDialogTitle>
+              <AlertDialogDescription>
+                {removing?.name || removing?.email} will lose access to your projects straight away.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={confirmRemove} className="bg-red-600 hover:bg-red-700">
+                {removing?.status === 'invited' ? 'Withdraw' : 'Remove'}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </Layout>
+  );
+}
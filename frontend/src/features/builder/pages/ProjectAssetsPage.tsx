@@ -0,0 +1,430 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Icon } from '@iconify/react';
+import { Layout } from '@/shared/components/layout/Layout';
+import { Button } from '@/shared/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Checkbox } from '@/shared/components/ui/checkbox';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/shared/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/shared/components/ui/alert-dialog';
+import type { ProjectAsset, ProjectAssetType, ProjectUnit } from '@/shared/lib/api';
+import { ProjectAssetList, ASSET_TYPE_STYLES } from '../components/ProjectAssetList';
+import projectService from '../services/projectService';
+import { toast } from 'sonner';
+
+interface AssetFormData {
+  assetType: ProjectAssetType;
+  title: string;
+  unitType: string;
+  tourUrl: string;
+  requiresLead: boolean;
+}
+
+// Matches the server's limit
+const MAX_FILE_SIZE_MB = 25;
+
+const ACCEPTED_FILES: Record<ProjectAssetType, string> = {
+  brochure: 'application/pdf',
+  floor_plan: 'image/jpeg,image/png,image/webp,application/pdf',
+  tour_3d: '',
+};
+
+const emptyForm = (): AssetFormData => ({
+  assetType: 'brochure',
+  title: '',
+  unitType: '',
+  tourUrl: '',
+  requiresLead: false,
+});
+
+export function ProjectAssetsPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [project, setProject] = useState<any | null>(null);
+  const [assets, setAssets] = useState<ProjectAsset[]>([]);
+  const [units, setUnits] = useState<ProjectUnit[]>([]);
+  const [form, setForm] = useState<AssetFormData>(emptyForm);
+  const [file, setFile] = useState<File | null>(null);
+  const [fileInputKey, setFileInputKey] = useState(0);
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState<ProjectAsset | null>(null);
+  const [linking, setLinking] = useState<ProjectAsset | null>(null);
+  const [selectedUnitIds, setSelectedUnitIds] = useState<number[]>([]);
+  const [savingLinks, setSavingLinks] = useState(false);
+
+  const unitTypes = Array.from(new Set(units.map(unit => unit.unit_type))).sort();
+  const linkableUnits = linking ? units.filter(unit => unit.unit_type === linking.unit_type) : [];
+
+  const loadAssets = async () => setAssets(await projectService.getProjectAssets(id!));
+
+  useEffect(() => {
+    const load = async () => {
+      const [projectData, projectAssets, projectUnits] = await Promise.all([
+        projectService.getProjectById(id!),
+        projectService.getProjectAssets(id!),
+        projectService.getProjectUnits(id!),
+      ]);
+
+      setProject(projectData);
+      setAssets(projectAssets);
+      setUnits(projectUnits);
+    };
+
+    load();
+  }, [id]);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0] || null;
+    if (selected && selected.size > MAX_FILE_SIZE_MB * 1024 * 1024) {
+      toast.error(`Files can be up to ${MAX_FILE_SIZE_MB}MB`);
+      setFile(null);
+      return;
+    }
+    setFile(selected);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (form.title.trim().length < 2) {
+      toast.error('Enter a title');
+      return;
+    }
+    if (form.assetType === 'tour_3d' ? !form.tourUrl.trim() : !file) {
+      toast.error(form.assetType === 'tour_3d' ? 'Enter the tour link' : 'Choose a file to upload');
+      return;
+    }
+    if (form.assetType === 'floor_plan' && !form.unitType) {
+      toast.error('Choose the unit type this floor plan is for');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await projectService.createProjectAsset(id!, {
+        assetType: form.assetType,
+        title: form.title.trim(),
+        unitType: form.assetType === 'floor_plan' ? form.unitType : undefined,
+        tourUrl: form.assetType === 'tour_3d' ? form.tourUrl.trim() : undefined,
+        requiresLead: form.assetType === 'tour_3d' ? undefined : form.requiresLead,
+        file: form.assetType === 'tour_3d' ? undefined : file || undefined,
+      });
+      toast.success(response.message);
+      setForm(emptyForm());
+      setFile(null);
+      setFileInputKey(key => key + 1);
+      await loadAssets();
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to add asset');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleLead = async (asset: ProjectAsset) => {
+    try {
+      const response = await projectService.updateProjectAsset(id!, asset.id, { requiresLead: !asset.requires_lead });
+      toast.success(asset.requires_lead ? 'Anyone can now download this file' : 'Visitors now leave their details to download this file');
+      setAssets(current => current.map(candidate => (candidate.id === asset.id ? response.data.asset : candidate)));
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to update asset');
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      await projectService.deleteProjectAsset(id!, deleting.id);
+      toast.success('Asset deleted');
+      setAssets(current => current.filter(candidate => candidate.id !== deleting.id));
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to delete asset');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const openLinking = (asset: ProjectAsset) => {
+    setLinking(asset);
+    setSelectedUnitIds(asset.unit_ids || []);
+  };
+
+  const toggleUnit = (unitId: number) => {
+    setSelectedUnitIds(current =>
+      current.includes(unitId) ? current.filter(candidate => candidate !== unitId) : [...current, unitId]
+    );
+  };
+
+  const saveLinks = async () => {
+    if (!linking) return;
+
+    const linked = linking.unit_ids || [];
+    const toLink = selectedUnitIds.filter(unitId => !linked.includes(unitId));
+    const toUnlink = linked.filter(unitId => !selectedUnitIds.includes(unitId));
+
+    try {
+      setSavingLinks(true);
+      if (toLink.length > 0) await projectService.linkFloorPlan(id!, linking.id, toLink);
+      if (toUnlink.length > 0) await projectService.unlinkFloorPlan(id!, linking.id, toUnlink);
+      toast.success(`Floor plan used by ${selectedUnitIds.length} unit(s)`);
+      setLinking(null);
+      await loadAssets();
+      setUnits(await projectService.getProjectUnits(id!));
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to update floor plan units');
+    } finally {
+      setSavingLinks(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" size="sm" onClick={() => navigate(`/builder/projects/${id}`)}>
+            <Icon icon="solar:arrow-left-bold" className="size-4 mr-2" />
+            Back to Project
+          </Button>
+        </div>
+
+        <div className="mb-8">
+          <h1 className="text-3xl font-heading font-bold tracking-tight mb-2">
+            {project?.name ? `${project.name} - Brochures & Floor Plans` : 'Brochures & Floor Plans'}
+          </h1>
+          <p className="text-muted-foreground">
+            Assets appear on the public project page. Files behind a lead form are only sent to visitors who leave their
+            details, and each download is added to your inquiries.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* New asset */}
+          <Card className="lg:col-span-1">
+            <CardHeader>
+              <CardTitle>Add an Asset</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-1">
+                  <Label>Type</Label>
+                  <Select
+                    value={form.assetType}
+                    onValueChange={value => setForm(current => ({ ...current, assetType: value as ProjectAssetType }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ASSET_TYPE_STYLES) as ProjectAssetType[]).map(type => (
+                        <SelectItem key={type} value={type}>{ASSET_TYPE_STYLES[type].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-1">
+                  <Label htmlFor="title">Title</Label>
+                  <Input
+                    id="title"
+                    placeholder={form.assetType === 'floor_plan' ? 'e.g. 2BHK East Facing' : 'e.g. Project Brochure'}
+                    value={form.title}
+                    onChange={(e) => setForm(current => ({ ...current, title: e.target.value }))}
+                  />
+                </div>
+
+                {form.assetType === 'floor_plan' && (
+                  <div className="space-y-1">
+                    <Label>Unit type</Label>
+                    <Select
+                      value={form.unitType}
+                      onValueChange={value => setForm(current => ({ ...current, unitType: value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder={unitTypes.length > 0 ? 'Choose a unit type' : 'Add units first'} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {unitTypes.map(unitType => (
+                          <SelectItem key={unitType} value={unitType}>{unitType}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {form.assetType === 'tour_3d' ? (
+                  <div className="space-y-1">
+                    <Label htmlFor="tourUrl">Tour link</Label>
+                    <Input
+                      id="tourUrl"
+                      type="url"
+                      placeholder="https://"
+                      value={form.tourUrl}
+                      onChange={(e) => setForm(current => ({ ...current, tourUrl: e.target.value }))}
+                    />
+                  </div>
+                ) : (
+                  <>
+                    <div className="space-y-1">
+                      <Label htmlFor="file">File</Label>
+                      <Input
+                        key={fileInputKey}
+                        id="file"
+                        type="file"
+                        accept={ACCEPTED_FILES[form.assetType]}
+                        onChange={handleFileChange}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        {form.assetType === 'brochure' ? 'PDF' : 'JPEG, PNG, WebP or PDF'}, up to {MAX_FILE_SIZE_MB}MB
+                      </p>
+                    </div>
+
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="requiresLead"
+                        checked={form.requiresLead}
+                        onCheckedChange={checked => setForm(current => ({ ...current, requiresLead: checked === true }))}
+                      />
+                      <Label htmlFor="requiresLead" className="cursor-pointer">
+                        Ask for contact details before download
+                      </Label>
+                    </div>
+                  </>
+                )}
+
+                <Button type="submit" className="w-full" disabled={saving}>
+                  <Icon icon="solar:upload-bold" className="size-4 mr-2" />
+                  {saving ? 'Uploading...' : 'Add Asset'}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          {/* Assets */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Assets</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ProjectAssetList
+                assets={assets}
+                renderActions={asset => (
+                  <>
+                    {asset.file_url && (
+                      <Button size="sm" variant="outline" asChild>
+                        <a href={asset.file_url} target="_blank" rel="noopener noreferrer">
+                          <Icon icon="solar:eye-bold" className="size-4 mr-1" />
+                          Open
+                        </a>
+                      </Button>
+                    )}
+                    {asset.asset_type === 'floor_plan' && (
+                      <Button size="sm" variant="outline" onClick={() => openLinking(asset)}>
+                        <Icon icon="solar:link-bold" className="size-4 mr-1" />
+                        {asset.unit_ids?.length || 0} unit(s)
+                      </Button>
+                    )}
+                    {asset.asset_type !== 'tour_3d' && (
+                      <Button size="sm" variant="ghost" onClick={() => handleToggleLead(asset)}>
+                        <Icon icon={asset.requires_lead ? 'solar:lock-keyhole-unlocked-bold' : 'solar:lock-keyhole-bold'} className="size-4 mr-1" />
+                        {asset.requires_lead ? 'Make public' : 'Require details'}
+                      </Button>
+                    )}
+                    <Button size="sm" variant="ghost" className="text-red-600" onClick={() => setDeleting(asset)}>
+                      <Icon icon="solar:trash-bin-minimalistic-bold" className="size-4" />
+                    </Button>
+                  </>
+                )}
+              />
+            </CardContent>
+          </Card>
+        </div>
+
+        <Dialog open={linking !== null} onOpenChange={open => !open && setLinking(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Units using {linking?.title}</DialogTitle>
+              <DialogDescription>
+                Floor plans can be used by any {linking?.unit_type} unit of this project.
+              </DialogDescription>
+            </DialogHeader>
+
+            {linkableUnits.length === 0 ? (
+              <p className="text-sm text-muted-foreground">This project has no {linking?.unit_type} units.</p>
+            ) : (
+              <div className="space-y-3">
+                <div className="flex gap-2">
+                  <Button size="sm" variant="ghost" onClick={() => setSelectedUnitIds(linkableUnits.map(unit => unit.id))}>
+                    Select all
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setSelectedUnitIds([])}>
+                    Clear
+                  </Button>
+                </div>
+                <div className="grid max-h-72 grid-cols-2 gap-2 overflow-y-auto rounded-md border p-3 md:grid-cols-3">
+                  {linkableUnits.map(unit => (
+                    <div key={unit.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`unit-${unit.id}`}
+                        checked={selectedUnitIds.includes(unit.id)}
+                        onCheckedChange={() => toggleUnit(unit.id)}
+                      />
+                      <Label htmlFor={`unit-${unit.id}`} className="cursor-pointer">
+                        {unit.tower ? `${unit.tower}-` : ''}{unit.unit_number}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button variant="ghost" onClick={() => setLinking(null)}>Cancel</Button>
+              <Button onClick={saveLinks} disabled={savingLinks || linkableUnits.length === 0}>
+                {savingLinks ? 'Saving...' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <AlertDialog open={deleting !== null} onOpenChange={open => !open && setDeleting(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete {deleting ? ASSET_TYPE_STYLES[deleting.asset_type].label.toLowerCase() : 'asset'}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                "{deleting?.title}" will be removed from the project page
+                {deleting?.asset_type === 'floor_plan' && ' and from the units using it'}.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={confirmDelete} className="bg-red-600 hover:bg-red-700">
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </Layout>
+  );
+}
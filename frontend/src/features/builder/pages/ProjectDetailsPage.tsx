@@ -527,6 +527,38 @@ export function ProjectDetailsPage() {
                   <Icon icon="solar:home-2-bold" className="size-4 mr-2" />
                   Manage Units
                 </Button>
+                <Button
+                  className="w-full justify-start"
+                  variant="outline"
+                  onClick={() => navigate(`/builder/projects/${project.id}/pricing`)}
+                >
+                  <Icon icon="solar:tag-price-bold" className="size-4 mr-2" />
+                  Pricing & Price Lists
+                </Button>
+                <Button
+                  className="w-full justify-start"
+                  variant="outline"
+                  onClick={() => navigate(`/builder/projects/${project.id}/updates`)}
+                >
+                  <Icon icon="solar:buildings-2-bold" className="size-4 mr-2" />
+                  Construction Updates
+                </Button>
+                <Button
+                  className="w-full justify-start"
+                  variant="outline"
+                  onClick={() => navigate(`/builder/projects/${project.id}/assets`)}
+                >
+                  <Icon icon="solar:document-text-bold" className="size-4 mr-2" />
+                  Brochures & Floor Plans
+                </Button>
+                <Button
+                  className="w-full justify-start"
+                  variant="outline"
+                  onClick={() => navigate(`/builder/projects/${project.id}/payments`)}
+                >
+                  <Icon icon="solar:wallet-money-bold" className="size-4 mr-2" />
+                  Payment Plans
+                </Button>
                 <Button
                   className="w-full justify-start"
                   variant="outline"
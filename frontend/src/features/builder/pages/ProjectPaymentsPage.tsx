@@ -0,0 +1,710 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { Icon } from '@iconify/react';
+import { Layout } from '@/shared/components/layout/Layout';
+import { Button } from '@/shared/components/ui/button';
+import { Badge } from '@/shared/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Switch } from '@/shared/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/shared/components/ui/table';
+import { formatCurrency, formatDate } from '@/shared/utils/formatters';
+import type {
+  InstallmentStatus,
+  PaymentPlan,
+  PaymentReceivable,
+  PaymentScheduleDetails,
+  PaymentScheduleSummary,
+  UnitInstallment,
+} from '@/shared/lib/api';
+import projectService from '../services/projectService';
+import { toast } from 'sonner';
+
+interface PlanFormData {
+  name: string;
+  description: string;
+  isActive: boolean;
+  stages: Array<{ name: string; percent: string; dueAfterDays: string }>;
+}
+
+interface PaymentFormData {
+  amount: string;
+  paidOn: string;
+  method: string;
+  reference: string;
+}
+
+interface BookedUnit {
+  id: number;
+  unit_number: string;
+  tower?: string | null;
+  price: number;
+}
+
+const STATUS_STYLES: Record<InstallmentStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-gray-100 text-gray-800' },
+  partially_paid: { label: 'Partially Paid', className: 'bg-yellow-100 text-yellow-800' },
+  paid: { label: 'Paid', className: 'bg-green-100 text-green-800' },
+  overdue: { label: 'Overdue', className: 'bg-red-100 text-red-800' },
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyPlan = (): PlanFormData => ({
+  name: '',
+  description: '',
+  isActive: true,
+  stages: [
+    { name: 'Booking amount', percent: '10', dueAfterDays: '0' },
+    { name: 'On agreement', percent: '', dueAfterDays: '30' },
+  ],
+});
+
+const emptyPayment = (): PaymentFormData => ({ amount: '', paidOn: today(), method: '', reference: '' });
+
+export function ProjectPaymentsPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [project, setProject] = useState<any | null>(null);
+  const [plans, setPlans] = useState<PaymentPlan[]>([]);
+  const [planForm, setPlanForm] = useState<PlanFormData>(emptyPlan);
+  const [editingPlanId, setEditingPlanId] = useState<number | null>(null);
+  const [bookedUnits, setBookedUnits] = useState<BookedUnit[]>([]);
+  const [receivables, setReceivables] = useState<PaymentReceivable[]>([]);
+  const [totals, setTotals] = useState<Omit<PaymentScheduleSummary, 'next_due_date'> | null>(null);
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [details, setDetails] = useState<PaymentScheduleDetails | null>(null);
+  const [applyPlanId, setApplyPlanId] = useState('');
+  const [applyBookingDate, setApplyBookingDate] = useState('');
+  const [paymentFor, setPaymentFor] = useState<number | null>(null);
+  const [paymentForm, setPaymentForm] = useState<PaymentFormData>(emptyPayment);
+  const [saving, setSaving] = useState(false);
+
+  const selectedUnitId = searchParams.get('unit') ? parseInt(searchParams.get('unit')!) : null;
+  const selectedUnit = bookedUnits.find(unit => unit.id === selectedUnitId);
+  const stagePercentTotal = planForm.stages.reduce((sum, stage) => sum + (parseFloat(stage.percent) || 0), 0);
+
+  const fetchReceivables = async () => {
+    try {
+      const data = await projectService.getPaymentReceivables(id!, overdueOnly);
+      setReceivables(data.schedules);
+      setTotals(data.totals);
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to load receivables');
+    }
+  };
+
+  const fetchSchedule = async (unitId: number) => {
+    try {
+      setDetails(await projectService.getPaymentSchedule(id!, unitId));
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to load payment schedule');
+    }
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      const [projectData, planData, units, reservations] = await Promise.all([
+        projectService.getProjectById(id!),
+        projectService.getPaymentPlans(id!),
+        projectService.getProjectUnits(id!),
+        projectService.getProjectReservations(id!),
+      ]);
+
+      setProject(projectData);
+      setPlans(planData);
+
+      const bookedIds = new Set(
+        reservations.filter(reservation => reservation.status === 'booked').map(reservation => reservation.unit_id)
+      );
+      setBookedUnits(
+        (units || [])
+          .filter((unit: any) => bookedIds.has(unit.id))
+          .map((unit: any) => ({ id: unit.id, unit_number: unit.unit_number, tower: unit.tower, price: Number(unit.price) }))
+      );
+    };
+
+    load();
+  }, [id]);
+
+  useEffect(() => {
+    fetchReceivables();
+  }, [id, overdueOnly]);
+
+  useEffect(() => {
+    setDetails(null);
+    setPaymentFor(null);
+    setApplyBookingDate('');
+    if (selectedUnitId) {
+      fetchSchedule(selectedUnitId);
+    }
+  }, [id, selectedUnitId]);
+
+  const refreshSelected = async () => {
+    if (selectedUnitId) {
+      await fetchSchedule(selectedUnitId);
+    }
+    await fetchReceivables();
+  };
+
+  const updateStage = (index: number, field: 'name' | 'percent' | 'dueAfterDays', value: string) => {
+    setPlanForm(current => ({
+      ...current,
+      stages: current.stages.map((stage, i) => (i === index ? { ...stage, [field]: value } : stage)),
+    }));
+  };
+
+  const handleEditPlan = (plan: PaymentPlan) => {
+    setEditingPlanId(plan.id);
+    setPlanForm({
+      name: plan.name,
+      description: plan.description || '',
+      isActive: plan.is_active,
+      stages: plan.stages.map(stage => ({
+        name: stage.name,
+        percent: String(stage.percent),
+        dueAfterDays: String(stage.due_after_days),
+      })),
+    });
+  };
+
+  const resetPlanForm = () => {
+    setEditingPlanId(null);
+    setPlanForm(emptyPlan());
+  };
+
+  const handleSavePlan = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (!planForm.name.trim()) {
+      toast.error('Enter a name for the plan');
+      return;
+    }
+    if (Math.abs(stagePercentTotal - 100) > 0.01) {
+      toast.error(`Stage percentages must add up to 100 (currently ${stagePercentTotal})`);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await projectService.savePaymentPlan(id!, {
+        name: planForm.name.trim(),
+        description: planForm.description.trim() || undefined,
+        isActive: planForm.isActive,
+        stages: planForm.stages.map(stage => ({
+          name: stage.name.trim(),
+          percent: parseFloat(stage.percent) || 0,
+          dueAfterDays: parseInt(stage.dueAfterDays) || 0,
+        })),
+      }, editingPlanId ?? undefined);
+      toast.success(response.message);
+      resetPlanForm();
+      setPlans(await projectService.getPaymentPlans(id!));
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to save payment plan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeletePlan = async (plan: PaymentPlan) => {
+    try {
+      await projectService.deletePaymentPlan(id!, plan.id);
+      toast.success('Payment plan deleted');
+      setPlans(current => current.filter(candidate => candidate.id !== plan.id));
+      if (editingPlanId === plan.id) {
+        resetPlanForm();
+      }
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to delete payment plan');
+    }
+  };
+
+  const handleApplyPlan = async () => {
+    if (!selectedUnitId || !applyPlanId) {
+      toast.error('Choose a payment plan');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await projectService.applyPaymentPlan(id!, selectedUnitId, parseInt(applyPlanId), applyBookingDate || undefined);
+      toast.success(response.message);
+      setDetails(response.data);
+      await fetchReceivables();
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to apply payment plan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveSchedule = async () => {
+    try {
+      await projectService.removePaymentSchedule(id!, selectedUnitId!);
+      toast.success('Payment schedule removed');
+      await refreshSelected();
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to remove payment schedule');
+    }
+  };
+
+  const handleReschedule = async (installment: UnitInstallment, dueDate: string) => {
+    if (!dueDate || dueDate === installment.due_date) return;
+
+    try {
+      await projectService.rescheduleInstallment(id!, selectedUnitId!, installment.id, dueDate);
+      toast.success('Installment rescheduled');
+      await refreshSelected();
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to reschedule installment');
+    }
+  };
+
+  const openPaymentForm = (installment: UnitInstallment) => {
+    setPaymentFor(installment.id);
+    setPaymentForm({ ...emptyPayment(), amount: String(installment.outstanding_amount) });
+  };
+
+  const handleRecordPayment = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const amount = parseFloat(paymentForm.amount);
+    if (!amount || amount <= 0) {
+      toast.error('Enter the amount received');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await projectService.recordInstallmentPayment(id!, selectedUnitId!, paymentFor!, {
+        amount,
+        paidOn: paymentForm.paidOn,
+        method: paymentForm.method.trim() || undefined,
+        reference: paymentForm.reference.trim() || undefined,
+      });
+      toast.success(response.message);
+      setDetails(response.data);
+      setPaymentFor(null);
+      await fetchReceivables();
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to record payment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDownloadDemandLetter = async (installment: UnitInstallment) => {
+    try {
+      const blob = await projectService.downloadDemandLetter(id!, selectedUnitId!, installment.id);
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `demand-letter-${selectedUnit?.unit_number || selectedUnitId}-${installment.sequence}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to download demand letter');
+    }
+  };
+
+  const receivableFor = (unitId: number) => receivables.find(receivable => receivable.unit_id === unitId);
+  const listedUnits = overdueOnly ? bookedUnits.filter(unit => receivableFor(unit.id)) : bookedUnits;
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" size="sm" onClick={() => navigate(`/builder/projects/${id}`)}>
+            <Icon icon="solar:arrow-left-bold" className="size-4 mr-2" />
+            Back to Project
+          </Button>
+        </div>
+
+        <div className="mb-8">
+          <h1 className="text-3xl font-heading font-bold tracking-tight mb-2">
+            {project?.name ? `${project.name} - Payment Plans` : 'Payment Plans'}
+          </h1>
+          <p className="text-muted-foreground">
+            Define construction-linked payment plans, apply them to booked units and track what buyers have paid.
+          </p>
+        </div>
+
+        {totals && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            {[
+              { label: 'Total Demand', value: totals.total_amount },
+              { label: 'Collected', value: totals.paid_amount },
+              { label: 'Outstanding', value: totals.outstanding_amount },
+              { label: 'Overdue', value: totals.overdue_amount },
+            ].map(stat => (
+              <Card key={stat.label}>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground">{stat.label}</p>
+                  <p className="text-2xl font-bold">{formatCurrency(stat.value)}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Plan templates */}
+          <Card className="lg:col-span-1">
+            <CardHeader>
+              <CardTitle>{editingPlanId ? 'Edit Plan' : 'New Plan'}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <form onSubmit={handleSavePlan} className="space-y-4">
+                <div className="space-y-1">
+                  <Label htmlFor="planName">Name</Label>
+                  <Input
+                    id="planName"
+                    placeholder="e.g. Construction Linked Plan"
+                    value={planForm.name}
+                    onChange={(e) => setPlanForm(current => ({ ...current, name: e.target.value }))}
+                  />
+                </div>
+
+                <div className="space-y-1">
+                  <Label htmlFor="planDescription">Description</Label>
+                  <Input
+                    id="planDescription"
+                    value={planForm.description}
+                    onChange={(e) => setPlanForm(current => ({ ...current, description: e.target.value }))}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Stages (% / days after booking)</Label>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setPlanForm(current => ({
+                        ...current,
+                        stages: [...current.stages, { name: '', percent: '', dueAfterDays: '' }],
+                      }))}
+                    >
+                      <Icon icon="solar:add-circle-bold" className="size-4 mr-1" />
+                      Add
+                    </Button>
+                  </div>
+                  {planForm.stages.map((stage, index) => (
+                    <div key={index} className="flex gap-2">
+                      <Input
+                        placeholder="e.g. On plinth"
+                        value={stage.name}
+                        onChange={(e) => updateStage(index, 'name', e.target.value)}
+                      />
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.5"
+                        className="w-20"
+                        placeholder="%"
+                        value={stage.percent}
+                        onChange={(e) => updateStage(index, 'percent', e.target.value)}
+                      />
+                      <Input
+                        type="number"
+                        min="0"
+                        className="w-20"
+                        placeholder="Days"
+                        value={stage.dueAfterDays}
+                        onChange={(e) => updateStage(index, 'dueAfterDays', e.target.value)}
+                      />
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        disabled={planForm.stages.length === 1}
+                        onClick={() => setPlanForm(current => ({
+                          ...current,
+                          stages: current.stages.filter((_, i) => i !== index),
+                        }))}
+                      >
+                        <Icon icon="solar:close-circle-bold" className="size-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <p className={`text-xs ${Math.abs(stagePercentTotal - 100) > 0.01 ? 'text-red-600' : 'text-muted-foreground'}`}>
+                    Stages add up to {stagePercentTotal}%
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="planActive"
+                    checked={planForm.isActive}
+                    onCheckedChange={(checked) => setPlanForm(current => ({ ...current, isActive: checked }))}
+                  />
+                  <Label htmlFor="planActive">Available for new bookings</Label>
+                </div>
+
+                <div className="flex gap-2">
+                  <Button type="submit" className="flex-1" disabled={saving}>
+                    {saving ? 'Saving...' : editingPlanId ? 'Update Plan' : 'Create Plan'}
+                  </Button>
+                  {editingPlanId && (
+                    <Button type="button" variant="outline" onClick={resetPlanForm}>
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              </form>
+
+              <div className="space-y-3">
+                {plans.length === 0 && <p className="text-sm text-muted-foreground">No payment plans yet.</p>}
+                {plans.map(plan => (
+                  <div key={plan.id} className="rounded-md border p-3">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{plan.name}</span>
+                      {!plan.is_active && <Badge variant="secondary">Inactive</Badge>}
+                      <Button size="sm" variant="ghost" className="ml-auto" onClick={() => handleEditPlan(plan)}>
+                        <Icon icon="solar:pen-bold" className="size-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" className="text-red-600" onClick={() => handleDeletePlan(plan)}>
+                        <Icon icon="solar:trash-bin-minimalistic-bold" className="size-4" />
+                      </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {plan.stages.map(stage => `${stage.name} ${stage.percent}%`).join(' · ')}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="lg:col-span-2 space-y-6">
+            {/* Booked units */}
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>Booked Units</CardTitle>
+                <div className="flex items-center gap-2">
+                  <Switch id="overdueOnly" checked={overdueOnly} onCheckedChange={setOverdueOnly} />
+                  <Label htmlFor="overdueOnly">Overdue only</Label>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {listedUnits.length === 0 ? (
+                  <p className="py-6 text-center text-muted-foreground">
+                    {overdueOnly ? 'No overdue payments.' : 'No booked units yet.'}
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Unit</TableHead>
+                        <TableHead>Plan</TableHead>
+                        <TableHead className="text-right">Paid</TableHead>
+                        <TableHead className="text-right">Outstanding</TableHead>
+                        <TableHead className="text-right">Overdue</TableHead>
+                        <TableHead>Next Due</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {listedUnits.map(unit => {
+                        const receivable = receivableFor(unit.id);
+                        return (
+                          <TableRow
+                            key={unit.id}
+                            className={`cursor-pointer ${unit.id === selectedUnitId ? 'bg-muted' : ''}`}
+                            onClick={() => setSearchParams({ unit: String(unit.id) })}
+                          >
+                            <TableCell className="font-medium">
+                              {unit.tower ? `${unit.tower}-` : ''}{unit.unit_number}
+                            </TableCell>
+                            <TableCell>{receivable?.plan_name || <span className="text-muted-foreground">No schedule</span>}</TableCell>
+                            <TableCell className="text-right">{receivable ? formatCurrency(receivable.summary.paid_amount) : '-'}</TableCell>
+                            <TableCell className="text-right">{receivable ? formatCurrency(receivable.summary.outstanding_amount) : '-'}</TableCell>
+                            <TableCell className="text-right">
+                              {receivable && receivable.summary.overdue_amount > 0 ? (
+                                <span className="text-red-600">{formatCurrency(receivable.summary.overdue_amount)}</span>
+                              ) : '-'}
+                            </TableCell>
+                            <TableCell>{receivable?.summary.next_due_date ? formatDate(receivable.summary.next_due_date) : '-'}</TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Selected unit schedule */}
+            {selectedUnit && (
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between">
+                  <CardTitle>
+                    Unit {selectedUnit.tower ? `${selectedUnit.tower}-` : ''}{selectedUnit.unit_number}
+                    {details && ` · ${details.schedule.plan_name}`}
+                  </CardTitle>
+                  {details && details.summary.paid_amount === 0 && (
+                    <Button size="sm" variant="outline" className="text-red-600" onClick={handleRemoveSchedule}>
+                      <Icon icon="solar:trash-bin-minimalistic-bold" className="size-4 mr-2" />
+                      Remove Schedule
+                    </Button>
+                  )}
+                </CardHeader>
+                <CardContent>
+                  {!details ? (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+                      <div className="space-y-1">
+                        <Label>Payment plan</Label>
+                        <Select value={applyPlanId} onValueChange={setApplyPlanId}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Choose a plan" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {plans.filter(plan => plan.is_active).map(plan => (
+                              <SelectItem key={plan.id} value={String(plan.id)}>{plan.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="bookingDate">Booking date</Label>
+                        <Input
+                          id="bookingDate"
+                          type="date"
+                          value={applyBookingDate}
+                          onChange={(e) => setApplyBookingDate(e.target.value)}
+                        />
+                      </div>
+                      <Button onClick={handleApplyPlan} disabled={saving}>
+                        Apply to {formatCurrency(selectedUnit.price)}
+                      </Button>
+                      <p className="md:col-span-3 text-xs text-muted-foreground">
+                        Due dates count from the booking date, which defaults to when the booking was confirmed.
+                      </p>
+                    </div>
+                  ) : (
+                    <div className="space-y-4">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>#</TableHead>
+                            <TableHead>Stage</TableHead>
+                            <TableHead className="text-right">Amount</TableHead>
+                            <TableHead className="text-right">Paid</TableHead>
+                            <TableHead>Due</TableHead>
+                            <TableHead>Status</TableHead>
+                            <TableHead className="text-right">Actions</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {details.installments.map(installment => (
+                            <TableRow key={installment.id}>
+                              <TableCell>{installment.sequence}</TableCell>
+                              <TableCell>
+                                {installment.name}
+                                <span className="text-xs text-muted-foreground"> ({Number(installment.percent)}%)</span>
+                              </TableCell>
+                              <TableCell className="text-right">{formatCurrency(Number(installment.amount))}</TableCell>
+                              <TableCell className="text-right">{formatCurrency(Number(installment.paid_amount))}</TableCell>
+                              <TableCell>
+                                {installment.status === 'paid' ? formatDate(installment.due_date) : (
+                                  <Input
+                                    type="date"
+                                    className="w-40"
+                                    defaultValue={installment.due_date}
+                                    onBlur={(e) => handleReschedule(installment, e.target.value)}
+                                  />
+                                )}
+                              </TableCell>
+                              <TableCell>
+                                <Badge className={STATUS_STYLES[installment.status].className}>
+                                  {STATUS_STYLES[installment.status].label}
+                                </Badge>
+                              </TableCell>
+                              <TableCell className="text-right whitespace-nowrap">
+                                {installment.status !== 'paid' && (
+                                  <>
+                                    <Button size="sm" variant="ghost" title="Record payment" onClick={() => openPaymentForm(installment)}>
+                                      <Icon icon="solar:wallet-money-bold" className="size-4" />
+                                    </Button>
+                                    <Button size="sm" variant="ghost" title="Demand letter" onClick={() => handleDownloadDemandLetter(installment)}>
+                                      <Icon icon="solar:document-text-bold" className="size-4" />
+                                    </Button>
+                                  </>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+
+                      {paymentFor && (
+                        <form onSubmit={handleRecordPayment} className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end rounded-md border p-4">
+                          <div className="space-y-1">
+                            <Label htmlFor="paymentAmount">Amount</Label>
+                            <Input
+                              id="paymentAmount"
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={paymentForm.amount}
+                              onChange={(e) => setPaymentForm(current => ({ ...current, amount: e.target.value }))}
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label htmlFor="paidOn">Received on</Label>
+                            <Input
+                              id="paidOn"
+                              type="date"
+                              max={today()}
+                              value={paymentForm.paidOn}
+                              onChange={(e) => setPaymentForm(current => ({ ...current, paidOn: e.target.value }))}
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label htmlFor="method">Method</Label>
+                            <Input
+                              id="method"
+                              placeholder="e.g. NEFT"
+                              value={paymentForm.method}
+                              onChange={(e) => setPaymentForm(current => ({ ...current, method: e.target.value }))}
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label htmlFor="reference">Reference</Label>
+                            <Input
+                              id="reference"
+                              value={paymentForm.reference}
+                              onChange={(e) => setPaymentForm(current => ({ ...current, reference: e.target.value }))}
+                            />
+                          </div>
+                          <div className="flex gap-2">
+                            <Button type="submit" disabled={saving}>Record</Button>
+                            <Button type="button" variant="ghost" onClick={() => setPaymentFor(null)}>Cancel</Button>
+                          </div>
+                        </form>
+                      )}
+
+                      <p className="text-sm text-muted-foreground">
+                        Paid {formatCurrency(details.summary.paid_amount)} of {formatCurrency(details.summary.total_amount)}
+                        {details.summary.overdue_installments > 0 &&
+                          ` · ${details.summary.overdue_installments} installment(s) overdue (${formatCurrency(details.summary.overdue_amount)})`}
+                      </p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
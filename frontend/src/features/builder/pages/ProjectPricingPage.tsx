@@ -0,0 +1,348 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Icon } from '@iconify/react';
+import { Layout } from '@/shared/components/layout/Layout';
+import { Button } from '@/shared/components/ui/button';
+import { Badge } from '@/shared/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Textarea } from '@/shared/components/ui/textarea';
+import { formatCurrency, formatDateTime } from '@/shared/utils/formatters';
+import type { PriceListItem, PriceListRulesInput, PriceListSummary, ProjectPriceList } from '@/shared/lib/api';
+import { PriceListTable } from '../components/PriceListTable';
+import projectService from '../services/projectService';
+import { toast } from 'sonner';
+
+interface PricingFormData {
+  baseRatePerSqft: string;
+  floorRisePerSqft: string;
+  floorRiseFromFloor: string;
+  cornerPlcPerSqft: string;
+  terracePlcPerSqft: string;
+  parkingChargePerSpace: string;
+  unitTypeRates: Record<string, string>;
+  effectiveFrom: string;
+  notes: string;
+}
+
+const EMPTY_FORM: PricingFormData = {
+  baseRatePerSqft: '',
+  floorRisePerSqft: '0',
+  floorRiseFromFloor: '1',
+  cornerPlcPerSqft: '0',
+  terracePlcPerSqft: '0',
+  parkingChargePerSpace: '0',
+  unitTypeRates: {},
+  effectiveFrom: '',
+  notes: '',
+};
+
+const RULE_FIELDS: Array<{ key: keyof Omit<PricingFormData, 'unitTypeRates' | 'effectiveFrom' | 'notes'>; label: string; hint: string }> = [
+  { key: 'baseRatePerSqft', label: 'Base rate (₹/sqft)', hint: 'Applies to every unit type without its own rate' },
+  { key: 'floorRisePerSqft', label: 'Floor rise (₹/sqft per floor)', hint: 'Added for each floor from the starting floor up' },
+  { key: 'floorRiseFromFloor', label: 'Floor rise starts at floor', hint: 'Floors below this carry no floor rise' },
+  { key: 'cornerPlcPerSqft', label: 'Corner PLC (₹/sqft)', hint: 'Preferential location charge for corner units' },
+  { key: 'terracePlcPerSqft', label: 'Terrace PLC (₹/sqft)', hint: 'Preferential location charge for units with a terrace' },
+  { key: 'parkingChargePerSpace', label: 'Parking (₹ per space)', hint: 'Multiplied by the unit\'s parking spaces' },
+];
+
+const getListState = (priceList: ProjectPriceList, current?: ProjectPriceList) => {
+  if (!priceList.applied_at) return { label: 'Scheduled', className: 'bg-blue-100 text-blue-800' };
+  if (current && priceList.id === current.id) return { label: 'In effect', className: 'bg-green-100 text-green-800' };
+  return { label: 'Superseded', className: 'bg-gray-100 text-gray-800' };
+};
+
+export function ProjectPricingPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [project, setProject] = useState<any | null>(null);
+  const [unitTypes, setUnitTypes] = useState<string[]>([]);
+  const [priceLists, setPriceLists] = useState<ProjectPriceList[]>([]);
+  const [form, setForm] = useState<PricingFormData>(EMPTY_FORM);
+  const [preview, setPreview] = useState<{ title: string; items: PriceListItem[]; summary: PriceListSummary } | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Applied versions are returned newest first, so the first applied one is in effect
+  const currentList = priceLists.find(priceList => priceList.applied_at);
+
+  useEffect(() => {
+    const load = async () => {
+      const [projectData, units, lists] = await Promise.all([
+        projectService.getProjectById(id!),
+        projectService.getProjectUnits(id!),
+        projectService.getPriceLists(id!),
+      ]);
+
+      setProject(projectData);
+      setUnitTypes(Array.from(new Set(units.map((unit: any) => unit.unit_type as string))).sort());
+      setPriceLists(lists);
+
+      // Start from the rules in effect so builders only change what moves
+      const latest = lists[0];
+      if (latest) {
+        setForm({
+          ...EMPTY_FORM,
+          baseRatePerSqft: String(Number(latest.base_rate_per_sqft)),
+          floorRisePerSqft: String(Number(latest.floor_rise_per_sqft)),
+          floorRiseFromFloor: String(latest.floor_rise_from_floor),
+          cornerPlcPerSqft: String(Number(latest.corner_plc_per_sqft)),
+          terracePlcPerSqft: String(Number(latest.terrace_plc_per_sqft)),
+          parkingChargePerSpace: String(Number(latest.parking_charge_per_space)),
+          unitTypeRates: Object.fromEntries(
+            Object.entries(latest.unit_type_rates || {}).map(([unitType, rate]) => [unitType, String(rate)])
+          ),
+        });
+      }
+    };
+
+    load();
+  }, [id]);
+
+  const refreshPriceLists = async () => {
+    setPriceLists(await projectService.getPriceLists(id!));
+  };
+
+  const toRules = (): PriceListRulesInput | null => {
+    const baseRate = parseFloat(form.baseRatePerSqft);
+    if (!baseRate || baseRate <= 0) {
+      toast.error('Enter a base rate per sqft');
+      return null;
+    }
+
+    const unitTypeRates = Object.fromEntries(
+      Object.entries(form.unitTypeRates)
+        .filter(([, rate]) => parseFloat(rate) > 0)
+        .map(([unitType, rate]) => [unitType, parseFloat(rate)])
+    );
+
+    return {
+      baseRatePerSqft: baseRate,
+      floorRisePerSqft: parseFloat(form.floorRisePerSqft) || 0,
+      floorRiseFromFloor: parseInt(form.floorRiseFromFloor) || 0,
+      cornerPlcPerSqft: parseFloat(form.cornerPlcPerSqft) || 0,
+      terracePlcPerSqft: parseFloat(form.terracePlcPerSqft) || 0,
+      parkingChargePerSpace: parseFloat(form.parkingChargePerSpace) || 0,
+      unitTypeRates: Object.keys(unitTypeRates).length > 0 ? unitTypeRates : null,
+      ...(form.effectiveFrom && { effectiveFrom: new Date(form.effectiveFrom).toISOString() }),
+      ...(form.notes.trim() && { notes: form.notes.trim() }),
+    };
+  };
+
+  const handlePreview = async () => {
+    const rules = toRules();
+    if (!rules) return;
+
+    try {
+      setPreviewing(true);
+      const data = await projectService.previewPriceList(id!, rules);
+      setPreview({ title: 'Preview', ...data });
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to preview prices');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handlePublish = async () => {
+    const rules = toRules();
+    if (!rules) return;
+
+    try {
+      setSaving(true);
+      const response = await projectService.createPriceList(id!, rules);
+      toast.success(response.message);
+      setForm(current => ({ ...current, effectiveFrom: '', notes: '' }));
+      setPreview(null);
+      await refreshPriceLists();
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to save price list');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleView = async (priceList: ProjectPriceList) => {
+    try {
+      const details = await projectService.getPriceList(id!, priceList.id);
+      setPreview({
+        title: `Version ${priceList.version}${priceList.applied_at ? '' : ' (preview against current units)'}`,
+        items: details.items,
+        summary: details.summary,
+      });
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to load price list');
+    }
+  };
+
+  const handleDelete = async (priceList: ProjectPriceList) => {
+    try {
+      await projectService.deletePriceList(id!, priceList.id);
+      toast.success(`Version ${priceList.version} withdrawn`);
+      await refreshPriceLists();
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to delete price list');
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" size="sm" onClick={() => navigate(`/builder/projects/${id}`)}>
+            <Icon icon="solar:arrow-left-bold" className="size-4 mr-2" />
+            Back to Project
+          </Button>
+        </div>
+
+        <div className="mb-8">
+          <h1 className="text-3xl font-heading font-bold tracking-tight mb-2">
+            {project?.name ? `${project.name} - Pricing` : 'Pricing'}
+          </h1>
+          <p className="text-muted-foreground">
+            Set pricing rules to recompute unit prices. Held, booked and sold units keep their price.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Rules */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>New Price List</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {RULE_FIELDS.map(field => (
+                  <div key={field.key} className="space-y-1">
+                    <Label htmlFor={field.key}>{field.label}</Label>
+                    <Input
+                      id={field.key}
+                      type="number"
+                      min="0"
+                      value={form[field.key]}
+                      onChange={(e) => setForm(current => ({ ...current, [field.key]: e.target.value }))}
+                    />
+                    <p className="text-xs text-muted-foreground">{field.hint}</p>
+                  </div>
+                ))}
+              </div>
+
+              {unitTypes.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Base rate by unit type (₹/sqft, optional)</Label>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    {unitTypes.map(unitType => (
+                      <div key={unitType} className="space-y-1">
+                        <span className="text-xs text-muted-foreground">{unitType}</span>
+                        <Input
+                          type="number"
+                          min="0"
+                          placeholder={form.baseRatePerSqft || 'Base rate'}
+                          value={form.unitTypeRates[unitType] || ''}
+                          onChange={(e) => setForm(current => ({
+                            ...current,
+                            unitTypeRates: { ...current.unitTypeRates, [unitType]: e.target.value },
+                          }))}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="effectiveFrom">Effective from</Label>
+                  <Input
+                    id="effectiveFrom"
+                    type="datetime-local"
+                    value={form.effectiveFrom}
+                    onChange={(e) => setForm(current => ({ ...current, effectiveFrom: e.target.value }))}
+                  />
+                  <p className="text-xs text-muted-foreground">Leave empty to apply now</p>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="notes">Notes</Label>
+                  <Textarea
+                    id="notes"
+                    rows={2}
+                    value={form.notes}
+                    onChange={(e) => setForm(current => ({ ...current, notes: e.target.value }))}
+                  />
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={handlePreview} disabled={previewing || saving}>
+                  <Icon icon="solar:eye-bold" className="size-4 mr-2" />
+                  {previewing ? 'Calculating...' : 'Preview Prices'}
+                </Button>
+                <Button onClick={handlePublish} disabled={saving}>
+                  <Icon icon="solar:tag-price-bold" className="size-4 mr-2" />
+                  {saving ? 'Saving...' : form.effectiveFrom ? 'Schedule Price List' : 'Apply Now'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Versions */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Versions</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {priceLists.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No price lists yet.</p>
+              ) : (
+                <div className="space-y-3">
+                  {priceLists.map(priceList => {
+                    const state = getListState(priceList, currentList);
+                    return (
+                      <div key={priceList.id} className="rounded-lg border p-3">
+                        <div className="flex items-center justify-between">
+                          <span className="font-semibold">v{priceList.version}</span>
+                          <Badge className={state.className}>{state.label}</Badge>
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          From {formatDateTime(priceList.effective_from)}
+                        </p>
+                        <p className="text-sm">
+                          {formatCurrency(Number(priceList.base_rate_per_sqft))}/sqft base
+                          {priceList.applied_at && ` · ${priceList.units_repriced ?? 0} units repriced`}
+                        </p>
+                        {priceList.notes && <p className="mt-1 text-xs text-muted-foreground">{priceList.notes}</p>}
+                        <div className="mt-2 flex gap-2">
+                          <Button size="sm" variant="outline" onClick={() => handleView(priceList)}>
+                            View
+                          </Button>
+                          {!priceList.applied_at && (
+                            <Button size="sm" variant="ghost" className="text-red-600" onClick={() => handleDelete(priceList)}>
+                              Withdraw
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {preview && (
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>{preview.title}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <PriceListTable items={preview.items} summary={preview.summary} />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -25,7 +25,9 @@ import {
   AlertDialogTitle,
 } from '@/shared/components/ui/alert-dialog';
 import { EditUnitDialog } from '../components/EditUnitDialog';
+import { StackingPlanGrid } from '../components/StackingPlanGrid';
 import  projectService  from '../services/projectService';
+import type { UnitReservation } from '@/shared/lib/api';
 import { toast } from 'sonner';
 
 export function ProjectUnitsPage() {
@@ -40,10 +42,13 @@ export function ProjectUnitsPage() {
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [selectedUnitId, setSelectedUnitId] = useState<number | null>(null);
+  const [reservations, setReservations] = useState<Record<number, UnitReservation>>({});
+  const [unitsView, setUnitsView] = useState<'table' | 'grid'>('table');
 
   useEffect(() => {
     fetchProjectDetails();
     fetchUnits();
+    fetchReservations();
   }, [id]);
 
   const fetchProjectDetails = async () => {
@@ -61,6 +66,17 @@ export function ProjectUnitsPage() {
     }
   };
 
+  const fetchReservations = async () => {
+    const data = await projectService.getProjectReservations(id!);
+
+    // Only current holds and bookings, keyed by unit
+    const active: Record<number, UnitReservation> = {};
+    data
+      .filter(reservation => reservation.status === 'held' || reservation.status === 'booked')
+      .forEach(reservation => { active[reservation.unit_id] = reservation; });
+    setReservations(active);
+  };
+
   const fetchUnits = async () => {
     try {
       setLoading(true);
@@ -140,6 +156,24 @@ export function ProjectUnitsPage() {
     }
   };
 
+  const handleReservationAction = async (unitId: number, action: 'book' | 'release') => {
+    try {
+      if (action === 'book') {
+        await projectService.confirmUnitBooking(id!, unitId);
+        toast.success('Booking confirmed');
+      } else {
+        await projectService.releaseUnitReservation(id!, unitId);
+        toast.success('Unit released');
+      }
+      fetchUnits();
+      fetchReservations();
+      fetchProjectDetails();
+    } catch (error: any) {
+      console.error('ProjectUnitsPage: Failed to update reservation:', error);
+      toast.error(error?.message || 'Failed to update reservation');
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'available':
@@ -292,6 +326,13 @@ export function ProjectUnitsPage() {
               </div>
 
               <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => navigate(`/builder/projects/${id}/units/import`)}
+                >
+                  <Icon icon="solar:import-bold" className="size-4 mr-2" />
+                  Export / Import
+                </Button>
                 <Button
                   variant="outline"
                   onClick={() => navigate(`/builder/projects/${id}/units/bulk`)}
@@ -310,11 +351,39 @@ export function ProjectUnitsPage() {
 
         {/* Units Table */}
         <Card>
-          <CardHeader>
-            <CardTitle>Units ({filteredUnits.length})</CardTitle>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>
+              {unitsView === 'table' ? `Units (${filteredUnits.length})` : 'Stacking Plan'}
+            </CardTitle>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant={unitsView === 'table' ? 'default' : 'outline'}
+                onClick={() => setUnitsView('table')}
+              >
+                <Icon icon="solar:list-bold" className="size-4 mr-2" />
+                Table
+              </Button>
+              <Button
+                size="sm"
+                variant={unitsView === 'grid' ? 'default' : 'outline'}
+                onClick={() => setUnitsView('grid')}
+              >
+                <Icon icon="solar:buildings-2-bold" className="size-4 mr-2" />
+                Grid
+              </Button>
+            </div>
           </CardHeader>
           <CardContent>
-            {loading ? (
+            {unitsView === 'grid' ? (
+              <StackingPlanGrid
+                projectId={id!}
+                onUnitsChanged={() => {
+                  fetchUnits();
+                  fetchProjectDetails();
+                }}
+              />
+            ) : loading ? (
               <div className="flex items-center justify-center py-12">
                 <Icon icon="solar:refresh-bold" className="size-8 animate-spin text-primary" />
               </div>
@@ -396,6 +465,11 @@ export function ProjectUnitsPage() {
                           <Badge className={getStatusColor(unit.status)}>
                             {unit.status}
                           </Badge>
+                          {reservations[unit.id]?.status === 'held' && reservations[unit.id].expires_at && (
+                            <p className="mt-1 text-xs text-muted-foreground">
+                              Held until {new Date(reservations[unit.id].expires_at!).toLocaleString()}
+                            </p>
+                          )}
                         </TableCell>
                         <TableCell className="text-right">
                           <DropdownMenu>
@@ -409,6 +483,30 @@ export function ProjectUnitsPage() {
                                 <Icon icon="solar:pen-bold" className="size-4 mr-2" />
                                 Edit
                               </DropdownMenuItem>
+                              {reservations[unit.id]?.status === 'held' && (
+                                <>
+                                  <DropdownMenuItem onClick={() => handleReservationAction(unit.id, 'book')}>
+                                    <Icon icon="solar:check-circle-bold" className="size-4 mr-2" />
+                                    Confirm Booking
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem onClick={() => handleReservationAction(unit.id, 'release')}>
+                                    <Icon icon="solar:lock-keyhole-unlocked-bold" className="size-4 mr-2" />
+                                    Release Hold
+                                  </DropdownMenuItem>
+                                </>
+                              )}
+                              {reservations[unit.id]?.status === 'booked' && (
+                                <>
+                                  <DropdownMenuItem onClick={() => navigate(`/builder/projects/${id}/payments?unit=${unit.id}`)}>
+                                    <Icon icon="solar:wallet-money-bold" className="size-4 mr-2" />
+                                    Payment Schedule
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem onClick={() => handleReservationAction(unit.id, 'release')}>
+                                    <Icon icon="solar:close-circle-bold" className="size-4 mr-2" />
+                                    Cancel Booking
+                                  </DropdownMenuItem>
+                                </>
+                              )}
                               <DropdownMenuItem
                                 onClick={() => handleDeleteUnit(unit.id)}
                                 className="text-red-600"
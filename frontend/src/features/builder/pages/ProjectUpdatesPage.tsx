@@ -0,0 +1,351 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Icon } from '@iconify/react';
+import { Layout } from '@/shared/components/layout/Layout';
+import { Button } from '@/shared/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Textarea } from '@/shared/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { formatDate } from '@/shared/utils/formatters';
+import type { ProjectUpdate, ProjectUpdateType } from '@/shared/lib/api';
+import { ConstructionTimeline, UPDATE_TYPE_STYLES } from '../components/ConstructionTimeline';
+import projectService from '../services/projectService';
+import { toast } from 'sonner';
+
+interface UpdateFormData {
+  updateType: ProjectUpdateType;
+  title: string;
+  description: string;
+  updateDate: string;
+  progressPercent: string;
+  reportYear: string;
+  reportQuarter: string;
+  stages: Array<{ name: string; percent: string }>;
+}
+
+const MAX_PHOTOS = 10;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// The quarter that last ended, which is the one a quarterly report usually covers
+const previousQuarter = () => {
+  const now = new Date();
+  const quarter = Math.floor(now.getMonth() / 3);
+  return quarter === 0
+    ? { year: now.getFullYear() - 1, quarter: 4 }
+    : { year: now.getFullYear(), quarter };
+};
+
+const emptyForm = (): UpdateFormData => ({
+  updateType: 'progress',
+  title: '',
+  description: '',
+  updateDate: today(),
+  progressPercent: '',
+  reportYear: String(previousQuarter().year),
+  reportQuarter: String(previousQuarter().quarter),
+  stages: [],
+});
+
+export function ProjectUpdatesPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [project, setProject] = useState<any | null>(null);
+  const [updates, setUpdates] = useState<ProjectUpdate[]>([]);
+  const [form, setForm] = useState<UpdateFormData>(emptyForm);
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const latestProgress = updates.find(update => update.progress_percent != null);
+
+  useEffect(() => {
+    const load = async () => {
+      const [projectData, projectUpdates] = await Promise.all([
+        projectService.getProjectById(id!),
+        projectService.getProjectUpdates(id!),
+      ]);
+
+      setProject(projectData);
+      setUpdates(projectUpdates);
+
+      // Carry the stage breakdown forward so builders only change what moved
+      const withStages = projectUpdates.find(update => update.stages?.length);
+      if (withStages?.stages) {
+        setForm(current => ({
+          ...current,
+          stages: withStages.stages!.map(stage => ({ name: stage.name, percent: String(stage.percent) })),
+        }));
+      }
+    };
+
+    load();
+  }, [id]);
+
+  const updateStage = (index: number, field: 'name' | 'percent', value: string) => {
+    setForm(current => ({
+      ...current,
+      stages: current.stages.map((stage, i) => (i === index ? { ...stage, [field]: value } : stage)),
+    }));
+  };
+
+  const handlePhotosChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || []);
+    if (selected.length > MAX_PHOTOS) {
+      toast.error(`You can attach up to ${MAX_PHOTOS} photos`);
+    }
+    setPhotos(selected.slice(0, MAX_PHOTOS));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (form.title.trim().length < 3) {
+      toast.error('Enter a title for the update');
+      return;
+    }
+    if (form.updateType !== 'milestone' && form.progressPercent === '') {
+      toast.error('Enter the overall progress percentage');
+      return;
+    }
+
+    const stages = form.stages
+      .filter(stage => stage.name.trim())
+      .map(stage => ({ name: stage.name.trim(), percent: Math.min(100, Math.max(0, parseFloat(stage.percent) || 0)) }));
+
+    const formData = new FormData();
+    formData.append('updateType', form.updateType);
+    formData.append('title', form.title.trim());
+    formData.append('updateDate', form.updateDate);
+    if (form.description.trim()) formData.append('description', form.description.trim());
+    if (form.progressPercent !== '') formData.append('progressPercent', form.progressPercent);
+    if (stages.length > 0) formData.append('stages', JSON.stringify(stages));
+    if (form.updateType === 'quarterly_report') {
+      formData.append('reportYear', form.reportYear);
+      formData.append('reportQuarter', form.reportQuarter);
+    }
+    photos.forEach(photo => formData.append('photos', photo));
+
+    try {
+      setSaving(true);
+      const response = await projectService.createProjectUpdate(id!, formData);
+      if (response.data.failedPhotos.length > 0) {
+        toast.warning(response.message);
+      } else {
+        toast.success(response.message);
+      }
+      setForm(current => ({ ...emptyForm(), stages: current.stages }));
+      setPhotos([]);
+      setUpdates(await projectService.getProjectUpdates(id!));
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to post update');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (update: ProjectUpdate) => {
+    try {
+      await projectService.deleteProjectUpdate(id!, update.id);
+      toast.success('Update deleted');
+      setUpdates(current => current.filter(candidate => candidate.id !== update.id));
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to delete update');
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" size="sm" onClick={() => navigate(`/builder/projects/${id}`)}>
+            <Icon icon="solar:arrow-left-bold" className="size-4 mr-2" />
+            Back to Project
+          </Button>
+        </div>
+
+        <div className="mb-8">
+          <h1 className="text-3xl font-heading font-bold tracking-tight mb-2">
+            {project?.name ? `${project.name} - Construction Updates` : 'Construction Updates'}
+          </h1>
+          <p className="text-muted-foreground">
+            Updates appear on the public project page, and buyers who enquired are emailed.
+            {project?.expected_completion && ` Expected completion: ${formatDate(project.expected_completion)}.`}
+            {latestProgress && ` Last reported progress: ${Number(latestProgress.progress_percent)}%.`}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* New update */}
+          <Card className="lg:col-span-1">
+            <CardHeader>
+              <CardTitle>Post an Update</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-1">
+                  <Label>Type</Label>
+                  <Select
+                    value={form.updateType}
+                    onValueChange={value => setForm(current => ({ ...current, updateType: value as ProjectUpdateType }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(UPDATE_TYPE_STYLES) as ProjectUpdateType[]).map(type => (
+                        <SelectItem key={type} value={type}>{UPDATE_TYPE_STYLES[type].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {form.updateType === 'quarterly_report' && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="reportYear">Year</Label>
+                      <Input
+                        id="reportYear"
+                        type="number"
+                        value={form.reportYear}
+                        onChange={(e) => setForm(current => ({ ...current, reportYear: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Quarter</Label>
+                      <Select
+                        value={form.reportQuarter}
+                        onValueChange={value => setForm(current => ({ ...current, reportQuarter: value }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {['1', '2', '3', '4'].map(quarter => (
+                            <SelectItem key={quarter} value={quarter}>Q{quarter}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
+
+                <div className="space-y-1">
+                  <Label htmlFor="title">Title</Label>
+                  <Input
+                    id="title"
+                    placeholder={form.updateType === 'milestone' ? 'e.g. Tower A structure completed' : 'e.g. 12th floor slab cast'}
+                    value={form.title}
+                    onChange={(e) => setForm(current => ({ ...current, title: e.target.value }))}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="updateDate">Date</Label>
+                    <Input
+                      id="updateDate"
+                      type="date"
+                      max={today()}
+                      value={form.updateDate}
+                      onChange={(e) => setForm(current => ({ ...current, updateDate: e.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="progressPercent">Progress (%)</Label>
+                    <Input
+                      id="progressPercent"
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.5"
+                      placeholder={form.updateType === 'milestone' ? 'Optional' : ''}
+                      value={form.progressPercent}
+                      onChange={(e) => setForm(current => ({ ...current, progressPercent: e.target.value }))}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-1">
+                  <Label htmlFor="description">Description</Label>
+                  <Textarea
+                    id="description"
+                    rows={4}
+                    value={form.description}
+                    onChange={(e) => setForm(current => ({ ...current, description: e.target.value }))}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Stages (optional)</Label>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setForm(current => ({ ...current, stages: [...current.stages, { name: '', percent: '' }] }))}
+                    >
+                      <Icon icon="solar:add-circle-bold" className="size-4 mr-1" />
+                      Add
+                    </Button>
+                  </div>
+                  {form.stages.map((stage, index) => (
+                    <div key={index} className="flex gap-2">
+                      <Input
+                        placeholder="e.g. Structure"
+                        value={stage.name}
+                        onChange={(e) => updateStage(index, 'name', e.target.value)}
+                      />
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        className="w-20"
+                        placeholder="%"
+                        value={stage.percent}
+                        onChange={(e) => updateStage(index, 'percent', e.target.value)}
+                      />
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setForm(current => ({ ...current, stages: current.stages.filter((_, i) => i !== index) }))}
+                      >
+                        <Icon icon="solar:close-circle-bold" className="size-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-1">
+                  <Label htmlFor="photos">Site photos</Label>
+                  <Input id="photos" type="file" accept="image/*" multiple onChange={handlePhotosChange} />
+                  <p className="text-xs text-muted-foreground">
+                    {photos.length > 0 ? `${photos.length} photo(s) selected` : `Up to ${MAX_PHOTOS} photos`}
+                  </p>
+                </div>
+
+                <Button type="submit" className="w-full" disabled={saving}>
+                  <Icon icon="solar:upload-bold" className="size-4 mr-2" />
+                  {saving ? 'Posting...' : 'Post Update'}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          {/* Timeline */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Timeline</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ConstructionTimeline updates={updates} onDelete={handleDelete} />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </Layout>
+  );
+}
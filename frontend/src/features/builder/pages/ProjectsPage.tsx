@@ -9,10 +9,14 @@ import { Input } from '@/shared/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
 import  projectService  from '../services/projectService';
 import { Project } from '../types';
+import { useAuth } from '@/shared/contexts/AuthContext';
 import { toast } from 'sonner';
 
 export function ProjectsPage() {
   const navigate = useNavigate();
+  const { state: { user } } = useAuth();
+  // Team members work on the builder's projects but cannot create projects or manage the team
+  const isBuilder = user?.role === 'builder';
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
   const [filters, setFilters] = useState({
@@ -99,10 +103,18 @@ export function ProjectsPage() {
               Manage all your construction projects and developments
             </p>
           </div>
-          <Button onClick={() => navigate('/builder/new-project')}>
-            <Icon icon="solar:add-circle-bold" className="size-4 mr-2" />
-            New Project
-          </Button>
+          {isBuilder && (
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => navigate('/builder/team')}>
+                <Icon icon="solar:users-group-rounded-bold" className="size-4 mr-2" />
+                Team
+              </Button>
+              <Button onClick={() => navigate('/builder/new-project')}>
+                <Icon icon="solar:add-circle-bold" className="size-4 mr-2" />
+                New Project
+              </Button>
+            </div>
+          )}
         </div>
 
         {/* Filters */}
@@ -188,10 +200,12 @@ export function ProjectsPage() {
                 : 'Start by creating your first construction project'
               }
             </p>
-            <Button onClick={() => navigate('/builder/new-project')}>
-              <Icon icon="solar:add-circle-bold" className="size-4 mr-2" />
-              Create New Project
-            </Button>
+            {isBuilder && (
+              <Button onClick={() => navigate('/builder/new-project')}>
+                <Icon icon="solar:add-circle-bold" className="size-4 mr-2" />
+                Create New Project
+              </Button>
+            )}
           </div>
         ) : (
           <>
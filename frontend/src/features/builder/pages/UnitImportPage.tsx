@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Icon } from '@iconify/react';
+import { Layout } from '@/shared/components/layout/Layout';
+import { Button } from '@/shared/components/ui/button';
+import { Badge } from '@/shared/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Input } from '@/shared/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/shared/components/ui/table';
+import type { UnitImportAction, UnitImportPreview } from '@/shared/lib/api';
+import projectService from '../services/projectService';
+import { toast } from 'sonner';
+
+const ACTION_STYLES: Record<UnitImportAction, { label: string; className: string }> = {
+  create: { label: 'New', className: 'bg-green-100 text-green-800' },
+  update: { label: 'Update', className: 'bg-blue-100 text-blue-800' },
+  unchanged: { label: 'Unchanged', className: 'bg-gray-100 text-gray-800' },
+  conflict: { label: 'Conflict', className: 'bg-red-100 text-red-800' },
+};
+
+const formatValue = (value: string | number | boolean | null) => (value === null || value === '' ? '—' : String(value));
+
+export function UnitImportPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<UnitImportPreview | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    try {
+      const blob = await projectService.exportUnits(id!, format);
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `project-${id}-units.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to export units');
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0] || null;
+    if (selected && !/\.(csv|xlsx)$/i.test(selected.name)) {
+      toast.error('Please choose a CSV or XLSX file');
+      return;
+    }
+    setFile(selected);
+    setPreview(null);
+  };
+
+  const handlePreview = async () => {
+    if (!file) {
+      toast.error('Choose a file to import');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setPreview(await projectService.previewUnitImport(id!, file));
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to read the file');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!file || !preview) return;
+
+    try {
+      setLoading(true);
+      const response = await projectService.applyUnitImport(id!, file, preview.digest);
+      toast.success(response.message);
+      navigate(`/builder/projects/${id}/units`);
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to import units');
+      // Units may have changed underneath the preview; show the current diff instead
+      setPreview(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const visibleRows = preview?.rows.filter(row => showUnchanged || row.action !== 'unchanged') || [];
+  const applicable = preview ? preview.summary.created + preview.summary.updated : 0;
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" size="sm" onClick={() => navigate(`/builder/projects/${id}/units`)}>
+            <Icon icon="solar:arrow-left-bold" className="size-4 mr-2" />
+            Back to Units
+          </Button>
+        </div>
+
+        <div className="mb-8">
+          <h1 className="text-3xl font-heading font-bold tracking-tight mb-2">Export & Import Units</h1>
+          <p className="text-muted-foreground">
+            Export all units, edit prices and statuses offline, then import the file to review and apply the changes.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>1. Export</CardTitle>
+              <CardDescription>Keep the id column so each row updates the right unit. Rows without an id add new units.</CardDescription>
+            </CardHeader>
+            <CardContent className="flex gap-2">
+              <Button variant="outline" onClick={() => handleExport('csv')}>
+                <Icon icon="solar:download-bold" className="size-4 mr-2" />
+                Download CSV
+              </Button>
+              <Button variant="outline" onClick={() => handleExport('xlsx')}>
+                <Icon icon="solar:download-bold" className="size-4 mr-2" />
+                Download XLSX
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>2. Import</CardTitle>
+              <CardDescription>Nothing changes until you confirm the preview.</CardDescription>
+            </CardHeader>
+            <CardContent className="flex gap-2">
+              <Input type="file" accept=".csv,.xlsx" onChange={handleFileChange} />
+              <Button onClick={handlePreview} disabled={!file || loading}>
+                {loading && !preview ? 'Reading...' : 'Preview'}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+
+        {preview && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle>3. Review Changes</CardTitle>
+                <CardDescription>
+                  {preview.summary.created} new · {preview.summary.updated} updated · {preview.summary.unchanged} unchanged ·{' '}
+                  {preview.summary.conflicting} conflicting
+                  {preview.summary.conflicting > 0 && ' (conflicting rows are skipped)'}
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setShowUnchanged(current => !current)}>
+                  {showUnchanged ? 'Hide unchanged' : 'Show unchanged'}
+                </Button>
+                <Button onClick={handleApply} disabled={applicable === 0 || loading}>
+                  <Icon icon="solar:check-circle-bold" className="size-4 mr-2" />
+                  {loading ? 'Applying...' : `Apply ${applicable} change(s)`}
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {visibleRows.length === 0 ? (
+                <p className="py-6 text-center text-muted-foreground">No changes in this file.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Unit</TableHead>
+                      <TableHead>Result</TableHead>
+                      <TableHead>Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleRows.map(row => (
+                      <TableRow key={row.row}>
+                        <TableCell>{row.row}</TableCell>
+                        <TableCell className="font-medium">
+                          {row.tower ? `${row.tower}-` : ''}{row.unit_number || '—'}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={ACTION_STYLES[row.action].className}>{ACTION_STYLES[row.action].label}</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {row.reasons && (
+                            <ul className="list-disc pl-4 text-red-600">
+                              {row.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                            </ul>
+                          )}
+                          {row.changes && Object.entries(row.changes).map(([field, change]) => (
+                            <div key={field}>
+                              <span className="text-muted-foreground">{field}:</span>{' '}
+                              <span className="line-through">{formatValue(change.from)}</span> → {formatValue(change.to)}
+                            </div>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -1,4 +1,5 @@
 import { api } from '@/shared/lib/api';
+import type { ProjectUnit, PriceListRulesInput, PaymentPlanInput, TeamMemberInput, ProjectAssetInput } from '@/shared/lib/api';
 import { Project } from '../types';
 
 interface ProjectFilters {
@@ -235,6 +236,502 @@ class ProjectService {
     }
   }
 
+  async getStackingPlan(projectId: string) {
+    try {
+      console.log(`ProjectService: Fetching stacking plan for project ${projectId}`);
+      const response = await api.projects.units.getStackingPlan(parseInt(projectId));
+      console.log('ProjectService: Stacking plan response:', response);
+
+      return response.data;
+    } catch (error) {
+      console.error(`ProjectService: Error fetching stacking plan for project ${projectId}:`, error);
+      throw error;
+    }
+  }
+
+  async bulkUpdateUnitStatus(projectId: string, unitIds: number[], status: ProjectUnit['status']) {
+    try {
+      console.log(`ProjectService: Setting ${unitIds.length} units in project ${projectId} to ${status}`);
+      const response = await api.projects.units.bulkUpdateStatus(parseInt(projectId), unitIds, status);
+      console.log('ProjectService: Bulk status response:', response);
+
+      return response;
+    } catch (error) {
+      console.error(`ProjectService: Error updating unit status in project ${projectId}:`, error);
+      throw error;
+    }
+  }
+
+  async getPriceLists(projectId: string) {
+    try {
+      console.log(`ProjectService: Fetching price lists for project ${projectId}`);
+      const response = await api.projects.priceLists.getPriceLists(parseInt(projectId));
+      console.log('ProjectService: Price lists response:', response);
+
+      return response.data.priceLists || [];
+    } catch (error) {
+      console.error(`ProjectService: Error fetching price lists for project ${projectId}:`, error);
+      return [];
+    }
+  }
+
+  async getPriceList(projectId: string, priceListId: number) {
+    try {
+      console.log(`ProjectService: Fetching price list ${priceListId} for project ${projectId}`);
+      const response = await api.projects.priceLists.getPriceList(parseInt(projectId), priceListId);
+      console.log('ProjectService: Price list response:', response);
+
+      return response.data;
+    } catch (error) {
+      console.error(`ProjectService: Error fetching price list ${priceListId} for project ${projectId}:`, error);
+      throw error;
+    }
+  }
+
+  async previewPriceList(projectId: string, rules: PriceListRulesInput) {
+    try {
+      console.log(`ProjectService: Previewing price list for project ${projectId}:`, rules);
+      const response = await api.projects.priceLists.previewPriceList(parseInt(projectId), rules);
+      console.log('ProjectService: Price list preview response:', response);
+
+      return response.data;
+    } catch (error) {
+      console.error(`ProjectService: Error previewing price list for project ${projectId}:`, error);
+      throw error;
+    }
+  }
+
+  async createPriceList(projectId: string, rules: PriceListRulesInput) {
+    try {
+      console.log(`ProjectService: Creating price list for project ${projectId}:`, rules);
+      const response = await api.projects.priceLists.createPriceList(parseInt(projectId), rules);
+      console.log('ProjectService: Create price list response:', response);
+
+      return response;
+    } catch (error) {
+      console.error(`ProjectService: Error creating price list for project ${projectId}:`, error);
+      throw error;
+    }
+  }
+
+  async deletePriceList(projectId: string, priceListId: number) {
+    try {
+      console.log(`ProjectService: Deleting price list ${priceListId} from project ${projectId}`);
+      const response = await api.projects.priceLists.deletePriceList(parseInt(projectId), priceListId);
+      console.log('ProjectService: Delete price list response:', response);
+
+      return response;
+    } catch (error) {
+      console.error(`ProjectService: Error deleting price list ${priceListId} from project ${projectId}:`, error);
+      throw error;
+    }
+  }
+
+  async getProjectUpdates(projectId: string) {
+    try {
+      console.log(`ProjectService: Fetching construction updates for project ${projectId}`);
+      const response = await api.projects.updates.getUpdates(parseInt(projectId));
+      console.log('ProjectService: Construction updates response:', response);
+
+      return response.data.updates || [];
+    } catch (error) {
+      console.error(`ProjectService: Error fetching construction updates for project ${projectId}:`, error);
+      return [];
+    }
+  }
+
+  async createProjectUpdate(projectId: string, formData: FormData) {
+    try {
+      console.log(`ProjectService: Posting construction update for project ${projectId}`);
+      const response = await api.projects.updates.createUpdate(parseInt(projectId), formData);
+      console.log('ProjectService: Create construction update response:', response);
+
+      return response;
+    } catch (error) {
+      console.error(`ProjectService: Error posting construction update for project ${projectId}:`, error);
+      throw error;
+    }
+  }
+
+  async deleteProjectUpdate(projectId: string, updateId: number) {
+    try {
+      console.log(`ProjectService: Deleting construction update ${updateId} from project ${projectId}`);
+      const response = await api.projects.updates.deleteUpdate(parseInt(projectId), updateId);
+      console.log('ProjectService: Delete construction update response:', response);
+
+      return response;
+    } catch (error) {
+      console.error(`ProjectService: Error deleting construction update ${updateId} from project ${projectId}:`, error);
+      throw error;
+    }
+  }
+
+  async getProjectAssets(projectId: string) {
+    try {
+      console.log(`ProjectService: Fetching assets for project ${projectId}`);
+      const response = await api.projects.assets.getAssets(parseInt(projectId));
+      console.log('ProjectService: Project assets response:', response);
+
+      return response.data.assets || [];
+    } catch (error) {
+      console.error(`ProjectService: Error fetching assets for project ${projectId}:`, error);
+      return [];
+    }
+  }
+
+  async createProjectAsset(projectId: string, input: ProjectAssetInput) {
+    try {
+      console.log(`ProjectService: Adding ${input.assetType} to project ${projectId}`);
+      const response = await api.projects.assets.createAsset(parseInt(projectId), input);
+      console.log('ProjectService: Create asset response:', response);
+
+      return response;
+    } catch (error) {
+      console.error(`ProjectService: Error adding ${input.assetType} to project ${projectId}:`, error);
+      throw error;
+    }
+  }
+
+  async updateProjectAsset(projectId: string, assetId: number, changes: { title?: string; requiresLead?: boolean; displayOrder?: number }) {
+    try {
+      console.log(`ProjectService: Updating asset ${assetId} of project ${projectId}`);
+      const response = await api.projects.assets.updateAsset(parseInt(projectId), assetId, changes);
+      console.log('ProjectService: Update asset response:', response);
+
+      return response;
+    } catch (error) {
+      console.error(`ProjectService: Error updating asset ${assetId} of project ${projectId}:`, error);
+      throw error;
+    }
+  }
+
+  async deleteProjectAsset(projectId: string, assetId: number) {
+    try {
+      console.log(`ProjectService: Deleting asset ${assetId} from project ${projectId}`);
+      const response = await api.projects.assets.deleteAsset(parseInt(projectId), assetId);
+      console.log('ProjectService: Delete asset response:', response);
+
+      return response;
+    } catch (error) {
+      console.error(`ProjectService: Error deleting asset ${assetId} from project ${projectId}:`, error);
+      throw error;
+    }
+  }
+
+  async linkFloorPlan(projectId: string, assetId: number, unitIds?: number[]) {
+    try {
+      console.log(`ProjectService: Linking floor plan ${assetId} to units of project ${projectId}`);
+      const response = await api.projects.assets.linkUnits(parseInt(projectId), assetId, unitIds);
+      console.log('ProjectService: Link floor plan response:', response);
+
+      return response;
+    } catch (error) {
+      console.error(`ProjectService: Error linking floor plan ${assetId}:`, error);
+      throw error;
+    }
+  }
+
+  async unlinkFloorPlan(projectId: string, assetId: number, unitIds?: number[]) {
+    try {
+      console.log(`ProjectService: Unlinking floor plan ${assetId} from units of project ${projectId}`);
+      const response = await api.projects.assets.unlinkUnits(parseInt(projectId), assetId, unitIds);
+      console.log('ProjectService: Unlink floor plan response:', response);
+
+      return response;
+    } catch (error) {
+      console.error(`ProjectService: Error unlinking floor plan ${assetId}:`, error);
+      throw error;
+    }
+  }
+
+  async exportUnits(projectId: string, format: 'csv' | 'xlsx') {
+    try {
+      console.log(`ProjectService: Exporting units of project ${projectId} as ${format}`);
+      return await api.projects.units.exportUnits(parseInt(projectId), format);
+    } catch (error) {
+      console.error(`ProjectService: Error exporting units of project ${projectId}:`, error);
+      throw error;
+    }
+  }
+
+  async previewUnitImport(projectId: string, file: File) {
+    try {
+      console.log(`ProjectService: Previewing unit import for project ${projectId}:`, file.name);
+      const response = await api.projects.units.previewImport(parseInt(projectId), file);
+      console.log('ProjectService: Unit import preview response:', response);
+
+      return response.data;
+    } catch (error) {
+      console.error(`ProjectService: Error previewing unit import for project ${projectId}:`, error);
+      throw error;
+    }
+  }
+
+  async applyUnitImport(projectId: string, file: File, digest: string) {
+    try {
+      console.log(`ProjectService: Applying unit import for project ${projectId}:`, file.name);
+      const response = await api.projects.units.applyImport(parseInt(projectId), file, digest);
+      console.log('ProjectService: Unit import response:', response);
+
+      return response;
+    } catch (error) {
+      console.error(`ProjectService: Error applying unit import for project ${projectId}:`, error);
+      throw error;
+    }
+  }
+
+  async getPaymentPlans(projectId: string) {
+    try {
+      console.log(`ProjectService: Fetching payment plans for project ${projectId}`);
+      const response = await api.projects.paymentPlans.getPlans(parseInt(projectId));
+      console.log('ProjectService: Payment plans response:', response);
+
+      return response.data.plans || [];
+    } catch (error) {
+      console.error(`ProjectService: Error fetching payment plans for project ${projectId}:`, error);
+      return [];
+    }
+  }
+
+  async savePaymentPlan(projectId: string, plan: PaymentPlanInput, planId?: number) {
+    try {
+      console.log(`ProjectService: Saving payment plan for project ${projectId}:`, plan);
+      const response = planId
+        ? await api.projects.paymentPlans.updatePlan(parseInt(projectId), planId, plan)
+        : await api.projects.paymentPlans.createPlan(parseInt(projectId), plan);
+      console.log('ProjectService: Save payment plan response:', response);
+
+      return response;
+    } catch (error) {
+      console.error(`ProjectService: Error saving payment plan for project ${projectId}:`, error);
+      throw error;
+    }
+  }
+
+  async deletePaymentPlan(projectId: string, planId: number) {
+    try {
+      console.log(`ProjectService: Deleting payment plan ${planId} from project ${projectId}`);
+      const response = await api.projects.paymentPlans.deletePlan(parseInt(projectId), planId);
+      console.log('ProjectService: Delete payment plan response:', response);
+
+      return response;
+    } catch (error) {
+      console.error(`ProjectService: Error deleting payment plan ${planId} from project ${projectId}:`, error);
+      throw error;
+    }
+  }
+
+  async getPaymentReceivables(projectId: string, overdueOnly: boolean = false) {
+    try {
+      console.log(`ProjectService: Fetching receivables for project ${projectId}`);
+      const response = await api.projects.paymentSchedules.getReceivables(parseInt(projectId), overdueOnly);
+      console.log('ProjectService: Receivables response:', response);
+
+      return response.data;
+    } catch (error) {
+      console.error(`ProjectService: Error fetching receivables for project ${projectId}:`, error);
+      throw error;
+    }
+  }
+
+  async getPaymentSchedule(projectId: string, unitId: number) {
+    try {
+      console.log(`ProjectService: Fetching payment schedule for unit ${unitId} in project ${projectId}`);
+      const response = await api.projects.paymentSchedules.getSchedule(parseInt(projectId), unitId);
+      console.log('ProjectService: Payment schedule response:', response);
+
+      return response.data;
+    } catch (error) {
+      console.error(`ProjectService: Error fetching payment schedule for unit ${unitId}:`, error);
+      throw error;
+    }
+  }
+
+  async applyPaymentPlan(projectId: string, unitId: number, planId: number, bookingDate?: string) {
+    try {
+      console.log(`ProjectService: Applying payment plan ${planId} to unit ${unitId} in project ${projectId}`);
+      const response = await api.projects.paymentSchedules.applyPlan(parseInt(projectId), unitId, planId, bookingDate);
+      console.log('ProjectService: Apply payment plan response:', response);
+
+      return response;
+    } catch (error) {
+      console.error(`ProjectService: Error applying payment plan to unit ${unitId}:`, error);
+      throw error;
+    }
+  }
+
+  async removePaymentSchedule(projectId: string, unitId: number) {
+    try {
+      console.log(`ProjectService: Removing payment schedule for unit ${unitId} in project ${projectId}`);
+      const response = await api.projects.paymentSchedules.removeSchedule(parseInt(projectId), unitId);
+      console.log('ProjectService: Remove payment schedule response:', response);
+
+      return response;
+    } catch (error) {
+      console.error(`ProjectService: Error removing payment schedule for unit ${unitId}:`, error);
+      throw error;
+    }
+  }
+
+  async rescheduleInstallment(projectId: string, unitId: number, installmentId: number, dueDate: string) {
+    try {
+      console.log(`ProjectService: Rescheduling installment ${installmentId} to ${dueDate}`);
+      const response = await api.projects.paymentSchedules.rescheduleInstallment(parseInt(projectId), unitId, installmentId, dueDate);
+      console.log('ProjectService: Reschedule installment response:', response);
+
+      return response;
+    } catch (error) {
+      console.error(`ProjectService: Error rescheduling installment ${installmentId}:`, error);
+      throw error;
+    }
+  }
+
+  async recordInstallmentPayment(projectId: string, unitId: number, installmentId: number, payment: {
+    amount: number;
+    paidOn?: string;
+    method?: string;
+    reference?: string;
+    notes?: string;
+  }) {
+    try {
+      console.log(`ProjectService: Recording payment against installment ${installmentId}:`, payment);
+      const response = await api.projects.paymentSchedules.recordPayment(parseInt(projectId), unitId, installmentId, payment);
+      console.log('ProjectService: Record payment response:', response);
+
+      return response;
+    } catch (error) {
+      console.error(`ProjectService: Error recording payment against installment ${installmentId}:`, error);
+      throw error;
+    }
+  }
+
+  async downloadDemandLetter(projectId: string, unitId: number, installmentId: number) {
+    try {
+      console.log(`ProjectService: Downloading demand letter for installment ${installmentId}`);
+      return await api.projects.paymentSchedules.downloadDemandLetter(parseInt(projectId), unitId, installmentId);
+    } catch (error) {
+      console.error(`ProjectService: Error downloading demand letter for installment ${installmentId}:`, error);
+      throw error;
+    }
+  }
+
+  async getProjectReservations(projectId: string) {
+    try {
+      console.log(`ProjectService: Fetching reservations for project ${projectId}`);
+      const response = await api.projects.reservations.getProjectReservations(parseInt(projectId));
+      console.log('ProjectService: Reservations response:', response);
+
+      return response.data.reservations || [];
+    } catch (error) {
+      console.error(`ProjectService: Error fetching reservations for project ${projectId}:`, error);
+      return [];
+    }
+  }
+
+  async confirmUnitBooking(projectId: string, unitId: number) {
+    try {
+      console.log(`ProjectService: Confirming booking of unit ${unitId} in project ${projectId}`);
+      const response = await api.projects.units.confirmBooking(parseInt(projectId), unitId);
+      console.log('ProjectService: Confirm booking response:', response);
+
+      return response;
+    } catch (error) {
+      console.error(`ProjectService: Error confirming booking of unit ${unitId} in project ${projectId}:`, error);
+      throw error;
+    }
+  }
+
+  async releaseUnitReservation(projectId: string, unitId: number) {
+    try {
+      console.log(`ProjectService: Releasing unit ${unitId} in project ${projectId}`);
+      const response = await api.projects.units.releaseHold(parseInt(projectId), unitId);
+      console.log('ProjectService: Release unit response:', response);
+
+      return response;
+    } catch (error) {
+      console.error(`ProjectService: Error releasing unit ${unitId} in project ${projectId}:`, error);
+      throw error;
+    }
+  }
+
+  async getTeamMembers() {
+    try {
+      console.log('ProjectService: Fetching team members');
+      const response = await api.builderTeam.getMembers();
+      console.log('ProjectService: Team members response:', response);
+
+      return response.data.members || [];
+    } catch (error) {
+      console.error('ProjectService: Error fetching team members:', error);
+      throw error;
+    }
+  }
+
+  async inviteTeamMember(email: string, member: TeamMemberInput) {
+    try {
+      console.log(`ProjectService: Inviting ${email} to the team`);
+      const response = await api.builderTeam.inviteMember({ email, ...member });
+      console.log('ProjectService: Invite team member response:', response);
+
+      return response;
+    } catch (error) {
+      console.error(`ProjectService: Error inviting ${email} to the team:`, error);
+      throw error;
+    }
+  }
+
+  async updateTeamMember(memberId: number, member: TeamMemberInput) {
+    try {
+      console.log(`ProjectService: Updating team member ${memberId}`);
+      const response = await api.builderTeam.updateMember(memberId, member);
+      console.log('ProjectService: Update team member response:', response);
+
+      return response;
+    } catch (error) {
+      console.error(`ProjectService: Error updating team member ${memberId}:`, error);
+      throw error;
+    }
+  }
+
+  async removeTeamMember(memberId: number) {
+    try {
+      console.log(`ProjectService: Removing team member ${memberId}`);
+      const response = await api.builderTeam.removeMember(memberId);
+      console.log('ProjectService: Remove team member response:', response);
+
+      return response;
+    } catch (error) {
+      console.error(`ProjectService: Error removing team member ${memberId}:`, error);
+      throw error;
+    }
+  }
+
+  async getTeamMemberships() {
+    try {
+      console.log('ProjectService: Fetching team memberships');
+      const response = await api.builderTeam.getMemberships();
+      console.log('ProjectService: Team memberships response:', response);
+
+      return response.data.memberships || [];
+    } catch (error) {
+      console.error('ProjectService: Error fetching team memberships:', error);
+      return [];
+    }
+  }
+
+  async acceptTeamInvitation(token: string) {
+    try {
+      console.log('ProjectService: Accepting team invitation');
+      const response = await api.builderTeam.acceptInvitation(token);
+      console.log('ProjectService: Accept team invitation response:', response);
+
+      return response;
+    } catch (error) {
+      console.error('ProjectService: Error accepting team invitation:', error);
+      throw error;
+    }
+  }
+
   async uploadProjectImages(projectId: number, formData: FormData) {
     try {
       console.log(`ProjectService: Uploading images for project ${projectId}`);
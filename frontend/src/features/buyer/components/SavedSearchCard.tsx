@@ -31,6 +31,12 @@ export function SavedSearchCard({ search, onDelete, onRun }: SavedSearchCardProp
     if (filters.status) filterLabels.push(`Status: ${filters.status}`);
     if (filters.is_featured) filterLabels.push('Featured Only');
     if (filters.keywords) filterLabels.push(`Keywords: ${filters.keywords}`);
+    if (filters.amenities?.length) {
+      filterLabels.push(`Amenities: ${filters.amenities.join(filters.amenities_match === 'any' ? ' or ' : ', ')}`);
+    }
+    if (filters.polygons?.length) {
+      filterLabels.push(filters.polygons.length === 1 ? 'Drawn area' : `${filters.polygons.length} drawn areas`);
+    }
     
     return filterLabels;
   };
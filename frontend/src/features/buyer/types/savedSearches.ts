@@ -16,6 +16,9 @@ export interface PropertyFilters {
   status?: string;
   is_featured?: boolean;
   keywords?: string;
+  amenities?: string[];
+  amenities_match?: 'all' | 'any';
+  polygons?: number[][][][]; // Drawn map areas, [longitude, latitude] rings
 }
 
 export interface SavedSearch {
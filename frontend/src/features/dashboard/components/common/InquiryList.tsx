@@ -1,8 +1,9 @@
 import { Icon } from '@iconify/react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
 import { Badge } from '@/shared/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/shared/components/ui/popover';
 import { cn } from '@/shared/lib/utils';
-import type { Inquiry } from '@/features/dashboard/hooks/useInquiries';
+import type { Inquiry, InquirySort } from '@/features/dashboard/hooks/useInquiries';
 
 interface InquiryListProps {
   inquiries: Inquiry[];
@@ -11,6 +12,71 @@ interface InquiryListProps {
   showEmpty?: boolean;
   maxItems?: number;
   title?: string;
+  // Shows the newest / top score toggle when set
+  sort?: InquirySort;
+  onSortChange?: (sort: InquirySort) => void;
+}
+
+// Lowest scores for a hot and a warm lead
+const HOT_LEAD_SCORE = 70;
+const WARM_LEAD_SCORE = 40;
+
+const SORT_OPTIONS: { value: InquirySort; label: string }[] = [
+  { value: 'created_at', label: 'Newest' },
+  { value: 'score', label: 'Top score' },
+];
+
+function LeadScoreBadge({ inquiry }: { inquiry: Inquiry }) {
+  if (inquiry.score === null || inquiry.score === undefined) {
+    return null;
+  }
+
+  const score = inquiry.score;
+  const level = score >= HOT_LEAD_SCORE
+    ? { label: 'Hot', icon: 'solar:fire-bold', className: 'bg-red-100 text-red-800 border-red-200' }
+    : score >= WARM_LEAD_SCORE
+      ? { label: 'Warm', icon: 'solar:sun-bold', className: 'bg-orange-100 text-orange-800 border-orange-200' }
+      : { label: 'Cold', icon: 'solar:snowflake-bold', className: 'bg-slate-100 text-slate-700 border-slate-200' };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="shrink-0"
+          aria-label={`Lead score ${score}, show breakdown`}
+          // The card itself is clickable
+          onClick={(e) => e.stopPropagation()}
+        >
+          <Badge variant="outline" className={cn("text-xs", level.className)}>
+            <Icon icon={level.icon} className="size-3 mr-1" />
+            {score} · {level.label}
+          </Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" align="end" onClick={(e) => e.stopPropagation()}>
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="font-semibold text-sm">Lead score</h4>
+            <span className="text-sm font-semibold">{score}/100</span>
+          </div>
+          <div className="space-y-2">
+            {(inquiry.score_factors || []).map((factor) => (
+              <div key={factor.key} className="text-xs">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-foreground">{factor.label}</span>
+                  <span className={cn(factor.points > 0 ? 'text-foreground' : 'text-muted-foreground')}>
+                    {factor.points}/{factor.max_points}
+                  </span>
+                </div>
+                <p className="text-muted-foreground">{factor.detail}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
 }
 
 function InquiryCard({ inquiry, onClick }: { inquiry: Inquiry; onClick?: () => void }) {
@@ -87,6 +153,7 @@ function InquiryCard({ inquiry, onClick }: { inquiry: Inquiry; onClick?: () => v
                   <Icon icon={getStatusIcon(inquiry.status)} className="size-3 mr-1" />
                   {inquiry.status.charAt(0).toUpperCase() + inquiry.status.slice(1)}
                 </Badge>
+                <LeadScoreBadge inquiry={inquiry} />
               </div>
               <div className="flex items-center gap-1 text-sm text-muted-foreground">
                 <Icon icon={targetIcon} className="size-4" />
@@ -139,7 +206,9 @@ export function InquiryList({
   onInquiryClick,
   showEmpty = true,
   maxItems,
-  title = "Recent Inquiries"
+  title = "Recent Inquiries",
+  sort,
+  onSortChange
 }: InquiryListProps) {
   // Ensure inquiries is always an array
   const safeInquiries = Array.isArray(inquiries) ? inquiries : [];
@@ -180,11 +249,32 @@ export function InquiryList({
               </Badge>
             )}
           </CardTitle>
-          {maxItems && safeInquiries.length > maxItems && (
-            <button className="text-sm text-primary hover:text-primary/80 font-medium transition-colors">
-              View All ({safeInquiries.length})
-            </button>
-          )}
+          <div className="flex items-center gap-3">
+            {onSortChange && (
+              <div className="flex items-center rounded-md border p-0.5">
+                {SORT_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => onSortChange(option.value)}
+                    className={cn(
+                      "px-2 py-1 text-xs font-medium rounded transition-colors",
+                      sort === option.value
+                        ? "bg-primary text-primary-foreground"
+                        : "text-muted-foreground hover:text-foreground"
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            )}
+            {maxItems && safeInquiries.length > maxItems && (
+              <button className="text-sm text-primary hover:text-primary/80 font-medium transition-colors">
+                View All ({safeInquiries.length})
+              </button>
+            )}
+          </div>
         </div>
       </CardHeader>
       <CardContent>
@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Icon } from '@iconify/react';
 import { useAuth } from '@/shared/contexts/AuthContext';
@@ -8,7 +9,7 @@ import { DashboardGrid, GridItem } from '../common/DashboardGrid';
 import { InquiryList } from '../common/InquiryList';
 import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
 import { cn } from '@/shared/lib/utils';
-import { useInquiries } from '@/features/dashboard/hooks/useInquiries';
+import { useInquiries, type InquirySort } from '@/features/dashboard/hooks/useInquiries';
 import type { BuilderDashboardStats, Project } from '@/features/dashboard/types/dashboard';
 
 interface BuilderDashboardContentProps {
@@ -142,9 +143,12 @@ export function BuilderDashboardContent({
   const { state: { user } } = useAuth();
   const navigate = useNavigate();
 
+  const [inquirySort, setInquirySort] = useState<InquirySort>('created_at');
+
   // Fetch inquiries for the builder
   const { inquiries, stats: inquiryStats, isLoading: inquiriesLoading, error: inquiriesError } = useInquiries({
-    limit: 5 // Show only recent 5 inquiries
+    limit: 5, // Show only recent 5 inquiries
+    sort: inquirySort
   });
 
   // Ensure inquiries is always an array
@@ -436,7 +440,9 @@ export function BuilderDashboardContent({
               inquiries={safeInquiries}
               isLoading={inquiriesLoading}
               maxItems={8}
-              title="Recent Inquiries"
+              title={inquirySort === 'score' ? 'Top Inquiries' : 'Recent Inquiries'}
+              sort={inquirySort}
+              onSortChange={setInquirySort}
               onInquiryClick={() => {
                 // Navigate to messages or inquiry details
                 navigate('/dashboard/messages');
@@ -2,4 +2,5 @@
 export { useDashboard, type UseDashboardReturn } from './useDashboard';
 export { useUserStats, type UseUserStatsReturn } from './useUserStats';
 export { useActivityFeed, type UseActivityFeedReturn } from './useActivityFeed';
-export { useNotifications, type UseNotificationsReturn } from './useNotifications';
\ No newline at end of file
+export { useNotifications, type UseNotificationsReturn } from './useNotifications';
+export { useMessageEvents, type UseMessageEventsReturn } from './useMessageEvents';
\ No newline at end of file
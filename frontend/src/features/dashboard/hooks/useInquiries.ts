@@ -1,6 +1,17 @@
 import { useState, useEffect } from 'react';
 import { api } from '@/shared/lib/api';
 
+// One part of a lead's score, as worked out by the server
+export interface LeadScoreFactor {
+  key: string;
+  label: string;
+  points: number;
+  max_points: number;
+  detail: string;
+}
+
+export type InquirySort = 'created_at' | 'score';
+
 export interface Inquiry {
   id: number;
   property_id?: number;
@@ -10,6 +21,9 @@ export interface Inquiry {
   phone?: string;
   message: string;
   status: 'new' | 'contacted' | 'closed';
+  // 0-100; null until the lead is scored, and never sent to the inquirer
+  score?: number | null;
+  score_factors?: LeadScoreFactor[] | null;
   created_at: string;
   property?: {
     id: number;
@@ -55,6 +69,7 @@ export function useInquiries(params?: {
   status?: string;
   property_id?: number;
   project_id?: number;
+  sort?: InquirySort;
 }): UseInquiriesResult {
   const [inquiries, setInquiries] = useState<Inquiry[]>([]);
   const [stats, setStats] = useState<InquiryStats | null>(null);
@@ -90,7 +105,7 @@ export function useInquiries(params?: {
 
   useEffect(() => {
     fetchInquiries();
-  }, [params?.page, params?.limit, params?.status, params?.property_id, params?.project_id]);
+  }, [params?.page, params?.limit, params?.status, params?.property_id, params?.project_id, params?.sort]);
 
   return {
     inquiries,
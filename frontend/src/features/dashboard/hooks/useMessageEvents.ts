@@ -0,0 +1,126 @@
+import { useState, useEffect, useRef } from 'react';
+import { api } from '@/shared/lib/api';
+import { useAuth } from '@/shared/contexts/AuthContext';
+
+export interface StreamedMessage {
+  id: number;
+  conversation_id: string;
+  content: string;
+  sender_id: number;
+  recipient_id: number;
+  status: 'sent' | 'read';
+  read_at?: string | null;
+  created_at: string;
+  sender?: {
+    id: number;
+    first_name: string;
+    last_name: string;
+    email: string;
+  };
+}
+
+export interface NewMessageEvent {
+  conversation_id: string;
+  message: StreamedMessage;
+}
+
+export interface ReadReceiptEvent {
+  conversation_id: string;
+  reader_id: number;
+  message_ids: number[];
+  read_at: string;
+}
+
+export interface TypingEvent {
+  conversation_id: string;
+  user_id: number;
+  is_typing: boolean;
+}
+
+export interface UnreadCountEvent {
+  unread_count: number;
+  conversation_id?: string;
+  conversation_unread_count?: number;
+}
+
+export interface MessageEventHandlers {
+  onMessage?: (event: NewMessageEvent) => void;
+  onRead?: (event: ReadReceiptEvent) => void;
+  onTyping?: (event: TypingEvent) => void;
+  onUnreadCount?: (event: UnreadCountEvent) => void;
+}
+
+export interface UseMessageEventsReturn {
+  isConnected: boolean;
+}
+
+// How long to wait before opening a new stream once the browser gives up on one
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Custom hook for the user's live conversation events
+ * Keeps one event stream open while signed in; handlers can change between renders
+ */
+export const useMessageEvents = (handlers: MessageEventHandlers): UseMessageEventsReturn => {
+  const { state: { isAuthenticated } } = useAuth();
+  const [isConnected, setIsConnected] = useState(false);
+
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+
+    let source: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let closed = false;
+
+    const listen = <T,>(eventSource: EventSource, type: string, handler: (data: T) => void) => {
+      eventSource.addEventListener(type, (event) => {
+        try {
+          handler(JSON.parse((event as MessageEvent).data) as T);
+        } catch (error) {
+          console.error(`Failed to handle ${type} event:`, error);
+        }
+      });
+    };
+
+    const connect = () => {
+      const url = api.getMessageStreamUrl();
+      if (!url || closed) {
+        return;
+      }
+
+      source = new EventSource(url);
+      source.onopen = () => setIsConnected(true);
+      source.onerror = () => {
+        setIsConnected(false);
+        // The browser retries dropped streams itself, but not ones refused outright,
+        // e.g. after the token expired; open a new one with a fresh token
+        if (source?.readyState === EventSource.CLOSED && !closed) {
+          reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+        }
+      };
+
+      listen<NewMessageEvent>(source, 'message:new', (data) => handlersRef.current.onMessage?.(data));
+      listen<ReadReceiptEvent>(source, 'message:read', (data) => handlersRef.current.onRead?.(data));
+      listen<TypingEvent>(source, 'typing', (data) => handlersRef.current.onTyping?.(data));
+      listen<UnreadCountEvent>(source, 'unread_count', (data) => handlersRef.current.onUnreadCount?.(data));
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+      }
+      source?.close();
+      setIsConnected(false);
+    };
+  }, [isAuthenticated]);
+
+  return { isConnected };
+};
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { Icon } from "@iconify/react";
 import { Button } from "@/shared/components/ui/button";
@@ -12,11 +12,14 @@ import { useAuth } from "@/shared/contexts/AuthContext";
 import { toast } from "sonner";
 import { api } from "@/shared/lib/api";
 import { OptimizedImage } from "@/shared/components/ui/OptimizedImage";
+import { useMessageEvents } from "../hooks/useMessageEvents";
 
 interface Message {
   id: number;
   content: string;
   sender_id: number;
+  status?: 'sent' | 'read';
+  read_at?: string | null;
   created_at: string;
   sender?: {
     id: number;
@@ -60,6 +63,11 @@ interface Conversation {
   }>;
 }
 
+// Stop sending typing updates this long after the last keystroke
+const TYPING_IDLE_MS = 3000;
+// Hide another user's typing indicator if their "stopped" update never arrives
+const TYPING_EXPIRY_MS = 8000;
+
 /**
  * Messages Page - migrated to dashboard feature
  * Uses new dashboard layout while maintaining existing functionality
@@ -75,6 +83,60 @@ export function MessagesPage() {
   const [newMessage, setNewMessage] = useState("");
   const [loading, setLoading] = useState(true);
   const [messagesLoading, setMessagesLoading] = useState(false);
+  // Unread counts by conversation, as pushed by the message stream
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+  // Conversations where the other participant is typing
+  const [typingIn, setTypingIn] = useState<Record<string, boolean>>({});
+
+  const typingTimers = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const typingSent = useRef<{ conversationId: number; timer: ReturnType<typeof setTimeout> } | null>(null);
+
+  const markAsRead = (convId: number) => {
+    api.markConversationRead(convId).catch(error => console.error('Failed to mark messages as read:', error));
+  };
+
+  const setTyping = (convId: string, isTyping: boolean) => {
+    clearTimeout(typingTimers.current[convId]);
+    if (isTyping) {
+      typingTimers.current[convId] = setTimeout(() => setTyping(convId, false), TYPING_EXPIRY_MS);
+    }
+    setTypingIn(prev => ({ ...prev, [convId]: isTyping }));
+  };
+
+  useMessageEvents({
+    onMessage: ({ conversation_id, message }) => {
+      if (activeConversation?.id.toString() !== conversation_id) return;
+
+      // Our own sends are already in the list from the POST response
+      setMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message]);
+      if (message.sender_id !== user?.id) {
+        setTyping(conversation_id, false);
+        markAsRead(activeConversation.id);
+      }
+    },
+    onRead: ({ conversation_id, message_ids, read_at }) => {
+      if (activeConversation?.id.toString() !== conversation_id) return;
+      setMessages(prev => prev.map(m => message_ids.includes(m.id) ? { ...m, status: 'read', read_at } : m));
+    },
+    onTyping: ({ conversation_id, user_id, is_typing }) => {
+      if (user_id !== user?.id) {
+        setTyping(conversation_id, is_typing);
+      }
+    },
+    onUnreadCount: ({ conversation_id, conversation_unread_count }) => {
+      if (conversation_id !== undefined && conversation_unread_count !== undefined) {
+        setUnreadCounts(prev => ({ ...prev, [conversation_id]: conversation_unread_count }));
+      }
+    },
+  });
+
+  useEffect(() => {
+    const timers = typingTimers.current;
+    return () => {
+      Object.values(timers).forEach(clearTimeout);
+      if (typingSent.current) clearTimeout(typingSent.current.timer);
+    };
+  }, []);
 
   // Load conversations
   useEffect(() => {
@@ -116,6 +178,7 @@ export function MessagesPage() {
       const response = await api.getMessages(convId, { limit: 100 });
       if (response.success) {
         setMessages(response.data.messages);
+        markAsRead(convId);
       }
     } catch (error) {
       console.error('Failed to load messages:', error);
@@ -135,13 +198,44 @@ export function MessagesPage() {
     }
   };
 
+  const stopTyping = () => {
+    if (!typingSent.current) return;
+    clearTimeout(typingSent.current.timer);
+    api.sendTypingIndicator(typingSent.current.conversationId, false).catch(() => undefined);
+    typingSent.current = null;
+  };
+
+  const handleMessageChange = (value: string) => {
+    setNewMessage(value);
+    if (!activeConversation) return;
+
+    if (!value.trim()) {
+      stopTyping();
+      return;
+    }
+
+    // Only the first keystroke after a pause is sent; later ones just push back the stop
+    if (typingSent.current?.conversationId !== activeConversation.id) {
+      stopTyping();
+      api.sendTypingIndicator(activeConversation.id, true).catch(() => undefined);
+    } else {
+      clearTimeout(typingSent.current.timer);
+    }
+    typingSent.current = {
+      conversationId: activeConversation.id,
+      timer: setTimeout(stopTyping, TYPING_IDLE_MS),
+    };
+  };
+
   const handleSendMessage = async () => {
     if (!newMessage.trim() || !activeConversation) return;
 
     try {
+      stopTyping();
       const response = await api.sendMessage(activeConversation.id, newMessage);
       if (response.success) {
-        setMessages(prev => [...prev, response.data.message]);
+        const sent: Message = response.data.message;
+        setMessages(prev => prev.some(m => m.id === sent.id) ? prev : [...prev, sent]);
         setNewMessage("");
         toast.success("Message sent!");
       }
@@ -157,6 +251,7 @@ export function MessagesPage() {
   };
 
   const handleConversationClick = (conversation: Conversation) => {
+    stopTyping();
     setActiveConversation(conversation);
     navigate(`/dashboard/messages/${conversation.id}`);
     loadMessages(conversation.id);
@@ -272,9 +367,14 @@ export function MessagesPage() {
                                   <p className="text-xs text-muted-foreground truncate mb-2">
                                     {conversation.property?.title}
                                   </p>
-                                  <p className="text-xs text-muted-foreground truncate">
-                                    {conversation.subject}
-                                  </p>
+                                  <div className="flex items-center justify-between gap-2">
+                                    <p className="text-xs text-muted-foreground truncate">
+                                      {typingIn[conversation.id] ? 'Typing...' : conversation.subject}
+                                    </p>
+                                    {!isActive && unreadCounts[conversation.id] > 0 && (
+                                      <Badge className="text-xs">{unreadCounts[conversation.id]}</Badge>
+                                    )}
+                                  </div>
                                 </div>
                               </div>
                             </div>
@@ -334,8 +434,15 @@ export function MessagesPage() {
                                     }`}
                                   >
                                     <p className="text-sm">{message.content}</p>
-                                    <p className={`text-xs mt-1 ${isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground'}`}>
+                                    <p className={`text-xs mt-1 flex items-center gap-1 ${isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground'}`}>
                                       {new Date(message.created_at).toLocaleTimeString()}
+                                      {isOwn && (
+                                        <Icon
+                                          icon={message.status === 'read' ? 'solar:check-read-linear' : 'solar:check-linear'}
+                                          className="size-3.5"
+                                          aria-label={message.status === 'read' ? 'Read' : 'Sent'}
+                                        />
+                                      )}
                                     </p>
                                   </div>
                                 </div>
@@ -347,6 +454,14 @@ export function MessagesPage() {
                             <p className="text-muted-foreground">No messages yet. Start the conversation!</p>
                           </div>
                         )}
+                        {typingIn[activeConversation.id] && (
+                          <p className="text-xs text-muted-foreground mt-4">
+                            {(() => {
+                              const otherParticipant = getOtherParticipant(activeConversation);
+                              return otherParticipant ? `${otherParticipant.first_name} is typing...` : 'Typing...';
+                            })()}
+                          </p>
+                        )}
                       </ScrollArea>
 
                       {/* Message Input */}
@@ -355,7 +470,7 @@ export function MessagesPage() {
                           <Input
                             placeholder="Type your message..."
                             value={newMessage}
-                            onChange={(e) => setNewMessage(e.target.value)}
+                            onChange={(e) => handleMessageChange(e.target.value)}
                             onKeyPress={(e) => {
                               if (e.key === 'Enter' && !e.shiftKey) {
                                 e.preventDefault();
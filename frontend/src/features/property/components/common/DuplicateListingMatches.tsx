@@ -0,0 +1,62 @@
+import React from 'react';
+import { Badge } from '@/shared/components/ui/badge';
+import { formatPrice } from '../../utils/propertyHelpers';
+import { LISTING_STATE_CONFIG } from '../../constants/propertyTypes';
+import { DuplicateListingMatch } from '../../types';
+
+export interface DuplicateListingMatchesProps {
+  matches: DuplicateListingMatch[];
+  className?: string;
+}
+
+// Shown beside each match so owners can see why it was considered a duplicate
+const SIGNAL_LABELS: Array<[keyof Omit<DuplicateListingMatch['signals'], 'distanceMeters'>, string]> = [
+  ['address', 'Address'],
+  ['distance', 'Location'],
+  ['price', 'Price'],
+  ['area', 'Area'],
+  ['image', 'Photos'],
+];
+
+export const DuplicateListingMatches: React.FC<DuplicateListingMatchesProps> = ({
+  matches,
+  className = ''
+}) => {
+  if (matches.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className={`space-y-2 ${className}`}>
+      {matches.map(match => (
+        <li key={match.propertyId} className="rounded-md border border-gray-200 bg-white p-3 text-gray-900">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <a
+              href={`/property/${match.propertyId}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-medium hover:underline"
+            >
+              {match.title}
+            </a>
+            <div className="flex items-center gap-2">
+              <Badge className={LISTING_STATE_CONFIG[match.listingState].badgeClass}>
+                {LISTING_STATE_CONFIG[match.listingState].label}
+              </Badge>
+              <Badge variant="outline">{Math.round(match.score * 100)}% match</Badge>
+            </div>
+          </div>
+          <p className="text-sm text-gray-600">
+            {match.address}, {match.city} · {formatPrice(Number(match.price))}
+          </p>
+          <p className="mt-1 text-xs text-gray-500">
+            {SIGNAL_LABELS
+              .filter(([signal]) => match.signals[signal] !== null)
+              .map(([signal, label]) => `${label} ${Math.round((match.signals[signal] as number) * 100)}%`)
+              .join(' · ')}
+          </p>
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -2,13 +2,14 @@ import React from 'react';
 import { Badge } from '@/shared/components/ui/badge';
 import { Button } from '@/shared/components/ui/button';
 import { Icon } from '@iconify/react';
-import { PropertyFilters } from '../../types';
+import { PropertyFilters, PropertySearchFacets, FacetBucket } from '../../types';
 
 export interface FilterBadge {
   key: string;
   label: string;
   value: any;
   removable?: boolean;
+  count?: number; // Results for this option with the other filters applied
 }
 
 export interface FilterBadgesProps {
@@ -18,15 +19,20 @@ export interface FilterBadgesProps {
   className?: string;
   maxVisible?: number;
   showClearAll?: boolean;
+  facets?: PropertySearchFacets | null;
 }
 
+const findFacetCount = <T,>(buckets: FacetBucket<T>[] | undefined, value: T): number | undefined =>
+  buckets?.find(bucket => bucket.value === value)?.count;
+
 export function FilterBadges({
   filters,
   onFilterRemove,
   onClearAll,
   className = '',
   maxVisible = 10,
-  showClearAll = true
+  showClearAll = true,
+  facets
 }: FilterBadgesProps) {
   const badges = React.useMemo(() => {
     const result: FilterBadge[] = [];
@@ -37,7 +43,8 @@ export function FilterBadges({
         key: 'location',
         label: `Location: ${filters.location}`,
         value: filters.location,
-        removable: true
+        removable: true,
+        count: findFacetCount(facets?.city, filters.location)
       });
     }
 
@@ -47,14 +54,16 @@ export function FilterBadges({
         key: 'propertyType',
         label: `Type: ${filters.propertyType.join(', ')}`,
         value: filters.propertyType,
-        removable: true
+        removable: true,
+        count: filters.propertyType.length === 1 ? findFacetCount(facets?.property_type, filters.propertyType[0]) : undefined
       });
     } else if (filters.propertyType && !Array.isArray(filters.propertyType)) {
       result.push({
         key: 'propertyType',
         label: `Type: ${filters.propertyType}`,
         value: filters.propertyType,
-        removable: true
+        removable: true,
+        count: findFacetCount(facets?.property_type, filters.propertyType)
       });
     }
 
@@ -64,7 +73,19 @@ export function FilterBadges({
         key: 'listingType',
         label: `For ${filters.listingType}`,
         value: filters.listingType,
-        removable: true
+        removable: true,
+        count: findFacetCount(facets?.listing_type, filters.listingType)
+      });
+    }
+
+    // Status filter
+    if (filters.status) {
+      result.push({
+        key: 'status',
+        label: `Status: ${filters.status.replace(/_/g, ' ')}`,
+        value: filters.status,
+        removable: true,
+        count: findFacetCount(facets?.status, filters.status)
       });
     }
 
@@ -79,11 +100,16 @@ export function FilterBadges({
         priceLabel += `Up to ₹${filters.maxPrice.toLocaleString()}`;
       }
       
+      const priceBand = facets?.price_bands.find(band =>
+        (band.min || undefined) === filters.minPrice && band.max === filters.maxPrice
+      );
+
       result.push({
         key: 'price',
         label: priceLabel,
         value: 'price',
-        removable: true
+        removable: true,
+        count: priceBand?.count
       });
     }
 
@@ -112,7 +138,8 @@ export function FilterBadges({
         key: 'bedrooms',
         label: `${filters.bedrooms} BHK`,
         value: filters.bedrooms,
-        removable: true
+        removable: true,
+        count: findFacetCount(facets?.bedrooms, filters.bedrooms)
       });
     }
 
@@ -165,7 +192,7 @@ export function FilterBadges({
     }
 
     return result;
-  }, [filters]);
+  }, [filters, facets]);
 
   const visibleBadges = badges.slice(0, maxVisible);
   const hiddenCount = Math.max(0, badges.length - maxVisible);
@@ -192,6 +219,9 @@ export function FilterBadges({
           className="flex items-center gap-1 pr-1 max-w-xs"
         >
           <span className="truncate">{badge.label}</span>
+          {badge.count !== undefined && (
+            <span className="text-xs text-muted-foreground">({badge.count})</span>
+          )}
           {badge.removable && (
             <button
               onClick={() => handleRemove(badge)}
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { Button } from '@/shared/components/ui/button';
+import { Badge } from '@/shared/components/ui/badge';
+import { Input } from '@/shared/components/ui/input';
+import { Textarea } from '@/shared/components/ui/textarea';
+import { Alert, AlertDescription } from '@/shared/components/ui/alert';
+import { Loader2 } from 'lucide-react';
+import { useListingLifecycle } from '../../hooks/useProperty';
+import { LISTING_ACTION_CONFIG, LISTING_STATE_CONFIG } from '../../constants/propertyTypes';
+import { ListingAction, ListingLifecycle } from '../../types';
+
+export interface ListingLifecycleActionsProps {
+  propertyId: number;
+  onChange?: (lifecycle: ListingLifecycle) => void;
+  showHistory?: boolean;
+  className?: string;
+}
+
+// Actions that need extra input before they can be sent
+type PendingAction = Extract<ListingAction, 'schedule' | 'reject'> | null;
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' });
+
+export const ListingLifecycleActions: React.FC<ListingLifecycleActionsProps> = ({
+  propertyId,
+  onChange,
+  showHistory = false,
+  className = ''
+}) => {
+  const { lifecycle, isLoading, isTransitioning, error, transition } = useListingLifecycle(propertyId);
+  const [pendingAction, setPendingAction] = useState<PendingAction>(null);
+  const [publishAt, setPublishAt] = useState('');
+  const [reason, setReason] = useState('');
+
+  if (isLoading && !lifecycle) {
+    return <Loader2 className="h-4 w-4 animate-spin text-gray-400" />;
+  }
+
+  if (!lifecycle) {
+    return error ? <p className="text-sm text-red-600">{error}</p> : null;
+  }
+
+  const stateConfig = LISTING_STATE_CONFIG[lifecycle.state];
+
+  const runAction = async (action: ListingAction, options: { reason?: string; publishAt?: string } = {}) => {
+    const updated = await transition(action, options);
+    if (updated) {
+      setPendingAction(null);
+      setPublishAt('');
+      setReason('');
+      onChange?.(updated);
+    }
+  };
+
+  const handleActionClick = (action: ListingAction) => {
+    if (action === 'schedule' || action === 'reject') {
+      setPendingAction(action);
+      return;
+    }
+    runAction(action);
+  };
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="flex items-center gap-2">
+        <Badge className={stateConfig.badgeClass}>{stateConfig.label}</Badge>
+        <span className="text-sm text-gray-600">{stateConfig.description}</span>
+      </div>
+
+      {lifecycle.state === 'scheduled' && lifecycle.publishAt && (
+        <p className="text-sm text-gray-700">Goes live on {formatDateTime(lifecycle.publishAt)}</p>
+      )}
+
+      {lifecycle.state === 'rejected' && lifecycle.rejectionReason && (
+        <Alert variant="destructive">
+          <AlertDescription>
+            <span className="font-medium">Reason:</span> {lifecycle.rejectionReason}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {lifecycle.availableActions.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {lifecycle.availableActions.map(action => (
+            <Button
+              key={action}
+              type="button"
+              size="sm"
+              variant={LISTING_ACTION_CONFIG[action].variant}
+              disabled={isTransitioning}
+              onClick={() => handleActionClick(action)}
+            >
+              {LISTING_ACTION_CONFIG[action].label}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {pendingAction === 'schedule' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            type="datetime-local"
+            value={publishAt}
+            onChange={(e) => setPublishAt(e.target.value)}
+            className="w-auto"
+          />
+          <Button
+            type="button"
+            size="sm"
+            disabled={!publishAt || isTransitioning}
+            onClick={() => runAction('schedule', { publishAt: new Date(publishAt).toISOString() })}
+          >
+            Confirm Schedule
+          </Button>
+          <Button type="button" size="sm" variant="ghost" onClick={() => setPendingAction(null)}>
+            Cancel
+          </Button>
+        </div>
+      )}
+
+      {pendingAction === 'reject' && (
+        <div className="space-y-2">
+          <Textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Tell the owner what needs to change"
+            rows={2}
+          />
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              size="sm"
+              variant="destructive"
+              disabled={!reason.trim() || isTransitioning}
+              onClick={() => runAction('reject', { reason: reason.trim() })}
+            >
+              Confirm Rejection
+            </Button>
+            <Button type="button" size="sm" variant="ghost" onClick={() => setPendingAction(null)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {showHistory && lifecycle.transitions.length > 0 && (
+        <ul className="text-xs text-gray-500 space-y-1">
+          {lifecycle.transitions.slice(0, 5).map(entry => (
+            <li key={entry.id}>
+              {formatDateTime(entry.created_at)} · {LISTING_STATE_CONFIG[entry.to_state].label}
+              {entry.actor ? ` by ${entry.actor.first_name} ${entry.actor.last_name}` : entry.actor_role === 'system' ? ' automatically' : ''}
+              {entry.reason ? ` (${entry.reason})` : ''}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -6,7 +6,7 @@ import { PropertyCardSkeleton } from "@/shared/components/ui/loading-states";
 import { useNavigate } from "react-router-dom";
 import { Property, PropertyCardVariant } from "../../types";
 import { useFavorites } from "../../contexts/FavoritesContext";
-import { formatPrice, formatArea } from "../../utils/propertyHelpers";
+import { formatPrice, formatArea, formatDistance } from "../../utils/propertyHelpers";
 import { cn } from "@/shared/lib/utils";
 import { OptimizedImage } from "@/shared/components/ui/OptimizedImage";
 import { ImageUrls } from "@/shared/utils/imageUtils";
@@ -156,6 +156,9 @@ export function PropertyCard({
             <div className="flex items-center gap-1.5 text-sm text-muted-foreground">
               <Icon icon="solar:map-point-bold" className="size-4 text-primary/70" />
               <span className="line-clamp-1">{property.city}, {property.state}</span>
+              {property.distance_km !== undefined && property.distance_km !== null && (
+                <span className="shrink-0">· {formatDistance(Number(property.distance_km))}</span>
+              )}
             </div>
           </div>
           
@@ -333,6 +336,9 @@ export function PropertyCard({
                 <div className="flex items-center gap-2 text-sm text-muted-foreground mb-3">
                   <Icon icon="solar:map-point-bold" className="size-4 text-primary/70" />
                   <span>{property.city}, {property.state}</span>
+                  {property.distance_km !== undefined && property.distance_km !== null && (
+                    <span>· {formatDistance(Number(property.distance_km))}</span>
+                  )}
                 </div>
               </div>
               
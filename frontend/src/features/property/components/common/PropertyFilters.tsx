@@ -7,8 +7,8 @@ import { Label } from '@/shared/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
 import { Checkbox } from '@/shared/components/ui/checkbox';
 import { Badge } from '@/shared/components/ui/badge';
-import { PropertyFilters as PropertyFiltersType, PropertyType, ListingType } from '../../types';
-import { PROPERTY_TYPES, LISTING_TYPES } from '../../constants';
+import { PropertyFilters as PropertyFiltersType, PropertyType, ListingType, PropertyStatus, PropertySearchFacets, FacetBucket } from '../../types';
+import { PROPERTY_TYPES, LISTING_TYPES, PROPERTY_STATUSES } from '../../constants';
 import { AMENITIES_CONFIG } from '../../constants/amenities';
 
 export interface PropertyFiltersProps {
@@ -19,8 +19,17 @@ export interface PropertyFiltersProps {
     variant?: 'sidebar' | 'horizontal' | 'modal';
     showApplyButton?: boolean;
     className?: string;
+    facets?: PropertySearchFacets | null;
 }
 
+// Result count for a filter option, or undefined when facets aren't loaded
+const getFacetCount = <T,>(buckets: FacetBucket<T>[] | undefined, value: T): number | undefined => {
+    if (!buckets) return undefined;
+    return buckets.find(bucket => bucket.value === value)?.count ?? 0;
+};
+
+const withCount = (label: string, count?: number) => count === undefined ? label : `${label} (${count})`;
+
 // Move FilterSection outside to prevent recreation on every render
 const FilterSection = ({
     title,
@@ -67,7 +76,8 @@ export function PropertyFilters({
     onClearFilters,
     variant = 'sidebar',
     showApplyButton = true,
-    className = ""
+    className = "",
+    facets
 }: PropertyFiltersProps) {
     const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({
         basic: true,
@@ -92,6 +102,7 @@ export function PropertyFilters({
         let count = 0;
         if (filters.propertyType?.length) count++;
         if (filters.listingType) count++;
+        if (filters.status) count++;
         if (filters.minPrice || filters.maxPrice) count++;
         if (filters.minArea || filters.maxArea) count++;
         if (filters.bedrooms) count++;
@@ -126,7 +137,7 @@ export function PropertyFilters({
                                     <SelectItem value="all">Any Type</SelectItem>
                                     {PROPERTY_TYPES.map(type => (
                                         <SelectItem key={type.value} value={type.value}>
-                                            {type.label}
+                                            {withCount(type.label, getFacetCount(facets?.property_type, type.value))}
                                         </SelectItem>
                                     ))}
                                 </SelectContent>
@@ -147,7 +158,7 @@ export function PropertyFilters({
                                     <SelectItem value="all">Any</SelectItem>
                                     {LISTING_TYPES.map(type => (
                                         <SelectItem key={type.value} value={type.value}>
-                                            {type.label}
+                                            {withCount(type.label, getFacetCount(facets?.listing_type, type.value))}
                                         </SelectItem>
                                     ))}
                                 </SelectContent>
@@ -189,7 +200,7 @@ export function PropertyFilters({
                                     <SelectItem value="all">Any</SelectItem>
                                     {[1, 2, 3, 4, 5].map(num => (
                                         <SelectItem key={num} value={num.toString()}>
-                                            {num}+ BHK
+                                            {withCount(`${num}+ BHK`, getFacetCount(facets?.bedrooms, num))}
                                         </SelectItem>
                                     ))}
                                 </SelectContent>
@@ -258,7 +269,7 @@ export function PropertyFilters({
                                     <SelectItem value="all">Any Type</SelectItem>
                                     {PROPERTY_TYPES.map(type => (
                                         <SelectItem key={type.value} value={type.value}>
-                                            {type.label}
+                                            {withCount(type.label, getFacetCount(facets?.property_type, type.value))}
                                         </SelectItem>
                                     ))}
                                 </SelectContent>
@@ -279,7 +290,28 @@ export function PropertyFilters({
                                     <SelectItem value="all">Any</SelectItem>
                                     {LISTING_TYPES.map(type => (
                                         <SelectItem key={type.value} value={type.value}>
-                                            {type.label}
+                                            {withCount(type.label, getFacetCount(facets?.listing_type, type.value))}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+
+                        {/* Status */}
+                        <div>
+                            <Label className="text-sm font-medium mb-2 block">Status</Label>
+                            <Select
+                                value={filters.status || undefined}
+                                onValueChange={(value) => updateFilter('status', value === 'all' ? undefined : value as PropertyStatus)}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Any status" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="all">Any</SelectItem>
+                                    {PROPERTY_STATUSES.map(status => (
+                                        <SelectItem key={status.value} value={status.value}>
+                                            {withCount(status.label, getFacetCount(facets?.status, status.value))}
                                         </SelectItem>
                                     ))}
                                 </SelectContent>
@@ -317,6 +349,30 @@ export function PropertyFilters({
                                 />
                             </div>
                         </div>
+
+                        {/* Price bands with result counts */}
+                        {facets && facets.price_bands.length > 0 && (
+                            <div className="flex gap-2 flex-wrap">
+                                {facets.price_bands.map(band => {
+                                    const isActive = filters.minPrice === (band.min || undefined) && filters.maxPrice === band.max;
+                                    return (
+                                        <Button
+                                            key={band.key}
+                                            variant={isActive ? "default" : "outline"}
+                                            size="sm"
+                                            disabled={!isActive && band.count === 0}
+                                            onClick={() => onFiltersChange({
+                                                ...filters,
+                                                minPrice: isActive ? undefined : band.min || undefined,
+                                                maxPrice: isActive ? undefined : band.max
+                                            })}
+                                        >
+                                            {withCount(band.label, band.count)}
+                                        </Button>
+                                    );
+                                })}
+                            </div>
+                        )}
                     </div>
                 </FilterSection>
 
@@ -362,7 +418,7 @@ export function PropertyFilters({
                                         size="sm"
                                         onClick={() => updateFilter('bedrooms', filters.bedrooms === num ? undefined : num)}
                                     >
-                                        {num}+
+                                        {withCount(`${num}+`, getFacetCount(facets?.bedrooms, num))}
                                     </Button>
                                 ))}
                             </div>
@@ -395,6 +451,21 @@ export function PropertyFilters({
                     expandedSections={expandedSections}
                     toggleSection={toggleSection}
                 >
+                    {/* Whether listings need every selected amenity or just one of them */}
+                    <div className="flex items-center gap-2 mb-3">
+                        <Label className="text-xs text-muted-foreground">Match</Label>
+                        {(['all', 'any'] as const).map(mode => (
+                            <Button
+                                key={mode}
+                                variant={(filters.amenities_match || 'all') === mode ? "default" : "outline"}
+                                size="sm"
+                                className="h-7 px-3 text-xs"
+                                onClick={() => updateFilter('amenities_match', mode === 'all' ? undefined : mode)}
+                            >
+                                {mode === 'all' ? 'All selected' : 'Any selected'}
+                            </Button>
+                        ))}
+                    </div>
                     <div className="space-y-2 max-h-48 overflow-y-auto">
                         {Object.entries(AMENITIES_CONFIG).slice(0, 10).map(([amenityKey, amenityConfig]) => (
                             <div key={amenityKey} className="flex items-center space-x-2">
@@ -411,7 +482,7 @@ export function PropertyFilters({
                                     }}
                                 />
                                 <Label htmlFor={`amenity-${amenityKey}`} className="text-sm">
-                                    {amenityConfig.label}
+                                    {withCount(amenityConfig.label, getFacetCount(facets?.amenities, amenityKey))}
                                 </Label>
                             </div>
                         ))}
@@ -435,6 +506,22 @@ export function PropertyFilters({
                                 onChange={(e) => updateFilter('location', e.target.value)}
                             />
                         </div>
+
+                        {/* Cities with result counts */}
+                        {facets && facets.city.length > 0 && (
+                            <div className="flex gap-2 flex-wrap">
+                                {facets.city.slice(0, 8).map(city => (
+                                    <Badge
+                                        key={city.value}
+                                        variant={filters.location === city.value ? "default" : "outline"}
+                                        className="cursor-pointer"
+                                        onClick={() => updateFilter('location', filters.location === city.value ? undefined : city.value)}
+                                    >
+                                        {withCount(city.value, city.count)}
+                                    </Badge>
+                                ))}
+                            </div>
+                        )}
                     </div>
                 </FilterSection>
 
@@ -4,10 +4,14 @@ export { PropertyGallery } from './PropertyGallery';
 export { PropertyImageUpload } from './PropertyImageUpload';
 export { PropertyStats } from './PropertyStats';
 export { PropertyFilters } from './PropertyFilters';
+export { ListingLifecycleActions } from './ListingLifecycleActions';
+export { DuplicateListingMatches } from './DuplicateListingMatches';
 
 // Component types
 export type { PropertyCardProps } from './PropertyCard';
 export type { PropertyGalleryProps } from './PropertyGallery';
 export type { PropertyImageUploadProps } from './PropertyImageUpload';
 export type { PropertyStatsProps } from './PropertyStats';
-export type { PropertyFiltersProps } from './PropertyFilters';
\ No newline at end of file
+export type { PropertyFiltersProps } from './PropertyFilters';
+export type { ListingLifecycleActionsProps } from './ListingLifecycleActions';
+export type { DuplicateListingMatchesProps } from './DuplicateListingMatches';
\ No newline at end of file
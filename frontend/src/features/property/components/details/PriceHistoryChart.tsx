@@ -0,0 +1,177 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Badge } from '@/shared/components/ui/badge';
+import { TrendingDown, TrendingUp } from 'lucide-react';
+import { usePropertyPriceHistory } from '../../hooks/useProperty';
+import { PriceHistoryEntry } from '../../types';
+import { formatIndianNumber as formatPrice, formatDate } from '../../utils/propertyFormatters';
+
+export interface PriceHistoryChartProps {
+  propertyId: number;
+  className?: string;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 72 };
+
+interface ChartPoint {
+  x: number;
+  y: number;
+  entry: PriceHistoryEntry;
+}
+
+/**
+ * Step chart: a price holds until the next change, then runs on to today
+ */
+const buildChart = (history: PriceHistoryEntry[]) => {
+  const times = history.map(entry => new Date(entry.changedAt).getTime());
+  const now = Date.now();
+  const minTime = times[0];
+  const maxTime = Math.max(now, times[times.length - 1]);
+  const prices = history.map(entry => entry.price);
+  const minPrice = Math.min(...prices);
+  const maxPrice = Math.max(...prices);
+  // Keep a flat history off the chart edges
+  const priceRange = maxPrice - minPrice || maxPrice * 0.1 || 1;
+  const low = minPrice - priceRange * 0.1;
+  const high = maxPrice + priceRange * 0.1;
+
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const toX = (time: number) => PADDING.left + (maxTime === minTime ? 0 : ((time - minTime) / (maxTime - minTime)) * plotWidth);
+  const toY = (price: number) => PADDING.top + (1 - (price - low) / (high - low)) * plotHeight;
+
+  const points: ChartPoint[] = history.map((entry, index) => ({
+    x: toX(times[index]),
+    y: toY(entry.price),
+    entry
+  }));
+
+  const path = points
+    .map((point, index) => {
+      if (index === 0) return `M ${point.x} ${point.y}`;
+      return `H ${point.x} V ${point.y}`;
+    })
+    .join(' ') + ` H ${toX(maxTime)}`;
+
+  return {
+    points,
+    path,
+    yTicks: [maxPrice, minPrice].map(price => ({ price, y: toY(price) })),
+    xLabels: [
+      { label: formatDate(new Date(minTime).toISOString()), x: toX(minTime), anchor: 'start' as const },
+      { label: 'Today', x: toX(maxTime), anchor: 'end' as const }
+    ]
+  };
+};
+
+export const PriceHistoryChart: React.FC<PriceHistoryChartProps> = ({
+  propertyId,
+  className = ''
+}) => {
+  const { priceHistory, isLoading, error } = usePropertyPriceHistory(propertyId);
+
+  const chart = useMemo(
+    () => (priceHistory && priceHistory.history.length > 0 ? buildChart(priceHistory.history) : null),
+    [priceHistory]
+  );
+
+  if (isLoading || error || !priceHistory || !chart) {
+    return null;
+  }
+
+  const changes = priceHistory.history.filter(entry => entry.previousPrice !== null);
+  const totalChange = priceHistory.currentPrice - priceHistory.initialPrice;
+  const totalChangePercent = priceHistory.initialPrice > 0
+    ? Math.round((totalChange / priceHistory.initialPrice) * 1000) / 10
+    : 0;
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>Price History</span>
+          {totalChange !== 0 && (
+            <Badge
+              variant="outline"
+              className={totalChange < 0 ? 'text-green-700 border-green-300' : 'text-red-700 border-red-300'}
+            >
+              {totalChange < 0 ? <TrendingDown className="h-3 w-3 mr-1" /> : <TrendingUp className="h-3 w-3 mr-1" />}
+              {totalChange > 0 ? '+' : ''}{totalChangePercent}% since listed
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {changes.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            No price changes since this property was listed at {formatPrice(priceHistory.initialPrice)}.
+          </p>
+        ) : (
+          <>
+            <svg
+              viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+              className="w-full h-auto"
+              role="img"
+              aria-label="Price trend chart"
+            >
+              {chart.yTicks.map(tick => (
+                <g key={tick.price}>
+                  <line
+                    x1={PADDING.left}
+                    x2={CHART_WIDTH - PADDING.right}
+                    y1={tick.y}
+                    y2={tick.y}
+                    className="stroke-gray-200"
+                    strokeDasharray="4 4"
+                  />
+                  <text x={PADDING.left - 8} y={tick.y + 4} textAnchor="end" className="fill-gray-500 text-xs">
+                    {formatPrice(tick.price)}
+                  </text>
+                </g>
+              ))}
+
+              <path d={chart.path} fill="none" className="stroke-blue-600" strokeWidth={2} />
+
+              {chart.points.map(point => (
+                <circle key={point.entry.changedAt} cx={point.x} cy={point.y} r={4} className="fill-blue-600">
+                  <title>{`${formatDate(point.entry.changedAt)}: ${formatPrice(point.entry.price)}`}</title>
+                </circle>
+              ))}
+
+              {chart.xLabels.map(label => (
+                <text
+                  key={label.label}
+                  x={label.x}
+                  y={CHART_HEIGHT - 8}
+                  textAnchor={label.anchor}
+                  className="fill-gray-500 text-xs"
+                >
+                  {label.label}
+                </text>
+              ))}
+            </svg>
+
+            <ul className="divide-y text-sm">
+              {[...changes].reverse().map(entry => (
+                <li key={entry.changedAt} className="flex items-center justify-between py-2">
+                  <span className="text-gray-600">{formatDate(entry.changedAt)}</span>
+                  <span className="flex items-center gap-3">
+                    <span className="text-gray-400 line-through">{formatPrice(entry.previousPrice!)}</span>
+                    <span className="font-medium">{formatPrice(entry.price)}</span>
+                    {entry.changePercent !== null && (
+                      <span className={entry.changePercent < 0 ? 'text-green-700' : 'text-red-700'}>
+                        {entry.changePercent > 0 ? '+' : ''}{entry.changePercent}%
+                      </span>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
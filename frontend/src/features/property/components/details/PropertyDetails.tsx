@@ -3,6 +3,7 @@ import { Property } from '../../types';
 import { PropertyOverview } from './PropertyOverview.tsx';
 import { PropertyFeatures } from './PropertyFeatures.tsx';
 import { PropertyContact } from './PropertyContact.tsx';
+import { PriceHistoryChart } from './PriceHistoryChart';
 import { PropertyGallery } from '../common/PropertyGallery';
 import { Button } from '@/shared/components/ui/button';
 import { Card, CardContent } from '@/shared/components/ui/card';
@@ -243,6 +244,9 @@ export const PropertyDetails: React.FC<PropertyDetailsProps> = ({
         </Card>
       )}
 
+      {/* Price Trend */}
+      <PriceHistoryChart propertyId={property.id} />
+
       {/* Property Details Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
         <TabsList className="grid w-full grid-cols-2">
@@ -2,8 +2,10 @@ export { PropertyDetails } from './PropertyDetails';
 export { PropertyOverview } from './PropertyOverview';
 export { PropertyFeatures } from './PropertyFeatures';
 export { PropertyContact } from './PropertyContact';
+export { PriceHistoryChart } from './PriceHistoryChart';
 
 export type { PropertyDetailsProps } from './PropertyDetails';
 export type { PropertyOverviewProps } from './PropertyOverview';
 export type { PropertyFeaturesProps } from './PropertyFeatures';
-export type { PropertyContactProps } from './PropertyContact';
\ No newline at end of file
+export type { PropertyContactProps } from './PropertyContact';
+export type { PriceHistoryChartProps } from './PriceHistoryChart';
\ No newline at end of file
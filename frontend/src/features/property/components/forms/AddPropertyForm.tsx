@@ -9,9 +9,12 @@ import { Alert, AlertDescription } from '@/shared/components/ui/alert';
 import { Loader2, Plus, X, MapPin, Upload } from 'lucide-react';
 import { usePropertyForm } from '../../hooks/usePropertyForm';
 import { PropertyImageUpload } from '../common/PropertyImageUpload';
+import { DuplicateListingMatches } from '../common/DuplicateListingMatches';
 import { PROPERTY_TYPE_CONFIG, LISTING_TYPE_CONFIG } from '../../constants/propertyTypes';
 import { AMENITY_CATEGORIES } from '../../constants/amenities';
-import { Property } from '../../types';
+import { PropertyErrorType } from '../../services/propertyService';
+import type { PropertyError } from '../../services/propertyService';
+import { DuplicateListingMatch, Property } from '../../types';
 
 export interface AddPropertyFormProps {
   onSuccess?: (property: Property) => void;
@@ -26,6 +29,19 @@ export const AddPropertyForm: React.FC<AddPropertyFormProps> = ({
 }) => {
   const [showAmenitySelector, setShowAmenitySelector] = useState(false);
   const [selectedAmenityCategory, setSelectedAmenityCategory] = useState<string>('basic');
+  // Which button started the current submission
+  const [submitMode, setSubmitMode] = useState<'review' | 'draft'>('review');
+  // Existing listings that blocked creation, or that the new listing was flagged against
+  const [blockingDuplicates, setBlockingDuplicates] = useState<DuplicateListingMatch[]>([]);
+  const [flaggedProperty, setFlaggedProperty] = useState<Property | null>(null);
+
+  const handleCreated = (property: Property) => {
+    if (property.duplicate_warnings?.length) {
+      setFlaggedProperty(property);
+      return;
+    }
+    onSuccess?.(property);
+  };
 
   const {
     formData,
@@ -41,12 +57,14 @@ export const AddPropertyForm: React.FC<AddPropertyFormProps> = ({
     submitForm
   } = usePropertyForm({
     mode: 'create',
-    onSuccess,
+    onSuccess: handleCreated,
     onError: (error) => console.error('Form error:', error)
   });
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent, submitForReview: boolean = true) => {
     e.preventDefault();
+    setSubmitMode(submitForReview ? 'review' : 'draft');
+    setBlockingDuplicates([]);
 
     // Force validation and show errors
     const isFormValid = validateForm();
@@ -56,9 +74,12 @@ export const AddPropertyForm: React.FC<AddPropertyFormProps> = ({
     }
 
     try {
-      await submitForm();
+      await submitForm({ submitForReview });
     } catch (error) {
       console.error('Submit error:', error);
+      if ((error as PropertyError)?.type === PropertyErrorType.DUPLICATE_LISTING) {
+        setBlockingDuplicates((error as PropertyError).details || []);
+      }
       // The error will be handled by the usePropertyForm hook
     }
   };
@@ -417,22 +438,70 @@ export const AddPropertyForm: React.FC<AddPropertyFormProps> = ({
             Reset
           </Button>
 
+          <Button
+            type="button"
+            variant="outline"
+            onClick={(e) => handleSubmit(e, false)}
+            disabled={!isValid || isSubmitting || !!flaggedProperty}
+          >
+            {isSubmitting && submitMode === 'draft' ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                Saving...
+              </>
+            ) : (
+              'Save as Draft'
+            )}
+          </Button>
+
           <Button
             type="submit"
-            disabled={!isValid || isSubmitting}
+            disabled={!isValid || isSubmitting || !!flaggedProperty}
             className="min-w-[120px]"
           >
-            {isSubmitting ? (
+            {isSubmitting && submitMode === 'review' ? (
               <>
                 <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                Creating...
+                Submitting...
               </>
             ) : (
-              'Create Property'
+              'Submit for Review'
             )}
           </Button>
         </div>
 
+        <p className="text-sm text-gray-500 text-right">
+          Listings go live once our team approves them. Drafts stay private until you submit them.
+        </p>
+
+        {blockingDuplicates.length > 0 && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              <p className="font-medium mb-2">
+                This listing looks like a duplicate of an existing one and was not created.
+                Update the existing listing instead, or change the details if this is a different property.
+              </p>
+              <DuplicateListingMatches matches={blockingDuplicates} />
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {flaggedProperty && (
+          <Alert>
+            <AlertDescription>
+              <p className="font-medium mb-2">
+                Your listing was saved, but it is similar to the listings below and has been flagged for our team to review.
+              </p>
+              <DuplicateListingMatches matches={flaggedProperty.duplicate_warnings || []} />
+              <div className="mt-3 flex justify-end">
+                <Button type="button" size="sm" onClick={() => onSuccess?.(flaggedProperty)}>
+                  Continue
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Form Status */}
         {Object.keys(errors).length > 0 && (
           <Alert variant="destructive">
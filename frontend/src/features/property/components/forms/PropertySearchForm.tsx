@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { Button } from '@/shared/components/ui/button';
 import { Input } from '@/shared/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
@@ -6,9 +6,11 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui
 import { Badge } from '@/shared/components/ui/badge';
 // import { Slider } from '@/shared/components/ui/slider';
 import { Search, MapPin, Filter, X, RotateCcw } from 'lucide-react';
-import { PropertyFilters, PropertyType, ListingType } from '../../types';
+import { PropertyFilters, PropertyType, ListingType, PropertySuggestion } from '../../types';
 import { PROPERTY_TYPE_CONFIG, LISTING_TYPE_CONFIG } from '../../constants/propertyTypes';
 import { AMENITY_CATEGORIES } from '../../constants/amenities';
+import propertySearchService from '../../services/propertySearchService';
+import useDebounce from '@/shared/hooks/useDebounce';
 
 export interface PropertySearchFormProps {
   initialFilters?: Partial<PropertyFilters>;
@@ -49,6 +51,9 @@ export const PropertySearchForm: React.FC<PropertySearchFormProps> = ({
     ...initialFilters
   });
   const [showAdvanced, setShowAdvanced] = useState(showAdvancedFilters);
+  const [suggestions, setSuggestions] = useState<PropertySuggestion[]>([]);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const debouncedQuery = useDebounce(query, 250);
   const [priceRange, setPriceRange] = useState<[number, number]>([
     filters.minPrice || 0,
     filters.maxPrice || 10000000
@@ -64,6 +69,45 @@ export const PropertySearchForm: React.FC<PropertySearchFormProps> = ({
     onFiltersChange?.(updatedFilters);
   }, [filters, onFiltersChange]);
 
+  // Autocomplete backed by the full-text search suggestions endpoint
+  useEffect(() => {
+    let cancelled = false;
+
+    if (debouncedQuery.trim().length < 2) {
+      setSuggestions([]);
+      return;
+    }
+
+    propertySearchService.getPropertySuggestions(debouncedQuery.trim()).then((results) => {
+      if (!cancelled) {
+        setSuggestions(results);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedQuery]);
+
+  const selectSuggestion = (suggestion: PropertySuggestion) => {
+    setShowSuggestions(false);
+    setSuggestions([]);
+
+    if (suggestion.type === 'location') {
+      setQuery('');
+      updateFilters({ location: suggestion.text });
+      return;
+    }
+
+    if (suggestion.type === 'property_type') {
+      setQuery('');
+      updateFilters({ propertyType: [suggestion.text as PropertyType] });
+      return;
+    }
+
+    setQuery(suggestion.text);
+  };
+
   const handleSearch = (e?: React.FormEvent) => {
     e?.preventDefault();
     
@@ -156,10 +200,42 @@ export const PropertySearchForm: React.FC<PropertySearchFormProps> = ({
               <MapPin className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
               <Input
                 value={query}
-                onChange={(e) => setQuery(e.target.value)}
+                onChange={(e) => {
+                  setQuery(e.target.value);
+                  setShowSuggestions(true);
+                }}
+                onFocus={() => setShowSuggestions(true)}
+                onBlur={() => setTimeout(() => setShowSuggestions(false), 150)}
                 placeholder="Search by location, property name, or keywords..."
                 className="pl-10"
+                autoComplete="off"
               />
+              {showSuggestions && suggestions.length > 0 && (
+                <ul className="absolute z-20 mt-1 w-full rounded-md border bg-background shadow-lg">
+                  {suggestions.map((suggestion) => (
+                    <li key={suggestion.id}>
+                      <button
+                        type="button"
+                        onMouseDown={(e) => e.preventDefault()}
+                        onClick={() => selectSuggestion(suggestion)}
+                        className="flex w-full items-center justify-between gap-2 px-3 py-2 text-left text-sm hover:bg-muted [&_mark]:bg-transparent [&_mark]:font-semibold [&_mark]:text-primary"
+                      >
+                        {/* highlight is HTML-escaped by the API; only <mark> tags are added */}
+                        {suggestion.highlight ? (
+                          <span className="line-clamp-1" dangerouslySetInnerHTML={{ __html: suggestion.highlight }} />
+                        ) : (
+                          <span className="line-clamp-1">{suggestion.text}</span>
+                        )}
+                        <span className="shrink-0 text-xs text-muted-foreground">
+                          {suggestion.type === 'location' && suggestion.count !== undefined
+                            ? `${suggestion.count} listings`
+                            : suggestion.type.replace('_', ' ')}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
             <Button type="submit" disabled={isLoading} className="px-6">
               {isLoading ? 'Searching...' : 'Search'}
@@ -3,6 +3,8 @@ import { Property } from "../../types";
 import { formatPrice, formatArea } from "../../utils/propertyHelpers";
 import { useFavorites } from "../../contexts/FavoritesContext";
 import { useNavigate } from "react-router-dom";
+import { useEffect, useRef } from "react";
+import { Icon } from "@iconify/react";
 
 interface EnhancedPropertyListProps {
   properties: Property[];
@@ -12,6 +14,10 @@ interface EnhancedPropertyListProps {
   showStats?: boolean;
   onPropertyClick?: (property: Property) => void;
   className?: string;
+  // Infinite scroll: onLoadMore is called when the end of the list scrolls into view
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
 export function EnhancedPropertyList({
@@ -22,9 +28,27 @@ export function EnhancedPropertyList({
   showStats: _showStats = false,
   onPropertyClick,
   className,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
 }: EnhancedPropertyListProps) {
   const navigate = useNavigate();
   const { toggleFavorite, isFavorite } = useFavorites();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !onLoadMore || !hasMore || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting) && !loadingMore) {
+        onLoadMore();
+      }
+    }, { rootMargin: '200px 0px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [onLoadMore, hasMore, loadingMore]);
 
   const handlePropertyClick = (property: Property) => {
     if (onPropertyClick) {
@@ -142,22 +166,31 @@ export function EnhancedPropertyList({
   };
 
   return (
-    <EnhancedList
-      items={listItems}
-      loading={loading}
-      variant={variant}
-      showImages={true}
-      showActions={true}
-      showMetadata={true}
-      emptyState={emptyState}
-      onItemClick={(item) => {
-        const property = properties.find(p => p.id === item.id);
-        if (property) {
-          handlePropertyClick(property);
-        }
-      }}
-      className={className}
-    />
+    <>
+      <EnhancedList
+        items={listItems}
+        loading={loading && properties.length === 0}
+        variant={variant}
+        showImages={true}
+        showActions={true}
+        showMetadata={true}
+        emptyState={emptyState}
+        onItemClick={(item) => {
+          const property = properties.find(p => p.id === item.id);
+          if (property) {
+            handlePropertyClick(property);
+          }
+        }}
+        className={className}
+      />
+      {onLoadMore && hasMore && (
+        <div ref={sentinelRef} className="flex justify-center py-6">
+          {loadingMore && (
+            <Icon icon="solar:refresh-bold" className="size-6 animate-spin text-muted-foreground" />
+          )}
+        </div>
+      )}
+    </>
   );
 }
 
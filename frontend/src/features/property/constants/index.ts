@@ -23,6 +23,8 @@ export {
 export {
   PROPERTY_TYPE_CONFIG,
   LISTING_TYPE_CONFIG,
+  LISTING_STATE_CONFIG,
+  LISTING_ACTION_CONFIG,
   AREA_UNIT_CONFIG,
   PROPERTY_IMAGE_TYPE_CONFIG,
   PROPERTY_CATEGORIES,
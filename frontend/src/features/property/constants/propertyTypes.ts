@@ -1,4 +1,4 @@
-import { PropertyType, ListingType, PropertyImageType, AreaUnit } from '../types';
+import { PropertyType, ListingType, PropertyImageType, AreaUnit, ListingState, ListingAction } from '../types';
 
 // Property type configurations with detailed information
 export const PROPERTY_TYPE_CONFIG: Record<PropertyType, {
@@ -84,6 +84,70 @@ export const LISTING_TYPE_CONFIG: Record<ListingType, {
 };
 
 // Area unit configurations
+// Listing workflow states, mirroring the backend state machine
+export const LISTING_STATE_CONFIG: Record<ListingState, {
+  label: string;
+  description: string;
+  badgeClass: string;
+}> = {
+  draft: {
+    label: 'Draft',
+    description: 'Only visible to you. Submit it for review when it is ready.',
+    badgeClass: 'bg-gray-100 text-gray-800'
+  },
+  submitted: {
+    label: 'Submitted',
+    description: 'Waiting for review by our team.',
+    badgeClass: 'bg-blue-100 text-blue-800'
+  },
+  under_review: {
+    label: 'Under Review',
+    description: 'Our team is reviewing this listing.',
+    badgeClass: 'bg-indigo-100 text-indigo-800'
+  },
+  approved: {
+    label: 'Approved',
+    description: 'Approved. Publish it now or schedule a date.',
+    badgeClass: 'bg-teal-100 text-teal-800'
+  },
+  rejected: {
+    label: 'Rejected',
+    description: 'Changes are needed before this listing can be published.',
+    badgeClass: 'bg-red-100 text-red-800'
+  },
+  scheduled: {
+    label: 'Scheduled',
+    description: 'Will be published automatically at the scheduled time.',
+    badgeClass: 'bg-amber-100 text-amber-800'
+  },
+  published: {
+    label: 'Published',
+    description: 'Live and visible to buyers.',
+    badgeClass: 'bg-green-100 text-green-800'
+  },
+  archived: {
+    label: 'Archived',
+    description: 'Hidden from buyers. Restore it to edit and resubmit.',
+    badgeClass: 'bg-gray-200 text-gray-700'
+  }
+};
+
+export const LISTING_ACTION_CONFIG: Record<ListingAction, {
+  label: string;
+  variant: 'default' | 'outline' | 'destructive';
+}> = {
+  submit: { label: 'Submit for Review', variant: 'default' },
+  withdraw: { label: 'Withdraw', variant: 'outline' },
+  start_review: { label: 'Start Review', variant: 'default' },
+  approve: { label: 'Approve', variant: 'default' },
+  reject: { label: 'Reject', variant: 'destructive' },
+  publish: { label: 'Publish Now', variant: 'default' },
+  schedule: { label: 'Schedule', variant: 'outline' },
+  unschedule: { label: 'Cancel Schedule', variant: 'outline' },
+  archive: { label: 'Archive', variant: 'outline' },
+  restore: { label: 'Restore to Draft', variant: 'outline' }
+};
+
 export const AREA_UNIT_CONFIG: Record<AreaUnit, {
   label: string;
   shortLabel: string;
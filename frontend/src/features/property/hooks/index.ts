@@ -3,20 +3,26 @@ export {
   useProperty,
   useCreateProperty,
   useUserProperties,
+  usePropertyPriceHistory,
+  useListingLifecycle,
   type UsePropertyReturn,
   type UseCreatePropertyReturn,
   type UseUserPropertiesReturn,
+  type UsePropertyPriceHistoryReturn,
+  type UseListingLifecycleReturn,
   type UsePropertyOptions
 } from './useProperty';
 
 export {
   usePropertySearch,
   usePropertySuggestions,
+  usePropertyFacets,
   useSavedSearches,
   useSearchHistory,
   type UsePropertySearchReturn,
   type UsePropertySearchOptions,
   type UsePropertySuggestionsReturn,
+  type UsePropertyFacetsReturn,
   type UseSavedSearchesReturn,
   type UseSearchHistoryReturn
 } from './usePropertySearch';
@@ -47,4 +53,9 @@ export {
   type UsePropertyFiltersOptions,
   type FilterPreset,
   type UseFilterPresetsReturn
-} from './usePropertyFilters';
\ No newline at end of file
+} from './usePropertyFilters';
+
+export {
+  useInfiniteProperties,
+  type UseInfinitePropertiesReturn
+} from './useInfiniteProperties';
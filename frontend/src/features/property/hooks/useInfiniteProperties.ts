@@ -0,0 +1,91 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { Property, PropertyFilters } from '../types';
+import { propertySearchService } from '../services';
+
+export interface UseInfinitePropertiesReturn {
+  properties: Property[];
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  error: string | null;
+  hasMore: boolean;
+  loadMore: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Cursor-paginated property list for infinite scroll. Each page continues from the previous
+ * page's cursor, so listings added or removed while scrolling don't cause skipped or repeated rows.
+ */
+export const useInfiniteProperties = (filters: PropertyFilters = {}, pageSize: number = 20): UseInfinitePropertiesReturn => {
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+
+  const filtersKey = JSON.stringify(filters);
+  // Ignore responses for filters that have since changed
+  const requestIdRef = useRef(0);
+
+  const refresh = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const page = await propertySearchService.getPropertiesPage(filters, undefined, pageSize);
+      if (requestId !== requestIdRef.current) return;
+
+      setProperties(page.properties);
+      setNextCursor(page.nextCursor);
+      setHasMore(page.hasMore);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to load properties');
+      setProperties([]);
+      setHasMore(false);
+    } finally {
+      if (requestId === requestIdRef.current) setIsLoading(false);
+    }
+    // filtersKey tracks filter changes without refetching on every new object
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filtersKey, pageSize]);
+
+  const loadMore = useCallback(async () => {
+    if (!hasMore || !nextCursor || isLoading || isLoadingMore) return;
+
+    const requestId = requestIdRef.current;
+    setIsLoadingMore(true);
+    setError(null);
+
+    try {
+      const page = await propertySearchService.getPropertiesPage(filters, nextCursor, pageSize);
+      if (requestId !== requestIdRef.current) return;
+
+      setProperties(prev => [...prev, ...page.properties]);
+      setNextCursor(page.nextCursor);
+      setHasMore(page.hasMore);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to load more properties');
+    } finally {
+      setIsLoadingMore(false);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filtersKey, pageSize, hasMore, nextCursor, isLoading, isLoadingMore]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    properties,
+    isLoading,
+    isLoadingMore,
+    error,
+    hasMore,
+    loadMore,
+    refresh
+  };
+};
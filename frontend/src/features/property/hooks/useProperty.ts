@@ -1,5 +1,12 @@
 import { useState, useEffect, useCallback } from 'react';
-import { Property, CreatePropertyRequest, UpdatePropertyRequest } from '../types';
+import {
+  Property,
+  CreatePropertyRequest,
+  UpdatePropertyRequest,
+  PropertyPriceHistory,
+  ListingAction,
+  ListingLifecycle
+} from '../types';
 import { propertyService } from '../services';
 
 export interface UsePropertyReturn {
@@ -207,4 +214,113 @@ export const useUserProperties = (userId?: number): UseUserPropertiesReturn => {
     error,
     refetchProperties
   };
-};
\ No newline at end of file
+};
+// Hook for a listing's price history
+export interface UsePropertyPriceHistoryReturn {
+  priceHistory: PropertyPriceHistory | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export const usePropertyPriceHistory = (propertyId?: number): UsePropertyPriceHistoryReturn => {
+  const [priceHistory, setPriceHistory] = useState<PropertyPriceHistory | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!propertyId) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    propertyService.getPriceHistory(propertyId)
+      .then(history => {
+        if (!cancelled) setPriceHistory(history);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : 'Failed to fetch price history');
+        setPriceHistory(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [propertyId]);
+
+  return {
+    priceHistory,
+    isLoading,
+    error
+  };
+};
+
+// Hook for a listing's workflow state and actions
+export interface UseListingLifecycleReturn {
+  lifecycle: ListingLifecycle | null;
+  isLoading: boolean;
+  isTransitioning: boolean;
+  error: string | null;
+  transition: (action: ListingAction, options?: { reason?: string; publishAt?: string }) => Promise<ListingLifecycle | null>;
+  refetchLifecycle: () => Promise<void>;
+}
+
+export const useListingLifecycle = (propertyId?: number): UseListingLifecycleReturn => {
+  const [lifecycle, setLifecycle] = useState<ListingLifecycle | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isTransitioning, setIsTransitioning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refetchLifecycle = useCallback(async () => {
+    if (!propertyId) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setLifecycle(await propertyService.getLifecycle(propertyId));
+    } catch (err: any) {
+      setError(err?.message || 'Failed to fetch listing status');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [propertyId]);
+
+  const transition = useCallback(async (
+    action: ListingAction,
+    options: { reason?: string; publishAt?: string } = {}
+  ): Promise<ListingLifecycle | null> => {
+    if (!propertyId) return null;
+
+    setIsTransitioning(true);
+    setError(null);
+
+    try {
+      const updated = await propertyService.transitionListing(propertyId, action, options);
+      setLifecycle(updated);
+      return updated;
+    } catch (err: any) {
+      setError(err?.message || 'Failed to update listing status');
+      return null;
+    } finally {
+      setIsTransitioning(false);
+    }
+  }, [propertyId]);
+
+  useEffect(() => {
+    refetchLifecycle();
+  }, [refetchLifecycle]);
+
+  return {
+    lifecycle,
+    isLoading,
+    isTransitioning,
+    error,
+    transition,
+    refetchLifecycle
+  };
+};
@@ -41,7 +41,7 @@ export interface UsePropertyFormReturn {
   reorderImages: (fromIndex: number, toIndex: number) => void;
   validateForm: () => boolean;
   resetForm: () => void;
-  submitForm: () => Promise<Property>;
+  submitForm: (submitOptions?: { submitForReview?: boolean }) => Promise<Property>;
   loadProperty: (property: Property) => void;
 }
 
@@ -210,7 +210,7 @@ export const usePropertyForm = (options: UsePropertyFormOptions): UsePropertyFor
     setErrors({});
   }, []);
 
-  const submitForm = useCallback(async (): Promise<Property> => {
+  const submitForm = useCallback(async (submitOptions: { submitForReview?: boolean } = {}): Promise<Property> => {
     if (!validateForm()) {
       throw new Error('Form validation failed');
     }
@@ -238,7 +238,8 @@ export const usePropertyForm = (options: UsePropertyFormOptions): UsePropertyFor
           amenities: formData.amenities.reduce((acc, amenity) => {
             acc[amenity] = true;
             return acc;
-          }, {} as Record<string, boolean>)
+          }, {} as Record<string, boolean>),
+          submit_for_review: submitOptions.submitForReview ?? true
         };
         
         property = await propertyService.createProperty(createData);
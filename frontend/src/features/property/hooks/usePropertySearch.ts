@@ -1,5 +1,5 @@
 import { useState, useCallback, useEffect } from 'react';
-import { Property, PropertyFilters, SearchCriteria, SavedSearch, SearchHistory } from '../types';
+import { Property, PropertyFilters, PropertySearchFacets, SearchCriteria, SavedSearch, SearchHistory } from '../types';
 import { propertySearchService } from '../services';
 
 export interface UsePropertySearchReturn {
@@ -259,6 +259,39 @@ export const usePropertySuggestions = (): UsePropertySuggestionsReturn => {
   };
 };
 
+// Hook for facet counts of the current search
+export interface UsePropertyFacetsReturn {
+  facets: PropertySearchFacets | null;
+  isLoading: boolean;
+}
+
+export const usePropertyFacets = (query: string, filters?: PropertyFilters): UsePropertyFacetsReturn => {
+  const [facets, setFacets] = useState<PropertySearchFacets | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const filtersKey = JSON.stringify(filters || {});
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    propertySearchService.getSearchFacets(query, filters)
+      .then(result => {
+        if (!cancelled) setFacets(result);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // filtersKey tracks filter changes without refetching on every new object
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [query, filtersKey]);
+
+  return { facets, isLoading };
+};
+
 // Hook for saved searches management
 export interface UseSavedSearchesReturn {
   savedSearches: SavedSearch[];
@@ -10,12 +10,16 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/shared/components/ui
 import { Layout } from '@/shared/components/layout/Layout';
 import { Icon } from '@iconify/react';
 import { api } from '@/shared/lib/api';
+import { ListingLifecycleActions } from '../components/common/ListingLifecycleActions';
+import { LISTING_STATE_CONFIG } from '../constants/propertyTypes';
+import type { ListingLifecycle, ListingState } from '../types';
 
 
 interface LocalPropertyFilters {
     status: string;
     type: string;
     listingType: string;
+    listingState: string;
     search: string;
 }
 
@@ -28,6 +32,7 @@ export function MyPropertiesPage() {
         status: 'all',
         type: 'all',
         listingType: 'all',
+        listingState: 'all',
         search: ''
     });
 
@@ -73,6 +78,10 @@ export function MyPropertiesPage() {
             filtered = filtered.filter(property => property.listing_type === filters.listingType);
         }
 
+        if (filters.listingState !== 'all') {
+            filtered = filtered.filter(property => property.listing_state === filters.listingState);
+        }
+
         setFilteredProperties(filtered);
     };
 
@@ -82,6 +91,21 @@ export function MyPropertiesPage() {
 
 
 
+    // Keep the list in sync after a workflow action so filters and visibility stay accurate
+    const handleLifecycleChange = (propertyId: number, lifecycle: ListingLifecycle) => {
+        setProperties(prev => prev.map(property =>
+            property.id === propertyId
+                ? {
+                    ...property,
+                    listing_state: lifecycle.state,
+                    publish_at: lifecycle.publishAt,
+                    rejection_reason: lifecycle.rejectionReason,
+                    is_active: lifecycle.state === 'published'
+                }
+                : property
+        ));
+    };
+
     const handlePropertyClick = (property: any) => {
         navigate(`/property/${property.id}`);
     };
@@ -125,7 +149,7 @@ export function MyPropertiesPage() {
                             <CardTitle className="text-lg">Filters</CardTitle>
                         </CardHeader>
                         <CardContent className="pt-0">
-                            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+                            <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
                                 <div className="space-y-2">
                                     <label className="text-sm font-medium">Search</label>
                                     <Input
@@ -180,6 +204,23 @@ export function MyPropertiesPage() {
                                         </SelectContent>
                                     </Select>
                                 </div>
+
+                                <div className="space-y-2">
+                                    <label className="text-sm font-medium">Listing Status</label>
+                                    <Select value={filters.listingState} onValueChange={(value) => handleFilterChange('listingState', value)}>
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="all">All Stages</SelectItem>
+                                            {(Object.keys(LISTING_STATE_CONFIG) as ListingState[]).map(state => (
+                                                <SelectItem key={state} value={state}>
+                                                    {LISTING_STATE_CONFIG[state].label}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
                             </div>
                         </CardContent>
                     </Card>
@@ -196,6 +237,10 @@ export function MyPropertiesPage() {
                                     <Icon icon="solar:list-bold" className="size-4 mr-2" />
                                     List View
                                 </TabsTrigger>
+                                <TabsTrigger value="workflow">
+                                    <Icon icon="solar:checklist-bold" className="size-4 mr-2" />
+                                    Workflow
+                                </TabsTrigger>
                             </TabsList>
                             
                             <div className="text-sm text-muted-foreground">
@@ -237,6 +282,33 @@ export function MyPropertiesPage() {
                                 onPropertyClick={handlePropertyClick}
                             />
                         </TabsContent>
+
+                        <TabsContent value="workflow" className="mt-6 space-y-4">
+                            {filteredProperties.map(property => (
+                                <Card key={property.id}>
+                                    <CardContent className="flex flex-col md:flex-row md:items-start justify-between gap-4 pt-6">
+                                        <div className="min-w-0">
+                                            <button
+                                                type="button"
+                                                onClick={() => handlePropertyClick(property)}
+                                                className="font-semibold hover:underline text-left"
+                                            >
+                                                {property.title}
+                                            </button>
+                                            <p className="text-sm text-muted-foreground">
+                                                {[property.city, property.state].filter(Boolean).join(', ')}
+                                            </p>
+                                        </div>
+                                        <ListingLifecycleActions
+                                            propertyId={property.id}
+                                            onChange={(lifecycle) => handleLifecycleChange(property.id, lifecycle)}
+                                            showHistory
+                                            className="md:max-w-md"
+                                        />
+                                    </CardContent>
+                                </Card>
+                            ))}
+                        </TabsContent>
                     </Tabs>
                 </div>
             </div>
@@ -9,6 +9,7 @@ import { Separator } from '@/shared/components/ui/separator';
 import { Layout } from '@/shared/components/layout/Layout';
 import { PropertyGridSkeleton } from '@/shared/components/ui/loading';
 import { Alert, AlertDescription } from '@/shared/components/ui/alert';
+import { ComparisonTable } from '@/shared/components/ui/comparison-table';
 import { Icon } from '@iconify/react';
 import type { Property } from '../types/property';
 
@@ -213,42 +214,23 @@ export function PropertyComparisonPage() {
                         <CardTitle>Detailed Comparison</CardTitle>
                     </CardHeader>
                     <CardContent>
-                        <div className="overflow-x-auto">
-                            <table className="w-full">
-                                <thead>
-                                    <tr className="border-b">
-                                        <th className="text-left py-3 px-4 font-medium">Feature</th>
-                                        {properties.map((property) => (
-                                            <th key={property.id} className="text-left py-3 px-4 font-medium min-w-[200px]">
-                                                <div className="truncate">{property.title}</div>
-                                            </th>
-                                        ))}
-                                    </tr>
-                                </thead>
-                                <tbody>
-                                    {comparisonData.map((row, index) => (
-                                        <tr key={index} className="border-b hover:bg-muted/50">
-                                            <td className="py-3 px-4 font-medium text-muted-foreground">
-                                                {row.label}
-                                            </td>
-                                            {row.values.map((value, valueIndex) => (
-                                                <td key={valueIndex} className="py-3 px-4">
-                                                    {row.label === 'Price' ? (
-                                                        <span className="font-semibold text-primary">{value}</span>
-                                                    ) : row.label === 'Status' ? (
-                                                        <Badge variant="outline" className="capitalize">
-                                                            {value}
-                                                        </Badge>
-                                                    ) : (
-                                                        <span>{value}</span>
-                                                    )}
-                                                </td>
-                                            ))}
-                                        </tr>
-                                    ))}
-                                </tbody>
-                            </table>
-                        </div>
+                        <ComparisonTable
+                            columns={properties.map((property) => ({ key: property.id, title: property.title }))}
+                            rows={comparisonData.map((row) => ({
+                                label: row.label,
+                                values: row.values.map((value) =>
+                                    row.label === 'Price' ? (
+                                        <span className="font-semibold text-primary">{value}</span>
+                                    ) : row.label === 'Status' ? (
+                                        <Badge variant="outline" className="capitalize">
+                                            {value}
+                                        </Badge>
+                                    ) : (
+                                        <span>{value}</span>
+                                    )
+                                ),
+                            }))}
+                        />
                     </CardContent>
                 </Card>
 
@@ -1,7 +1,7 @@
 import { useSearchParams, useNavigate } from "react-router-dom";
 import { useState, useEffect } from "react";
 import { useAuth } from "@/shared/contexts/AuthContext";
-import { usePropertySearch } from "../hooks/usePropertySearch";
+import { usePropertySearch, usePropertyFacets } from "../hooks/usePropertySearch";
 import { usePropertyFilters } from "../hooks/usePropertyFilters";
 import { PropertyFilters } from "../components/common/PropertyFilters";
 import { SearchResults } from "../components/lists/SearchResults";
@@ -97,6 +97,9 @@ export function PropertySearchPage() {
         searchProperties(query, filters);
     }, [filters, searchQuery, searchProperties]);
 
+    // Result counts per filter option, shown next to each option in the sidebar
+    const { facets } = usePropertyFacets(filters.location || searchQuery || '', filters);
+
     // Update URL when filters change
     const updateSearchParams = (newFilters: PropertyFiltersType) => {
         const params = new URLSearchParams();
@@ -209,6 +212,9 @@ export function PropertySearchPage() {
             }
             if (cleanFilters.amenities && Array.isArray(cleanFilters.amenities) && cleanFilters.amenities.length > 0) {
                 searchCriteria.amenities = cleanFilters.amenities;
+                if (cleanFilters.amenities_match) {
+                    searchCriteria.amenities_match = cleanFilters.amenities_match;
+                }
             }
 
             // Ensure we have at least some search criteria
@@ -333,6 +339,7 @@ export function PropertySearchPage() {
                     <aside className="w-80 shrink-0">
                         <PropertyFilters
                             filters={filters}
+                            facets={facets}
                             onFiltersChange={(newFilters) => {
                                 setFilters(newFilters);
                                 updateSearchParams(newFilters);
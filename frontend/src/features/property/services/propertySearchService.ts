@@ -6,7 +6,8 @@ import type {
   SearchCriteria,
   SavedSearch,
   SearchHistory,
-  PropertySuggestion
+  PropertySuggestion,
+  PropertySearchFacets
 } from '../types';
 
 /**
@@ -91,94 +92,57 @@ class PropertySearchService {
   }
 
   /**
-   * Get property suggestions for autocomplete
+   * Get one page of filtered properties using cursor pagination (for infinite scroll)
    */
-  async getPropertySuggestions(query: string): Promise<PropertySuggestion[]> {
+  async getPropertiesPage(
+    filters: PropertyFilters,
+    cursor?: string,
+    limit: number = 20
+  ): Promise<{ properties: Property[]; nextCursor: string | null; hasMore: boolean }> {
     try {
-      if (!query || query.length < 2) {
-        return [];
-      }
+      // Pages are ordered by the server, so sorting can't be applied client-side here
+      const apiFilters = { ...this.transformFiltersToApi(filters), ...this.transformSortToApi(filters) };
 
-      // For now, we'll create suggestions based on common property-related terms
-      // This can be enhanced with a dedicated suggestions API endpoint
-      const suggestions: PropertySuggestion[] = [];
-
-      // Location-based suggestions
-      if (query.toLowerCase().includes('bangalore') || query.toLowerCase().includes('bengaluru')) {
-        suggestions.push({
-          id: 'loc_bangalore',
-          text: 'Bangalore, Karnataka',
-          type: 'location',
-          count: 150
-        });
-      }
-
-      if (query.toLowerCase().includes('mumbai')) {
-        suggestions.push({
-          id: 'loc_mumbai',
-          text: 'Mumbai, Maharashtra',
-          type: 'location',
-          count: 200
-        });
-      }
+      const response = await api.getPropertiesByCursor(apiFilters, cursor, limit);
 
-      if (query.toLowerCase().includes('delhi')) {
-        suggestions.push({
-          id: 'loc_delhi',
-          text: 'Delhi, Delhi',
-          type: 'location',
-          count: 180
-        });
-      }
-
-      // Property type suggestions
-      if (query.toLowerCase().includes('apartment') || query.toLowerCase().includes('flat')) {
-        suggestions.push({
-          id: 'type_apartment',
-          text: 'Apartment',
-          type: 'property_type',
-          count: 300
-        });
-      }
-
-      if (query.toLowerCase().includes('villa')) {
-        suggestions.push({
-          id: 'type_villa',
-          text: 'Villa',
-          type: 'property_type',
-          count: 80
-        });
-      }
-
-      if (query.toLowerCase().includes('house')) {
-        suggestions.push({
-          id: 'type_house',
-          text: 'House',
-          type: 'property_type',
-          count: 120
-        });
-      }
+      return {
+        properties: response.data.map(this.transformApiPropertyToProperty),
+        nextCursor: response.nextCursor,
+        hasMore: response.hasNext
+      };
+    } catch (error: any) {
+      console.error('Property page error:', error);
+      throw new Error(`Failed to load properties: ${error.message}`);
+    }
+  }
 
-      // Amenity suggestions
-      if (query.toLowerCase().includes('pool') || query.toLowerCase().includes('swimming')) {
-        suggestions.push({
-          id: 'amenity_pool',
-          text: 'Swimming Pool',
-          type: 'amenity',
-          count: 45
-        });
+  /**
+   * Get result counts per filter option for the current search
+   */
+  async getSearchFacets(query: string, filters?: PropertyFilters): Promise<PropertySearchFacets | null> {
+    try {
+      const apiFilters = this.transformFiltersToApi(filters) || {};
+      // Match searchProperties, which sends the query as keywords
+      if (query.trim()) {
+        apiFilters.keywords = query.trim();
       }
+      return await api.getPropertyFacets(apiFilters);
+    } catch (error: any) {
+      console.error('Failed to get search facets:', error);
+      return null;
+    }
+  }
 
-      if (query.toLowerCase().includes('gym') || query.toLowerCase().includes('fitness')) {
-        suggestions.push({
-          id: 'amenity_gym',
-          text: 'Gym/Fitness Center',
-          type: 'amenity',
-          count: 60
-        });
+  /**
+   * Get property suggestions for autocomplete
+   */
+  async getPropertySuggestions(query: string): Promise<PropertySuggestion[]> {
+    try {
+      if (!query || query.length < 2) {
+        return [];
       }
 
-      return suggestions.slice(0, 8); // Limit to 8 suggestions
+      return await api.getSearchSuggestions(query, 8);
     } catch (error: any) {
       console.error('Failed to get property suggestions:', error);
       return [];
@@ -534,6 +498,29 @@ class PropertySearchService {
   /**
    * Transform feature filters to API filters
    */
+  /**
+   * Map UI sort options onto the sort keys the API can paginate by
+   */
+  private transformSortToApi(filters: PropertyFilters): Pick<ApiPropertyFilters, 'sort_by' | 'sort_order'> {
+    switch (filters.sort_by) {
+      case 'price_low':
+        return { sort_by: 'price', sort_order: 'asc' };
+      case 'price_high':
+        return { sort_by: 'price', sort_order: 'desc' };
+      case 'date_new':
+        return { sort_by: 'date', sort_order: 'desc' };
+      case 'date_old':
+        return { sort_by: 'date', sort_order: 'asc' };
+      case 'price':
+      case 'date':
+      case 'views':
+      case 'distance':
+        return { sort_by: filters.sort_by, sort_order: filters.sort_order };
+      default:
+        return { sort_by: 'relevance' };
+    }
+  }
+
   private transformFiltersToApi(filters?: PropertyFilters): ApiPropertyFilters | undefined {
     if (!filters) return undefined;
 
@@ -570,6 +557,12 @@ class PropertySearchService {
     if (minArea) apiFilters.min_area = minArea;
     if (maxArea) apiFilters.max_area = maxArea;
     
+    // Amenities
+    if (filters.amenities?.length) {
+      apiFilters.amenities = filters.amenities;
+      if (filters.amenities_match) apiFilters.amenities_match = filters.amenities_match;
+    }
+
     // Status filters
     const isFeatured = filters.isFeatured;
     if (isFeatured !== undefined) apiFilters.is_featured = isFeatured;
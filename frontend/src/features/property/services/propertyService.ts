@@ -8,6 +8,9 @@ import type {
   UpdatePropertyRequest,
   PaginationOptions,
   PropertyStats,
+  PropertyPriceHistory,
+  ListingAction,
+  ListingLifecycle,
   PropertyAmenities
 } from '../types';
 
@@ -19,7 +22,8 @@ export enum PropertyErrorType {
   PROPERTY_ACCESS_DENIED = 'PROPERTY_ACCESS_DENIED',
   PROPERTY_VALIDATION_ERROR = 'PROPERTY_VALIDATION_ERROR',
   NETWORK_ERROR = 'NETWORK_ERROR',
-  PERMISSION_ERROR = 'PERMISSION_ERROR'
+  PERMISSION_ERROR = 'PERMISSION_ERROR',
+  DUPLICATE_LISTING = 'DUPLICATE_LISTING'
 }
 
 export interface PropertyError {
@@ -120,9 +124,21 @@ class PropertyService {
       const backendData = this.transformToBackendFormat(propertyData);
       console.log('Transformed data being sent to backend:', backendData);
       const response = await api.createProperty(backendData);
-      return this.transformApiPropertyToProperty(response.data);
+      const property = this.transformApiPropertyToProperty(response.data);
+      // Created, but close enough to existing listings to be flagged for review
+      if (response.warning?.code === 'POSSIBLE_DUPLICATE') {
+        property.duplicate_warnings = response.warning.details?.matches || [];
+      }
+      return property;
     } catch (error: any) {
       console.error('Property creation error:', error);
+      if (error.status === 409 && error.code === 'DUPLICATE_LISTING') {
+        throw this.createError(
+          PropertyErrorType.DUPLICATE_LISTING,
+          error.message,
+          error.details?.matches || []
+        );
+      }
       if (error.status === 400) {
         throw this.createError(
           PropertyErrorType.PROPERTY_VALIDATION_ERROR,
@@ -276,6 +292,43 @@ class PropertyService {
     }
   }
 
+  /**
+   * Get the listing's price changes, oldest first
+   */
+  async getPriceHistory(propertyId: number): Promise<PropertyPriceHistory> {
+    try {
+      return await api.getPropertyPriceHistory(propertyId);
+    } catch (error: any) {
+      throw this.handleError(error, `Failed to fetch price history for ${propertyId}`);
+    }
+  }
+
+  /**
+   * Get a listing's workflow state, available actions and audit trail
+   */
+  async getLifecycle(propertyId: number): Promise<ListingLifecycle> {
+    try {
+      return await api.getPropertyLifecycle(propertyId);
+    } catch (error: any) {
+      throw this.handleError(error, `Failed to fetch listing status for ${propertyId}`);
+    }
+  }
+
+  /**
+   * Move a listing through the workflow (submit, publish, schedule, archive, ...)
+   */
+  async transitionListing(
+    propertyId: number,
+    action: ListingAction,
+    options: { reason?: string; publishAt?: string } = {}
+  ): Promise<ListingLifecycle> {
+    try {
+      return await api.transitionPropertyListing(propertyId, action, options);
+    } catch (error: any) {
+      throw this.handleError(error, `Failed to ${action.replace('_', ' ')} listing ${propertyId}`);
+    }
+  }
+
   /**
    * Get property statistics
    */
@@ -355,8 +408,12 @@ class PropertyService {
       transformed.amenities = {};
     }
 
+    // Listings are submitted for review unless saved as a draft
+    if (data.submit_for_review !== undefined) {
+      transformed.submitForReview = data.submit_for_review;
+    }
+
     // Handle boolean fields with defaults
-    transformed.isActive = data.isActive !== undefined ? data.isActive : true;
     transformed.isFeatured = data.isFeatured !== undefined ? data.isFeatured : false;
 
     return transformed;
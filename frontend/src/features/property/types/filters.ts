@@ -1,4 +1,4 @@
-import { PropertyType, ListingType } from './property';
+import { PropertyType, ListingType, PropertyStatus } from './property';
 import { PropertyFilters } from './search';
 
 // Advanced filter types
@@ -48,6 +48,31 @@ export interface PropertyFilterOptions {
   }>;
 }
 
+// Result counts returned by the search API with include_facets=true
+export interface FacetBucket<T = string> {
+  value: T;
+  count: number;
+}
+
+export interface PriceBandFacet {
+  key: string;
+  label: string;
+  listingType: ListingType;
+  min: number;
+  max?: number;
+  count: number;
+}
+
+export interface PropertySearchFacets {
+  property_type: FacetBucket<PropertyType>[];
+  listing_type: FacetBucket<ListingType>[];
+  status: FacetBucket<PropertyStatus>[];
+  bedrooms: FacetBucket<number>[];
+  city: FacetBucket[];
+  amenities: FacetBucket[];
+  price_bands: PriceBandFacet[];
+}
+
 // Filter state management
 export interface FilterState {
   activeFilters: PropertyFilters;
@@ -13,6 +13,14 @@ export type {
   PropertyImage,
   PropertyImageType,
   PropertyStats,
+  PriceHistoryEntry,
+  PropertyPriceHistory,
+  ListingState,
+  ListingAction,
+  ListingStateTransition,
+  ListingLifecycle,
+  DuplicateListingSignals,
+  DuplicateListingMatch,
   PropertyFeature,
   LocationData,
   CreatePropertyRequest,
@@ -63,6 +71,9 @@ export type {
 
 export type {
   PropertyFilterOptions,
+  FacetBucket,
+  PriceBandFacet,
+  PropertySearchFacets,
   FilterState,
   FilterAction,
   FilterPreset,
@@ -3,6 +3,26 @@ export type PropertyType = 'apartment' | 'house' | 'villa' | 'plot' | 'commercia
 export type ListingType = 'sale' | 'rent';
 export type PropertyStatus = 'new' | 'resale' | 'under_construction' | 'rented' | 'sold' | 'pending' | 'active';
 export type AreaUnit = 'sqft' | 'sqm' | 'acres' | 'marla' | 'kanal';
+export type ListingState =
+  | 'draft'
+  | 'submitted'
+  | 'under_review'
+  | 'approved'
+  | 'rejected'
+  | 'scheduled'
+  | 'published'
+  | 'archived';
+export type ListingAction =
+  | 'submit'
+  | 'withdraw'
+  | 'start_review'
+  | 'approve'
+  | 'reject'
+  | 'publish'
+  | 'schedule'
+  | 'unschedule'
+  | 'archive'
+  | 'restore';
 
 // Backend amenities interface
 export interface PropertyAmenities {
@@ -74,9 +94,24 @@ export interface Property {
   amenities: PropertyAmenities;  // JSON field in backend
   is_active: boolean;       // Backend field name
   is_featured: boolean;     // Backend field name
+  listing_state?: ListingState;
+  publish_at?: string | null;     // Only set while scheduled
+  published_at?: string | null;
+  rejection_reason?: string | null;
   created_at: string;       // Backend field name
   updated_at: string;       // Backend field name
   expires_at?: string;      // Backend field name
+  distance_km?: number;     // Only present on geo searches (latitude/longitude)
+  relevance_score?: number; // Only present on keyword searches
+  duplicate_warnings?: DuplicateListingMatch[]; // Only present right after creation
+  recommendation_score?: number;  // Only present on recommendations and similar listings
+  recommendation_reason?: string; // e.g. "Because you saved 3BHK in Pune"
+  highlights?: {            // Matched keywords wrapped in <mark>, HTML-escaped
+    title: string;
+    description: string | null;
+    address: string;
+    city: string;
+  };
   
   // Related data
   images?: PropertyImage[];
@@ -102,6 +137,7 @@ export interface CreatePropertyRequest {
   latitude?: number;
   longitude?: number;
   amenities: PropertyAmenities;
+  submit_for_review?: boolean; // false saves the listing as a draft
 }
 
 // Utility functions for backward compatibility
@@ -125,6 +161,74 @@ export interface PropertyStats {
   averageViewDuration?: number;
 }
 
+export interface PriceHistoryEntry {
+  price: number;
+  previousPrice: number | null; // null for the initial listing price
+  changeAmount: number | null;
+  changePercent: number | null;
+  listingType: ListingType;
+  changedAt: string;
+}
+
+export interface PropertyPriceHistory {
+  propertyId: number;
+  listingType: ListingType;
+  currentPrice: number;
+  initialPrice: number;
+  lowestPrice: number;
+  highestPrice: number;
+  history: PriceHistoryEntry[]; // Oldest first
+}
+
+export interface ListingStateTransition {
+  id: number;
+  action: ListingAction | 'create';
+  from_state: ListingState | null;
+  to_state: ListingState;
+  actor_role: 'owner' | 'admin' | 'system';
+  reason: string | null;
+  publish_at: string | null;
+  created_at: string;
+  actor?: {
+    id: number;
+    first_name: string;
+    last_name: string;
+    role: string;
+  } | null;
+}
+
+export interface ListingLifecycle {
+  propertyId: number;
+  state: ListingState;
+  publishAt: string | null;
+  publishedAt: string | null;
+  rejectionReason: string | null;
+  availableActions: ListingAction[];
+  transitions: ListingStateTransition[]; // Newest first
+}
+
+// Per-signal similarity from 0 to 1; null when either listing lacks the data
+export interface DuplicateListingSignals {
+  address: number | null;
+  distance: number | null;
+  price: number | null;
+  area: number | null;
+  image: number | null;
+  distanceMeters?: number | null;
+}
+
+export interface DuplicateListingMatch {
+  propertyId: number;
+  ownerId: number;
+  title: string;
+  address: string;
+  city: string;
+  price: number;
+  listingState: ListingState;
+  score: number;
+  signals: DuplicateListingSignals;
+}
+
 export interface PropertyFeature {
   id: number;
   name: string;
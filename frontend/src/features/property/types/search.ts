@@ -13,11 +13,13 @@ export interface PropertyFilters {
   min_area?: number; // Backend field name
   max_area?: number; // Backend field name
   amenities?: string[];
+  amenities_match?: 'all' | 'any'; // Must have every selected amenity (default) or any of them
   features?: string[];
   is_active?: boolean; // Backend field name
   is_featured?: boolean; // Backend field name
   sort_by?: string;
   sort_order?: 'asc' | 'desc';
+  polygon?: SearchAreaGeometry; // Drawn map area
   
   // Deprecated - use backend field names above
   /** @deprecated Use property_type instead */
@@ -79,8 +81,10 @@ export interface SearchHistory {
 export interface PropertySuggestion {
   id: string;
   text: string;
-  type: 'location' | 'property_type' | 'amenity';
+  type: 'location' | 'property_type' | 'amenity' | 'property';
   count?: number;
+  highlight?: string; // HTML-escaped text with matched terms wrapped in <mark>
+  propertyId?: number;
 }
 
 // Quick filter options
@@ -127,6 +131,19 @@ export interface LocationSuggestion {
   };
 }
 
+// GeoJSON geometries for draw-on-map area search ([longitude, latitude] positions)
+export interface GeoJsonPolygon {
+  type: 'Polygon';
+  coordinates: number[][][];
+}
+
+export interface GeoJsonMultiPolygon {
+  type: 'MultiPolygon';
+  coordinates: number[][][][];
+}
+
+export type SearchAreaGeometry = GeoJsonPolygon | GeoJsonMultiPolygon;
+
 export interface MapBounds {
   north: number;
   south: number;
@@ -47,6 +47,16 @@ export const formatArea = (area: number, unit: string = 'sqft'): string => {
   return `${area.toLocaleString()} ${unit}`;
 };
 
+/**
+ * Format distance from a search point (km from the backend)
+ */
+export const formatDistance = (distanceKm: number): string => {
+  if (distanceKm < 1) {
+    return `${Math.round(distanceKm * 1000)} m away`;
+  }
+  return `${distanceKm.toFixed(1)} km away`;
+};
+
 /**
  * Get property type label from value
  */
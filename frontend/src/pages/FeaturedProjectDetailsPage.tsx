@@ -8,6 +8,7 @@ import { Alert, AlertDescription } from "@/shared/components/ui/alert";
 import { Layout } from "@/shared/components/layout/Layout";
 import { Icon } from "@iconify/react";
 import { getS3ImageUrl } from "@/shared/utils/s3ImageUtils";
+import { UnitAvailabilityTable } from "@/features/builder/components/UnitAvailabilityTable";
 
 // Mock data for the 4 featured projects with images
 const FEATURED_PROJECTS = {
@@ -388,8 +389,9 @@ export function FeaturedProjectDetailsPage() {
 
         {/* Content Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="availability">Availability</TabsTrigger>
             <TabsTrigger value="amenities">Amenities</TabsTrigger>
           </TabsList>
 
@@ -504,6 +506,17 @@ export function FeaturedProjectDetailsPage() {
             </div>
           </TabsContent>
 
+          <TabsContent value="availability" className="mt-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Available Units</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <UnitAvailabilityTable projectId={project.id} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           <TabsContent value="amenities" className="mt-6">
             <Card>
               <CardHeader>
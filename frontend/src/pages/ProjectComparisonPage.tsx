@@ -0,0 +1,258 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Icon } from '@iconify/react';
+import { Layout } from '@/shared/components/layout/Layout';
+import { Button } from '@/shared/components/ui/button';
+import { Badge } from '@/shared/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Alert, AlertDescription } from '@/shared/components/ui/alert';
+import { ComparisonTable, type ComparisonRow } from '@/shared/components/ui/comparison-table';
+import { api, type ProjectComparison } from '@/shared/lib/api';
+import { formatCurrency, formatDate } from '@/shared/utils/formatters';
+import { toast } from 'sonner';
+
+// Matches the server's limit
+const MAX_COMPARED_PROJECTS = 4;
+
+const formatRange = (range: { min: number; max: number } | null, format: (value: number) => string) => {
+  if (!range) return 'Sold out';
+  return range.min === range.max ? format(range.min) : `${format(range.min)} - ${format(range.max)}`;
+};
+
+const formatArea = (min: number, max: number) =>
+  min === max ? `${min.toLocaleString()} sq ft` : `${min.toLocaleString()}-${max.toLocaleString()} sq ft`;
+
+export function ProjectComparisonPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [projects, setProjects] = useState<ProjectComparison[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const idsParam = searchParams.get('ids') || '';
+  const projectIds = idsParam.split(',').map(id => parseInt(id)).filter(id => !isNaN(id));
+
+  useEffect(() => {
+    if (projectIds.length < 2) {
+      setError('Choose at least 2 projects to compare');
+      setLoading(false);
+      return;
+    }
+    if (projectIds.length > MAX_COMPARED_PROJECTS) {
+      setError(`Up to ${MAX_COMPARED_PROJECTS} projects can be compared at once`);
+      setLoading(false);
+      return;
+    }
+
+    const fetchComparison = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await api.compareProjects(projectIds);
+        setProjects(response.data.projects);
+      } catch (err: any) {
+        console.error('Failed to load projects for comparison:', err);
+        setError(err?.message || 'Failed to load projects for comparison');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchComparison();
+  }, [idsParam]);
+
+  const removeProject = (projectId: number) => {
+    const remaining = projectIds.filter(id => id !== projectId);
+    if (remaining.length < 2) {
+      navigate('/projects');
+      return;
+    }
+    navigate(`/projects/compare?ids=${remaining.join(',')}`);
+  };
+
+  const handleShare = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success('Comparison link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const rows: ComparisonRow[] = [
+    {
+      label: 'Builder',
+      values: projects.map(project => project.builder?.name || 'N/A'),
+    },
+    {
+      label: 'Location',
+      values: projects.map(project => `${project.location}, ${project.city}`),
+    },
+    {
+      label: 'Status',
+      values: projects.map(project => (
+        <Badge variant="outline" className="capitalize">{project.status.replace(/_/g, ' ')}</Badge>
+      )),
+    },
+    {
+      label: 'Possession',
+      values: projects.map(project => (project.possession_date ? formatDate(project.possession_date) : 'N/A')),
+    },
+    {
+      label: 'RERA Number',
+      values: projects.map(project => project.rera_number || 'Not registered'),
+    },
+    {
+      label: 'Price',
+      values: projects.map(project => (
+        <span className="font-semibold text-primary">{formatRange(project.price_range, formatCurrency)}</span>
+      )),
+    },
+    {
+      label: 'Price per sq ft',
+      values: projects.map(project => formatRange(project.price_per_sqft_range, value => `₹${Math.round(value).toLocaleString()}`)),
+    },
+    {
+      label: 'Units Available',
+      values: projects.map(project => `${project.available_units} of ${project.total_units}`),
+    },
+    {
+      label: 'Unit Mix',
+      values: projects.map(project => project.unit_mix.length === 0 ? 'N/A' : (
+        <ul className="space-y-1 text-sm">
+          {project.unit_mix.map(entry => (
+            <li key={entry.unit_type}>
+              <span className="font-medium">{entry.unit_type}</span>
+              <span className="text-muted-foreground">
+                {' '}· {formatArea(entry.min_area_sqft, entry.max_area_sqft)} · {entry.available_units}/{entry.total_units} available
+              </span>
+            </li>
+          ))}
+        </ul>
+      )),
+    },
+    {
+      label: 'Amenities',
+      values: projects.map(project => project.amenities.length === 0 ? 'N/A' : (
+        <div className="flex flex-wrap gap-1">
+          {project.amenities.map(amenity => (
+            <Badge key={amenity} variant="secondary">{amenity}</Badge>
+          ))}
+        </div>
+      )),
+    },
+  ];
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center py-16">
+          <Icon icon="solar:refresh-bold" className="size-8 animate-spin text-muted-foreground" />
+        </div>
+      </Layout>
+    );
+  }
+
+  if (error || projects.length === 0) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-4 py-6">
+          <Alert className="max-w-md mx-auto">
+            <Icon icon="solar:danger-bold" className="size-5 text-red-500" />
+            <AlertDescription>
+              {error || 'No projects found for comparison'}
+            </AlertDescription>
+            <Button variant="outline" className="mt-4" onClick={() => navigate('/projects')}>
+              Back to Projects
+            </Button>
+          </Alert>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-6">
+        {/* Header */}
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold">Project Comparison</h1>
+            <p className="text-muted-foreground">Compare {projects.length} projects side by side</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleShare}>
+              <Icon icon="solar:share-bold" className="size-4 mr-2" />
+              Share
+            </Button>
+            <Button variant="outline" onClick={() => navigate('/projects')}>
+              <Icon icon="solar:arrow-left-bold" className="size-4 mr-2" />
+              Back to Projects
+            </Button>
+          </div>
+        </div>
+
+        {/* Project Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6 mb-8">
+          {projects.map(project => (
+            <Card
+              key={project.id}
+              className="relative overflow-hidden cursor-pointer hover:shadow-lg transition-shadow"
+              onClick={() => navigate(`/project/${project.id}`)}
+            >
+              <div className="aspect-video bg-muted">
+                {project.image ? (
+                  <img src={project.image} alt={project.name} className="size-full object-cover" />
+                ) : (
+                  <div className="flex size-full items-center justify-center">
+                    <Icon icon="solar:buildings-2-bold" className="size-12 text-muted-foreground" />
+                  </div>
+                )}
+              </div>
+              <CardContent className="pt-4">
+                <h3 className="font-semibold text-lg">{project.name}</h3>
+                <p className="text-sm text-muted-foreground">{project.location}, {project.city}</p>
+              </CardContent>
+              <Button
+                size="sm"
+                variant="destructive"
+                className="absolute top-2 right-2"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  removeProject(project.id);
+                }}
+              >
+                <Icon icon="solar:close-bold" className="size-4" />
+              </Button>
+            </Card>
+          ))}
+        </div>
+
+        {/* Comparison Table */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Detailed Comparison</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ComparisonTable
+              columns={projects.map(project => ({ key: project.id, title: project.name }))}
+              rows={rows}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Action Buttons */}
+        <div className="flex justify-center gap-4 mt-8">
+          <Button onClick={() => navigate('/projects')}>
+            <Icon icon="solar:city-bold" className="size-4 mr-2" />
+            Browse More Projects
+          </Button>
+          <Button variant="outline" onClick={() => window.print()}>
+            <Icon icon="solar:printer-bold" className="size-4 mr-2" />
+            Print Comparison
+          </Button>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -5,9 +5,18 @@ import { Badge } from "@/shared/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/shared/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/shared/components/ui/card";
 import { Alert, AlertDescription } from "@/shared/components/ui/alert";
+import { Progress } from "@/shared/components/ui/progress";
+import { Input } from "@/shared/components/ui/input";
+import { Label } from "@/shared/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/shared/components/ui/dialog";
 import { Layout } from "@/shared/components/layout/Layout";
 import { Icon } from "@iconify/react";
-import { api } from "@/shared/lib/api";
+import { api, type AssetLeadInput, type ProjectAsset, type ProjectTimeline, type ProjectUpdate } from "@/shared/lib/api";
+import { useAuth } from "@/shared/contexts/AuthContext";
+import { PriceListTable } from "@/features/builder/components/PriceListTable";
+import { ConstructionTimeline } from "@/features/builder/components/ConstructionTimeline";
+import { ProjectAssetList } from "@/features/builder/components/ProjectAssetList";
+import { formatDate } from "@/shared/utils/formatters";
 
 interface Project {
   id: number;
@@ -43,6 +52,19 @@ export function ProjectDetailsPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState('overview');
+  const { state: authState } = useAuth();
+  const [holdingUnitId, setHoldingUnitId] = useState<number | null>(null);
+  const [holdNotice, setHoldNotice] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const [priceLists, setPriceLists] = useState<Awaited<ReturnType<typeof api.getProjectPriceList>>['data'] | null>(null);
+  const [timeline, setTimeline] = useState<ProjectTimeline | null>(null);
+  const [constructionUpdates, setConstructionUpdates] = useState<ProjectUpdate[]>([]);
+  const [updatesPage, setUpdatesPage] = useState({ page: 1, totalPages: 1 });
+  const [loadingUpdates, setLoadingUpdates] = useState(false);
+  const [assets, setAssets] = useState<ProjectAsset[]>([]);
+  const [leadAsset, setLeadAsset] = useState<ProjectAsset | null>(null);
+  const [leadForm, setLeadForm] = useState<AssetLeadInput>({ name: '', email: '', phone: '' });
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const [downloadingAssetId, setDownloadingAssetId] = useState<number | null>(null);
 
   useEffect(() => {
     const fetchProject = async () => {
@@ -67,6 +89,118 @@ export function ProjectDetailsPage() {
     fetchProject();
   }, [id]);
 
+  // Re-fetched on sign-in so the price list from the user's inquiry can be shown
+  useEffect(() => {
+    if (!id) return;
+
+    api.getProjectPriceList(parseInt(id))
+      .then(response => setPriceLists(response.data))
+      .catch(err => console.error('Error fetching price list:', err));
+  }, [id, authState.isAuthenticated]);
+
+  const fetchConstructionUpdates = async (page: number) => {
+    if (!id) return;
+
+    try {
+      setLoadingUpdates(true);
+      const response = await api.getProjectUpdates(parseInt(id), page);
+      setTimeline(response.data.timeline);
+      setConstructionUpdates(current => page === 1 ? response.data.updates : [...current, ...response.data.updates]);
+      setUpdatesPage({ page, totalPages: response.data.pagination.totalPages });
+    } catch (err) {
+      console.error('Error fetching construction updates:', err);
+    } finally {
+      setLoadingUpdates(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchConstructionUpdates(1);
+  }, [id]);
+
+  useEffect(() => {
+    if (!id) return;
+
+    api.getProjectAssets(parseInt(id))
+      .then(response => setAssets(response.data.assets))
+      .catch(err => console.error('Error fetching project assets:', err));
+  }, [id]);
+
+  // Files behind a lead form need the visitor's details; signed-in users' come from their account
+  const handleDownload = async (asset: ProjectAsset, lead?: AssetLeadInput) => {
+    if (!project) return;
+
+    if (asset.file_url) {
+      window.open(asset.file_url, '_blank', 'noopener,noreferrer');
+      return;
+    }
+    if (!lead && !authState.isAuthenticated) {
+      setDownloadError(null);
+      setLeadAsset(asset);
+      return;
+    }
+
+    try {
+      setDownloadingAssetId(asset.id);
+      setDownloadError(null);
+      const response = await api.downloadProjectAsset(project.id, asset.id, lead);
+      setLeadAsset(null);
+      window.open(response.data.url, '_blank', 'noopener,noreferrer');
+    } catch (err: any) {
+      setDownloadError(err?.message || 'Failed to prepare the download');
+    } finally {
+      setDownloadingAssetId(null);
+    }
+  };
+
+  const handleLeadSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!leadAsset) return;
+
+    handleDownload(leadAsset, {
+      name: leadForm.name.trim(),
+      email: leadForm.email.trim(),
+      phone: leadForm.phone?.trim() || undefined,
+    });
+  };
+
+  const handleHoldUnit = async (unitId: number) => {
+    if (!project) return;
+
+    if (!authState.isAuthenticated) {
+      navigate('/login');
+      return;
+    }
+
+    try {
+      setHoldingUnitId(unitId);
+      setHoldNotice(null);
+      const response = await api.projects.units.holdUnit(project.id, unitId);
+      const expiresAt = response.data.reservation.expires_at;
+
+      setProject({
+        ...project,
+        available_units: project.available_units - 1,
+        blocked_units: project.blocked_units + 1,
+        units: project.units?.map(unit => unit.id === unitId ? { ...unit, status: 'reserved' } : unit),
+      });
+      setHoldNotice({
+        type: 'success',
+        message: expiresAt
+          ? `Unit held until ${new Date(expiresAt).toLocaleString()}. The builder will contact you to confirm the booking.`
+          : 'Unit held. The builder will contact you to confirm the booking.',
+      });
+    } catch (err) {
+      console.error('Error holding unit:', err);
+      setHoldNotice({
+        type: 'error',
+        message: err instanceof Error ? err.message : 'Failed to hold unit',
+      });
+    } finally {
+      setHoldingUnitId(null);
+    }
+  };
+
   const formatPrice = (pricing: any) => {
     if (pricing?.min && pricing?.max) {
       const formatAmount = (amount: number) => {
@@ -227,10 +361,13 @@ export function ProjectDetailsPage() {
 
         {/* Content Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="amenities">Amenities</TabsTrigger>
             <TabsTrigger value="units">Units</TabsTrigger>
+            <TabsTrigger value="pricing">Price List</TabsTrigger>
+            <TabsTrigger value="construction">Construction</TabsTrigger>
+            <TabsTrigger value="brochures">Brochures & Plans</TabsTrigger>
             {/* <TabsTrigger value="contact">Contact</TabsTrigger> */}
           </TabsList>
 
@@ -367,6 +504,11 @@ export function ProjectDetailsPage() {
                 <CardTitle>Available Units</CardTitle>
               </CardHeader>
               <CardContent>
+                {holdNotice && (
+                  <Alert variant={holdNotice.type} className="mb-4">
+                    <AlertDescription>{holdNotice.message}</AlertDescription>
+                  </Alert>
+                )}
                 {project.units && project.units.length > 0 ? (
                   <div className="space-y-4">
                     {project.units.slice(0, 10).map((unit: any) => (
@@ -398,6 +540,19 @@ export function ProjectDetailsPage() {
                             <span className="ml-1">{unit.bedrooms}BHK</span>
                           </div>
                         </div>
+                        {unit.status === 'available' && authState.user?.id !== project.builder?.id && (
+                          <div className="mt-3 flex justify-end">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleHoldUnit(unit.id)}
+                              disabled={holdingUnitId !== null}
+                            >
+                              <Icon icon="solar:lock-keyhole-bold" className="mr-2 h-4 w-4" />
+                              {holdingUnitId === unit.id ? 'Holding...' : 'Hold Unit'}
+                            </Button>
+                          </div>
+                        )}
                       </div>
                     ))}
                     {project.units.length > 10 && (
@@ -413,6 +568,133 @@ export function ProjectDetailsPage() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="pricing" className="mt-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  Price List
+                  {priceLists?.current && ` v${priceLists.current.price_list.version}`}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {priceLists?.at_inquiry && (
+                  <Alert variant="info">
+                    <AlertDescription>
+                      {priceLists.current && priceLists.at_inquiry.price_list.id === priceLists.current.price_list.id
+                        ? `Prices are unchanged since your inquiry on ${formatDate(priceLists.at_inquiry.inquired_at)}.`
+                        : `You enquired on ${formatDate(priceLists.at_inquiry.inquired_at)}, when price list v${priceLists.at_inquiry.price_list.version} was in effect. Its prices are shown below the current list.`}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {priceLists?.current ? (
+                  <>
+                    <p className="text-sm text-muted-foreground">
+                      Effective from {formatDate(priceLists.current.price_list.effective_from)}
+                    </p>
+                    <PriceListTable
+                      items={priceLists.current.items}
+                      summary={priceLists.current.summary}
+                      showBreakdown={false}
+                    />
+                  </>
+                ) : (
+                  <p className="text-muted-foreground">The builder has not published a price list yet.</p>
+                )}
+
+                {priceLists?.at_inquiry && priceLists.at_inquiry.price_list.id !== priceLists.current?.price_list.id && (
+                  <div className="space-y-2 pt-4">
+                    <h4 className="font-semibold">
+                      Price list v{priceLists.at_inquiry.price_list.version} (at your inquiry)
+                    </h4>
+                    <PriceListTable
+                      items={priceLists.at_inquiry.items}
+                      summary={priceLists.at_inquiry.summary}
+                      showBreakdown={false}
+                    />
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="construction" className="mt-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Construction Progress</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {timeline && (
+                  <div className="space-y-3">
+                    {timeline.progress_percent !== null && (
+                      <div className="flex items-center gap-3">
+                        <Progress value={timeline.progress_percent} className="h-3" />
+                        <span className="whitespace-nowrap font-semibold">{timeline.progress_percent}% complete</span>
+                      </div>
+                    )}
+                    <div className="flex flex-wrap gap-6 text-sm">
+                      {timeline.start_date && (
+                        <span><span className="text-muted-foreground">Started:</span> {formatDate(timeline.start_date)}</span>
+                      )}
+                      {timeline.actual_completion ? (
+                        <span><span className="text-muted-foreground">Completed:</span> {formatDate(timeline.actual_completion)}</span>
+                      ) : timeline.expected_completion && (
+                        <span><span className="text-muted-foreground">Expected completion:</span> {formatDate(timeline.expected_completion)}</span>
+                      )}
+                      {timeline.last_updated && (
+                        <span><span className="text-muted-foreground">Last update:</span> {formatDate(timeline.last_updated)}</span>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                <ConstructionTimeline updates={constructionUpdates} />
+
+                {updatesPage.page < updatesPage.totalPages && (
+                  <div className="text-center">
+                    <Button
+                      variant="outline"
+                      onClick={() => fetchConstructionUpdates(updatesPage.page + 1)}
+                      disabled={loadingUpdates}
+                    >
+                      {loadingUpdates ? 'Loading...' : 'Show Earlier Updates'}
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="brochures" className="mt-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Brochures, Floor Plans & Tours</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {downloadError && !leadAsset && (
+                  <Alert variant="error" className="mb-4">
+                    <AlertDescription>{downloadError}</AlertDescription>
+                  </Alert>
+                )}
+                <ProjectAssetList
+                  assets={assets}
+                  emptyMessage="The builder has not shared any brochures or floor plans yet."
+                  renderActions={asset => asset.asset_type === 'tour_3d' ? (
+                    <Button size="sm" variant="outline" onClick={() => handleDownload(asset)}>
+                      <Icon icon="solar:play-bold" className="mr-1 h-4 w-4" />
+                      Start Tour
+                    </Button>
+                  ) : (
+                    <Button size="sm" variant="outline" onClick={() => handleDownload(asset)} disabled={downloadingAssetId === asset.id}>
+                      <Icon icon="solar:download-minimalistic-bold" className="mr-1 h-4 w-4" />
+                      {downloadingAssetId === asset.id ? 'Preparing...' : 'Download'}
+                    </Button>
+                  )}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           <TabsContent value="contact" className="mt-6">
             <Card>
               <CardHeader>
@@ -449,6 +731,63 @@ export function ProjectDetailsPage() {
             </Card>
           </TabsContent>
         </Tabs>
+
+        <Dialog open={leadAsset !== null} onOpenChange={open => !open && setLeadAsset(null)}>
+          <DialogContent>
+            <form onSubmit={handleLeadSubmit} className="space-y-4">
+              <DialogHeader>
+                <DialogTitle>Download {leadAsset?.title}</DialogTitle>
+                <DialogDescription>
+                  Leave your details and the builder's team will be in touch about {project.name}.
+                </DialogDescription>
+              </DialogHeader>
+
+              {downloadError && (
+                <Alert variant="error">
+                  <AlertDescription>{downloadError}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="space-y-1">
+                <Label htmlFor="leadName">Name</Label>
+                <Input
+                  id="leadName"
+                  required
+                  minLength={2}
+                  value={leadForm.name}
+                  onChange={(e) => setLeadForm(current => ({ ...current, name: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="leadEmail">Email</Label>
+                <Input
+                  id="leadEmail"
+                  type="email"
+                  required
+                  value={leadForm.email}
+                  onChange={(e) => setLeadForm(current => ({ ...current, email: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="leadPhone">Phone (optional)</Label>
+                <Input
+                  id="leadPhone"
+                  type="tel"
+                  value={leadForm.phone}
+                  onChange={(e) => setLeadForm(current => ({ ...current, phone: e.target.value }))}
+                />
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="ghost" onClick={() => setLeadAsset(null)}>Cancel</Button>
+                <Button type="submit" disabled={downloadingAssetId !== null}>
+                  <Icon icon="solar:download-minimalistic-bold" className="mr-2 h-4 w-4" />
+                  {downloadingAssetId !== null ? 'Preparing...' : 'Download'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
       </div>
     </Layout>
   );
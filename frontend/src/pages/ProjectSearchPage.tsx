@@ -0,0 +1,344 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Icon } from '@iconify/react';
+import { Layout } from '@/shared/components/layout/Layout';
+import { Button } from '@/shared/components/ui/button';
+import { Badge } from '@/shared/components/ui/badge';
+import { Card, CardContent } from '@/shared/components/ui/card';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { api, type ProjectSearchParams, type PublicProjectSummary } from '@/shared/lib/api';
+import { formatCurrency, formatDate } from '@/shared/utils/formatters';
+import { toast } from 'sonner';
+
+const PROJECT_TYPES = [
+  { value: 'residential', label: 'Residential' },
+  { value: 'commercial', label: 'Commercial' },
+  { value: 'mixed_use', label: 'Mixed Use' },
+  { value: 'villa', label: 'Villa' },
+  { value: 'apartment', label: 'Apartment' },
+  { value: 'office', label: 'Office' },
+  { value: 'retail', label: 'Retail' },
+];
+
+const PROJECT_STATUSES = [
+  { value: 'pre_launch', label: 'Pre Launch' },
+  { value: 'under_construction', label: 'Under Construction' },
+  { value: 'ready_to_move', label: 'Ready to Move' },
+  { value: 'completed', label: 'Completed' },
+];
+
+const BHK_OPTIONS = [1, 2, 3, 4, 5];
+
+const PAGE_SIZE = 12;
+
+// Matches the server's limit
+const MAX_COMPARED_PROJECTS = 4;
+
+type SearchFilters = Required<Pick<ProjectSearchParams, 'city' | 'project_type' | 'status' | 'possession_from' | 'possession_to' | 'sort'>> & {
+  bedrooms: number[];
+  min_price: string;
+  max_price: string;
+};
+
+const EMPTY_FILTERS: SearchFilters = {
+  city: '',
+  project_type: '',
+  status: '',
+  bedrooms: [],
+  possession_from: '',
+  possession_to: '',
+  min_price: '',
+  max_price: '',
+  sort: 'newest',
+};
+
+const bhkLabel = (bedrooms: number) => (bedrooms === 0 ? 'Studio' : `${bedrooms} BHK`);
+
+export function ProjectSearchPage() {
+  const navigate = useNavigate();
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS);
+  const [applied, setApplied] = useState<SearchFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [projects, setProjects] = useState<PublicProjectSummary[]>([]);
+  const [pagination, setPagination] = useState({ total: 0, totalPages: 0 });
+  const [loading, setLoading] = useState(true);
+  const [compareIds, setCompareIds] = useState<number[]>([]);
+
+  useEffect(() => {
+    const fetchProjects = async () => {
+      try {
+        setLoading(true);
+        const response = await api.getPublicProjects({
+          city: applied.city.trim(),
+          project_type: applied.project_type,
+          status: applied.status,
+          bedrooms: applied.bedrooms.join(','),
+          possession_from: applied.possession_from,
+          possession_to: applied.possession_to,
+          min_price: applied.min_price ? Number(applied.min_price) : undefined,
+          max_price: applied.max_price ? Number(applied.max_price) : undefined,
+          sort: applied.sort,
+          page,
+          limit: PAGE_SIZE,
+        });
+        setProjects(response.data);
+        setPagination({ total: response.pagination.total, totalPages: response.pagination.totalPages });
+      } catch (error: any) {
+        toast.error(error?.message || 'Failed to search projects');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProjects();
+  }, [applied, page]);
+
+  const updateFilter = <K extends keyof SearchFilters>(key: K, value: SearchFilters[K]) => {
+    setFilters(current => ({ ...current, [key]: value }));
+  };
+
+  const toggleBedrooms = (bedrooms: number) => {
+    updateFilter(
+      'bedrooms',
+      filters.bedrooms.includes(bedrooms)
+        ? filters.bedrooms.filter(value => value !== bedrooms)
+        : [...filters.bedrooms, bedrooms].sort((a, b) => a - b)
+    );
+  };
+
+  const toggleCompare = (projectId: number) => {
+    if (compareIds.includes(projectId)) {
+      setCompareIds(current => current.filter(id => id !== projectId));
+    } else if (compareIds.length >= MAX_COMPARED_PROJECTS) {
+      toast.error(`You can compare up to ${MAX_COMPARED_PROJECTS} projects`);
+    } else {
+      setCompareIds(current => [...current, projectId]);
+    }
+  };
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    setPage(1);
+    setApplied(filters);
+  };
+
+  const handleReset = () => {
+    setFilters(EMPTY_FILTERS);
+    setPage(1);
+    setApplied(EMPTY_FILTERS);
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-heading font-bold tracking-tight mb-2">New Projects</h1>
+          <p className="text-muted-foreground">
+            Find projects by city, configuration and budget. Prices are based on units still available.
+          </p>
+        </div>
+
+        <Card className="mb-8">
+          <CardContent className="pt-6">
+            <form onSubmit={handleSearch} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="city">City</Label>
+                  <Input id="city" value={filters.city} onChange={e => updateFilter('city', e.target.value)} placeholder="Any city" />
+                </div>
+                <div className="space-y-2">
+                  <Label>Project Type</Label>
+                  <Select value={filters.project_type || 'all'} onValueChange={value => updateFilter('project_type', value === 'all' ? '' : value)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Any type</SelectItem>
+                      {PROJECT_TYPES.map(type => <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Status</Label>
+                  <Select value={filters.status || 'all'} onValueChange={value => updateFilter('status', value === 'all' ? '' : value)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Any status</SelectItem>
+                      {PROJECT_STATUSES.map(status => <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Sort By</Label>
+                  <Select value={filters.sort} onValueChange={value => updateFilter('sort', value as SearchFilters['sort'])}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="newest">Newest</SelectItem>
+                      <SelectItem value="price_asc">Price: Low to High</SelectItem>
+                      <SelectItem value="price_desc">Price: High to Low</SelectItem>
+                      <SelectItem value="possession">Earliest Possession</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="min_price">Min Price (₹)</Label>
+                  <Input id="min_price" type="number" min={0} value={filters.min_price} onChange={e => updateFilter('min_price', e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="max_price">Max Price (₹)</Label>
+                  <Input id="max_price" type="number" min={0} value={filters.max_price} onChange={e => updateFilter('max_price', e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="possession_from">Possession From</Label>
+                  <Input id="possession_from" type="date" value={filters.possession_from} onChange={e => updateFilter('possession_from', e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="possession_to">Possession By</Label>
+                  <Input id="possession_to" type="date" value={filters.possession_to} onChange={e => updateFilter('possession_to', e.target.value)} />
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-medium">Configuration:</span>
+                  {BHK_OPTIONS.map(bedrooms => (
+                    <Button
+                      key={bedrooms}
+                      type="button"
+                      size="sm"
+                      variant={filters.bedrooms.includes(bedrooms) ? 'default' : 'outline'}
+                      onClick={() => toggleBedrooms(bedrooms)}
+                    >
+                      {bhkLabel(bedrooms)}
+                    </Button>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <Button type="button" variant="ghost" onClick={handleReset}>Reset</Button>
+                  <Button type="submit">
+                    <Icon icon="solar:magnifer-bold" className="size-4 mr-2" />
+                    Search
+                  </Button>
+                </div>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-16">
+            <Icon icon="solar:refresh-bold" className="size-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : projects.length === 0 ? (
+          <div className="py-16 text-center">
+            <Icon icon="solar:city-bold" className="size-12 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-muted-foreground">No projects match these filters.</p>
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground mb-4">{pagination.total} project(s) found</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {projects.map(project => (
+                <Card
+                  key={project.id}
+                  className="overflow-hidden cursor-pointer hover:shadow-lg transition-shadow"
+                  onClick={() => navigate(`/project/${project.id}`)}
+                >
+                  <div className="aspect-video bg-muted">
+                    {project.images[0] ? (
+                      <img src={project.images[0]} alt={project.name} className="size-full object-cover" />
+                    ) : (
+                      <div className="flex size-full items-center justify-center">
+                        <Icon icon="solar:buildings-2-bold" className="size-12 text-muted-foreground" />
+                      </div>
+                    )}
+                  </div>
+                  <CardContent className="pt-4 space-y-3">
+                    <div>
+                      <div className="flex items-start justify-between gap-2">
+                        <h3 className="font-semibold text-lg">{project.name}</h3>
+                        <Badge variant="secondary" className="capitalize shrink-0">{project.status.replace(/_/g, ' ')}</Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground">{project.location}, {project.city}</p>
+                    </div>
+
+                    {project.availability.available_from !== null ? (
+                      <p className="font-medium">
+                        Units available from {formatCurrency(project.availability.available_from)}
+                      </p>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">No units available right now</p>
+                    )}
+
+                    {project.availability.configurations.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {project.availability.configurations.map(configuration => (
+                          <Badge key={configuration.bedrooms} variant="outline">
+                            {bhkLabel(configuration.bedrooms)} · {configuration.available_units}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+
+                    <div className="flex items-center justify-between gap-2">
+                      {project.expected_completion ? (
+                        <p className="text-xs text-muted-foreground">Possession by {formatDate(project.expected_completion)}</p>
+                      ) : <span />}
+                      <Button
+                        size="sm"
+                        variant={compareIds.includes(project.id) ? 'default' : 'outline'}
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          toggleCompare(project.id);
+                        }}
+                      >
+                        <Icon icon={compareIds.includes(project.id) ? 'solar:check-circle-bold' : 'solar:scale-bold'} className="size-4 mr-1" />
+                        Compare
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {pagination.totalPages > 1 && (
+              <div className="flex items-center justify-center gap-4 mt-8">
+                <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(current => current - 1)}>
+                  Previous
+                </Button>
+                <span className="text-sm text-muted-foreground">Page {page} of {pagination.totalPages}</span>
+                <Button variant="outline" size="sm" disabled={page >= pagination.totalPages} onClick={() => setPage(current => current + 1)}>
+                  Next
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+
+        {compareIds.length > 0 && (
+          <div className="sticky bottom-4 mt-8 flex justify-center">
+            <Card className="shadow-lg">
+              <CardContent className="flex items-center gap-4 py-3">
+                <span className="text-sm">
+                  {compareIds.length} of {MAX_COMPARED_PROJECTS} projects selected
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => setCompareIds([])}>Clear</Button>
+                <Button
+                  size="sm"
+                  disabled={compareIds.length < 2}
+                  onClick={() => navigate(`/projects/compare?ids=${compareIds.join(',')}`)}
+                >
+                  <Icon icon="solar:scale-bold" className="size-4 mr-2" />
+                  Compare
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
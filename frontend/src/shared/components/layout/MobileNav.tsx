@@ -59,6 +59,7 @@ export function MobileNav({ isOpen, onToggle }: MobileNavProps) {
   const publicNavItems = [
     { icon: 'solar:home-2-bold', label: 'Home', path: '/' },
     { icon: 'solar:buildings-2-bold', label: 'Properties', path: '/properties' },
+    { icon: 'solar:city-bold', label: 'New Projects', path: '/projects' },
     { icon: 'solar:calculator-bold', label: 'Calculators', path: '/calculators' },
     { icon: 'solar:phone-bold', label: 'Contact', path: '/contact' },
   ];
@@ -0,0 +1,46 @@
+import * as React from "react"
+
+export interface ComparisonRow {
+  label: string
+  // One value per compared item, in column order
+  values: React.ReactNode[]
+}
+
+export interface ComparisonTableProps {
+  // Column headings, one per compared item
+  columns: Array<{ key: React.Key; title: React.ReactNode }>
+  rows: ComparisonRow[]
+}
+
+const ComparisonTable = ({ columns, rows }: ComparisonTableProps) => (
+  <div className="overflow-x-auto">
+    <table className="w-full">
+      <thead>
+        <tr className="border-b">
+          <th className="text-left py-3 px-4 font-medium">Feature</th>
+          {columns.map((column) => (
+            <th key={column.key} className="text-left py-3 px-4 font-medium min-w-[200px]">
+              <div className="truncate">{column.title}</div>
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.label} className="border-b hover:bg-muted/50">
+            <td className="py-3 px-4 font-medium text-muted-foreground align-top">
+              {row.label}
+            </td>
+            {row.values.map((value, valueIndex) => (
+              <td key={valueIndex} className="py-3 px-4 align-top">
+                {value}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+)
+
+export { ComparisonTable }
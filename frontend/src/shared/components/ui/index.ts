@@ -25,6 +25,7 @@ export * from './avatar'
 export * from './badge'
 export * from './calendar'
 export * from './checkbox'
+export * from './comparison-table'
 export * from './dialog'
 export * from './dropdown-menu'
 export * from './label'
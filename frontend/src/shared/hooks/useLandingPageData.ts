@@ -31,13 +31,16 @@ export function useLandingPageData(): UseLandingPageDataReturn {
       setLoading(true);
       setError(null);
 
-      // OPTIMIZED: Only 2 API calls instead of 4
-      const [propertiesResponse, projectsResponse] = await Promise.allSettled([
+      // OPTIMIZED: Only 3 API calls instead of 4
+      const [propertiesResponse, projectsResponse, recommendedResponse] = await Promise.allSettled([
         // Single call to get all properties (limit 20 to cover all needs)
         api.getProperties({ status: 'active' }, 1, 20),
         
         // Single call to get recent projects
-        api.getRecentProjects(6)
+        api.getRecentProjects(6),
+
+        // Personalised for signed-in users, popular listings otherwise
+        api.getRecommendedProperties(8)
       ]);
 
       console.log("The properties and projects are",propertiesResponse,projectsResponse)
@@ -64,7 +67,7 @@ export function useLandingPageData(): UseLandingPageDataReturn {
         // Recent properties (latest 8)
         newData.recentProperties = sortedByDate.slice(0, 8);
         
-        // Recommended properties (featured first, then recent)
+        // Fallback recommendations (featured first, then recent) if the recommendations call fails
         const featured = newData.featuredProperties;
         const recommended = [
           ...featured,
@@ -75,6 +78,10 @@ export function useLandingPageData(): UseLandingPageDataReturn {
         console.warn('Failed to fetch properties:', propertiesResponse.reason);
       }
 
+      if (recommendedResponse.status === 'fulfilled' && recommendedResponse.value.data?.length) {
+        newData.recommendedProperties = recommendedResponse.value.data;
+      }
+
       // Process recent projects
       if (projectsResponse.status === 'fulfilled') {
         newData.recentProjects = projectsResponse.value.data || [];
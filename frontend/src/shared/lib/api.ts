@@ -1,6 +1,9 @@
 import { getValidToken } from '@/features/auth/utils';
 // Import standardized types
 import type { Property, PropertyImage, Project, ProjectImage } from '@/shared/types';
+import type { SearchAreaGeometry, PropertySuggestion } from '@/features/property/types/search';
+import type { PropertySearchFacets } from '@/features/property/types/filters';
+import type { PropertyPriceHistory, ListingAction, ListingLifecycle } from '@/features/property/types/property';
 
 // Update the API_BASE_URL to match your backend port
 const API_BASE_URL = (import.meta.env.VITE_API_URL as string) || 'http://localhost:3000/api/v1';
@@ -45,6 +48,8 @@ export interface ProjectUnit {
   bedrooms: number;
   status: 'available' | 'sold' | 'blocked' | 'reserved';
   floor_plan_image?: string;
+  // The floor plan asset the image comes from
+  floor_plan_asset_id?: number | null;
   specifications?: Record<string, any>;
   amenities?: string[];
   is_corner_unit: boolean;
@@ -54,6 +59,426 @@ export interface ProjectUnit {
   project?: Project;
 }
 
+export type UnitReservationStatus = 'held' | 'booked' | 'released' | 'expired';
+
+export interface UnitReservation {
+  id: number;
+  project_id: number;
+  unit_id: number;
+  buyer_id: number;
+  status: UnitReservationStatus;
+  expires_at?: string | null;
+  booked_at?: string | null;
+  booked_by?: number | null;
+  released_at?: string | null;
+  released_by?: number | null;
+  notes?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StackingPlanUnit {
+  id: number;
+  unit_number: string;
+  unit_type: string;
+  status: ProjectUnit['status'];
+  price: number;
+  price_per_sqft: number | null;
+  area_sqft: number;
+  bedrooms: number;
+  is_corner_unit: boolean;
+  price_heat: number | null;
+  reservation_status: UnitReservationStatus | null;
+}
+
+export interface StackingPlan {
+  towers: Array<{
+    tower: string | null;
+    floors: Array<{ floor_number: number; units: StackingPlanUnit[] }>;
+    unit_count: number;
+    max_units_per_floor: number;
+  }>;
+  total_units: number;
+  status_counts: Record<ProjectUnit['status'], number>;
+  price_per_sqft: { min: number; max: number } | null;
+}
+
+// Pricing rules as sent to the API; rates are per sqft
+export interface PriceListRulesInput {
+  baseRatePerSqft: number;
+  unitTypeRates?: Record<string, number> | null;
+  floorRisePerSqft?: number;
+  floorRiseFromFloor?: number;
+  cornerPlcPerSqft?: number;
+  terracePlcPerSqft?: number;
+  parkingChargePerSpace?: number;
+  effectiveFrom?: string;
+  notes?: string;
+}
+
+export interface ProjectPriceList {
+  id: number;
+  project_id: number;
+  version: number;
+  base_rate_per_sqft: number | string;
+  unit_type_rates?: Record<string, number> | null;
+  floor_rise_per_sqft: number | string;
+  floor_rise_from_floor: number;
+  corner_plc_per_sqft: number | string;
+  terrace_plc_per_sqft: number | string;
+  parking_charge_per_space: number | string;
+  effective_from: string;
+  applied_at?: string | null;
+  units_repriced?: number | null;
+  notes?: string | null;
+  created_at: string;
+}
+
+export interface PriceListItem {
+  unit_id?: number | null;
+  unit_number: string;
+  unit_type: string;
+  tower?: string | null;
+  floor_number: number;
+  area_sqft: number | string;
+  base_amount: number | string;
+  floor_rise_amount: number | string;
+  plc_amount: number | string;
+  parking_amount: number | string;
+  total_price: number | string;
+  price_per_sqft: number | string;
+}
+
+export interface PriceListSummary {
+  units: number;
+  price_range: { min: number; max: number } | null;
+  total_value: number;
+}
+
+export interface PriceListDetails {
+  price_list: ProjectPriceList;
+  items: PriceListItem[];
+  summary: PriceListSummary;
+}
+
+export type ProjectUpdateType = 'milestone' | 'progress' | 'quarterly_report';
+
+export interface ConstructionStage {
+  name: string;
+  percent: number;
+}
+
+export interface ProjectUpdatePhoto {
+  id: number;
+  url: string;
+  thumbnailUrl?: string;
+  mediumUrl?: string;
+  largeUrl?: string;
+}
+
+export interface ProjectUpdate {
+  id: number;
+  project_id: number;
+  update_type: ProjectUpdateType;
+  title: string;
+  description?: string | null;
+  update_date: string;
+  progress_percent?: number | string | null;
+  stages?: ConstructionStage[] | null;
+  report_year?: number | null;
+  report_quarter?: number | null;
+  inventory_snapshot?: {
+    total_units: number;
+    available_units: number;
+    blocked_units: number;
+    sold_units: number;
+  } | null;
+  notified_at?: string | null;
+  recipients_notified?: number | null;
+  photos: ProjectUpdatePhoto[];
+  created_at: string;
+}
+
+export interface PaymentPlanStage {
+  name: string;
+  percent: number;
+  due_after_days: number;
+}
+
+export interface PaymentPlan {
+  id: number;
+  project_id: number;
+  name: string;
+  description?: string | null;
+  stages: PaymentPlanStage[];
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface PaymentPlanInput {
+  name: string;
+  description?: string;
+  isActive?: boolean;
+  stages: Array<{ name: string; percent: number; dueAfterDays: number }>;
+}
+
+export type InstallmentStatus = 'pending' | 'partially_paid' | 'paid' | 'overdue';
+
+export interface InstallmentPayment {
+  id: number;
+  installment_id: number;
+  amount: number | string;
+  paid_on: string;
+  method?: string | null;
+  reference?: string | null;
+  notes?: string | null;
+  created_at: string;
+}
+
+export interface UnitInstallment {
+  id: number;
+  schedule_id: number;
+  sequence: number;
+  name: string;
+  percent: number | string;
+  amount: number | string;
+  due_date: string;
+  paid_amount: number | string;
+  paid_at?: string | null;
+  status: InstallmentStatus;
+  outstanding_amount: number;
+  payments: InstallmentPayment[];
+}
+
+export interface PaymentScheduleSummary {
+  total_amount: number;
+  paid_amount: number;
+  outstanding_amount: number;
+  overdue_amount: number;
+  overdue_installments: number;
+  next_due_date: string | null;
+}
+
+export interface PaymentScheduleDetails {
+  schedule: {
+    id: number;
+    project_id: number;
+    unit_id: number;
+    reservation_id: number;
+    buyer_id: number;
+    plan_id?: number | null;
+    plan_name: string;
+    total_amount: number | string;
+    booking_date: string;
+    status: 'active' | 'cancelled';
+  };
+  installments: UnitInstallment[];
+  summary: PaymentScheduleSummary;
+}
+
+export interface PaymentReceivable {
+  schedule_id: number;
+  unit_id: number;
+  unit_number: string;
+  tower: string | null;
+  buyer_id: number;
+  plan_name: string;
+  summary: PaymentScheduleSummary;
+}
+
+export interface UnitConfiguration {
+  bedrooms: number;
+  available_units: number;
+  min_price: number;
+  max_price: number;
+  min_area_sqft: number;
+  max_area_sqft: number;
+}
+
+export interface ProjectAvailability {
+  available_units: number;
+  available_from: number | null;
+  configurations: UnitConfiguration[];
+}
+
+export interface PublicProjectSummary {
+  id: number;
+  name: string;
+  description?: string;
+  location: string;
+  city: string;
+  state: string;
+  project_type: string;
+  status: string;
+  total_units: number;
+  available_units: number;
+  expected_completion?: string | null;
+  pricing?: Record<string, any> | null;
+  amenities?: string[];
+  images: string[];
+  builder: { id: number; first_name: string; last_name: string; email: string } | null;
+  availability: ProjectAvailability;
+  created_at: string;
+}
+
+export interface UnitMixEntry {
+  unit_type: string;
+  bedrooms: number;
+  total_units: number;
+  available_units: number;
+  min_area_sqft: number;
+  max_area_sqft: number;
+}
+
+export interface ProjectComparison {
+  id: number;
+  name: string;
+  location: string;
+  city: string;
+  state: string;
+  project_type: string;
+  status: string;
+  image: string | null;
+  builder: { id: number; name: string } | null;
+  possession_date: string | null;
+  rera_number: string | null;
+  amenities: string[];
+  total_units: number;
+  available_units: number;
+  // From available units; null when sold out
+  price_range: { min: number; max: number } | null;
+  price_per_sqft_range: { min: number; max: number } | null;
+  unit_mix: UnitMixEntry[];
+}
+
+export interface ProjectSearchParams {
+  location?: string;
+  city?: string;
+  // Comma-separated lists
+  project_type?: string;
+  status?: string;
+  bedrooms?: string;
+  possession_from?: string;
+  possession_to?: string;
+  min_price?: number;
+  max_price?: number;
+  sort?: 'newest' | 'price_asc' | 'price_desc' | 'possession';
+  limit?: number;
+  page?: number;
+}
+
+export interface PublicProjectUnit {
+  id: number;
+  unit_number: string;
+  unit_type: string;
+  tower: string | null;
+  floor_number: number;
+  bedrooms: number;
+  bathrooms: number;
+  area_sqft: number;
+  price: number;
+  price_per_sqft: number;
+  is_corner_unit: boolean;
+  has_terrace: boolean;
+}
+
+export type UnitImportAction = 'create' | 'update' | 'unchanged' | 'conflict';
+
+export interface UnitImportRow {
+  row: number;
+  action: UnitImportAction;
+  unit_id: number | null;
+  unit_number: string | null;
+  tower: string | null;
+  changes?: Record<string, { from: string | number | boolean | null; to: string | number | boolean | null }>;
+  reasons?: string[];
+}
+
+export interface UnitImportPreview {
+  rows: UnitImportRow[];
+  summary: { created: number; updated: number; unchanged: number; conflicting: number };
+  digest: string;
+}
+
+export type BuilderTeamRole = 'sales' | 'inventory_manager' | 'marketing';
+
+export type ProjectPermission = 'view' | 'manage_project' | 'manage_inventory' | 'manage_pricing' | 'manage_sales' | 'manage_marketing';
+
+export interface TeamMember {
+  id: number;
+  email: string;
+  name: string | null;
+  user_id: number | null;
+  role: BuilderTeamRole;
+  permissions: ProjectPermission[];
+  // null when the member works on all of the builder's projects
+  project_ids: number[] | null;
+  status: 'invited' | 'active';
+  invite_expires_at: string | null;
+  accepted_at: string | null;
+  created_at: string;
+}
+
+export interface TeamMemberInput {
+  role: BuilderTeamRole;
+  projectIds: number[] | null;
+}
+
+export interface TeamMembership {
+  id: number;
+  builder: { id: number; name: string; email: string };
+  role: BuilderTeamRole;
+  permissions: ProjectPermission[];
+  projects: Array<{ id: number; name: string }>;
+  all_projects: boolean;
+  accepted_at: string | null;
+}
+
+export type ProjectAssetType = 'brochure' | 'floor_plan' | 'tour_3d';
+
+export interface ProjectAsset {
+  id: number;
+  project_id: number;
+  asset_type: ProjectAssetType;
+  title: string;
+  unit_type: string | null;
+  // The file, or the tour link; null on public pages when the file is behind a lead form
+  file_url: string | null;
+  mime_type: string | null;
+  file_size: number | null;
+  preview_url: string | null;
+  thumbnail_url: string | null;
+  requires_lead: boolean;
+  display_order: number;
+  created_at: string;
+  // Floor plans only, for the project team
+  unit_ids?: number[];
+}
+
+export interface ProjectAssetInput {
+  assetType: ProjectAssetType;
+  title: string;
+  unitType?: string;
+  tourUrl?: string;
+  requiresLead?: boolean;
+  file?: File;
+}
+
+export interface AssetLeadInput {
+  name: string;
+  email: string;
+  phone?: string;
+}
+
+export interface ProjectTimeline {
+  status: string;
+  start_date: string | null;
+  expected_completion: string | null;
+  actual_completion: string | null;
+  progress_percent: number | null;
+  last_updated: string | null;
+}
+
 // Types are now imported from shared/types
 
 // Add or update these types
@@ -70,6 +495,17 @@ export interface PropertyFilters {
   status?: string;
   is_featured?: boolean;
   keywords?: string;
+  latitude?: number;
+  longitude?: number;
+  radius?: number;
+  sort_by?: string;
+  sort_order?: 'asc' | 'desc';
+  polygon?: SearchAreaGeometry;
+  amenities?: string[];
+  amenities_match?: 'all' | 'any';
+  include_facets?: boolean;
+  pagination?: 'offset' | 'cursor';
+  cursor?: string;
 }
 
 export interface SavedSearch {
@@ -130,7 +566,7 @@ export interface Favorite {
 }
 
 class ApiError extends Error {
-  constructor(public status: number, message: string) {
+  constructor(public status: number, message: string, public code?: string, public details?: any) {
     super(message);
     this.name = 'ApiError';
   }
@@ -168,7 +604,7 @@ async function apiRequest<T>(endpoint: string, options: RequestInit = {}): Promi
       
       // Throw error with backend message
       const errorMessage = errorData.error?.message || `HTTP error! status: ${response.status}`;
-      throw new ApiError(response.status, errorMessage);
+      throw new ApiError(response.status, errorMessage, errorData.error?.code, errorData.error?.details);
     }
 
     return await response.json();
@@ -216,6 +652,12 @@ export const api = {
             return;
           }
 
+          // Drawn map area is sent as GeoJSON
+          if (key === 'polygon' && typeof value === 'object') {
+            params.append('polygon', JSON.stringify(value));
+            return;
+          }
+
           params.append(backendKey, value.toString());
         }
       });
@@ -262,6 +704,12 @@ export const api = {
             return;
           }
 
+          // Drawn map area is sent as GeoJSON
+          if (key === 'polygon' && typeof value === 'object') {
+            params.append('polygon', JSON.stringify(value));
+            return;
+          }
+
           // Map other frontend parameter names to backend parameter names
           let backendKey = key;
           if (key === 'property_type') backendKey = 'property_type';
@@ -283,6 +731,53 @@ export const api = {
   },
 
 
+  // Keyset pagination: pass the previous page's nextCursor to continue
+  getPropertiesByCursor: async (
+    filters?: PropertyFilters,
+    cursor?: string,
+    limit: number = 20
+  ): Promise<{ data: Property[]; nextCursor: string | null; hasNext: boolean }> => {
+    const response = await api.getProperties({ ...filters, pagination: 'cursor', cursor }, undefined, limit) as any;
+    return {
+      data: response.data || [],
+      nextCursor: response.pagination?.nextCursor ?? null,
+      hasNext: Boolean(response.pagination?.hasNext),
+    };
+  },
+
+  getPropertyFacets: async (filters?: PropertyFilters): Promise<PropertySearchFacets | null> => {
+    // Only the facets are needed, so fetch a single result
+    const response = await api.getProperties({ ...filters, include_facets: true }, 1, 1) as any;
+    return response.facets || null;
+  },
+
+  getPropertyPriceHistory: async (id: number): Promise<PropertyPriceHistory> => {
+    const response = await apiRequest(`/properties/${id}/price-history`) as any;
+    return response.data;
+  },
+
+  getPropertyLifecycle: async (id: number): Promise<ListingLifecycle> => {
+    const response = await apiRequest(`/properties/${id}/lifecycle`) as any;
+    return response.data;
+  },
+
+  transitionPropertyListing: async (
+    id: number,
+    action: ListingAction,
+    options: { reason?: string; publishAt?: string } = {}
+  ): Promise<ListingLifecycle> => {
+    const response = await apiRequest(`/properties/${id}/lifecycle`, {
+      method: 'POST',
+      body: JSON.stringify({ action, ...options }),
+    }) as any;
+    return response.data;
+  },
+
+  getSearchSuggestions: async (query: string, limit: number = 8): Promise<PropertySuggestion[]> => {
+    const params = new URLSearchParams({ q: query, limit: limit.toString() });
+    const response = await apiRequest(`/properties/search/suggestions?${params.toString()}`) as any;
+    return response.data || [];
+  },
 
   updateProperty: (id: number, propertyData: Partial<Property>): Promise<Property> => {
     return apiRequest(`/properties/${id}`, {
@@ -298,22 +793,15 @@ export const api = {
   },
 
   // Public Projects (for landing page and public views)
-  getPublicProjects: async (params?: {
-    location?: string;
-    city?: string;
-    project_type?: string;
-    min_price?: number;
-    max_price?: number;
-    status?: string;
-    sortBy?: string;
-    sortOrder?: 'asc' | 'desc';
-    limit?: number;
-    page?: number;
-  }): Promise<{ success: boolean; data: any[]; pagination: { page: number; limit: number; total: number; totalPages: number } }> => {
+  getPublicProjects: async (params?: ProjectSearchParams): Promise<{
+    success: boolean;
+    data: PublicProjectSummary[];
+    pagination: { page: number; limit: number; total: number; totalPages: number };
+  }> => {
     const searchParams = new URLSearchParams();
     if (params) {
       Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
+        if (value !== undefined && value !== null && value !== '') {
           searchParams.append(key, value.toString());
         }
       });
@@ -336,8 +824,66 @@ export const api = {
     return response;
   },
 
+  // Get the price list of a public project, plus the one current at the signed-in user's inquiry
+  getProjectPriceList: async (id: number): Promise<{
+    success: boolean;
+    data: {
+      current: PriceListDetails | null;
+      at_inquiry: (PriceListDetails & { inquired_at: string }) | null;
+    };
+  }> => {
+    return apiRequest(`/projects/public/${id}/price-list`);
+  },
+
+  // Get the available units of a public project, optionally one BHK configuration
+  getProjectAvailability: (id: number, bedrooms?: number): Promise<{
+    success: boolean;
+    data: { configurations: UnitConfiguration[]; units: PublicProjectUnit[] };
+  }> => {
+    return apiRequest(`/projects/public/${id}/availability${bedrooms !== undefined ? `?bedrooms=${bedrooms}` : ''}`);
+  },
+
+  // Compare 2 to 4 public projects, in the order given
+  compareProjects: (ids: number[]): Promise<{
+    success: boolean;
+    data: { projects: ProjectComparison[] };
+  }> => {
+    return apiRequest(`/projects/compare?ids=${ids.join(',')}`);
+  },
+
+  // Get the construction timeline of a public project
+  getProjectUpdates: async (id: number, page: number = 1, limit: number = 10): Promise<{
+    success: boolean;
+    data: {
+      timeline: ProjectTimeline;
+      updates: ProjectUpdate[];
+      pagination: { page: number; limit: number; total: number; totalPages: number };
+    };
+  }> => {
+    return apiRequest(`/projects/public/${id}/updates?page=${page}&limit=${limit}`);
+  },
+
+  // Get the brochures, floor plans and 3D tours of a public project
+  getProjectAssets: (id: number): Promise<{
+    success: boolean;
+    data: { assets: ProjectAsset[] };
+  }> => {
+    return apiRequest(`/projects/public/${id}/assets`);
+  },
+
+  // Get a download link; assets behind a lead form need contact details unless signed in
+  downloadProjectAsset: (id: number, assetId: number, lead?: AssetLeadInput): Promise<{
+    success: boolean;
+    data: { url: string; expires_in: number | null };
+  }> => {
+    return apiRequest(`/projects/public/${id}/assets/${assetId}/download`, {
+      method: 'POST',
+      body: JSON.stringify(lead || {}),
+    });
+  },
+
   // Get recommended properties
-  getRecommendedProperties: async (limit?: number): Promise<{ success: boolean; data: any[]; total: number }> => {
+  getRecommendedProperties: async (limit?: number): Promise<{ success: boolean; data: any[]; total: number; personalized?: boolean }> => {
     const params = limit ? `?limit=${limit}` : '';
     const response = await apiRequest(`/properties/recommended${params}`) as any;
     return response;
@@ -473,7 +1019,7 @@ export const api = {
   },
 
   // Property Management
-  createProperty: async (propertyData: any): Promise<{ data: Property }> => {
+  createProperty: async (propertyData: any): Promise<{ data: Property; warning?: { code: string; message: string; details?: any } }> => {
     const response = await apiRequest('/properties', {
       method: 'POST',
       body: JSON.stringify(propertyData),
@@ -522,6 +1068,8 @@ export const api = {
       status?: string;
       property_id?: number;
       project_id?: number;
+      sort?: 'created_at' | 'status' | 'property_id' | 'score';
+      order?: 'ASC' | 'DESC';
     }): Promise<{ data: { inquiries: any[]; total: number; page: number; totalPages: number } }> => {
       const queryParams = new URLSearchParams();
       if (params) {
@@ -1064,6 +1612,25 @@ export const api = {
     });
   },
 
+  markConversationRead: (conversationId: number): Promise<{ success: boolean; data: { updated: number } }> => {
+    return apiRequest(`/messages/conversation/${conversationId}/read`, {
+      method: 'POST',
+    });
+  },
+
+  sendTypingIndicator: (conversationId: number, isTyping: boolean): Promise<{ success: boolean }> => {
+    return apiRequest(`/messages/conversation/${conversationId}/typing`, {
+      method: 'POST',
+      body: JSON.stringify({ isTyping }),
+    });
+  },
+
+  // EventSource can't send an Authorization header, so the token goes in the URL
+  getMessageStreamUrl: (): string | null => {
+    const validToken = getValidToken();
+    return validToken ? `${API_BASE_URL}/messages/stream?token=${encodeURIComponent(validToken)}` : null;
+  },
+
   // Site Visits - Updated to match backend routes
   createSiteVisit: (visitData: {
     property_id: number;
@@ -1511,51 +2078,419 @@ export const api = {
           body: JSON.stringify(pricingData),
         });
       },
-    },
 
-    // Project Images Management
-    images: {
-      // Get project images
-      getProjectImages: (projectId: number, imageType?: string): Promise<{
+      // Get units grouped by tower and floor
+      getStackingPlan: async (projectId: number): Promise<{
         success: boolean;
-        data: { images: ProjectImage[] };
+        data: StackingPlan;
       }> => {
-        const params = imageType ? `?image_type=${imageType}` : '';
-        return apiRequest(`/projects/${projectId}/images${params}`);
+        return apiRequest(`/projects/${projectId}/units/stacking-plan`);
       },
 
-      // Upload project images
-      uploadProjectImages: (projectId: number, formData: FormData): Promise<{
+      // Change the status of several units in one operation
+      bulkUpdateStatus: async (projectId: number, unitIds: number[], status: ProjectUnit['status']): Promise<{
         success: boolean;
-        data: { images: ProjectImage[] };
+        data: { status: ProjectUnit['status']; updated: number[]; unchanged: number[] };
         message: string;
       }> => {
+        return apiRequest(`/projects/${projectId}/units/status`, {
+          method: 'PATCH',
+          body: JSON.stringify({ unitIds, status }),
+        });
+      },
+
+      // All units as a CSV or XLSX file
+      exportUnits: async (projectId: number, format: 'csv' | 'xlsx'): Promise<Blob> => {
         const validToken = getValidToken();
-        return fetch(`${API_BASE_URL}/projects/${projectId}/images`, {
-          method: 'POST',
-          body: formData,
+        const response = await fetch(`${API_BASE_URL}/projects/${projectId}/units/export?format=${format}`, {
           headers: {
             ...(validToken && { Authorization: `Bearer ${validToken}` }),
           },
-        }).then(res => res.json());
+        });
+
+        if (!response.ok) {
+          const data = await response.json().catch(() => null);
+          throw new Error(data?.error?.message || 'Failed to export units');
+        }
+        return response.blob();
       },
 
-      // Update image details
-      updateProjectImage: (projectId: number, imageId: number, imageData: {
-        alt_text?: string;
-        image_type?: string;
-        is_primary?: boolean;
-        display_order?: number;
-      }): Promise<{
+      // Diff an edited export against the current units; nothing is saved
+      previewImport: (projectId: number, file: File): Promise<{
         success: boolean;
-        data: { image: ProjectImage };
-        message: string;
+        data: UnitImportPreview;
       }> => {
-        return apiRequest(`/projects/${projectId}/images/${imageId}`, {
-          method: 'PUT',
-          body: JSON.stringify(imageData),
-        });
-      },
+        const formData = new FormData();
+        formData.append('file', file);
+        const validToken = getValidToken();
+        return fetch(`${API_BASE_URL}/projects/${projectId}/units/import/preview`, {
+          method: 'POST',
+          body: formData,
+          headers: {
+            ...(validToken && { Authorization: `Bearer ${validToken}` }),
+          },
+        }).then(async res => {
+          const data = await res.json();
+          if (!res.ok) {
+            throw new Error(data.error?.message || 'Failed to read the file');
+          }
+          return data;
+        });
+      },
+
+      // Apply a previewed import; the digest must match the preview
+      applyImport: (projectId: number, file: File, digest: string): Promise<{
+        success: boolean;
+        data: UnitImportPreview & { created: number[]; updated: number[] };
+        message: string;
+      }> => {
+        const formData = new FormData();
+        formData.append('file', file);
+        formData.append('digest', digest);
+        const validToken = getValidToken();
+        return fetch(`${API_BASE_URL}/projects/${projectId}/units/import`, {
+          method: 'POST',
+          body: formData,
+          headers: {
+            ...(validToken && { Authorization: `Bearer ${validToken}` }),
+          },
+        }).then(async res => {
+          const data = await res.json();
+          if (!res.ok) {
+            throw new Error(data.error?.message || 'Failed to import units');
+          }
+          return data;
+        });
+      },
+
+      // Place a time-limited hold on a unit
+      holdUnit: async (projectId: number, unitId: number, notes?: string): Promise<{
+        success: boolean;
+        data: { reservation: UnitReservation };
+        message: string;
+      }> => {
+        return apiRequest(`/projects/${projectId}/units/${unitId}/hold`, {
+          method: 'POST',
+          body: JSON.stringify({ notes }),
+        });
+      },
+
+      // Release a hold (buyer or builder) or cancel a booking (builder)
+      releaseHold: async (projectId: number, unitId: number): Promise<{
+        success: boolean;
+        data: { reservation: UnitReservation };
+        message: string;
+      }> => {
+        return apiRequest(`/projects/${projectId}/units/${unitId}/hold`, {
+          method: 'DELETE',
+        });
+      },
+
+      // Confirm the booking of a held unit (builder)
+      confirmBooking: async (projectId: number, unitId: number): Promise<{
+        success: boolean;
+        data: { reservation: UnitReservation };
+        message: string;
+      }> => {
+        return apiRequest(`/projects/${projectId}/units/${unitId}/booking`, {
+          method: 'POST',
+        });
+      },
+
+      // Get the current hold or booking on a unit
+      getReservation: async (projectId: number, unitId: number): Promise<{
+        success: boolean;
+        data: { reservation: UnitReservation | null };
+      }> => {
+        return apiRequest(`/projects/${projectId}/units/${unitId}/reservation`);
+      },
+    },
+
+    // Versioned price lists and pricing rules
+    priceLists: {
+      // All versions, newest first
+      getPriceLists: (projectId: number): Promise<{
+        success: boolean;
+        data: { priceLists: ProjectPriceList[] };
+      }> => {
+        return apiRequest(`/projects/${projectId}/price-lists`);
+      },
+
+      // One version with its unit prices
+      getPriceList: (projectId: number, priceListId: number): Promise<{
+        success: boolean;
+        data: PriceListDetails;
+      }> => {
+        return apiRequest(`/projects/${projectId}/price-lists/${priceListId}`);
+      },
+
+      // Unit prices the rules would produce, without saving
+      previewPriceList: (projectId: number, rules: PriceListRulesInput): Promise<{
+        success: boolean;
+        data: { items: PriceListItem[]; summary: PriceListSummary };
+      }> => {
+        return apiRequest(`/projects/${projectId}/price-lists/preview`, {
+          method: 'POST',
+          body: JSON.stringify(rules),
+        });
+      },
+
+      // Create the next version; applied immediately unless effectiveFrom is in the future
+      createPriceList: (projectId: number, rules: PriceListRulesInput): Promise<{
+        success: boolean;
+        data: { priceList: ProjectPriceList };
+        message: string;
+      }> => {
+        return apiRequest(`/projects/${projectId}/price-lists`, {
+          method: 'POST',
+          body: JSON.stringify(rules),
+        });
+      },
+
+      // Withdraw a version that has not taken effect
+      deletePriceList: (projectId: number, priceListId: number): Promise<{
+        success: boolean;
+        message: string;
+      }> => {
+        return apiRequest(`/projects/${projectId}/price-lists/${priceListId}`, {
+          method: 'DELETE',
+        });
+      },
+    },
+
+    // Construction milestones, progress updates and quarterly reports
+    updates: {
+      // All updates for the project, latest first
+      getUpdates: (projectId: number): Promise<{
+        success: boolean;
+        data: { updates: ProjectUpdate[] };
+      }> => {
+        return apiRequest(`/projects/${projectId}/updates`);
+      },
+
+      // Post an update; formData carries the fields and up to 10 images in "photos"
+      createUpdate: (projectId: number, formData: FormData): Promise<{
+        success: boolean;
+        data: { update: ProjectUpdate; failedPhotos: Array<{ filename: string; error: string }> };
+        message: string;
+      }> => {
+        const validToken = getValidToken();
+        return fetch(`${API_BASE_URL}/projects/${projectId}/updates`, {
+          method: 'POST',
+          body: formData,
+          headers: {
+            ...(validToken && { Authorization: `Bearer ${validToken}` }),
+          },
+        }).then(async res => {
+          const data = await res.json();
+          if (!res.ok) {
+            throw new Error(data.error?.message || 'Failed to post update');
+          }
+          return data;
+        });
+      },
+
+      // Delete an update and its photos
+      deleteUpdate: (projectId: number, updateId: number): Promise<{
+        success: boolean;
+        message: string;
+      }> => {
+        return apiRequest(`/projects/${projectId}/updates/${updateId}`, {
+          method: 'DELETE',
+        });
+      },
+    },
+
+    // Payment plan templates
+    paymentPlans: {
+      getPlans: (projectId: number): Promise<{
+        success: boolean;
+        data: { plans: PaymentPlan[] };
+      }> => {
+        return apiRequest(`/projects/${projectId}/payment-plans`);
+      },
+
+      createPlan: (projectId: number, plan: PaymentPlanInput): Promise<{
+        success: boolean;
+        data: { plan: PaymentPlan };
+        message: string;
+      }> => {
+        return apiRequest(`/projects/${projectId}/payment-plans`, {
+          method: 'POST',
+          body: JSON.stringify(plan),
+        });
+      },
+
+      // Existing schedules keep their installments
+      updatePlan: (projectId: number, planId: number, plan: PaymentPlanInput): Promise<{
+        success: boolean;
+        data: { plan: PaymentPlan };
+        message: string;
+      }> => {
+        return apiRequest(`/projects/${projectId}/payment-plans/${planId}`, {
+          method: 'PUT',
+          body: JSON.stringify(plan),
+        });
+      },
+
+      deletePlan: (projectId: number, planId: number): Promise<{
+        success: boolean;
+        message: string;
+      }> => {
+        return apiRequest(`/projects/${projectId}/payment-plans/${planId}`, {
+          method: 'DELETE',
+        });
+      },
+    },
+
+    // Installments for booked units
+    paymentSchedules: {
+      // Paid, outstanding and overdue amounts per booked unit
+      getReceivables: (projectId: number, overdueOnly: boolean = false): Promise<{
+        success: boolean;
+        data: { schedules: PaymentReceivable[]; totals: Omit<PaymentScheduleSummary, 'next_due_date'> };
+      }> => {
+        return apiRequest(`/projects/${projectId}/payment-schedules${overdueOnly ? '?overdue=true' : ''}`);
+      },
+
+      getSchedule: (projectId: number, unitId: number): Promise<{
+        success: boolean;
+        data: PaymentScheduleDetails | null;
+      }> => {
+        return apiRequest(`/projects/${projectId}/units/${unitId}/payment-schedule`);
+      },
+
+      applyPlan: (projectId: number, unitId: number, planId: number, bookingDate?: string): Promise<{
+        success: boolean;
+        data: PaymentScheduleDetails;
+        message: string;
+      }> => {
+        return apiRequest(`/projects/${projectId}/units/${unitId}/payment-schedule`, {
+          method: 'POST',
+          body: JSON.stringify({ planId, ...(bookingDate && { bookingDate }) }),
+        });
+      },
+
+      // Only possible while no payments are recorded
+      removeSchedule: (projectId: number, unitId: number): Promise<{
+        success: boolean;
+        message: string;
+      }> => {
+        return apiRequest(`/projects/${projectId}/units/${unitId}/payment-schedule`, {
+          method: 'DELETE',
+        });
+      },
+
+      rescheduleInstallment: (projectId: number, unitId: number, installmentId: number, dueDate: string): Promise<{
+        success: boolean;
+        data: { installment: Omit<UnitInstallment, 'status' | 'outstanding_amount' | 'payments'> };
+        message: string;
+      }> => {
+        return apiRequest(`/projects/${projectId}/units/${unitId}/payment-schedule/installments/${installmentId}`, {
+          method: 'PATCH',
+          body: JSON.stringify({ dueDate }),
+        });
+      },
+
+      recordPayment: (projectId: number, unitId: number, installmentId: number, payment: {
+        amount: number;
+        paidOn?: string;
+        method?: string;
+        reference?: string;
+        notes?: string;
+      }): Promise<{
+        success: boolean;
+        data: PaymentScheduleDetails;
+        message: string;
+      }> => {
+        return apiRequest(`/projects/${projectId}/units/${unitId}/payment-schedule/installments/${installmentId}/payments`, {
+          method: 'POST',
+          body: JSON.stringify(payment),
+        });
+      },
+
+      // Demand letter PDF for an unpaid installment
+      downloadDemandLetter: async (projectId: number, unitId: number, installmentId: number): Promise<Blob> => {
+        const validToken = getValidToken();
+        const response = await fetch(
+          `${API_BASE_URL}/projects/${projectId}/units/${unitId}/payment-schedule/installments/${installmentId}/demand-letter`,
+          {
+            headers: {
+              ...(validToken && { Authorization: `Bearer ${validToken}` }),
+            },
+          }
+        );
+
+        if (!response.ok) {
+          const data = await response.json().catch(() => null);
+          throw new Error(data?.error?.message || 'Failed to download demand letter');
+        }
+        return response.blob();
+      },
+    },
+
+    // Unit reservations across projects
+    reservations: {
+      // Reservations on a builder's project
+      getProjectReservations: (projectId: number, status?: UnitReservationStatus): Promise<{
+        success: boolean;
+        data: { reservations: UnitReservation[] };
+      }> => {
+        return apiRequest(`/projects/${projectId}/reservations${status ? `?status=${status}` : ''}`);
+      },
+
+      // The current user's holds and bookings
+      getMine: (): Promise<{
+        success: boolean;
+        data: { reservations: UnitReservation[] };
+      }> => {
+        return apiRequest('/projects/reservations/mine');
+      },
+    },
+
+    // Project Images Management
+    images: {
+      // Get project images
+      getProjectImages: (projectId: number, imageType?: string): Promise<{
+        success: boolean;
+        data: { images: ProjectImage[] };
+      }> => {
+        const params = imageType ? `?image_type=${imageType}` : '';
+        return apiRequest(`/projects/${projectId}/images${params}`);
+      },
+
+      // Upload project images
+      uploadProjectImages: (projectId: number, formData: FormData): Promise<{
+        success: boolean;
+        data: { images: ProjectImage[] };
+        message: string;
+      }> => {
+        const validToken = getValidToken();
+        return fetch(`${API_BASE_URL}/projects/${projectId}/images`, {
+          method: 'POST',
+          body: formData,
+          headers: {
+            ...(validToken && { Authorization: `Bearer ${validToken}` }),
+          },
+        }).then(res => res.json());
+      },
+
+      // Update image details
+      updateProjectImage: (projectId: number, imageId: number, imageData: {
+        alt_text?: string;
+        image_type?: string;
+        is_primary?: boolean;
+        display_order?: number;
+      }): Promise<{
+        success: boolean;
+        data: { image: ProjectImage };
+        message: string;
+      }> => {
+        return apiRequest(`/projects/${projectId}/images/${imageId}`, {
+          method: 'PUT',
+          body: JSON.stringify(imageData),
+        });
+      },
 
       // Set primary image
       setPrimaryImage: (projectId: number, imageId: number): Promise<{
@@ -1594,6 +2529,92 @@ export const api = {
       },
     },
 
+    // Brochures, floor plans and 3D tours
+    assets: {
+      getAssets: (projectId: number): Promise<{
+        success: boolean;
+        data: { assets: ProjectAsset[] };
+      }> => {
+        return apiRequest(`/projects/${projectId}/assets`);
+      },
+
+      // Upload a brochure or floor plan, or add a 3D tour link
+      createAsset: (projectId: number, input: ProjectAssetInput): Promise<{
+        success: boolean;
+        data: { asset: ProjectAsset };
+        message: string;
+      }> => {
+        const formData = new FormData();
+        formData.append('assetType', input.assetType);
+        formData.append('title', input.title);
+        if (input.unitType) formData.append('unitType', input.unitType);
+        if (input.tourUrl) formData.append('tourUrl', input.tourUrl);
+        if (input.requiresLead !== undefined) formData.append('requiresLead', String(input.requiresLead));
+        if (input.file) formData.append('file', input.file);
+        const validToken = getValidToken();
+        return fetch(`${API_BASE_URL}/projects/${projectId}/assets`, {
+          method: 'POST',
+          body: formData,
+          headers: {
+            ...(validToken && { Authorization: `Bearer ${validToken}` }),
+          },
+        }).then(async res => {
+          const data = await res.json();
+          if (!res.ok) {
+            throw new Error(data.error?.message || 'Failed to add asset');
+          }
+          return data;
+        });
+      },
+
+      updateAsset: (projectId: number, assetId: number, changes: {
+        title?: string;
+        requiresLead?: boolean;
+        displayOrder?: number;
+      }): Promise<{
+        success: boolean;
+        data: { asset: ProjectAsset };
+        message: string;
+      }> => {
+        return apiRequest(`/projects/${projectId}/assets/${assetId}`, {
+          method: 'PATCH',
+          body: JSON.stringify(changes),
+        });
+      },
+
+      deleteAsset: (projectId: number, assetId: number): Promise<{
+        success: boolean;
+        message: string;
+      }> => {
+        return apiRequest(`/projects/${projectId}/assets/${assetId}`, {
+          method: 'DELETE',
+        });
+      },
+
+      // Link a floor plan to the given units, or to every unit of its type
+      linkUnits: (projectId: number, assetId: number, unitIds?: number[]): Promise<{
+        success: boolean;
+        data: { linked: number };
+        message: string;
+      }> => {
+        return apiRequest(`/projects/${projectId}/assets/${assetId}/units`, {
+          method: 'POST',
+          body: JSON.stringify(unitIds ? { unitIds } : {}),
+        });
+      },
+
+      unlinkUnits: (projectId: number, assetId: number, unitIds?: number[]): Promise<{
+        success: boolean;
+        data: { unlinked: number };
+        message: string;
+      }> => {
+        return apiRequest(`/projects/${projectId}/assets/${assetId}/units`, {
+          method: 'DELETE',
+          body: JSON.stringify(unitIds ? { unitIds } : {}),
+        });
+      },
+    },
+
     // Project Marketing Management
     marketing: {
       // Upload brochure
@@ -1808,6 +2829,66 @@ export const api = {
     },
   },
 
+  // Builder team members and their project access
+  builderTeam: {
+    getMembers: (): Promise<{
+      success: boolean;
+      data: { members: TeamMember[] };
+    }> => {
+      return apiRequest('/builder-team/members');
+    },
+
+    inviteMember: (invitation: TeamMemberInput & { email: string }): Promise<{
+      success: boolean;
+      data: { member: TeamMember };
+      message: string;
+    }> => {
+      return apiRequest('/builder-team/members', {
+        method: 'POST',
+        body: JSON.stringify(invitation),
+      });
+    },
+
+    updateMember: (memberId: number, member: TeamMemberInput): Promise<{
+      success: boolean;
+      data: { member: TeamMember };
+      message: string;
+    }> => {
+      return apiRequest(`/builder-team/members/${memberId}`, {
+        method: 'PATCH',
+        body: JSON.stringify(member),
+      });
+    },
+
+    removeMember: (memberId: number): Promise<{
+      success: boolean;
+      message: string;
+    }> => {
+      return apiRequest(`/builder-team/members/${memberId}`, {
+        method: 'DELETE',
+      });
+    },
+
+    // Teams the signed-in user works on
+    getMemberships: (): Promise<{
+      success: boolean;
+      data: { memberships: TeamMembership[] };
+    }> => {
+      return apiRequest('/builder-team/memberships');
+    },
+
+    acceptInvitation: (token: string): Promise<{
+      success: boolean;
+      data: { membership: TeamMembership };
+      message: string;
+    }> => {
+      return apiRequest('/builder-team/invitations/accept', {
+        method: 'POST',
+        body: JSON.stringify({ token }),
+      });
+    },
+  },
+
   // Projects - Public projects listing
   getProjects: async (filters?: ProjectFilters): Promise<{
     success: boolean;
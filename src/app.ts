@@ -13,18 +13,37 @@ import {
 import apiRoutes from './routes';
 import PropertyExpirationService from './services/propertyExpirationService';
 import CacheManagementService from './services/cacheManagementService';
+import PriceDropAlertService from './services/priceDropAlertService';
+import ListingLifecycleService from './services/listingLifecycleService';
+import UnitReservationService from './services/unitReservationService';
+import ProjectPricingService from './services/projectPricingService';
+import LeadRoutingService from './services/leadRoutingService';
+import LeadPipelineService from './services/leadPipelineService';
+import realtimeService from './services/realtimeService';
 
 class App {
   public app: Application;
   private redis: RedisConnection;
   private expirationService: PropertyExpirationService;
   private cacheManagementService: CacheManagementService;
+  private priceDropAlertService: PriceDropAlertService;
+  private listingLifecycleService: ListingLifecycleService;
+  private unitReservationService: UnitReservationService;
+  private projectPricingService: ProjectPricingService;
+  private leadRoutingService: LeadRoutingService;
+  private leadPipelineService: LeadPipelineService;
 
   constructor() {
     this.app = express();
     this.redis = RedisConnection.getInstance();
     this.expirationService = new PropertyExpirationService();
     this.cacheManagementService = new CacheManagementService();
+    this.priceDropAlertService = new PriceDropAlertService();
+    this.listingLifecycleService = new ListingLifecycleService();
+    this.unitReservationService = new UnitReservationService();
+    this.projectPricingService = new ProjectPricingService();
+    this.leadRoutingService = new LeadRoutingService();
+    this.leadPipelineService = new LeadPipelineService();
 
     this.initializeMiddlewares();
     this.initializeRoutes();
@@ -184,6 +203,27 @@ class App {
       // Start property expiration service
       this.expirationService.start();
 
+      // Notify favorites and saved searches about price drops
+      this.priceDropAlertService.start();
+
+      // Publish scheduled listings when they are due
+      this.listingLifecycleService.start();
+
+      // Release unit holds that were not booked in time
+      this.unitReservationService.start();
+
+      // Reprice units when scheduled price lists take effect
+      this.projectPricingService.start();
+
+      // Flag routed leads nobody responded to in time
+      this.leadRoutingService.start();
+
+      // Remind agents of follow-ups as they fall due
+      this.leadPipelineService.start();
+
+      // Fan conversation events out to connected clients across instances
+      await realtimeService.start();
+
       // Start server
       this.app.listen(config.server.port, () => {
         console.log(`🚀 Server running on port ${config.server.port}`);
@@ -201,6 +241,13 @@ class App {
 
     try {
       this.expirationService.stop();
+      this.priceDropAlertService.stop();
+      this.listingLifecycleService.stop();
+      this.unitReservationService.stop();
+      this.projectPricingService.stop();
+      this.leadRoutingService.stop();
+      this.leadPipelineService.stop();
+      await realtimeService.stop();
       await this.cacheManagementService.shutdown();
       await this.redis.disconnect();
       console.log('✅ Server shutdown complete');
@@ -17,6 +17,9 @@ import UrlRedirect from '../models/UrlRedirect';
 import CmsContent from '../models/CmsContent';
 import SeoSettings, { SeoSettings as SeoSettingsClass } from '../models/SeoSettings';
 import SiteVisitDefault, { SiteVisit } from '../models/SiteVisit';
+import { PropertyPriceHistory } from '../models/PropertyPriceHistory';
+import { PropertyStateTransition } from '../models/PropertyStateTransition';
+import { PropertyDuplicateFlag } from '../models/PropertyDuplicateFlag';
 
 const sequelize = new Sequelize({
   database: config.database.name,
@@ -76,6 +79,9 @@ export const connectDatabase = async (): Promise<void> => {
       CmsContent,
       SeoSettingsClass,
       SiteVisit,
+      PropertyPriceHistory,
+      PropertyStateTransition,
+      PropertyDuplicateFlag,
     ]);
     console.log('📋 Models loaded successfully.');
     
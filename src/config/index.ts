@@ -44,6 +44,17 @@ interface Config {
   cors: {
     origin: string;
   };
+  duplicates: {
+    warnThreshold: number;
+    blockThreshold: number;
+  };
+  reservations: {
+    holdMinutes: number;
+    maxActiveHoldsPerBuyer: number;
+  };
+  leads: {
+    responseSlaMinutes: number;
+  };
 }
 
 const config: Config = {
@@ -88,6 +99,20 @@ const config: Config = {
   cors: {
     origin: process.env.CORS_ORIGIN || 'http://localhost:3000',
   },
+  duplicates: {
+    // Similarity (0-1) at which a new listing is flagged for review, and at which it is refused
+    warnThreshold: parseFloat(process.env.DUPLICATE_WARN_THRESHOLD || '0.75'),
+    blockThreshold: parseFloat(process.env.DUPLICATE_BLOCK_THRESHOLD || '0.92'),
+  },
+  reservations: {
+    // How long a buyer's hold on a project unit lasts before it is released automatically
+    holdMinutes: parseInt(process.env.UNIT_HOLD_MINUTES || '1440', 10), // 24 hours
+    maxActiveHoldsPerBuyer: parseInt(process.env.UNIT_MAX_HOLDS_PER_BUYER || '3', 10),
+  },
+  leads: {
+    // Time allowed for the first response to a routed lead, unless its routing rule sets one
+    responseSlaMinutes: parseInt(process.env.LEAD_RESPONSE_SLA_MINUTES || '60', 10),
+  },
 };
 
 export default config;
\ No newline at end of file
@@ -1,12 +1,16 @@
 import { Request, Response } from 'express';
 import AdminService from '../services/adminService';
+import DuplicateDetectionService from '../services/duplicateDetectionService';
 import { AuthenticatedRequest, ApiResponse, UserRole } from '../types';
+import { ApiError, sendErrorResponse } from '../utils/errorResponse';
 
 class AdminController {
   private adminService: AdminService;
+  private duplicateService: DuplicateDetectionService;
 
   constructor() {
     this.adminService = new AdminService();
+    this.duplicateService = new DuplicateDetectionService();
   }
 
   /**
@@ -92,17 +96,25 @@ class AdminController {
       const isActive = req.query.isActive ? req.query.isActive === 'true' : undefined;
       const isFeatured = req.query.isFeatured ? req.query.isFeatured === 'true' : undefined;
       const search = req.query.search as string;
+      const listingState = req.query.listingState as string;      // e.g. submitted for the review queue
 
       console.log('Fetching properties for moderation with params:', { 
-        page, limit, propertyType, isActive, isFeatured, search 
+        page, limit, propertyType, isActive, isFeatured, listingState, search 
       });
 
-      const result = await this.adminService.getPropertiesForModeration(page, limit, {
+      const filters = {
         property_type: propertyType,    // Convert camelCase to snake_case
         is_active: isActive,            // Convert camelCase to snake_case
         is_featured: isFeatured,        // Convert camelCase to snake_case
+        listing_state: listingState,
         search,
-      });
+      };
+
+      // Cursor pagination when requested or when continuing from a cursor
+      const cursor = req.query.cursor as string | undefined;
+      const result = req.query.pagination === 'cursor' || cursor !== undefined
+        ? await this.adminService.getPropertiesForModerationByCursor(limit, filters, cursor)
+        : await this.adminService.getPropertiesForModeration(page, limit, filters);
 
       console.log('Fetched properties for moderation:', result);
 
@@ -113,6 +125,10 @@ class AdminController {
       } as ApiResponse);
     } catch (error) {
       console.error('Error getting properties for moderation:', error);
+      if (error instanceof ApiError) {
+        sendErrorResponse(res, error);
+        return;
+      }
       res.status(500).json({
         success: false,
         error: {
@@ -234,7 +250,7 @@ class AdminController {
       }
 
       console.log('Updating property status:', { propertyId, updates });
-      const property = await this.adminService.updatePropertyStatus(parseInt(propertyId), updates);
+      const property = await this.adminService.updatePropertyStatus(parseInt(propertyId), updates, req.user!.userId);
 
       res.json({
         success: true,
@@ -243,6 +259,11 @@ class AdminController {
       } as ApiResponse);
     } catch (error) {
       console.error('Error updating property status:', error);
+
+      if (error instanceof ApiError) {
+        sendErrorResponse(res, error);
+        return;
+      }
       
       if (error instanceof Error && error.message === 'Property not found') {
         res.status(404).json({
@@ -373,6 +394,109 @@ class AdminController {
     }
   };
 
+  /**
+   * Get clusters of listings flagged as likely duplicates of each other
+   */
+  getDuplicateClusters = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const status = req.query.status as string;
+      if (status && !['pending', 'dismissed', 'confirmed'].includes(status)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'status must be pending, dismissed or confirmed',
+          },
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      const clusters = await this.duplicateService.getClusters((status || 'pending') as 'pending' | 'dismissed' | 'confirmed');
+
+      res.json({
+        success: true,
+        data: clusters,
+        timestamp: new Date().toISOString(),
+      } as ApiResponse);
+    } catch (error) {
+      console.error('Error getting duplicate clusters:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to get duplicate clusters',
+        },
+        timestamp: new Date().toISOString(),
+      } as ApiResponse);
+    }
+  };
+
+  /**
+   * Dismiss a duplicate cluster, or confirm it keeping one listing and taking the others down
+   */
+  reviewDuplicateCluster = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { flagIds, decision, keepPropertyId } = req.body;
+
+      if (!Array.isArray(flagIds) || flagIds.length === 0 || !flagIds.every((id: unknown) => Number.isInteger(id))) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'flagIds must be a non-empty array of flag IDs',
+          },
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      if (decision !== 'dismiss' && decision !== 'confirm') {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'decision must be dismiss or confirm',
+          },
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      const takenDown = await this.duplicateService.reviewFlags(
+        flagIds,
+        decision,
+        req.user!.userId,
+        keepPropertyId ? parseInt(keepPropertyId) : undefined
+      );
+
+      res.json({
+        success: true,
+        data: {
+          message: decision === 'confirm' ? 'Duplicates confirmed' : 'Flags dismissed',
+          takenDownPropertyIds: takenDown,
+        },
+        timestamp: new Date().toISOString(),
+      } as ApiResponse);
+    } catch (error) {
+      console.error('Error reviewing duplicate cluster:', error);
+
+      if (error instanceof ApiError) {
+        sendErrorResponse(res, error);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to review duplicate cluster',
+        },
+        timestamp: new Date().toISOString(),
+      } as ApiResponse);
+    }
+  };
+
   /**
    * Get system statistics
    */
@@ -0,0 +1,241 @@
+import { Response } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { BuilderTeamRole } from '../models/BuilderTeamMember';
+import { UserRole } from '../models/User';
+import { AuthenticatedRequest } from '../middleware/auth';
+import BuilderTeamService, { TeamMemberInput } from '../services/builderTeamService';
+import { ApiError, sendErrorResponse } from '../utils/errorResponse';
+
+interface TeamRequest extends AuthenticatedRequest {
+  user?: {
+    userId: number;
+    id: number;
+    email: string;
+    role: UserRole;
+  };
+}
+
+const builderTeamService = new BuilderTeamService();
+
+// Service failures carry their own status and code; anything else is a 500
+const sendServiceError = (res: Response, error: unknown, context: string, message: string): void => {
+  if (error instanceof ApiError) {
+    sendErrorResponse(res, error);
+    return;
+  }
+
+  console.error(`${context} error:`, error);
+  res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message,
+    },
+  });
+};
+
+// Validation failures are sent as a 400; returns whether the request may go on
+const checkValidation = (req: TeamRequest, res: Response): boolean => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return true;
+  }
+
+  res.status(400).json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid input data',
+      details: errors.array(),
+    },
+  });
+  return false;
+};
+
+// Only builder and agency accounts manage a team; returns whether the request may go on
+const checkBuilder = (req: TeamRequest, res: Response): boolean => {
+  if (req.user?.role === UserRole.BUILDER || req.user?.role === UserRole.AGENT) {
+    return true;
+  }
+
+  res.status(403).json({
+    success: false,
+    error: {
+      code: 'FORBIDDEN',
+      message: 'Access denied. Builder or agent role required.',
+    },
+  });
+  return false;
+};
+
+// Project ids arrive as null for access to all of the builder's projects
+const toMemberInput = (body: any): TeamMemberInput => ({
+  role: body.role,
+  project_ids: Array.isArray(body.projectIds) ? body.projectIds.map(Number) : null,
+});
+
+class BuilderTeamController {
+  // Validation rules
+  static memberValidation = [
+    body('role').isIn(Object.values(BuilderTeamRole)).withMessage('Invalid team role'),
+    body('projectIds')
+      .optional({ nullable: true })
+      .isArray({ min: 1, max: 500 })
+      .withMessage('Project IDs must be a non-empty list, or null for all projects'),
+    body('projectIds.*').isInt({ min: 1 }).toInt().withMessage('Project IDs must be positive integers'),
+  ];
+
+  static inviteMemberValidation = [
+    body('email').trim().isEmail().withMessage('Valid email is required'),
+    ...BuilderTeamController.memberValidation,
+  ];
+
+  static updateMemberValidation = [
+    param('memberId').isInt({ min: 1 }).withMessage('Valid member ID is required'),
+    ...BuilderTeamController.memberValidation,
+  ];
+
+  static acceptInvitationValidation = [
+    body('token').isHexadecimal().isLength({ min: 64, max: 64 }).withMessage('Valid invitation token is required'),
+  ];
+
+  // Get the builder's team members and pending invitations
+  async getMembers(req: TeamRequest, res: Response): Promise<void> {
+    try {
+      if (!checkBuilder(req, res)) {
+        return;
+      }
+
+      const members = await builderTeamService.getMembers(req.user!.userId);
+
+      res.json({
+        success: true,
+        data: { members },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Get team members', 'Failed to retrieve team members');
+    }
+  }
+
+  // Invite someone to the builder's team by email
+  async inviteMember(req: TeamRequest, res: Response): Promise<void> {
+    try {
+      if (!checkValidation(req, res) || !checkBuilder(req, res)) {
+        return;
+      }
+
+      const member = await builderTeamService.inviteMember(req.user!.userId, {
+        email: req.body.email,
+        ...toMemberInput(req.body),
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { member },
+        message: `Invitation sent to ${member.email}`,
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Invite team member', 'Failed to invite team member');
+    }
+  }
+
+  // Change a member's role or projects
+  async updateMember(req: TeamRequest, res: Response): Promise<void> {
+    try {
+      if (!checkValidation(req, res) || !checkBuilder(req, res)) {
+        return;
+      }
+
+      const member = await builderTeamService.updateMember(
+        req.user!.userId,
+        parseInt(req.params.memberId),
+        toMemberInput(req.body)
+      );
+
+      res.json({
+        success: true,
+        data: { member },
+        message: 'Team member updated',
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Update team member', 'Failed to update team member');
+    }
+  }
+
+  // Remove a member or withdraw an invitation
+  async removeMember(req: TeamRequest, res: Response): Promise<void> {
+    try {
+      if (!checkBuilder(req, res)) {
+        return;
+      }
+
+      await builderTeamService.removeMember(req.user!.userId, parseInt(req.params.memberId));
+
+      res.json({
+        success: true,
+        message: 'Team member removed',
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Remove team member', 'Failed to remove team member');
+    }
+  }
+
+  // Get the teams the signed-in user works on
+  async getMemberships(req: TeamRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const memberships = await builderTeamService.getMemberships(req.user.userId);
+
+      res.json({
+        success: true,
+        data: { memberships },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Get team memberships', 'Failed to retrieve team memberships');
+    }
+  }
+
+  // Join a builder's team with an emailed invitation
+  async acceptInvitation(req: TeamRequest, res: Response): Promise<void> {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const membership = await builderTeamService.acceptInvitation(req.body.token, req.user.userId);
+
+      res.json({
+        success: true,
+        data: { membership },
+        message: `You have joined ${membership.builder.name}'s team`,
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Accept team invitation', 'Failed to accept invitation');
+    }
+  }
+}
+
+const builderTeamController = new BuilderTeamController();
+export { BuilderTeamController };
+export default builderTeamController;
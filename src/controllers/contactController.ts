@@ -0,0 +1,138 @@
+import { Response } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { UserRole } from '../models/User';
+import { AuthenticatedRequest } from '../middleware/auth';
+import ContactService from '../services/contactService';
+import { ApiError, sendErrorResponse } from '../utils/errorResponse';
+
+interface ContactRequest extends AuthenticatedRequest {
+  user?: {
+    userId: number;
+    id: number;
+    email: string;
+    role: UserRole;
+  };
+}
+
+const contactService = new ContactService();
+
+// Service failures carry their own status and code; anything else is a 500
+const sendServiceError = (res: Response, error: unknown, context: string, message: string): void => {
+  if (error instanceof ApiError) {
+    sendErrorResponse(res, error);
+    return;
+  }
+
+  console.error(`${context} error:`, error);
+  res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message,
+    },
+  });
+};
+
+// Validation failures are sent as a 400; returns whether the request may go on
+const checkValidation = (req: ContactRequest, res: Response): boolean => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return true;
+  }
+
+  res.status(400).json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid input data',
+      details: errors.array(),
+    },
+  });
+  return false;
+};
+
+class ContactController {
+  // Validation rules
+  static getContactsValidation = [
+    query('search').optional().trim().isLength({ max: 100 }).withMessage('Search cannot exceed 100 characters'),
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  ];
+
+  static contactIdValidation = [
+    param('id').isInt({ min: 1 }).withMessage('Valid contact ID is required'),
+  ];
+
+  static mergeValidation = [
+    param('id').isInt({ min: 1 }).withMessage('Valid contact ID is required'),
+    body('contactIds').isArray({ min: 1, max: 20 }).withMessage('Choose between 1 and 20 contacts to merge'),
+    body('contactIds.*').isInt({ min: 1 }).toInt().withMessage('Contact IDs must be positive integers'),
+  ];
+
+  // The people who have inquired about the user's or their teams' listings
+  async getContacts(req: ContactRequest, res: Response): Promise<void> {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const result = await contactService.getContacts(req.user!.userId, {
+        search: req.query.search as string | undefined,
+        page: parseInt(req.query.page as string) || 1,
+        limit: parseInt(req.query.limit as string) || 20,
+      });
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Get contacts', 'Failed to retrieve contacts');
+    }
+  }
+
+  // A contact with their inquiry history and possible duplicates
+  async getContact(req: ContactRequest, res: Response): Promise<void> {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const contact = await contactService.getContact(parseInt(req.params.id), req.user!.userId);
+
+      res.json({
+        success: true,
+        data: { contact },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Get contact', 'Failed to retrieve contact');
+    }
+  }
+
+  // Merge the given contacts into this one
+  async mergeContacts(req: ContactRequest, res: Response): Promise<void> {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const contact = await contactService.mergeContacts(
+        parseInt(req.params.id),
+        req.body.contactIds,
+        req.user!.userId
+      );
+
+      res.json({
+        success: true,
+        data: { contact },
+        message: 'Contacts merged',
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Merge contacts', 'Failed to merge contacts');
+    }
+  }
+}
+
+const contactController = new ContactController();
+export { ContactController };
+export default contactController;
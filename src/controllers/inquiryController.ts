@@ -1,8 +1,9 @@
 import { Request, Response } from 'express';
 import { body, param, query, validationResult } from 'express-validator';
-import inquiryService, { CreateInquiryData, InquiryFilters } from '../services/inquiryService';
+import inquiryService, { CreateInquiryData, InquiryFilters, InquiryListOptions } from '../services/inquiryService';
 import { InquiryStatus } from '../models/Inquiry';
 import { UserRole } from '../models/User';
+import LeadPipelineService from '../services/leadPipelineService';
 
 
 export interface AuthenticatedRequest extends Request {
@@ -13,6 +14,14 @@ export interface AuthenticatedRequest extends Request {
   };
 }
 
+const leadPipelineService = new LeadPipelineService();
+
+// Lead scores are for the people working the lead, not the inquirer
+const withoutScore = (inquiry: any) => {
+  const { score, score_factors, scored_at, ...rest } = inquiry.toJSON ? inquiry.toJSON() : inquiry;
+  return rest;
+};
+
 class InquiryController {
   // Validation rules
   static createInquiryValidation = [
@@ -54,7 +63,8 @@ class InquiryController {
     query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
     query('status').optional().isIn(Object.values(InquiryStatus)).withMessage('Invalid status'),
     query('property_id').optional().isInt({ min: 1 }).withMessage('Valid property ID is required'),
-    query('sort').optional().isIn(['created_at', 'status', 'property_id']).withMessage('Invalid sort field'),
+    query('sort').optional().isIn(['created_at', 'status', 'property_id', 'score']).withMessage('Invalid sort field'),
+    query('group_by').optional().isIn(['contact']).withMessage('Inquiries can only be grouped by contact'),
     query('order').optional().isIn(['ASC', 'DESC']).withMessage('Order must be ASC or DESC'),
   ];
 
@@ -136,11 +146,12 @@ class InquiryController {
       }
 
       const filters: InquiryFilters = {};
-      const options = {
+      const options: InquiryListOptions = {
         page: parseInt(req.query.page as string) || 1,
         limit: parseInt(req.query.limit as string) || 10,
-        sort: (req.query.sort as 'created_at' | 'status' | 'property_id') || 'created_at',
+        sort: (req.query.sort as InquiryListOptions['sort']) || 'created_at',
         order: (req.query.order as 'ASC' | 'DESC') || 'DESC',
+        group_by: req.query.group_by as InquiryListOptions['group_by'],
       };
 
       // Apply filters based on query parameters
@@ -160,8 +171,11 @@ class InquiryController {
       // Role-based filtering
       if (req.user && req.user.userId) {
         if (req.user.role === UserRole.BUYER) {
-          // Buyers can only see their own inquiries
+          // Buyers can only see their own inquiries, and not how they were scored
           filters.inquirer_id = req.user.userId;
+          if (options.sort === 'score') {
+            options.sort = 'created_at';
+          }
         } else if ([UserRole.OWNER, UserRole.AGENT, UserRole.BUILDER].includes(req.user.role)) {
           // Property owners/agents/builders see inquiries for their properties
           // Validate that user ID is defined
@@ -202,7 +216,9 @@ class InquiryController {
 
       res.json({
         success: true,
-        data: result,
+        data: req.user.role === UserRole.BUYER
+          ? { ...result, inquiries: result.inquiries.map(withoutScore) }
+          : result,
       });
     } catch (error) {
       console.error('Get inquiries error:', error);
@@ -250,7 +266,8 @@ class InquiryController {
         const canView =
           req.user.role === UserRole.ADMIN ||
           inquiry.inquirer_id === req.user.userId ||
-          inquiry.property?.user_id === req.user.userId;
+          inquiry.property?.user_id === req.user.userId ||
+          inquiry.assigned_to === req.user.userId;
 
         if (!canView) {
           res.status(403).json({
@@ -269,16 +286,25 @@ class InquiryController {
       if (req.user &&
         inquiry.inquirer_id !== req.user.userId &&
         inquiry.property?.user_id !== req.user.userId &&
+        inquiry.assigned_to !== req.user.userId &&
         req.user.role !== UserRole.ADMIN) {
         if (maskedInquiry.phone) {
           maskedInquiry.phone = await inquiryService.maskPhoneNumber(maskedInquiry.phone);
         }
       }
 
+      // The pipeline timeline is for the people working the lead, not the inquirer
+      const canWork = !!req.user && (
+        req.user.role === UserRole.ADMIN ||
+        inquiry.property?.user_id === req.user.userId ||
+        inquiry.assigned_to === req.user.userId
+      );
+
       res.json({
         success: true,
         data: {
-          inquiry: maskedInquiry,
+          inquiry: canWork ? maskedInquiry : withoutScore(maskedInquiry),
+          ...(canWork ? { activities: await leadPipelineService.listActivities(inquiry.id) } : {}),
         },
       });
     } catch (error) {
@@ -343,6 +369,7 @@ class InquiryController {
           inquiry: {
             id: inquiry.id,
             status: inquiry.status,
+            stage: inquiry.stage,
             updated_at: new Date(),
           },
         },
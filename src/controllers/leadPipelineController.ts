@@ -0,0 +1,273 @@
+import { Response } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { LeadStage } from '../models/Inquiry';
+import { UserRole } from '../models/User';
+import { AuthenticatedRequest } from '../middleware/auth';
+import LeadPipelineService, { LOGGED_ACTIVITY_TYPES, LoggedActivityType } from '../services/leadPipelineService';
+import { LeadScope } from '../services/leadRoutingService';
+import { ApiError, sendErrorResponse } from '../utils/errorResponse';
+
+interface PipelineRequest extends AuthenticatedRequest {
+  user?: {
+    userId: number;
+    id: number;
+    email: string;
+    role: UserRole;
+  };
+}
+
+const leadPipelineService = new LeadPipelineService();
+
+const LEAD_OWNER_ROLES = [UserRole.BUILDER, UserRole.AGENT];
+
+// Service failures carry their own status and code; anything else is a 500
+const sendServiceError = (res: Response, error: unknown, context: string, message: string): void => {
+  if (error instanceof ApiError) {
+    sendErrorResponse(res, error);
+    return;
+  }
+
+  console.error(`${context} error:`, error);
+  res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message,
+    },
+  });
+};
+
+// Validation failures are sent as a 400; returns whether the request may go on
+const checkValidation = (req: PipelineRequest, res: Response): boolean => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return true;
+  }
+
+  res.status(400).json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid input data',
+      details: errors.array(),
+    },
+  });
+  return false;
+};
+
+// Only builder and agency accounts set up their pipeline; returns whether the request may go on
+const checkLeadOwner = (req: PipelineRequest, res: Response): boolean => {
+  if (req.user && LEAD_OWNER_ROLES.includes(req.user.role)) {
+    return true;
+  }
+
+  res.status(403).json({
+    success: false,
+    error: {
+      code: 'FORBIDDEN',
+      message: 'Access denied. Builder or agent role required.',
+    },
+  });
+  return false;
+};
+
+const optionalOwnerId = (req: PipelineRequest): number | undefined =>
+  req.query.ownerId ? parseInt(req.query.ownerId as string) : undefined;
+
+class LeadPipelineController {
+  // Validation rules
+  static stagesValidation = [
+    query('ownerId').optional().isInt({ min: 1 }).withMessage('Valid owner ID is required'),
+  ];
+
+  static updateStagesValidation = [
+    body('stages').isArray({ min: 1 }).withMessage('Stages are required'),
+    body('stages.*.stage').isIn(Object.values(LeadStage)).withMessage('Valid stage is required'),
+    body('stages.*.label').isString().trim().isLength({ min: 1, max: 50 }).withMessage('Stage labels must be 1 to 50 characters'),
+    body('stages.*.isEnabled').optional().isBoolean().toBoolean().withMessage('isEnabled must be true or false'),
+  ];
+
+  static boardValidation = [
+    query('scope').optional().isIn(['mine', 'team']).withMessage('Scope must be mine or team'),
+    query('ownerId').optional().isInt({ min: 1 }).withMessage('Valid owner ID is required'),
+  ];
+
+  static changeStageValidation = [
+    param('id').isInt({ min: 1 }).withMessage('Valid inquiry ID is required'),
+    body('stage').isIn(Object.values(LeadStage)).withMessage('Valid stage is required'),
+    body('lostReason').optional({ nullable: true }).trim().isLength({ max: 255 }).withMessage('Reason cannot exceed 255 characters'),
+  ];
+
+  static activitiesValidation = [
+    param('id').isInt({ min: 1 }).withMessage('Valid inquiry ID is required'),
+  ];
+
+  static addActivityValidation = [
+    param('id').isInt({ min: 1 }).withMessage('Valid inquiry ID is required'),
+    body('type').isIn(LOGGED_ACTIVITY_TYPES).withMessage('Type must be note, call, whatsapp or follow_up'),
+    body('content').optional({ nullable: true }).trim().isLength({ max: 2000 }).withMessage('Notes cannot exceed 2000 characters'),
+    body('occurredAt').optional({ nullable: true }).isISO8601().toDate().withMessage('occurredAt must be a date'),
+    body('followUpAt').optional({ nullable: true }).isISO8601().toDate().withMessage('followUpAt must be a date'),
+  ];
+
+  static completeFollowUpValidation = [
+    param('id').isInt({ min: 1 }).withMessage('Valid inquiry ID is required'),
+    param('activityId').isInt({ min: 1 }).withMessage('Valid activity ID is required'),
+  ];
+
+  // Get the user's pipeline stages, or those of an account whose sales team they are on
+  async getStages(req: PipelineRequest, res: Response): Promise<void> {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const stages = await leadPipelineService.getStages(req.user!.userId, optionalOwnerId(req));
+
+      res.json({
+        success: true,
+        data: { stages },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Get pipeline stages', 'Failed to retrieve pipeline stages');
+    }
+  }
+
+  // Relabel, reorder or switch off the stages of the user's own pipeline
+  async updateStages(req: PipelineRequest, res: Response): Promise<void> {
+    try {
+      if (!checkValidation(req, res) || !checkLeadOwner(req, res)) {
+        return;
+      }
+
+      const stages = await leadPipelineService.updateStages(
+        req.user!.userId,
+        (req.body.stages as Array<{ stage: LeadStage; label: string; isEnabled?: boolean }>).map(stage => ({
+          stage: stage.stage,
+          label: stage.label,
+          is_enabled: stage.isEnabled,
+        }))
+      );
+
+      res.json({
+        success: true,
+        data: { stages },
+        message: 'Pipeline stages updated',
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Update pipeline stages', 'Failed to update pipeline stages');
+    }
+  }
+
+  // Get the user's or their teams' leads grouped by stage, for the board view
+  async getBoard(req: PipelineRequest, res: Response): Promise<void> {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const columns = await leadPipelineService.getBoard(
+        req.user!.userId,
+        (req.query.scope as LeadScope) || 'mine',
+        optionalOwnerId(req)
+      );
+
+      res.json({
+        success: true,
+        data: { columns },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Get pipeline board', 'Failed to retrieve pipeline');
+    }
+  }
+
+  async changeStage(req: PipelineRequest, res: Response): Promise<void> {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const lead = await leadPipelineService.changeStage(
+        parseInt(req.params.id),
+        req.user!.userId,
+        req.body.stage,
+        req.body.lostReason
+      );
+
+      res.json({
+        success: true,
+        data: { lead },
+        message: 'Lead stage updated',
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Change lead stage', 'Failed to update lead stage');
+    }
+  }
+
+  async getActivities(req: PipelineRequest, res: Response): Promise<void> {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const activities = await leadPipelineService.getActivities(parseInt(req.params.id), req.user!.userId);
+
+      res.json({
+        success: true,
+        data: { activities },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Get lead activities', 'Failed to retrieve lead activity');
+    }
+  }
+
+  // Log a note, call, WhatsApp message or follow-up reminder
+  async addActivity(req: PipelineRequest, res: Response): Promise<void> {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const activity = await leadPipelineService.addActivity(parseInt(req.params.id), req.user!.userId, {
+        type: req.body.type as LoggedActivityType,
+        content: req.body.content,
+        occurred_at: req.body.occurredAt ?? null,
+        follow_up_at: req.body.followUpAt ?? null,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { activity },
+        message: 'Activity logged',
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Add lead activity', 'Failed to log activity');
+    }
+  }
+
+  async completeFollowUp(req: PipelineRequest, res: Response): Promise<void> {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const activity = await leadPipelineService.completeFollowUp(
+        parseInt(req.params.id),
+        parseInt(req.params.activityId),
+        req.user!.userId
+      );
+
+      res.json({
+        success: true,
+        data: { activity },
+        message: 'Follow-up marked as done',
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Complete follow-up', 'Failed to complete follow-up');
+    }
+  }
+}
+
+const leadPipelineController = new LeadPipelineController();
+export { LeadPipelineController };
+export default leadPipelineController;
@@ -0,0 +1,311 @@
+import { Response } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { InquiryStatus, LeadSource, LeadStage } from '../models/Inquiry';
+import { LeadRoutingStrategy } from '../models/LeadRoutingRule';
+import { UserRole } from '../models/User';
+import { AuthenticatedRequest } from '../middleware/auth';
+import LeadRoutingService, { LeadScope, ROUTABLE_PROPERTY_TYPES, RoutingRuleInput } from '../services/leadRoutingService';
+import { ApiError, sendErrorResponse } from '../utils/errorResponse';
+
+interface LeadRequest extends AuthenticatedRequest {
+  user?: {
+    userId: number;
+    id: number;
+    email: string;
+    role: UserRole;
+  };
+}
+
+const leadRoutingService = new LeadRoutingService();
+
+// Builders and agencies own listings and route their leads
+const LEAD_OWNER_ROLES = [UserRole.BUILDER, UserRole.AGENT];
+
+// Service failures carry their own status and code; anything else is a 500
+const sendServiceError = (res: Response, error: unknown, context: string, message: string): void => {
+  if (error instanceof ApiError) {
+    sendErrorResponse(res, error);
+    return;
+  }
+
+  console.error(`${context} error:`, error);
+  res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message,
+    },
+  });
+};
+
+// Validation failures are sent as a 400; returns whether the request may go on
+const checkValidation = (req: LeadRequest, res: Response): boolean => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return true;
+  }
+
+  res.status(400).json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid input data',
+      details: errors.array(),
+    },
+  });
+  return false;
+};
+
+// Only builder and agency accounts manage routing; returns whether the request may go on
+const checkLeadOwner = (req: LeadRequest, res: Response): boolean => {
+  if (req.user && LEAD_OWNER_ROLES.includes(req.user.role)) {
+    return true;
+  }
+
+  res.status(403).json({
+    success: false,
+    error: {
+      code: 'FORBIDDEN',
+      message: 'Access denied. Builder or agent role required.',
+    },
+  });
+  return false;
+};
+
+// Optional criteria arrive as null or an empty list to match any lead
+const toRuleInput = (body: any): RoutingRuleInput => ({
+  name: body.name,
+  priority: body.priority ?? 0,
+  is_active: body.isActive ?? true,
+  cities: Array.isArray(body.cities) ? body.cities : null,
+  property_types: Array.isArray(body.propertyTypes) ? body.propertyTypes : null,
+  min_budget: body.minBudget ?? null,
+  max_budget: body.maxBudget ?? null,
+  project_ids: Array.isArray(body.projectIds) ? body.projectIds.map(Number) : null,
+  sources: Array.isArray(body.sources) ? body.sources : null,
+  strategy: body.strategy,
+  agent_ids: body.agentIds.map(Number),
+  sla_minutes: body.slaMinutes ?? null,
+});
+
+class LeadRoutingController {
+  // Validation rules
+  static getLeadsValidation = [
+    query('scope').optional().isIn(['mine', 'team']).withMessage('Scope must be mine or team'),
+    query('status').optional().isIn(Object.values(InquiryStatus)).withMessage('Invalid status'),
+    query('stage').optional().isIn(Object.values(LeadStage)).withMessage('Invalid stage'),
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  ];
+
+  static ruleValidation = [
+    body('name').trim().isLength({ min: 2, max: 100 }).withMessage('Name must be between 2 and 100 characters'),
+    body('priority').optional().isInt({ min: 0, max: 1000 }).toInt().withMessage('Priority must be between 0 and 1000'),
+    body('isActive').optional().isBoolean().toBoolean().withMessage('isActive must be a boolean'),
+    body('cities').optional({ nullable: true }).isArray({ max: 50 }).withMessage('Cities must be a list'),
+    body('cities.*').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Each city must be up to 100 characters'),
+    body('propertyTypes').optional({ nullable: true }).isArray().withMessage('Property types must be a list'),
+    body('propertyTypes.*').isIn(ROUTABLE_PROPERTY_TYPES).withMessage('Invalid property type'),
+    body('minBudget').optional({ nullable: true }).isFloat({ min: 0 }).toFloat().withMessage('Minimum budget must be a positive number'),
+    body('maxBudget').optional({ nullable: true }).isFloat({ min: 0 }).toFloat().withMessage('Maximum budget must be a positive number'),
+    body('projectIds').optional({ nullable: true }).isArray({ max: 500 }).withMessage('Project IDs must be a list'),
+    body('projectIds.*').isInt({ min: 1 }).toInt().withMessage('Project IDs must be positive integers'),
+    body('sources').optional({ nullable: true }).isArray().withMessage('Sources must be a list'),
+    body('sources.*').isIn(Object.values(LeadSource)).withMessage('Invalid lead source'),
+    body('strategy').isIn(Object.values(LeadRoutingStrategy)).withMessage('Strategy must be round_robin or least_load'),
+    body('agentIds').isArray({ min: 1, max: 100 }).withMessage('Choose at least one person to receive the leads'),
+    body('agentIds.*').isInt({ min: 1 }).toInt().withMessage('Agent IDs must be positive integers'),
+    body('slaMinutes')
+      .optional({ nullable: true })
+      .isInt({ min: 5, max: 7 * 24 * 60 })
+      .toInt()
+      .withMessage('Response time must be between 5 minutes and 7 days'),
+  ];
+
+  static updateRuleValidation = [
+    param('ruleId').isInt({ min: 1 }).withMessage('Valid rule ID is required'),
+    ...LeadRoutingController.ruleValidation,
+  ];
+
+  static ruleIdValidation = [
+    param('ruleId').isInt({ min: 1 }).withMessage('Valid rule ID is required'),
+  ];
+
+  static reassignValidation = [
+    param('inquiryId').isInt({ min: 1 }).withMessage('Valid lead ID is required'),
+    body('assigneeId')
+      .optional({ nullable: true })
+      .isInt({ min: 1 })
+      .toInt()
+      .withMessage('Assignee must be a user ID, or null to unassign'),
+    body('reason').optional({ checkFalsy: true }).trim().isLength({ max: 255 }).withMessage('Reason cannot exceed 255 characters'),
+  ];
+
+  static leadIdValidation = [
+    param('inquiryId').isInt({ min: 1 }).withMessage('Valid lead ID is required'),
+  ];
+
+  // Get the leads assigned to the user, or those of their teams
+  async getLeads(req: LeadRequest, res: Response): Promise<void> {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const result = await leadRoutingService.getLeads(
+        req.user!.userId,
+        (req.query.scope as LeadScope) || 'mine',
+        {
+          status: req.query.status as InquiryStatus | undefined,
+          stage: req.query.stage as LeadStage | undefined,
+          page: parseInt(req.query.page as string) || 1,
+          limit: parseInt(req.query.limit as string) || 20,
+        }
+      );
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Get leads', 'Failed to retrieve leads');
+    }
+  }
+
+  // Get who the owner's leads can be assigned to
+  async getAgents(req: LeadRequest, res: Response): Promise<void> {
+    try {
+      if (!checkLeadOwner(req, res)) {
+        return;
+      }
+
+      const agents = await leadRoutingService.getAgents(req.user!.userId);
+
+      res.json({
+        success: true,
+        data: { agents },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Get lead agents', 'Failed to retrieve team agents');
+    }
+  }
+
+  async getRules(req: LeadRequest, res: Response): Promise<void> {
+    try {
+      if (!checkLeadOwner(req, res)) {
+        return;
+      }
+
+      const rules = await leadRoutingService.getRules(req.user!.userId);
+
+      res.json({
+        success: true,
+        data: { rules },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Get routing rules', 'Failed to retrieve routing rules');
+    }
+  }
+
+  async createRule(req: LeadRequest, res: Response): Promise<void> {
+    try {
+      if (!checkValidation(req, res) || !checkLeadOwner(req, res)) {
+        return;
+      }
+
+      const rule = await leadRoutingService.createRule(req.user!.userId, toRuleInput(req.body));
+
+      res.status(201).json({
+        success: true,
+        data: { rule },
+        message: 'Routing rule created',
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Create routing rule', 'Failed to create routing rule');
+    }
+  }
+
+  async updateRule(req: LeadRequest, res: Response): Promise<void> {
+    try {
+      if (!checkValidation(req, res) || !checkLeadOwner(req, res)) {
+        return;
+      }
+
+      const rule = await leadRoutingService.updateRule(
+        req.user!.userId,
+        parseInt(req.params.ruleId),
+        toRuleInput(req.body)
+      );
+
+      res.json({
+        success: true,
+        data: { rule },
+        message: 'Routing rule updated',
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Update routing rule', 'Failed to update routing rule');
+    }
+  }
+
+  async deleteRule(req: LeadRequest, res: Response): Promise<void> {
+    try {
+      if (!checkValidation(req, res) || !checkLeadOwner(req, res)) {
+        return;
+      }
+
+      await leadRoutingService.deleteRule(req.user!.userId, parseInt(req.params.ruleId));
+
+      res.json({
+        success: true,
+        message: 'Routing rule deleted',
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Delete routing rule', 'Failed to delete routing rule');
+    }
+  }
+
+  // Hand a lead to another team member, or unassign it
+  async reassignLead(req: LeadRequest, res: Response): Promise<void> {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const lead = await leadRoutingService.reassign(
+        parseInt(req.params.inquiryId),
+        req.user!.userId,
+        req.body.assigneeId ?? null,
+        req.body.reason
+      );
+
+      res.json({
+        success: true,
+        data: { lead },
+        message: lead.assignee ? `Lead assigned to ${lead.assignee.name}` : 'Lead unassigned',
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Reassign lead', 'Failed to reassign lead');
+    }
+  }
+
+  async getAssignmentHistory(req: LeadRequest, res: Response): Promise<void> {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const assignments = await leadRoutingService.getAssignmentHistory(parseInt(req.params.inquiryId), req.user!.userId);
+
+      res.json({
+        success: true,
+        data: { assignments },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Get lead assignments', 'Failed to retrieve assignment history');
+    }
+  }
+}
+
+const leadRoutingController = new LeadRoutingController();
+export { LeadRoutingController };
+export default leadRoutingController;
@@ -5,6 +5,8 @@ import { ConversationParticipant } from '../models/ConversationParticipant';
 import { Conversation } from '../models/Conversation';
 import { User } from '../models/User';
 import { UserRole } from '../models/User';
+import messagingService from '../services/messagingService';
+import realtimeService from '../services/realtimeService';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
@@ -26,6 +28,44 @@ class MessageController {
     body('content').trim().isLength({ min: 1, max: 1000 }).withMessage('Message content must be between 1 and 1000 characters'),
   ];
 
+  static markAsReadValidation = [
+    param('conversationId').isInt({ min: 1 }).withMessage('Valid conversation ID is required'),
+  ];
+
+  static typingValidation = [
+    param('conversationId').isInt({ min: 1 }).withMessage('Valid conversation ID is required'),
+    body('isTyping').isBoolean().toBoolean().withMessage('isTyping must be true or false'),
+  ];
+
+  /**
+   * Stream new messages, read receipts, typing indicators and unread counts
+   * to the user as server-sent events
+   */
+  async streamEvents(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        },
+      });
+      return;
+    }
+
+    const userId = req.user.userId;
+    realtimeService.openStream(userId, res);
+
+    try {
+      // Start the client off with the current count rather than waiting for a change
+      realtimeService.sendTo(res, 'unread_count', {
+        unread_count: await messagingService.getUnreadCount(userId),
+      });
+    } catch (error) {
+      console.error('Initial unread count error:', error);
+    }
+  }
+
   async getMessages(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const errors = validationResult(req);
@@ -246,6 +286,11 @@ class MessageController {
         recipientId: recipientParticipant.user_id,
       });
 
+      if (createdMessage) {
+        messagingService.publishNewMessage(createdMessage)
+          .catch(error => console.error('Failed to publish new message:', error));
+      }
+
       res.status(201).json({
         success: true,
         data: {
@@ -264,6 +309,138 @@ class MessageController {
       });
     }
   }
+
+  async markAsRead(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid parameters',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const conversationId = parseInt(req.params.conversationId);
+      const userId = req.user.userId;
+
+      const participant = await ConversationParticipant.findOne({
+        where: {
+          conversation_id: conversationId,
+          user_id: userId,
+        },
+      });
+
+      if (!participant) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Access denied to this conversation',
+          },
+        });
+        return;
+      }
+
+      // Senders get read receipts as the messages are marked
+      const updated = await messagingService.markMessagesAsRead(conversationId.toString(), userId);
+
+      res.json({
+        success: true,
+        data: {
+          updated,
+        },
+      });
+    } catch (error) {
+      console.error('Mark messages as read error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to mark messages as read',
+        },
+      });
+    }
+  }
+
+  async sendTyping(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const conversationId = parseInt(req.params.conversationId);
+      const userId = req.user.userId;
+
+      const participant = await ConversationParticipant.findOne({
+        where: {
+          conversation_id: conversationId,
+          user_id: userId,
+        },
+      });
+
+      if (!participant) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Access denied to this conversation',
+          },
+        });
+        return;
+      }
+
+      await messagingService.publishTyping(conversationId, userId, req.body.isTyping);
+
+      res.json({
+        success: true,
+      });
+    } catch (error) {
+      console.error('Typing indicator error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to send typing indicator',
+        },
+      });
+    }
+  }
 }
 
 const messageController = new MessageController();
@@ -1,12 +1,29 @@
 import { Request, Response } from 'express';
 import { body, param, query, validationResult } from 'express-validator';
 import { Project, ProjectStatus, ProjectType } from '../models/Project';
-import { ProjectImage } from '../models/ProjectImage';
-import { ProjectUnit, UnitStatus } from '../models/ProjectUnit';
+import { GALLERY_IMAGE_WHERE, ProjectImage } from '../models/ProjectImage';
+import { ProjectUnit, UnitStatus, UNIT_STATUS_COUNTERS } from '../models/ProjectUnit';
+import { ReservationStatus } from '../models/UnitReservation';
+import { ProjectUpdateType } from '../models/ProjectUpdate';
+import { ProjectAssetType } from '../models/ProjectAsset';
 import { User, UserRole } from '../models/User';
 import { Inquiry, InquiryStatus } from '../models/Inquiry';
+import { ProjectPermission } from '../models/BuilderTeamMember';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { Op } from 'sequelize';
+import sequelize from '../config/database';
+import UnitReservationService, { moveUnitCount } from '../services/unitReservationService';
+import ProjectInventoryService from '../services/projectInventoryService';
+import ProjectPricingService, { PriceListInput } from '../services/projectPricingService';
+import ProjectUpdateService, { ProjectUpdateInput } from '../services/projectUpdateService';
+import PaymentScheduleService, { PaymentInput, PaymentPlanInput } from '../services/paymentScheduleService';
+import UnitImportService, { ImportSheetRow } from '../services/unitImportService';
+import ProjectSearchService, { MAX_COMPARED_PROJECTS, ProjectSearchFilters, ProjectSearchSort } from '../services/projectSearchService';
+import ProjectAccessService from '../services/projectAccessService';
+import ProjectAssetService, { AssetLead } from '../services/projectAssetService';
+import inquiryService from '../services/inquiryService';
+import { ParsedSheetRow, readUnitSheet, sheetFormatOf } from '../utils/unitSheet';
+import { ApiError, ConflictError, NotFoundError, ValidationError, sendErrorResponse } from '../utils/errorResponse';
 import fs from 'fs';
 import path from 'path';
 
@@ -19,6 +36,190 @@ interface ProjectRequest extends AuthenticatedRequest {
   };
 }
 
+const unitReservationService = new UnitReservationService();
+const projectInventoryService = new ProjectInventoryService();
+const projectPricingService = new ProjectPricingService();
+const projectUpdateService = new ProjectUpdateService();
+const paymentScheduleService = new PaymentScheduleService();
+const unitImportService = new UnitImportService();
+const projectSearchService = new ProjectSearchService();
+const projectAccessService = new ProjectAccessService();
+const projectAssetService = new ProjectAssetService();
+
+// Largest selection a single bulk status change accepts
+const MAX_BULK_STATUS_UNITS = 500;
+
+// Pricing rules arrive in camelCase like the rest of the project API
+const toPriceListInput = (body: any): PriceListInput => ({
+  base_rate_per_sqft: body.baseRatePerSqft,
+  unit_type_rates: body.unitTypeRates,
+  floor_rise_per_sqft: body.floorRisePerSqft ?? 0,
+  floor_rise_from_floor: body.floorRiseFromFloor ?? 1,
+  corner_plc_per_sqft: body.cornerPlcPerSqft ?? 0,
+  terrace_plc_per_sqft: body.terracePlcPerSqft ?? 0,
+  parking_charge_per_space: body.parkingChargePerSpace ?? 0,
+  effective_from: body.effectiveFrom ? new Date(body.effectiveFrom) : undefined,
+  notes: body.notes,
+});
+
+// Most stages a construction update can break progress into
+const MAX_CONSTRUCTION_STAGES = 20;
+
+// Updates are posted as multipart form data, so stages arrive as a JSON string
+const parseStages = (value: unknown): any => (typeof value === 'string' ? JSON.parse(value) : value);
+
+const toProjectUpdateInput = (body: any): ProjectUpdateInput => ({
+  update_type: body.updateType,
+  title: body.title,
+  description: body.description,
+  update_date: body.updateDate ? String(body.updateDate).slice(0, 10) : undefined,
+  progress_percent: body.progressPercent !== undefined && body.progressPercent !== '' ? Number(body.progressPercent) : null,
+  stages: body.stages ? parseStages(body.stages) : null,
+  report_year: body.reportYear ? parseInt(body.reportYear) : null,
+  report_quarter: body.reportQuarter ? parseInt(body.reportQuarter) : null,
+});
+
+// Photos multer already wrote to disk are not needed once the request is rejected
+const discardUploads = (req: Request): void => {
+  ((req.files as Express.Multer.File[]) || []).forEach(file => {
+    fs.promises.unlink(file.path).catch(() => undefined);
+  });
+};
+
+// Most stages a payment plan can have
+const MAX_PAYMENT_PLAN_STAGES = 30;
+
+const toPaymentPlanInput = (body: any): PaymentPlanInput => ({
+  name: body.name,
+  description: body.description,
+  stages: body.stages.map((stage: any) => ({
+    name: String(stage.name),
+    percent: Number(stage.percent),
+    due_after_days: Number(stage.dueAfterDays),
+  })),
+  is_active: body.isActive,
+});
+
+const toPaymentInput = (body: any): PaymentInput => ({
+  amount: Number(body.amount),
+  paid_on: body.paidOn ? String(body.paidOn).slice(0, 10) : undefined,
+  method: body.method,
+  reference: body.reference,
+  notes: body.notes,
+});
+
+// Most rows a single unit import accepts
+const MAX_UNIT_IMPORT_ROWS = 2000;
+
+// Parse an uploaded CSV or XLSX of units
+const readUploadedSheet = async (req: Request): Promise<ParsedSheetRow[]> => {
+  if (!req.file) {
+    throw new ValidationError('A CSV or XLSX file is required');
+  }
+
+  const format = sheetFormatOf(req.file.originalname);
+  if (!format) {
+    throw new ValidationError('Only CSV or XLSX files are allowed');
+  }
+
+  let rows: ParsedSheetRow[];
+  try {
+    rows = await readUnitSheet(req.file.buffer, format);
+  } catch (error) {
+    throw new ValidationError(`Could not read the ${format.toUpperCase()} file`);
+  }
+
+  if (rows.length === 0) {
+    throw new ValidationError('The file has no unit rows');
+  }
+  if (rows.length > MAX_UNIT_IMPORT_ROWS) {
+    throw new ValidationError(`A file can have at most ${MAX_UNIT_IMPORT_ROWS} units`);
+  }
+  return rows;
+};
+
+// Each sheet row goes through the same validation as a unit created on its own
+const validateImportRows = (rows: ParsedSheetRow[]): Promise<ImportSheetRow[]> =>
+  Promise.all(rows.map(async ({ row, values }) => {
+    const rowRequest = {
+      body: {
+        unitNumber: values.unit_number,
+        unitType: values.unit_type,
+        floorNumber: values.floor_number,
+        tower: values.tower,
+        areaSqft: values.area_sqft,
+        areaSqm: values.area_sqm,
+        price: values.price,
+        pricePerSqft: values.price_per_sqft,
+        maintenanceCharge: values.maintenance_charge,
+        parkingSpaces: values.parking_spaces,
+        balconies: values.balconies,
+        bathrooms: values.bathrooms,
+        bedrooms: values.bedrooms,
+        status: values.status,
+      },
+    };
+
+    for (const chain of ProjectController.unitImportRowValidation) {
+      await chain.run(rowRequest);
+    }
+    return { row, values, errors: validationResult(rowRequest).array().map(error => String(error.msg)) };
+  }));
+
+// Largest page of public search results
+const MAX_PUBLIC_PROJECTS_PAGE = 50;
+
+const PROJECT_SEARCH_SORTS: ProjectSearchSort[] = ['newest', 'price_asc', 'price_desc', 'possession'];
+
+// Multi-value search filters arrive comma-separated, e.g. bedrooms=2,3
+const listParam = (value: unknown): string[] =>
+  String(value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+
+const toProjectSearchFilters = (query: any): ProjectSearchFilters => ({
+  location: query.location || undefined,
+  city: query.city || undefined,
+  project_types: listParam(query.project_type) as ProjectType[],
+  statuses: listParam(query.status) as ProjectStatus[],
+  possession_from: query.possession_from ? String(query.possession_from).slice(0, 10) : undefined,
+  possession_to: query.possession_to ? String(query.possession_to).slice(0, 10) : undefined,
+  bedrooms: listParam(query.bedrooms).map(Number),
+  min_price: query.min_price ? parseFloat(query.min_price) : undefined,
+  max_price: query.max_price ? parseFloat(query.max_price) : undefined,
+  sort: query.sort || undefined,
+});
+
+// Service failures carry their own status and code; anything else is a 500
+const sendServiceError = (res: Response, error: unknown, context: string, message: string): void => {
+  if (error instanceof ApiError) {
+    sendErrorResponse(res, error);
+    return;
+  }
+
+  console.error(`${context} error:`, error);
+  res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message,
+    },
+  });
+};
+
+// The project if the user's team role allows the permission; otherwise the error is sent and null returned
+const authorizeProject = async (
+  res: Response,
+  projectId: number,
+  userId: number,
+  permission: ProjectPermission
+): Promise<Project | null> => {
+  try {
+    return await projectAccessService.authorize(projectId, userId, permission);
+  } catch (error) {
+    sendServiceError(res, error, 'Authorize project', 'Failed to retrieve project');
+    return null;
+  }
+};
+
 class ProjectController {
   // Validation rules
   static createProjectValidation = [
@@ -42,15 +243,209 @@ class ProjectController {
     body('bathrooms').isInt({ min: 1 }).withMessage('Bathrooms must be at least 1'),
   ];
 
+  // Columns of an imported unit sheet beyond what a new unit requires
+  static unitImportRowValidation = [
+    ...ProjectController.createUnitValidation,
+    body('tower').optional().trim().isLength({ max: 10 }).withMessage('Tower cannot exceed 10 characters'),
+    body('areaSqm').optional().isFloat({ min: 0 }).withMessage('Area in sqm must be a non-negative number'),
+    body('pricePerSqft').optional().isFloat({ min: 0 }).withMessage('Price per sqft must be a non-negative number'),
+    body('maintenanceCharge').optional().isFloat({ min: 0 }).withMessage('Maintenance charge must be a non-negative number'),
+    body('parkingSpaces').optional().isInt({ min: 0 }).withMessage('Parking spaces must be a non-negative integer'),
+    body('balconies').optional().isInt({ min: 0 }).withMessage('Balconies must be a non-negative integer'),
+    body('status')
+      .optional()
+      .custom((value) => Object.values(UnitStatus).includes(String(value).toLowerCase() as UnitStatus))
+      .withMessage('Invalid unit status'),
+  ];
+
+  static unitImportValidation = [
+    param('projectId').isInt({ min: 1 }).withMessage('Valid project ID is required'),
+    body('digest').isHexadecimal().isLength({ min: 64, max: 64 }).withMessage('Preview the import before applying it'),
+  ];
+
+  static publicProjectSearchValidation = [
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: MAX_PUBLIC_PROJECTS_PAGE }).withMessage(`Limit must be between 1 and ${MAX_PUBLIC_PROJECTS_PAGE}`),
+    query('project_type')
+      .optional()
+      .custom((value) => listParam(value).every(type => Object.values(ProjectType).includes(type as ProjectType)))
+      .withMessage('Invalid project type'),
+    query('status')
+      .optional()
+      .custom((value) => listParam(value).every(status => Object.values(ProjectStatus).includes(status as ProjectStatus)))
+      .withMessage('Invalid project status'),
+    query('bedrooms')
+      .optional()
+      .custom((value) => listParam(value).every(bedrooms => /^\d{1,2}$/.test(bedrooms)))
+      .withMessage('Bedrooms must be a comma-separated list of numbers'),
+    query('possession_from').optional().isISO8601().withMessage('Possession from must be a valid date'),
+    query('possession_to').optional().isISO8601().withMessage('Possession to must be a valid date'),
+    query('min_price').optional().isFloat({ min: 0 }).withMessage('Minimum price must be a non-negative number'),
+    query('max_price').optional().isFloat({ min: 0 }).withMessage('Maximum price must be a non-negative number'),
+    query('sort').optional().isIn(PROJECT_SEARCH_SORTS).withMessage(`Sort must be one of ${PROJECT_SEARCH_SORTS.join(', ')}`),
+  ];
+
+  static compareProjectsValidation = [
+    query('ids')
+      .custom((value) => {
+        const ids = listParam(value);
+        return ids.length >= 2 && ids.length <= MAX_COMPARED_PROJECTS && ids.every(id => /^\d+$/.test(id));
+      })
+      .withMessage(`ids must list between 2 and ${MAX_COMPARED_PROJECTS} project IDs, comma-separated`),
+  ];
+
+  static publicAvailabilityValidation = [
+    param('id').isInt({ min: 1 }).withMessage('Valid project ID is required'),
+    query('bedrooms').optional().isInt({ min: 0, max: 99 }).withMessage('Bedrooms must be a number'),
+  ];
+
+  static bulkUnitStatusValidation = [
+    param('projectId').isInt({ min: 1 }).withMessage('Valid project ID is required'),
+    body('unitIds')
+      .isArray({ min: 1, max: MAX_BULK_STATUS_UNITS })
+      .withMessage(`Select between 1 and ${MAX_BULK_STATUS_UNITS} units`),
+    body('unitIds.*').isInt({ min: 1 }).toInt().withMessage('Unit IDs must be positive integers'),
+    body('status').isIn(Object.values(UnitStatus)).withMessage('Invalid unit status'),
+  ];
+
+  static priceListValidation = [
+    param('projectId').isInt({ min: 1 }).withMessage('Valid project ID is required'),
+    body('baseRatePerSqft').isFloat({ min: 1 }).withMessage('Base rate per sqft must be greater than 0'),
+    body('floorRisePerSqft').optional().isFloat({ min: 0 }).withMessage('Floor rise must be a non-negative number'),
+    body('floorRiseFromFloor').optional().isInt({ min: 0 }).withMessage('Floor rise starting floor must be a non-negative integer'),
+    body('cornerPlcPerSqft').optional().isFloat({ min: 0 }).withMessage('Corner PLC must be a non-negative number'),
+    body('terracePlcPerSqft').optional().isFloat({ min: 0 }).withMessage('Terrace PLC must be a non-negative number'),
+    body('parkingChargePerSpace').optional().isFloat({ min: 0 }).withMessage('Parking charge must be a non-negative number'),
+    body('unitTypeRates').optional({ nullable: true }).isObject().withMessage('Unit type rates must be an object'),
+    body('unitTypeRates.*').optional().isFloat({ min: 1 }).withMessage('Unit type rates must be greater than 0'),
+    body('effectiveFrom').optional().isISO8601().withMessage('Effective date must be a valid date'),
+    body('notes').optional().trim().isLength({ max: 1000 }).withMessage('Notes cannot exceed 1000 characters'),
+  ];
+
+  static projectUpdateValidation = [
+    param('projectId').isInt({ min: 1 }).withMessage('Valid project ID is required'),
+    body('updateType').isIn(Object.values(ProjectUpdateType)).withMessage('Invalid update type'),
+    body('title').trim().isLength({ min: 3, max: 255 }).withMessage('Title must be between 3 and 255 characters'),
+    body('description').optional().trim().isLength({ max: 5000 }).withMessage('Description cannot exceed 5000 characters'),
+    body('updateDate').optional().isISO8601().withMessage('Update date must be a valid date'),
+    body('progressPercent').optional({ checkFalsy: true }).isFloat({ min: 0, max: 100 }).withMessage('Progress must be between 0 and 100'),
+    body('reportYear').optional({ checkFalsy: true }).isInt({ min: 2000, max: 2100 }).withMessage('Report year must be a valid year'),
+    body('reportQuarter').optional({ checkFalsy: true }).isInt({ min: 1, max: 4 }).withMessage('Report quarter must be between 1 and 4'),
+    body('stages')
+      .optional({ checkFalsy: true })
+      .custom((value) => {
+        let stages;
+        try {
+          stages = parseStages(value);
+        } catch {
+          throw new Error('Stages must be valid JSON');
+        }
+        if (!Array.isArray(stages) || stages.length > MAX_CONSTRUCTION_STAGES) {
+          throw new Error(`Stages must be a list of at most ${MAX_CONSTRUCTION_STAGES} entries`);
+        }
+        const valid = stages.every((stage: any) =>
+          typeof stage?.name === 'string' &&
+          stage.name.trim().length > 0 &&
+          stage.name.length <= 100 &&
+          typeof stage.percent === 'number' &&
+          stage.percent >= 0 &&
+          stage.percent <= 100
+        );
+        if (!valid) {
+          throw new Error('Each stage needs a name and a percentage between 0 and 100');
+        }
+        return true;
+      }),
+  ];
+
+  static paymentPlanValidation = [
+    param('projectId').isInt({ min: 1 }).withMessage('Valid project ID is required'),
+    body('name').trim().isLength({ min: 2, max: 100 }).withMessage('Plan name must be between 2 and 100 characters'),
+    body('description').optional({ nullable: true }).trim().isLength({ max: 1000 }).withMessage('Description cannot exceed 1000 characters'),
+    body('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+    body('stages').isArray({ min: 1, max: MAX_PAYMENT_PLAN_STAGES }).withMessage(`A plan needs between 1 and ${MAX_PAYMENT_PLAN_STAGES} stages`),
+    body('stages.*.name').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Each stage needs a name of up to 100 characters'),
+    body('stages.*.percent').isFloat({ min: 0.01, max: 100 }).withMessage('Stage percentages must be between 0.01 and 100'),
+    body('stages.*.dueAfterDays').isInt({ min: 0, max: 3650 }).withMessage('Stage due days must be between 0 and 3650'),
+  ];
+
+  static applyPaymentPlanValidation = [
+    param('projectId').isInt({ min: 1 }).withMessage('Valid project ID is required'),
+    param('unitId').isInt({ min: 1 }).withMessage('Valid unit ID is required'),
+    body('planId').isInt({ min: 1 }).withMessage('Valid payment plan ID is required'),
+    body('bookingDate').optional().isISO8601().withMessage('Booking date must be a valid date'),
+  ];
+
+  static rescheduleInstallmentValidation = [
+    param('installmentId').isInt({ min: 1 }).withMessage('Valid installment ID is required'),
+    body('dueDate').isISO8601().withMessage('Due date must be a valid date'),
+  ];
+
+  static installmentPaymentValidation = [
+    param('installmentId').isInt({ min: 1 }).withMessage('Valid installment ID is required'),
+    body('amount').isFloat({ gt: 0 }).withMessage('Amount must be greater than 0'),
+    body('paidOn').optional().isISO8601().withMessage('Payment date must be a valid date'),
+    body('method').optional().trim().isLength({ max: 30 }).withMessage('Payment method cannot exceed 30 characters'),
+    body('reference').optional().trim().isLength({ max: 100 }).withMessage('Reference cannot exceed 100 characters'),
+    body('notes').optional().trim().isLength({ max: 500 }).withMessage('Notes cannot exceed 500 characters'),
+  ];
+
+  static createAssetValidation = [
+    param('projectId').isInt({ min: 1 }).withMessage('Valid project ID is required'),
+    body('assetType').isIn(Object.values(ProjectAssetType)).withMessage('Invalid asset type'),
+    body('title').trim().isLength({ min: 2, max: 255 }).withMessage('Title must be between 2 and 255 characters'),
+    body('unitType').optional({ checkFalsy: true }).trim().isLength({ max: 20 }).withMessage('Unit type cannot exceed 20 characters'),
+    body('tourUrl')
+      .optional({ checkFalsy: true })
+      .trim()
+      .isURL({ protocols: ['http', 'https'], require_protocol: true })
+      .isLength({ max: 500 })
+      .withMessage('Tour link must be a valid http(s) URL of up to 500 characters'),
+    body('requiresLead').optional().isBoolean().toBoolean().withMessage('requiresLead must be a boolean'),
+  ];
+
+  static updateAssetValidation = [
+    param('assetId').isInt({ min: 1 }).withMessage('Valid asset ID is required'),
+    body('title').optional().trim().isLength({ min: 2, max: 255 }).withMessage('Title must be between 2 and 255 characters'),
+    body('requiresLead').optional().isBoolean().toBoolean().withMessage('requiresLead must be a boolean'),
+    body('displayOrder').optional().isInt({ min: 0 }).toInt().withMessage('Display order must be a non-negative integer'),
+  ];
+
+  static floorPlanUnitsValidation = [
+    param('assetId').isInt({ min: 1 }).withMessage('Valid floor plan ID is required'),
+    body('unitIds')
+      .optional()
+      .isArray({ min: 1, max: MAX_BULK_STATUS_UNITS })
+      .withMessage(`Select between 1 and ${MAX_BULK_STATUS_UNITS} units, or leave out for all matching units`),
+    body('unitIds.*').isInt({ min: 1 }).toInt().withMessage('Unit IDs must be positive integers'),
+  ];
+
+  static assetDownloadValidation = [
+    param('assetId').isInt({ min: 1 }).withMessage('Valid asset ID is required'),
+    body('name').optional().trim().isLength({ min: 2, max: 100 }).withMessage('Name must be between 2 and 100 characters'),
+    body('email').optional().trim().isEmail().withMessage('Valid email is required'),
+    body('phone')
+      .optional({ checkFalsy: true })
+      .trim()
+      .matches(/^\+?[\d\s\-\(\)]{10,}$/)
+      .withMessage('Valid phone number is required'),
+  ];
+
+  static holdUnitValidation = [
+    param('projectId').isInt({ min: 1 }).withMessage('Valid project ID is required'),
+    param('unitId').isInt({ min: 1 }).withMessage('Valid unit ID is required'),
+    body('notes').optional().trim().isLength({ max: 500 }).withMessage('Notes cannot exceed 500 characters'),
+  ];
+
   // Get all projects for builder
   async getBuilderProjects(req: ProjectRequest, res: Response): Promise<void> {
     try {
-      if (!req.user || req.user.role !== 'builder') {
-        res.status(403).json({
+      if (!req.user) {
+        res.status(401).json({
           success: false,
           error: {
-            code: 'FORBIDDEN',
-            message: 'Access denied. Builder role required.',
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
           },
         });
         return;
@@ -72,10 +467,9 @@ class ProjectController {
       const limit = parseInt(req.query.limit as string) || 10;
       const offset = (page - 1) * limit;
 
+      // Projects the builder owns, plus those their team memberships cover
       const { rows: projects, count: total } = await Project.findAndCountAll({
-        where: {
-          builder_id: req.user.userId,
-        },
+        where: await projectAccessService.accessibleProjectsWhere(req.user.userId),
         order: [['created_at', 'DESC']],
         limit,
         offset,
@@ -167,14 +561,11 @@ class ProjectController {
         return;
       }
 
-      const project = await Project.findOne({
-        where: {
-          id: projectId,
-          ...(req.user?.role === 'builder' ? { builder_id: userId } : {}),
-        },
-      });
+      const project = await Project.findByPk(projectId);
+      const access = project && userId ? await projectAccessService.getAccess(project, userId) : null;
 
-      if (!project) {
+      // Builders and their teams only see projects they work on
+      if (!project || (req.user?.role === 'builder' && !access)) {
         res.status(404).json({
           success: false,
           error: {
@@ -191,7 +582,7 @@ class ProjectController {
           attributes: ['id', 'first_name', 'last_name', 'email', 'phone'],
         }),
         ProjectImage.findAll({
-          where: { project_id: projectId },
+          where: { project_id: projectId, ...GALLERY_IMAGE_WHERE },
           order: [['display_order', 'ASC']],
         }),
         ProjectUnit.findAll({
@@ -210,7 +601,8 @@ class ProjectController {
             builder,
             images,
             units,
-          }
+          },
+          access,
         },
       });
     } catch (error) {
@@ -317,34 +709,20 @@ class ProjectController {
   async updateProject(req: ProjectRequest, res: Response): Promise<void> {
     try {
       const projectId = parseInt(req.params.id);
-      const userId = req.user?.userId;
 
-      if (!req.user || req.user.role !== 'builder') {
-        res.status(403).json({
+      if (!req.user) {
+        res.status(401).json({
           success: false,
           error: {
-            code: 'FORBIDDEN',
-            message: 'Access denied. Builder role required.',
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
           },
         });
         return;
       }
 
-      const project = await Project.findOne({
-        where: {
-          id: projectId,
-          builder_id: userId,
-        },
-      });
-
+      const project = await authorizeProject(res, projectId, req.user.userId, ProjectPermission.MANAGE_PROJECT);
       if (!project) {
-        res.status(404).json({
-          success: false,
-          error: {
-            code: 'NOT_FOUND',
-            message: 'Project not found',
-          },
-        });
         return;
       }
 
@@ -389,33 +767,19 @@ class ProjectController {
 
       const projectId = parseInt(req.params.projectId);
 
-      if (!req.user || req.user.role !== 'builder') {
-        res.status(403).json({
+      if (!req.user) {
+        res.status(401).json({
           success: false,
           error: {
-            code: 'FORBIDDEN',
-            message: 'Access denied. Builder role required.',
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
           },
         });
         return;
       }
 
-      // Verify project ownership
-      const project = await Project.findOne({
-        where: {
-          id: projectId,
-          builder_id: req.user.userId,
-        },
-      });
-
+      const project = await authorizeProject(res, projectId, req.user.userId, ProjectPermission.MANAGE_INVENTORY);
       if (!project) {
-        res.status(404).json({
-          success: false,
-          error: {
-            code: 'NOT_FOUND',
-            message: 'Project not found',
-          },
-        });
         return;
       }
 
@@ -548,6 +912,21 @@ class ProjectController {
     try {
       const projectId = parseInt(req.params.projectId);
 
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      if (!(await authorizeProject(res, projectId, req.user.userId, ProjectPermission.VIEW))) {
+        return;
+      }
+
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 20;
       const offset = (page - 1) * limit;
@@ -624,33 +1003,19 @@ class ProjectController {
     try {
       const projectId = parseInt(req.params.projectId);
 
-      if (!req.user || req.user.role !== 'builder') {
-        res.status(403).json({
+      if (!req.user) {
+        res.status(401).json({
           success: false,
           error: {
-            code: 'FORBIDDEN',
-            message: 'Access denied. Builder role required.',
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
           },
         });
         return;
       }
 
-      // Verify project ownership
-      const project = await Project.findOne({
-        where: {
-          id: projectId,
-          builder_id: req.user.userId,
-        },
-      });
-
+      const project = await authorizeProject(res, projectId, req.user.userId, ProjectPermission.MANAGE_INVENTORY);
       if (!project) {
-        res.status(404).json({
-          success: false,
-          error: {
-            code: 'NOT_FOUND',
-            message: 'Project not found',
-          },
-        });
         return;
       }
 
@@ -786,33 +1151,19 @@ class ProjectController {
     try {
       const projectId = parseInt(req.params.projectId);
 
-      if (!req.user || req.user.role !== 'builder') {
-        res.status(403).json({
+      if (!req.user) {
+        res.status(401).json({
           success: false,
           error: {
-            code: 'FORBIDDEN',
-            message: 'Access denied. Builder role required.',
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
           },
         });
         return;
       }
 
-      // Verify project ownership
-      const project = await Project.findOne({
-        where: {
-          id: projectId,
-          builder_id: req.user.userId,
-        },
-      });
-
+      const project = await authorizeProject(res, projectId, req.user.userId, ProjectPermission.MANAGE_INVENTORY);
       if (!project) {
-        res.status(404).json({
-          success: false,
-          error: {
-            code: 'NOT_FOUND',
-            message: 'Project not found',
-          },
-        });
         return;
       }
 
@@ -921,12 +1272,12 @@ class ProjectController {
       const userId = req.user?.userId;
       const files = req.files as Express.Multer.File[];
 
-      if (!userId || req.user?.role !== 'builder') {
-        res.status(403).json({
+      if (!userId) {
+        res.status(401).json({
           success: false,
           error: {
-            code: 'FORBIDDEN',
-            message: 'Access denied. Builder role required.'
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required'
           }
         });
         return;
@@ -943,19 +1294,8 @@ class ProjectController {
         return;
       }
 
-      // Verify project exists and user owns it
-      const project = await Project.findOne({
-        where: { id: projectId, builder_id: userId },
-      });
-
+      const project = await authorizeProject(res, projectId, userId, ProjectPermission.MANAGE_MARKETING);
       if (!project) {
-        res.status(404).json({
-          success: false,
-          error: {
-            code: 'NOT_FOUND',
-            message: 'Project not found or access denied'
-          }
-        });
         return;
       }
 
@@ -998,25 +1338,43 @@ class ProjectController {
   // Delete an image from a project
   async deleteProjectImage(req: ProjectRequest, res: Response): Promise<void> {
     try {
-      const { imageId } = req.params;
+      const projectId = parseInt(req.params.projectId);
+      const imageId = parseInt(req.params.imageId);
       const userId = req.user?.userId;
 
-      if (!userId || req.user?.role !== 'builder') {
-        res.status(403).json({
+      if (!userId) {
+        res.status(401).json({
           success: false,
           error: {
-            code: 'FORBIDDEN',
-            message: 'Access denied. Builder role required.'
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required'
+          }
+        });
+        return;
+      }
+
+      const project = await authorizeProject(res, projectId, userId, ProjectPermission.MANAGE_MARKETING);
+      if (!project) {
+        return;
+      }
+
+      const image = await ProjectImage.findOne({ where: { id: imageId, project_id: projectId } });
+      if (!image) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Image not found'
           }
         });
         return;
       }
 
-      // Use S3 service to delete image
+      // Use S3 service to delete image; it checks ownership against the builder account
       const { ImageServiceS3 } = await import('../services/imageServiceS3');
       const result = await ImageServiceS3.deleteProjectImage(
-        parseInt(imageId),
-        userId
+        imageId,
+        project.builder_id
       );
 
       if (result.success) {
@@ -1070,7 +1428,7 @@ class ProjectController {
         projects.map(async (project) => {
           const [images, builder] = await Promise.all([
             ProjectImage.findAll({
-              where: { project_id: project.id },
+              where: { project_id: project.id, ...GALLERY_IMAGE_WHERE },
               order: [['is_primary', 'DESC'], ['display_order', 'ASC']],
               limit: 2, // Only get first 2 images for performance
             }),
@@ -1164,7 +1522,7 @@ class ProjectController {
           attributes: ['id', 'first_name', 'last_name', 'email'],
         }),
         ProjectImage.findAll({
-          where: { project_id: projectId },
+          where: { project_id: projectId, ...GALLERY_IMAGE_WHERE },
           order: [['is_primary', 'DESC'], ['display_order', 'ASC']],
         }),
         ProjectUnit.findAll({
@@ -1206,117 +1564,93 @@ class ProjectController {
   // Get all public projects with filtering
   async getPublicProjects(req: Request, res: Response): Promise<void> {
     try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
       const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 10;
-      const offset = (page - 1) * limit;
+      const limit = Math.min(parseInt(req.query.limit as string) || 10, MAX_PUBLIC_PROJECTS_PAGE);
 
-      const {
-        location,
-        city,
-        project_type,
-        min_price,
-        max_price,
-        status,
-        sortBy = 'created_at',
-        sortOrder = 'desc',
-      } = req.query;
+      const { projects, total } = await projectSearchService.searchProjects(toProjectSearchFilters(req.query), page, limit);
 
-      const whereClause: any = {
-        is_active: true,
-        approval_status: 'approved',
-      };
+      res.json({
+        success: true,
+        data: projects,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Get public projects', 'Failed to retrieve projects');
+    }
+  }
 
-      // Apply filters
-      if (location) {
-        whereClause.location = { [Op.iLike]: `%${location}%` };
-      }
-      if (city) {
-        whereClause.city = { [Op.iLike]: `%${city}%` };
-      }
-      if (project_type) {
-        whereClause.project_type = project_type;
-      }
-      if (status) {
-        whereClause.status = status;
+  // Available units of a public project, optionally for one BHK configuration
+  async getPublicProjectAvailability(req: Request, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: errors.array(),
+          },
+        });
+        return;
       }
 
-      // Price filtering (assuming pricing object has min/max fields)
-      if (min_price || max_price) {
-        const priceFilter: any = {};
-        if (min_price) priceFilter['pricing.min'] = { [Op.gte]: parseFloat(min_price as string) };
-        if (max_price) priceFilter['pricing.max'] = { [Op.lte]: parseFloat(max_price as string) };
-        // Note: This is a simplified approach. In a real app, you'd need proper JSON querying
-      }
+      const availability = await projectSearchService.getPublicAvailability(
+        parseInt(req.params.id),
+        req.query.bedrooms !== undefined ? parseInt(req.query.bedrooms as string) : undefined
+      );
 
-      const { rows: projects, count: total } = await Project.findAndCountAll({
-        where: whereClause,
-        order: [[sortBy as string, (sortOrder as string).toUpperCase()]],
-        limit,
-        offset,
+      res.json({
+        success: true,
+        data: availability,
       });
+    } catch (error) {
+      sendServiceError(res, error, 'Get project availability', 'Failed to retrieve unit availability');
+    }
+  }
 
-      // Manually fetch images and builder data for each project
-      const projectsWithImages = await Promise.all(
-        projects.map(async (project) => {
-          const [images, builder] = await Promise.all([
-            ProjectImage.findAll({
-              where: { project_id: project.id },
-              order: [['is_primary', 'DESC'], ['display_order', 'ASC']],
-              limit: 3,
-            }),
-            User.findByPk(project.builder_id, {
-              attributes: ['id', 'first_name', 'last_name', 'email'],
-            })
-          ]);
-
-          const projectData = project.toJSON() as any;
-
-          return {
-            id: projectData.id,
-            name: projectData.name,
-            description: projectData.description,
-            location: projectData.location,
-            city: projectData.city,
-            state: projectData.state,
-            project_type: projectData.project_type,
-            total_units: projectData.total_units,
-            available_units: projectData.available_units,
-            pricing: projectData.pricing,
-            amenities: projectData.amenities,
-            images: images.map(img => img.image_url),
-            builder: builder ? {
-              id: builder.id,
-              first_name: builder.first_name,
-              last_name: builder.last_name,
-              email: builder.email,
-            } : null,
-            created_at: projectData.created_at,
-            status: projectData.status,
-          };
-        })
-      );
+  // Compare public projects side by side, e.g. ?ids=12,15,18
+  async compareProjects(req: Request, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
 
-      const totalPages = Math.ceil(total / limit);
+      const projects = await projectSearchService.compareProjects(listParam(req.query.ids).map(id => parseInt(id)));
 
       res.json({
         success: true,
-        data: projectsWithImages,
-        pagination: {
-          page,
-          limit,
-          total,
-          totalPages,
-        },
+        data: { projects },
       });
     } catch (error) {
-      console.error('Get public projects error:', error);
-      res.status(500).json({
-        success: false,
-        error: {
-          code: 'INTERNAL_ERROR',
-          message: 'Failed to retrieve projects',
-        },
-      });
+      sendServiceError(res, error, 'Compare projects', 'Failed to compare projects');
     }
   }
 
@@ -1347,25 +1681,1392 @@ class ProjectController {
         '201,2BHK,2,A,1200,111.48,1000,1100,1200,5200000,4333.33,2000,1,1,2,2,West,false,false'
       ];
 
-      const csv = [csvHeaders.join(','), ...sampleData].join('\n');
+      const csv = [csvHeaders.join(','), ...sampleData].join('\n');
+
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', 'attachment; filename=units_template.csv');
+      res.send(csv);
+    } catch (error) {
+      console.error('Download CSV template error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to download template',
+        },
+      });
+    }
+  }
+
+  // Export all units of a project as CSV or XLSX
+  async exportProjectUnits(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const { filename, contentType, body: file } = await unitImportService.exportUnits(
+        parseInt(req.params.projectId),
+        req.user.userId,
+        req.query.format === 'xlsx' ? 'xlsx' : 'csv'
+      );
+
+      res.setHeader('Content-Type', contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(file);
+    } catch (error) {
+      sendServiceError(res, error, 'Export units', 'Failed to export units');
+    }
+  }
+
+  // Diff an edited unit sheet against the project's units without applying it
+  async previewUnitImport(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const rows = await validateImportRows(await readUploadedSheet(req));
+      const preview = await unitImportService.previewImport(parseInt(req.params.projectId), req.user.userId, rows);
+
+      res.json({
+        success: true,
+        data: preview,
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Preview unit import', 'Failed to preview unit import');
+    }
+  }
+
+  // Apply a previewed unit sheet; the same file and the preview digest are sent again
+  async applyUnitImport(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const rows = await validateImportRows(await readUploadedSheet(req));
+      const result = await unitImportService.applyImport(
+        parseInt(req.params.projectId),
+        req.user.userId,
+        rows,
+        req.body.digest
+      );
+
+      res.json({
+        success: true,
+        data: result,
+        message: `${result.created.length} units created and ${result.updated.length} updated`,
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Apply unit import', 'Failed to import units');
+    }
+  }
+
+  // Update project unit
+  async updateProjectUnit(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      const projectId = parseInt(req.params.projectId);
+      const unitId = parseInt(req.params.unitId);
+
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const project = await authorizeProject(res, projectId, req.user.userId, ProjectPermission.MANAGE_INVENTORY);
+      if (!project) {
+        return;
+      }
+
+      const {
+        unitNumber,
+        unitType,
+        floorNumber,
+        tower,
+        areaSqft,
+        areaSqm,
+        carpetArea,
+        builtUpArea,
+        superBuiltUpArea,
+        price,
+        pricePerSqft,
+        maintenanceCharge,
+        parkingSpaces,
+        balconies,
+        bathrooms,
+        bedrooms,
+        facing,
+        status,
+        specifications,
+        amenities,
+        isCornerUnit,
+        hasTerrace,
+      } = req.body;
+
+      // Update unit and project counts together. The unit is locked first so a buyer's hold,
+      // which locks it too, can't land between the reservation check and the status change.
+      const unit = await sequelize.transaction(async (transaction) => {
+        const locked = await ProjectUnit.findOne({
+          where: {
+            id: unitId,
+            project_id: projectId,
+          },
+          transaction,
+          lock: transaction.LOCK.UPDATE,
+        });
+
+        if (!locked) {
+          throw new NotFoundError('Unit not found');
+        }
+
+        const oldStatus = locked.status;
+        const statusChanged = status !== undefined && status !== oldStatus;
+
+        if (statusChanged && !Object.values(UnitStatus).includes(status)) {
+          throw new ValidationError('Invalid unit status');
+        }
+
+        // Held and booked units change status through the reservation flow
+        if (statusChanged && await unitReservationService.hasActiveReservation(locked.id, transaction)) {
+          throw new ConflictError('This unit has an active hold or booking. Release it before changing the status.');
+        }
+
+        await locked.update({
+          unit_number: unitNumber,
+          unit_type: unitType,
+          floor_number: floorNumber,
+          tower,
+          area_sqft: areaSqft,
+          area_sqm: areaSqm || (areaSqft * 0.092903),
+          price,
+          price_per_sqft: pricePerSqft || (price / areaSqft),
+          maintenance_charge: maintenanceCharge,
+          parking_spaces: parkingSpaces,
+          balconies: balconies,
+          bathrooms,
+          bedrooms,
+          status,
+          specifications: specifications || {},
+          amenities: amenities || [],
+          is_corner_unit: isCornerUnit,
+          has_terrace: hasTerrace,
+        }, { transaction });
+
+        if (statusChanged) {
+          await moveUnitCount(projectId, oldStatus, status, transaction);
+        }
+
+        return locked;
+      });
+
+      res.json({
+        success: true,
+        data: { unit },
+        message: 'Unit updated successfully',
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Update unit', 'Failed to update unit');
+    }
+  }
+
+  // Delete project unit
+  async deleteProjectUnit(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      const projectId = parseInt(req.params.projectId);
+      const unitId = parseInt(req.params.unitId);
+
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const project = await authorizeProject(res, projectId, req.user.userId, ProjectPermission.MANAGE_INVENTORY);
+      if (!project) {
+        return;
+      }
+
+      // Delete the unit and update project counts together, with the unit locked against new holds
+      await sequelize.transaction(async (transaction) => {
+        const unit = await ProjectUnit.findOne({
+          where: {
+            id: unitId,
+            project_id: projectId,
+          },
+          transaction,
+          lock: transaction.LOCK.UPDATE,
+        });
+
+        if (!unit) {
+          throw new NotFoundError('Unit not found');
+        }
+
+        if (await unitReservationService.hasActiveReservation(unit.id, transaction)) {
+          throw new ConflictError('This unit has an active hold or booking. Release it before deleting the unit.');
+        }
+
+        await unit.destroy({ transaction });
+        await project.decrement(['total_units', UNIT_STATUS_COUNTERS[unit.status]], { transaction });
+      });
+
+      res.json({
+        success: true,
+        message: 'Unit deleted successfully',
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Delete unit', 'Failed to delete unit');
+    }
+  }
+
+  // Get single unit details
+  async getProjectUnit(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      const projectId = parseInt(req.params.projectId);
+      const unitId = parseInt(req.params.unitId);
+
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      if (!(await authorizeProject(res, projectId, req.user.userId, ProjectPermission.VIEW))) {
+        return;
+      }
+
+      const unit = await ProjectUnit.findOne({
+        where: {
+          id: unitId,
+          project_id: projectId,
+        },
+      });
+
+      if (!unit) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Unit not found',
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { unit },
+      });
+    } catch (error) {
+      console.error('Get unit error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to retrieve unit',
+        },
+      });
+    }
+  }
+
+  // Get units grouped by tower and floor
+  async getStackingPlan(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const plan = await projectInventoryService.getStackingPlan(parseInt(req.params.projectId), req.user.userId);
+
+      res.json({
+        success: true,
+        data: plan,
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Get stacking plan', 'Failed to retrieve stacking plan');
+    }
+  }
+
+  // Change the status of several units in one operation
+  async bulkUpdateUnitStatus(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const result = await projectInventoryService.bulkUpdateStatus(
+        parseInt(req.params.projectId),
+        req.user.userId,
+        req.body.unitIds,
+        req.body.status
+      );
+
+      res.json({
+        success: true,
+        data: result,
+        message: `${result.updated.length} unit(s) updated`,
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Bulk update unit status', 'Failed to update units');
+    }
+  }
+
+  // Get a project's price list versions
+  async getPriceLists(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const priceLists = await projectPricingService.getPriceLists(parseInt(req.params.projectId), req.user.userId);
+
+      res.json({
+        success: true,
+        data: { priceLists },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Get price lists', 'Failed to retrieve price lists');
+    }
+  }
+
+  // Get one price list version with its unit prices
+  async getPriceList(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const details = await projectPricingService.getPriceList(
+        parseInt(req.params.projectId),
+        req.user.userId,
+        parseInt(req.params.priceListId)
+      );
+
+      res.json({
+        success: true,
+        data: details,
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Get price list', 'Failed to retrieve price list');
+    }
+  }
+
+  // Compute unit prices for pricing rules without saving them
+  async previewPriceList(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const preview = await projectPricingService.previewPriceList(
+        parseInt(req.params.projectId),
+        req.user.userId,
+        toPriceListInput(req.body)
+      );
+
+      res.json({
+        success: true,
+        data: preview,
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Preview price list', 'Failed to preview price list');
+    }
+  }
+
+  // Create the next price list version
+  async createPriceList(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const priceList = await projectPricingService.createPriceList(
+        parseInt(req.params.projectId),
+        req.user.userId,
+        toPriceListInput(req.body)
+      );
+
+      res.status(201).json({
+        success: true,
+        data: { priceList },
+        message: priceList.applied_at
+          ? `Price list v${priceList.version} is now in effect`
+          : `Price list v${priceList.version} scheduled`,
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Create price list', 'Failed to create price list');
+    }
+  }
+
+  // Withdraw a price list version that has not taken effect
+  async deletePriceList(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      await projectPricingService.deletePriceList(
+        parseInt(req.params.projectId),
+        req.user.userId,
+        parseInt(req.params.priceListId)
+      );
+
+      res.json({
+        success: true,
+        message: 'Price list deleted successfully',
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Delete price list', 'Failed to delete price list');
+    }
+  }
+
+  // Get the price list of a public project, and the one current at the user's inquiry
+  async getPublicPriceList(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      const priceLists = await projectPricingService.getPublicPriceLists(
+        parseInt(req.params.id),
+        req.user?.userId
+      );
+
+      res.json({
+        success: true,
+        data: priceLists,
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Get public price list', 'Failed to retrieve price list');
+    }
+  }
+
+  // Get construction updates for a builder's project
+  async getProjectUpdates(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const updates = await projectUpdateService.getUpdates(parseInt(req.params.projectId), req.user.userId);
+
+      res.json({
+        success: true,
+        data: { updates },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Get project updates', 'Failed to retrieve project updates');
+    }
+  }
+
+  // Post a construction milestone, progress update or quarterly report with site photos
+  async createProjectUpdate(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        discardUploads(req);
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      if (!req.user) {
+        discardUploads(req);
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const { update, failedPhotos } = await projectUpdateService.createUpdate(
+        parseInt(req.params.projectId),
+        req.user.userId,
+        toProjectUpdateInput(req.body),
+        (req.files as Express.Multer.File[]) || []
+      );
+
+      res.status(201).json({
+        success: true,
+        data: { update, failedPhotos },
+        message: failedPhotos.length > 0
+          ? `Update posted, but ${failedPhotos.length} photo(s) could not be uploaded`
+          : 'Update posted successfully',
+      });
+    } catch (error) {
+      discardUploads(req);
+      sendServiceError(res, error, 'Create project update', 'Failed to post project update');
+    }
+  }
+
+  // Delete a construction update and its photos
+  async deleteProjectUpdate(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      await projectUpdateService.deleteUpdate(
+        parseInt(req.params.projectId),
+        req.user.userId,
+        parseInt(req.params.updateId)
+      );
+
+      res.json({
+        success: true,
+        message: 'Project update deleted successfully',
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Delete project update', 'Failed to delete project update');
+    }
+  }
+
+  // Get the construction timeline of a public project
+  async getPublicProjectUpdates(req: Request, res: Response): Promise<void> {
+    try {
+      const page = Math.max(1, parseInt(req.query.page as string) || 1);
+      const limit = Math.min(50, Math.max(1, parseInt(req.query.limit as string) || 10));
+
+      const result = await projectUpdateService.getPublicUpdates(parseInt(req.params.id), page, limit);
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Get public project updates', 'Failed to retrieve project updates');
+    }
+  }
+
+  // Get a project's brochures, floor plans and 3D tours
+  async getProjectAssets(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const assets = await projectAssetService.getAssets(parseInt(req.params.projectId), req.user.userId);
+
+      res.json({
+        success: true,
+        data: { assets },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Get project assets', 'Failed to retrieve project assets');
+    }
+  }
+
+  // Upload a brochure or floor plan, or add a 3D tour link
+  async createProjectAsset(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const asset = await projectAssetService.createAsset(
+        parseInt(req.params.projectId),
+        req.user.userId,
+        {
+          asset_type: req.body.assetType,
+          title: req.body.title,
+          unit_type: req.body.unitType || null,
+          tour_url: req.body.tourUrl || null,
+          requires_lead: req.body.requiresLead,
+        },
+        req.file
+      );
+
+      res.status(201).json({
+        success: true,
+        data: { asset },
+        message: 'Asset added successfully',
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Create project asset', 'Failed to add asset');
+    }
+  }
+
+  // Rename, reorder or gate an asset
+  async updateProjectAsset(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const asset = await projectAssetService.updateAsset(
+        parseInt(req.params.projectId),
+        req.user.userId,
+        parseInt(req.params.assetId),
+        {
+          title: req.body.title,
+          requires_lead: req.body.requiresLead,
+          display_order: req.body.displayOrder,
+        }
+      );
+
+      res.json({
+        success: true,
+        data: { asset },
+        message: 'Asset updated successfully',
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Update project asset', 'Failed to update asset');
+    }
+  }
+
+  async deleteProjectAsset(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      await projectAssetService.deleteAsset(
+        parseInt(req.params.projectId),
+        req.user.userId,
+        parseInt(req.params.assetId)
+      );
+
+      res.json({
+        success: true,
+        message: 'Asset deleted successfully',
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Delete project asset', 'Failed to delete asset');
+    }
+  }
+
+  // Use a floor plan for units of its unit type
+  async linkFloorPlanUnits(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const linked = await projectAssetService.linkFloorPlan(
+        parseInt(req.params.projectId),
+        req.user.userId,
+        parseInt(req.params.assetId),
+        req.body.unitIds
+      );
+
+      res.json({
+        success: true,
+        data: { linked },
+        message: `Floor plan linked to ${linked} unit(s)`,
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Link floor plan', 'Failed to link floor plan');
+    }
+  }
+
+  async unlinkFloorPlanUnits(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const unlinked = await projectAssetService.unlinkFloorPlan(
+        parseInt(req.params.projectId),
+        req.user.userId,
+        parseInt(req.params.assetId),
+        req.body.unitIds
+      );
+
+      res.json({
+        success: true,
+        data: { unlinked },
+        message: `Floor plan removed from ${unlinked} unit(s)`,
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Unlink floor plan', 'Failed to unlink floor plan');
+    }
+  }
+
+  // Get the brochures, floor plans and 3D tours of a public project
+  async getPublicProjectAssets(req: Request, res: Response): Promise<void> {
+    try {
+      const assets = await projectAssetService.getPublicAssets(parseInt(req.params.id));
+
+      res.json({
+        success: true,
+        data: { assets },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Get public project assets', 'Failed to retrieve project assets');
+    }
+  }
+
+  // Get a download link for a brochure or floor plan, leaving contact details when it asks for them
+  async downloadProjectAsset(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      const lead: AssetLead | null = req.body.name && req.body.email
+        ? { name: req.body.name, email: req.body.email, phone: req.body.phone }
+        : null;
+
+      const download = await projectAssetService.getDownload(
+        parseInt(req.params.id),
+        parseInt(req.params.assetId),
+        lead,
+        req.user?.userId
+      );
+
+      res.json({
+        success: true,
+        data: download,
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Download project asset', 'Failed to prepare download');
+    }
+  }
+
+  // Place a time-limited hold on a unit
+  async holdUnit(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const reservation = await unitReservationService.placeHold(
+        parseInt(req.params.projectId),
+        parseInt(req.params.unitId),
+        req.user.userId,
+        req.body.notes
+      );
+
+      res.status(201).json({
+        success: true,
+        data: { reservation },
+        message: 'Unit held successfully',
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Hold unit', 'Failed to hold unit');
+    }
+  }
+
+  // Release a hold or cancel a booking
+  async releaseUnitHold(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const reservation = await unitReservationService.release(
+        parseInt(req.params.projectId),
+        parseInt(req.params.unitId),
+        { userId: req.user.userId }
+      );
+
+      res.json({
+        success: true,
+        data: { reservation },
+        message: 'Unit released successfully',
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Release unit', 'Failed to release unit');
+    }
+  }
+
+  // Confirm the booking of a held unit
+  async bookUnit(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const reservation = await unitReservationService.confirmBooking(
+        parseInt(req.params.projectId),
+        parseInt(req.params.unitId),
+        req.user.userId
+      );
+
+      res.json({
+        success: true,
+        data: { reservation },
+        message: 'Booking confirmed successfully',
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Book unit', 'Failed to confirm booking');
+    }
+  }
+
+  // Get the current hold or booking on a unit
+  async getUnitReservation(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const reservation = await unitReservationService.getUnitReservation(
+        parseInt(req.params.projectId),
+        parseInt(req.params.unitId),
+        { userId: req.user.userId }
+      );
+
+      res.json({
+        success: true,
+        data: { reservation },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Get unit reservation', 'Failed to retrieve reservation');
+    }
+  }
+
+  // Get reservations across a builder's project
+  async getProjectReservations(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const status = req.query.status as ReservationStatus | undefined;
+      if (status && !Object.values(ReservationStatus).includes(status)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid reservation status',
+          },
+        });
+        return;
+      }
+
+      const reservations = await unitReservationService.getProjectReservations(
+        parseInt(req.params.projectId),
+        req.user.userId,
+        status
+      );
+
+      res.json({
+        success: true,
+        data: { reservations },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Get project reservations', 'Failed to retrieve reservations');
+    }
+  }
+
+  // Get the current user's holds and bookings
+  async getMyReservations(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const reservations = await unitReservationService.getBuyerReservations(req.user.userId);
+
+      res.json({
+        success: true,
+        data: { reservations },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Get my reservations', 'Failed to retrieve reservations');
+    }
+  }
+
+  // Get payment plan templates for a project
+  async getPaymentPlans(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const plans = await paymentScheduleService.getPlans(parseInt(req.params.projectId), req.user.userId);
+
+      res.json({
+        success: true,
+        data: { plans },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Get payment plans', 'Failed to retrieve payment plans');
+    }
+  }
+
+  // Create a payment plan template
+  async createPaymentPlan(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const plan = await paymentScheduleService.createPlan(
+        parseInt(req.params.projectId),
+        req.user.userId,
+        toPaymentPlanInput(req.body)
+      );
+
+      res.status(201).json({
+        success: true,
+        data: { plan },
+        message: 'Payment plan created successfully',
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Create payment plan', 'Failed to create payment plan');
+    }
+  }
+
+  // Update a payment plan template
+  async updatePaymentPlan(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const plan = await paymentScheduleService.updatePlan(
+        parseInt(req.params.projectId),
+        req.user.userId,
+        parseInt(req.params.planId),
+        toPaymentPlanInput(req.body)
+      );
+
+      res.json({
+        success: true,
+        data: { plan },
+        message: 'Payment plan updated successfully',
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Update payment plan', 'Failed to update payment plan');
+    }
+  }
+
+  // Delete a payment plan template
+  async deletePaymentPlan(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      await paymentScheduleService.deletePlan(
+        parseInt(req.params.projectId),
+        req.user.userId,
+        parseInt(req.params.planId)
+      );
+
+      res.json({
+        success: true,
+        message: 'Payment plan deleted successfully',
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'Delete payment plan', 'Failed to delete payment plan');
+    }
+  }
+
+  // Get paid, outstanding and overdue amounts across a project's booked units
+  async getPaymentReceivables(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const receivables = await paymentScheduleService.getProjectReceivables(
+        parseInt(req.params.projectId),
+        req.user.userId,
+        req.query.overdue === 'true'
+      );
 
-      res.setHeader('Content-Type', 'text/csv');
-      res.setHeader('Content-Disposition', 'attachment; filename=units_template.csv');
-      res.send(csv);
-    } catch (error) {
-      console.error('Download CSV template error:', error);
-      res.status(500).json({
-        success: false,
-        error: {
-          code: 'INTERNAL_ERROR',
-          message: 'Failed to download template',
-        },
+      res.json({
+        success: true,
+        data: receivables,
       });
+    } catch (error) {
+      sendServiceError(res, error, 'Get payment receivables', 'Failed to retrieve receivables');
     }
   }
 
-  // Update project unit
-  async updateProjectUnit(req: ProjectRequest, res: Response): Promise<void> {
+  // Apply a payment plan to a booked unit
+  async applyPaymentPlan(req: ProjectRequest, res: Response): Promise<void> {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -1380,265 +3081,209 @@ class ProjectController {
         return;
       }
 
-      const projectId = parseInt(req.params.projectId);
-      const unitId = parseInt(req.params.unitId);
-
-      if (!req.user || req.user.role !== 'builder') {
-        res.status(403).json({
+      if (!req.user) {
+        res.status(401).json({
           success: false,
           error: {
-            code: 'FORBIDDEN',
-            message: 'Access denied. Builder role required.',
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
           },
         });
         return;
       }
 
-      // Verify project ownership
-      const project = await Project.findOne({
-        where: {
-          id: projectId,
-          builder_id: req.user.userId,
-        },
+      const schedule = await paymentScheduleService.applyPlan(
+        parseInt(req.params.projectId),
+        parseInt(req.params.unitId),
+        req.user.userId,
+        parseInt(req.body.planId),
+        req.body.bookingDate ? String(req.body.bookingDate).slice(0, 10) : undefined
+      );
+
+      res.status(201).json({
+        success: true,
+        data: schedule,
+        message: 'Payment schedule created successfully',
       });
+    } catch (error) {
+      sendServiceError(res, error, 'Apply payment plan', 'Failed to create payment schedule');
+    }
+  }
 
-      if (!project) {
-        res.status(404).json({
+  // Get the payment schedule of a unit
+  async getPaymentSchedule(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
           success: false,
           error: {
-            code: 'NOT_FOUND',
-            message: 'Project not found',
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
           },
         });
         return;
       }
 
-      // Find the unit
-      const unit = await ProjectUnit.findOne({
-        where: {
-          id: unitId,
-          project_id: projectId,
-        },
+      const schedule = await paymentScheduleService.getSchedule(
+        parseInt(req.params.projectId),
+        parseInt(req.params.unitId),
+        { userId: req.user.userId }
+      );
+
+      res.json({
+        success: true,
+        data: schedule,
       });
+    } catch (error) {
+      sendServiceError(res, error, 'Get payment schedule', 'Failed to retrieve payment schedule');
+    }
+  }
 
-      if (!unit) {
-        res.status(404).json({
+  // Remove a payment schedule that has no payments
+  async deletePaymentSchedule(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
           success: false,
           error: {
-            code: 'NOT_FOUND',
-            message: 'Unit not found',
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
           },
         });
         return;
       }
 
-      const oldStatus = unit.status;
-      const {
-        unitNumber,
-        unitType,
-        floorNumber,
-        tower,
-        areaSqft,
-        areaSqm,
-        carpetArea,
-        builtUpArea,
-        superBuiltUpArea,
-        price,
-        pricePerSqft,
-        maintenanceCharge,
-        parkingSpaces,
-        balconies,
-        bathrooms,
-        bedrooms,
-        facing,
-        status,
-        specifications,
-        amenities,
-        isCornerUnit,
-        hasTerrace,
-      } = req.body;
-
-      // Update unit
-      await unit.update({
-        unit_number: unitNumber,
-        unit_type: unitType,
-        floor_number: floorNumber,
-        tower,
-        area_sqft: areaSqft,
-        area_sqm: areaSqm || (areaSqft * 0.092903),
-        price,
-        price_per_sqft: pricePerSqft || (price / areaSqft),
-        maintenance_charge: maintenanceCharge,
-        parking_spaces: parkingSpaces,
-        balconies: balconies,
-        bathrooms,
-        bedrooms,
-        status,
-        specifications: specifications || {},
-        amenities: amenities || [],
-        is_corner_unit: isCornerUnit,
-        has_terrace: hasTerrace,
-      });
-
-      // Update project counts if status changed
-      if (oldStatus !== status) {
-        if (oldStatus === UnitStatus.AVAILABLE) {
-          await project.decrement('available_units');
-        } else if (oldStatus === UnitStatus.SOLD) {
-          await project.decrement('sold_units');
-        } else if (oldStatus === UnitStatus.BLOCKED) {
-          await project.decrement('blocked_units');
-        }
-
-        if (status === UnitStatus.AVAILABLE) {
-          await project.increment('available_units');
-        } else if (status === UnitStatus.SOLD) {
-          await project.increment('sold_units');
-        } else if (status === UnitStatus.BLOCKED) {
-          await project.increment('blocked_units');
-        }
-      }
+      await paymentScheduleService.removeSchedule(
+        parseInt(req.params.projectId),
+        parseInt(req.params.unitId),
+        req.user.userId
+      );
 
       res.json({
         success: true,
-        data: { unit },
-        message: 'Unit updated successfully',
+        message: 'Payment schedule removed successfully',
       });
     } catch (error) {
-      console.error('Update unit error:', error);
-      res.status(500).json({
-        success: false,
-        error: {
-          code: 'INTERNAL_ERROR',
-          message: 'Failed to update unit',
-        },
-      });
+      sendServiceError(res, error, 'Delete payment schedule', 'Failed to remove payment schedule');
     }
   }
 
-  // Delete project unit
-  async deleteProjectUnit(req: ProjectRequest, res: Response): Promise<void> {
+  // Move the due date of an installment
+  async rescheduleInstallment(req: ProjectRequest, res: Response): Promise<void> {
     try {
-      const projectId = parseInt(req.params.projectId);
-      const unitId = parseInt(req.params.unitId);
-
-      if (!req.user || req.user.role !== 'builder') {
-        res.status(403).json({
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
           success: false,
           error: {
-            code: 'FORBIDDEN',
-            message: 'Access denied. Builder role required.',
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: errors.array(),
           },
         });
         return;
       }
 
-      // Verify project ownership
-      const project = await Project.findOne({
-        where: {
-          id: projectId,
-          builder_id: req.user.userId,
-        },
-      });
-
-      if (!project) {
-        res.status(404).json({
+      if (!req.user) {
+        res.status(401).json({
           success: false,
           error: {
-            code: 'NOT_FOUND',
-            message: 'Project not found',
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
           },
         });
         return;
       }
 
-      // Find the unit
-      const unit = await ProjectUnit.findOne({
-        where: {
-          id: unitId,
-          project_id: projectId,
-        },
+      const installment = await paymentScheduleService.rescheduleInstallment(
+        parseInt(req.params.projectId),
+        parseInt(req.params.unitId),
+        req.user.userId,
+        parseInt(req.params.installmentId),
+        String(req.body.dueDate).slice(0, 10)
+      );
+
+      res.json({
+        success: true,
+        data: { installment },
+        message: 'Installment rescheduled successfully',
       });
+    } catch (error) {
+      sendServiceError(res, error, 'Reschedule installment', 'Failed to reschedule installment');
+    }
+  }
 
-      if (!unit) {
-        res.status(404).json({
+  // Record a payment against an installment
+  async recordInstallmentPayment(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
           success: false,
           error: {
-            code: 'NOT_FOUND',
-            message: 'Unit not found',
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: errors.array(),
           },
         });
         return;
       }
 
-      const unitStatus = unit.status;
-
-      // Delete the unit
-      await unit.destroy();
-
-      // Update project counts
-      await project.decrement('total_units');
-      if (unitStatus === UnitStatus.AVAILABLE) {
-        await project.decrement('available_units');
-      } else if (unitStatus === UnitStatus.SOLD) {
-        await project.decrement('sold_units');
-      } else if (unitStatus === UnitStatus.BLOCKED) {
-        await project.decrement('blocked_units');
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
       }
 
-      res.json({
+      const schedule = await paymentScheduleService.recordPayment(
+        parseInt(req.params.projectId),
+        parseInt(req.params.unitId),
+        req.user.userId,
+        parseInt(req.params.installmentId),
+        toPaymentInput(req.body)
+      );
+
+      res.status(201).json({
         success: true,
-        message: 'Unit deleted successfully',
+        data: schedule,
+        message: 'Payment recorded successfully',
       });
     } catch (error) {
-      console.error('Delete unit error:', error);
-      res.status(500).json({
-        success: false,
-        error: {
-          code: 'INTERNAL_ERROR',
-          message: 'Failed to delete unit',
-        },
-      });
+      sendServiceError(res, error, 'Record installment payment', 'Failed to record payment');
     }
   }
 
-  // Get single unit details
-  async getProjectUnit(req: ProjectRequest, res: Response): Promise<void> {
+  // Download the demand letter PDF for an installment
+  async downloadDemandLetter(req: ProjectRequest, res: Response): Promise<void> {
     try {
-      const projectId = parseInt(req.params.projectId);
-      const unitId = parseInt(req.params.unitId);
-
-      const unit = await ProjectUnit.findOne({
-        where: {
-          id: unitId,
-          project_id: projectId,
-        },
-      });
-
-      if (!unit) {
-        res.status(404).json({
+      if (!req.user) {
+        res.status(401).json({
           success: false,
           error: {
-            code: 'NOT_FOUND',
-            message: 'Unit not found',
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
           },
         });
         return;
       }
 
-      res.json({
-        success: true,
-        data: { unit },
-      });
+      const { filename, pdf } = await paymentScheduleService.getDemandLetter(
+        parseInt(req.params.projectId),
+        parseInt(req.params.unitId),
+        parseInt(req.params.installmentId),
+        { userId: req.user.userId }
+      );
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(pdf);
     } catch (error) {
-      console.error('Get unit error:', error);
-      res.status(500).json({
-        success: false,
-        error: {
-          code: 'INTERNAL_ERROR',
-          message: 'Failed to retrieve unit',
-        },
-      });
+      sendServiceError(res, error, 'Download demand letter', 'Failed to generate demand letter');
     }
   }
 
@@ -1648,12 +3293,12 @@ class ProjectController {
       const projectId = parseInt(req.params.id);
       const { status } = req.body;
 
-      if (!req.user || req.user.role !== 'builder') {
-        res.status(403).json({
+      if (!req.user) {
+        res.status(401).json({
           success: false,
           error: {
-            code: 'FORBIDDEN',
-            message: 'Access denied. Builder role required.',
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
           },
         });
         return;
@@ -1670,21 +3315,8 @@ class ProjectController {
         return;
       }
 
-      const project = await Project.findOne({
-        where: {
-          id: projectId,
-          builder_id: req.user.userId,
-        },
-      });
-
+      const project = await authorizeProject(res, projectId, req.user.userId, ProjectPermission.MANAGE_PROJECT);
       if (!project) {
-        res.status(404).json({
-          success: false,
-          error: {
-            code: 'NOT_FOUND',
-            message: 'Project not found',
-          },
-        });
         return;
       }
 
@@ -1711,12 +3343,12 @@ class ProjectController {
   async getProjectStats(req: ProjectRequest, res: Response): Promise<void> {
     console.log("Inside the stats function")
     try {
-      if (!req.user || req.user.role !== 'builder') {
-        res.status(403).json({
+      if (!req.user) {
+        res.status(401).json({
           success: false,
           error: {
-            code: 'FORBIDDEN',
-            message: 'Access denied. Builder role required.',
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
           },
         });
         return;
@@ -1734,21 +3366,22 @@ class ProjectController {
         return;
       }
 
-      const builderId = req.user.userId;
+      // Projects the builder owns, plus those their team memberships cover
+      const accessibleWhere = await projectAccessService.accessibleProjectsWhere(req.user.userId);
 
       // Get project IDs for this builder first
       const builderProjects = await Project.findAll({
-        where: { builder_id: builderId },
+        where: accessibleWhere,
         attributes: ['id']
       });
 
       const projectIds = builderProjects.map(p => p.id);
 
       const [totalProjects, activeProjects, totalUnits, soldUnits, availableUnits] = await Promise.all([
-        Project.count({ where: { builder_id: builderId } }),
+        Project.count({ where: accessibleWhere }),
         Project.count({
           where: {
-            builder_id: builderId,
+            ...accessibleWhere,
             status: {
               [Op.in]: [ProjectStatus.PRE_LAUNCH, ProjectStatus.UNDER_CONSTRUCTION]
             }
@@ -1818,28 +3451,19 @@ class ProjectController {
         return;
       }
 
-      // Check if project exists and user has access
-      const project = await Project.findByPk(projectId);
-      if (!project) {
-        res.status(404).json({
+      if (!req.user) {
+        res.status(401).json({
           success: false,
           error: {
-            code: 'PROJECT_NOT_FOUND',
-            message: 'Project not found',
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
           },
         });
         return;
       }
 
-      // Check if user is the builder of this project
-      if (req.user && req.user.role === 'builder' && project.builder_id !== req.user.userId) {
-        res.status(403).json({
-          success: false,
-          error: {
-            code: 'FORBIDDEN',
-            message: 'Access denied. You can only view inquiries for your own projects.',
-          },
-        });
+      // Inquiries are leads, so only the builder's sales team sees them
+      if (!(await authorizeProject(res, projectId, req.user.userId, ProjectPermission.MANAGE_SALES))) {
         return;
       }
 
@@ -1892,7 +3516,7 @@ class ProjectController {
   }
 
   // Create project inquiry
-  async createProjectInquiry(req: Request, res: Response): Promise<void> {
+  async createProjectInquiry(req: ProjectRequest, res: Response): Promise<void> {
     try {
       const projectId = parseInt(req.params.projectId);
 
@@ -1940,15 +3564,21 @@ class ProjectController {
         return;
       }
 
+      // Record the price list in effect so the buyer can see the prices they enquired at
+      const priceList = await projectPricingService.getCurrentPriceList(projectId);
+
       // Create inquiry
       const inquiry = await Inquiry.create({
         project_id: projectId,
+        price_list_id: priceList?.id,
+        inquirer_id: req.user?.userId,
         name: name.trim(),
         email: email.trim().toLowerCase(),
         phone: phone?.trim(),
         message: message.trim(),
         status: InquiryStatus.NEW,
       });
+      inquiryService.handleNewLead(inquiry.id).catch(error => console.error('New lead handling error:', error));
 
       // Load the created inquiry with associations
       const createdInquiry = await Inquiry.findByPk(inquiry.id, {
@@ -1,20 +1,43 @@
 import { Request, Response, NextFunction } from 'express';
 import PropertyService, { PropertySearchFilters, PropertyCreateData, PropertyUpdateData } from '../services/propertyService';
 import { AuthenticatedRequest } from '../middleware/auth';
-import { Property, PropertyType, ListingType, PropertyStatus } from '../models/Property';
-import { PropertyImage } from '../models/PropertyImage';
-import { Op } from 'sequelize';
+import { PropertyType, ListingType, PropertyStatus } from '../models/Property';
 import { body, query, param, validationResult } from 'express-validator';
 import { transformPropertiesWithImages } from '../utils/imageUtils';
+import { parseGeoPolygons } from '../utils/geoUtils';
+import { isCursorToken } from '../utils/cursorPagination';
+import { AMENITY_MATCH_MODES, AmenityMatchMode, MAX_AMENITY_FILTERS } from '../utils/amenityFilter';
+import { ApiError, sendErrorResponse } from '../utils/errorResponse';
+import ListingLifecycleService from '../services/listingLifecycleService';
+import RecommendationService from '../services/recommendationService';
+import LeadScoringService from '../services/leadScoringService';
+import { LISTING_ACTIONS, ListingAction } from '../utils/listingLifecycle';
 
 class PropertyController {
   private propertyService: PropertyService;
+  private lifecycleService: ListingLifecycleService;
+  private recommendationService: RecommendationService;
+  private leadScoringService: LeadScoringService;
 
   constructor() {
     this.propertyService = new PropertyService();
+    this.lifecycleService = new ListingLifecycleService();
+    this.recommendationService = new RecommendationService();
+    this.leadScoringService = new LeadScoringService();
   }
 
   // Validation rules
+  static cursorValidation = [
+    query('pagination')
+      .optional()
+      .isIn(['offset', 'cursor'])
+      .withMessage('Pagination must be offset or cursor'),
+    query('cursor')
+      .optional()
+      .custom((value: string) => isCursorToken(value))
+      .withMessage('Invalid cursor'),
+  ];
+
   static createPropertyValidation = [
     body('title')
       .trim()
@@ -99,10 +122,6 @@ class PropertyController {
   static updatePropertyValidation = [
     param('id').isInt({ min: 1 }).withMessage('Invalid property ID'),
     ...PropertyController.createPropertyValidation.map(rule => rule.optional()),
-    body('isActive')
-      .optional()
-      .isBoolean()
-      .withMessage('isActive must be a boolean'),
   ];
 
   static searchValidation = [
@@ -169,9 +188,19 @@ class PropertyController {
       .optional()
       .isFloat({ min: 0.1, max: 100 })
       .withMessage('Radius must be between 0.1 and 100 km'),
+    query('polygon')
+      .optional()
+      .custom((value: string) => {
+        try {
+          parseGeoPolygons(JSON.parse(value));
+        } catch (error) {
+          throw new Error(error instanceof SyntaxError ? 'Polygon must be valid GeoJSON' : (error as Error).message);
+        }
+        return true;
+      }),
     query('sortBy')
       .optional()
-      .isIn(['price', 'date', 'relevance', 'views'])
+      .isIn(['price', 'date', 'relevance', 'views', 'distance'])
       .withMessage('Invalid sort field'),
     query('sortOrder')
       .optional()
@@ -189,12 +218,53 @@ class PropertyController {
       .optional()
       .isBoolean()
       .withMessage('isFeatured must be a boolean'),
+    query('amenities')
+      .optional()
+      .custom((value: string) => String(value).split(',').filter(a => a.trim()).length <= MAX_AMENITY_FILTERS)
+      .withMessage(`At most ${MAX_AMENITY_FILTERS} amenities can be filtered on`),
+    query('amenities_match')
+      .optional()
+      .isIn(AMENITY_MATCH_MODES)
+      .withMessage('amenities_match must be all or any'),
+    query('include_facets')
+      .optional()
+      .isBoolean()
+      .withMessage('include_facets must be a boolean'),
+    ...PropertyController.cursorValidation,
+  ];
+
+  static suggestionsValidation = [
+    query('q')
+      .trim()
+      .isLength({ min: 2, max: 100 })
+      .withMessage('Query must be between 2 and 100 characters'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 20 })
+      .withMessage('Limit must be between 1 and 20'),
   ];
 
   static propertyIdValidation = [
     param('id').isInt({ min: 1 }).withMessage('Invalid property ID'),
   ];
 
+  static listingTransitionValidation = [
+    param('id').isInt({ min: 1 }).withMessage('Invalid property ID'),
+    body('action')
+      .isIn(LISTING_ACTIONS)
+      .withMessage(`Action must be one of: ${LISTING_ACTIONS.join(', ')}`),
+    body('reason')
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ max: 1000 })
+      .withMessage('Reason must be at most 1000 characters'),
+    body('publishAt')
+      .optional()
+      .isISO8601()
+      .withMessage('publishAt must be an ISO 8601 date'),
+  ];
+
   static setFeaturedValidation = [
     param('id').isInt({ min: 1 }).withMessage('Invalid property ID'),
     body('featured').isBoolean().withMessage('Featured must be a boolean value'),
@@ -270,61 +340,44 @@ class PropertyController {
         expiresAt: body.expiresAt ? new Date(body.expiresAt) : undefined,
         autoRenew: body.autoRenew || false,
         renewalPeriodDays: body.renewalPeriodDays ? parseInt(body.renewalPeriodDays) : undefined,
+        submitForReview: body.submitForReview !== false && body.submitForReview !== 'false',
       };
 
-      const property = await this.propertyService.createProperty(userId, propertyData);
+      const { property, duplicateWarnings } = await this.propertyService.createProperty(userId, propertyData);
 
       res.status(201).json({
         success: true,
         data: property,
+        ...(duplicateWarnings.length > 0 && {
+          warning: {
+            code: 'POSSIBLE_DUPLICATE',
+            message: 'This listing looks similar to existing listings and has been flagged for review',
+            details: { matches: duplicateWarnings },
+          },
+        }),
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
+      if (error instanceof ApiError) {
+        sendErrorResponse(res, error);
+        return;
+      }
       next(error);
     }
   };
 
-  // Get recommended properties (featured, popular, etc.)
-  getRecommendedProperties = async (req: Request, res: Response): Promise<void> => {
+  // Get recommended properties, personalised for signed-in users and popular ones otherwise
+  getRecommendedProperties = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
-      const limit = parseInt(req.query.limit as string) || 8;
-
-      // Get properties that are featured or have high engagement
-      // For now, we'll prioritize featured properties and recently created ones
-      const properties = await Property.findAll({
-        where: {
-          status: 'active',
-          [Op.or]: [
-            { is_featured: true },
-            { created_at: { [Op.gte]: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) } } // Last 30 days
-          ]
-        },
-        order: [
-          ['is_featured', 'DESC'], // Featured properties first
-          ['created_at', 'DESC'], // Then by newest
-        ],
-        limit,
-        include: [
-          {
-            model: PropertyImage,
-            as: 'images',
-            required: false,
-          },
-        ],
-      });
+      const limit = Math.min(parseInt(req.query.limit as string) || 8, 50);
 
-      const formattedProperties = properties.map(property => {
-        const propertyData = property.toJSON() as any;
-        return {
-          ...propertyData,
-          images: propertyData.images || [],
-        };
-      });
+      const { properties, personalized } = await this.recommendationService.getRecommendations(req.user?.userId ?? null, limit);
 
       res.json({
         success: true,
-        data: formattedProperties,
-        total: formattedProperties.length,
+        data: properties,
+        total: properties.length,
+        personalized,
       });
     } catch (error) {
       console.error('Get recommended properties error:', error);
@@ -380,11 +433,16 @@ class PropertyController {
         longitude: req.query.longitude ? Number(req.query.longitude) : undefined,
         radius: req.query.radius ? Number(req.query.radius) : undefined,
 
+        polygons: req.query.polygon
+          ? parseGeoPolygons(JSON.parse(req.query.polygon as string))
+          : undefined,
+
         amenities: req.query.amenities
-          ? (req.query.amenities as string).split(',').map(a => a.trim())
+          ? (req.query.amenities as string).split(',').map(a => a.trim()).filter(Boolean)
           : undefined,
+        amenitiesMatch: req.query.amenities_match as AmenityMatchMode | undefined,
 
-        sortBy: req.query.sort_by as 'price' | 'date' | 'relevance' | 'views',
+        sortBy: req.query.sort_by as PropertySearchFilters['sortBy'],
         sortOrder: req.query.sort_order as 'asc' | 'desc',
 
         page: req.query.page ? parseInt(req.query.page as string, 10) : 1,
@@ -394,19 +452,38 @@ class PropertyController {
 
         keywords: req.query.keywords as string,
 
+        includeFacets: req.query.include_facets === 'true',
+
         // userId: authReq.user?.userId, // REMOVE THIS LINE
       };
 
+      if (this.isCursorRequest(req)) {
+        const cursorResult = await this.propertyService.searchPropertiesByCursor(filters, req.query.cursor as string | undefined);
+        res.status(200).json({
+          success: true,
+          data: cursorResult.data,
+          pagination: cursorResult.pagination,
+          ...(cursorResult.facets && { facets: cursorResult.facets }),
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
       const result = await this.propertyService.searchProperties(filters, requestId);
       res.status(200).json({
         success: true,
         data: result.data,
         pagination: result.pagination,
+        ...(result.facets && { facets: result.facets }),
         timestamp: new Date().toISOString(),
       });
 
       console.log("The results are:- ", result)
     } catch (error) {
+      if (error instanceof ApiError) {
+        sendErrorResponse(res, error);
+        return;
+      }
       next(error);
     }
   };
@@ -496,7 +573,6 @@ class PropertyController {
       if (body.longitude !== undefined) updateData.longitude = parseFloat(body.longitude);
       if (body.amenities !== undefined) updateData.amenities = body.amenities;
       if (body.isFeatured !== undefined) updateData.isFeatured = body.isFeatured;
-      if (body.isActive !== undefined) updateData.isActive = body.isActive;
       if (body.expiresAt !== undefined) updateData.expiresAt = new Date(body.expiresAt);
       if (body.autoRenew !== undefined) updateData.autoRenew = body.autoRenew;
       if (body.renewalPeriodDays !== undefined) updateData.renewalPeriodDays = parseInt(body.renewalPeriodDays);
@@ -610,6 +686,10 @@ class PropertyController {
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
+      if (error instanceof ApiError) {
+        sendErrorResponse(res, error);
+        return;
+      }
       next(error);
     }
   };
@@ -767,10 +847,26 @@ class PropertyController {
         return;
       }
 
+      if (lat < -90 || lat > 90 || lng < -180 || lng > 180 || radiusKm <= 0 || radiusKm > 100) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Coordinates are out of range or radius is not between 0.1 and 100 km',
+          },
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
       const additionalFilters: Partial<PropertySearchFilters> = {};
       if (req.query.propertyType) additionalFilters.propertyType = req.query.propertyType as PropertyType;
+      if (req.query.listingType) additionalFilters.listingType = req.query.listingType as ListingType;
       if (req.query.minPrice) additionalFilters.minPrice = parseFloat(req.query.minPrice as string);
       if (req.query.maxPrice) additionalFilters.maxPrice = parseFloat(req.query.maxPrice as string);
+      if (req.query.bedrooms) additionalFilters.bedrooms = parseInt(req.query.bedrooms as string);
+      if (req.query.sortBy) additionalFilters.sortBy = req.query.sortBy as PropertySearchFilters['sortBy'];
+      if (req.query.sortOrder) additionalFilters.sortOrder = req.query.sortOrder as 'asc' | 'desc';
       if (req.query.limit) additionalFilters.limit = parseInt(req.query.limit as string);
 
       const properties = await this.propertyService.searchPropertiesNearLocation(
@@ -790,6 +886,49 @@ class PropertyController {
     }
   };
 
+  // Autocomplete suggestions for the search box
+  getSearchSuggestions = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid search query',
+            details: errors.array(),
+          },
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 8;
+      const suggestions = await this.propertyService.getSearchSuggestions(req.query.q as string, limit);
+
+      res.status(200).json({
+        success: true,
+        data: suggestions,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Remember which listings a signed-in user opens; runs before the property cache so cache hits count too
+  recordPropertyView = (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    const propertyId = parseInt(req.params.id);
+    if (req.user && propertyId) {
+      const userId = req.user.userId;
+      // Browsing feeds the score of any open leads the viewer has made
+      this.recommendationService.recordView(userId, propertyId)
+        .then(() => this.leadScoringService.rescoreLeads({ inquirerId: userId }))
+        .catch(error => console.warn('Failed to record property view:', error));
+    }
+    next();
+  };
+
   // Get similar properties
   getSimilarProperties = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
@@ -822,6 +961,125 @@ class PropertyController {
     }
   };
 
+  // Get a listing's workflow state, available actions and audit trail
+  getListingLifecycle = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid property ID',
+            details: errors.array(),
+          },
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const lifecycle = await this.lifecycleService.getLifecycle(parseInt(req.params.id), {
+        userId: req.user!.userId,
+        role: req.user!.role,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: lifecycle,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        sendErrorResponse(res, error);
+        return;
+      }
+      next(error);
+    }
+  };
+
+  // Move a listing through the workflow (submit, approve, publish, schedule, archive, ...)
+  transitionListing = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid listing transition',
+            details: errors.array(),
+          },
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const propertyId = parseInt(req.params.id);
+      const user = { userId: req.user!.userId, role: req.user!.role };
+
+      await this.lifecycleService.transition(propertyId, req.body.action as ListingAction, user, {
+        reason: req.body.reason,
+        publishAt: req.body.publishAt ? new Date(req.body.publishAt) : undefined,
+      });
+
+      const lifecycle = await this.lifecycleService.getLifecycle(propertyId, user);
+
+      res.status(200).json({
+        success: true,
+        data: lifecycle,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        sendErrorResponse(res, error);
+        return;
+      }
+      next(error);
+    }
+  };
+
+  // Get a listing's price history
+  getPriceHistory = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid property ID',
+            details: errors.array(),
+          },
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const propertyId = parseInt(req.params.id);
+      const priceHistory = await this.propertyService.getPriceHistory(propertyId);
+
+      if (!priceHistory) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Property not found',
+          },
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: priceHistory,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
   // Get user's property analytics dashboard
   getUserPropertyAnalytics = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
     try {
@@ -1069,11 +1327,27 @@ class PropertyController {
   // Get user's properties
   getUserProperties = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
     try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid pagination parameters',
+            details: errors.array(),
+          },
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
       const userId = req.user!.userId;
       const page = req.query.page ? parseInt(req.query.page as string) : 1;
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
 
-      const result = await this.propertyService.getUserProperties(userId, { page, limit });
+      const result = this.isCursorRequest(req)
+        ? await this.propertyService.getUserPropertiesByCursor(userId, { cursor: req.query.cursor as string | undefined, limit })
+        : await this.propertyService.getUserProperties(userId, { page, limit });
 
       res.status(200).json({
         success: true,
@@ -1082,6 +1356,10 @@ class PropertyController {
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
+      if (error instanceof ApiError) {
+        sendErrorResponse(res, error);
+        return;
+      }
       next(error);
     }
   };
@@ -1102,7 +1380,10 @@ class PropertyController {
     }
   };
 
-
+  // Cursor mode is chosen explicitly or implied by passing a cursor
+  private isCursorRequest(req: Request): boolean {
+    return req.query.pagination === 'cursor' || req.query.cursor !== undefined;
+  }
 }
 
 export default PropertyController;
\ No newline at end of file
@@ -1,10 +1,14 @@
 import { Request, Response } from 'express';
 import siteVisitService from '../services/siteVisitService';
 import { Property } from '../models/Property';
-import { Inquiry } from '../models/Inquiry';
+import { Inquiry, LeadSource } from '../models/Inquiry';
+import inquiryService from '../services/inquiryService';
+import LeadScoringService from '../services/leadScoringService';
 import sequelize from '../config/database'; // Import the sequelize instance
 import { format } from 'date-fns';
 
+const leadScoringService = new LeadScoringService();
+
 export const siteVisitController = {
   /**
    * Create a new site visit request and a corresponding inquiry
@@ -56,18 +60,23 @@ export const siteVisitController = {
       const formattedVisitDate = format(new Date(scheduled_at), 'MMM d, yyyy @ h:mm a');
       const inquiryMessage = `Site visit scheduled for ${formattedVisitDate}. Notes: ${notes || 'N/A'}`;
 
-      await Inquiry.create({
+      const inquiry = await Inquiry.create({
         property_id,
         inquirer_id: visitor_id,
         name: visitor_name,
         email: visitor_email,
         phone: visitor_phone,
         message: inquiryMessage,
+        source: LeadSource.SITE_VISIT,
         // status will default to 'new'
       }, { transaction: t });
       
       // If both are successful, commit the transaction
       await t.commit();
+      inquiryService.handleNewLead(inquiry.id).catch(error => console.error('New lead handling error:', error));
+      // Earlier inquiries about the property now have a site visit booked
+      leadScoringService.rescoreLeads({ inquirerId: visitor_id, email: visitor_email, propertyId: property_id })
+        .catch(error => console.error('Lead rescoring error:', error));
 
       return res.status(201).json({
         success: true,
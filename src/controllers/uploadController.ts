@@ -3,12 +3,21 @@ import { AuthenticatedRequest } from '../types';
 import { BulkUploadService } from '../services/bulkUploadService';
 import { ImageService } from '../services/imageService';
 import { ImageServiceS3 } from '../services/imageServiceS3';
+import DuplicateDetectionService from '../services/duplicateDetectionService';
 import fs from 'fs';
 
 // Use S3 service if AWS is configured, otherwise fall back to local storage
 const USE_S3 = process.env.AWS_S3_BUCKET && process.env.AWS_ACCESS_KEY_ID;
 const ActiveImageService = USE_S3 ? ImageServiceS3 : ImageService;
 
+const duplicateDetectionService = new DuplicateDetectionService();
+
+// Photos reused from another listing are a strong duplicate signal; check in the background
+const flagImageDuplicates = (propertyId: number): void => {
+  duplicateDetectionService.checkImageDuplicates(propertyId)
+    .catch(error => console.error(`Error checking image duplicates for property ${propertyId}:`, error));
+};
+
 export class UploadController {
   // Upload single property image
   static async uploadPropertyImage(req: AuthenticatedRequest, res: Response): Promise<void> {
@@ -53,6 +62,8 @@ export class UploadController {
       );
 
       if (result.success) {
+        flagImageDuplicates(parseInt(propertyId));
+
         res.status(201).json({
           success: true,
           data: {
@@ -133,6 +144,10 @@ export class UploadController {
       );
       console.log("The image result is", result);
 
+      if (result.successful.length > 0) {
+        flagImageDuplicates(parseInt(propertyId));
+      }
+
       res.status(201).json({
         success: true,
         data: {
@@ -0,0 +1,24 @@
+-- Migration: Full-text search over property listings
+-- Description: Adds a searchable amenities text column (kept in sync by the Property model)
+-- and FULLTEXT indexes used for keyword matching and weighted relevance ranking
+
+ALTER TABLE properties
+ADD COLUMN amenities_text TEXT NULL COMMENT 'Available amenities as plain words, derived from amenities JSON' AFTER amenities;
+
+-- Backfill from the amenities JSON: keep only amenities flagged true, underscores become spaces
+UPDATE properties p
+SET amenities_text = (
+  SELECT GROUP_CONCAT(REPLACE(jt.amenity, '_', ' ') SEPARATOR ' ')
+  FROM JSON_TABLE(JSON_KEYS(p.amenities), '$[*]' COLUMNS (amenity VARCHAR(100) PATH '$')) AS jt
+  WHERE JSON_EXTRACT(p.amenities, CONCAT('$."', jt.amenity, '"')) = TRUE
+)
+WHERE p.amenities IS NOT NULL;
+
+-- Combined index used to filter matching listings
+ALTER TABLE properties ADD FULLTEXT INDEX ft_properties_search (title, description, address, city, amenities_text);
+
+-- Per-field indexes so each field can be weighted separately when ranking
+ALTER TABLE properties ADD FULLTEXT INDEX ft_properties_title (title);
+ALTER TABLE properties ADD FULLTEXT INDEX ft_properties_description (description);
+ALTER TABLE properties ADD FULLTEXT INDEX ft_properties_location (address, city);
+ALTER TABLE properties ADD FULLTEXT INDEX ft_properties_amenities (amenities_text);
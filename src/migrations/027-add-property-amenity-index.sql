@@ -0,0 +1,23 @@
+-- Migration: Indexed amenity filtering
+-- Description: Adds a JSON array of normalized amenity keys (kept in sync by the Property model)
+-- with a multi-valued index, so "must have all" / "any of" amenity filters don't scan the amenities JSON
+
+ALTER TABLE properties
+ADD COLUMN amenity_keys JSON NULL COMMENT 'Normalized keys of available amenities, derived from amenities JSON' AFTER amenities_text;
+
+-- Backfill from the amenities JSON: keep only amenities flagged true, lower-case words joined by underscores
+UPDATE properties p
+SET amenity_keys = COALESCE((
+  SELECT JSON_ARRAYAGG(k.amenity_key)
+  FROM (
+    SELECT DISTINCT TRIM(BOTH '_' FROM REGEXP_REPLACE(LOWER(jt.amenity), '[^a-z0-9]+', '_')) AS amenity_key
+    FROM JSON_TABLE(JSON_KEYS(p.amenities), '$[*]' COLUMNS (amenity VARCHAR(100) PATH '$')) AS jt
+    WHERE JSON_EXTRACT(p.amenities, CONCAT('$."', jt.amenity, '"')) = TRUE
+  ) AS k
+), JSON_ARRAY())
+WHERE p.amenities IS NOT NULL;
+
+UPDATE properties SET amenity_keys = JSON_ARRAY() WHERE amenity_keys IS NULL;
+
+-- Multi-valued index used by JSON_CONTAINS (all) and JSON_OVERLAPS (any)
+ALTER TABLE properties ADD INDEX idx_properties_amenity_keys ((CAST(amenity_keys AS CHAR(64) ARRAY)));
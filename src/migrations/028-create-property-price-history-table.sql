@@ -0,0 +1,21 @@
+-- Migration: Property price history
+-- Description: Records every listing price a property has had, so price changes and drops
+-- can be charted and announced to interested buyers
+
+CREATE TABLE IF NOT EXISTS property_price_history (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    property_id INT NOT NULL,
+    price DECIMAL(15, 2) NOT NULL COMMENT 'Price from this change onwards',
+    previous_price DECIMAL(15, 2) NULL COMMENT 'NULL for the initial listing price',
+    listing_type ENUM('sale', 'rent') NOT NULL,
+    changed_by INT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
+    FOREIGN KEY (changed_by) REFERENCES users(id) ON DELETE SET NULL,
+    INDEX idx_property_created (property_id, created_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Seed the history with each existing listing's current price
+INSERT INTO property_price_history (property_id, price, previous_price, listing_type, changed_by, created_at)
+SELECT id, price, NULL, listing_type, user_id, created_at
+FROM properties;
@@ -0,0 +1,32 @@
+-- Migration: Listing lifecycle
+-- Description: Adds the publishing workflow state (draft -> submitted -> under review -> approved/rejected
+-- -> scheduled/published -> archived) to properties and an audit trail of every state change
+
+ALTER TABLE properties
+ADD COLUMN listing_state ENUM('draft', 'submitted', 'under_review', 'approved', 'rejected', 'scheduled', 'published', 'archived')
+    NOT NULL DEFAULT 'published' COMMENT 'Publishing workflow state; only published listings are active' AFTER is_active,
+ADD COLUMN publish_at TIMESTAMP NULL COMMENT 'When a scheduled listing is published' AFTER listing_state,
+ADD COLUMN published_at TIMESTAMP NULL AFTER publish_at,
+ADD COLUMN rejection_reason TEXT NULL AFTER published_at,
+ADD INDEX idx_properties_listing_state (listing_state, publish_at);
+
+-- Existing listings were published on creation; inactive ones have been taken down
+UPDATE properties
+SET listing_state = IF(is_active, 'published', 'archived'),
+    published_at = created_at;
+
+CREATE TABLE IF NOT EXISTS property_state_transitions (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    property_id INT NOT NULL,
+    action VARCHAR(30) NOT NULL,
+    from_state ENUM('draft', 'submitted', 'under_review', 'approved', 'rejected', 'scheduled', 'published', 'archived') NULL COMMENT 'NULL when the listing was created',
+    to_state ENUM('draft', 'submitted', 'under_review', 'approved', 'rejected', 'scheduled', 'published', 'archived') NOT NULL,
+    actor_id INT NULL COMMENT 'NULL for system transitions (scheduled publish, expiry)',
+    actor_role ENUM('owner', 'admin', 'system') NOT NULL,
+    reason TEXT NULL,
+    publish_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
+    FOREIGN KEY (actor_id) REFERENCES users(id) ON DELETE SET NULL,
+    INDEX idx_property_created (property_id, created_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,27 @@
+-- Migration: Duplicate listing detection
+-- Description: Stores a perceptual hash per property image and the suspected duplicate pairs
+-- found when listings are created, bulk uploaded or given images, for admins to review as clusters
+
+ALTER TABLE property_images
+ADD COLUMN perceptual_hash CHAR(16) NULL COMMENT '64-bit difference hash (hex) for near-duplicate image matching' AFTER height,
+ADD INDEX idx_property_images_perceptual_hash (perceptual_hash);
+
+CREATE TABLE IF NOT EXISTS property_duplicate_flags (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    property_id INT NOT NULL COMMENT 'The newer listing',
+    duplicate_of_id INT NOT NULL COMMENT 'The existing listing it resembles',
+    score DECIMAL(4, 3) NOT NULL COMMENT 'Combined similarity from 0 to 1',
+    signals JSON NOT NULL COMMENT 'Per-signal similarity (address, distance, price, area, image)',
+    source ENUM('create', 'bulk_upload', 'image') NOT NULL,
+    status ENUM('pending', 'dismissed', 'confirmed') NOT NULL DEFAULT 'pending',
+    reviewed_by INT NULL,
+    reviewed_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
+    FOREIGN KEY (duplicate_of_id) REFERENCES properties(id) ON DELETE CASCADE,
+    FOREIGN KEY (reviewed_by) REFERENCES users(id) ON DELETE SET NULL,
+    UNIQUE KEY uniq_duplicate_pair (property_id, duplicate_of_id),
+    INDEX idx_duplicate_flags_status (status, created_at),
+    INDEX idx_duplicate_flags_duplicate_of (duplicate_of_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
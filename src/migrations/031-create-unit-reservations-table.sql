@@ -0,0 +1,36 @@
+-- Migration: Unit reservations
+-- Description: Lets buyers place time-limited holds on project units, which the builder confirms as bookings.
+-- A unit can have at most one hold or booking at a time, enforced by a unique key on a generated column.
+
+CREATE TABLE IF NOT EXISTS unit_reservations (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    project_id INT NOT NULL,
+    unit_id INT NOT NULL,
+    buyer_id INT NOT NULL,
+    status ENUM('held', 'booked', 'released', 'expired') NOT NULL DEFAULT 'held',
+    expires_at TIMESTAMP NULL COMMENT 'When the hold lapses; NULL once booked',
+    booked_at TIMESTAMP NULL,
+    booked_by INT NULL,
+    released_at TIMESTAMP NULL,
+    released_by INT NULL,
+    notes TEXT NULL,
+    -- Equals unit_id while the reservation is held or booked, NULL otherwise
+    active_unit_id INT GENERATED ALWAYS AS (IF(status IN ('held', 'booked'), unit_id, NULL)) STORED,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
+    FOREIGN KEY (unit_id) REFERENCES project_units(id) ON DELETE CASCADE,
+    FOREIGN KEY (buyer_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (booked_by) REFERENCES users(id) ON DELETE SET NULL,
+    FOREIGN KEY (released_by) REFERENCES users(id) ON DELETE SET NULL,
+    UNIQUE KEY uniq_active_unit_reservation (active_unit_id),
+    INDEX idx_project_status (project_id, status),
+    INDEX idx_buyer_status (buyer_id, status),
+    INDEX idx_status_expires (status, expires_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Reserved units were previously not counted anywhere; recount so held units are tallied as blocked
+UPDATE projects p
+SET available_units = (SELECT COUNT(*) FROM project_units u WHERE u.project_id = p.id AND u.status = 'available'),
+    sold_units = (SELECT COUNT(*) FROM project_units u WHERE u.project_id = p.id AND u.status = 'sold'),
+    blocked_units = (SELECT COUNT(*) FROM project_units u WHERE u.project_id = p.id AND u.status IN ('blocked', 'reserved'));
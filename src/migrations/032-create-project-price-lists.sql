@@ -0,0 +1,55 @@
+-- Migration: Project price lists
+-- Description: Versioned pricing rules per project (base rate, floor rise, PLC and parking charges) with an
+-- effective date, the unit prices each version produced, and the version that was current for each inquiry
+
+CREATE TABLE IF NOT EXISTS project_price_lists (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    project_id INT NOT NULL,
+    version INT NOT NULL,
+    base_rate_per_sqft DECIMAL(12, 2) NOT NULL,
+    unit_type_rates JSON NULL COMMENT 'Base rate per sqft overrides keyed by unit type, e.g. {"3BHK": 7200}',
+    floor_rise_per_sqft DECIMAL(10, 2) NOT NULL DEFAULT 0 COMMENT 'Added per floor from floor_rise_from_floor upwards',
+    floor_rise_from_floor INT NOT NULL DEFAULT 1,
+    corner_plc_per_sqft DECIMAL(10, 2) NOT NULL DEFAULT 0 COMMENT 'Preferential location charge for corner units',
+    terrace_plc_per_sqft DECIMAL(10, 2) NOT NULL DEFAULT 0 COMMENT 'Preferential location charge for units with a terrace',
+    parking_charge_per_space DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    effective_from TIMESTAMP NOT NULL,
+    applied_at TIMESTAMP NULL COMMENT 'When unit prices were recomputed from this version',
+    units_repriced INT NULL,
+    notes TEXT NULL,
+    created_by INT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL,
+    UNIQUE KEY uniq_project_price_list_version (project_id, version),
+    INDEX idx_price_lists_project_effective (project_id, effective_from),
+    INDEX idx_price_lists_pending (applied_at, effective_from)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS project_price_list_items (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    price_list_id INT NOT NULL,
+    unit_id INT NULL,
+    unit_number VARCHAR(50) NOT NULL,
+    unit_type VARCHAR(20) NOT NULL,
+    tower VARCHAR(50) NULL,
+    floor_number INT NOT NULL,
+    area_sqft DECIMAL(10, 2) NOT NULL,
+    base_amount DECIMAL(15, 2) NOT NULL,
+    floor_rise_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    plc_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    parking_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    total_price DECIMAL(15, 2) NOT NULL,
+    price_per_sqft DECIMAL(10, 2) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (price_list_id) REFERENCES project_price_lists(id) ON DELETE CASCADE,
+    FOREIGN KEY (unit_id) REFERENCES project_units(id) ON DELETE SET NULL,
+    INDEX idx_price_list_items_list (price_list_id),
+    INDEX idx_price_list_items_unit (unit_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+ALTER TABLE inquiries
+ADD COLUMN price_list_id INT NULL COMMENT 'Project price list current when the inquiry was made' AFTER project_id,
+ADD CONSTRAINT fk_inquiries_price_list FOREIGN KEY (price_list_id) REFERENCES project_price_lists(id) ON DELETE SET NULL,
+ADD INDEX idx_inquiries_price_list (price_list_id);
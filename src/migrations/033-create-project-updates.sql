@@ -0,0 +1,27 @@
+-- Migration: Project construction updates
+-- Description: Dated construction milestones, progress updates and RERA-style quarterly reports for projects,
+-- with site photos and a record of when buyers who enquired were emailed
+
+CREATE TABLE IF NOT EXISTS project_updates (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    project_id INT NOT NULL,
+    update_type ENUM('milestone', 'progress', 'quarterly_report') NOT NULL DEFAULT 'progress',
+    title VARCHAR(255) NOT NULL,
+    description TEXT NULL,
+    update_date DATE NOT NULL COMMENT 'Date the update describes, e.g. when a milestone was reached',
+    progress_percent DECIMAL(5, 2) NULL COMMENT 'Overall construction completion, 0-100',
+    stages JSON NULL COMMENT 'Completion per construction stage, e.g. [{"name": "Structure", "percent": 80}]',
+    report_year SMALLINT NULL COMMENT 'Quarterly reports only',
+    report_quarter TINYINT NULL COMMENT 'Quarterly reports only, 1-4',
+    inventory_snapshot JSON NULL COMMENT 'Quarterly reports only: unit counts by status when the report was filed',
+    image_ids JSON NULL COMMENT 'project_images rows holding the site photos',
+    notified_at TIMESTAMP NULL COMMENT 'When buyers who enquired about the project were emailed',
+    recipients_notified INT NULL,
+    created_by INT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL,
+    UNIQUE KEY uniq_project_quarterly_report (project_id, report_year, report_quarter),
+    INDEX idx_project_updates_project_date (project_id, update_date)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
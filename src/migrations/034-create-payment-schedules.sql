@@ -0,0 +1,77 @@
+-- Migration: Payment plans and schedules for booked units
+-- Description: Construction-linked payment plan templates per project, the dated installments generated
+-- when a plan is applied to a booked unit, and the payments recorded against them
+
+CREATE TABLE IF NOT EXISTS project_payment_plans (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    project_id INT NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    description TEXT NULL,
+    stages JSON NOT NULL COMMENT 'Ordered stages, e.g. [{"name": "On booking", "percent": 10, "due_after_days": 0}]',
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by INT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL,
+    UNIQUE KEY uniq_project_payment_plan_name (project_id, name)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS unit_payment_schedules (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    project_id INT NOT NULL,
+    unit_id INT NOT NULL,
+    reservation_id INT NOT NULL COMMENT 'The booking the schedule belongs to',
+    buyer_id INT NOT NULL,
+    plan_id INT NULL,
+    plan_name VARCHAR(100) NOT NULL COMMENT 'Kept in case the plan template is later deleted',
+    total_amount DECIMAL(15, 2) NOT NULL COMMENT 'Unit price when the plan was applied',
+    booking_date DATE NOT NULL COMMENT 'Installment due dates count from this date',
+    status ENUM('active', 'cancelled') NOT NULL DEFAULT 'active',
+    cancelled_at TIMESTAMP NULL,
+    created_by INT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
+    FOREIGN KEY (unit_id) REFERENCES project_units(id) ON DELETE CASCADE,
+    FOREIGN KEY (reservation_id) REFERENCES unit_reservations(id) ON DELETE CASCADE,
+    FOREIGN KEY (buyer_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (plan_id) REFERENCES project_payment_plans(id) ON DELETE SET NULL,
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL,
+    UNIQUE KEY uniq_payment_schedule_reservation (reservation_id),
+    INDEX idx_payment_schedules_project (project_id, status),
+    INDEX idx_payment_schedules_unit (unit_id, status),
+    INDEX idx_payment_schedules_buyer (buyer_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS unit_installments (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    schedule_id INT NOT NULL,
+    sequence INT NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    percent DECIMAL(5, 2) NOT NULL,
+    amount DECIMAL(15, 2) NOT NULL,
+    due_date DATE NOT NULL,
+    paid_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    paid_at TIMESTAMP NULL COMMENT 'When the installment was paid in full',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (schedule_id) REFERENCES unit_payment_schedules(id) ON DELETE CASCADE,
+    UNIQUE KEY uniq_installment_sequence (schedule_id, sequence),
+    INDEX idx_installments_due (due_date, paid_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS installment_payments (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    installment_id INT NOT NULL,
+    amount DECIMAL(15, 2) NOT NULL,
+    paid_on DATE NOT NULL,
+    method VARCHAR(30) NULL COMMENT 'e.g. bank_transfer, cheque, upi',
+    reference VARCHAR(100) NULL COMMENT 'Cheque number, UTR or receipt number',
+    notes TEXT NULL,
+    recorded_by INT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (installment_id) REFERENCES unit_installments(id) ON DELETE CASCADE,
+    FOREIGN KEY (recorded_by) REFERENCES users(id) ON DELETE SET NULL,
+    INDEX idx_installment_payments_installment (installment_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
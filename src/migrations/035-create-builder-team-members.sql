@@ -0,0 +1,25 @@
+-- Migration: Builder team members
+-- Description: Staff a builder account invites to work on its projects, with a role and an optional
+-- list of the projects they are limited to
+
+CREATE TABLE IF NOT EXISTS builder_team_members (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    builder_id INT NOT NULL COMMENT 'The builder account that owns the projects',
+    user_id INT NULL COMMENT 'Set once the invitation is accepted',
+    email VARCHAR(255) NOT NULL,
+    role ENUM('sales', 'inventory_manager', 'marketing') NOT NULL,
+    project_ids JSON NULL COMMENT 'Projects the member may work on; NULL for all of the builder''s projects',
+    status ENUM('invited', 'active') NOT NULL DEFAULT 'invited',
+    invite_token_hash CHAR(64) NULL COMMENT 'SHA-256 of the emailed invitation token',
+    invite_expires_at TIMESTAMP NULL,
+    invited_by INT NULL,
+    accepted_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (builder_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (invited_by) REFERENCES users(id) ON DELETE SET NULL,
+    UNIQUE KEY uniq_builder_team_email (builder_id, email),
+    UNIQUE KEY uniq_builder_team_token (invite_token_hash),
+    INDEX idx_builder_team_user (user_id, status)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
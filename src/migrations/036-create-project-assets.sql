@@ -0,0 +1,33 @@
+-- Migration: Project assets
+-- Description: Uploaded brochures and floor plans, and 3D tour links, for projects. Files are stored in S3
+-- with generated previews; floor plans are linked to the units of the configuration they show
+
+CREATE TABLE IF NOT EXISTS project_assets (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    project_id INT NOT NULL,
+    asset_type ENUM('brochure', 'floor_plan', 'tour_3d') NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    unit_type VARCHAR(20) NULL COMMENT 'Floor plans only: the configuration the plan shows, e.g. 2BHK',
+    file_url VARCHAR(1000) NULL COMMENT 'Uploaded file, or the link for 3D tours',
+    s3_key VARCHAR(500) NULL,
+    mime_type VARCHAR(100) NULL,
+    file_size INT NULL,
+    preview_url VARCHAR(1000) NULL COMMENT 'Large image of a floor plan, or of the first page of a PDF',
+    preview_s3_key VARCHAR(500) NULL,
+    thumbnail_url VARCHAR(1000) NULL,
+    thumbnail_s3_key VARCHAR(500) NULL,
+    requires_lead BOOLEAN NOT NULL DEFAULT FALSE COMMENT 'Public downloads ask for contact details, recorded as an inquiry',
+    display_order INT NOT NULL DEFAULT 0,
+    uploaded_by INT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
+    FOREIGN KEY (uploaded_by) REFERENCES users(id) ON DELETE SET NULL,
+    INDEX idx_project_assets_project_type (project_id, asset_type, display_order)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Units share a floor plan with the other units of their configuration
+ALTER TABLE project_units
+    ADD COLUMN floor_plan_asset_id INT NULL AFTER floor_plan_image,
+    ADD CONSTRAINT fk_project_units_floor_plan_asset
+        FOREIGN KEY (floor_plan_asset_id) REFERENCES project_assets(id) ON DELETE SET NULL;
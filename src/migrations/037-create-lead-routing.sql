@@ -0,0 +1,56 @@
+-- Migration: Lead routing
+-- Description: Rules that assign incoming inquiries to the owner's team, round-robin or by least load,
+-- the assignment history of each inquiry and its first-response deadline
+
+CREATE TABLE IF NOT EXISTS lead_routing_rules (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    owner_id INT NOT NULL COMMENT 'The builder or agency account whose leads the rule routes',
+    name VARCHAR(100) NOT NULL,
+    priority INT NOT NULL DEFAULT 0 COMMENT 'Rules are tried from the highest priority down',
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    cities JSON NULL COMMENT 'NULL matches any city',
+    property_types JSON NULL COMMENT 'Property or project types; NULL matches any',
+    min_budget DECIMAL(15,2) NULL,
+    max_budget DECIMAL(15,2) NULL,
+    project_ids JSON NULL COMMENT 'NULL matches leads on any listing',
+    sources JSON NULL COMMENT 'NULL matches leads from any source',
+    strategy ENUM('round_robin', 'least_load') NOT NULL DEFAULT 'round_robin',
+    agent_ids JSON NOT NULL COMMENT 'Users the matching leads are shared between, in round-robin order',
+    last_assigned_to INT NULL COMMENT 'Round-robin cursor',
+    sla_minutes INT NULL COMMENT 'Time allowed for the first response; NULL for the default',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (owner_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (last_assigned_to) REFERENCES users(id) ON DELETE SET NULL,
+    INDEX idx_lead_routing_owner (owner_id, is_active, priority)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+ALTER TABLE inquiries
+    ADD COLUMN source ENUM('inquiry_form', 'site_visit', 'asset_download') NOT NULL DEFAULT 'inquiry_form' AFTER message,
+    ADD COLUMN assigned_to INT NULL AFTER status,
+    ADD COLUMN assigned_at TIMESTAMP NULL AFTER assigned_to,
+    ADD COLUMN routing_rule_id INT NULL AFTER assigned_at,
+    ADD COLUMN response_due_at TIMESTAMP NULL COMMENT 'First-response deadline' AFTER routing_rule_id,
+    ADD COLUMN first_responded_at TIMESTAMP NULL AFTER response_due_at,
+    ADD COLUMN sla_breached_at TIMESTAMP NULL COMMENT 'Set when the deadline passed with no response' AFTER first_responded_at,
+    ADD CONSTRAINT fk_inquiries_assigned_to FOREIGN KEY (assigned_to) REFERENCES users(id) ON DELETE SET NULL,
+    ADD CONSTRAINT fk_inquiries_routing_rule FOREIGN KEY (routing_rule_id) REFERENCES lead_routing_rules(id) ON DELETE SET NULL,
+    ADD INDEX idx_inquiries_assigned_to (assigned_to, status),
+    ADD INDEX idx_inquiries_response_due (status, sla_breached_at, response_due_at);
+
+CREATE TABLE IF NOT EXISTS inquiry_assignments (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    inquiry_id INT NOT NULL,
+    assigned_to INT NULL,
+    previous_assignee INT NULL,
+    assigned_by INT NULL COMMENT 'NULL when the lead was routed automatically',
+    routing_rule_id INT NULL,
+    reason VARCHAR(255) NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (inquiry_id) REFERENCES inquiries(id) ON DELETE CASCADE,
+    FOREIGN KEY (assigned_to) REFERENCES users(id) ON DELETE SET NULL,
+    FOREIGN KEY (previous_assignee) REFERENCES users(id) ON DELETE SET NULL,
+    FOREIGN KEY (assigned_by) REFERENCES users(id) ON DELETE SET NULL,
+    FOREIGN KEY (routing_rule_id) REFERENCES lead_routing_rules(id) ON DELETE SET NULL,
+    INDEX idx_inquiry_assignments_inquiry (inquiry_id, created_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,34 @@
+-- Migration: Lead pipeline
+-- Description: Sales pipeline stages on inquiries, and the notes, call and WhatsApp logs, follow-up
+-- reminders and stage changes that make up each inquiry's activity timeline
+
+ALTER TABLE inquiries
+    ADD COLUMN stage ENUM('new', 'contacted', 'qualified', 'site_visit_scheduled', 'negotiation', 'won', 'lost')
+        NOT NULL DEFAULT 'new' COMMENT 'Pipeline stage; status follows it' AFTER status,
+    ADD COLUMN lost_reason VARCHAR(255) NULL AFTER stage,
+    ADD COLUMN stage_changed_at TIMESTAMP NULL AFTER lost_reason,
+    ADD COLUMN next_follow_up_at TIMESTAMP NULL COMMENT 'Earliest open follow-up' AFTER stage_changed_at,
+    ADD INDEX idx_inquiries_stage (stage, created_at);
+
+-- The old statuses did not record whether a closed lead was won, so closed leads start out as lost
+UPDATE inquiries SET stage = 'contacted' WHERE status = 'contacted';
+UPDATE inquiries SET stage = 'lost' WHERE status = 'closed';
+
+CREATE TABLE IF NOT EXISTS inquiry_activities (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    inquiry_id INT NOT NULL,
+    user_id INT NULL COMMENT 'Who logged it; NULL once the user is deleted',
+    type ENUM('note', 'call', 'whatsapp', 'follow_up', 'stage_change') NOT NULL,
+    content TEXT NULL,
+    from_stage VARCHAR(30) NULL,
+    to_stage VARCHAR(30) NULL,
+    occurred_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP COMMENT 'When the call or message happened',
+    follow_up_at TIMESTAMP NULL COMMENT 'When a follow-up is due',
+    reminded_at TIMESTAMP NULL,
+    completed_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (inquiry_id) REFERENCES inquiries(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL,
+    INDEX idx_inquiry_activities_inquiry (inquiry_id, occurred_at),
+    INDEX idx_inquiry_activities_follow_up (type, completed_at, reminded_at, follow_up_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
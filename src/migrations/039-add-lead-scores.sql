@@ -0,0 +1,8 @@
+-- Migration: Lead scores
+-- Description: Score each inquiry by how likely it is to convert, with the factors that made up the score
+
+ALTER TABLE inquiries
+    ADD COLUMN score TINYINT UNSIGNED NULL COMMENT '0-100; NULL until the lead is scored' AFTER next_follow_up_at,
+    ADD COLUMN score_factors JSON NULL COMMENT 'Points per factor behind the score' AFTER score,
+    ADD COLUMN scored_at TIMESTAMP NULL AFTER score_factors,
+    ADD INDEX idx_inquiries_score (score, created_at);
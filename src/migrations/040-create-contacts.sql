@@ -0,0 +1,37 @@
+-- Migration: Contacts
+-- Description: One contact per person who has inquired about an owner's listings, matched by
+-- normalised email and phone, so their inquiries across properties and projects can be seen together
+
+CREATE TABLE IF NOT EXISTS contacts (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    owner_id INT NOT NULL COMMENT 'The listing owner whose inquiries the contact groups',
+    name VARCHAR(100) NOT NULL COMMENT 'From the latest inquiry',
+    email VARCHAR(255) NULL COMMENT 'Normalised email of the latest inquiry',
+    phone VARCHAR(20) NULL COMMENT 'Normalised phone of the latest inquiry',
+    last_inquiry_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (owner_id) REFERENCES users(id) ON DELETE CASCADE,
+    INDEX idx_contacts_owner (owner_id, last_inquiry_at),
+    INDEX idx_contacts_owner_name (owner_id, name)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Every email and phone a contact has inquired with; each belongs to one contact per owner
+CREATE TABLE IF NOT EXISTS contact_identifiers (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    contact_id INT NOT NULL,
+    owner_id INT NOT NULL,
+    type ENUM('email', 'phone') NOT NULL,
+    value VARCHAR(255) NOT NULL COMMENT 'Lower-cased email, or the last 10 digits of the phone',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (contact_id) REFERENCES contacts(id) ON DELETE CASCADE,
+    FOREIGN KEY (owner_id) REFERENCES users(id) ON DELETE CASCADE,
+    UNIQUE KEY uniq_contact_identifiers (owner_id, type, value),
+    INDEX idx_contact_identifiers_contact (contact_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Existing inquiries are linked to contacts the first time their owner opens their contacts
+ALTER TABLE inquiries
+    ADD COLUMN contact_id INT NULL AFTER inquirer_id,
+    ADD CONSTRAINT fk_inquiries_contact FOREIGN KEY (contact_id) REFERENCES contacts(id) ON DELETE SET NULL,
+    ADD INDEX idx_inquiries_contact (contact_id, created_at);
@@ -0,0 +1,6 @@
+-- Migration: Construction photo image type
+-- Description: Site photos posted with project updates are stored as project images tagged 'construction',
+-- so they can be kept out of the project's marketing gallery
+
+ALTER TABLE project_images
+    MODIFY COLUMN image_type ENUM('exterior', 'interior', 'amenity', 'floor_plan', 'site_plan', 'location', 'gallery', 'construction') NOT NULL;
@@ -0,0 +1,16 @@
+-- Migration: Lead pipeline stage settings
+-- Description: Each builder's or agency's own labels, order and on/off switches for the fixed pipeline
+-- stages. Owners without settings use the default pipeline.
+
+CREATE TABLE IF NOT EXISTS lead_pipeline_stages (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    owner_id INT NOT NULL COMMENT 'The builder or agency account whose pipeline this is',
+    stage ENUM('new', 'contacted', 'qualified', 'site_visit_scheduled', 'negotiation', 'won', 'lost') NOT NULL,
+    label VARCHAR(50) NOT NULL,
+    position INT NOT NULL COMMENT 'Order on the board, from 0',
+    is_enabled BOOLEAN NOT NULL DEFAULT TRUE COMMENT 'Leads cannot be moved into a disabled stage',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (owner_id) REFERENCES users(id) ON DELETE CASCADE,
+    UNIQUE KEY uniq_lead_pipeline_stage (owner_id, stage)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,165 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import  sequelize  from '../config/database';
+
+export enum BuilderTeamRole {
+  SALES = 'sales',
+  INVENTORY_MANAGER = 'inventory_manager',
+  MARKETING = 'marketing'
+}
+
+export enum BuilderTeamMemberStatus {
+  INVITED = 'invited',
+  ACTIVE = 'active'
+}
+
+export enum ProjectPermission {
+  // Read the project, its units, price lists, payment plans and updates
+  VIEW = 'view',
+  // Edit project details and status. Only the builder account has it.
+  MANAGE_PROJECT = 'manage_project',
+  // Create, edit, import and change the status of units
+  MANAGE_INVENTORY = 'manage_inventory',
+  // Price lists and payment plan templates
+  MANAGE_PRICING = 'manage_pricing',
+  // Inquiries, bookings, payment schedules and collections
+  MANAGE_SALES = 'manage_sales',
+  // Project images and construction updates
+  MANAGE_MARKETING = 'manage_marketing'
+}
+
+// What each team role may do on the projects it is scoped to. The builder account itself has every permission.
+export const TEAM_ROLE_PERMISSIONS: Record<BuilderTeamRole, ProjectPermission[]> = {
+  [BuilderTeamRole.SALES]: [ProjectPermission.VIEW, ProjectPermission.MANAGE_SALES],
+  [BuilderTeamRole.INVENTORY_MANAGER]: [ProjectPermission.VIEW, ProjectPermission.MANAGE_INVENTORY, ProjectPermission.MANAGE_PRICING],
+  [BuilderTeamRole.MARKETING]: [ProjectPermission.VIEW, ProjectPermission.MANAGE_MARKETING],
+};
+
+interface BuilderTeamMemberAttributes {
+  id: number;
+  builder_id: number;
+  user_id?: number | null;
+  email: string;
+  role: BuilderTeamRole;
+  // null when the member works on all of the builder's projects
+  project_ids?: number[] | null;
+  status: BuilderTeamMemberStatus;
+  invite_token_hash?: string | null;
+  invite_expires_at?: Date | null;
+  invited_by?: number | null;
+  accepted_at?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface BuilderTeamMemberCreationAttributes extends Optional<BuilderTeamMemberAttributes, 'id' | 'status' | 'created_at' | 'updated_at'> {}
+
+class BuilderTeamMember extends Model<BuilderTeamMemberAttributes, BuilderTeamMemberCreationAttributes> implements BuilderTeamMemberAttributes {
+  public id!: number;
+  public builder_id!: number;
+  public user_id?: number | null;
+  public email!: string;
+  public role!: BuilderTeamRole;
+  public project_ids?: number[] | null;
+  public status!: BuilderTeamMemberStatus;
+  public invite_token_hash?: string | null;
+  public invite_expires_at?: Date | null;
+  public invited_by?: number | null;
+  public accepted_at?: Date | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+}
+
+BuilderTeamMember.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    builder_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    user_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    email: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+    },
+    role: {
+      type: DataTypes.ENUM(...Object.values(BuilderTeamRole)),
+      allowNull: false,
+    },
+    project_ids: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+    status: {
+      type: DataTypes.ENUM(...Object.values(BuilderTeamMemberStatus)),
+      allowNull: false,
+      defaultValue: BuilderTeamMemberStatus.INVITED,
+    },
+    invite_token_hash: {
+      type: DataTypes.CHAR(64),
+      allowNull: true,
+    },
+    invite_expires_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    invited_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    accepted_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'builder_team_members',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        unique: true,
+        fields: ['builder_id', 'email'],
+      },
+      {
+        unique: true,
+        fields: ['invite_token_hash'],
+      },
+      {
+        fields: ['user_id', 'status'],
+      },
+    ],
+  }
+);
+
+export { BuilderTeamMember };
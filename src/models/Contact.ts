@@ -0,0 +1,89 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import  sequelize  from '../config/database';
+
+interface ContactAttributes {
+  id: number;
+  // The listing owner whose inquiries the contact groups
+  owner_id: number;
+  name: string;
+  // Normalised, from the latest inquiry
+  email?: string | null;
+  phone?: string | null;
+  last_inquiry_at?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface ContactCreationAttributes extends Optional<ContactAttributes, 'id' | 'created_at' | 'updated_at'> {}
+
+class Contact extends Model<ContactAttributes, ContactCreationAttributes> implements ContactAttributes {
+  public id!: number;
+  public owner_id!: number;
+  public name!: string;
+  public email?: string | null;
+  public phone?: string | null;
+  public last_inquiry_at?: Date | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+}
+
+Contact.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    owner_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    email: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    phone: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+    },
+    last_inquiry_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'contacts',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['owner_id', 'last_inquiry_at'],
+      },
+      {
+        fields: ['owner_id', 'name'],
+      },
+    ],
+  }
+);
+
+export { Contact };
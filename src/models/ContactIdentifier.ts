@@ -0,0 +1,86 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import  sequelize  from '../config/database';
+
+export enum ContactIdentifierType {
+  EMAIL = 'email',
+  PHONE = 'phone',
+}
+
+interface ContactIdentifierAttributes {
+  id: number;
+  contact_id: number;
+  // Copied from the contact so each email and phone is unique per owner
+  owner_id: number;
+  type: ContactIdentifierType;
+  // Lower-cased email, or the last 10 digits of the phone
+  value: string;
+  created_at?: Date;
+}
+
+interface ContactIdentifierCreationAttributes extends Optional<ContactIdentifierAttributes, 'id' | 'created_at'> {}
+
+class ContactIdentifier extends Model<ContactIdentifierAttributes, ContactIdentifierCreationAttributes> implements ContactIdentifierAttributes {
+  public id!: number;
+  public contact_id!: number;
+  public owner_id!: number;
+  public type!: ContactIdentifierType;
+  public value!: string;
+  public readonly created_at!: Date;
+}
+
+ContactIdentifier.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    contact_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'contacts',
+        key: 'id',
+      },
+    },
+    owner_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    type: {
+      type: DataTypes.ENUM(...Object.values(ContactIdentifierType)),
+      allowNull: false,
+    },
+    value: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'contact_identifiers',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: false,
+    indexes: [
+      {
+        fields: ['owner_id', 'type', 'value'],
+        unique: true,
+      },
+      {
+        fields: ['contact_id'],
+      },
+    ],
+  }
+);
+
+export { ContactIdentifier };
@@ -13,6 +13,7 @@ import {
   BeforeUpdate,
   ForeignKey,
 } from 'sequelize-typescript';
+import type { LeadScoreFactor } from '../utils/leadScoring';
 
 export enum InquiryStatus {
   NEW = 'new',
@@ -20,6 +21,34 @@ export enum InquiryStatus {
   CLOSED = 'closed',
 }
 
+// Sales pipeline stages, in order; the status follows the stage
+export enum LeadStage {
+  NEW = 'new',
+  CONTACTED = 'contacted',
+  QUALIFIED = 'qualified',
+  SITE_VISIT_SCHEDULED = 'site_visit_scheduled',
+  NEGOTIATION = 'negotiation',
+  WON = 'won',
+  LOST = 'lost',
+}
+
+export const LEAD_STAGE_STATUS: Record<LeadStage, InquiryStatus> = {
+  [LeadStage.NEW]: InquiryStatus.NEW,
+  [LeadStage.CONTACTED]: InquiryStatus.CONTACTED,
+  [LeadStage.QUALIFIED]: InquiryStatus.CONTACTED,
+  [LeadStage.SITE_VISIT_SCHEDULED]: InquiryStatus.CONTACTED,
+  [LeadStage.NEGOTIATION]: InquiryStatus.CONTACTED,
+  [LeadStage.WON]: InquiryStatus.CLOSED,
+  [LeadStage.LOST]: InquiryStatus.CLOSED,
+};
+
+// Where the lead came from; routing rules can match on it
+export enum LeadSource {
+  INQUIRY_FORM = 'inquiry_form',
+  SITE_VISIT = 'site_visit',
+  ASSET_DOWNLOAD = 'asset_download',
+}
+
 @Table({
   tableName: 'inquiries',
   timestamps: true,
@@ -62,10 +91,18 @@ export class Inquiry extends Model {
   @Index
   project_id?: number;
 
+  // Project price list current when the inquiry was made
+  @Column(DataType.INTEGER)
+  price_list_id?: number;
+
   @Column(DataType.INTEGER)
   @Index
   inquirer_id?: number;
 
+  // The owner's contact for this inquirer; null until the inquiry is linked
+  @Column(DataType.INTEGER)
+  contact_id?: number | null;
+
   @AllowNull(false)
   @Column(DataType.STRING(100))
   name!: string;
@@ -81,11 +118,65 @@ export class Inquiry extends Model {
   @Column(DataType.TEXT)
   message!: string;
 
+  @AllowNull(false)
+  @Default(LeadSource.INQUIRY_FORM)
+  @Column(DataType.ENUM(...Object.values(LeadSource)))
+  source!: LeadSource;
+
   @Default(InquiryStatus.NEW)
   @Column(DataType.ENUM(...Object.values(InquiryStatus)))
   @Index
   status!: InquiryStatus;
 
+  @AllowNull(false)
+  @Default(LeadStage.NEW)
+  @Column(DataType.ENUM(...Object.values(LeadStage)))
+  stage!: LeadStage;
+
+  // Required when the lead is lost
+  @Column(DataType.STRING(255))
+  lost_reason?: string | null;
+
+  @Column(DataType.DATE)
+  stage_changed_at?: Date | null;
+
+  // Earliest open follow-up, kept for the board and lead lists
+  @Column(DataType.DATE)
+  next_follow_up_at?: Date | null;
+
+  // 0-100, higher is more likely to convert; see utils/leadScoring
+  @Column(DataType.INTEGER)
+  score?: number | null;
+
+  @Column(DataType.JSON)
+  score_factors?: LeadScoreFactor[] | null;
+
+  @Column(DataType.DATE)
+  scored_at?: Date | null;
+
+  // The team member working the lead; null until it is routed or assigned
+  @Column(DataType.INTEGER)
+  @Index
+  assigned_to?: number | null;
+
+  @Column(DataType.DATE)
+  assigned_at?: Date | null;
+
+  // The routing rule that made the current assignment
+  @Column(DataType.INTEGER)
+  routing_rule_id?: number | null;
+
+  // First-response deadline, set when the lead is routed
+  @Column(DataType.DATE)
+  response_due_at?: Date | null;
+
+  // When the lead first moved on from new
+  @Column(DataType.DATE)
+  first_responded_at?: Date | null;
+
+  @Column(DataType.DATE)
+  sla_breached_at?: Date | null;
+
   @Column(DataType.INTEGER)
   @Index
   conversation_id?: number;
@@ -97,6 +188,7 @@ export class Inquiry extends Model {
   property?: any;
   project?: any;
   inquirer?: any;
+  assignee?: any;
   conversation?: any;
 
   // Instance methods
@@ -0,0 +1,126 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import  sequelize  from '../config/database';
+
+export enum InquiryActivityType {
+  NOTE = 'note',
+  CALL = 'call',
+  WHATSAPP = 'whatsapp',
+  FOLLOW_UP = 'follow_up',
+  STAGE_CHANGE = 'stage_change',
+}
+
+interface InquiryActivityAttributes {
+  id: number;
+  inquiry_id: number;
+  // null once the user is deleted
+  user_id?: number | null;
+  type: InquiryActivityType;
+  content?: string | null;
+  // Stage changes only
+  from_stage?: string | null;
+  to_stage?: string | null;
+  occurred_at: Date;
+  // Follow-ups only
+  follow_up_at?: Date | null;
+  reminded_at?: Date | null;
+  completed_at?: Date | null;
+  created_at?: Date;
+}
+
+interface InquiryActivityCreationAttributes extends Optional<InquiryActivityAttributes, 'id' | 'occurred_at' | 'created_at'> {}
+
+class InquiryActivity extends Model<InquiryActivityAttributes, InquiryActivityCreationAttributes> implements InquiryActivityAttributes {
+  public id!: number;
+  public inquiry_id!: number;
+  public user_id?: number | null;
+  public type!: InquiryActivityType;
+  public content?: string | null;
+  public from_stage?: string | null;
+  public to_stage?: string | null;
+  public occurred_at!: Date;
+  public follow_up_at?: Date | null;
+  public reminded_at?: Date | null;
+  public completed_at?: Date | null;
+  public readonly created_at!: Date;
+}
+
+InquiryActivity.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    inquiry_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'inquiries',
+        key: 'id',
+      },
+    },
+    user_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    type: {
+      type: DataTypes.ENUM(...Object.values(InquiryActivityType)),
+      allowNull: false,
+    },
+    content: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    from_stage: {
+      type: DataTypes.STRING(30),
+      allowNull: true,
+    },
+    to_stage: {
+      type: DataTypes.STRING(30),
+      allowNull: true,
+    },
+    occurred_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    follow_up_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    reminded_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    completed_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'inquiry_activities',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: false,
+    indexes: [
+      {
+        fields: ['inquiry_id', 'occurred_at'],
+      },
+      {
+        fields: ['type', 'completed_at', 'reminded_at', 'follow_up_at'],
+      },
+    ],
+  }
+);
+
+export { InquiryActivity };
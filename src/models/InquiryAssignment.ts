@@ -0,0 +1,101 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import  sequelize  from '../config/database';
+
+interface InquiryAssignmentAttributes {
+  id: number;
+  inquiry_id: number;
+  // null when the lead was unassigned
+  assigned_to?: number | null;
+  previous_assignee?: number | null;
+  // null when the lead was routed automatically
+  assigned_by?: number | null;
+  routing_rule_id?: number | null;
+  reason?: string | null;
+  created_at?: Date;
+}
+
+interface InquiryAssignmentCreationAttributes extends Optional<InquiryAssignmentAttributes, 'id' | 'created_at'> {}
+
+class InquiryAssignment extends Model<InquiryAssignmentAttributes, InquiryAssignmentCreationAttributes> implements InquiryAssignmentAttributes {
+  public id!: number;
+  public inquiry_id!: number;
+  public assigned_to?: number | null;
+  public previous_assignee?: number | null;
+  public assigned_by?: number | null;
+  public routing_rule_id?: number | null;
+  public reason?: string | null;
+  public readonly created_at!: Date;
+}
+
+InquiryAssignment.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    inquiry_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'inquiries',
+        key: 'id',
+      },
+    },
+    assigned_to: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    previous_assignee: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    assigned_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    routing_rule_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'lead_routing_rules',
+        key: 'id',
+      },
+    },
+    reason: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'inquiry_assignments',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: false,
+    indexes: [
+      {
+        fields: ['inquiry_id', 'created_at'],
+      },
+    ],
+  }
+);
+
+export { InquiryAssignment };
@@ -0,0 +1,93 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import  sequelize  from '../config/database';
+
+interface InstallmentPaymentAttributes {
+  id: number;
+  installment_id: number;
+  amount: number;
+  paid_on: string;
+  method?: string | null;
+  reference?: string | null;
+  notes?: string | null;
+  recorded_by?: number | null;
+  created_at?: Date;
+}
+
+interface InstallmentPaymentCreationAttributes extends Optional<InstallmentPaymentAttributes, 'id' | 'created_at'> {}
+
+class InstallmentPayment extends Model<InstallmentPaymentAttributes, InstallmentPaymentCreationAttributes> implements InstallmentPaymentAttributes {
+  public id!: number;
+  public installment_id!: number;
+  public amount!: number;
+  public paid_on!: string;
+  public method?: string | null;
+  public reference?: string | null;
+  public notes?: string | null;
+  public recorded_by?: number | null;
+  public readonly created_at!: Date;
+}
+
+InstallmentPayment.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    installment_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'unit_installments',
+        key: 'id',
+      },
+    },
+    amount: {
+      type: DataTypes.DECIMAL(15, 2),
+      allowNull: false,
+    },
+    paid_on: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    method: {
+      type: DataTypes.STRING(30),
+      allowNull: true,
+    },
+    reference: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
+    notes: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    recorded_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'installment_payments',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: false,
+    indexes: [
+      {
+        fields: ['installment_id'],
+      },
+    ],
+  }
+);
+
+export { InstallmentPayment };
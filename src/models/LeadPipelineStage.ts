@@ -0,0 +1,88 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import  sequelize  from '../config/database';
+import { LeadStage } from './Inquiry';
+
+// An owner's label, position and on/off switch for one of the fixed pipeline stages
+interface LeadPipelineStageAttributes {
+  id: number;
+  owner_id: number;
+  stage: LeadStage;
+  label: string;
+  position: number;
+  is_enabled: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface LeadPipelineStageCreationAttributes extends Optional<LeadPipelineStageAttributes, 'id' | 'is_enabled' | 'created_at' | 'updated_at'> {}
+
+class LeadPipelineStage extends Model<LeadPipelineStageAttributes, LeadPipelineStageCreationAttributes> implements LeadPipelineStageAttributes {
+  public id!: number;
+  public owner_id!: number;
+  public stage!: LeadStage;
+  public label!: string;
+  public position!: number;
+  public is_enabled!: boolean;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+}
+
+LeadPipelineStage.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    owner_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    stage: {
+      type: DataTypes.ENUM(...Object.values(LeadStage)),
+      allowNull: false,
+    },
+    label: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+    },
+    position: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    is_enabled: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'lead_pipeline_stages',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        unique: true,
+        fields: ['owner_id', 'stage'],
+      },
+    ],
+  }
+);
+
+export { LeadPipelineStage };
@@ -0,0 +1,155 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import  sequelize  from '../config/database';
+import { LeadSource } from './Inquiry';
+
+export enum LeadRoutingStrategy {
+  // Take turns in the order the agents are listed
+  ROUND_ROBIN = 'round_robin',
+  // The agent with the fewest open leads
+  LEAST_LOAD = 'least_load'
+}
+
+interface LeadRoutingRuleAttributes {
+  id: number;
+  owner_id: number;
+  name: string;
+  priority: number;
+  is_active: boolean;
+  // Each criterion is null when it matches any lead
+  cities?: string[] | null;
+  property_types?: string[] | null;
+  min_budget?: number | null;
+  max_budget?: number | null;
+  project_ids?: number[] | null;
+  sources?: LeadSource[] | null;
+  strategy: LeadRoutingStrategy;
+  agent_ids: number[];
+  last_assigned_to?: number | null;
+  // null for the default response time
+  sla_minutes?: number | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface LeadRoutingRuleCreationAttributes extends Optional<LeadRoutingRuleAttributes, 'id' | 'priority' | 'is_active' | 'strategy' | 'created_at' | 'updated_at'> {}
+
+class LeadRoutingRule extends Model<LeadRoutingRuleAttributes, LeadRoutingRuleCreationAttributes> implements LeadRoutingRuleAttributes {
+  public id!: number;
+  public owner_id!: number;
+  public name!: string;
+  public priority!: number;
+  public is_active!: boolean;
+  public cities?: string[] | null;
+  public property_types?: string[] | null;
+  public min_budget?: number | null;
+  public max_budget?: number | null;
+  public project_ids?: number[] | null;
+  public sources?: LeadSource[] | null;
+  public strategy!: LeadRoutingStrategy;
+  public agent_ids!: number[];
+  public last_assigned_to?: number | null;
+  public sla_minutes?: number | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+}
+
+LeadRoutingRule.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    owner_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    priority: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    is_active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    cities: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+    property_types: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+    min_budget: {
+      type: DataTypes.DECIMAL(15, 2),
+      allowNull: true,
+    },
+    max_budget: {
+      type: DataTypes.DECIMAL(15, 2),
+      allowNull: true,
+    },
+    project_ids: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+    sources: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+    strategy: {
+      type: DataTypes.ENUM(...Object.values(LeadRoutingStrategy)),
+      allowNull: false,
+      defaultValue: LeadRoutingStrategy.ROUND_ROBIN,
+    },
+    agent_ids: {
+      type: DataTypes.JSON,
+      allowNull: false,
+    },
+    last_assigned_to: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    sla_minutes: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'lead_routing_rules',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['owner_id', 'is_active', 'priority'],
+      },
+    ],
+  }
+);
+
+export { LeadRoutingRule };
@@ -44,10 +44,11 @@ interface ProjectAttributes {
   amenities?: string[];
   specifications?: Record<string, any>;
   pricing?: Record<string, any>;
-  floor_plans?: string[];
-  brochure_url?: string;
+  // Kept in step with the project's floor plan, brochure and 3D tour assets
+  floor_plans?: string[] | null;
+  brochure_url?: string | null;
   video_url?: string;
-  virtual_tour_url?: string;
+  virtual_tour_url?: string | null;
   is_active: boolean;
   featured: boolean;
   created_at?: Date;
@@ -80,10 +81,10 @@ class Project extends Model<ProjectAttributes, ProjectCreationAttributes> implem
   public amenities?: string[];
   public specifications?: Record<string, any>;
   public pricing?: Record<string, any>;
-  public floor_plans?: string[];
-  public brochure_url?: string;
+  public floor_plans?: string[] | null;
+  public brochure_url?: string | null;
   public video_url?: string;
-  public virtual_tour_url?: string;
+  public virtual_tour_url?: string | null;
   public is_active!: boolean;
   public featured!: boolean;
   public readonly created_at!: Date;
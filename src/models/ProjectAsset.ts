@@ -0,0 +1,158 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import  sequelize  from '../config/database';
+
+export enum ProjectAssetType {
+  BROCHURE = 'brochure',
+  FLOOR_PLAN = 'floor_plan',
+  TOUR_3D = 'tour_3d'
+}
+
+interface ProjectAssetAttributes {
+  id: number;
+  project_id: number;
+  asset_type: ProjectAssetType;
+  title: string;
+  // Floor plans only: the configuration the plan shows, e.g. 2BHK
+  unit_type?: string | null;
+  // The uploaded file, or the link for 3D tours
+  file_url?: string | null;
+  s3_key?: string | null;
+  mime_type?: string | null;
+  file_size?: number | null;
+  preview_url?: string | null;
+  preview_s3_key?: string | null;
+  thumbnail_url?: string | null;
+  thumbnail_s3_key?: string | null;
+  requires_lead: boolean;
+  display_order: number;
+  uploaded_by?: number | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface ProjectAssetCreationAttributes extends Optional<ProjectAssetAttributes, 'id' | 'requires_lead' | 'display_order' | 'created_at' | 'updated_at'> {}
+
+class ProjectAsset extends Model<ProjectAssetAttributes, ProjectAssetCreationAttributes> implements ProjectAssetAttributes {
+  public id!: number;
+  public project_id!: number;
+  public asset_type!: ProjectAssetType;
+  public title!: string;
+  public unit_type?: string | null;
+  public file_url?: string | null;
+  public s3_key?: string | null;
+  public mime_type?: string | null;
+  public file_size?: number | null;
+  public preview_url?: string | null;
+  public preview_s3_key?: string | null;
+  public thumbnail_url?: string | null;
+  public thumbnail_s3_key?: string | null;
+  public requires_lead!: boolean;
+  public display_order!: number;
+  public uploaded_by?: number | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+}
+
+ProjectAsset.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    project_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'projects',
+        key: 'id',
+      },
+    },
+    asset_type: {
+      type: DataTypes.ENUM(...Object.values(ProjectAssetType)),
+      allowNull: false,
+    },
+    title: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+    },
+    unit_type: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+    },
+    file_url: {
+      type: DataTypes.STRING(1000),
+      allowNull: true,
+    },
+    s3_key: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+    },
+    mime_type: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
+    file_size: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    preview_url: {
+      type: DataTypes.STRING(1000),
+      allowNull: true,
+    },
+    preview_s3_key: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+    },
+    thumbnail_url: {
+      type: DataTypes.STRING(1000),
+      allowNull: true,
+    },
+    thumbnail_s3_key: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+    },
+    requires_lead: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
+    display_order: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    uploaded_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'project_assets',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['project_id', 'asset_type', 'display_order'],
+      },
+    ],
+  }
+);
+
+export { ProjectAsset };
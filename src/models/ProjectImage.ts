@@ -1,7 +1,18 @@
-import { DataTypes, Model, Optional } from 'sequelize';
+import { DataTypes, Model, Op, Optional, WhereOptions } from 'sequelize';
 import sequelize from '../config/database';
 import { Project } from './Project';
 
+// Site photos posted with project updates
+export const CONSTRUCTION_IMAGE_TYPE = 'construction';
+
+// Keeps construction site photos out of the project's gallery
+export const GALLERY_IMAGE_WHERE: WhereOptions = {
+  [Op.or]: [
+    { image_type: { [Op.is]: null } },
+    { image_type: { [Op.ne]: CONSTRUCTION_IMAGE_TYPE } },
+  ],
+};
+
 interface ProjectImageAttributes {
   id: number;
   project_id: number;
@@ -176,7 +187,7 @@ ProjectImage.init(
       allowNull: true,
     },
     image_type: {
-      type: DataTypes.ENUM('exterior', 'interior', 'amenity', 'floor_plan', 'site_plan', 'location', 'gallery'),
+      type: DataTypes.ENUM('exterior', 'interior', 'amenity', 'floor_plan', 'site_plan', 'location', 'gallery', CONSTRUCTION_IMAGE_TYPE),
       allowNull: true,
     },
     is_primary: {
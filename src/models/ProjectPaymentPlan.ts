@@ -0,0 +1,104 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import  sequelize  from '../config/database';
+
+export interface PaymentPlanStage {
+  name: string;
+  // Share of the unit price due at this stage
+  percent: number;
+  // Days after the booking date the stage is expected to fall due
+  due_after_days: number;
+}
+
+interface ProjectPaymentPlanAttributes {
+  id: number;
+  project_id: number;
+  name: string;
+  description?: string | null;
+  stages: PaymentPlanStage[];
+  is_active: boolean;
+  created_by?: number | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface ProjectPaymentPlanCreationAttributes extends Optional<ProjectPaymentPlanAttributes, 'id' | 'is_active' | 'created_at' | 'updated_at'> {}
+
+class ProjectPaymentPlan extends Model<ProjectPaymentPlanAttributes, ProjectPaymentPlanCreationAttributes> implements ProjectPaymentPlanAttributes {
+  public id!: number;
+  public project_id!: number;
+  public name!: string;
+  public description?: string | null;
+  public stages!: PaymentPlanStage[];
+  public is_active!: boolean;
+  public created_by?: number | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+}
+
+ProjectPaymentPlan.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    project_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'projects',
+        key: 'id',
+      },
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    description: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    stages: {
+      type: DataTypes.JSON,
+      allowNull: false,
+    },
+    is_active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    created_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'project_payment_plans',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        unique: true,
+        fields: ['project_id', 'name'],
+      },
+    ],
+  }
+);
+
+export { ProjectPaymentPlan };
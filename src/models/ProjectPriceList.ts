@@ -0,0 +1,157 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import  sequelize  from '../config/database';
+
+interface ProjectPriceListAttributes {
+  id: number;
+  project_id: number;
+  version: number;
+  base_rate_per_sqft: number;
+  unit_type_rates?: Record<string, number> | null;
+  floor_rise_per_sqft: number;
+  floor_rise_from_floor: number;
+  corner_plc_per_sqft: number;
+  terrace_plc_per_sqft: number;
+  parking_charge_per_space: number;
+  effective_from: Date;
+  applied_at?: Date | null;
+  units_repriced?: number | null;
+  notes?: string | null;
+  created_by?: number | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface ProjectPriceListCreationAttributes extends Optional<
+  ProjectPriceListAttributes,
+  'id' | 'floor_rise_per_sqft' | 'floor_rise_from_floor' | 'corner_plc_per_sqft' | 'terrace_plc_per_sqft' | 'parking_charge_per_space' | 'created_at' | 'updated_at'
+> {}
+
+class ProjectPriceList extends Model<ProjectPriceListAttributes, ProjectPriceListCreationAttributes> implements ProjectPriceListAttributes {
+  public id!: number;
+  public project_id!: number;
+  public version!: number;
+  public base_rate_per_sqft!: number;
+  public unit_type_rates?: Record<string, number> | null;
+  public floor_rise_per_sqft!: number;
+  public floor_rise_from_floor!: number;
+  public corner_plc_per_sqft!: number;
+  public terrace_plc_per_sqft!: number;
+  public parking_charge_per_space!: number;
+  public effective_from!: Date;
+  public applied_at?: Date | null;
+  public units_repriced?: number | null;
+  public notes?: string | null;
+  public created_by?: number | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+}
+
+ProjectPriceList.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    project_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'projects',
+        key: 'id',
+      },
+    },
+    version: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    base_rate_per_sqft: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+    },
+    unit_type_rates: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+    floor_rise_per_sqft: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      defaultValue: 0,
+    },
+    floor_rise_from_floor: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 1,
+    },
+    corner_plc_per_sqft: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      defaultValue: 0,
+    },
+    terrace_plc_per_sqft: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      defaultValue: 0,
+    },
+    parking_charge_per_space: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      defaultValue: 0,
+    },
+    effective_from: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    applied_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    units_repriced: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    notes: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    created_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'project_price_lists',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        unique: true,
+        fields: ['project_id', 'version'],
+      },
+      {
+        fields: ['project_id', 'effective_from'],
+      },
+      {
+        fields: ['applied_at', 'effective_from'],
+      },
+    ],
+  }
+);
+
+export { ProjectPriceList };
@@ -0,0 +1,136 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import  sequelize  from '../config/database';
+
+// Snapshot of one unit's price under a price list version; kept if the unit is later deleted
+interface ProjectPriceListItemAttributes {
+  id: number;
+  price_list_id: number;
+  unit_id?: number | null;
+  unit_number: string;
+  unit_type: string;
+  tower?: string | null;
+  floor_number: number;
+  area_sqft: number;
+  base_amount: number;
+  floor_rise_amount: number;
+  plc_amount: number;
+  parking_amount: number;
+  total_price: number;
+  price_per_sqft: number;
+  created_at?: Date;
+}
+
+interface ProjectPriceListItemCreationAttributes extends Optional<ProjectPriceListItemAttributes, 'id' | 'created_at'> {}
+
+class ProjectPriceListItem extends Model<ProjectPriceListItemAttributes, ProjectPriceListItemCreationAttributes> implements ProjectPriceListItemAttributes {
+  public id!: number;
+  public price_list_id!: number;
+  public unit_id?: number | null;
+  public unit_number!: string;
+  public unit_type!: string;
+  public tower?: string | null;
+  public floor_number!: number;
+  public area_sqft!: number;
+  public base_amount!: number;
+  public floor_rise_amount!: number;
+  public plc_amount!: number;
+  public parking_amount!: number;
+  public total_price!: number;
+  public price_per_sqft!: number;
+  public readonly created_at!: Date;
+}
+
+ProjectPriceListItem.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    price_list_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'project_price_lists',
+        key: 'id',
+      },
+    },
+    unit_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'project_units',
+        key: 'id',
+      },
+    },
+    unit_number: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+    },
+    unit_type: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+    },
+    tower: {
+      type: DataTypes.STRING(50),
+      allowNull: true,
+    },
+    floor_number: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    area_sqft: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+    },
+    base_amount: {
+      type: DataTypes.DECIMAL(15, 2),
+      allowNull: false,
+    },
+    floor_rise_amount: {
+      type: DataTypes.DECIMAL(15, 2),
+      allowNull: false,
+      defaultValue: 0,
+    },
+    plc_amount: {
+      type: DataTypes.DECIMAL(15, 2),
+      allowNull: false,
+      defaultValue: 0,
+    },
+    parking_amount: {
+      type: DataTypes.DECIMAL(15, 2),
+      allowNull: false,
+      defaultValue: 0,
+    },
+    total_price: {
+      type: DataTypes.DECIMAL(15, 2),
+      allowNull: false,
+    },
+    price_per_sqft: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'project_price_list_items',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: false,
+    indexes: [
+      {
+        fields: ['price_list_id'],
+      },
+      {
+        fields: ['unit_id'],
+      },
+    ],
+  }
+);
+
+export { ProjectPriceListItem };
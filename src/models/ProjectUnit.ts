@@ -8,6 +8,16 @@ export enum UnitStatus {
   RESERVED = 'reserved'
 }
 
+export type UnitCountColumn = 'available_units' | 'sold_units' | 'blocked_units';
+
+// Project counter each unit status is tallied in; reserved (held) units count as blocked
+export const UNIT_STATUS_COUNTERS: Record<UnitStatus, UnitCountColumn> = {
+  [UnitStatus.AVAILABLE]: 'available_units',
+  [UnitStatus.SOLD]: 'sold_units',
+  [UnitStatus.BLOCKED]: 'blocked_units',
+  [UnitStatus.RESERVED]: 'blocked_units',
+};
+
 interface ProjectUnitAttributes {
   id: number;
   project_id: number;
@@ -25,7 +35,9 @@ interface ProjectUnitAttributes {
   bathrooms: number;
   bedrooms: number;
   status: UnitStatus;
-  floor_plan_image?: string;
+  floor_plan_image?: string | null;
+  // The project floor plan asset the unit shares with others of its unit_type
+  floor_plan_asset_id?: number | null;
   specifications?: Record<string, any>;
   amenities?: string[];
   is_corner_unit: boolean;
@@ -53,7 +65,8 @@ class ProjectUnit extends Model<ProjectUnitAttributes, ProjectUnitCreationAttrib
   public bathrooms!: number;
   public bedrooms!: number;
   public status!: UnitStatus;
-  public floor_plan_image?: string;
+  public floor_plan_image?: string | null;
+  public floor_plan_asset_id?: number | null;
   public specifications?: Record<string, any>;
   public amenities?: string[];
   public is_corner_unit!: boolean;
@@ -140,6 +153,14 @@ ProjectUnit.init(
       type: DataTypes.STRING(500),
       allowNull: true,
     },
+    floor_plan_asset_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'project_assets',
+        key: 'id',
+      },
+    },
     specifications: {
       type: DataTypes.JSON,
       allowNull: true,
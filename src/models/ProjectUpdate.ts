@@ -0,0 +1,173 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import  sequelize  from '../config/database';
+
+export enum ProjectUpdateType {
+  MILESTONE = 'milestone',
+  PROGRESS = 'progress',
+  QUARTERLY_REPORT = 'quarterly_report'
+}
+
+export interface ConstructionStage {
+  name: string;
+  percent: number;
+}
+
+export interface InventorySnapshot {
+  total_units: number;
+  available_units: number;
+  blocked_units: number;
+  sold_units: number;
+}
+
+interface ProjectUpdateAttributes {
+  id: number;
+  project_id: number;
+  update_type: ProjectUpdateType;
+  title: string;
+  description?: string | null;
+  update_date: string;
+  progress_percent?: number | null;
+  stages?: ConstructionStage[] | null;
+  report_year?: number | null;
+  report_quarter?: number | null;
+  inventory_snapshot?: InventorySnapshot | null;
+  image_ids?: number[] | null;
+  notified_at?: Date | null;
+  recipients_notified?: number | null;
+  created_by?: number | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface ProjectUpdateCreationAttributes extends Optional<ProjectUpdateAttributes, 'id' | 'update_type' | 'created_at' | 'updated_at'> {}
+
+class ProjectUpdate extends Model<ProjectUpdateAttributes, ProjectUpdateCreationAttributes> implements ProjectUpdateAttributes {
+  public id!: number;
+  public project_id!: number;
+  public update_type!: ProjectUpdateType;
+  public title!: string;
+  public description?: string | null;
+  public update_date!: string;
+  public progress_percent?: number | null;
+  public stages?: ConstructionStage[] | null;
+  public report_year?: number | null;
+  public report_quarter?: number | null;
+  public inventory_snapshot?: InventorySnapshot | null;
+  public image_ids?: number[] | null;
+  public notified_at?: Date | null;
+  public recipients_notified?: number | null;
+  public created_by?: number | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+}
+
+ProjectUpdate.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    project_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'projects',
+        key: 'id',
+      },
+    },
+    update_type: {
+      type: DataTypes.ENUM(...Object.values(ProjectUpdateType)),
+      allowNull: false,
+      defaultValue: ProjectUpdateType.PROGRESS,
+    },
+    title: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+    },
+    description: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    update_date: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    progress_percent: {
+      type: DataTypes.DECIMAL(5, 2),
+      allowNull: true,
+      validate: {
+        min: 0,
+        max: 100,
+      },
+    },
+    stages: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+    report_year: {
+      type: DataTypes.SMALLINT,
+      allowNull: true,
+    },
+    report_quarter: {
+      type: DataTypes.TINYINT,
+      allowNull: true,
+      validate: {
+        min: 1,
+        max: 4,
+      },
+    },
+    inventory_snapshot: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+    image_ids: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+    notified_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    recipients_notified: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    created_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'project_updates',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        unique: true,
+        fields: ['project_id', 'report_year', 'report_quarter'],
+      },
+      {
+        fields: ['project_id', 'update_date'],
+      },
+    ],
+  }
+);
+
+export { ProjectUpdate };
@@ -13,6 +13,8 @@ import {
   BeforeCreate,
   BeforeUpdate,
 } from 'sequelize-typescript';
+import { amenitiesToSearchText } from '../utils/searchText';
+import { toAmenityKeys } from '../utils/amenityFilter';
 
 export enum PropertyType {
   APARTMENT = 'apartment',
@@ -38,6 +40,18 @@ export enum PropertyStatus {
   ACTIVE = 'active',
 }
 
+// Where a listing is in the publishing workflow; only published listings are public (is_active)
+export enum ListingState {
+  DRAFT = 'draft',
+  SUBMITTED = 'submitted',
+  UNDER_REVIEW = 'under_review',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+  SCHEDULED = 'scheduled',
+  PUBLISHED = 'published',
+  ARCHIVED = 'archived',
+}
+
 export interface PropertyAmenities {
   parking?: boolean;
   gym?: boolean;
@@ -86,6 +100,9 @@ export interface PropertyAmenities {
     {
       fields: ['is_featured'],
     },
+    {
+      fields: ['listing_state', 'publish_at'],
+    },
   ],
 })
 export class Property extends Model {
@@ -154,6 +171,14 @@ export class Property extends Model {
   @Column(DataType.JSON)
   amenities?: PropertyAmenities;
 
+  // Plain-text copy of available amenities for the full-text index
+  @Column(DataType.TEXT)
+  amenities_text?: string | null;
+
+  // Normalized keys of available amenities, backing the multi-valued index used by amenity filters
+  @Column(DataType.JSON)
+  amenity_keys?: string[] | null;
+
   @Default(false)
   @Column(DataType.BOOLEAN)
   is_featured!: boolean;
@@ -166,6 +191,21 @@ export class Property extends Model {
   @Column(DataType.INTEGER)
   views_count!: number;
 
+  // Changed only through ListingLifecycleService, which keeps is_active in step
+  @Default(ListingState.PUBLISHED)
+  @Column(DataType.ENUM(...Object.values(ListingState)))
+  listing_state!: ListingState;
+
+  // When a scheduled listing goes live
+  @Column(DataType.DATE)
+  publish_at?: Date | null;
+
+  @Column(DataType.DATE)
+  published_at?: Date | null;
+
+  @Column(DataType.TEXT)
+  rejection_reason?: string | null;
+
   @Column(DataType.DATE)
   expires_at?: Date;
 
@@ -285,4 +325,21 @@ export class Property extends Model {
       }
     }
   }
+
+  @BeforeCreate
+  @BeforeUpdate
+  static syncVisibility(instance: Property): void {
+    if (instance.isNewRecord || instance.changed('listing_state')) {
+      instance.is_active = instance.listing_state === ListingState.PUBLISHED;
+    }
+  }
+
+  @BeforeCreate
+  @BeforeUpdate
+  static syncAmenitiesText(instance: Property): void {
+    if (instance.isNewRecord || instance.changed('amenities')) {
+      instance.amenities_text = amenitiesToSearchText(instance.amenities);
+      instance.amenity_keys = toAmenityKeys(instance.amenities);
+    }
+  }
 }
\ No newline at end of file
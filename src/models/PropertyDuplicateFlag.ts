@@ -0,0 +1,94 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  AutoIncrement,
+  AllowNull,
+  Default,
+  CreatedAt,
+  UpdatedAt,
+  Index,
+} from 'sequelize-typescript';
+
+export type DuplicateFlagSource = 'create' | 'bulk_upload' | 'image';
+export type DuplicateFlagStatus = 'pending' | 'dismissed' | 'confirmed';
+
+/**
+ * Per-signal similarity from 0 to 1; null when either listing lacks the data
+ */
+export interface DuplicateSignals {
+  address: number | null;
+  distance: number | null;
+  price: number | null;
+  area: number | null;
+  image: number | null;
+  distanceMeters?: number | null;
+}
+
+@Table({
+  tableName: 'property_duplicate_flags',
+  timestamps: true,
+  indexes: [
+    {
+      unique: true,
+      fields: ['property_id', 'duplicate_of_id'],
+      name: 'uniq_duplicate_pair',
+    },
+    {
+      fields: ['status', 'created_at'],
+      name: 'idx_duplicate_flags_status',
+    },
+  ],
+})
+export class PropertyDuplicateFlag extends Model {
+  @PrimaryKey
+  @AutoIncrement
+  @Column(DataType.INTEGER)
+  id!: number;
+
+  // The newer listing
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  property_id!: number;
+
+  // The existing listing it resembles
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  @Index
+  duplicate_of_id!: number;
+
+  @AllowNull(false)
+  @Column(DataType.DECIMAL(4, 3))
+  score!: number;
+
+  @AllowNull(false)
+  @Column(DataType.JSON)
+  signals!: DuplicateSignals;
+
+  @AllowNull(false)
+  @Column(DataType.ENUM('create', 'bulk_upload', 'image'))
+  source!: DuplicateFlagSource;
+
+  @AllowNull(false)
+  @Default('pending')
+  @Column(DataType.ENUM('pending', 'dismissed', 'confirmed'))
+  status!: DuplicateFlagStatus;
+
+  @Column(DataType.INTEGER)
+  reviewed_by?: number | null;
+
+  @Column(DataType.DATE)
+  reviewed_at?: Date | null;
+
+  @CreatedAt
+  created_at!: Date;
+
+  @UpdatedAt
+  updated_at!: Date;
+
+  // Associations - will be defined in database configuration
+  property!: any;
+  duplicateOf!: any;
+}
@@ -79,6 +79,10 @@ export class PropertyImage extends Model {
   @Column(DataType.INTEGER)
   height?: number;
 
+  // 64-bit difference hash (hex), used to spot the same photo on another listing
+  @Column(DataType.CHAR(16))
+  perceptual_hash?: string | null;
+
   @Default(false)
   @Column(DataType.BOOLEAN)
   is_primary!: boolean;
@@ -0,0 +1,68 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  AutoIncrement,
+  AllowNull,
+  CreatedAt,
+  Index,
+} from 'sequelize-typescript';
+import { ListingType } from './Property';
+
+@Table({
+  tableName: 'property_price_history',
+  timestamps: true,
+  updatedAt: false,
+  indexes: [
+    {
+      fields: ['property_id', 'created_at'],
+      name: 'idx_property_created',
+    },
+  ],
+})
+export class PropertyPriceHistory extends Model {
+  @PrimaryKey
+  @AutoIncrement
+  @Column(DataType.INTEGER)
+  id!: number;
+
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  @Index
+  property_id!: number;
+
+  @AllowNull(false)
+  @Column(DataType.DECIMAL(15, 2))
+  price!: number;
+
+  // NULL for the initial listing price
+  @Column(DataType.DECIMAL(15, 2))
+  previous_price?: number | null;
+
+  @AllowNull(false)
+  @Column(DataType.ENUM(...Object.values(ListingType)))
+  listing_type!: ListingType;
+
+  @Column(DataType.INTEGER)
+  changed_by?: number | null;
+
+  @CreatedAt
+  created_at!: Date;
+
+  // Associations - will be defined in database configuration
+  property!: any;
+
+  // Instance methods
+  get changeAmount(): number | null {
+    if (this.previous_price === null || this.previous_price === undefined) return null;
+    return Number(this.price) - Number(this.previous_price);
+  }
+
+  get changePercent(): number | null {
+    const previous = Number(this.previous_price);
+    if (this.previous_price === null || this.previous_price === undefined || previous === 0) return null;
+    return Math.round(((Number(this.price) - previous) / previous) * 10000) / 100;
+  }
+}
@@ -0,0 +1,71 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  AutoIncrement,
+  AllowNull,
+  CreatedAt,
+  Index,
+} from 'sequelize-typescript';
+import { ListingState } from './Property';
+
+export type TransitionActorRole = 'owner' | 'admin' | 'system';
+
+@Table({
+  tableName: 'property_state_transitions',
+  timestamps: true,
+  updatedAt: false,
+  indexes: [
+    {
+      fields: ['property_id', 'created_at'],
+      name: 'idx_property_created',
+    },
+  ],
+})
+export class PropertyStateTransition extends Model {
+  @PrimaryKey
+  @AutoIncrement
+  @Column(DataType.INTEGER)
+  id!: number;
+
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  @Index
+  property_id!: number;
+
+  // A ListingAction, or 'create' for the listing's first state
+  @AllowNull(false)
+  @Column(DataType.STRING(30))
+  action!: string;
+
+  // NULL when the listing was created
+  @Column(DataType.ENUM(...Object.values(ListingState)))
+  from_state?: ListingState | null;
+
+  @AllowNull(false)
+  @Column(DataType.ENUM(...Object.values(ListingState)))
+  to_state!: ListingState;
+
+  // NULL for system transitions (scheduled publish, expiry)
+  @Column(DataType.INTEGER)
+  actor_id?: number | null;
+
+  @AllowNull(false)
+  @Column(DataType.ENUM('owner', 'admin', 'system'))
+  actor_role!: TransitionActorRole;
+
+  @Column(DataType.TEXT)
+  reason?: string | null;
+
+  @Column(DataType.DATE)
+  publish_at?: Date | null;
+
+  @CreatedAt
+  created_at!: Date;
+
+  // Associations - will be defined in database configuration
+  property!: any;
+  actor!: any;
+}
@@ -13,6 +13,8 @@ import {
 } from 'sequelize-typescript';
 // Forward declarations to avoid circular imports
 import { PropertyType, ListingType } from './Property';
+import { GeoPolygon, parseGeoPolygons } from '../utils/geoUtils';
+import { AMENITY_MATCH_MODES, AmenityMatchMode } from '../utils/amenityFilter';
 
 export interface SearchCriteria {
   property_type?: PropertyType[];
@@ -26,10 +28,12 @@ export interface SearchCriteria {
   city?: string[];
   state?: string;
   amenities?: string[];
+  amenities_match?: AmenityMatchMode; // 'all' (default) or 'any'
   keywords?: string;
   radius?: number;
   latitude?: number;
   longitude?: number;
+  polygons?: GeoPolygon[]; // Drawn map areas, [longitude, latitude] rings
   [key: string]: any;
 }
 
@@ -108,6 +112,15 @@ export class SavedSearch extends Model {
       parts.push(`Bedrooms: ${criteria.bedrooms.join(', ')}`);
     }
 
+    if (criteria.amenities?.length) {
+      const joiner = criteria.amenities_match === 'any' ? ' or ' : ', ';
+      parts.push(`Amenities: ${criteria.amenities.join(joiner)}`);
+    }
+
+    if (criteria.polygons?.length) {
+      parts.push(`Area: ${criteria.polygons.length} drawn ${criteria.polygons.length === 1 ? 'area' : 'areas'}`);
+    }
+
     return parts.join(' | ') || 'All properties';
   }
 
@@ -151,6 +164,20 @@ export class SavedSearch extends Model {
       return false;
     }
 
+    // Validate amenity match mode
+    if (criteria.amenities_match && !AMENITY_MATCH_MODES.includes(criteria.amenities_match)) {
+      return false;
+    }
+
+    // Validate drawn areas
+    if (criteria.polygons) {
+      try {
+        parseGeoPolygons(criteria.polygons);
+      } catch (error) {
+        return false;
+      }
+    }
+
     return true;
   }
 
@@ -168,6 +195,14 @@ export class SavedSearch extends Model {
 
     // Sanitize search name
     instance.search_name = instance.search_name.trim();
+
+    // Store drawn areas in the normalized ring format
+    if (instance.search_criteria.polygons) {
+      instance.search_criteria = {
+        ...instance.search_criteria,
+        polygons: parseGeoPolygons(instance.search_criteria.polygons),
+      };
+    }
   }
 
   // Static methods for managing saved searches
@@ -0,0 +1,107 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import  sequelize  from '../config/database';
+
+interface UnitInstallmentAttributes {
+  id: number;
+  schedule_id: number;
+  sequence: number;
+  name: string;
+  percent: number;
+  amount: number;
+  due_date: string;
+  paid_amount: number;
+  paid_at?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface UnitInstallmentCreationAttributes extends Optional<UnitInstallmentAttributes, 'id' | 'paid_amount' | 'created_at' | 'updated_at'> {}
+
+class UnitInstallment extends Model<UnitInstallmentAttributes, UnitInstallmentCreationAttributes> implements UnitInstallmentAttributes {
+  public id!: number;
+  public schedule_id!: number;
+  public sequence!: number;
+  public name!: string;
+  public percent!: number;
+  public amount!: number;
+  public due_date!: string;
+  public paid_amount!: number;
+  public paid_at?: Date | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+}
+
+UnitInstallment.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    schedule_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'unit_payment_schedules',
+        key: 'id',
+      },
+    },
+    sequence: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    percent: {
+      type: DataTypes.DECIMAL(5, 2),
+      allowNull: false,
+    },
+    amount: {
+      type: DataTypes.DECIMAL(15, 2),
+      allowNull: false,
+    },
+    due_date: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    paid_amount: {
+      type: DataTypes.DECIMAL(15, 2),
+      allowNull: false,
+      defaultValue: 0,
+    },
+    paid_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'unit_installments',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        unique: true,
+        fields: ['schedule_id', 'sequence'],
+      },
+      {
+        fields: ['due_date', 'paid_at'],
+      },
+    ],
+  }
+);
+
+export { UnitInstallment };
@@ -0,0 +1,153 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import  sequelize  from '../config/database';
+
+export enum PaymentScheduleStatus {
+  ACTIVE = 'active',
+  CANCELLED = 'cancelled'
+}
+
+interface UnitPaymentScheduleAttributes {
+  id: number;
+  project_id: number;
+  unit_id: number;
+  reservation_id: number;
+  buyer_id: number;
+  plan_id?: number | null;
+  plan_name: string;
+  total_amount: number;
+  booking_date: string;
+  status: PaymentScheduleStatus;
+  cancelled_at?: Date | null;
+  created_by?: number | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface UnitPaymentScheduleCreationAttributes extends Optional<UnitPaymentScheduleAttributes, 'id' | 'status' | 'created_at' | 'updated_at'> {}
+
+class UnitPaymentSchedule extends Model<UnitPaymentScheduleAttributes, UnitPaymentScheduleCreationAttributes> implements UnitPaymentScheduleAttributes {
+  public id!: number;
+  public project_id!: number;
+  public unit_id!: number;
+  public reservation_id!: number;
+  public buyer_id!: number;
+  public plan_id?: number | null;
+  public plan_name!: string;
+  public total_amount!: number;
+  public booking_date!: string;
+  public status!: PaymentScheduleStatus;
+  public cancelled_at?: Date | null;
+  public created_by?: number | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+}
+
+UnitPaymentSchedule.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    project_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'projects',
+        key: 'id',
+      },
+    },
+    unit_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'project_units',
+        key: 'id',
+      },
+    },
+    reservation_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      unique: true,
+      references: {
+        model: 'unit_reservations',
+        key: 'id',
+      },
+    },
+    buyer_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    plan_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'project_payment_plans',
+        key: 'id',
+      },
+    },
+    plan_name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    total_amount: {
+      type: DataTypes.DECIMAL(15, 2),
+      allowNull: false,
+    },
+    booking_date: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM(...Object.values(PaymentScheduleStatus)),
+      allowNull: false,
+      defaultValue: PaymentScheduleStatus.ACTIVE,
+    },
+    cancelled_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    created_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'unit_payment_schedules',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['project_id', 'status'],
+      },
+      {
+        fields: ['unit_id', 'status'],
+      },
+      {
+        fields: ['buyer_id'],
+      },
+    ],
+  }
+);
+
+export { UnitPaymentSchedule };
@@ -0,0 +1,139 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import  sequelize  from '../config/database';
+
+export enum ReservationStatus {
+  HELD = 'held',
+  BOOKED = 'booked',
+  RELEASED = 'released',
+  EXPIRED = 'expired'
+}
+
+// Statuses that keep the unit off the market
+export const ACTIVE_RESERVATION_STATUSES = [ReservationStatus.HELD, ReservationStatus.BOOKED];
+
+interface UnitReservationAttributes {
+  id: number;
+  project_id: number;
+  unit_id: number;
+  buyer_id: number;
+  status: ReservationStatus;
+  expires_at?: Date | null;
+  booked_at?: Date | null;
+  booked_by?: number | null;
+  released_at?: Date | null;
+  released_by?: number | null;
+  notes?: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface UnitReservationCreationAttributes extends Optional<UnitReservationAttributes, 'id' | 'status' | 'created_at' | 'updated_at'> {}
+
+class UnitReservation extends Model<UnitReservationAttributes, UnitReservationCreationAttributes> implements UnitReservationAttributes {
+  public id!: number;
+  public project_id!: number;
+  public unit_id!: number;
+  public buyer_id!: number;
+  public status!: ReservationStatus;
+  public expires_at?: Date | null;
+  public booked_at?: Date | null;
+  public booked_by?: number | null;
+  public released_at?: Date | null;
+  public released_by?: number | null;
+  public notes?: string | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+}
+
+UnitReservation.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    project_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'projects',
+        key: 'id',
+      },
+    },
+    unit_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'project_units',
+        key: 'id',
+      },
+    },
+    buyer_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    status: {
+      type: DataTypes.ENUM(...Object.values(ReservationStatus)),
+      allowNull: false,
+      defaultValue: ReservationStatus.HELD,
+    },
+    expires_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    booked_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    booked_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    released_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    released_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    notes: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'unit_reservations',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['project_id', 'status'],
+      },
+      {
+        fields: ['buyer_id', 'status'],
+      },
+      {
+        fields: ['status', 'expires_at'],
+      },
+    ],
+  }
+);
+
+export { UnitReservation };
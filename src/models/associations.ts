@@ -2,6 +2,7 @@
 let User: any, Property: any, PropertyImage: any, Inquiry: any;
 let UserFavorite: any, SavedSearch: any, Message: any, Conversation: any;
 let ConversationParticipant: any, CmsContent: any, Review: any, UrlRedirect: any, SiteVisit: any;
+let PropertyPriceHistory: any, PropertyStateTransition: any, PropertyDuplicateFlag: any, Project: any;
 
 // Helper function to safely get model from sequelize instance
 function getModel(sequelizeInstance: any, modelName: string): any {
@@ -31,6 +32,10 @@ export function defineAssociations(sequelizeInstance: any): void {
     Review = getModel(sequelizeInstance, 'Review');
     UrlRedirect = getModel(sequelizeInstance, 'UrlRedirect');
     SiteVisit = getModel(sequelizeInstance, 'SiteVisit');
+    PropertyPriceHistory = getModel(sequelizeInstance, 'PropertyPriceHistory');
+    PropertyStateTransition = getModel(sequelizeInstance, 'PropertyStateTransition');
+    PropertyDuplicateFlag = getModel(sequelizeInstance, 'PropertyDuplicateFlag');
+    Project = getModel(sequelizeInstance, 'Project');
 
     // Only define associations if models exist
     if (!User || !Property) {
@@ -172,6 +177,20 @@ export function defineAssociations(sequelizeInstance: any): void {
         as: 'inquirer',
       });
 
+      Inquiry.belongsTo(User, {
+        foreignKey: 'assigned_to',
+        onDelete: 'SET NULL',
+        as: 'assignee',
+      });
+
+      if (Project) {
+        Inquiry.belongsTo(Project, {
+          foreignKey: 'project_id',
+          onDelete: 'CASCADE',
+          as: 'project',
+        });
+      }
+
       if (Message) {
         Inquiry.hasMany(Message, {
           foreignKey: 'inquiry_id',
@@ -362,6 +381,69 @@ export function defineAssociations(sequelizeInstance: any): void {
       });
     }
 
+    // PropertyPriceHistory associations
+    if (PropertyPriceHistory) {
+      console.log('🔗 Defining PropertyPriceHistory associations...');
+
+      Property.hasMany(PropertyPriceHistory, {
+        foreignKey: 'property_id',
+        onDelete: 'CASCADE',
+        as: 'priceHistory',
+      });
+
+      PropertyPriceHistory.belongsTo(Property, {
+        foreignKey: 'property_id',
+        onDelete: 'CASCADE',
+        as: 'property',
+      });
+    }
+
+    // PropertyStateTransition associations
+    if (PropertyStateTransition) {
+      console.log('🔗 Defining PropertyStateTransition associations...');
+
+      Property.hasMany(PropertyStateTransition, {
+        foreignKey: 'property_id',
+        onDelete: 'CASCADE',
+        as: 'stateTransitions',
+      });
+
+      PropertyStateTransition.belongsTo(Property, {
+        foreignKey: 'property_id',
+        onDelete: 'CASCADE',
+        as: 'property',
+      });
+
+      PropertyStateTransition.belongsTo(User, {
+        foreignKey: 'actor_id',
+        onDelete: 'SET NULL',
+        as: 'actor',
+      });
+    }
+
+    // PropertyDuplicateFlag associations
+    if (PropertyDuplicateFlag) {
+      console.log('🔗 Defining PropertyDuplicateFlag associations...');
+
+      PropertyDuplicateFlag.belongsTo(Property, {
+        foreignKey: 'property_id',
+        onDelete: 'CASCADE',
+        as: 'property',
+      });
+
+      PropertyDuplicateFlag.belongsTo(Property, {
+        foreignKey: 'duplicate_of_id',
+        onDelete: 'CASCADE',
+        as: 'duplicateOf',
+      });
+
+      PropertyDuplicateFlag.belongsTo(User, {
+        foreignKey: 'reviewed_by',
+        onDelete: 'SET NULL',
+        as: 'reviewer',
+      });
+    }
+
     console.log('✅ All model associations defined successfully');
   } catch (error) {
     console.error('❌ Error defining associations:', error);
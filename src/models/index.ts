@@ -1,8 +1,11 @@
 // Core models - exported in proper loading order
 export { User, UserRole } from './User';
-export { Property, PropertyType, ListingType, PropertyStatus, PropertyAmenities } from './Property';
+export { Property, PropertyType, ListingType, PropertyStatus, ListingState, PropertyAmenities } from './Property';
 export { PropertyImage } from './PropertyImage';
-export { Inquiry, InquiryStatus } from './Inquiry';
+export { PropertyPriceHistory } from './PropertyPriceHistory';
+export { PropertyStateTransition } from './PropertyStateTransition';
+export { PropertyDuplicateFlag, DuplicateSignals, DuplicateFlagSource, DuplicateFlagStatus } from './PropertyDuplicateFlag';
+export { Inquiry, InquiryStatus, LeadSource, LeadStage, LEAD_STAGE_STATUS } from './Inquiry';
 export { UserFavorite } from './UserFavorite';
 export { SavedSearch, SearchCriteria } from './SavedSearch';
 export { Message } from './Message';
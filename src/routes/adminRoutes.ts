@@ -39,6 +39,10 @@ router.get('/properties', adminController.getPropertiesForModeration);
 router.put('/properties/:propertyId/status', adminController.updatePropertyStatus);
 router.delete('/properties/:propertyId', adminController.deleteProperty);
 
+// Duplicate Listing Routes
+router.get('/duplicates', adminController.getDuplicateClusters);
+router.post('/duplicates/review', adminController.reviewDuplicateCluster);
+
 // SEO Management Routes
 router.get('/seo/settings', seoController.getSeoSettings);
 router.post('/seo/settings', seoController.upsertSeoSettings);
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import builderTeamController, { BuilderTeamController } from '../controllers/builderTeamController';
+import { authenticate } from '../middleware/auth';
+
+const router = Router();
+
+// Team management (builder and agency accounts)
+router.get('/members', authenticate, builderTeamController.getMembers);
+router.post('/members', authenticate, BuilderTeamController.inviteMemberValidation, builderTeamController.inviteMember);
+router.patch('/members/:memberId', authenticate, BuilderTeamController.updateMemberValidation, builderTeamController.updateMember);
+router.delete('/members/:memberId', authenticate, builderTeamController.removeMember);
+
+// Team members
+router.get('/memberships', authenticate, builderTeamController.getMemberships);
+router.post('/invitations/accept', authenticate, BuilderTeamController.acceptInvitationValidation, builderTeamController.acceptInvitation);
+
+export default router;
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import contactController, { ContactController } from '../controllers/contactController';
+import { authenticate } from '../middleware/auth';
+
+const router = Router();
+
+// Contacts group the inquiries of the user's or their teams' listings by inquirer
+router.get('/', authenticate, ContactController.getContactsValidation, contactController.getContacts);
+router.get('/:id', authenticate, ContactController.contactIdValidation, contactController.getContact);
+router.post('/:id/merge', authenticate, ContactController.mergeValidation, contactController.mergeContacts);
+
+export default router;
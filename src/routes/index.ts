@@ -18,6 +18,9 @@ import conversationRoutes from './conversationRoutes';
 import messageRoutes from './messageRoutes';
 import projectRoutes from './projectRoutes';
 import siteVisitRoutes from './siteVisitRoutes';
+import builderTeamRoutes from './builderTeamRoutes';
+import leadRoutes from './leadRoutes';
+import contactRoutes from './contactRoutes';
 
 const router = Router();
 
@@ -45,6 +48,9 @@ router.use('/v1/conversations', conversationRoutes);
 router.use('/v1/messages', messageRoutes);
 router.use('/v1/projects', projectRoutes);
 router.use('/v1/site-visits', siteVisitRoutes);
+router.use('/v1/builder-team', builderTeamRoutes);
+router.use('/v1/leads', leadRoutes);
+router.use('/v1/contacts', contactRoutes);
 
 
 // Legacy routes (redirect to v1 for backward compatibility)
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import inquiryController, { InquiryController } from '../controllers/inquiryController';
+import leadPipelineController, { LeadPipelineController } from '../controllers/leadPipelineController';
 import { authenticate, optionalAuth } from '../middleware/auth';
 import rateLimit from 'express-rate-limit';
 
@@ -43,6 +44,28 @@ router.get(
   inquiryController.getInquiryStats
 );
 
+// Sales pipeline: stages, the board view and each lead's activity timeline
+router.get(
+  '/pipeline/stages',
+  authenticate,
+  LeadPipelineController.stagesValidation,
+  leadPipelineController.getStages
+);
+
+router.put(
+  '/pipeline/stages',
+  authenticate,
+  LeadPipelineController.updateStagesValidation,
+  leadPipelineController.updateStages
+);
+
+router.get(
+  '/pipeline',
+  authenticate,
+  LeadPipelineController.boardValidation,
+  leadPipelineController.getBoard
+);
+
 router.get(
   '/:id',
   authenticate,
@@ -57,6 +80,34 @@ router.put(
   inquiryController.updateInquiryStatus
 );
 
+router.patch(
+  '/:id/stage',
+  authenticate,
+  LeadPipelineController.changeStageValidation,
+  leadPipelineController.changeStage
+);
+
+router.get(
+  '/:id/activities',
+  authenticate,
+  LeadPipelineController.activitiesValidation,
+  leadPipelineController.getActivities
+);
+
+router.post(
+  '/:id/activities',
+  authenticate,
+  LeadPipelineController.addActivityValidation,
+  leadPipelineController.addActivity
+);
+
+router.post(
+  '/:id/activities/:activityId/complete',
+  authenticate,
+  LeadPipelineController.completeFollowUpValidation,
+  leadPipelineController.completeFollowUp
+);
+
 router.delete(
   '/:id',
   authenticate,
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import leadRoutingController, { LeadRoutingController } from '../controllers/leadRoutingController';
+import { authenticate } from '../middleware/auth';
+
+const router = Router();
+
+// Routing rules and the people leads can go to (builder and agency accounts)
+router.get('/agents', authenticate, leadRoutingController.getAgents);
+router.get('/routing-rules', authenticate, leadRoutingController.getRules);
+router.post('/routing-rules', authenticate, LeadRoutingController.ruleValidation, leadRoutingController.createRule);
+router.patch('/routing-rules/:ruleId', authenticate, LeadRoutingController.updateRuleValidation, leadRoutingController.updateRule);
+router.delete('/routing-rules/:ruleId', authenticate, LeadRoutingController.ruleIdValidation, leadRoutingController.deleteRule);
+
+// Leads assigned to the user or their teams
+router.get('/', authenticate, LeadRoutingController.getLeadsValidation, leadRoutingController.getLeads);
+router.patch('/:inquiryId/assignment', authenticate, LeadRoutingController.reassignValidation, leadRoutingController.reassignLead);
+router.get('/:inquiryId/assignments', authenticate, LeadRoutingController.leadIdValidation, leadRoutingController.getAssignmentHistory);
+
+export default router;
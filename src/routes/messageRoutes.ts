@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import messageController from '../controllers/messageController';
+import messageController, { MessageController } from '../controllers/messageController';
 import { authenticate } from '../middleware/auth';
 
 const router = Router();
@@ -7,10 +7,19 @@ const router = Router();
 // Apply authentication middleware to all routes
 router.use(authenticate);
 
+// Server-sent events for the user's conversations; EventSource passes the token as ?token=
+router.get('/stream', messageController.streamEvents);
+
 // Get messages for a conversation
 router.get('/conversation/:conversationId', messageController.getMessages);
 
 // Send a message to a conversation
 router.post('/conversation/:conversationId', messageController.sendMessage);
 
+// Mark the messages sent to the user as read, sending read receipts to their senders
+router.post('/conversation/:conversationId/read', MessageController.markAsReadValidation, messageController.markAsRead);
+
+// Tell the other participants the user started or stopped typing
+router.post('/conversation/:conversationId/typing', MessageController.typingValidation, messageController.sendTyping);
+
 export default router;
\ No newline at end of file
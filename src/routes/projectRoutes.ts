@@ -3,7 +3,8 @@ import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
 import projectController, { ProjectController } from '../controllers/projectController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, optionalAuthenticate } from '../middleware/auth';
+import { ASSET_MIME_TYPES, MAX_ASSET_FILE_SIZE } from '../services/projectAssetService';
 
 const router = Router();
 
@@ -50,11 +51,47 @@ const csvFileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileF
 
 const uploadCsv = multer({ storage: csvStorage, fileFilter: csvFileFilter });
 
+// Unit exports come back as CSV or XLSX
+const unitSheetFileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  if (/\.(csv|xlsx)$/i.test(file.originalname)) {
+    cb(null, true);
+  } else {
+    cb(new Error('Only CSV or XLSX files are allowed'));
+  }
+};
+
+const uploadUnitSheet = multer({
+  storage: csvStorage,
+  fileFilter: unitSheetFileFilter,
+  limits: { fileSize: 5 * 1024 * 1024 }, // 5MB limit per sheet
+});
+
+// Brochures and floor plans go straight to S3, so they are kept in memory
+const assetFileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  if (Object.values(ASSET_MIME_TYPES).some(types => types.includes(file.mimetype))) {
+    cb(null, true);
+  } else {
+    cb(new Error('Only PDF, JPEG, PNG or WebP files are allowed'));
+  }
+};
+
+const uploadAsset = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: assetFileFilter,
+  limits: { fileSize: MAX_ASSET_FILE_SIZE },
+});
+
 
 // --- Public Project Routes (no authentication required) ---
-router.get('/public', projectController.getPublicProjects);
+router.get('/public', ProjectController.publicProjectSearchValidation, projectController.getPublicProjects);
 router.get('/public/recent', projectController.getRecentProjects);
+router.get('/compare', ProjectController.compareProjectsValidation, projectController.compareProjects);
 router.get('/public/:id', projectController.getPublicProjectById);
+router.get('/public/:id/price-list', optionalAuthenticate, projectController.getPublicPriceList);
+router.get('/public/:id/updates', projectController.getPublicProjectUpdates);
+router.get('/public/:id/availability', ProjectController.publicAvailabilityValidation, projectController.getPublicProjectAvailability);
+router.get('/public/:id/assets', projectController.getPublicProjectAssets);
+router.post('/public/:id/assets/:assetId/download', optionalAuthenticate, ProjectController.assetDownloadValidation, projectController.downloadProjectAsset);
 
 // Debug middleware to log all requests
 router.use((req, res, next) => {
@@ -70,25 +107,73 @@ router.post('/', authenticate, ProjectController.createProjectValidation, projec
 // --- Stats Route (must be before /:id route) ---
 router.get('/stats', authenticate, projectController.getProjectStats);
 
+// --- Reservation Routes (must be before /:id route) ---
+router.get('/reservations/mine', authenticate, projectController.getMyReservations);
+router.get('/:projectId/reservations', authenticate, projectController.getProjectReservations);
+
 // --- Inquiry Routes (TODO: Enable after running migration) ---
 router.get('/:projectId/inquiries', authenticate, projectController.getProjectInquiries);
-router.post('/:projectId/inquiries', ProjectController.createProjectInquiryValidation, projectController.createProjectInquiry);
+router.post('/:projectId/inquiries', optionalAuthenticate, ProjectController.createProjectInquiryValidation, projectController.createProjectInquiry);
 
 router.get('/:id', authenticate, projectController.getProjectById);
 router.put('/:id', authenticate, projectController.updateProject);
 router.patch('/:id/status', authenticate, projectController.updateProjectStatus);
 
+// --- Price List Routes ---
+router.get('/:projectId/price-lists', authenticate, projectController.getPriceLists);
+router.post('/:projectId/price-lists', authenticate, ProjectController.priceListValidation, projectController.createPriceList);
+router.post('/:projectId/price-lists/preview', authenticate, ProjectController.priceListValidation, projectController.previewPriceList);
+router.get('/:projectId/price-lists/:priceListId', authenticate, projectController.getPriceList);
+router.delete('/:projectId/price-lists/:priceListId', authenticate, projectController.deletePriceList);
+
+// --- Construction Update Routes ---
+router.get('/:projectId/updates', authenticate, projectController.getProjectUpdates);
+router.post('/:projectId/updates', authenticate, uploadImages.array('photos', 10), ProjectController.projectUpdateValidation, projectController.createProjectUpdate);
+router.delete('/:projectId/updates/:updateId', authenticate, projectController.deleteProjectUpdate);
+
+// --- Payment Plan Routes ---
+router.get('/:projectId/payment-plans', authenticate, projectController.getPaymentPlans);
+router.post('/:projectId/payment-plans', authenticate, ProjectController.paymentPlanValidation, projectController.createPaymentPlan);
+router.put('/:projectId/payment-plans/:planId', authenticate, ProjectController.paymentPlanValidation, projectController.updatePaymentPlan);
+router.delete('/:projectId/payment-plans/:planId', authenticate, projectController.deletePaymentPlan);
+router.get('/:projectId/payment-schedules', authenticate, projectController.getPaymentReceivables);
+
+// --- Asset Routes ---
+router.get('/:projectId/assets', authenticate, projectController.getProjectAssets);
+router.post('/:projectId/assets', authenticate, uploadAsset.single('file'), ProjectController.createAssetValidation, projectController.createProjectAsset);
+router.patch('/:projectId/assets/:assetId', authenticate, ProjectController.updateAssetValidation, projectController.updateProjectAsset);
+router.delete('/:projectId/assets/:assetId', authenticate, projectController.deleteProjectAsset);
+router.post('/:projectId/assets/:assetId/units', authenticate, ProjectController.floorPlanUnitsValidation, projectController.linkFloorPlanUnits);
+router.delete('/:projectId/assets/:assetId/units', authenticate, ProjectController.floorPlanUnitsValidation, projectController.unlinkFloorPlanUnits);
+
 // --- Unit Routes ---
 router.get('/:projectId/units', authenticate, projectController.getProjectUnits);
 router.post('/:projectId/units', authenticate, ProjectController.createUnitValidation, projectController.createProjectUnit);
 router.post('/:projectId/units/bulk', authenticate, projectController.bulkCreateUnits);
 router.post('/:projectId/units/bulk-csv', authenticate, uploadCsv.single('file'), projectController.bulkCreateUnitsFromCSV);
 router.get('/:projectId/units/template', authenticate, projectController.downloadCSVTemplate);
+router.get('/:projectId/units/export', authenticate, projectController.exportProjectUnits);
+router.post('/:projectId/units/import/preview', authenticate, uploadUnitSheet.single('file'), projectController.previewUnitImport);
+router.post('/:projectId/units/import', authenticate, uploadUnitSheet.single('file'), ProjectController.unitImportValidation, projectController.applyUnitImport);
+router.get('/:projectId/units/stacking-plan', authenticate, projectController.getStackingPlan);
+router.patch('/:projectId/units/status', authenticate, ProjectController.bulkUnitStatusValidation, projectController.bulkUpdateUnitStatus);
 
 router.get('/:projectId/units/:unitId', authenticate, projectController.getProjectUnit);
 router.put('/:projectId/units/:unitId', authenticate, projectController.updateProjectUnit);
 router.delete('/:projectId/units/:unitId', authenticate, projectController.deleteProjectUnit);
 
+router.get('/:projectId/units/:unitId/reservation', authenticate, projectController.getUnitReservation);
+router.post('/:projectId/units/:unitId/hold', authenticate, ProjectController.holdUnitValidation, projectController.holdUnit);
+router.delete('/:projectId/units/:unitId/hold', authenticate, projectController.releaseUnitHold);
+router.post('/:projectId/units/:unitId/booking', authenticate, projectController.bookUnit);
+
+router.get('/:projectId/units/:unitId/payment-schedule', authenticate, projectController.getPaymentSchedule);
+router.post('/:projectId/units/:unitId/payment-schedule', authenticate, ProjectController.applyPaymentPlanValidation, projectController.applyPaymentPlan);
+router.delete('/:projectId/units/:unitId/payment-schedule', authenticate, projectController.deletePaymentSchedule);
+router.patch('/:projectId/units/:unitId/payment-schedule/installments/:installmentId', authenticate, ProjectController.rescheduleInstallmentValidation, projectController.rescheduleInstallment);
+router.post('/:projectId/units/:unitId/payment-schedule/installments/:installmentId/payments', authenticate, ProjectController.installmentPaymentValidation, projectController.recordInstallmentPayment);
+router.get('/:projectId/units/:unitId/payment-schedule/installments/:installmentId/demand-letter', authenticate, projectController.downloadDemandLetter);
+
 // --- Image Routes ---
 // FIX: Use the correct 'uploadImages' multer instance here
 router.post('/:projectId/images', authenticate, uploadImages.array('images', 10), projectController.uploadProjectImages);
@@ -44,6 +44,12 @@ router.get(
   propertyController.compareProperties
 );
 
+router.get(
+  '/search/suggestions',
+  PropertyController.suggestionsValidation,
+  propertyController.getSearchSuggestions
+);
+
 router.get(
   '/search/near',
   propertyController.searchNearLocation
@@ -53,11 +59,14 @@ router.get(
 router.get(
   '/my-properties',
   authenticate,
+  PropertyController.cursorValidation,
   propertyController.getUserProperties
 );
 
 router.get(
   '/:id',
+  optionalAuthenticate,
+  propertyController.recordPropertyView,
   cacheMiddleware.cacheProperty(),
   PropertyController.propertyIdValidation,
   propertyController.getPropertyById
@@ -69,6 +78,12 @@ router.get(
   propertyController.getSimilarProperties
 );
 
+router.get(
+  '/:id/price-history',
+  PropertyController.propertyIdValidation,
+  propertyController.getPriceHistory
+);
+
 // Protected routes (authentication required)
 router.use(authenticate);
 
@@ -104,6 +119,21 @@ router.patch(
   propertyController.togglePropertyStatus
 );
 
+// Listing workflow: owners act on their own listings, admins review any listing
+router.get(
+  '/:id/lifecycle',
+  authorize(UserRole.OWNER, UserRole.AGENT, UserRole.BUILDER, UserRole.ADMIN),
+  PropertyController.propertyIdValidation,
+  propertyController.getListingLifecycle
+);
+
+router.post(
+  '/:id/lifecycle',
+  authorize(UserRole.OWNER, UserRole.AGENT, UserRole.BUILDER, UserRole.ADMIN),
+  PropertyController.listingTransitionValidation,
+  propertyController.transitionListing
+);
+
 // Get user's property analytics dashboard
 router.get(
   '/analytics/dashboard',
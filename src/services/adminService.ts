@@ -1,10 +1,12 @@
-import { Op } from 'sequelize';
+import { Op, WhereOptions } from 'sequelize';
 import { User } from '../models/User';
-import { Property } from '../models/Property';
+import { Property, ListingState } from '../models/Property';
 import { Inquiry } from '../models/Inquiry';
 import { UserFavorite } from '../models/UserFavorite';
 import { SavedSearch } from '../models/SavedSearch';
 import { UserRole } from '../types';
+import { CursorKey, CursorPagination, findCursorPage } from '../utils/cursorPagination';
+import ListingLifecycleService from './listingLifecycleService';
 
 interface DashboardAnalytics {
   totalUsers: number;
@@ -43,6 +45,36 @@ interface UserModerationData {
   inquiriesCount: number;
 }
 
+interface PropertyModerationFilters {
+  property_type?: string;   // Fixed: snake_case
+  is_active?: boolean;      // Fixed: snake_case
+  is_featured?: boolean;    // Fixed: snake_case
+  listing_state?: string;
+  search?: string;
+}
+
+const PROPERTY_MODERATION_ATTRIBUTES = [
+  'id',
+  'title',
+  'property_type',    // Fixed: snake_case
+  'listing_type',     // Fixed: snake_case
+  'price',
+  'city',
+  'is_active',        // Fixed: snake_case
+  'is_featured',      // Fixed: snake_case
+  'listing_state',
+  'publish_at',
+  'rejection_reason',
+  'views_count',      // Fixed: snake_case
+  'created_at',       // Fixed: snake_case
+  'user_id'           // Fixed: snake_case
+];
+
+const PROPERTY_MODERATION_SORT_KEYS: CursorKey[] = [
+  { name: 'created_at', direction: 'DESC', type: 'date' },
+  { name: 'id', direction: 'DESC' },
+];
+
 interface PropertyModerationData {
   id: number;
   title: string;
@@ -52,6 +84,9 @@ interface PropertyModerationData {
   city: string;
   is_active: boolean;     // Updated to match DB
   is_featured: boolean;   // Updated to match DB
+  listing_state: ListingState;
+  publish_at: Date | null;
+  rejection_reason: string | null;
   views_count: number;    // Updated to match DB
   created_at: Date;       // Updated to match DB
   owner: {
@@ -65,6 +100,8 @@ interface PropertyModerationData {
 }
 
 class AdminService {
+  private lifecycleService = new ListingLifecycleService();
+
   /**
    * Get dashboard analytics
    */
@@ -249,36 +286,10 @@ class AdminService {
   async getPropertiesForModeration(
     page: number = 1,
     limit: number = 20,
-    filters?: {
-      property_type?: string;   // Fixed: snake_case
-      is_active?: boolean;      // Fixed: snake_case
-      is_featured?: boolean;    // Fixed: snake_case
-      search?: string;
-    }
+    filters?: PropertyModerationFilters
   ): Promise<{ properties: PropertyModerationData[]; total: number; totalPages: number }> {
     const offset = (page - 1) * limit;
-    const whereClause: any = {};
-
-    console.log('getPropertiesForModeration called with filters:', filters);
-
-    if (filters) {
-      if (filters.property_type) {              // Fixed: snake_case
-        whereClause.property_type = filters.property_type;
-      }
-      if (filters.is_active !== undefined) {    // Fixed: snake_case
-        whereClause.is_active = filters.is_active;
-      }
-      if (filters.is_featured !== undefined) {  // Fixed: snake_case
-        whereClause.is_featured = filters.is_featured;
-      }
-      if (filters.search) {
-        whereClause[Op.or] = [
-          { title: { [Op.like]: `%${filters.search}%` } },
-          { city: { [Op.like]: `%${filters.search}%` } },
-          { address: { [Op.like]: `%${filters.search}%` } },
-        ];
-      }
-    }
+    const whereClause = this.buildPropertyModerationWhere(filters);
 
     console.log('WHERE clause for properties:', whereClause);
 
@@ -292,40 +303,16 @@ class AdminService {
             attributes: ['id', 'first_name', 'last_name', 'email', 'phone', 'role'],  // Fixed: snake_case
           },
         ],
-        attributes: [
-          'id',
-          'title',
-          'property_type',    // Fixed: snake_case
-          'listing_type',     // Fixed: snake_case
-          'price',
-          'city',
-          'is_active',        // Fixed: snake_case
-          'is_featured',      // Fixed: snake_case
-          'views_count',      // Fixed: snake_case
-          'created_at',       // Fixed: snake_case
-          'user_id'           // Fixed: snake_case
-        ],
+        attributes: PROPERTY_MODERATION_ATTRIBUTES,
         offset,
         limit,
-        order: [['created_at', 'DESC']],
+        order: [['created_at', 'DESC'], ['id', 'DESC']],
       });
 
       console.log('Fetched properties count:', count);
       console.log('Fetched properties rows:', rows.length);
 
-      const properties = rows.map((property: any) => ({
-        id: property.id,
-        title: property.title,
-        property_type: property.property_type,      // Fixed: snake_case
-        listing_type: property.listing_type,        // Fixed: snake_case
-        price: property.price,
-        city: property.city,
-        is_active: property.is_active,              // Fixed: snake_case
-        is_featured: property.is_featured,          // Fixed: snake_case
-        views_count: property.views_count || 0,     // Fixed: snake_case
-        created_at: property.created_at,            // Fixed: snake_case
-        owner: property.owner,  // FIXED: Map 'owner' association correctly for frontend
-      })) as PropertyModerationData[];
+      const properties = rows.map(this.toPropertyModerationData);
 
       console.log('Processed properties:', properties.length);
 
@@ -340,6 +327,90 @@ class AdminService {
     }
   }
 
+  /**
+   * Get properties for moderation using cursor pagination (newest first)
+   */
+  async getPropertiesForModerationByCursor(
+    limit: number = 20,
+    filters?: PropertyModerationFilters,
+    cursor?: string
+  ): Promise<{ properties: PropertyModerationData[]; pagination: CursorPagination }> {
+    try {
+      const { rows, pagination } = await findCursorPage(
+        Property,
+        {
+          where: this.buildPropertyModerationWhere(filters),
+          include: [
+            {
+              model: User,
+              as: 'owner',
+              attributes: ['id', 'first_name', 'last_name', 'email', 'phone', 'role'],
+            },
+          ],
+          attributes: PROPERTY_MODERATION_ATTRIBUTES,
+        },
+        PROPERTY_MODERATION_SORT_KEYS,
+        cursor,
+        limit
+      );
+
+      return {
+        properties: rows.map(this.toPropertyModerationData),
+        pagination,
+      };
+    } catch (error) {
+      console.error('Error in getPropertiesForModerationByCursor:', error);
+      throw error;
+    }
+  }
+
+  private buildPropertyModerationWhere(filters?: PropertyModerationFilters): WhereOptions {
+    const whereClause: any = {};
+
+    console.log('getPropertiesForModeration called with filters:', filters);
+
+    if (filters) {
+      if (filters.property_type) {              // Fixed: snake_case
+        whereClause.property_type = filters.property_type;
+      }
+      if (filters.is_active !== undefined) {    // Fixed: snake_case
+        whereClause.is_active = filters.is_active;
+      }
+      if (filters.is_featured !== undefined) {  // Fixed: snake_case
+        whereClause.is_featured = filters.is_featured;
+      }
+      if (filters.listing_state && (Object.values(ListingState) as string[]).includes(filters.listing_state)) {
+        whereClause.listing_state = filters.listing_state;
+      }
+      if (filters.search) {
+        whereClause[Op.or] = [
+          { title: { [Op.like]: `%${filters.search}%` } },
+          { city: { [Op.like]: `%${filters.search}%` } },
+          { address: { [Op.like]: `%${filters.search}%` } },
+        ];
+      }
+    }
+
+    return whereClause;
+  }
+
+  private toPropertyModerationData = (property: any): PropertyModerationData => ({
+    id: property.id,
+    title: property.title,
+    property_type: property.property_type,      // Fixed: snake_case
+    listing_type: property.listing_type,        // Fixed: snake_case
+    price: property.price,
+    city: property.city,
+    is_active: property.is_active,              // Fixed: snake_case
+    is_featured: property.is_featured,          // Fixed: snake_case
+    listing_state: property.listing_state,
+    publish_at: property.publish_at || null,
+    rejection_reason: property.rejection_reason || null,
+    views_count: property.views_count || 0,     // Fixed: snake_case
+    created_at: property.created_at,            // Fixed: snake_case
+    owner: property.owner,  // FIXED: Map 'owner' association correctly for frontend
+  });
+
   /**
    * Update user status - FIXED with correct column names
    */
@@ -362,20 +433,35 @@ class AdminService {
 
   /**
    * Update property status - FIXED with correct column names
+   * Activating publishes an approved or scheduled listing and deactivating archives it,
+   * both through the listing workflow so the change is audited.
    */
   async updatePropertyStatus(
     propertyId: number,
     updates: {
       is_active?: boolean;     // Fixed: snake_case
       is_featured?: boolean;   // Fixed: snake_case
-    }
+    },
+    adminId: number
   ): Promise<Property> {
     const property = await Property.findByPk(propertyId);
     if (!property) {
       throw new Error('Property not found');
     }
 
-    await property.update(updates);
+    if (updates.is_active !== undefined && updates.is_active !== property.is_active) {
+      await this.lifecycleService.transition(
+        propertyId,
+        updates.is_active ? 'publish' : 'archive',
+        { userId: adminId, role: UserRole.ADMIN }
+      );
+      await property.reload();
+    }
+
+    if (updates.is_featured !== undefined) {
+      await property.update({ is_featured: updates.is_featured });
+    }
+
     return property;
   }
 
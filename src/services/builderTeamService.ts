@@ -0,0 +1,276 @@
+import crypto from 'crypto';
+import { Op, UniqueConstraintError } from 'sequelize';
+import { Project } from '../models/Project';
+import { User } from '../models/User';
+import {
+    BuilderTeamMember,
+    BuilderTeamMemberStatus,
+    BuilderTeamRole,
+    ProjectPermission,
+    TEAM_ROLE_PERMISSIONS,
+} from '../models/BuilderTeamMember';
+import emailService from './emailService';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../utils/errorResponse';
+
+export interface TeamMemberInput {
+    role: BuilderTeamRole;
+    // Omitted or null for all of the builder's projects, including ones created later
+    project_ids?: number[] | null;
+}
+
+export interface TeamInvitationInput extends TeamMemberInput {
+    email: string;
+}
+
+export interface TeamMemberDetails {
+    id: number;
+    email: string;
+    name: string | null;
+    user_id: number | null;
+    role: BuilderTeamRole;
+    permissions: ProjectPermission[];
+    project_ids: number[] | null;
+    status: BuilderTeamMemberStatus;
+    invite_expires_at: Date | null;
+    accepted_at: Date | null;
+    created_at: Date;
+}
+
+export interface TeamMembership {
+    id: number;
+    builder: { id: number; name: string; email: string };
+    role: BuilderTeamRole;
+    permissions: ProjectPermission[];
+    projects: Array<{ id: number; name: string }>;
+    all_projects: boolean;
+    accepted_at: Date | null;
+}
+
+export const TEAM_ROLE_LABELS: Record<BuilderTeamRole, string> = {
+    [BuilderTeamRole.SALES]: 'Sales',
+    [BuilderTeamRole.INVENTORY_MANAGER]: 'Inventory Manager',
+    [BuilderTeamRole.MARKETING]: 'Marketing',
+};
+
+// How long an emailed invitation can be accepted for
+const INVITATION_TTL_DAYS = 7;
+
+// Only a hash of the invitation token is stored
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+const fullName = (user: Pick<User, 'first_name' | 'last_name'>): string => `${user.first_name} ${user.last_name}`.trim();
+
+/**
+ * A builder account's team: staff invited by email, each with a role and optionally limited to
+ * some of the builder's projects. What a role allows is enforced by ProjectAccessService.
+ */
+class BuilderTeamService {
+    async getMembers(builderId: number): Promise<TeamMemberDetails[]> {
+        const members = await BuilderTeamMember.findAll({
+            where: { builder_id: builderId },
+            order: [['status', 'ASC'], ['email', 'ASC']],
+        });
+        const users = await User.findAll({
+            where: { id: members.map(member => member.user_id).filter((id): id is number => !!id) },
+            attributes: ['id', 'first_name', 'last_name'],
+        });
+        const usersById = new Map(users.map(user => [user.id, user]));
+
+        return members.map(member => this.toDetails(member, member.user_id ? usersById.get(member.user_id) : undefined));
+    }
+
+    /**
+     * Invite someone by email. Inviting an address with a pending invitation sends a fresh one
+     * with the new role and projects.
+     */
+    async inviteMember(builderId: number, input: TeamInvitationInput): Promise<TeamMemberDetails> {
+        const builder = await User.findByPk(builderId);
+        if (!builder) {
+            throw new NotFoundError('Builder not found');
+        }
+
+        const email = input.email.trim().toLowerCase();
+        if (email === builder.email.toLowerCase()) {
+            throw new ValidationError('You cannot invite yourself to your own team');
+        }
+        const projectIds = await this.validateProjects(builderId, input.project_ids);
+
+        const token = crypto.randomBytes(32).toString('hex');
+        const invitation = {
+            role: input.role,
+            project_ids: projectIds,
+            invite_token_hash: hashToken(token),
+            invite_expires_at: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+            invited_by: builderId,
+        };
+
+        let member = await BuilderTeamMember.findOne({ where: { builder_id: builderId, email } });
+        if (member?.status === BuilderTeamMemberStatus.ACTIVE) {
+            throw new ConflictError('This person is already on your team');
+        }
+
+        try {
+            member = member
+                ? await member.update(invitation)
+                : await BuilderTeamMember.create({ builder_id: builderId, email, ...invitation });
+        } catch (error) {
+            if (error instanceof UniqueConstraintError) {
+                throw new ConflictError('This person has already been invited');
+            }
+            throw error;
+        }
+
+        const projectNames = projectIds
+            ? (await Project.findAll({ where: { id: projectIds }, attributes: ['name'], order: [['name', 'ASC']] })).map(project => project.name)
+            : null;
+
+        emailService.sendTeamInvitation(email, {
+            builderName: fullName(builder),
+            roleLabel: TEAM_ROLE_LABELS[input.role],
+            projectNames,
+            acceptUrl: `${process.env.FRONTEND_URL}/builder/team/accept?token=${token}`,
+            expirationDays: INVITATION_TTL_DAYS,
+        }).catch(error => console.error(`Failed to send team invitation ${member!.id}:`, error));
+
+        return this.toDetails(member);
+    }
+
+    /**
+     * Change a member's role or the projects they work on. Takes effect on their next request.
+     */
+    async updateMember(builderId: number, memberId: number, input: TeamMemberInput): Promise<TeamMemberDetails> {
+        const member = await this.getMember(builderId, memberId);
+        const projectIds = await this.validateProjects(builderId, input.project_ids);
+
+        await member.update({ role: input.role, project_ids: projectIds });
+
+        const user = member.user_id ? await User.findByPk(member.user_id, { attributes: ['id', 'first_name', 'last_name'] }) : null;
+        return this.toDetails(member, user || undefined);
+    }
+
+    /**
+     * Remove a member or withdraw a pending invitation. They lose access straight away.
+     */
+    async removeMember(builderId: number, memberId: number): Promise<void> {
+        const member = await this.getMember(builderId, memberId);
+        await member.destroy();
+    }
+
+    /**
+     * Join a team with an emailed invitation. The signed-in account must use the invited address.
+     */
+    async acceptInvitation(token: string, userId: number): Promise<TeamMembership> {
+        const member = await BuilderTeamMember.findOne({
+            where: {
+                invite_token_hash: hashToken(token),
+                status: BuilderTeamMemberStatus.INVITED,
+                invite_expires_at: { [Op.gt]: new Date() },
+            },
+        });
+        if (!member) {
+            throw new NotFoundError('Invitation not found or expired');
+        }
+
+        const user = await User.findByPk(userId);
+        if (!user || user.email.toLowerCase() !== member.email) {
+            throw new AuthorizationError('This invitation was sent to a different email address');
+        }
+
+        await member.update({
+            user_id: userId,
+            status: BuilderTeamMemberStatus.ACTIVE,
+            invite_token_hash: null,
+            invite_expires_at: null,
+            accepted_at: new Date(),
+        });
+
+        const [membership] = await this.toMemberships([member]);
+        return membership;
+    }
+
+    /**
+     * Teams the user works on, with the projects each one covers
+     */
+    async getMemberships(userId: number): Promise<TeamMembership[]> {
+        const members = await BuilderTeamMember.findAll({
+            where: { user_id: userId, status: BuilderTeamMemberStatus.ACTIVE },
+            order: [['accepted_at', 'ASC']],
+        });
+        return this.toMemberships(members);
+    }
+
+    private async toMemberships(members: BuilderTeamMember[]): Promise<TeamMembership[]> {
+        const builderIds = Array.from(new Set(members.map(member => member.builder_id)));
+        const [builders, projects] = await Promise.all([
+            User.findAll({ where: { id: builderIds }, attributes: ['id', 'first_name', 'last_name', 'email'] }),
+            Project.findAll({ where: { builder_id: builderIds }, attributes: ['id', 'name', 'builder_id'], order: [['name', 'ASC']] }),
+        ]);
+        const buildersById = new Map(builders.map(builder => [builder.id, builder]));
+
+        return members.map(member => {
+            const builder = buildersById.get(member.builder_id);
+            return {
+                id: member.id,
+                builder: {
+                    id: member.builder_id,
+                    name: builder ? fullName(builder) : '',
+                    email: builder?.email || '',
+                },
+                role: member.role,
+                permissions: TEAM_ROLE_PERMISSIONS[member.role],
+                projects: projects
+                    .filter(project => project.builder_id === member.builder_id)
+                    .filter(project => !member.project_ids || member.project_ids.includes(project.id))
+                    .map(project => ({ id: project.id, name: project.name })),
+                all_projects: !member.project_ids,
+                accepted_at: member.accepted_at || null,
+            };
+        });
+    }
+
+    /**
+     * Project ids a member is limited to, checked against the builder's own projects
+     */
+    private async validateProjects(builderId: number, projectIds?: number[] | null): Promise<number[] | null> {
+        if (!projectIds) {
+            return null;
+        }
+
+        const ids = Array.from(new Set(projectIds));
+        if (ids.length === 0) {
+            throw new ValidationError('Choose at least one project, or give access to all projects');
+        }
+
+        const owned = await Project.count({ where: { id: ids, builder_id: builderId } });
+        if (owned !== ids.length) {
+            throw new ValidationError('Members can only be given access to your own projects');
+        }
+        return ids.sort((a, b) => a - b);
+    }
+
+    private async getMember(builderId: number, memberId: number): Promise<BuilderTeamMember> {
+        const member = await BuilderTeamMember.findOne({ where: { id: memberId, builder_id: builderId } });
+        if (!member) {
+            throw new NotFoundError('Team member not found');
+        }
+        return member;
+    }
+
+    private toDetails(member: BuilderTeamMember, user?: Pick<User, 'first_name' | 'last_name'>): TeamMemberDetails {
+        return {
+            id: member.id,
+            email: member.email,
+            name: user ? fullName(user) : null,
+            user_id: member.user_id || null,
+            role: member.role,
+            permissions: TEAM_ROLE_PERMISSIONS[member.role],
+            project_ids: member.project_ids || null,
+            status: member.status,
+            invite_expires_at: member.invite_expires_at || null,
+            accepted_at: member.accepted_at || null,
+            created_at: member.created_at,
+        };
+    }
+}
+
+export default BuilderTeamService;
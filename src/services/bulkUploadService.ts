@@ -25,6 +25,7 @@ interface BulkUploadProgress {
   successfulRows: number;
   failedRows: number;
   errors: { row: number; message: string; data: any }[];
+  warnings: { row: number; message: string; propertyId: number }[]; // Rows created but flagged as possible duplicates
   startedAt: Date;
   completedAt?: Date;
   errorReportPath?: string;
@@ -82,6 +83,7 @@ export class BulkUploadService {
       successfulRows: 0,
       failedRows: 0,
       errors: [],
+      warnings: [],
       startedAt: new Date(),
     };
 
@@ -156,15 +158,26 @@ export class BulkUploadService {
           throw new Error(`Invalid property_type: ${propertyData.propertyType}`);
         }
 
+        // Rows already created from this file are existing listings by now, so repeats within the file are caught too
         const propertyService = new PropertyService();
-        await propertyService.createProperty(userId, propertyData);
+        const { property, duplicateWarnings } = await propertyService.createProperty(userId, propertyData, 'bulk_upload');
         progress.successfulRows++;
+
+        if (duplicateWarnings.length > 0) {
+          progress.warnings.push({
+            row: i + 2,
+            message: `Possible duplicate of ${duplicateWarnings.map(match => `#${match.propertyId}`).join(', ')}; flagged for review.`,
+            propertyId: property.id,
+          });
+        }
       } catch (error: any) {
         console.error(`Error processing row ${i+2}:`, error);
         progress.failedRows++;
         progress.errors.push({
           row: i + 2, // CSV rows are 1-based, +1 for header
-          message: error.message || 'An unknown error occurred.',
+          message: error.code === 'DUPLICATE_LISTING'
+            ? `Duplicate listing${error.details?.matches?.length ? ` of ${error.details.matches.map((match: any) => `#${match.propertyId}`).join(', ')}` : ''}; not created.`
+            : error.message || 'An unknown error occurred.',
           data: row,
         });
       }
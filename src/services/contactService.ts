@@ -0,0 +1,427 @@
+import { Op, Transaction, UniqueConstraintError, WhereOptions, literal } from 'sequelize';
+import sequelize from '../config/database';
+import { Contact } from '../models/Contact';
+import { ContactIdentifier, ContactIdentifierType } from '../models/ContactIdentifier';
+import { Inquiry, InquiryStatus, LeadSource, LeadStage } from '../models/Inquiry';
+import { Property } from '../models/Property';
+import { Project } from '../models/Project';
+import {
+    BuilderTeamMember,
+    BuilderTeamMemberStatus,
+    ProjectPermission,
+    TEAM_ROLE_PERMISSIONS,
+} from '../models/BuilderTeamMember';
+import { normalizeEmail, normalizePhone } from '../utils/contactIdentity';
+import { NotFoundError, ValidationError } from '../utils/errorResponse';
+
+export interface ContactSummary {
+    id: number;
+    name: string;
+    email: string | null;
+    phone: string | null;
+    // Every email and phone the contact has inquired with
+    emails: string[];
+    phones: string[];
+    inquiry_count: number;
+    last_inquiry_at: Date | null;
+    created_at: Date;
+}
+
+export interface ContactInquiry {
+    id: number;
+    listing: { type: 'property' | 'project'; id: number; title: string; city: string } | null;
+    name: string;
+    email: string;
+    phone: string | null;
+    message: string;
+    source: LeadSource;
+    status: InquiryStatus;
+    stage: LeadStage;
+    score: number | null;
+    assigned_to: number | null;
+    created_at: Date;
+}
+
+export interface ContactDetail extends ContactSummary {
+    // Newest first, across the owner's properties and projects
+    inquiries: ContactInquiry[];
+    possible_duplicates: ContactSummary[];
+}
+
+export interface ContactListFilters {
+    search?: string;
+    page?: number;
+    limit?: number;
+}
+
+type IdentifierValue = { type: ContactIdentifierType; value: string };
+
+// Unlinked inquiries linked per contacts request, oldest first, so existing leads catch up over a few visits
+const MAX_BACKFILL_INQUIRIES = 200;
+const MAX_POSSIBLE_DUPLICATES = 10;
+
+const INQUIRY_COUNT = literal('(SELECT COUNT(*) FROM inquiries WHERE inquiries.contact_id = Contact.id)');
+
+/**
+ * Groups each listing owner's inquiries by the person who made them. Inquiries are matched to a
+ * contact by normalised email, then phone; anything that only looks alike (the same name, or a
+ * phone already on another contact) is left for the owner's team to merge by hand.
+ */
+class ContactService {
+    /**
+     * Link an inquiry to its owner's contact for the inquirer, creating the contact if need be
+     */
+    async linkInquiry(inquiryId: number): Promise<Contact | null> {
+        const inquiry = await Inquiry.findByPk(inquiryId);
+        if (!inquiry) {
+            return null;
+        }
+
+        const ownerId = await this.getOwnerId(inquiry);
+        return ownerId ? this.linkToOwner(inquiry, ownerId) : null;
+    }
+
+    /**
+     * Link the owner's inquiries made before contacts existed, or whose linking failed
+     */
+    async linkUnlinkedInquiries(ownerId: number): Promise<number> {
+        const inquiries = await Inquiry.findAll({
+            where: {
+                contact_id: null,
+                [Op.or]: [{ '$property.user_id$': ownerId }, { '$project.builder_id$': ownerId }],
+            },
+            include: [
+                { model: Property, as: 'property', attributes: ['id', 'user_id'], required: false },
+                { model: Project, as: 'project', attributes: ['id', 'builder_id'], required: false },
+            ],
+            order: [['created_at', 'ASC']],
+            limit: MAX_BACKFILL_INQUIRIES,
+            subQuery: false,
+        });
+
+        for (const inquiry of inquiries) {
+            await this.linkToOwner(inquiry, ownerId);
+        }
+
+        return inquiries.length;
+    }
+
+    async getContacts(userId: number, filters: ContactListFilters = {}): Promise<{
+        contacts: ContactSummary[];
+        total: number;
+        page: number;
+        totalPages: number;
+    }> {
+        const { page = 1, limit = 20 } = filters;
+        const ownerIds = await this.getOwnerIds(userId);
+        for (const ownerId of ownerIds) {
+            await this.linkUnlinkedInquiries(ownerId);
+        }
+
+        const conditions: WhereOptions[] = [{ owner_id: ownerIds }];
+        const search = filters.search?.trim();
+        if (search) {
+            conditions.push({ [Op.or]: await this.searchConditions(ownerIds, search) });
+        }
+
+        const { rows, count: total } = await Contact.findAndCountAll({
+            where: { [Op.and]: conditions },
+            attributes: { include: [[INQUIRY_COUNT, 'inquiry_count']] },
+            order: [['last_inquiry_at', 'DESC'], ['id', 'DESC']],
+            limit,
+            offset: (page - 1) * limit,
+        });
+
+        return {
+            contacts: await this.toSummaries(rows),
+            total,
+            page,
+            totalPages: Math.ceil(total / limit),
+        };
+    }
+
+    /**
+     * A contact with all their inquiries and the contacts that may be the same person
+     */
+    async getContact(contactId: number, userId: number): Promise<ContactDetail> {
+        const contact = await this.findAccessibleContact(contactId, userId);
+
+        const inquiries = await Inquiry.findAll({
+            where: { contact_id: contact.id },
+            include: [
+                { model: Property, as: 'property', attributes: ['id', 'title', 'city'], required: false },
+                { model: Project, as: 'project', attributes: ['id', 'name', 'city'], required: false },
+            ],
+            order: [['created_at', 'DESC']],
+        });
+
+        const [summary] = await this.toSummaries([contact]);
+        return {
+            ...summary,
+            inquiries: inquiries.map(inquiry => this.toContactInquiry(inquiry)),
+            possible_duplicates: await this.findPossibleDuplicates(contact, inquiries),
+        };
+    }
+
+    /**
+     * Fold duplicate contacts into one. Their emails, phones and inquiries move to the contact
+     * kept, and the duplicates are deleted.
+     */
+    async mergeContacts(contactId: number, duplicateIds: number[], userId: number): Promise<ContactDetail> {
+        const mergedIds = Array.from(new Set(duplicateIds));
+        if (mergedIds.length === 0) {
+            throw new ValidationError('Choose at least one contact to merge');
+        }
+        if (mergedIds.includes(contactId)) {
+            throw new ValidationError('A contact cannot be merged into itself');
+        }
+
+        const ownerIds = await this.getOwnerIds(userId);
+
+        await sequelize.transaction(async (transaction) => {
+            const contacts = await Contact.findAll({
+                where: { id: [contactId, ...mergedIds], owner_id: ownerIds },
+                transaction,
+                lock: Transaction.LOCK.UPDATE,
+            });
+            const target = contacts.find(contact => contact.id === contactId);
+            if (!target || contacts.length !== mergedIds.length + 1) {
+                throw new NotFoundError('Contact not found');
+            }
+            if (contacts.some(contact => contact.owner_id !== target.owner_id)) {
+                throw new ValidationError('Only contacts of the same account can be merged');
+            }
+
+            const duplicates = contacts.filter(contact => contact.id !== contactId);
+            await ContactIdentifier.update({ contact_id: target.id }, { where: { contact_id: mergedIds }, transaction });
+            await Inquiry.update({ contact_id: target.id }, { where: { contact_id: mergedIds }, transaction });
+
+            // The contact kept shows the most recent inquiry's details
+            const latest = [target, ...duplicates].reduce((newest, contact) =>
+                (contact.last_inquiry_at?.getTime() ?? 0) > (newest.last_inquiry_at?.getTime() ?? 0) ? contact : newest);
+            await target.update({
+                name: latest.name,
+                email: latest.email ?? target.email ?? null,
+                phone: latest.phone ?? target.phone ?? duplicates.find(contact => contact.phone)?.phone ?? null,
+                last_inquiry_at: latest.last_inquiry_at ?? null,
+            }, { transaction });
+
+            await Contact.destroy({ where: { id: mergedIds }, transaction });
+        });
+
+        return this.getContact(contactId, userId);
+    }
+
+    /**
+     * The accounts whose contacts the user may see and merge: their own, and those of the
+     * builders and agencies they handle sales for across every project
+     */
+    async getOwnerIds(userId: number): Promise<number[]> {
+        const memberships = await BuilderTeamMember.findAll({
+            where: { user_id: userId, status: BuilderTeamMemberStatus.ACTIVE },
+        });
+
+        return Array.from(new Set([
+            userId,
+            ...memberships
+                .filter(member => !member.project_ids && TEAM_ROLE_PERMISSIONS[member.role].includes(ProjectPermission.MANAGE_SALES))
+                .map(member => member.builder_id),
+        ]));
+    }
+
+    private async linkToOwner(inquiry: Inquiry, ownerId: number): Promise<Contact> {
+        try {
+            return await this.link(inquiry, ownerId);
+        } catch (error) {
+            // Another inquiry added the same email or phone at the same time; the retry finds its contact
+            if (error instanceof UniqueConstraintError) {
+                return this.link(inquiry, ownerId);
+            }
+            throw error;
+        }
+    }
+
+    private async link(inquiry: Inquiry, ownerId: number): Promise<Contact> {
+        const email = normalizeEmail(inquiry.email);
+        const phone = normalizePhone(inquiry.phone);
+        const identifiers: IdentifierValue[] = [
+            ...(email ? [{ type: ContactIdentifierType.EMAIL, value: email }] : []),
+            ...(phone ? [{ type: ContactIdentifierType.PHONE, value: phone }] : []),
+        ];
+
+        return sequelize.transaction(async (transaction) => {
+            const existing = identifiers.length > 0
+                ? await ContactIdentifier.findAll({ where: { owner_id: ownerId, [Op.or]: identifiers }, transaction })
+                : [];
+
+            // An email match wins over a phone match. A phone already on another contact stays there
+            // until the two are merged.
+            const match = existing.find(identifier => identifier.type === ContactIdentifierType.EMAIL) || existing[0];
+            let contact = match
+                ? await Contact.findByPk(match.contact_id, { transaction, lock: Transaction.LOCK.UPDATE })
+                : null;
+
+            if (!contact) {
+                contact = await Contact.create({
+                    owner_id: ownerId,
+                    name: inquiry.name,
+                    email,
+                    phone,
+                    last_inquiry_at: inquiry.created_at,
+                }, { transaction });
+            } else if (!contact.last_inquiry_at || inquiry.created_at >= contact.last_inquiry_at) {
+                await contact.update({
+                    name: inquiry.name,
+                    email: email ?? contact.email ?? null,
+                    phone: phone ?? contact.phone ?? null,
+                    last_inquiry_at: inquiry.created_at,
+                }, { transaction });
+            }
+
+            const added = identifiers.filter(identifier =>
+                !existing.some(known => known.type === identifier.type && known.value === identifier.value));
+            if (added.length > 0) {
+                await ContactIdentifier.bulkCreate(
+                    added.map(identifier => ({ ...identifier, contact_id: contact!.id, owner_id: ownerId })),
+                    { transaction }
+                );
+            }
+
+            // A plain update, so the inquiry's validation hooks don't run on the whole row
+            await Inquiry.update({ contact_id: contact.id }, { where: { id: inquiry.id }, transaction });
+            return contact;
+        });
+    }
+
+    private async getOwnerId(inquiry: Inquiry): Promise<number | null> {
+        if (inquiry.property_id) {
+            const property = await Property.findByPk(inquiry.property_id, { attributes: ['id', 'user_id'] });
+            return property?.user_id ?? null;
+        }
+
+        const project = inquiry.project_id
+            ? await Project.findByPk(inquiry.project_id, { attributes: ['id', 'builder_id'] })
+            : null;
+        return project?.builder_id ?? null;
+    }
+
+    private async findAccessibleContact(contactId: number, userId: number): Promise<Contact> {
+        const contact = await Contact.findOne({
+            where: { id: contactId, owner_id: await this.getOwnerIds(userId) },
+            attributes: { include: [[INQUIRY_COUNT, 'inquiry_count']] },
+        });
+        if (!contact) {
+            throw new NotFoundError('Contact not found');
+        }
+        return contact;
+    }
+
+    // Names, or any email or phone the contact has used
+    private async searchConditions(ownerIds: number[], search: string): Promise<WhereOptions[]> {
+        const values = [search.toLowerCase()];
+        const digits = search.replace(/\D/g, '');
+        if (digits.length >= 4 && digits !== search) {
+            values.push(digits);
+        }
+
+        const matches = await ContactIdentifier.findAll({
+            where: {
+                owner_id: ownerIds,
+                [Op.or]: values.map(value => ({ value: { [Op.like]: `%${value}%` } })),
+            },
+            attributes: ['contact_id'],
+        });
+
+        return [
+            { name: { [Op.like]: `%${search}%` } },
+            { id: Array.from(new Set(matches.map(match => match.contact_id))) },
+        ];
+    }
+
+    /**
+     * Other contacts of the same owner with the same name, or holding an email or phone
+     * one of this contact's inquiries was made with
+     */
+    private async findPossibleDuplicates(contact: Contact, inquiries: Inquiry[]): Promise<ContactSummary[]> {
+        const used: IdentifierValue[] = [];
+        inquiries.forEach(inquiry => {
+            const email = normalizeEmail(inquiry.email);
+            const phone = normalizePhone(inquiry.phone);
+            if (email) used.push({ type: ContactIdentifierType.EMAIL, value: email });
+            if (phone) used.push({ type: ContactIdentifierType.PHONE, value: phone });
+        });
+
+        const shared = used.length > 0
+            ? await ContactIdentifier.findAll({
+                where: { owner_id: contact.owner_id, contact_id: { [Op.ne]: contact.id }, [Op.or]: used },
+                attributes: ['contact_id'],
+            })
+            : [];
+
+        const duplicates = await Contact.findAll({
+            where: {
+                owner_id: contact.owner_id,
+                id: { [Op.ne]: contact.id },
+                [Op.or]: [
+                    // Names compare case-insensitively under the table's collation
+                    { name: contact.name },
+                    { id: Array.from(new Set(shared.map(identifier => identifier.contact_id))) },
+                ],
+            },
+            attributes: { include: [[INQUIRY_COUNT, 'inquiry_count']] },
+            order: [['last_inquiry_at', 'DESC']],
+            limit: MAX_POSSIBLE_DUPLICATES,
+        });
+
+        return this.toSummaries(duplicates);
+    }
+
+    private async toSummaries(contacts: Contact[]): Promise<ContactSummary[]> {
+        const identifiers = contacts.length > 0
+            ? await ContactIdentifier.findAll({
+                where: { contact_id: contacts.map(contact => contact.id) },
+                order: [['created_at', 'ASC']],
+            })
+            : [];
+
+        return contacts.map(contact => {
+            const own = identifiers.filter(identifier => identifier.contact_id === contact.id);
+            return {
+                id: contact.id,
+                name: contact.name,
+                email: contact.email ?? null,
+                phone: contact.phone ?? null,
+                emails: own.filter(identifier => identifier.type === ContactIdentifierType.EMAIL).map(identifier => identifier.value),
+                phones: own.filter(identifier => identifier.type === ContactIdentifierType.PHONE).map(identifier => identifier.value),
+                inquiry_count: Number(contact.get('inquiry_count') ?? 0),
+                last_inquiry_at: contact.last_inquiry_at ?? null,
+                created_at: contact.created_at,
+            };
+        });
+    }
+
+    private toContactInquiry(inquiry: Inquiry): ContactInquiry {
+        const listing = inquiry.property
+            ? { type: 'property' as const, id: inquiry.property.id, title: inquiry.property.title, city: inquiry.property.city }
+            : inquiry.project
+                ? { type: 'project' as const, id: inquiry.project.id, title: inquiry.project.name, city: inquiry.project.city }
+                : null;
+
+        return {
+            id: inquiry.id,
+            listing,
+            name: inquiry.name,
+            email: inquiry.email,
+            phone: inquiry.phone || null,
+            message: inquiry.message,
+            source: inquiry.source,
+            status: inquiry.status,
+            stage: inquiry.stage,
+            score: inquiry.score ?? null,
+            assigned_to: inquiry.assigned_to ?? null,
+            created_at: inquiry.created_at,
+        };
+    }
+}
+
+export default ContactService;
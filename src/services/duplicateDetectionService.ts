@@ -0,0 +1,406 @@
+import { Op, Transaction, literal } from 'sequelize';
+import config from '../config';
+import { Property, PropertyType, ListingType, ListingState } from '../models/Property';
+import { PropertyImage } from '../models/PropertyImage';
+import { User } from '../models/User';
+import { UserRole } from '../types';
+import {
+    PropertyDuplicateFlag,
+    DuplicateFlagSource,
+    DuplicateFlagStatus,
+    DuplicateSignals,
+} from '../models/PropertyDuplicateFlag';
+import ListingLifecycleService from './listingLifecycleService';
+import { getBoundingBox } from '../utils/geoUtils';
+import { canTransition } from '../utils/listingLifecycle';
+import { NotFoundError, ValidationError } from '../utils/errorResponse';
+import {
+    DuplicateCandidate,
+    MAX_IMAGE_HASH_DISTANCE,
+    compareListings,
+    scoreDuplicate,
+} from '../utils/duplicateScoring';
+
+export interface DuplicateCheckInput extends DuplicateCandidate {
+    propertyType: PropertyType;
+    listingType: ListingType;
+}
+
+export interface DuplicateMatch {
+    propertyId: number;
+    ownerId: number;
+    title: string;
+    address: string;
+    city: string;
+    price: number;
+    listingState: ListingState;
+    score: number;
+    signals: DuplicateSignals;
+}
+
+export interface DuplicateAssessment {
+    decision: 'allow' | 'warn' | 'block';
+    matches: DuplicateMatch[]; // Best first, at or above the warn threshold
+}
+
+export interface DuplicateCluster {
+    clusterId: number; // Lowest property id in the cluster
+    maxScore: number;
+    properties: Property[];
+    flags: PropertyDuplicateFlag[];
+}
+
+// Candidates are listings of the same type in the same city or within this radius
+const CANDIDATE_RADIUS_KM = 1;
+const MAX_CANDIDATES = 200;
+const MAX_CLUSTER_FLAGS = 500;
+
+const HASH_PATTERN = /^[0-9a-f]{16}$/;
+
+const CLUSTER_PROPERTY_ATTRIBUTES = [
+    'id', 'user_id', 'title', 'property_type', 'listing_type', 'price', 'area_sqft', 'bedrooms',
+    'address', 'city', 'postal_code', 'listing_state', 'is_active', 'created_at',
+];
+
+/**
+ * Scores new and existing listings against each other by address, location, price, area and photos,
+ * and keeps the suspected duplicates for admins to review as clusters
+ */
+class DuplicateDetectionService {
+    private lifecycleService: ListingLifecycleService;
+
+    constructor() {
+        this.lifecycleService = new ListingLifecycleService();
+    }
+
+    /**
+     * Score a listing against similar existing ones and decide whether to allow, warn or block it.
+     * A high score alone only warns: units in one building share an address, location and often
+     * a price, so blocking also needs matching photos or the owner listing the exact same address twice.
+     */
+    async assess(input: DuplicateCheckInput, ownerId: number, excludePropertyId?: number): Promise<DuplicateAssessment> {
+        const matches = await this.findMatches(input, excludePropertyId);
+        const bestScore = matches[0]?.score ?? 0;
+
+        const blocking = matches.some(match =>
+            match.score >= config.duplicates.blockThreshold && this.canBlock(match, ownerId)
+        );
+
+        return {
+            decision: blocking ? 'block' : bestScore >= config.duplicates.warnThreshold ? 'warn' : 'allow',
+            matches,
+        };
+    }
+
+    /**
+     * Existing listings scoring at or above the warn threshold, best first
+     */
+    async findMatches(input: DuplicateCheckInput, excludePropertyId?: number): Promise<DuplicateMatch[]> {
+        const nearby: any[] = [{ city: input.city }];
+        if (input.latitude !== null && input.latitude !== undefined && input.longitude !== null && input.longitude !== undefined) {
+            const box = getBoundingBox({ latitude: Number(input.latitude), longitude: Number(input.longitude) }, CANDIDATE_RADIUS_KM);
+            nearby.push({
+                latitude: { [Op.between]: [box.minLatitude, box.maxLatitude] },
+                longitude: { [Op.between]: [box.minLongitude, box.maxLongitude] },
+            });
+        }
+
+        const where: any = {
+            property_type: input.propertyType,
+            listing_type: input.listingType,
+            listing_state: { [Op.ne]: ListingState.ARCHIVED },
+            [Op.or]: nearby,
+        };
+        if (excludePropertyId) {
+            where.id = { [Op.ne]: excludePropertyId };
+        }
+
+        const candidates = await Property.findAll({
+            where,
+            attributes: CLUSTER_PROPERTY_ATTRIBUTES.concat(['latitude', 'longitude']),
+            include: [
+                {
+                    model: PropertyImage,
+                    as: 'images',
+                    attributes: ['id', 'perceptual_hash'],
+                    where: { perceptual_hash: { [Op.ne]: null } },
+                    required: false,
+                },
+            ],
+            order: [['created_at', 'DESC']],
+            limit: MAX_CANDIDATES,
+        });
+
+        return candidates
+            .map(candidate => this.toMatch(input, candidate))
+            .filter(match => match.score >= config.duplicates.warnThreshold)
+            .sort((a, b) => b.score - a.score);
+    }
+
+    /**
+     * Keep the suspected duplicates of a listing for admin review. Re-checking a pair updates
+     * its score but keeps an admin's earlier decision.
+     */
+    async recordFlags(
+        propertyId: number,
+        matches: DuplicateMatch[],
+        source: DuplicateFlagSource,
+        transaction?: Transaction
+    ): Promise<void> {
+        if (matches.length === 0) {
+            return;
+        }
+
+        await PropertyDuplicateFlag.bulkCreate(
+            matches.map(match => ({
+                // The newer listing is always the one flagged
+                property_id: Math.max(propertyId, match.propertyId),
+                duplicate_of_id: Math.min(propertyId, match.propertyId),
+                score: match.score,
+                signals: match.signals,
+                source,
+            })),
+            { updateOnDuplicate: ['score', 'signals', 'updated_at'], transaction }
+        );
+    }
+
+    /**
+     * Look for other listings using the same photos as this one and flag them.
+     * Runs after images are uploaded, since listings are created before their photos.
+     */
+    async checkImageDuplicates(propertyId: number): Promise<DuplicateMatch[]> {
+        const property = await Property.findByPk(propertyId, {
+            include: [{ model: PropertyImage, as: 'images', attributes: ['id', 'perceptual_hash'] }],
+        });
+        if (!property) {
+            return [];
+        }
+
+        const hashes = this.getImageHashes(property).filter(hash => HASH_PATTERN.test(hash));
+        if (hashes.length === 0) {
+            return [];
+        }
+
+        // Hashes are validated hex, so they can be inlined; BIT_COUNT of the XOR is the Hamming distance
+        const closeHash = hashes.map(hash =>
+            `BIT_COUNT(CAST(CONV(perceptual_hash, 16, 10) AS UNSIGNED) ^ CAST(CONV('${hash}', 16, 10) AS UNSIGNED)) <= ${MAX_IMAGE_HASH_DISTANCE}`
+        ).join(' OR ');
+
+        const similarImages = await PropertyImage.findAll({
+            where: {
+                property_id: { [Op.ne]: propertyId },
+                perceptual_hash: { [Op.ne]: null },
+                [Op.and]: [literal(`(${closeHash})`)],
+            },
+            attributes: ['property_id'],
+            group: ['property_id'],
+            limit: MAX_CANDIDATES,
+        });
+
+        if (similarImages.length === 0) {
+            return [];
+        }
+
+        const others = await Property.findAll({
+            where: {
+                id: { [Op.in]: similarImages.map(image => image.property_id) },
+                listing_state: { [Op.ne]: ListingState.ARCHIVED },
+            },
+            attributes: CLUSTER_PROPERTY_ATTRIBUTES.concat(['latitude', 'longitude']),
+            include: [{ model: PropertyImage, as: 'images', attributes: ['id', 'perceptual_hash'] }],
+        });
+
+        const input = this.toCheckInput(property);
+        const matches = others
+            .map(other => this.toMatch(input, other))
+            .filter(match => match.score >= config.duplicates.warnThreshold)
+            .sort((a, b) => b.score - a.score);
+
+        await this.recordFlags(propertyId, matches, 'image');
+        return matches;
+    }
+
+    /**
+     * Group flagged pairs into clusters of listings that all resemble each other, highest score first
+     */
+    async getClusters(status: DuplicateFlagStatus = 'pending'): Promise<DuplicateCluster[]> {
+        const propertyInclude = (as: string) => ({
+            model: Property,
+            as,
+            attributes: CLUSTER_PROPERTY_ATTRIBUTES,
+            include: [
+                {
+                    model: User,
+                    as: 'owner',
+                    attributes: ['id', 'first_name', 'last_name', 'email', 'role'],
+                },
+                {
+                    model: PropertyImage,
+                    as: 'images',
+                    attributes: ['id', 'image_url', 'thumbnail_url', 'is_primary', 'display_order'],
+                    required: false,
+                },
+            ],
+        });
+
+        const flags = await PropertyDuplicateFlag.findAll({
+            where: { status },
+            include: [propertyInclude('property'), propertyInclude('duplicateOf')],
+            order: [['score', 'DESC'], ['id', 'ASC']],
+            limit: MAX_CLUSTER_FLAGS,
+        });
+
+        // Union-find over property ids, so chains of pairs end up in one cluster
+        const parent = new Map<number, number>();
+        const find = (id: number): number => {
+            const root = parent.get(id) ?? id;
+            if (root === id) return id;
+            const resolved = find(root);
+            parent.set(id, resolved);
+            return resolved;
+        };
+        const union = (a: number, b: number) => {
+            const rootA = find(a);
+            const rootB = find(b);
+            if (rootA !== rootB) {
+                parent.set(Math.max(rootA, rootB), Math.min(rootA, rootB));
+            }
+        };
+
+        flags.forEach(flag => union(flag.property_id, flag.duplicate_of_id));
+
+        const clusters = new Map<number, DuplicateCluster>();
+        for (const flag of flags) {
+            const clusterId = find(flag.property_id);
+            const cluster = clusters.get(clusterId) || { clusterId, maxScore: 0, properties: [], flags: [] };
+
+            cluster.flags.push(flag);
+            cluster.maxScore = Math.max(cluster.maxScore, Number(flag.score));
+            for (const property of [flag.property, flag.duplicateOf] as Property[]) {
+                if (property && !cluster.properties.some(existing => existing.id === property.id)) {
+                    cluster.properties.push(property);
+                }
+            }
+
+            clusters.set(clusterId, cluster);
+        }
+
+        return Array.from(clusters.values())
+            .map(cluster => ({
+                ...cluster,
+                properties: cluster.properties.sort((a, b) => a.id - b.id),
+            }))
+            .sort((a, b) => b.maxScore - a.maxScore);
+    }
+
+    /**
+     * Resolve a cluster's flags. Dismissing marks them as not duplicates; confirming keeps one
+     * listing and takes the others down (archived, or rejected if still awaiting review).
+     * Returns the ids of the listings taken down.
+     */
+    async reviewFlags(
+        flagIds: number[],
+        decision: 'dismiss' | 'confirm',
+        adminId: number,
+        keepPropertyId?: number
+    ): Promise<number[]> {
+        const flags = await PropertyDuplicateFlag.findAll({
+            where: { id: { [Op.in]: flagIds }, status: 'pending' },
+        });
+
+        if (flags.length === 0) {
+            throw new NotFoundError('No pending duplicate flags found');
+        }
+
+        const propertyIds = Array.from(new Set(flags.flatMap(flag => [flag.property_id, flag.duplicate_of_id])));
+        const takenDown: number[] = [];
+
+        if (decision === 'confirm') {
+            if (!keepPropertyId || !propertyIds.includes(keepPropertyId)) {
+                throw new ValidationError('keepPropertyId must be one of the flagged listings');
+            }
+
+            const admin = { userId: adminId, role: UserRole.ADMIN };
+            const duplicates = await Property.findAll({
+                where: { id: { [Op.in]: propertyIds.filter(id => id !== keepPropertyId) } },
+                attributes: ['id', 'listing_state'],
+            });
+
+            for (const duplicate of duplicates) {
+                const reason = `Duplicate of listing #${keepPropertyId}`;
+                if (canTransition(duplicate.listing_state, 'archive', ['admin'])) {
+                    await this.lifecycleService.transition(duplicate.id, 'archive', admin, { reason });
+                    takenDown.push(duplicate.id);
+                } else if (canTransition(duplicate.listing_state, 'reject', ['admin'])) {
+                    await this.lifecycleService.transition(duplicate.id, 'reject', admin, { reason });
+                    takenDown.push(duplicate.id);
+                }
+            }
+        }
+
+        await PropertyDuplicateFlag.update(
+            {
+                status: decision === 'confirm' ? 'confirmed' : 'dismissed',
+                reviewed_by: adminId,
+                reviewed_at: new Date(),
+            },
+            { where: { id: { [Op.in]: flags.map(flag => flag.id) } } }
+        );
+
+        return takenDown;
+    }
+
+    private canBlock(match: DuplicateMatch, ownerId: number): boolean {
+        const ownListing = match.ownerId === ownerId;
+        // Other owners' unpublished listings are not disclosed, so they can't be the reason for a refusal
+        if (!ownListing && match.listingState !== ListingState.PUBLISHED) {
+            return false;
+        }
+
+        // Image similarity is above 0 only for photos within MAX_IMAGE_HASH_DISTANCE of each other
+        const samePhotos = match.signals.image !== null && match.signals.image > 0;
+        const sameAddressSameOwner = ownListing && match.signals.address === 1;
+        return samePhotos || sameAddressSameOwner;
+    }
+
+    private toMatch(input: DuplicateCheckInput, candidate: Property): DuplicateMatch {
+        const other = this.toCheckInput(candidate);
+        const signals = compareListings(input, other);
+
+        return {
+            propertyId: candidate.id,
+            ownerId: candidate.user_id,
+            title: candidate.title,
+            address: candidate.address,
+            city: candidate.city,
+            price: Number(candidate.price),
+            listingState: candidate.listing_state,
+            score: scoreDuplicate(signals, input, other),
+            signals,
+        };
+    }
+
+    private toCheckInput(property: Property): DuplicateCheckInput {
+        return {
+            propertyType: property.property_type,
+            listingType: property.listing_type,
+            address: property.address,
+            city: property.city,
+            postalCode: property.postal_code,
+            latitude: property.latitude,
+            longitude: property.longitude,
+            price: Number(property.price),
+            areaSqft: property.area_sqft,
+            bedrooms: property.bedrooms,
+            imageHashes: this.getImageHashes(property),
+        };
+    }
+
+    private getImageHashes(property: Property): string[] {
+        return ((property.images || []) as PropertyImage[])
+            .map(image => image.perceptual_hash)
+            .filter((hash): hash is string => Boolean(hash));
+    }
+}
+
+export default DuplicateDetectionService;
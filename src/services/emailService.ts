@@ -45,6 +45,74 @@ export interface SavedSearchMatchEmailData {
   ownerName: string;
 }
 
+export interface PriceDropAlertEmailData {
+  userName: string;
+  reason: 'favorite' | 'saved_search';
+  searchName?: string;
+  property: {
+    title: string;
+    previousPrice: number;
+    price: number;
+    dropPercent: number;
+    city: string;
+    state: string;
+    listingType: string;
+    url: string;
+  };
+}
+
+export interface ProjectUpdateEmailData {
+  userName: string;
+  project: {
+    name: string;
+    city: string;
+    url: string;
+  };
+  update: {
+    title: string;
+    typeLabel: string;
+    date: string;
+    description?: string | null;
+    progressPercent?: number | null;
+    photoCount: number;
+  };
+}
+
+export interface TeamInvitationEmailData {
+  builderName: string;
+  roleLabel: string;
+  projectNames: string[] | null;
+  acceptUrl: string;
+  expirationDays: number;
+}
+
+export interface LeadAssignedEmailData {
+  agentName: string;
+  inquirerName: string;
+  listingTitle: string;
+  message: string;
+  respondBy: string;
+  leadsUrl: string;
+}
+
+export interface LeadOverdueEmailData {
+  ownerName: string;
+  inquirerName: string;
+  listingTitle: string;
+  assigneeName: string | null;
+  dueAt: string;
+  leadsUrl: string;
+}
+
+export interface FollowUpReminderEmailData {
+  agentName: string;
+  inquirerName: string;
+  listingTitle: string;
+  note: string | null;
+  dueAt: string;
+  leadsUrl: string;
+}
+
 export interface VerificationOTPData {
   userName: string;
   otp: string;
@@ -169,6 +237,84 @@ class EmailService {
     }, 'saved_search_match');
   }
 
+  async sendPriceDropAlert(email: string, data: PriceDropAlertEmailData): Promise<void> {
+    const subject = `Price Drop: ${data.property.title}`;
+    const html = this.generatePriceDropAlertTemplate(data);
+    const text = this.generatePriceDropAlertText(data);
+
+    await this.sendEmail({
+      to: email,
+      subject,
+      html,
+      text,
+    }, 'price_drop_alert');
+  }
+
+  async sendProjectUpdateNotice(email: string, data: ProjectUpdateEmailData): Promise<void> {
+    const subject = `${data.update.typeLabel}: ${data.project.name}`;
+    const html = this.generateProjectUpdateTemplate(data);
+    const text = this.generateProjectUpdateText(data);
+
+    await this.sendEmail({
+      to: email,
+      subject,
+      html,
+      text,
+    }, 'project_update');
+  }
+
+  async sendTeamInvitation(email: string, data: TeamInvitationEmailData): Promise<void> {
+    const subject = `${data.builderName} invited you to their team - Real Estate Portal`;
+    const html = this.generateTeamInvitationTemplate(data);
+    const text = this.generateTeamInvitationText(data);
+
+    await this.sendEmail({
+      to: email,
+      subject,
+      html,
+      text,
+    }, 'team_invitation');
+  }
+
+  async sendLeadAssigned(email: string, data: LeadAssignedEmailData): Promise<void> {
+    const subject = `New lead: ${data.inquirerName} - ${data.listingTitle}`;
+    const html = this.generateLeadAssignedTemplate(data);
+    const text = this.generateLeadAssignedText(data);
+
+    await this.sendEmail({
+      to: email,
+      subject,
+      html,
+      text,
+    }, 'lead_assigned');
+  }
+
+  async sendLeadOverdue(email: string, data: LeadOverdueEmailData): Promise<void> {
+    const subject = `Lead awaiting response: ${data.inquirerName} - ${data.listingTitle}`;
+    const html = this.generateLeadOverdueTemplate(data);
+    const text = this.generateLeadOverdueText(data);
+
+    await this.sendEmail({
+      to: email,
+      subject,
+      html,
+      text,
+    }, 'lead_overdue');
+  }
+
+  async sendFollowUpReminder(email: string, data: FollowUpReminderEmailData): Promise<void> {
+    const subject = `Follow-up due: ${data.inquirerName} - ${data.listingTitle}`;
+    const html = this.generateFollowUpReminderTemplate(data);
+    const text = this.generateFollowUpReminderText(data);
+
+    await this.sendEmail({
+      to: email,
+      subject,
+      html,
+      text,
+    }, 'follow_up_reminder');
+  }
+
   async sendVerificationOTP(email: string, data: VerificationOTPData): Promise<void> {
     const subject = 'Email Verification Code - Real Estate Portal';
     const html = this.generateVerificationOTPTemplate(data);
@@ -546,6 +692,393 @@ This email was sent from Real Estate Portal because you have an active saved sea
     `;
   }
 
+  private getPriceDropReason(data: PriceDropAlertEmailData): string {
+    return data.reason === 'favorite'
+      ? 'a property in your favorites'
+      : `a property matching your saved search "${data.searchName}"`;
+  }
+
+  private generatePriceDropAlertTemplate(data: PriceDropAlertEmailData): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Price Drop Alert</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #059669; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background-color: #f9f9f9; }
+          .property-card { background: white; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #059669; }
+          .property-title { font-size: 18px; font-weight: bold; color: #2563eb; margin-bottom: 10px; }
+          .old-price { color: #999; text-decoration: line-through; }
+          .price { font-size: 20px; font-weight: bold; color: #059669; }
+          .btn { display: inline-block; background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; margin: 10px 0; }
+          .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>📉 Price Drop Alert</h1>
+          </div>
+          <div class="content">
+            <p>Hello ${data.userName}!</p>
+            <p>The price of ${this.getPriceDropReason(data)} has dropped by ${data.property.dropPercent}%.</p>
+
+            <div class="property-card">
+              <div class="property-title">${data.property.title}</div>
+              <div class="old-price">₹${data.property.previousPrice.toLocaleString()}</div>
+              <div class="price">₹${data.property.price.toLocaleString()}</div>
+              <p><strong>Location:</strong> ${data.property.city}, ${data.property.state}</p>
+              <a href="${data.property.url}" class="btn">View Property Details</a>
+            </div>
+
+            <p>You can manage your favorites and saved searches in your account dashboard.</p>
+          </div>
+          <div class="footer">
+            <p>This email was sent from Real Estate Portal because you are following this property.</p>
+            <p>© 2024 Real Estate Portal. All rights reserved.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private generatePriceDropAlertText(data: PriceDropAlertEmailData): string {
+    return `
+Price Drop: ${data.property.title}
+
+Hello ${data.userName}!
+
+The price of ${this.getPriceDropReason(data)} has dropped by ${data.property.dropPercent}%.
+
+- Was: ₹${data.property.previousPrice.toLocaleString()}
+- Now: ₹${data.property.price.toLocaleString()}
+- Location: ${data.property.city}, ${data.property.state}
+
+View Property: ${data.property.url}
+
+You can manage your favorites and saved searches in your account dashboard.
+    `;
+  }
+
+  private generateProjectUpdateTemplate(data: ProjectUpdateEmailData): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>${data.update.typeLabel}</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #2563eb; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background-color: #f9f9f9; }
+          .update-card { background: white; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #2563eb; }
+          .update-title { font-size: 18px; font-weight: bold; color: #2563eb; margin-bottom: 10px; }
+          .progress { font-size: 20px; font-weight: bold; color: #059669; }
+          .btn { display: inline-block; background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; margin: 10px 0; }
+          .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>🏗️ ${data.update.typeLabel}</h1>
+          </div>
+          <div class="content">
+            <p>Hello ${data.userName}!</p>
+            <p>There is a new construction update for ${data.project.name}, ${data.project.city}.</p>
+
+            <div class="update-card">
+              <div class="update-title">${data.update.title}</div>
+              <p><strong>Date:</strong> ${data.update.date}</p>
+              ${data.update.progressPercent != null ? `<div class="progress">${data.update.progressPercent}% complete</div>` : ''}
+              ${data.update.description ? `<p>${data.update.description}</p>` : ''}
+              ${data.update.photoCount > 0 ? `<p>${data.update.photoCount} new site photo(s)</p>` : ''}
+              <a href="${data.project.url}" class="btn">View Project Updates</a>
+            </div>
+          </div>
+          <div class="footer">
+            <p>This email was sent from Real Estate Portal because you enquired about this project.</p>
+            <p>© 2024 Real Estate Portal. All rights reserved.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private generateProjectUpdateText(data: ProjectUpdateEmailData): string {
+    return `
+${data.update.typeLabel}: ${data.project.name}
+
+Hello ${data.userName}!
+
+There is a new construction update for ${data.project.name}, ${data.project.city}.
+
+- ${data.update.title}
+- Date: ${data.update.date}${data.update.progressPercent != null ? `
+- Progress: ${data.update.progressPercent}% complete` : ''}${data.update.photoCount > 0 ? `
+- ${data.update.photoCount} new site photo(s)` : ''}
+${data.update.description ? `
+${data.update.description}
+` : ''}
+View Project Updates: ${data.project.url}
+
+This email was sent from Real Estate Portal because you enquired about this project.
+    `;
+  }
+
+  private generateTeamInvitationTemplate(data: TeamInvitationEmailData): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Team Invitation</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #2563eb; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background-color: #f9f9f9; }
+          .invite-card { background: white; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #2563eb; }
+          .btn { display: inline-block; background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; margin: 10px 0; }
+          .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>🤝 Team Invitation</h1>
+          </div>
+          <div class="content">
+            <p>Hello!</p>
+            <p>${data.builderName} has invited you to join their team on Real Estate Portal.</p>
+
+            <div class="invite-card">
+              <p><strong>Role:</strong> ${data.roleLabel}</p>
+              <p><strong>Projects:</strong> ${data.projectNames ? data.projectNames.join(', ') : 'All projects'}</p>
+              <a href="${data.acceptUrl}" class="btn">Accept Invitation</a>
+            </div>
+
+            <p>Sign in or register with this email address to accept. The invitation expires in ${data.expirationDays} days.</p>
+          </div>
+          <div class="footer">
+            <p>If you were not expecting this invitation, you can ignore this email.</p>
+            <p>© 2024 Real Estate Portal. All rights reserved.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private generateTeamInvitationText(data: TeamInvitationEmailData): string {
+    return `
+Team Invitation
+
+Hello!
+
+${data.builderName} has invited you to join their team on Real Estate Portal.
+
+- Role: ${data.roleLabel}
+- Projects: ${data.projectNames ? data.projectNames.join(', ') : 'All projects'}
+
+Accept Invitation: ${data.acceptUrl}
+
+Sign in or register with this email address to accept. The invitation expires in ${data.expirationDays} days.
+
+If you were not expecting this invitation, you can ignore this email.
+    `;
+  }
+
+  private generateLeadAssignedTemplate(data: LeadAssignedEmailData): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>New Lead</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #2563eb; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background-color: #f9f9f9; }
+          .lead-card { background: white; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #2563eb; }
+          .btn { display: inline-block; background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; margin: 10px 0; }
+          .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>📥 New Lead</h1>
+          </div>
+          <div class="content">
+            <p>Hello ${data.agentName}!</p>
+            <p>A new lead for ${data.listingTitle} has been assigned to you.</p>
+
+            <div class="lead-card">
+              <p><strong>From:</strong> ${data.inquirerName}</p>
+              <p>${data.message}</p>
+              <p><strong>Respond by:</strong> ${data.respondBy}</p>
+              <a href="${data.leadsUrl}" class="btn">Open My Leads</a>
+            </div>
+          </div>
+          <div class="footer">
+            <p>© 2024 Real Estate Portal. All rights reserved.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private generateLeadAssignedText(data: LeadAssignedEmailData): string {
+    return `
+New Lead
+
+Hello ${data.agentName}!
+
+A new lead for ${data.listingTitle} has been assigned to you.
+
+- From: ${data.inquirerName}
+- Respond by: ${data.respondBy}
+
+${data.message}
+
+Open My Leads: ${data.leadsUrl}
+    `;
+  }
+
+  private generateLeadOverdueTemplate(data: LeadOverdueEmailData): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Lead Awaiting Response</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #dc2626; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background-color: #f9f9f9; }
+          .lead-card { background: white; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #dc2626; }
+          .btn { display: inline-block; background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; margin: 10px 0; }
+          .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>⏰ Lead Awaiting Response</h1>
+          </div>
+          <div class="content">
+            <p>Hello ${data.ownerName}!</p>
+            <p>A lead for ${data.listingTitle} was not responded to in time.</p>
+
+            <div class="lead-card">
+              <p><strong>From:</strong> ${data.inquirerName}</p>
+              <p><strong>Assigned to:</strong> ${data.assigneeName || 'Nobody'}</p>
+              <p><strong>Response was due:</strong> ${data.dueAt}</p>
+              <a href="${data.leadsUrl}" class="btn">Review Team Leads</a>
+            </div>
+
+            <p>You can reassign the lead from your team leads.</p>
+          </div>
+          <div class="footer">
+            <p>© 2024 Real Estate Portal. All rights reserved.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private generateLeadOverdueText(data: LeadOverdueEmailData): string {
+    return `
+Lead Awaiting Response
+
+Hello ${data.ownerName}!
+
+A lead for ${data.listingTitle} was not responded to in time.
+
+- From: ${data.inquirerName}
+- Assigned to: ${data.assigneeName || 'Nobody'}
+- Response was due: ${data.dueAt}
+
+Review Team Leads: ${data.leadsUrl}
+
+You can reassign the lead from your team leads.
+    `;
+  }
+
+  private generateFollowUpReminderTemplate(data: FollowUpReminderEmailData): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Follow-up Due</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #2563eb; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background-color: #f9f9f9; }
+          .lead-card { background: white; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #2563eb; }
+          .btn { display: inline-block; background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; margin: 10px 0; }
+          .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>📞 Follow-up Due</h1>
+          </div>
+          <div class="content">
+            <p>Hello ${data.agentName}!</p>
+            <p>You planned to follow up with a lead for ${data.listingTitle}.</p>
+
+            <div class="lead-card">
+              <p><strong>Lead:</strong> ${data.inquirerName}</p>
+              <p><strong>Due:</strong> ${data.dueAt}</p>
+              ${data.note ? `<p><strong>Note:</strong> ${data.note}</p>` : ''}
+              <a href="${data.leadsUrl}" class="btn">Open My Leads</a>
+            </div>
+
+            <p>Mark the follow-up as done once you have been in touch.</p>
+          </div>
+          <div class="footer">
+            <p>© 2024 Real Estate Portal. All rights reserved.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private generateFollowUpReminderText(data: FollowUpReminderEmailData): string {
+    return `
+Follow-up Due
+
+Hello ${data.agentName}!
+
+You planned to follow up with a lead for ${data.listingTitle}.
+
+- Lead: ${data.inquirerName}
+- Due: ${data.dueAt}${data.note ? `
+- Note: ${data.note}` : ''}
+
+Open My Leads: ${data.leadsUrl}
+
+Mark the follow-up as done once you have been in touch.
+    `;
+  }
+
   private generateVerificationOTPTemplate(data: VerificationOTPData): string {
     return `
       <!DOCTYPE html>
@@ -4,15 +4,18 @@ import { User } from '../models/User';
 import { PropertyImage } from '../models/PropertyImage';
 import RedisConnection from '../config/redis';
 import CacheService from './cacheService';
+import LeadScoringService from './leadScoringService';
 import config from '../config';
 
 export class FavoritesService {
   private redis: RedisConnection;
   private cacheService: CacheService;
+  private leadScoringService: LeadScoringService;
 
   constructor() {
     this.redis = RedisConnection.getInstance();
     this.cacheService = new CacheService();
+    this.leadScoringService = new LeadScoringService();
   }
 
   /**
@@ -35,6 +38,10 @@ export class FavoritesService {
       // Clear user favorites cache
       await this.cacheService.invalidateUserFavorites(userId);
 
+      // Saved listings feed the score of the user's open leads
+      this.leadScoringService.rescoreLeads({ inquirerId: userId })
+        .catch(error => console.error('Lead rescoring error:', error));
+
       return favorite;
     } catch (error) {
       if (error instanceof Error && error.message === 'Property is already in favorites') {
@@ -57,6 +64,9 @@ export class FavoritesService {
     // Clear user favorites cache
     await this.cacheService.invalidateUserFavorites(userId);
 
+    this.leadScoringService.rescoreLeads({ inquirerId: userId })
+      .catch(error => console.error('Lead rescoring error:', error));
+
     return true;
   }
 
@@ -232,6 +242,26 @@ export class FavoritesService {
     return deletedCount;
   }
 
+  /**
+   * Users who have the property in their favorites
+   */
+  async getUsersWhoFavorited(propertyId: number): Promise<User[]> {
+    const favorites = await UserFavorite.findAll({
+      where: { property_id: propertyId },
+      include: [
+        {
+          model: User,
+          as: 'favoriteUser',
+          attributes: ['id', 'email', 'first_name', 'last_name'],
+        },
+      ],
+    });
+
+    return favorites
+      .map(favorite => (favorite as any).favoriteUser as User | null)
+      .filter((user): user is User => !!user);
+  }
+
   /**
    * Get user's favorite property IDs (for quick lookup)
    */
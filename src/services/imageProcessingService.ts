@@ -392,6 +392,35 @@ export class ImageProcessingService {
     }
   }
 
+  /**
+   * Perceptual difference hash (dHash): 64 bits as 16 hex characters. Resized, recompressed
+   * or lightly edited copies of a photo hash within a few bits of each other.
+   */
+  async computePerceptualHash(buffer: Buffer): Promise<string> {
+    try {
+      const pixels = await sharp(buffer)
+        .grayscale()
+        .resize(9, 8, { fit: 'fill' })
+        .raw()
+        .toBuffer();
+
+      let hash = '';
+      for (let row = 0; row < 8; row++) {
+        let byte = 0;
+        for (let col = 0; col < 8; col++) {
+          const left = pixels[row * 9 + col];
+          const right = pixels[row * 9 + col + 1];
+          byte = (byte << 1) | (left > right ? 1 : 0);
+        }
+        hash += byte.toString(16).padStart(2, '0');
+      }
+
+      return hash;
+    } catch (error) {
+      throw new Error(`Failed to hash image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Extract dominant colors from image
    */
@@ -11,6 +11,7 @@ import {
 import path from 'path';
 import fs from 'fs';
 import config from '../config';
+import imageProcessingService from './imageProcessingService';
 
 export interface ImageProcessingOptions {
   generateThumbnail?: boolean;
@@ -92,10 +93,15 @@ export class ImageService {
         await generateThumbnail(file.path, thumbnailPath);
       }
 
+      const perceptualHash = await imageProcessingService
+        .computePerceptualHash(await fs.promises.readFile(file.path))
+        .catch(() => null);
+
       // Save to database
       const propertyImage = await PropertyImage.create({
         property_id: propertyId,
         image_url: file.filename,
+        perceptual_hash: perceptualHash,
         alt_text: `Property image for ${property.title}`,
         display_order: await this.getNextDisplayOrder(propertyId)
       });
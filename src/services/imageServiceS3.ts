@@ -199,6 +199,7 @@ export class ImageServiceS3 {
 
       // Get image metadata
       const metadata = await imageProcessingService.getMetadata(buffer);
+      const perceptualHash = await imageProcessingService.computePerceptualHash(buffer).catch(() => null);
 
       // Save to database with S3 URLs (including WebP URLs if available)
       const propertyImage = await PropertyImage.create({
@@ -216,6 +217,7 @@ export class ImageServiceS3 {
         mime_type: file.mimetype,
         width: metadata.width || 0,
         height: metadata.height || 0,
+        perceptual_hash: perceptualHash,
         alt_text: `Property image for ${property.title}`,
         display_order: await this.getNextDisplayOrder(propertyId),
         is_primary: false,
@@ -822,10 +824,10 @@ export class ImageServiceS3 {
   static async getProjectImages(projectId: number): Promise<any[]> {
     try {
       // Import ProjectImage dynamically
-      const { ProjectImage } = await import('../models/ProjectImage');
+      const { ProjectImage, GALLERY_IMAGE_WHERE } = await import('../models/ProjectImage');
 
       const images = await ProjectImage.findAll({
-        where: { project_id: projectId },
+        where: { project_id: projectId, ...GALLERY_IMAGE_WHERE },
         order: [['display_order', 'ASC'], ['created_at', 'ASC']]
       });
 
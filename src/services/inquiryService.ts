@@ -1,4 +1,4 @@
-import { Inquiry, InquiryStatus } from '../models/Inquiry';
+import { Inquiry, InquiryStatus, LEAD_STAGE_STATUS, LeadStage } from '../models/Inquiry';
 import { User } from '../models/User';
 import { Property } from '../models/Property';
 import { Conversation } from '../models/Conversation';
@@ -6,7 +6,12 @@ import { Message } from '../models/Message';
 import { ConversationParticipant } from '../models/ConversationParticipant';
 import sequelize from '../config/database';
 import emailService, { InquiryEmailData } from './emailService';
-import { Op, Transaction } from 'sequelize';
+import LeadRoutingService from './leadRoutingService';
+import LeadPipelineService from './leadPipelineService';
+import LeadScoringService from './leadScoringService';
+import ContactService from './contactService';
+import { Contact } from '../models/Contact';
+import { Op, Transaction, col, fn } from 'sequelize';
 
 export interface CreateInquiryData {
   property_id: number;
@@ -29,11 +34,40 @@ export interface InquiryFilters {
 export interface InquiryListOptions {
   page?: number;
   limit?: number;
-  sort?: 'created_at' | 'status' | 'property_id';
+  sort?: 'created_at' | 'status' | 'property_id' | 'score';
   order?: 'ASC' | 'DESC';
+  // Owner lists only: page through contacts, each with their inquiries
+  group_by?: 'contact';
 }
 
+export interface ContactInquiryGroup {
+  contact: {
+    id: number;
+    name: string;
+    email: string | null;
+    phone: string | null;
+    last_inquiry_at: Date | null;
+  };
+  inquiries: Inquiry[];
+}
+
+// The stage a lead moves to when only its status is set
+const STATUS_STAGE: Record<InquiryStatus, LeadStage> = {
+  [InquiryStatus.NEW]: LeadStage.NEW,
+  [InquiryStatus.CONTACTED]: LeadStage.CONTACTED,
+  [InquiryStatus.CLOSED]: LeadStage.LOST,
+};
+
+// Ties, and leads that are not scored yet, fall back to newest first
+const listOrder = (sort: NonNullable<InquiryListOptions['sort']>, order: 'ASC' | 'DESC'): Array<[string, string]> =>
+  sort === 'created_at' ? [[sort, order]] : [[sort, order], ['created_at', 'DESC']];
+
 export class InquiryService {
+  private leadRouting = new LeadRoutingService();
+  private leadPipeline = new LeadPipelineService();
+  private leadScoring = new LeadScoringService();
+  private contacts = new ContactService();
+
   public async createInquiry(data: {
     property_id: number;
     name: string;
@@ -142,6 +176,9 @@ export class InquiryService {
       }
 
       await t.commit();
+
+      // Linking, scoring and routing run once the inquiry is saved, so a failure never loses the lead
+      this.handleNewLead(inquiry.id).catch(error => console.error('New lead handling error:', error));
       return inquiry;
     } catch (error) {
       await t.rollback();
@@ -197,7 +234,7 @@ export class InquiryService {
           required: false,
         },
       ],
-      order: [[sort, order]],
+      order: listOrder(sort, order),
       limit,
       offset,
     });
@@ -245,12 +282,15 @@ export class InquiryService {
     }
 
     // Check if user has permission to update this inquiry
-    if (userId && inquiry.property?.user_id !== userId) {
+    if (userId && inquiry.property?.user_id !== userId && inquiry.assigned_to !== userId) {
       throw new Error('Unauthorized to update this inquiry');
     }
 
-    inquiry.status = status;
-    await inquiry.save();
+    // A lead already in a stage with this status stays where it is. Otherwise it moves to the
+    // stage the status stands for; closing a lead this way does not say it was won.
+    if (LEAD_STAGE_STATUS[inquiry.stage] !== status) {
+      await this.leadPipeline.moveToStage(inquiry, STATUS_STAGE[status], { userId });
+    }
 
     return inquiry;
   }
@@ -290,6 +330,7 @@ export class InquiryService {
 
   async getInquiriesForOwner(ownerId: number, options: InquiryListOptions = {}): Promise<{
     inquiries: Inquiry[];
+    contacts?: ContactInquiryGroup[];
     total: number;
     page: number;
     totalPages: number;
@@ -299,6 +340,10 @@ export class InquiryService {
       throw new Error('Invalid owner ID provided');
     }
 
+    if (options.group_by === 'contact') {
+      return this.getOwnerInquiriesByContact(ownerId, options);
+    }
+
     const { page = 1, limit = 10, sort = 'created_at', order = 'DESC' } = options;
     const offset = (page - 1) * limit;
 
@@ -317,7 +362,7 @@ export class InquiryService {
           required: false,
         },
       ],
-      order: [[sort, order]],
+      order: listOrder(sort, order),
       limit,
       offset,
     });
@@ -332,6 +377,85 @@ export class InquiryService {
     };
   }
 
+  /**
+   * The owner's inquiries grouped by contact. Pages, and the total, count contacts; the groups
+   * are ordered by their newest (or highest-scoring) inquiry.
+   */
+  private async getOwnerInquiriesByContact(ownerId: number, options: InquiryListOptions): Promise<{
+    inquiries: Inquiry[];
+    contacts: ContactInquiryGroup[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    const { page = 1, limit = 10, sort = 'created_at', order = 'DESC' } = options;
+
+    await this.contacts.linkUnlinkedInquiries(ownerId);
+
+    const where = { contact_id: { [Op.ne]: null } };
+    const ownProperties = { model: Property, as: 'property', where: { user_id: ownerId }, attributes: [] };
+    const groupOrder = sort === 'score' ? fn('MAX', col('Inquiry.score')) : fn('MAX', col('Inquiry.created_at'));
+
+    const [groups, total] = await Promise.all([
+      Inquiry.findAll({
+        attributes: ['contact_id'],
+        where,
+        include: [ownProperties],
+        group: ['Inquiry.contact_id'],
+        order: [[groupOrder, order], [fn('MAX', col('Inquiry.id')), 'DESC']],
+        limit,
+        offset: (page - 1) * limit,
+        raw: true,
+      }),
+      Inquiry.count({ where, include: [ownProperties], distinct: true, col: 'contact_id' }),
+    ]);
+
+    const contactIds = groups.map(group => group.contact_id as number);
+    const [contacts, inquiries] = contactIds.length > 0
+      ? await Promise.all([
+        Contact.findAll({ where: { id: contactIds } }),
+        Inquiry.findAll({
+          where: { contact_id: contactIds },
+          include: [
+            {
+              model: Property,
+              as: 'property',
+              where: { user_id: ownerId },
+              attributes: ['id', 'title', 'property_type', 'listing_type', 'price'],
+            },
+            {
+              model: User,
+              as: 'inquirer',
+              attributes: ['id', 'first_name', 'last_name', 'email'],
+              required: false,
+            },
+          ],
+          order: listOrder(sort, order),
+        }),
+      ])
+      : [[], []];
+
+    return {
+      inquiries,
+      contacts: contactIds
+        .map(id => contacts.find(contact => contact.id === id))
+        .filter((contact): contact is Contact => !!contact)
+        .map(contact => ({
+          contact: {
+            id: contact.id,
+            name: contact.name,
+            email: contact.email ?? null,
+            phone: contact.phone ?? null,
+            last_inquiry_at: contact.last_inquiry_at ?? null,
+          },
+          inquiries: inquiries.filter(inquiry => inquiry.contact_id === contact.id),
+        })),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
   async getInquiryStats(propertyId?: number): Promise<{
     total: number;
     new: number;
@@ -390,18 +514,24 @@ export class InquiryService {
     return `${firstPart}${middlePart}${lastPart}`;
   }
 
+  // Assign a new lead to someone on the listing owner's team by the owner's routing rules
   async routeLead(inquiryId: number): Promise<void> {
-    const inquiry = await this.getInquiryById(inquiryId);
-    
-    if (!inquiry) {
-      throw new Error('Inquiry not found');
-    }
+    await this.leadRouting.routeLead(inquiryId);
+  }
 
-    // Basic lead routing logic - can be enhanced based on business rules
-    // For now, we'll just mark it as contacted and send notification
-    if (inquiry.status === InquiryStatus.NEW) {
-      await this.updateInquiryStatus(inquiryId, InquiryStatus.CONTACTED);
+  // Link a new lead to its contact, score it, then route it; a failed step doesn't stop the next
+  async handleNewLead(inquiryId: number): Promise<void> {
+    try {
+      await this.contacts.linkInquiry(inquiryId);
+    } catch (error) {
+      console.error('Contact linking error:', error);
+    }
+    try {
+      await this.leadScoring.scoreInquiry(inquiryId);
+    } catch (error) {
+      console.error('Lead scoring error:', error);
     }
+    await this.routeLead(inquiryId);
   }
 }
 
@@ -0,0 +1,506 @@
+import { Op, Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import { Inquiry, InquiryStatus, LEAD_STAGE_STATUS, LeadStage } from '../models/Inquiry';
+import { InquiryActivity, InquiryActivityType } from '../models/InquiryActivity';
+import { LeadPipelineStage } from '../models/LeadPipelineStage';
+import { Property } from '../models/Property';
+import { Project } from '../models/Project';
+import { User } from '../models/User';
+import {
+    BuilderTeamMember,
+    BuilderTeamMemberStatus,
+    ProjectPermission,
+    TEAM_ROLE_PERMISSIONS,
+} from '../models/BuilderTeamMember';
+import LeadRoutingService, { LeadScope, LeadSummary } from './leadRoutingService';
+import emailService from './emailService';
+import { NotFoundError, ValidationError } from '../utils/errorResponse';
+
+export interface PipelineStage {
+    stage: LeadStage;
+    label: string;
+    status: InquiryStatus;
+    // Won and lost leads are out of the pipeline
+    is_closed: boolean;
+    // Leads can't be moved into a disabled stage
+    is_enabled: boolean;
+    // Whether the owner may disable the stage
+    is_required: boolean;
+}
+
+export interface PipelineStageInput {
+    stage: LeadStage;
+    label: string;
+    is_enabled?: boolean;
+}
+
+export interface PipelineColumn extends PipelineStage {
+    total: number;
+    leads: LeadSummary[];
+}
+
+// Stage changes are made through the stage endpoint, so they are not logged by hand
+export type LoggedActivityType =
+    | InquiryActivityType.NOTE
+    | InquiryActivityType.CALL
+    | InquiryActivityType.WHATSAPP
+    | InquiryActivityType.FOLLOW_UP;
+
+export interface ActivityInput {
+    type: LoggedActivityType;
+    content?: string | null;
+    // When a call or message happened; defaults to now
+    occurred_at?: Date | null;
+    // Required for follow-ups
+    follow_up_at?: Date | null;
+}
+
+export interface LeadActivityEntry {
+    id: number;
+    type: InquiryActivityType;
+    content: string | null;
+    from_stage: LeadStage | null;
+    to_stage: LeadStage | null;
+    user: { id: number; name: string } | null;
+    occurred_at: Date;
+    follow_up_at: Date | null;
+    completed_at: Date | null;
+    created_at: Date;
+}
+
+export const LOGGED_ACTIVITY_TYPES: LoggedActivityType[] = [
+    InquiryActivityType.NOTE,
+    InquiryActivityType.CALL,
+    InquiryActivityType.WHATSAPP,
+    InquiryActivityType.FOLLOW_UP,
+];
+
+// Leads come in as new, logging a call or setting the status moves them to contacted or lost,
+// and won closes the sale, so these stay enabled
+const REQUIRED_STAGES: LeadStage[] = [LeadStage.NEW, LeadStage.CONTACTED, LeadStage.WON, LeadStage.LOST];
+
+// Owners order the stages within each status, but the statuses keep this order
+const STATUS_ORDER: InquiryStatus[] = [InquiryStatus.NEW, InquiryStatus.CONTACTED, InquiryStatus.CLOSED];
+
+// The pipeline of owners who haven't set up their own
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+    { stage: LeadStage.NEW, label: 'New' },
+    { stage: LeadStage.CONTACTED, label: 'Contacted' },
+    { stage: LeadStage.QUALIFIED, label: 'Qualified' },
+    { stage: LeadStage.SITE_VISIT_SCHEDULED, label: 'Site visit scheduled' },
+    { stage: LeadStage.NEGOTIATION, label: 'Negotiation' },
+    { stage: LeadStage.WON, label: 'Won' },
+    { stage: LeadStage.LOST, label: 'Lost' },
+].map(stage => ({
+    ...stage,
+    status: LEAD_STAGE_STATUS[stage.stage],
+    is_closed: LEAD_STAGE_STATUS[stage.stage] === InquiryStatus.CLOSED,
+    is_enabled: true,
+    is_required: REQUIRED_STAGES.includes(stage.stage),
+}));
+
+// Talking to the lead is a response; a note on its own is not
+const CONTACT_ACTIVITY_TYPES: InquiryActivityType[] = [InquiryActivityType.CALL, InquiryActivityType.WHATSAPP];
+
+// Leads shown per board column; the column total counts them all
+const BOARD_COLUMN_LIMIT = 50;
+
+// Follow-up reminders go out within this long of being due
+const FOLLOW_UP_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Reminders sent per check, so a backlog is worked through over several runs
+const FOLLOW_UP_BATCH_SIZE = 100;
+
+const fullName = (user: Pick<User, 'first_name' | 'last_name'>): string => `${user.first_name} ${user.last_name}`.trim();
+
+const formatDateTime = (date: Date): string =>
+    date.toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * Moves leads through the sales pipeline and keeps their activity timeline: notes, call and
+ * WhatsApp logs, follow-ups and stage changes. The inquiry status follows the stage, so code
+ * that only knows new/contacted/closed keeps working. Anyone who may work a lead (its assignee
+ * and the teams it belongs to) may move it and log activity on it. Follow-ups that fall due
+ * are emailed to whoever set them. Each builder or agency can relabel, reorder and switch off
+ * stages for their own leads; the stages themselves, and the statuses they map to, are fixed.
+ */
+class LeadPipelineService {
+    private leadRouting = new LeadRoutingService();
+    private scheduler: NodeJS.Timeout | null = null;
+
+    /**
+     * Start emailing follow-up reminders as they fall due
+     * This should be called when the application starts
+     */
+    start(): void {
+        if (this.scheduler) {
+            console.log('Follow-up reminder scheduler is already running');
+            return;
+        }
+
+        console.log('Starting follow-up reminder scheduler...');
+        this.scheduler = setInterval(() => {
+            this.sendDueFollowUpReminders().catch(error => console.error('Error sending follow-up reminders:', error));
+        }, FOLLOW_UP_CHECK_INTERVAL_MS);
+    }
+
+    stop(): void {
+        if (this.scheduler) {
+            clearInterval(this.scheduler);
+            this.scheduler = null;
+        }
+        console.log('Follow-up reminder scheduler stopped');
+    }
+
+    /**
+     * The stages of the user's own pipeline, or of an account whose sales team they are on
+     */
+    async getStages(userId: number, ownerId?: number): Promise<PipelineStage[]> {
+        await this.checkPipelineAccess(userId, ownerId ?? userId);
+        return this.getOwnerStages(ownerId ?? userId);
+    }
+
+    /**
+     * The owner's pipeline in board order, with their labels and switches
+     */
+    async getOwnerStages(ownerId: number): Promise<PipelineStage[]> {
+        const settings = await LeadPipelineStage.findAll({ where: { owner_id: ownerId } });
+        const settingsByStage = new Map(settings.map(setting => [setting.stage, setting]));
+
+        return DEFAULT_PIPELINE_STAGES
+            .map((stage, index) => {
+                const setting = settingsByStage.get(stage.stage);
+                return {
+                    position: setting?.position ?? index,
+                    stage: { ...stage, label: setting?.label ?? stage.label, is_enabled: setting?.is_enabled ?? true },
+                };
+            })
+            .sort((a, b) => a.position - b.position)
+            .map(({ stage }) => stage);
+    }
+
+    /**
+     * Replace the owner's pipeline settings. Every stage is listed once, in board order.
+     */
+    async updateStages(ownerId: number, inputs: PipelineStageInput[]): Promise<PipelineStage[]> {
+        const stages = inputs.map(input => input.stage);
+        if (new Set(stages).size !== stages.length || DEFAULT_PIPELINE_STAGES.some(stage => !stages.includes(stage.stage))) {
+            throw new ValidationError('List every pipeline stage once');
+        }
+
+        const disabledRequired = inputs.find(input => input.is_enabled === false && REQUIRED_STAGES.includes(input.stage));
+        if (disabledRequired) {
+            throw new ValidationError(`The ${disabledRequired.label.trim()} stage cannot be turned off`);
+        }
+
+        const statusRanks = stages.map(stage => STATUS_ORDER.indexOf(LEAD_STAGE_STATUS[stage]));
+        if (statusRanks.some((rank, index) => index > 0 && rank < statusRanks[index - 1])) {
+            throw new ValidationError('New comes first and won and lost come last; only the stages in between can be reordered');
+        }
+
+        await sequelize.transaction(async (transaction) => {
+            await LeadPipelineStage.destroy({ where: { owner_id: ownerId }, transaction });
+            await LeadPipelineStage.bulkCreate(inputs.map((input, index) => ({
+                owner_id: ownerId,
+                stage: input.stage,
+                label: input.label.trim(),
+                position: index,
+                is_enabled: input.is_enabled ?? true,
+            })), { transaction });
+        });
+
+        return this.getOwnerStages(ownerId);
+    }
+
+    /**
+     * The user's leads ('mine') or their teams' leads ('team') by stage, most recent first, laid
+     * out by the user's own pipeline. Given an owner, only that owner's leads are shown, laid out
+     * by their pipeline.
+     */
+    async getBoard(userId: number, scope: LeadScope, ownerId?: number): Promise<PipelineColumn[]> {
+        const stages = await this.getStages(userId, ownerId);
+
+        const columns = await Promise.all(stages.map(async (stage) => {
+            const { leads, total } = await this.leadRouting.getLeads(userId, scope, {
+                stage: stage.stage,
+                owner_id: ownerId,
+                limit: BOARD_COLUMN_LIMIT,
+            });
+            return { ...stage, total, leads };
+        }));
+
+        // A disabled stage keeps its column while leads are still in it
+        return columns.filter(column => column.is_enabled || column.total > 0);
+    }
+
+    /**
+     * Move a lead to another stage. Lost leads need a reason, and the stage has to be enabled in
+     * the pipeline of the account that owns the listing.
+     */
+    async changeStage(inquiryId: number, userId: number, stage: LeadStage, lostReason?: string | null): Promise<LeadSummary> {
+        const lead = await this.getWorkableLead(inquiryId, userId);
+
+        const ownerId = lead.property?.user_id ?? lead.project?.builder_id;
+        if (ownerId) {
+            const ownerStages = await this.getOwnerStages(ownerId);
+            if (!ownerStages.find(ownerStage => ownerStage.stage === stage)?.is_enabled) {
+                throw new ValidationError('This stage is turned off in the pipeline');
+            }
+        }
+
+        const reason = lostReason?.trim() || null;
+        if (stage === LeadStage.LOST && !reason) {
+            throw new ValidationError('Give a reason when marking a lead as lost');
+        }
+
+        await sequelize.transaction(async (transaction) => {
+            const inquiry = await Inquiry.findByPk(inquiryId, { transaction, lock: transaction.LOCK.UPDATE });
+            if (!inquiry) {
+                throw new NotFoundError('Lead not found');
+            }
+            if (inquiry.stage === stage) {
+                throw new ValidationError('The lead is already in this stage');
+            }
+
+            await this.moveToStage(inquiry, stage, { userId, lostReason: reason, transaction });
+        });
+
+        return this.getLeadSummary(inquiryId, userId);
+    }
+
+    /**
+     * Set a lead's stage, with the status that goes with it, and log the change. Leaving new is
+     * the lead's first response.
+     */
+    async moveToStage(
+        inquiry: Inquiry,
+        stage: LeadStage,
+        options: { userId?: number | null; lostReason?: string | null; transaction?: Transaction }
+    ): Promise<void> {
+        const now = new Date();
+        const fromStage = inquiry.stage;
+
+        await inquiry.update({
+            stage,
+            status: LEAD_STAGE_STATUS[stage],
+            lost_reason: stage === LeadStage.LOST ? options.lostReason ?? null : null,
+            stage_changed_at: now,
+            ...(stage !== LeadStage.NEW && !inquiry.first_responded_at ? { first_responded_at: now } : {}),
+        }, { transaction: options.transaction });
+
+        await InquiryActivity.create({
+            inquiry_id: inquiry.id,
+            user_id: options.userId ?? null,
+            type: InquiryActivityType.STAGE_CHANGE,
+            content: stage === LeadStage.LOST ? options.lostReason ?? null : null,
+            from_stage: fromStage,
+            to_stage: stage,
+            occurred_at: now,
+        }, { transaction: options.transaction });
+    }
+
+    async getActivities(inquiryId: number, userId: number): Promise<LeadActivityEntry[]> {
+        await this.getWorkableLead(inquiryId, userId);
+        return this.listActivities(inquiryId);
+    }
+
+    /**
+     * A lead's timeline, newest first. Callers check the user may see it.
+     */
+    async listActivities(inquiryId: number): Promise<LeadActivityEntry[]> {
+        const activities = await InquiryActivity.findAll({
+            where: { inquiry_id: inquiryId },
+            order: [['occurred_at', 'DESC'], ['id', 'DESC']],
+        });
+
+        const userIds = Array.from(new Set(activities.map(activity => activity.user_id).filter((id): id is number => !!id)));
+        const users = await User.findAll({ where: { id: userIds }, attributes: ['id', 'first_name', 'last_name'] });
+        const usersById = new Map(users.map(user => [user.id, { id: user.id, name: fullName(user) }]));
+
+        return activities.map(activity => this.toEntry(activity, usersById));
+    }
+
+    /**
+     * Log a note, call, WhatsApp message or follow-up. A call or message on a new lead moves it
+     * to contacted.
+     */
+    async addActivity(inquiryId: number, userId: number, input: ActivityInput): Promise<LeadActivityEntry> {
+        await this.getWorkableLead(inquiryId, userId);
+
+        const now = new Date();
+        const content = input.content?.trim() || null;
+        if (input.type === InquiryActivityType.FOLLOW_UP) {
+            if (!input.follow_up_at) {
+                throw new ValidationError('Choose when to follow up');
+            }
+            if (input.follow_up_at.getTime() <= now.getTime()) {
+                throw new ValidationError('Follow-ups must be scheduled in the future');
+            }
+        } else if (!content) {
+            throw new ValidationError('Add a note describing the activity');
+        }
+        if (input.occurred_at && input.occurred_at.getTime() > now.getTime()) {
+            throw new ValidationError('Activities cannot be logged in the future');
+        }
+
+        const activity = await sequelize.transaction(async (transaction) => {
+            const inquiry = await Inquiry.findByPk(inquiryId, { transaction, lock: transaction.LOCK.UPDATE });
+            if (!inquiry) {
+                throw new NotFoundError('Lead not found');
+            }
+
+            const activity = await InquiryActivity.create({
+                inquiry_id: inquiryId,
+                user_id: userId,
+                type: input.type,
+                content,
+                occurred_at: input.occurred_at || now,
+                follow_up_at: input.type === InquiryActivityType.FOLLOW_UP ? input.follow_up_at : null,
+            }, { transaction });
+
+            if (CONTACT_ACTIVITY_TYPES.includes(input.type) && inquiry.stage === LeadStage.NEW) {
+                await this.moveToStage(inquiry, LeadStage.CONTACTED, { userId, transaction });
+            }
+            if (input.type === InquiryActivityType.FOLLOW_UP) {
+                await this.refreshNextFollowUp(inquiryId, transaction);
+            }
+            return activity;
+        });
+
+        const user = await User.findByPk(userId, { attributes: ['id', 'first_name', 'last_name'] });
+        return this.toEntry(activity, new Map(user ? [[user.id, { id: user.id, name: fullName(user) }]] : []));
+    }
+
+    async completeFollowUp(inquiryId: number, activityId: number, userId: number): Promise<LeadActivityEntry> {
+        await this.getWorkableLead(inquiryId, userId);
+
+        const activity = await InquiryActivity.findOne({
+            where: { id: activityId, inquiry_id: inquiryId, type: InquiryActivityType.FOLLOW_UP },
+        });
+        if (!activity) {
+            throw new NotFoundError('Follow-up not found');
+        }
+        if (activity.completed_at) {
+            throw new ValidationError('The follow-up is already done');
+        }
+
+        await sequelize.transaction(async (transaction) => {
+            await activity.update({ completed_at: new Date() }, { transaction });
+            await this.refreshNextFollowUp(inquiryId, transaction);
+        });
+
+        const author = activity.user_id
+            ? await User.findByPk(activity.user_id, { attributes: ['id', 'first_name', 'last_name'] })
+            : null;
+        return this.toEntry(activity, new Map(author ? [[author.id, { id: author.id, name: fullName(author) }]] : []));
+    }
+
+    /**
+     * Email whoever set each follow-up that has fallen due
+     */
+    async sendDueFollowUpReminders(): Promise<number> {
+        const now = new Date();
+        const due = await InquiryActivity.findAll({
+            where: {
+                type: InquiryActivityType.FOLLOW_UP,
+                completed_at: null,
+                reminded_at: null,
+                follow_up_at: { [Op.lte]: now },
+            },
+            order: [['follow_up_at', 'ASC']],
+            limit: FOLLOW_UP_BATCH_SIZE,
+        });
+        if (due.length === 0) {
+            return 0;
+        }
+
+        await InquiryActivity.update({ reminded_at: now }, { where: { id: due.map(activity => activity.id) } });
+
+        for (const activity of due) {
+            try {
+                await this.sendFollowUpReminder(activity);
+            } catch (error) {
+                console.error(`Failed to send follow-up reminder ${activity.id}:`, error);
+            }
+        }
+
+        console.log(`Sent ${due.length} follow-up reminder(s)`);
+        return due.length;
+    }
+
+    private async getWorkableLead(inquiryId: number, userId: number): Promise<Inquiry> {
+        const lead = await this.leadRouting.findVisibleLead(inquiryId, userId);
+        if (!lead) {
+            throw new NotFoundError('Lead not found');
+        }
+        return lead;
+    }
+
+    // Owners see their own pipeline, and sales team members the pipelines of the accounts they sell for
+    private async checkPipelineAccess(userId: number, ownerId: number): Promise<void> {
+        if (userId === ownerId) {
+            return;
+        }
+
+        const membership = await BuilderTeamMember.findOne({
+            where: { builder_id: ownerId, user_id: userId, status: BuilderTeamMemberStatus.ACTIVE },
+        });
+        if (!membership || !TEAM_ROLE_PERMISSIONS[membership.role].includes(ProjectPermission.MANAGE_SALES)) {
+            throw new NotFoundError('Pipeline not found');
+        }
+    }
+
+    private async getLeadSummary(inquiryId: number, userId: number): Promise<LeadSummary> {
+        const lead = await this.getWorkableLead(inquiryId, userId);
+        return this.leadRouting.toSummary(lead, userId);
+    }
+
+    private async refreshNextFollowUp(inquiryId: number, transaction: Transaction): Promise<void> {
+        const next = await InquiryActivity.min<Date | null, InquiryActivity>('follow_up_at', {
+            where: { inquiry_id: inquiryId, type: InquiryActivityType.FOLLOW_UP, completed_at: null },
+            transaction,
+        });
+        await Inquiry.update({ next_follow_up_at: next || null }, { where: { id: inquiryId }, transaction });
+    }
+
+    private toEntry(activity: InquiryActivity, usersById: Map<number, { id: number; name: string }>): LeadActivityEntry {
+        return {
+            id: activity.id,
+            type: activity.type,
+            content: activity.content || null,
+            from_stage: (activity.from_stage as LeadStage) || null,
+            to_stage: (activity.to_stage as LeadStage) || null,
+            user: activity.user_id ? usersById.get(activity.user_id) || null : null,
+            occurred_at: activity.occurred_at,
+            follow_up_at: activity.follow_up_at || null,
+            completed_at: activity.completed_at || null,
+            created_at: activity.created_at,
+        };
+    }
+
+    private async sendFollowUpReminder(activity: InquiryActivity): Promise<void> {
+        const [agent, inquiry] = await Promise.all([
+            activity.user_id ? User.findByPk(activity.user_id) : null,
+            Inquiry.findByPk(activity.inquiry_id, {
+                include: [
+                    { model: Property, as: 'property', attributes: ['id', 'title'], required: false },
+                    { model: Project, as: 'project', attributes: ['id', 'name'], required: false },
+                ],
+            }),
+        ]);
+        if (!agent || !inquiry) {
+            return;
+        }
+
+        await emailService.sendFollowUpReminder(agent.email, {
+            agentName: agent.first_name,
+            inquirerName: inquiry.name,
+            listingTitle: inquiry.property?.title || inquiry.project?.name || 'your listing',
+            note: activity.content || null,
+            dueAt: formatDateTime(new Date(activity.follow_up_at!)),
+            leadsUrl: `${process.env.FRONTEND_URL}/leads`,
+        });
+    }
+}
+
+export default LeadPipelineService;
@@ -0,0 +1,746 @@
+import { Op, Transaction, WhereOptions } from 'sequelize';
+import sequelize from '../config/database';
+import config from '../config';
+import { Inquiry, InquiryStatus, LeadSource, LeadStage } from '../models/Inquiry';
+import { InquiryAssignment } from '../models/InquiryAssignment';
+import { LeadRoutingRule, LeadRoutingStrategy } from '../models/LeadRoutingRule';
+import { Property, PropertyType } from '../models/Property';
+import { Project, ProjectType } from '../models/Project';
+import { ProjectUnit, UnitStatus } from '../models/ProjectUnit';
+import { User } from '../models/User';
+import {
+    BuilderTeamMember,
+    BuilderTeamMemberStatus,
+    ProjectPermission,
+    TEAM_ROLE_PERMISSIONS,
+} from '../models/BuilderTeamMember';
+import emailService from './emailService';
+import { AuthorizationError, NotFoundError, ValidationError } from '../utils/errorResponse';
+
+export type LeadScope = 'mine' | 'team';
+
+// 'missed' covers both a late first response and no response by the deadline
+export type LeadSlaStatus = 'none' | 'pending' | 'met' | 'missed';
+
+export interface RoutingRuleInput {
+    name: string;
+    priority?: number;
+    is_active?: boolean;
+    // Omitted, null or empty to match any value
+    cities?: string[] | null;
+    property_types?: string[] | null;
+    min_budget?: number | null;
+    max_budget?: number | null;
+    project_ids?: number[] | null;
+    sources?: LeadSource[] | null;
+    strategy: LeadRoutingStrategy;
+    agent_ids: number[];
+    sla_minutes?: number | null;
+}
+
+export interface LeadListFilters {
+    status?: InquiryStatus;
+    stage?: LeadStage;
+    // Only leads on this account's listings
+    owner_id?: number;
+    page?: number;
+    limit?: number;
+}
+
+export interface TeamAgent {
+    id: number;
+    name: string;
+    email: string;
+    is_owner: boolean;
+    open_leads: number;
+}
+
+export interface LeadSummary {
+    id: number;
+    name: string;
+    email: string;
+    phone: string | null;
+    message: string;
+    status: InquiryStatus;
+    stage: LeadStage;
+    lost_reason: string | null;
+    next_follow_up_at: Date | null;
+    source: LeadSource;
+    listing: { type: 'property' | 'project'; id: number; title: string; city: string } | null;
+    assignee: { id: number; name: string; email: string } | null;
+    assigned_at: Date | null;
+    response_due_at: Date | null;
+    first_responded_at: Date | null;
+    sla_status: LeadSlaStatus;
+    // Only the account that owns the listing reassigns its leads
+    can_reassign: boolean;
+    created_at: Date;
+}
+
+export interface AssignmentHistoryEntry {
+    id: number;
+    assigned_to: { id: number; name: string } | null;
+    previous_assignee: { id: number; name: string } | null;
+    // null when the lead was routed automatically
+    assigned_by: { id: number; name: string } | null;
+    rule: { id: number; name: string } | null;
+    reason: string | null;
+    created_at: Date;
+}
+
+// The property or project a lead is about, with what routing rules match on
+interface LeadListing {
+    owner_id: number;
+    title: string;
+    city: string;
+    type: string;
+    project_id: number | null;
+    price: number | null;
+}
+
+// Overdue leads are flagged within this long of their deadline
+const SLA_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Overdue leads handled per check, so a backlog is worked through over several runs
+const SLA_CHECK_BATCH_SIZE = 100;
+
+export const ROUTABLE_PROPERTY_TYPES: string[] = Array.from(
+    new Set<string>([...Object.values(PropertyType), ...Object.values(ProjectType)])
+);
+
+const fullName = (user: Pick<User, 'first_name' | 'last_name'>): string => `${user.first_name} ${user.last_name}`.trim();
+
+const formatDateTime = (date: Date): string =>
+    date.toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' });
+
+// Empty lists are stored as null, meaning "any"
+const listOrNull = <T>(values?: T[] | null): T[] | null => (values && values.length > 0 ? values : null);
+
+const canManageSales = (member: BuilderTeamMember): boolean =>
+    TEAM_ROLE_PERMISSIONS[member.role].includes(ProjectPermission.MANAGE_SALES);
+
+/**
+ * Shares a builder's or agency's incoming leads between their team. Active rules are tried from
+ * the highest priority down, and the first that matches the lead and has someone available
+ * assigns it, round-robin or to whoever has the fewest open leads. Leads no rule matches stay
+ * with the account that owns the listing. Routed leads get a first-response deadline, and the
+ * owner is emailed about those nobody responded to in time.
+ */
+class LeadRoutingService {
+    private scheduler: NodeJS.Timeout | null = null;
+
+    /**
+     * Start flagging leads whose response deadline has passed
+     * This should be called when the application starts
+     */
+    start(): void {
+        if (this.scheduler) {
+            console.log('Lead SLA scheduler is already running');
+            return;
+        }
+
+        console.log('Starting lead SLA scheduler...');
+        this.scheduler = setInterval(() => {
+            this.flagOverdueLeads().catch(error => console.error('Error flagging overdue leads:', error));
+        }, SLA_CHECK_INTERVAL_MS);
+    }
+
+    stop(): void {
+        if (this.scheduler) {
+            clearInterval(this.scheduler);
+            this.scheduler = null;
+        }
+        console.log('Lead SLA scheduler stopped');
+    }
+
+    async getRules(ownerId: number): Promise<LeadRoutingRule[]> {
+        return LeadRoutingRule.findAll({
+            where: { owner_id: ownerId },
+            order: [['priority', 'DESC'], ['id', 'ASC']],
+        });
+    }
+
+    async createRule(ownerId: number, input: RoutingRuleInput): Promise<LeadRoutingRule> {
+        const values = await this.validateRule(ownerId, input);
+        return LeadRoutingRule.create({ owner_id: ownerId, ...values });
+    }
+
+    async updateRule(ownerId: number, ruleId: number, input: RoutingRuleInput): Promise<LeadRoutingRule> {
+        const rule = await this.getRule(ownerId, ruleId);
+        const values = await this.validateRule(ownerId, input);
+
+        // Restart the rotation when the agents change
+        const agentsChanged = values.agent_ids.join(',') !== rule.agent_ids.join(',');
+        return rule.update({ ...values, ...(agentsChanged ? { last_assigned_to: null } : {}) });
+    }
+
+    async deleteRule(ownerId: number, ruleId: number): Promise<void> {
+        const rule = await this.getRule(ownerId, ruleId);
+        await rule.destroy();
+    }
+
+    /**
+     * The people the owner's leads can go to: the owner and the active team members whose role
+     * includes sales, with how many open leads each has
+     */
+    async getAgents(ownerId: number): Promise<TeamAgent[]> {
+        const owner = await User.findByPk(ownerId, { attributes: ['id', 'first_name', 'last_name', 'email'] });
+        if (!owner) {
+            throw new NotFoundError('User not found');
+        }
+
+        const members = (await BuilderTeamMember.findAll({
+            where: { builder_id: ownerId, status: BuilderTeamMemberStatus.ACTIVE, user_id: { [Op.ne]: null } },
+        })).filter(canManageSales);
+        const users = await User.findAll({
+            where: { id: members.map(member => member.user_id!) },
+            attributes: ['id', 'first_name', 'last_name', 'email'],
+            order: [['first_name', 'ASC'], ['last_name', 'ASC']],
+        });
+        const loads = await this.getOpenLeadCounts([owner.id, ...users.map(user => user.id)]);
+
+        return [owner, ...users].map(user => ({
+            id: user.id,
+            name: fullName(user),
+            email: user.email,
+            is_owner: user.id === ownerId,
+            open_leads: loads.get(user.id) || 0,
+        }));
+    }
+
+    /**
+     * Assign a new lead by the owner's routing rules. Leads that are already assigned are left
+     * as they are, so this is safe to call again for a repeat inquiry.
+     */
+    async routeLead(inquiryId: number): Promise<void> {
+        const routed = await sequelize.transaction(async (transaction) => {
+            const inquiry = await Inquiry.findByPk(inquiryId, { transaction, lock: transaction.LOCK.UPDATE });
+            if (!inquiry) {
+                throw new NotFoundError('Inquiry not found');
+            }
+            if (inquiry.assigned_to || inquiry.status !== InquiryStatus.NEW) {
+                return null;
+            }
+
+            const listing = await this.getListing(inquiry, transaction);
+            if (!listing) {
+                return null;
+            }
+
+            // Locking the owner's rules routes their leads one at a time, which keeps the
+            // round-robin cursor and the open lead counts consistent
+            const rules = await LeadRoutingRule.findAll({
+                where: { owner_id: listing.owner_id, is_active: true },
+                order: [['priority', 'DESC'], ['id', 'ASC']],
+                transaction,
+                lock: transaction.LOCK.UPDATE,
+            });
+
+            for (const rule of rules) {
+                if (!(await this.matches(rule, inquiry, listing, transaction))) {
+                    continue;
+                }
+
+                const agentId = await this.pickAgent(rule, listing, transaction);
+                if (!agentId) {
+                    continue;
+                }
+
+                await this.assign(inquiry, agentId, { rule, transaction });
+                if (rule.strategy === LeadRoutingStrategy.ROUND_ROBIN) {
+                    await rule.update({ last_assigned_to: agentId }, { transaction });
+                }
+                return { inquiry, listing };
+            }
+            return null;
+        });
+
+        if (routed) {
+            await this.notifyAssignee(routed.inquiry, routed.listing);
+        }
+    }
+
+    /**
+     * Hand a lead to someone else on the owner's team, or take it back from everyone with a
+     * null assignee. A lead still waiting for its first response gets a fresh deadline.
+     */
+    async reassign(inquiryId: number, userId: number, assigneeId: number | null, reason?: string | null): Promise<LeadSummary> {
+        const { inquiry, listing } = await sequelize.transaction(async (transaction) => {
+            const inquiry = await Inquiry.findByPk(inquiryId, { transaction, lock: transaction.LOCK.UPDATE });
+            const listing = inquiry ? await this.getListing(inquiry, transaction) : null;
+            if (!inquiry || !listing) {
+                throw new NotFoundError('Lead not found');
+            }
+            if (listing.owner_id !== userId) {
+                if (inquiry.assigned_to === userId) {
+                    throw new AuthorizationError('Only the listing owner can reassign this lead');
+                }
+                throw new NotFoundError('Lead not found');
+            }
+            if ((inquiry.assigned_to ?? null) === assigneeId) {
+                throw new ValidationError(assigneeId ? 'The lead is already assigned to this person' : 'The lead is not assigned');
+            }
+
+            if (assigneeId) {
+                const [eligible] = await this.eligibleAgents(listing.owner_id, [assigneeId], listing.project_id, transaction);
+                if (!eligible) {
+                    throw new ValidationError('Leads can only be assigned to you or to sales members of your team with access to this listing');
+                }
+            }
+
+            await this.assign(inquiry, assigneeId, { assignedBy: userId, reason: reason?.trim() || null, transaction });
+            return { inquiry, listing };
+        });
+
+        if (inquiry.assigned_to && inquiry.assigned_to !== userId) {
+            await this.notifyAssignee(inquiry, listing);
+        }
+
+        const lead = await this.findVisibleLead(inquiry.id, userId);
+        return this.toSummary(lead!, userId);
+    }
+
+    /**
+     * Leads assigned to the user, or the leads of every team they work on ('team'): their own
+     * listings' leads and those of the accounts whose sales team they are on
+     */
+    async getLeads(userId: number, scope: LeadScope, filters: LeadListFilters = {}): Promise<{
+        leads: LeadSummary[];
+        total: number;
+        page: number;
+        totalPages: number;
+    }> {
+        const { page = 1, limit = 20 } = filters;
+        const conditions: WhereOptions[] = [scope === 'mine' ? { assigned_to: userId } : await this.teamLeadsWhere(userId)];
+        if (filters.status) {
+            conditions.push({ status: filters.status });
+        }
+        if (filters.stage) {
+            conditions.push({ stage: filters.stage });
+        }
+        if (filters.owner_id) {
+            conditions.push({ [Op.or]: [{ '$property.user_id$': filters.owner_id }, { '$project.builder_id$': filters.owner_id }] });
+        }
+
+        const { rows, count: total } = await Inquiry.findAndCountAll({
+            where: { [Op.and]: conditions },
+            include: this.leadIncludes(),
+            order: [['created_at', 'DESC']],
+            limit,
+            offset: (page - 1) * limit,
+            subQuery: false,
+        });
+
+        return {
+            leads: rows.map(lead => this.toSummary(lead, userId)),
+            total,
+            page,
+            totalPages: Math.ceil(total / limit),
+        };
+    }
+
+    /**
+     * Who a lead was assigned to over time, newest first
+     */
+    async getAssignmentHistory(inquiryId: number, userId: number): Promise<AssignmentHistoryEntry[]> {
+        const lead = await this.findVisibleLead(inquiryId, userId);
+        if (!lead) {
+            throw new NotFoundError('Lead not found');
+        }
+
+        const entries = await InquiryAssignment.findAll({
+            where: { inquiry_id: inquiryId },
+            order: [['created_at', 'DESC'], ['id', 'DESC']],
+        });
+
+        const userIds = entries.flatMap(entry => [entry.assigned_to, entry.previous_assignee, entry.assigned_by])
+            .filter((id): id is number => !!id);
+        const ruleIds = entries.map(entry => entry.routing_rule_id).filter((id): id is number => !!id);
+        const [users, rules] = await Promise.all([
+            User.findAll({ where: { id: Array.from(new Set(userIds)) }, attributes: ['id', 'first_name', 'last_name'] }),
+            LeadRoutingRule.findAll({ where: { id: Array.from(new Set(ruleIds)) }, attributes: ['id', 'name'] }),
+        ]);
+        const usersById = new Map(users.map(user => [user.id, { id: user.id, name: fullName(user) }]));
+        const rulesById = new Map(rules.map(rule => [rule.id, { id: rule.id, name: rule.name }]));
+
+        return entries.map(entry => ({
+            id: entry.id,
+            assigned_to: entry.assigned_to ? usersById.get(entry.assigned_to) || null : null,
+            previous_assignee: entry.previous_assignee ? usersById.get(entry.previous_assignee) || null : null,
+            assigned_by: entry.assigned_by ? usersById.get(entry.assigned_by) || null : null,
+            rule: entry.routing_rule_id ? rulesById.get(entry.routing_rule_id) || null : null,
+            reason: entry.reason || null,
+            created_at: entry.created_at,
+        }));
+    }
+
+    /**
+     * Flag routed leads that are still new after their deadline and email the listing owner
+     */
+    async flagOverdueLeads(): Promise<number> {
+        const now = new Date();
+        const overdue = await Inquiry.findAll({
+            where: {
+                status: InquiryStatus.NEW,
+                first_responded_at: null,
+                sla_breached_at: null,
+                response_due_at: { [Op.lte]: now },
+            },
+            order: [['response_due_at', 'ASC']],
+            limit: SLA_CHECK_BATCH_SIZE,
+        });
+        if (overdue.length === 0) {
+            return 0;
+        }
+
+        await Inquiry.update({ sla_breached_at: now }, { where: { id: overdue.map(inquiry => inquiry.id) } });
+
+        for (const inquiry of overdue) {
+            try {
+                await this.notifyOwnerOfOverdueLead(inquiry);
+            } catch (error) {
+                console.error(`Failed to send overdue lead notice for inquiry ${inquiry.id}:`, error);
+            }
+        }
+
+        console.log(`Flagged ${overdue.length} lead(s) past their response deadline`);
+        return overdue.length;
+    }
+
+    private async getRule(ownerId: number, ruleId: number): Promise<LeadRoutingRule> {
+        const rule = await LeadRoutingRule.findOne({ where: { id: ruleId, owner_id: ownerId } });
+        if (!rule) {
+            throw new NotFoundError('Routing rule not found');
+        }
+        return rule;
+    }
+
+    private async validateRule(ownerId: number, input: RoutingRuleInput) {
+        const minBudget = input.min_budget ?? null;
+        const maxBudget = input.max_budget ?? null;
+        if (minBudget !== null && maxBudget !== null && minBudget > maxBudget) {
+            throw new ValidationError('The minimum budget cannot be more than the maximum');
+        }
+
+        const projectIds = listOrNull(input.project_ids ? Array.from(new Set(input.project_ids)) : null);
+        if (projectIds) {
+            const owned = await Project.count({ where: { id: projectIds, builder_id: ownerId } });
+            if (owned !== projectIds.length) {
+                throw new ValidationError('Rules can only match your own projects');
+            }
+        }
+
+        const agentIds = Array.from(new Set(input.agent_ids));
+        const eligible = await this.eligibleAgents(ownerId, agentIds, null);
+        if (eligible.length !== agentIds.length) {
+            throw new ValidationError('Leads can only go to you or to active team members with the sales role');
+        }
+
+        return {
+            name: input.name.trim(),
+            priority: input.priority ?? 0,
+            is_active: input.is_active ?? true,
+            cities: listOrNull(input.cities?.map(city => city.trim()).filter(Boolean)),
+            property_types: listOrNull(input.property_types),
+            min_budget: minBudget,
+            max_budget: maxBudget,
+            project_ids: projectIds,
+            sources: listOrNull(input.sources),
+            strategy: input.strategy,
+            agent_ids: agentIds,
+            sla_minutes: input.sla_minutes ?? null,
+        };
+    }
+
+    /**
+     * The given users that may take the owner's leads, in the order given: the owner, and
+     * active sales members scoped to the project when the lead is about one
+     */
+    private async eligibleAgents(ownerId: number, userIds: number[], projectId: number | null, transaction?: Transaction): Promise<number[]> {
+        const members = await BuilderTeamMember.findAll({
+            where: { builder_id: ownerId, user_id: userIds, status: BuilderTeamMemberStatus.ACTIVE },
+            transaction,
+        });
+
+        const eligible = new Set<number>(userIds.includes(ownerId) ? [ownerId] : []);
+        for (const member of members) {
+            const inScope = !projectId || !member.project_ids || member.project_ids.includes(projectId);
+            if (canManageSales(member) && inScope) {
+                eligible.add(member.user_id!);
+            }
+        }
+        return userIds.filter(id => eligible.has(id));
+    }
+
+    private async getListing(inquiry: Inquiry, transaction?: Transaction): Promise<LeadListing | null> {
+        if (inquiry.property_id) {
+            const property = await Property.findByPk(inquiry.property_id, {
+                attributes: ['id', 'user_id', 'title', 'city', 'property_type', 'price'],
+                transaction,
+            });
+            return property && {
+                owner_id: property.user_id,
+                title: property.title,
+                city: property.city,
+                type: property.property_type,
+                project_id: null,
+                price: Number(property.price),
+            };
+        }
+
+        const project = inquiry.project_id
+            ? await Project.findByPk(inquiry.project_id, {
+                attributes: ['id', 'builder_id', 'name', 'city', 'project_type'],
+                transaction,
+            })
+            : null;
+        return project && {
+            owner_id: project.builder_id,
+            title: project.name,
+            city: project.city,
+            type: project.project_type,
+            project_id: project.id,
+            price: null,
+        };
+    }
+
+    private async matches(rule: LeadRoutingRule, inquiry: Inquiry, listing: LeadListing, transaction: Transaction): Promise<boolean> {
+        if (rule.cities && !rule.cities.some(city => city.toLowerCase() === listing.city.toLowerCase())) {
+            return false;
+        }
+        if (rule.property_types && !rule.property_types.includes(listing.type)) {
+            return false;
+        }
+        if (rule.project_ids && (!listing.project_id || !rule.project_ids.includes(listing.project_id))) {
+            return false;
+        }
+        if (rule.sources && !rule.sources.includes(inquiry.source)) {
+            return false;
+        }
+        if (rule.min_budget == null && rule.max_budget == null) {
+            return true;
+        }
+
+        const min = rule.min_budget == null ? null : Number(rule.min_budget);
+        const max = rule.max_budget == null ? null : Number(rule.max_budget);
+        if (listing.price !== null) {
+            return (min === null || listing.price >= min) && (max === null || listing.price <= max);
+        }
+
+        // A project is in the budget band when any of its available units is
+        const priceRange = {
+            ...(min !== null ? { [Op.gte]: min } : {}),
+            ...(max !== null ? { [Op.lte]: max } : {}),
+        };
+        const inBudget = await ProjectUnit.count({
+            where: { project_id: listing.project_id!, status: UnitStatus.AVAILABLE, price: priceRange },
+            transaction,
+        });
+        return inBudget > 0;
+    }
+
+    private async pickAgent(rule: LeadRoutingRule, listing: LeadListing, transaction: Transaction): Promise<number | null> {
+        const agents = await this.eligibleAgents(rule.owner_id, rule.agent_ids, listing.project_id, transaction);
+        if (agents.length === 0) {
+            return null;
+        }
+
+        if (rule.strategy === LeadRoutingStrategy.LEAST_LOAD) {
+            const loads = await this.getOpenLeadCounts(agents, transaction);
+            // Ties go to whoever is listed first
+            return agents.reduce((best, agent) => ((loads.get(agent) || 0) < (loads.get(best) || 0) ? agent : best));
+        }
+
+        // The next agent after the last one assigned, skipping anyone no longer eligible
+        const lastIndex = rule.last_assigned_to ? rule.agent_ids.indexOf(rule.last_assigned_to) : -1;
+        for (let step = 1; step <= rule.agent_ids.length; step++) {
+            const candidate = rule.agent_ids[(lastIndex + step) % rule.agent_ids.length];
+            if (agents.includes(candidate)) {
+                return candidate;
+            }
+        }
+        return agents[0];
+    }
+
+    private async getOpenLeadCounts(userIds: number[], transaction?: Transaction): Promise<Map<number, number>> {
+        const rows = await Inquiry.findAll({
+            attributes: ['assigned_to', [sequelize.fn('COUNT', sequelize.col('id')), 'open_leads']],
+            where: { assigned_to: userIds, status: { [Op.ne]: InquiryStatus.CLOSED } },
+            group: ['assigned_to'],
+            raw: true,
+            transaction,
+        }) as unknown as Array<{ assigned_to: number; open_leads: number | string }>;
+
+        return new Map(rows.map(row => [row.assigned_to, Number(row.open_leads)]));
+    }
+
+    /**
+     * Record an assignment. Leads still waiting for their first response get a deadline counted
+     * from now: the rule's when routed, the default otherwise.
+     */
+    private async assign(
+        inquiry: Inquiry,
+        assigneeId: number | null,
+        options: { rule?: LeadRoutingRule; assignedBy?: number; reason?: string | null; transaction: Transaction }
+    ): Promise<void> {
+        const now = new Date();
+        const previousAssignee = inquiry.assigned_to ?? null;
+        const awaitingResponse = inquiry.status === InquiryStatus.NEW && !inquiry.first_responded_at;
+        const slaMinutes = options.rule?.sla_minutes ?? config.leads.responseSlaMinutes;
+
+        await inquiry.update({
+            assigned_to: assigneeId,
+            assigned_at: assigneeId ? now : null,
+            routing_rule_id: options.rule?.id ?? null,
+            ...(awaitingResponse
+                ? {
+                    response_due_at: assigneeId ? new Date(now.getTime() + slaMinutes * 60 * 1000) : null,
+                    sla_breached_at: null,
+                }
+                : {}),
+        }, { transaction: options.transaction });
+
+        await InquiryAssignment.create({
+            inquiry_id: inquiry.id,
+            assigned_to: assigneeId,
+            previous_assignee: previousAssignee,
+            assigned_by: options.assignedBy ?? null,
+            routing_rule_id: options.rule?.id ?? null,
+            reason: options.reason ?? (options.rule ? `Matched rule "${options.rule.name}"` : null),
+        }, { transaction: options.transaction });
+    }
+
+    /**
+     * Condition matching the leads of the user's own listings and of the teams they sell for
+     */
+    private async teamLeadsWhere(userId: number): Promise<WhereOptions> {
+        const memberships = (await BuilderTeamMember.findAll({
+            where: { user_id: userId, status: BuilderTeamMemberStatus.ACTIVE },
+        })).filter(canManageSales);
+
+        return {
+            [Op.or]: [
+                { '$property.user_id$': userId },
+                { '$project.builder_id$': userId },
+                ...memberships.flatMap(member => [
+                    { '$property.user_id$': member.builder_id },
+                    member.project_ids
+                        ? { '$project.builder_id$': member.builder_id, project_id: { [Op.in]: member.project_ids } }
+                        : { '$project.builder_id$': member.builder_id },
+                ]),
+            ],
+        };
+    }
+
+    /**
+     * A lead the user may work: one assigned to them, or one of their teams' leads
+     */
+    async findVisibleLead(inquiryId: number, userId: number): Promise<Inquiry | null> {
+        return Inquiry.findOne({
+            where: {
+                [Op.and]: [
+                    { id: inquiryId },
+                    { [Op.or]: [{ assigned_to: userId }, await this.teamLeadsWhere(userId)] },
+                ],
+            },
+            include: this.leadIncludes(),
+            subQuery: false,
+        });
+    }
+
+    private leadIncludes() {
+        return [
+            { model: Property, as: 'property', attributes: ['id', 'title', 'city', 'user_id'], required: false },
+            { model: Project, as: 'project', attributes: ['id', 'name', 'city', 'builder_id'], required: false },
+            { model: User, as: 'assignee', attributes: ['id', 'first_name', 'last_name', 'email'], required: false },
+        ];
+    }
+
+    toSummary(lead: Inquiry, userId: number): LeadSummary {
+        const listing = lead.property
+            ? { type: 'property' as const, id: lead.property.id, title: lead.property.title, city: lead.property.city }
+            : lead.project
+                ? { type: 'project' as const, id: lead.project.id, title: lead.project.name, city: lead.project.city }
+                : null;
+        const ownerId = lead.property?.user_id ?? lead.project?.builder_id;
+
+        return {
+            id: lead.id,
+            name: lead.name,
+            email: lead.email,
+            phone: lead.phone || null,
+            message: lead.message,
+            status: lead.status,
+            stage: lead.stage,
+            lost_reason: lead.lost_reason || null,
+            next_follow_up_at: lead.next_follow_up_at || null,
+            source: lead.source,
+            listing,
+            assignee: lead.assignee
+                ? { id: lead.assignee.id, name: fullName(lead.assignee), email: lead.assignee.email }
+                : null,
+            assigned_at: lead.assigned_at || null,
+            response_due_at: lead.response_due_at || null,
+            first_responded_at: lead.first_responded_at || null,
+            sla_status: this.slaStatus(lead),
+            can_reassign: ownerId === userId,
+            created_at: lead.created_at,
+        };
+    }
+
+    private slaStatus(lead: Inquiry): LeadSlaStatus {
+        if (!lead.response_due_at) {
+            return 'none';
+        }
+
+        const due = new Date(lead.response_due_at).getTime();
+        if (lead.first_responded_at) {
+            return new Date(lead.first_responded_at).getTime() <= due ? 'met' : 'missed';
+        }
+        if (lead.status !== InquiryStatus.NEW) {
+            return 'met';
+        }
+        return lead.sla_breached_at || Date.now() > due ? 'missed' : 'pending';
+    }
+
+    private async notifyAssignee(inquiry: Inquiry, listing: LeadListing): Promise<void> {
+        try {
+            const agent = inquiry.assigned_to ? await User.findByPk(inquiry.assigned_to) : null;
+            if (!agent) {
+                return;
+            }
+
+            await emailService.sendLeadAssigned(agent.email, {
+                agentName: agent.first_name,
+                inquirerName: inquiry.name,
+                listingTitle: listing.title,
+                message: inquiry.message,
+                respondBy: inquiry.response_due_at ? formatDateTime(new Date(inquiry.response_due_at)) : 'No deadline',
+                leadsUrl: `${process.env.FRONTEND_URL}/leads`,
+            });
+        } catch (error) {
+            // The lead is assigned either way; the email is a courtesy
+            console.error(`Failed to email the assignee of inquiry ${inquiry.id}:`, error);
+        }
+    }
+
+    private async notifyOwnerOfOverdueLead(inquiry: Inquiry): Promise<void> {
+        const listing = await this.getListing(inquiry);
+        const owner = listing ? await User.findByPk(listing.owner_id) : null;
+        if (!listing || !owner) {
+            return;
+        }
+
+        const assignee = inquiry.assigned_to ? await User.findByPk(inquiry.assigned_to) : null;
+        await emailService.sendLeadOverdue(owner.email, {
+            ownerName: owner.first_name,
+            inquirerName: inquiry.name,
+            listingTitle: listing.title,
+            assigneeName: assignee ? fullName(assignee) : null,
+            dueAt: formatDateTime(new Date(inquiry.response_due_at!)),
+            leadsUrl: `${process.env.FRONTEND_URL}/leads`,
+        });
+    }
+}
+
+export default LeadRoutingService;
@@ -0,0 +1,187 @@
+import { Op, WhereOptions, col, fn } from 'sequelize';
+import { Inquiry, LeadSource, LeadStage } from '../models/Inquiry';
+import { User } from '../models/User';
+import { Property } from '../models/Property';
+import { ProjectUnit, UnitStatus } from '../models/ProjectUnit';
+import { UserFavorite } from '../models/UserFavorite';
+import { SavedSearch } from '../models/SavedSearch';
+import { SiteVisit, SiteVisitStatus } from '../models/SiteVisit';
+import RecommendationService from './recommendationService';
+import { LeadScore, LeadSignals, PriceRange, parseBudget, scoreLead } from '../utils/leadScoring';
+
+// Won and lost leads keep the score they closed with
+const CLOSED_STAGES = [LeadStage.WON, LeadStage.LOST];
+
+// Most open leads one change rescores, newest first
+const MAX_RESCORED_LEADS = 20;
+
+export interface RescoreTarget {
+    inquirerId?: number | null;
+    email?: string | null;
+    // Only leads on this property
+    propertyId?: number | null;
+}
+
+/**
+ * Scores leads from what the inquirer has done on the platform and what they wrote.
+ * Leads are scored when they come in and rescored when the inquirer views or saves
+ * listings, verifies their email or books a site visit.
+ */
+class LeadScoringService {
+    private recommendations = new RecommendationService();
+
+    async scoreInquiry(inquiryId: number): Promise<LeadScore | null> {
+        const inquiry = await Inquiry.findByPk(inquiryId);
+        if (!inquiry) {
+            return null;
+        }
+
+        const result = scoreLead(await this.collectSignals(inquiry));
+
+        // A plain update, so the inquiry's validation hooks don't run on the whole row
+        await Inquiry.update(
+            { score: result.score, score_factors: result.factors, scored_at: new Date() },
+            { where: { id: inquiry.id } }
+        );
+
+        return result;
+    }
+
+    /**
+     * Rescore an inquirer's open leads after something that feeds the score changed
+     */
+    async rescoreLeads(target: RescoreTarget): Promise<number> {
+        const inquirerMatches: WhereOptions[] = [];
+        if (target.inquirerId) {
+            inquirerMatches.push({ inquirer_id: target.inquirerId });
+        }
+        if (target.email) {
+            inquirerMatches.push({ email: target.email.trim().toLowerCase() });
+        }
+        if (inquirerMatches.length === 0) {
+            return 0;
+        }
+
+        const leads = await Inquiry.findAll({
+            attributes: ['id'],
+            where: {
+                [Op.or]: inquirerMatches,
+                stage: { [Op.notIn]: CLOSED_STAGES },
+                ...(target.propertyId ? { property_id: target.propertyId } : {}),
+            },
+            order: [['created_at', 'DESC']],
+            limit: MAX_RESCORED_LEADS,
+        });
+
+        for (const lead of leads) {
+            await this.scoreInquiry(lead.id);
+        }
+
+        return leads.length;
+    }
+
+    private async collectSignals(inquiry: Inquiry): Promise<LeadSignals> {
+        const user = inquiry.inquirer_id
+            ? await User.findByPk(inquiry.inquirer_id, { attributes: ['id', 'email', 'is_verified'] })
+            : null;
+
+        const [viewHistory, favorites, budget, listingPrice, earlierInquiries, siteVisitBooked] = await Promise.all([
+            user
+                ? this.recommendations.getViewHistory(user.id, inquiry.property_id)
+                : Promise.resolve({ listingsViewed: 0, listingViews: 0 }),
+            user
+                ? UserFavorite.findAll({ where: { user_id: user.id }, attributes: ['property_id'] })
+                : Promise.resolve([] as UserFavorite[]),
+            this.getBudget(inquiry.message, user?.id),
+            this.getListingPrice(inquiry),
+            Inquiry.count({ where: { email: inquiry.email, id: { [Op.lt]: inquiry.id } } }),
+            this.hasBookedSiteVisit(inquiry),
+        ]);
+
+        const savedThisListing = !!inquiry.property_id &&
+            favorites.some(favorite => favorite.property_id === inquiry.property_id);
+
+        return {
+            // Signing in with a verified account only vouches for the email it was verified with
+            emailVerified: user
+                ? user.is_verified && user.email.toLowerCase() === inquiry.email.toLowerCase()
+                : null,
+            phone: inquiry.phone,
+            listingsViewed: viewHistory.listingsViewed,
+            savedThisListing,
+            otherListingsSaved: favorites.length - (savedThisListing ? 1 : 0),
+            message: inquiry.message,
+            budget,
+            listingPrice,
+            listingViews: viewHistory.listingViews,
+            earlierInquiries,
+            siteVisitBooked,
+        };
+    }
+
+    // A budget in the message wins over the price ranges of the inquirer's saved searches
+    private async getBudget(message: string, userId?: number): Promise<PriceRange | null> {
+        const stated = parseBudget(message);
+        if (stated || !userId) {
+            return stated;
+        }
+
+        const searches = await SavedSearch.findAll({ where: { user_id: userId }, attributes: ['search_criteria'] });
+        const minPrices = searches.map(search => search.search_criteria?.min_price).filter((price): price is number => !!price);
+        const maxPrices = searches.map(search => search.search_criteria?.max_price).filter((price): price is number => !!price);
+        if (minPrices.length === 0 && maxPrices.length === 0) {
+            return null;
+        }
+
+        return {
+            min: minPrices.length > 0 ? Math.min(...minPrices.map(Number)) : null,
+            max: maxPrices.length > 0 ? Math.max(...maxPrices.map(Number)) : null,
+        };
+    }
+
+    private async getListingPrice(inquiry: Inquiry): Promise<PriceRange | null> {
+        if (inquiry.property_id) {
+            const property = await Property.findByPk(inquiry.property_id, { attributes: ['id', 'price'] });
+            return property ? { min: Number(property.price), max: Number(property.price) } : null;
+        }
+
+        // Projects are priced by the units still on sale
+        const prices = await ProjectUnit.findOne({
+            attributes: [
+                [fn('MIN', col('price')), 'min_price'],
+                [fn('MAX', col('price')), 'max_price'],
+            ],
+            where: { project_id: inquiry.project_id, status: UnitStatus.AVAILABLE },
+            raw: true,
+        }) as unknown as { min_price: string | null; max_price: string | null } | null;
+
+        if (!prices || prices.min_price === null) {
+            return null;
+        }
+        return { min: Number(prices.min_price), max: Number(prices.max_price) };
+    }
+
+    private async hasBookedSiteVisit(inquiry: Inquiry): Promise<boolean> {
+        if (inquiry.source === LeadSource.SITE_VISIT) {
+            return true;
+        }
+        // Site visits are booked against properties only
+        if (!inquiry.property_id) {
+            return false;
+        }
+
+        const visits = await SiteVisit.count({
+            where: {
+                property_id: inquiry.property_id,
+                status: { [Op.ne]: SiteVisitStatus.CANCELLED },
+                [Op.or]: [
+                    { visitor_email: inquiry.email },
+                    ...(inquiry.inquirer_id ? [{ visitor_id: inquiry.inquirer_id }] : []),
+                ],
+            },
+        });
+        return visits > 0;
+    }
+}
+
+export default LeadScoringService;
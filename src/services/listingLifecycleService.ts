@@ -0,0 +1,268 @@
+import { Op, Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import { Property, ListingState } from '../models/Property';
+import { PropertyStateTransition } from '../models/PropertyStateTransition';
+import { User } from '../models/User';
+import { UserRole } from '../types';
+import CacheService from './cacheService';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../utils/errorResponse';
+import {
+    LISTING_TRANSITIONS,
+    LifecycleActor,
+    ListingAction,
+    getAvailableActions,
+} from '../utils/listingLifecycle';
+
+export interface ListingTransitionOptions {
+    reason?: string;
+    publishAt?: Date;
+}
+
+export interface ListingLifecycleSummary {
+    propertyId: number;
+    state: ListingState;
+    publishAt: Date | null;
+    publishedAt: Date | null;
+    rejectionReason: string | null;
+    availableActions: ListingAction[];
+    transitions: PropertyStateTransition[]; // Newest first
+}
+
+export interface LifecycleUser {
+    userId: number;
+    role?: UserRole;
+}
+
+// Scheduled listings go live within this long of their publish time
+const SCHEDULED_PUBLISH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Moves listings through the publishing workflow (see LISTING_TRANSITIONS), enforcing who may
+ * take each action and recording every change in property_state_transitions.
+ */
+class ListingLifecycleService {
+    private cacheService: CacheService;
+    private scheduler: NodeJS.Timeout | null = null;
+
+    constructor() {
+        this.cacheService = new CacheService();
+    }
+
+    /**
+     * Start publishing scheduled listings when they are due
+     * This should be called when the application starts
+     */
+    start(): void {
+        if (this.scheduler) {
+            console.log('Listing lifecycle scheduler is already running');
+            return;
+        }
+
+        console.log('Starting listing lifecycle scheduler...');
+        this.scheduler = setInterval(() => {
+            this.publishDueListings().catch(error => console.error('Error publishing scheduled listings:', error));
+        }, SCHEDULED_PUBLISH_INTERVAL_MS);
+    }
+
+    stop(): void {
+        if (this.scheduler) {
+            clearInterval(this.scheduler);
+            this.scheduler = null;
+        }
+        console.log('Listing lifecycle scheduler stopped');
+    }
+
+    /**
+     * Apply a workflow action on behalf of a user, or of the system when no user is given
+     */
+    async transition(
+        propertyId: number,
+        action: ListingAction,
+        user: LifecycleUser | null,
+        options: ListingTransitionOptions = {}
+    ): Promise<Property> {
+        const transition = LISTING_TRANSITIONS[action];
+        if (!transition) {
+            throw new ValidationError(`Unknown listing action "${action}"`);
+        }
+
+        const reason = options.reason?.trim() || null;
+        if (transition.requiresReason && !reason) {
+            throw new ValidationError(`A reason is required to ${action} a listing`);
+        }
+
+        if (transition.requiresPublishAt && (!options.publishAt || options.publishAt.getTime() <= Date.now())) {
+            throw new ValidationError('publishAt must be a date in the future');
+        }
+
+        const property = await sequelize.transaction(async (transaction) => {
+            const locked = await Property.findByPk(propertyId, { transaction, lock: transaction.LOCK.UPDATE });
+            const actors = locked ? this.getActors(locked, user) : [];
+
+            // Other owners' listings are reported as missing rather than forbidden
+            if (!locked || actors.length === 0) {
+                throw new NotFoundError('Property not found');
+            }
+
+            const actor = transition.actors.find(candidate => actors.includes(candidate));
+            if (!actor) {
+                throw new AuthorizationError(`You are not allowed to ${action.replace('_', ' ')} this listing`);
+            }
+
+            if (!transition.from.includes(locked.listing_state)) {
+                throw new ConflictError(`Cannot ${action.replace('_', ' ')} a listing that is ${locked.listing_state.replace('_', ' ')}`);
+            }
+
+            await this.applyTransition(locked, action, actor, user?.userId ?? null, { reason, publishAt: options.publishAt }, transaction);
+            return locked;
+        });
+
+        await this.cacheService.invalidatePropertyRelatedCache(propertyId);
+        await this.cacheService.invalidateSearchCache();
+
+        return property;
+    }
+
+    /**
+     * Audit trail entry for a newly created listing
+     */
+    async recordCreation(property: Property, userId: number, transaction?: Transaction): Promise<void> {
+        await PropertyStateTransition.create({
+            property_id: property.id,
+            action: 'create',
+            from_state: null,
+            to_state: property.listing_state,
+            actor_id: userId,
+            actor_role: 'owner',
+        }, { transaction });
+    }
+
+    /**
+     * Current state, the actions the user can take and the audit trail
+     */
+    async getLifecycle(propertyId: number, user: LifecycleUser): Promise<ListingLifecycleSummary> {
+        const property = await Property.findByPk(propertyId);
+        const actors = property ? this.getActors(property, user) : [];
+
+        if (!property || actors.length === 0) {
+            throw new NotFoundError('Property not found');
+        }
+
+        const transitions = await PropertyStateTransition.findAll({
+            where: { property_id: propertyId },
+            include: [
+                {
+                    model: User,
+                    as: 'actor',
+                    attributes: ['id', 'first_name', 'last_name', 'role'],
+                },
+            ],
+            order: [['created_at', 'DESC'], ['id', 'DESC']],
+        });
+
+        return {
+            propertyId: property.id,
+            state: property.listing_state,
+            publishAt: property.publish_at || null,
+            publishedAt: property.published_at || null,
+            rejectionReason: property.rejection_reason || null,
+            availableActions: getAvailableActions(property.listing_state, actors),
+            transitions,
+        };
+    }
+
+    /**
+     * Publish scheduled listings whose publish time has passed. Returns how many went live.
+     */
+    async publishDueListings(now: Date = new Date()): Promise<number> {
+        const due = await Property.findAll({
+            where: {
+                listing_state: ListingState.SCHEDULED,
+                publish_at: { [Op.lte]: now },
+            },
+            attributes: ['id'],
+        });
+
+        return this.transitionAll(due.map(property => property.id), 'publish');
+    }
+
+    /**
+     * Archive published listings past their expiry date that don't auto-renew
+     */
+    async archiveExpiredListings(): Promise<number> {
+        const expired = await Property.findAll({
+            where: {
+                listing_state: ListingState.PUBLISHED,
+                expires_at: { [Op.lt]: new Date() },
+                auto_renew: false,
+            },
+            attributes: ['id'],
+        });
+
+        return this.transitionAll(expired.map(property => property.id), 'archive', { reason: 'Listing expired' });
+    }
+
+    private async transitionAll(propertyIds: number[], action: ListingAction, options?: ListingTransitionOptions): Promise<number> {
+        let count = 0;
+
+        for (const propertyId of propertyIds) {
+            try {
+                await this.transition(propertyId, action, null, options);
+                count++;
+            } catch (error) {
+                // The listing may have changed since it was selected; skip it
+                console.error(`Failed to ${action} property ${propertyId}:`, error);
+            }
+        }
+
+        return count;
+    }
+
+    private getActors(property: Property, user: LifecycleUser | null): LifecycleActor[] {
+        if (!user) {
+            return ['system'];
+        }
+
+        const actors: LifecycleActor[] = [];
+        if (property.user_id === user.userId) {
+            actors.push('owner');
+        }
+        if (user.role === UserRole.ADMIN) {
+            actors.push('admin');
+        }
+        return actors;
+    }
+
+    private async applyTransition(
+        property: Property,
+        action: ListingAction,
+        actor: LifecycleActor,
+        actorId: number | null,
+        options: { reason: string | null; publishAt?: Date },
+        transaction: Transaction
+    ): Promise<void> {
+        const fromState = property.listing_state;
+        const toState = LISTING_TRANSITIONS[action].to;
+
+        await property.update({
+            listing_state: toState,
+            publish_at: action === 'schedule' ? options.publishAt : null,
+            // Keep the rejection reason visible until the owner resubmits
+            rejection_reason: action === 'reject' ? options.reason : toState === ListingState.SUBMITTED ? null : property.rejection_reason,
+            published_at: toState === ListingState.PUBLISHED ? new Date() : property.published_at,
+        }, { transaction });
+
+        await PropertyStateTransition.create({
+            property_id: property.id,
+            action,
+            from_state: fromState,
+            to_state: toState,
+            actor_id: actorId,
+            actor_role: actor,
+            reason: options.reason,
+            publish_at: action === 'schedule' ? options.publishAt : null,
+        }, { transaction });
+    }
+}
+
+export default ListingLifecycleService;
@@ -2,6 +2,8 @@ import { Message, MessageStatus } from '../models/Message';
 import { User } from '../models/User';
 import { Property } from '../models/Property';
 import { Inquiry } from '../models/Inquiry';
+import { ConversationParticipant } from '../models/ConversationParticipant';
+import realtimeService from './realtimeService';
 import { Op } from 'sequelize';
 
 export interface CreateMessageData {
@@ -53,6 +55,13 @@ export interface Conversation {
   total_messages: number;
 }
 
+export interface ReadReceipt {
+  conversation_id: string;
+  reader_id: number;
+  message_ids: number[];
+  read_at: Date;
+}
+
 class MessagingService {
   async sendMessage(data: CreateMessageData): Promise<Message> {
     // Validate that sender and recipient exist
@@ -352,23 +361,104 @@ class MessagingService {
   }
 
   async markMessagesAsRead(conversationId: string, userId: number): Promise<number> {
+    const unread = await Message.findAll({
+      where: {
+        conversation_id: conversationId,
+        recipient_id: userId,
+        status: MessageStatus.SENT,
+      },
+      attributes: ['id', 'sender_id'],
+    });
+
+    if (unread.length === 0) {
+      return 0;
+    }
+
+    const readAt = new Date();
     const [updatedCount] = await Message.update(
       { 
         status: MessageStatus.READ,
-        read_at: new Date(),
+        read_at: readAt,
       },
       {
         where: {
-          conversation_id: conversationId,
-          recipient_id: userId,
+          id: unread.map(message => message.id),
           status: MessageStatus.SENT,
         },
       }
     );
 
+    // Each sender gets receipts for their own messages only
+    const messageIdsBySender = new Map<number, number[]>();
+    for (const message of unread) {
+      messageIdsBySender.set(message.sender_id, [...(messageIdsBySender.get(message.sender_id) || []), message.id]);
+    }
+
+    await Promise.all([
+      ...[...messageIdsBySender].map(([senderId, messageIds]) => {
+        const receipt: ReadReceipt = {
+          conversation_id: conversationId,
+          reader_id: userId,
+          message_ids: messageIds,
+          read_at: readAt,
+        };
+        return realtimeService.publish([senderId], 'message:read', receipt);
+      }),
+      this.publishUnreadCount(userId, conversationId),
+    ]);
+
     return updatedCount;
   }
 
+  /**
+   * Push a new message to both participants, and the recipient's new unread counts
+   */
+  async publishNewMessage(message: Message): Promise<void> {
+    await Promise.all([
+      realtimeService.publish([message.sender_id, message.recipient_id], 'message:new', {
+        conversation_id: message.conversation_id,
+        message,
+      }),
+      this.publishUnreadCount(message.recipient_id, message.conversation_id),
+    ]);
+  }
+
+  /**
+   * Tell the other participants of a conversation that a user started or stopped typing
+   */
+  async publishTyping(conversationId: number, userId: number, isTyping: boolean): Promise<void> {
+    const participants = await ConversationParticipant.findAll({
+      where: { conversation_id: conversationId },
+      attributes: ['user_id'],
+    });
+
+    await realtimeService.publish(
+      participants.map(participant => participant.user_id).filter(id => id !== userId),
+      'typing',
+      { conversation_id: conversationId.toString(), user_id: userId, is_typing: isTyping }
+    );
+  }
+
+  async publishUnreadCount(userId: number, conversationId?: string): Promise<void> {
+    const [total, conversationUnread] = await Promise.all([
+      this.getUnreadCount(userId),
+      conversationId
+        ? Message.count({
+          where: {
+            conversation_id: conversationId,
+            recipient_id: userId,
+            status: MessageStatus.SENT,
+          },
+        })
+        : Promise.resolve(undefined),
+    ]);
+
+    await realtimeService.publish([userId], 'unread_count', {
+      unread_count: total,
+      ...(conversationId && { conversation_id: conversationId, conversation_unread_count: conversationUnread }),
+    });
+  }
+
   async deleteMessage(messageId: number, userId: number): Promise<void> {
     const message = await Message.findByPk(messageId);
     
@@ -0,0 +1,556 @@
+import { Op, Transaction, UniqueConstraintError } from 'sequelize';
+import sequelize from '../config/database';
+import { Project } from '../models/Project';
+import { ProjectUnit } from '../models/ProjectUnit';
+import { UnitReservation, ReservationStatus } from '../models/UnitReservation';
+import { ProjectPaymentPlan, PaymentPlanStage } from '../models/ProjectPaymentPlan';
+import { UnitPaymentSchedule, PaymentScheduleStatus } from '../models/UnitPaymentSchedule';
+import { UnitInstallment } from '../models/UnitInstallment';
+import { InstallmentPayment } from '../models/InstallmentPayment';
+import { User } from '../models/User';
+import { ProjectPermission } from '../models/BuilderTeamMember';
+import {
+    InstallmentStatus,
+    ScheduleSummary,
+    buildInstallments,
+    installmentStatus,
+    outstandingAmount,
+    summarizeInstallments,
+    today,
+} from '../utils/paymentSchedule';
+import { renderDemandLetter } from '../utils/demandLetter';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errorResponse';
+import ProjectAccessService from './projectAccessService';
+
+export interface PaymentPlanInput {
+    name: string;
+    description?: string | null;
+    stages: PaymentPlanStage[];
+    is_active?: boolean;
+}
+
+export interface PaymentInput {
+    amount: number;
+    paid_on?: string;
+    method?: string | null;
+    reference?: string | null;
+    notes?: string | null;
+}
+
+export interface ScheduleUser {
+    userId: number;
+}
+
+export type InstallmentDetails = ReturnType<UnitInstallment['toJSON']> & {
+    status: InstallmentStatus;
+    outstanding_amount: number;
+    payments: InstallmentPayment[];
+};
+
+export interface PaymentScheduleDetails {
+    schedule: UnitPaymentSchedule;
+    installments: InstallmentDetails[];
+    summary: ScheduleSummary;
+}
+
+export interface ProjectReceivable {
+    schedule_id: number;
+    unit_id: number;
+    unit_number: string;
+    tower: string | null;
+    buyer_id: number;
+    plan_name: string;
+    summary: ScheduleSummary;
+}
+
+// Allow for rounding when checking stage percentages add up to 100
+const PERCENT_TOLERANCE = 0.01;
+
+/**
+ * Construction-linked payment plans for booked units. Builders keep plan templates per project;
+ * applying one to a booked unit generates dated installments that payments are recorded against,
+ * and a demand letter can be produced for each installment.
+ */
+class PaymentScheduleService {
+    private projectAccess = new ProjectAccessService();
+
+    /**
+     * Plan templates for a builder's project
+     */
+    async getPlans(projectId: number, userId: number): Promise<ProjectPaymentPlan[]> {
+        await this.getBuilderProject(projectId, userId, ProjectPermission.VIEW);
+
+        return ProjectPaymentPlan.findAll({
+            where: { project_id: projectId },
+            order: [['is_active', 'DESC'], ['name', 'ASC']],
+        });
+    }
+
+    async createPlan(projectId: number, userId: number, input: PaymentPlanInput): Promise<ProjectPaymentPlan> {
+        await this.getBuilderProject(projectId, userId, ProjectPermission.MANAGE_PRICING);
+        this.validateStages(input.stages);
+
+        try {
+            return await ProjectPaymentPlan.create({
+                project_id: projectId,
+                name: input.name.trim(),
+                description: input.description?.trim() || null,
+                stages: input.stages.map(stage => ({ ...stage, name: stage.name.trim() })),
+                is_active: input.is_active ?? true,
+                created_by: userId,
+            });
+        } catch (error) {
+            if (error instanceof UniqueConstraintError) {
+                throw new ConflictError('A payment plan with this name already exists');
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Change a template. Schedules already generated from it keep their installments.
+     */
+    async updatePlan(projectId: number, userId: number, planId: number, input: PaymentPlanInput): Promise<ProjectPaymentPlan> {
+        const plan = await this.getPlan(projectId, userId, planId);
+        this.validateStages(input.stages);
+
+        try {
+            return await plan.update({
+                name: input.name.trim(),
+                description: input.description?.trim() || null,
+                stages: input.stages.map(stage => ({ ...stage, name: stage.name.trim() })),
+                is_active: input.is_active ?? plan.is_active,
+            });
+        } catch (error) {
+            if (error instanceof UniqueConstraintError) {
+                throw new ConflictError('A payment plan with this name already exists');
+            }
+            throw error;
+        }
+    }
+
+    async deletePlan(projectId: number, userId: number, planId: number): Promise<void> {
+        const plan = await this.getPlan(projectId, userId, planId);
+        await plan.destroy();
+    }
+
+    /**
+     * Generate the installments for a booked unit from a plan. Amounts are shares of the unit's
+     * current price; due dates count from the booking date.
+     */
+    async applyPlan(
+        projectId: number,
+        unitId: number,
+        userId: number,
+        planId: number,
+        bookingDate?: string
+    ): Promise<PaymentScheduleDetails> {
+        const schedule = await sequelize.transaction(async (transaction) => {
+            await this.getBuilderProject(projectId, userId, ProjectPermission.MANAGE_SALES, transaction);
+
+            const unit = await ProjectUnit.findOne({
+                where: { id: unitId, project_id: projectId },
+                transaction,
+                lock: transaction.LOCK.UPDATE,
+            });
+            if (!unit) {
+                throw new NotFoundError('Unit not found');
+            }
+
+            const reservation = await UnitReservation.findOne({
+                where: { unit_id: unitId, status: ReservationStatus.BOOKED },
+                transaction,
+            });
+            if (!reservation) {
+                throw new ConflictError('Payment plans can only be applied to booked units');
+            }
+
+            const existing = await UnitPaymentSchedule.findOne({
+                where: { reservation_id: reservation.id },
+                transaction,
+            });
+            if (existing) {
+                throw new ConflictError('This booking already has a payment schedule');
+            }
+
+            const plan = await ProjectPaymentPlan.findOne({ where: { id: planId, project_id: projectId }, transaction });
+            if (!plan) {
+                throw new NotFoundError('Payment plan not found');
+            }
+            if (!plan.is_active) {
+                throw new ValidationError('This payment plan is inactive');
+            }
+
+            const totalAmount = Number(unit.price);
+            const startDate = bookingDate || (reservation.booked_at || new Date()).toISOString().slice(0, 10);
+
+            const created = await UnitPaymentSchedule.create({
+                project_id: projectId,
+                unit_id: unitId,
+                reservation_id: reservation.id,
+                buyer_id: reservation.buyer_id,
+                plan_id: plan.id,
+                plan_name: plan.name,
+                total_amount: totalAmount,
+                booking_date: startDate,
+                created_by: userId,
+            }, { transaction });
+
+            await UnitInstallment.bulkCreate(
+                buildInstallments(totalAmount, startDate, plan.stages).map(installment => ({
+                    ...installment,
+                    schedule_id: created.id,
+                })),
+                { transaction }
+            );
+
+            return created;
+        });
+
+        return this.withInstallments(schedule);
+    }
+
+    /**
+     * The active schedule on a unit, visible to its buyer and the builder's sales team
+     */
+    async getSchedule(projectId: number, unitId: number, user: ScheduleUser): Promise<PaymentScheduleDetails | null> {
+        const schedule = await this.findActiveSchedule(projectId, unitId);
+        if (!schedule) {
+            return null;
+        }
+
+        await this.assertCanView(schedule, user);
+        return this.withInstallments(schedule);
+    }
+
+    /**
+     * Drop a schedule that has no payments against it, e.g. to apply a different plan
+     */
+    async removeSchedule(projectId: number, unitId: number, userId: number): Promise<void> {
+        await this.getBuilderProject(projectId, userId, ProjectPermission.MANAGE_SALES);
+
+        await sequelize.transaction(async (transaction) => {
+            const schedule = await this.findActiveSchedule(projectId, unitId, transaction);
+            if (!schedule) {
+                throw new NotFoundError('Payment schedule not found');
+            }
+
+            const paidInstallments = await UnitInstallment.count({
+                where: { schedule_id: schedule.id, paid_amount: { [Op.gt]: 0 } },
+                transaction,
+            });
+            if (paidInstallments > 0) {
+                throw new ConflictError('Payments have been recorded against this schedule');
+            }
+
+            await schedule.destroy({ transaction });
+        });
+    }
+
+    /**
+     * Move an installment's due date, e.g. when the construction milestone it is linked to
+     * is reached earlier or later than planned
+     */
+    async rescheduleInstallment(
+        projectId: number,
+        unitId: number,
+        userId: number,
+        installmentId: number,
+        dueDate: string
+    ): Promise<UnitInstallment> {
+        await this.getBuilderProject(projectId, userId, ProjectPermission.MANAGE_SALES);
+
+        const schedule = await this.findActiveSchedule(projectId, unitId);
+        if (!schedule) {
+            throw new NotFoundError('Payment schedule not found');
+        }
+
+        const installment = await UnitInstallment.findOne({ where: { id: installmentId, schedule_id: schedule.id } });
+        if (!installment) {
+            throw new NotFoundError('Installment not found');
+        }
+        if (installment.paid_at) {
+            throw new ConflictError('This installment has already been paid');
+        }
+
+        return installment.update({ due_date: dueDate });
+    }
+
+    /**
+     * Record money received against an installment. Payments cannot exceed what is outstanding.
+     */
+    async recordPayment(
+        projectId: number,
+        unitId: number,
+        userId: number,
+        installmentId: number,
+        input: PaymentInput
+    ): Promise<PaymentScheduleDetails> {
+        await this.getBuilderProject(projectId, userId, ProjectPermission.MANAGE_SALES);
+
+        const paidOn = input.paid_on || today();
+        if (paidOn > today()) {
+            throw new ValidationError('Payment date cannot be in the future');
+        }
+
+        const schedule = await this.findActiveSchedule(projectId, unitId);
+        if (!schedule) {
+            throw new NotFoundError('Payment schedule not found');
+        }
+
+        await sequelize.transaction(async (transaction) => {
+            const installment = await UnitInstallment.findOne({
+                where: { id: installmentId, schedule_id: schedule.id },
+                transaction,
+                lock: transaction.LOCK.UPDATE,
+            });
+            if (!installment) {
+                throw new NotFoundError('Installment not found');
+            }
+
+            const outstanding = outstandingAmount(installment);
+            if (outstanding === 0) {
+                throw new ConflictError('This installment has already been paid');
+            }
+            if (input.amount > outstanding) {
+                throw new ValidationError(`Payment exceeds the outstanding amount of ${outstanding}`);
+            }
+
+            await InstallmentPayment.create({
+                installment_id: installment.id,
+                amount: input.amount,
+                paid_on: paidOn,
+                method: input.method?.trim() || null,
+                reference: input.reference?.trim() || null,
+                notes: input.notes?.trim() || null,
+                recorded_by: userId,
+            }, { transaction });
+
+            const paidAmount = Math.round((Number(installment.paid_amount) + input.amount) * 100) / 100;
+            await installment.update({
+                paid_amount: paidAmount,
+                paid_at: paidAmount >= Number(installment.amount) ? new Date() : null,
+            }, { transaction });
+        });
+
+        return this.withInstallments(schedule);
+    }
+
+    /**
+     * Paid, outstanding and overdue amounts for every active schedule in a builder's project.
+     * With overdueOnly, only schedules with an overdue installment are returned.
+     */
+    async getProjectReceivables(projectId: number, userId: number, overdueOnly: boolean = false): Promise<{
+        schedules: ProjectReceivable[];
+        totals: Omit<ScheduleSummary, 'next_due_date'>;
+    }> {
+        await this.getBuilderProject(projectId, userId, ProjectPermission.MANAGE_SALES);
+
+        const schedules = await UnitPaymentSchedule.findAll({
+            where: { project_id: projectId, status: PaymentScheduleStatus.ACTIVE },
+            order: [['booking_date', 'ASC']],
+        });
+        const [installments, units] = await Promise.all([
+            UnitInstallment.findAll({ where: { schedule_id: schedules.map(schedule => schedule.id) } }),
+            ProjectUnit.findAll({
+                where: { id: schedules.map(schedule => schedule.unit_id) },
+                attributes: ['id', 'unit_number', 'tower'],
+            }),
+        ]);
+        const unitsById = new Map(units.map(unit => [unit.id, unit]));
+
+        const receivables = schedules
+            .map(schedule => {
+                const unit = unitsById.get(schedule.unit_id);
+                return {
+                    schedule_id: schedule.id,
+                    unit_id: schedule.unit_id,
+                    unit_number: unit?.unit_number || '',
+                    tower: unit?.tower || null,
+                    buyer_id: schedule.buyer_id,
+                    plan_name: schedule.plan_name,
+                    summary: summarizeInstallments(installments.filter(installment => installment.schedule_id === schedule.id)),
+                };
+            })
+            .filter(receivable => !overdueOnly || receivable.summary.overdue_installments > 0);
+
+        const sum = (key: keyof Omit<ScheduleSummary, 'next_due_date'>) =>
+            Math.round(receivables.reduce((total, receivable) => total + receivable.summary[key], 0) * 100) / 100;
+
+        return {
+            schedules: receivables,
+            totals: {
+                total_amount: sum('total_amount'),
+                paid_amount: sum('paid_amount'),
+                outstanding_amount: sum('outstanding_amount'),
+                overdue_amount: sum('overdue_amount'),
+                overdue_installments: sum('overdue_installments'),
+            },
+        };
+    }
+
+    /**
+     * Demand letter PDF for an unpaid installment, for the builder or the buyer
+     */
+    async getDemandLetter(
+        projectId: number,
+        unitId: number,
+        installmentId: number,
+        user: ScheduleUser
+    ): Promise<{ filename: string; pdf: Buffer }> {
+        const schedule = await this.findActiveSchedule(projectId, unitId);
+        if (!schedule) {
+            throw new NotFoundError('Payment schedule not found');
+        }
+        const project = await this.assertCanView(schedule, user);
+
+        const installments = await UnitInstallment.findAll({
+            where: { schedule_id: schedule.id },
+            order: [['sequence', 'ASC']],
+        });
+        const installment = installments.find(candidate => candidate.id === installmentId);
+        if (!installment) {
+            throw new NotFoundError('Installment not found');
+        }
+        if (installment.paid_at) {
+            throw new ConflictError('This installment has already been paid');
+        }
+
+        const [unit, buyer, builder] = await Promise.all([
+            ProjectUnit.findByPk(unitId),
+            User.findByPk(schedule.buyer_id, { attributes: ['first_name', 'last_name', 'email'] }),
+            User.findByPk(project.builder_id, { attributes: ['first_name', 'last_name', 'email', 'phone'] }),
+        ]);
+        if (!unit || !buyer || !builder) {
+            throw new NotFoundError('Payment schedule not found');
+        }
+
+        // Earlier installments already past due are carried into the demand
+        const overdueEarlier = installments.filter(candidate =>
+            candidate.sequence < installment.sequence && installmentStatus(candidate) === 'overdue'
+        );
+        const reference = `DL/${project.id}/${unit.tower ? `${unit.tower}-` : ''}${unit.unit_number}/${installment.sequence}`;
+
+        const pdf = await renderDemandLetter({
+            reference,
+            issuedOn: today(),
+            builder: {
+                name: `${builder.first_name} ${builder.last_name}`.trim(),
+                email: builder.email,
+                phone: builder.phone,
+            },
+            buyer: {
+                name: `${buyer.first_name} ${buyer.last_name}`.trim(),
+                email: buyer.email,
+            },
+            project: {
+                name: project.name,
+                address: project.address,
+                city: project.city,
+                state: project.state,
+                pincode: project.pincode,
+                reraNumber: project.rera_number,
+            },
+            unit: {
+                unitNumber: unit.unit_number,
+                unitType: unit.unit_type,
+                tower: unit.tower,
+                floorNumber: unit.floor_number,
+                areaSqft: Number(unit.area_sqft),
+            },
+            installment: {
+                sequence: installment.sequence,
+                name: installment.name,
+                percent: Number(installment.percent),
+                amount: Number(installment.amount),
+                paidAmount: Number(installment.paid_amount),
+                dueDate: installment.due_date,
+            },
+            schedule: {
+                planName: schedule.plan_name,
+                totalAmount: Number(schedule.total_amount),
+                paidAmount: summarizeInstallments(installments).paid_amount,
+                overdueAmount: overdueEarlier.reduce((sum, candidate) => sum + outstandingAmount(candidate), 0),
+            },
+        });
+
+        return {
+            filename: `demand-letter-${unit.unit_number}-${installment.sequence}.pdf`.replace(/[^\w.-]/g, '_'),
+            pdf,
+        };
+    }
+
+    private validateStages(stages: PaymentPlanStage[]): void {
+        const total = stages.reduce((sum, stage) => sum + stage.percent, 0);
+        if (Math.abs(total - 100) > PERCENT_TOLERANCE) {
+            throw new ValidationError(`Stage percentages must add up to 100 (currently ${Math.round(total * 100) / 100})`);
+        }
+
+        // Installments are numbered in stage order, so their due dates must not go backwards
+        const outOfOrder = stages.some((stage, index) => index > 0 && stage.due_after_days < stages[index - 1].due_after_days);
+        if (outOfOrder) {
+            throw new ValidationError('Stages must be in order of their due days');
+        }
+    }
+
+    private async withInstallments(schedule: UnitPaymentSchedule): Promise<PaymentScheduleDetails> {
+        const installments = await UnitInstallment.findAll({
+            where: { schedule_id: schedule.id },
+            order: [['sequence', 'ASC']],
+        });
+        const payments = await InstallmentPayment.findAll({
+            where: { installment_id: installments.map(installment => installment.id) },
+            order: [['paid_on', 'ASC'], ['id', 'ASC']],
+        });
+
+        return {
+            schedule,
+            installments: installments.map(installment => ({
+                ...installment.toJSON(),
+                status: installmentStatus(installment),
+                outstanding_amount: outstandingAmount(installment),
+                payments: payments.filter(payment => payment.installment_id === installment.id),
+            })),
+            summary: summarizeInstallments(installments),
+        };
+    }
+
+    private async findActiveSchedule(projectId: number, unitId: number, transaction?: Transaction): Promise<UnitPaymentSchedule | null> {
+        return UnitPaymentSchedule.findOne({
+            where: { project_id: projectId, unit_id: unitId, status: PaymentScheduleStatus.ACTIVE },
+            transaction,
+        });
+    }
+
+    private async assertCanView(schedule: UnitPaymentSchedule, user: ScheduleUser): Promise<Project> {
+        const project = await Project.findByPk(schedule.project_id);
+        if (
+            !project ||
+            (schedule.buyer_id !== user.userId && !(await this.projectAccess.can(project, user.userId, ProjectPermission.MANAGE_SALES)))
+        ) {
+            throw new NotFoundError('Payment schedule not found');
+        }
+        return project;
+    }
+
+    private async getPlan(projectId: number, userId: number, planId: number): Promise<ProjectPaymentPlan> {
+        await this.getBuilderProject(projectId, userId, ProjectPermission.MANAGE_PRICING);
+
+        const plan = await ProjectPaymentPlan.findOne({ where: { id: planId, project_id: projectId } });
+        if (!plan) {
+            throw new NotFoundError('Payment plan not found');
+        }
+        return plan;
+    }
+
+    private async getBuilderProject(
+        projectId: number,
+        userId: number,
+        permission: ProjectPermission,
+        transaction?: Transaction
+    ): Promise<Project> {
+        return this.projectAccess.authorize(projectId, userId, permission, transaction);
+    }
+}
+
+export default PaymentScheduleService;
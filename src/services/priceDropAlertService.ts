@@ -0,0 +1,106 @@
+import { Property } from '../models/Property';
+import { User } from '../models/User';
+import favoritesService from './favoritesService';
+import savedSearchService from './savedSearchService';
+import emailService from './emailService';
+import { PriceDropEvent, propertyEvents } from '../utils/propertyEvents';
+
+interface PriceDropRecipient {
+    user: User;
+    reason: 'favorite' | 'saved_search';
+    searchName?: string;
+}
+
+/**
+ * Tells buyers following a listing (favorites and matching saved searches) when its price drops
+ */
+class PriceDropAlertService {
+    private unsubscribe: (() => void) | null = null;
+
+    /**
+     * Start listening for price drops
+     * This should be called when the application starts
+     */
+    start(): void {
+        if (this.unsubscribe) {
+            console.log('Price drop alert service is already running');
+            return;
+        }
+
+        this.unsubscribe = propertyEvents.onPriceDrop(event => this.notifyInterestedBuyers(event));
+        console.log('Price drop alert service started');
+    }
+
+    stop(): void {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+        console.log('Price drop alert service stopped');
+    }
+
+    /**
+     * Email everyone following the property once, favorites taking precedence over saved searches.
+     * Returns the number of buyers notified.
+     */
+    async notifyInterestedBuyers(event: PriceDropEvent): Promise<number> {
+        const property = await Property.findOne({
+            where: { id: event.propertyId, is_active: true },
+        });
+
+        if (!property) {
+            return 0;
+        }
+
+        const recipients = await this.getRecipients(property);
+        let notified = 0;
+
+        for (const recipient of recipients) {
+            try {
+                await emailService.sendPriceDropAlert(recipient.user.email, {
+                    userName: recipient.user.first_name,
+                    reason: recipient.reason,
+                    searchName: recipient.searchName,
+                    property: {
+                        title: property.title,
+                        previousPrice: event.previousPrice,
+                        price: event.price,
+                        dropPercent: event.dropPercent,
+                        city: property.city,
+                        state: property.state,
+                        listingType: property.listing_type,
+                        url: `${process.env.FRONTEND_URL}/properties/${property.id}`,
+                    },
+                });
+                notified++;
+            } catch (error) {
+                console.error(`Failed to send price drop alert to user ${recipient.user.id}:`, error);
+            }
+        }
+
+        return notified;
+    }
+
+    private async getRecipients(property: Property): Promise<PriceDropRecipient[]> {
+        const [favoriteUsers, matchingSearches] = await Promise.all([
+            favoritesService.getUsersWhoFavorited(property.id),
+            savedSearchService.findMatchingSearches(property),
+        ]);
+
+        const recipients = new Map<number, PriceDropRecipient>();
+
+        favoriteUsers.forEach(user => recipients.set(user.id, { user, reason: 'favorite' }));
+
+        matchingSearches.forEach(savedSearch => {
+            const user = (savedSearch as any).searchUser as User | null;
+            if (user && !recipients.has(user.id)) {
+                recipients.set(user.id, { user, reason: 'saved_search', searchName: savedSearch.search_name });
+            }
+        });
+
+        // Owners don't need to hear about their own price changes
+        recipients.delete(property.user_id);
+
+        return Array.from(recipients.values());
+    }
+}
+
+export default PriceDropAlertService;
@@ -0,0 +1,92 @@
+import { Op, Transaction, WhereOptions } from 'sequelize';
+import { Project } from '../models/Project';
+import {
+    BuilderTeamMember,
+    BuilderTeamMemberStatus,
+    BuilderTeamRole,
+    ProjectPermission,
+    TEAM_ROLE_PERMISSIONS,
+} from '../models/BuilderTeamMember';
+import { AuthorizationError, NotFoundError } from '../utils/errorResponse';
+
+export type ProjectAccessRole = 'owner' | BuilderTeamRole;
+
+export interface ProjectAccess {
+    role: ProjectAccessRole;
+    permissions: ProjectPermission[];
+}
+
+const PERMISSION_LABELS: Record<ProjectPermission, string> = {
+    [ProjectPermission.VIEW]: 'view this project',
+    [ProjectPermission.MANAGE_PROJECT]: 'edit this project',
+    [ProjectPermission.MANAGE_INVENTORY]: 'manage units',
+    [ProjectPermission.MANAGE_PRICING]: 'manage pricing',
+    [ProjectPermission.MANAGE_SALES]: 'manage sales',
+    [ProjectPermission.MANAGE_MARKETING]: 'manage marketing content',
+};
+
+/**
+ * Who may work on a project: the builder account that owns it, and the team members that
+ * builder has scoped to it. Members get the permissions of their team role.
+ */
+class ProjectAccessService {
+    /**
+     * The project, if the user may do `permission` on it. Users with no access at all get a
+     * not found, so project ids of other builders are not confirmed.
+     */
+    async authorize(projectId: number, userId: number, permission: ProjectPermission, transaction?: Transaction): Promise<Project> {
+        const project = await Project.findByPk(projectId, { transaction });
+        const access = project ? await this.getAccess(project, userId, transaction) : null;
+
+        if (!project || !access) {
+            throw new NotFoundError('Project not found');
+        }
+        if (!access.permissions.includes(permission)) {
+            throw new AuthorizationError(`Your team role does not allow you to ${PERMISSION_LABELS[permission]}`);
+        }
+        return project;
+    }
+
+    /**
+     * The user's role and permissions on a project, or null when they are not on its team
+     */
+    async getAccess(project: Project, userId: number, transaction?: Transaction): Promise<ProjectAccess | null> {
+        if (project.builder_id === userId) {
+            return { role: 'owner', permissions: Object.values(ProjectPermission) };
+        }
+
+        const member = await BuilderTeamMember.findOne({
+            where: { builder_id: project.builder_id, user_id: userId, status: BuilderTeamMemberStatus.ACTIVE },
+            transaction,
+        });
+        if (!member || (member.project_ids && !member.project_ids.includes(project.id))) {
+            return null;
+        }
+        return { role: member.role, permissions: TEAM_ROLE_PERMISSIONS[member.role] };
+    }
+
+    async can(project: Project, userId: number, permission: ProjectPermission, transaction?: Transaction): Promise<boolean> {
+        const access = await this.getAccess(project, userId, transaction);
+        return !!access && access.permissions.includes(permission);
+    }
+
+    /**
+     * Condition matching every project the user owns or is a team member on
+     */
+    async accessibleProjectsWhere(userId: number): Promise<WhereOptions> {
+        const memberships = await BuilderTeamMember.findAll({
+            where: { user_id: userId, status: BuilderTeamMemberStatus.ACTIVE },
+        });
+
+        return {
+            [Op.or]: [
+                { builder_id: userId },
+                ...memberships.map(member => (member.project_ids
+                    ? { builder_id: member.builder_id, id: { [Op.in]: member.project_ids } }
+                    : { builder_id: member.builder_id })),
+            ],
+        };
+    }
+}
+
+export default ProjectAccessService;
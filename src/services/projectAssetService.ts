@@ -0,0 +1,475 @@
+import path from 'path';
+import { Transaction, WhereOptions } from 'sequelize';
+import sequelize from '../config/database';
+import { Project } from '../models/Project';
+import { ProjectUnit } from '../models/ProjectUnit';
+import { ProjectAsset, ProjectAssetType } from '../models/ProjectAsset';
+import { Inquiry, InquiryStatus, LeadSource } from '../models/Inquiry';
+import { User } from '../models/User';
+import { ProjectPermission } from '../models/BuilderTeamMember';
+import s3Service, { UploadResult } from './s3Service';
+import imageProcessingService from './imageProcessingService';
+import ProjectAccessService from './projectAccessService';
+import inquiryService from './inquiryService';
+import { NotFoundError, ValidationError } from '../utils/errorResponse';
+import { renderPdfFirstPage } from '../utils/pdfRenderer';
+
+export interface ProjectAssetInput {
+    asset_type: ProjectAssetType;
+    title: string;
+    unit_type?: string | null;
+    // 3D tours only
+    tour_url?: string | null;
+    requires_lead?: boolean;
+}
+
+export interface ProjectAssetChanges {
+    title?: string;
+    requires_lead?: boolean;
+    display_order?: number;
+}
+
+export interface AssetLead {
+    name: string;
+    email: string;
+    phone?: string;
+}
+
+export interface ProjectAssetDetails {
+    id: number;
+    project_id: number;
+    asset_type: ProjectAssetType;
+    title: string;
+    unit_type: string | null;
+    file_url: string | null;
+    mime_type: string | null;
+    file_size: number | null;
+    preview_url: string | null;
+    thumbnail_url: string | null;
+    requires_lead: boolean;
+    display_order: number;
+    created_at: Date;
+    // Floor plans only, and only for the project team
+    unit_ids?: number[];
+}
+
+export interface AssetDownload {
+    url: string;
+    // Seconds the link works for; null when the file is public
+    expires_in: number | null;
+}
+
+// File types each uploaded asset accepts
+export const ASSET_MIME_TYPES: Record<Exclude<ProjectAssetType, ProjectAssetType.TOUR_3D>, string[]> = {
+    [ProjectAssetType.BROCHURE]: ['application/pdf'],
+    [ProjectAssetType.FLOOR_PLAN]: ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'],
+};
+
+// Largest brochure or floor plan file accepted
+export const MAX_ASSET_FILE_SIZE = 25 * 1024 * 1024;
+
+const PREVIEW_WIDTH = 1600;
+const THUMBNAIL_WIDTH = 300;
+
+// How long a download link for a brochure behind a lead form works
+const DOWNLOAD_LINK_TTL_SECONDS = 15 * 60;
+
+/**
+ * Brochures, floor plans and 3D tour links of a project. Files go to S3 with a large preview and a
+ * thumbnail; floor plans are shared by the units of the configuration they show. The project's
+ * brochure_url, floor_plans and virtual_tour_url, and each unit's floor_plan_image, are kept in
+ * step with the assets.
+ */
+class ProjectAssetService {
+    private projectAccess = new ProjectAccessService();
+
+    async getAssets(projectId: number, userId: number): Promise<ProjectAssetDetails[]> {
+        await this.getBuilderProject(projectId, userId, ProjectPermission.VIEW);
+
+        const [assets, units] = await Promise.all([
+            ProjectAsset.findAll({
+                where: { project_id: projectId },
+                order: [['asset_type', 'ASC'], ['display_order', 'ASC'], ['id', 'ASC']],
+            }),
+            ProjectUnit.findAll({
+                where: { project_id: projectId },
+                attributes: ['id', 'floor_plan_asset_id'],
+            }),
+        ]);
+
+        return assets.map(asset => ({
+            ...this.toDetails(asset),
+            ...(asset.asset_type === ProjectAssetType.FLOOR_PLAN && {
+                unit_ids: units.filter(unit => unit.floor_plan_asset_id === asset.id).map(unit => unit.id),
+            }),
+        }));
+    }
+
+    /**
+     * Add a brochure or floor plan file, or a 3D tour link
+     */
+    async createAsset(
+        projectId: number,
+        userId: number,
+        input: ProjectAssetInput,
+        file?: Express.Multer.File
+    ): Promise<ProjectAssetDetails> {
+        const project = await this.getBuilderProject(projectId, userId, ProjectPermission.MANAGE_MARKETING);
+
+        if (input.asset_type === ProjectAssetType.FLOOR_PLAN && !input.unit_type) {
+            throw new ValidationError('Floor plans need the unit type they show');
+        }
+
+        let stored: Pick<ProjectAsset, 'file_url' | 's3_key' | 'mime_type' | 'file_size' | 'preview_url' | 'preview_s3_key' | 'thumbnail_url' | 'thumbnail_s3_key'>;
+        if (input.asset_type === ProjectAssetType.TOUR_3D) {
+            if (!input.tour_url) {
+                throw new ValidationError('3D tours need a link');
+            }
+            stored = { file_url: input.tour_url };
+        } else {
+            if (!file) {
+                throw new ValidationError('A file is required');
+            }
+            if (!ASSET_MIME_TYPES[input.asset_type].includes(file.mimetype)) {
+                throw new ValidationError(input.asset_type === ProjectAssetType.BROCHURE
+                    ? 'Brochures must be PDF files'
+                    : 'Floor plans must be JPEG, PNG, WebP or PDF files');
+            }
+            stored = await this.storeFile(projectId, file);
+        }
+
+        const lastOrder: number | null = await ProjectAsset.max('display_order', {
+            where: { project_id: projectId, asset_type: input.asset_type },
+        });
+
+        try {
+            const asset = await sequelize.transaction(async transaction => {
+                const created = await ProjectAsset.create({
+                    project_id: projectId,
+                    asset_type: input.asset_type,
+                    title: input.title,
+                    unit_type: input.asset_type === ProjectAssetType.FLOOR_PLAN ? input.unit_type : null,
+                    requires_lead: input.asset_type !== ProjectAssetType.TOUR_3D && Boolean(input.requires_lead),
+                    display_order: (lastOrder ?? -1) + 1,
+                    uploaded_by: userId,
+                    ...stored,
+                }, { transaction });
+
+                await this.syncProject(project, input.asset_type, transaction);
+                return created;
+            });
+
+            return this.toDetails(asset);
+        } catch (error) {
+            await this.deleteFiles([stored.s3_key, stored.preview_s3_key, stored.thumbnail_s3_key]);
+            throw error;
+        }
+    }
+
+    async updateAsset(projectId: number, userId: number, assetId: number, changes: ProjectAssetChanges): Promise<ProjectAssetDetails> {
+        const project = await this.getBuilderProject(projectId, userId, ProjectPermission.MANAGE_MARKETING);
+        const asset = await this.getAsset(projectId, assetId);
+
+        if (changes.requires_lead && asset.asset_type === ProjectAssetType.TOUR_3D) {
+            throw new ValidationError('3D tour links cannot be put behind a lead form');
+        }
+
+        await sequelize.transaction(async transaction => {
+            await asset.update(changes, { transaction });
+            if (asset.asset_type === ProjectAssetType.FLOOR_PLAN) {
+                await ProjectUnit.update(
+                    { floor_plan_image: this.publicImageOf(asset) },
+                    { where: { project_id: projectId, floor_plan_asset_id: asset.id }, transaction }
+                );
+            }
+            await this.syncProject(project, asset.asset_type, transaction);
+        });
+
+        return this.toDetails(asset);
+    }
+
+    /**
+     * Delete an asset and its files. Units it was the floor plan of are left without one.
+     */
+    async deleteAsset(projectId: number, userId: number, assetId: number): Promise<void> {
+        const project = await this.getBuilderProject(projectId, userId, ProjectPermission.MANAGE_MARKETING);
+        const asset = await this.getAsset(projectId, assetId);
+
+        await sequelize.transaction(async transaction => {
+            if (asset.asset_type === ProjectAssetType.FLOOR_PLAN) {
+                await ProjectUnit.update(
+                    { floor_plan_asset_id: null, floor_plan_image: null },
+                    { where: { project_id: projectId, floor_plan_asset_id: asset.id }, transaction }
+                );
+            }
+            await asset.destroy({ transaction });
+            await this.syncProject(project, asset.asset_type, transaction);
+        });
+
+        await this.deleteFiles([asset.s3_key, asset.preview_s3_key, asset.thumbnail_s3_key]);
+    }
+
+    /**
+     * Make a floor plan the plan of units with its unit type: the given units, or every one in the
+     * project when none are given. Returns how many units were linked.
+     */
+    async linkFloorPlan(projectId: number, userId: number, assetId: number, unitIds?: number[]): Promise<number> {
+        await this.getBuilderProject(projectId, userId, ProjectPermission.MANAGE_MARKETING);
+        const asset = await this.getAsset(projectId, assetId, ProjectAssetType.FLOOR_PLAN);
+
+        const where: WhereOptions = { project_id: projectId, unit_type: asset.unit_type! };
+        if (unitIds) {
+            const ids = Array.from(new Set(unitIds));
+            const matching = await ProjectUnit.count({ where: { ...where, id: ids } });
+            if (matching !== ids.length) {
+                throw new ValidationError(`This floor plan can only be linked to ${asset.unit_type} units of this project`);
+            }
+            Object.assign(where, { id: ids });
+        }
+
+        const [linked] = await ProjectUnit.update(
+            { floor_plan_asset_id: asset.id, floor_plan_image: this.publicImageOf(asset) },
+            { where }
+        );
+        return linked;
+    }
+
+    /**
+     * Take a floor plan off the given units, or off all of its units. Returns how many were unlinked.
+     */
+    async unlinkFloorPlan(projectId: number, userId: number, assetId: number, unitIds?: number[]): Promise<number> {
+        await this.getBuilderProject(projectId, userId, ProjectPermission.MANAGE_MARKETING);
+        const asset = await this.getAsset(projectId, assetId, ProjectAssetType.FLOOR_PLAN);
+
+        const [unlinked] = await ProjectUnit.update(
+            { floor_plan_asset_id: null, floor_plan_image: null },
+            {
+                where: {
+                    project_id: projectId,
+                    floor_plan_asset_id: asset.id,
+                    ...(unitIds && { id: unitIds }),
+                },
+            }
+        );
+        return unlinked;
+    }
+
+    /**
+     * Assets of a public project. Files behind a lead form are listed without their link.
+     */
+    async getPublicAssets(projectId: number): Promise<ProjectAssetDetails[]> {
+        await this.getPublicProject(projectId);
+
+        const assets = await ProjectAsset.findAll({
+            where: { project_id: projectId },
+            order: [['asset_type', 'ASC'], ['display_order', 'ASC'], ['id', 'ASC']],
+        });
+
+        return assets.map(asset => ({
+            ...this.toDetails(asset),
+            file_url: asset.requires_lead ? null : asset.file_url || null,
+        }));
+    }
+
+    /**
+     * A link to download an asset file. Files behind a lead form need contact details, taken from
+     * the signed-in account when not given, and each download is recorded as an inquiry.
+     */
+    async getDownload(projectId: number, assetId: number, lead: AssetLead | null, userId?: number): Promise<AssetDownload> {
+        const project = await this.getPublicProject(projectId);
+        const asset = await this.getAsset(projectId, assetId);
+
+        if (asset.asset_type === ProjectAssetType.TOUR_3D || !asset.file_url) {
+            throw new ValidationError('Only brochures and floor plans can be downloaded');
+        }
+        if (!asset.requires_lead) {
+            return { url: asset.file_url, expires_in: null };
+        }
+
+        let contact = lead;
+        if (!contact && userId) {
+            const user = await User.findByPk(userId);
+            if (user) {
+                contact = { name: `${user.first_name} ${user.last_name}`.trim(), email: user.email, phone: user.phone || undefined };
+            }
+        }
+        if (!contact) {
+            throw new ValidationError('Your name and email are required to download this file');
+        }
+
+        const inquiry = await Inquiry.create({
+            project_id: project.id,
+            inquirer_id: userId,
+            name: contact.name.trim(),
+            email: contact.email.trim().toLowerCase(),
+            phone: contact.phone?.trim(),
+            message: `Downloaded the ${asset.asset_type === ProjectAssetType.BROCHURE ? 'brochure' : 'floor plan'} "${asset.title}"`,
+            status: InquiryStatus.NEW,
+            source: LeadSource.ASSET_DOWNLOAD,
+        });
+        inquiryService.handleNewLead(inquiry.id).catch(error => console.error('New lead handling error:', error));
+
+        return {
+            url: asset.s3_key ? await s3Service.generateSignedUrl(asset.s3_key, DOWNLOAD_LINK_TTL_SECONDS) : asset.file_url,
+            expires_in: asset.s3_key ? DOWNLOAD_LINK_TTL_SECONDS : null,
+        };
+    }
+
+    /**
+     * Upload a file with a large preview and a thumbnail of it, or of a PDF's first page
+     */
+    private async storeFile(projectId: number, file: Express.Multer.File): Promise<Pick<ProjectAsset, 'file_url' | 's3_key' | 'mime_type' | 'file_size' | 'preview_url' | 'preview_s3_key' | 'thumbnail_url' | 'thumbnail_s3_key'>> {
+        const isPdf = file.mimetype === 'application/pdf';
+        if (!isPdf) {
+            const validation = await imageProcessingService.validateImage(file.buffer);
+            if (!validation.isValid) {
+                throw new ValidationError(validation.error || 'Invalid image');
+            }
+        }
+
+        const source = isPdf ? await renderPdfFirstPage(file.buffer, PREVIEW_WIDTH) : file.buffer;
+        const previewName = `${path.parse(file.originalname).name}.jpg`;
+
+        const uploads: UploadResult[] = [];
+        try {
+            const original = await s3Service.uploadImage({
+                folder: 'projects',
+                entityId: projectId,
+                filename: file.originalname,
+                buffer: file.buffer,
+                mimetype: file.mimetype,
+                size: 'original',
+            });
+            uploads.push(original);
+
+            let preview: UploadResult | null = null;
+            let thumbnail: UploadResult | null = null;
+            if (source) {
+                const [previewBuffer, thumbnailBuffer] = await Promise.all([
+                    imageProcessingService.generateThumbnail(source, PREVIEW_WIDTH, 85),
+                    imageProcessingService.generateThumbnail(source, THUMBNAIL_WIDTH),
+                ]);
+                preview = await s3Service.uploadImage({
+                    folder: 'projects',
+                    entityId: projectId,
+                    filename: previewName,
+                    buffer: previewBuffer,
+                    mimetype: 'image/jpeg',
+                    size: 'large',
+                });
+                uploads.push(preview);
+                thumbnail = await s3Service.uploadImage({
+                    folder: 'projects',
+                    entityId: projectId,
+                    filename: previewName,
+                    buffer: thumbnailBuffer,
+                    mimetype: 'image/jpeg',
+                    size: 'thumbnail',
+                });
+                uploads.push(thumbnail);
+            }
+
+            return {
+                file_url: original.url,
+                s3_key: original.key,
+                mime_type: file.mimetype,
+                file_size: file.size,
+                preview_url: preview?.url || null,
+                preview_s3_key: preview?.key || null,
+                thumbnail_url: thumbnail?.url || null,
+                thumbnail_s3_key: thumbnail?.key || null,
+            };
+        } catch (error) {
+            await this.deleteFiles(uploads.map(upload => upload.key));
+            throw error;
+        }
+    }
+
+    /**
+     * Point the project's own asset fields at its current assets of the given type
+     */
+    private async syncProject(project: Project, assetType: ProjectAssetType, transaction: Transaction): Promise<void> {
+        const assets = await ProjectAsset.findAll({
+            where: { project_id: project.id, asset_type: assetType },
+            order: [['display_order', 'ASC'], ['id', 'ASC']],
+            transaction,
+        });
+
+        switch (assetType) {
+            case ProjectAssetType.BROCHURE:
+                // A brochure behind a lead form must not be reachable through the project
+                await project.update({ brochure_url: assets.find(asset => !asset.requires_lead)?.file_url || null }, { transaction });
+                break;
+            case ProjectAssetType.FLOOR_PLAN:
+                await project.update({
+                    floor_plans: assets
+                        .map(asset => this.publicImageOf(asset))
+                        .filter((url): url is string => Boolean(url)),
+                }, { transaction });
+                break;
+            case ProjectAssetType.TOUR_3D:
+                await project.update({ virtual_tour_url: assets[0]?.file_url || null }, { transaction });
+                break;
+        }
+    }
+
+    // S3 cleanup failures are logged; the asset is already gone
+    private async deleteFiles(keys: Array<string | null | undefined>): Promise<void> {
+        const existing = keys.filter((key): key is string => Boolean(key));
+        try {
+            await s3Service.deleteMultipleImages(existing);
+        } catch (error) {
+            console.error('Failed to delete project asset files:', error);
+        }
+    }
+
+    // What can be shown of a floor plan publicly: its preview, or the file itself when it is not behind a lead form
+    private publicImageOf(asset: ProjectAsset): string | null {
+        return asset.preview_url || (asset.requires_lead ? null : asset.file_url || null);
+    }
+
+    private async getAsset(projectId: number, assetId: number, assetType?: ProjectAssetType): Promise<ProjectAsset> {
+        const asset = await ProjectAsset.findOne({
+            where: { id: assetId, project_id: projectId, ...(assetType && { asset_type: assetType }) },
+        });
+        if (!asset) {
+            throw new NotFoundError(assetType === ProjectAssetType.FLOOR_PLAN ? 'Floor plan not found' : 'Asset not found');
+        }
+        return asset;
+    }
+
+    private async getPublicProject(projectId: number): Promise<Project> {
+        const project = await Project.findOne({
+            where: { id: projectId, is_active: true, approval_status: 'approved' },
+            attributes: ['id'],
+        });
+        if (!project) {
+            throw new NotFoundError('Project not found');
+        }
+        return project;
+    }
+
+    private toDetails(asset: ProjectAsset): ProjectAssetDetails {
+        return {
+            id: asset.id,
+            project_id: asset.project_id,
+            asset_type: asset.asset_type,
+            title: asset.title,
+            unit_type: asset.unit_type || null,
+            file_url: asset.file_url || null,
+            mime_type: asset.mime_type || null,
+            file_size: asset.file_size || null,
+            preview_url: asset.preview_url || null,
+            thumbnail_url: asset.thumbnail_url || null,
+            requires_lead: asset.requires_lead,
+            display_order: asset.display_order,
+            created_at: asset.created_at,
+        };
+    }
+
+    private async getBuilderProject(projectId: number, userId: number, permission: ProjectPermission): Promise<Project> {
+        return this.projectAccess.authorize(projectId, userId, permission);
+    }
+}
+
+export default ProjectAssetService;
@@ -0,0 +1,124 @@
+import { Op } from 'sequelize';
+import sequelize from '../config/database';
+import { Project } from '../models/Project';
+import { ProjectUnit, UnitStatus, UnitCountColumn, UNIT_STATUS_COUNTERS } from '../models/ProjectUnit';
+import { UnitReservation, ReservationStatus, ACTIVE_RESERVATION_STATUSES } from '../models/UnitReservation';
+import { ProjectPermission } from '../models/BuilderTeamMember';
+import { buildStackingPlan, StackingPlan } from '../utils/stackingPlan';
+import { ApiError } from '../utils/errorResponse';
+import ProjectAccessService from './projectAccessService';
+
+export interface BulkStatusResult {
+    status: UnitStatus;
+    updated: number[];
+    unchanged: number[];
+}
+
+/**
+ * Tower/floor view of a project's units and batched status changes across them
+ */
+class ProjectInventoryService {
+    private projectAccess = new ProjectAccessService();
+
+    /**
+     * Units grouped by tower and floor, with status, heatmap and reservation data per unit
+     */
+    async getStackingPlan(projectId: number, userId: number): Promise<StackingPlan> {
+        await this.getBuilderProject(projectId, userId, ProjectPermission.VIEW);
+
+        const [units, reservations] = await Promise.all([
+            ProjectUnit.findAll({
+                where: { project_id: projectId },
+                attributes: [
+                    'id', 'unit_number', 'unit_type', 'floor_number', 'tower', 'status',
+                    'price', 'price_per_sqft', 'area_sqft', 'bedrooms', 'is_corner_unit',
+                ],
+                raw: true,
+            }),
+            UnitReservation.findAll({
+                where: { project_id: projectId, status: { [Op.in]: ACTIVE_RESERVATION_STATUSES } },
+                attributes: ['unit_id', 'status'],
+                raw: true,
+            }),
+        ]);
+
+        const reservationByUnit = new Map<number, ReservationStatus>(
+            reservations.map(reservation => [reservation.unit_id, reservation.status])
+        );
+
+        return buildStackingPlan(units, reservationByUnit);
+    }
+
+    /**
+     * Set the status of many units at once. Either every unit changes or none do, and the
+     * project's counters move in the same transaction. Held or booked units are rejected;
+     * they change status through the reservation flow.
+     */
+    async bulkUpdateStatus(projectId: number, userId: number, unitIds: number[], status: UnitStatus): Promise<BulkStatusResult> {
+        const ids = Array.from(new Set(unitIds));
+
+        return sequelize.transaction(async (transaction) => {
+            await this.getBuilderProject(projectId, userId, ProjectPermission.MANAGE_INVENTORY);
+
+            const units = await ProjectUnit.findAll({
+                where: { id: { [Op.in]: ids }, project_id: projectId },
+                transaction,
+                lock: transaction.LOCK.UPDATE,
+            });
+
+            if (units.length !== ids.length) {
+                const found = new Set(units.map(unit => unit.id));
+                throw new ApiError('Some units were not found in this project', 404, 'NOT_FOUND', {
+                    unitIds: ids.filter(id => !found.has(id)),
+                });
+            }
+
+            const reserved = await UnitReservation.findAll({
+                where: { unit_id: { [Op.in]: ids }, status: { [Op.in]: ACTIVE_RESERVATION_STATUSES } },
+                attributes: ['unit_id'],
+                transaction,
+            });
+            if (reserved.length > 0) {
+                throw new ApiError('Some units have an active hold or booking. Release them before changing the status.', 409, 'CONFLICT', {
+                    unitIds: reserved.map(reservation => reservation.unit_id),
+                });
+            }
+
+            const changing = units.filter(unit => unit.status !== status);
+            if (changing.length === 0) {
+                return { status, updated: [], unchanged: ids };
+            }
+
+            const deltas: Partial<Record<UnitCountColumn, number>> = {};
+            changing.forEach(unit => {
+                const from = UNIT_STATUS_COUNTERS[unit.status];
+                const to = UNIT_STATUS_COUNTERS[status];
+                deltas[from] = (deltas[from] || 0) - 1;
+                deltas[to] = (deltas[to] || 0) + 1;
+            });
+            const counterChanges = Object.fromEntries(Object.entries(deltas).filter(([, delta]) => delta !== 0));
+
+            await ProjectUnit.update(
+                { status },
+                { where: { id: { [Op.in]: changing.map(unit => unit.id) } }, transaction }
+            );
+
+            if (Object.keys(counterChanges).length > 0) {
+                await Project.increment(counterChanges, { where: { id: projectId }, transaction });
+            }
+
+            const updated = changing.map(unit => unit.id);
+            return {
+                status,
+                updated,
+                unchanged: ids.filter(id => !updated.includes(id)),
+            };
+        });
+    }
+
+    private async getBuilderProject(projectId: number, userId: number, permission: ProjectPermission): Promise<Project> {
+        return this.projectAccess.authorize(projectId, userId, permission);
+    }
+}
+
+export default ProjectInventoryService;
@@ -0,0 +1,349 @@
+import { Op, Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import { Project } from '../models/Project';
+import { ProjectUnit, UnitStatus } from '../models/ProjectUnit';
+import { ProjectPriceList } from '../models/ProjectPriceList';
+import { ProjectPriceListItem } from '../models/ProjectPriceListItem';
+import { Inquiry } from '../models/Inquiry';
+import { ProjectPermission } from '../models/BuilderTeamMember';
+import { PricingRules, UnitPriceBreakdown, normalizePricingRules, priceUnit, priceRange } from '../utils/unitPricing';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errorResponse';
+import ProjectAccessService from './projectAccessService';
+
+export interface PriceListInput extends PricingRules {
+    effective_from?: Date;
+    notes?: string | null;
+}
+
+export interface PriceListSummary {
+    units: number;
+    price_range: { min: number; max: number } | null;
+    total_value: number;
+}
+
+export interface PriceListDetails {
+    price_list: ProjectPriceList;
+    items: Array<UnitPriceBreakdown | ProjectPriceListItem>;
+    summary: PriceListSummary;
+}
+
+export interface PublicPriceLists {
+    current: PriceListDetails | null;
+    at_inquiry: (PriceListDetails & { inquired_at: Date }) | null;
+}
+
+// Price lists are applied within this long of their effective date
+const PRICE_LIST_INTERVAL_MS = 60 * 1000;
+
+// Allow for clock skew between the client picking "now" and the request arriving
+const EFFECTIVE_FROM_GRACE_MS = 5 * 60 * 1000;
+
+// Held, booked and sold units keep the price they were taken at
+const REPRICEABLE_STATUSES = [UnitStatus.AVAILABLE, UnitStatus.BLOCKED];
+
+const summarize = (items: Array<{ total_price: number | string }>): PriceListSummary => ({
+    units: items.length,
+    price_range: priceRange(items),
+    total_value: Math.round(items.reduce((sum, item) => sum + Number(item.total_price), 0) * 100) / 100,
+});
+
+/**
+ * Versioned price lists for projects. Each version holds pricing rules and an effective date;
+ * when it takes effect, unit prices are recomputed from the rules and a snapshot is kept so
+ * earlier versions can still be shown.
+ */
+class ProjectPricingService {
+    private scheduler: NodeJS.Timeout | null = null;
+    private projectAccess = new ProjectAccessService();
+
+    /**
+     * Start applying price lists as they become effective
+     * This should be called when the application starts
+     */
+    start(): void {
+        if (this.scheduler) {
+            console.log('Price list scheduler is already running');
+            return;
+        }
+
+        console.log('Starting price list scheduler...');
+        this.scheduler = setInterval(() => {
+            this.applyDuePriceLists().catch(error => console.error('Error applying price lists:', error));
+        }, PRICE_LIST_INTERVAL_MS);
+    }
+
+    stop(): void {
+        if (this.scheduler) {
+            clearInterval(this.scheduler);
+            this.scheduler = null;
+        }
+        console.log('Price list scheduler stopped');
+    }
+
+    /**
+     * All versions for a builder's project, newest first
+     */
+    async getPriceLists(projectId: number, userId: number): Promise<ProjectPriceList[]> {
+        await this.getBuilderProject(projectId, userId, ProjectPermission.VIEW);
+
+        return ProjectPriceList.findAll({
+            where: { project_id: projectId },
+            order: [['version', 'DESC']],
+        });
+    }
+
+    /**
+     * One version with its unit prices: the stored snapshot once applied, a preview against
+     * the current units before that
+     */
+    async getPriceList(projectId: number, userId: number, priceListId: number): Promise<PriceListDetails> {
+        await this.getBuilderProject(projectId, userId, ProjectPermission.VIEW);
+
+        const priceList = await ProjectPriceList.findOne({ where: { id: priceListId, project_id: projectId } });
+        if (!priceList) {
+            throw new NotFoundError('Price list not found');
+        }
+
+        return this.withItems(priceList);
+    }
+
+    /**
+     * Unit prices the rules would produce, without saving anything
+     */
+    async previewPriceList(projectId: number, userId: number, rules: PricingRules): Promise<{ items: UnitPriceBreakdown[]; summary: PriceListSummary }> {
+        await this.getBuilderProject(projectId, userId, ProjectPermission.MANAGE_PRICING);
+
+        const items = await this.priceUnits(projectId, normalizePricingRules(rules));
+        return { items, summary: summarize(items) };
+    }
+
+    /**
+     * Add the next version. It must take effect after every existing version, so versions and
+     * effective dates stay in the same order. A version effective now is applied straight away.
+     */
+    async createPriceList(projectId: number, userId: number, input: PriceListInput): Promise<ProjectPriceList> {
+        const now = Date.now();
+        const effectiveFrom = input.effective_from || new Date(now);
+
+        if (effectiveFrom.getTime() < now - EFFECTIVE_FROM_GRACE_MS) {
+            throw new ValidationError('Effective date cannot be in the past');
+        }
+
+        const priceList = await sequelize.transaction(async (transaction) => {
+            await this.getBuilderProject(projectId, userId, ProjectPermission.MANAGE_PRICING, transaction);
+            // Serializes version numbering per project
+            await Project.findByPk(projectId, { transaction, lock: transaction.LOCK.UPDATE });
+
+            const latest = await ProjectPriceList.findOne({
+                where: { project_id: projectId },
+                order: [['version', 'DESC']],
+                transaction,
+            });
+
+            if (latest && effectiveFrom.getTime() <= new Date(latest.effective_from).getTime()) {
+                throw new ValidationError(
+                    `Effective date must be after version ${latest.version} (${new Date(latest.effective_from).toISOString()})`
+                );
+            }
+
+            const rules = normalizePricingRules(input);
+            return ProjectPriceList.create({
+                project_id: projectId,
+                version: (latest?.version || 0) + 1,
+                ...rules,
+                effective_from: effectiveFrom,
+                notes: input.notes?.trim() || null,
+                created_by: userId,
+            }, { transaction });
+        });
+
+        if (effectiveFrom.getTime() <= Date.now()) {
+            await this.applyPriceList(priceList.id);
+            await priceList.reload();
+        }
+
+        return priceList;
+    }
+
+    /**
+     * Withdraw a version that has not taken effect yet
+     */
+    async deletePriceList(projectId: number, userId: number, priceListId: number): Promise<void> {
+        await this.getBuilderProject(projectId, userId, ProjectPermission.MANAGE_PRICING);
+
+        await sequelize.transaction(async (transaction) => {
+            const priceList = await ProjectPriceList.findOne({
+                where: { id: priceListId, project_id: projectId },
+                transaction,
+                lock: transaction.LOCK.UPDATE,
+            });
+            if (!priceList) {
+                throw new NotFoundError('Price list not found');
+            }
+            if (priceList.applied_at) {
+                throw new ConflictError('This price list is already in effect and cannot be deleted');
+            }
+
+            await priceList.destroy({ transaction });
+        });
+    }
+
+    /**
+     * Recompute unit prices from a version and store the snapshot. Does nothing if it was
+     * already applied.
+     */
+    async applyPriceList(priceListId: number): Promise<number> {
+        return sequelize.transaction(async (transaction) => {
+            const priceList = await ProjectPriceList.findByPk(priceListId, { transaction, lock: transaction.LOCK.UPDATE });
+            if (!priceList || priceList.applied_at) {
+                return 0;
+            }
+
+            const units = await ProjectUnit.findAll({
+                where: { project_id: priceList.project_id },
+                transaction,
+                lock: transaction.LOCK.UPDATE,
+            });
+            const rules = normalizePricingRules(priceList);
+            const items = units.map(unit => priceUnit(unit, rules));
+
+            await ProjectPriceListItem.bulkCreate(
+                items.map(({ unit_id, ...item }) => ({ ...item, unit_id, price_list_id: priceList.id })),
+                { transaction }
+            );
+
+            let repriced = 0;
+            for (const unit of units) {
+                const item = items.find(candidate => candidate.unit_id === unit.id)!;
+                if (!REPRICEABLE_STATUSES.includes(unit.status) || Number(unit.price) === item.total_price) {
+                    continue;
+                }
+
+                await unit.update({ price: item.total_price, price_per_sqft: item.price_per_sqft }, { transaction });
+                repriced++;
+            }
+
+            const project = await Project.findByPk(priceList.project_id, { transaction });
+            if (project) {
+                const range = priceRange(items);
+                await project.update({
+                    pricing: {
+                        ...(project.pricing || {}),
+                        ...(range && { min: range.min, max: range.max }),
+                        base_rate_per_sqft: rules.base_rate_per_sqft,
+                        price_list_id: priceList.id,
+                        price_list_version: priceList.version,
+                        effective_from: priceList.effective_from,
+                    },
+                }, { transaction });
+            }
+
+            await priceList.update({ applied_at: new Date(), units_repriced: repriced }, { transaction });
+            return repriced;
+        });
+    }
+
+    /**
+     * Apply every version whose effective date has passed, oldest first. Returns how many were applied.
+     */
+    async applyDuePriceLists(now: Date = new Date()): Promise<number> {
+        const due = await ProjectPriceList.findAll({
+            where: { applied_at: null, effective_from: { [Op.lte]: now } },
+            attributes: ['id'],
+            order: [['effective_from', 'ASC'], ['version', 'ASC']],
+        });
+
+        let count = 0;
+        for (const { id } of due) {
+            try {
+                await this.applyPriceList(id);
+                count++;
+            } catch (error) {
+                console.error(`Failed to apply price list ${id}:`, error);
+            }
+        }
+
+        return count;
+    }
+
+    /**
+     * The version in effect for a project, if any
+     */
+    async getCurrentPriceList(projectId: number, transaction?: Transaction): Promise<ProjectPriceList | null> {
+        return ProjectPriceList.findOne({
+            where: { project_id: projectId, applied_at: { [Op.ne]: null } },
+            order: [['effective_from', 'DESC'], ['version', 'DESC']],
+            transaction,
+        });
+    }
+
+    /**
+     * The current price list of a public project and, for a signed-in user who has enquired,
+     * the price list that was current at their first inquiry
+     */
+    async getPublicPriceLists(projectId: number, userId?: number): Promise<PublicPriceLists> {
+        const project = await Project.findOne({
+            where: { id: projectId, is_active: true, approval_status: 'approved' },
+            attributes: ['id'],
+        });
+        if (!project) {
+            throw new NotFoundError('Project not found');
+        }
+
+        const currentList = await this.getCurrentPriceList(projectId);
+        const current = currentList ? await this.withItems(currentList) : null;
+
+        let atInquiry: PublicPriceLists['at_inquiry'] = null;
+        if (userId) {
+            const inquiry = await Inquiry.findOne({
+                where: { project_id: projectId, inquirer_id: userId, price_list_id: { [Op.ne]: null } },
+                order: [['created_at', 'ASC']],
+            });
+
+            if (inquiry) {
+                const details = current && current.price_list.id === inquiry.price_list_id
+                    ? current
+                    : await this.findWithItems(inquiry.price_list_id!);
+                atInquiry = details ? { ...details, inquired_at: inquiry.created_at } : null;
+            }
+        }
+
+        return { current, at_inquiry: atInquiry };
+    }
+
+    private async findWithItems(priceListId: number): Promise<PriceListDetails | null> {
+        const priceList = await ProjectPriceList.findByPk(priceListId);
+        return priceList ? this.withItems(priceList) : null;
+    }
+
+    private async withItems(priceList: ProjectPriceList): Promise<PriceListDetails> {
+        const items = priceList.applied_at
+            ? await ProjectPriceListItem.findAll({
+                where: { price_list_id: priceList.id },
+                order: [['tower', 'ASC'], ['floor_number', 'ASC'], ['unit_number', 'ASC']],
+            })
+            : await this.priceUnits(priceList.project_id, normalizePricingRules(priceList));
+
+        return { price_list: priceList, items, summary: summarize(items) };
+    }
+
+    private async priceUnits(projectId: number, rules: PricingRules): Promise<UnitPriceBreakdown[]> {
+        const units = await ProjectUnit.findAll({
+            where: { project_id: projectId },
+            order: [['tower', 'ASC'], ['floor_number', 'ASC'], ['unit_number', 'ASC']],
+        });
+
+        return units.map(unit => priceUnit(unit, rules));
+    }
+
+    private async getBuilderProject(
+        projectId: number,
+        userId: number,
+        permission: ProjectPermission,
+        transaction?: Transaction
+    ): Promise<Project> {
+        return this.projectAccess.authorize(projectId, userId, permission, transaction);
+    }
+}
+
+export default ProjectPricingService;
@@ -0,0 +1,426 @@
+import { fn, col, literal, Op, Order, WhereOptions } from 'sequelize';
+import sequelize from '../config/database';
+import { Project, ProjectStatus, ProjectType } from '../models/Project';
+import { GALLERY_IMAGE_WHERE, ProjectImage } from '../models/ProjectImage';
+import { ProjectUnit, UnitStatus } from '../models/ProjectUnit';
+import { User } from '../models/User';
+import { NotFoundError, ValidationError } from '../utils/errorResponse';
+
+export type ProjectSearchSort = 'newest' | 'price_asc' | 'price_desc' | 'possession';
+
+export interface ProjectSearchFilters {
+    location?: string;
+    city?: string;
+    project_types?: ProjectType[];
+    statuses?: ProjectStatus[];
+    // Expected completion date range, YYYY-MM-DD
+    possession_from?: string;
+    possession_to?: string;
+    // BHK configurations, matched against available units' bedrooms
+    bedrooms?: number[];
+    // Price range of available units
+    min_price?: number;
+    max_price?: number;
+    sort?: ProjectSearchSort;
+}
+
+export interface UnitConfiguration {
+    bedrooms: number;
+    available_units: number;
+    min_price: number;
+    max_price: number;
+    min_area_sqft: number;
+    max_area_sqft: number;
+}
+
+/**
+ * Available units of a project, limited to the configurations and price range searched for
+ */
+export interface ProjectAvailability {
+    available_units: number;
+    available_from: number | null;
+    configurations: UnitConfiguration[];
+}
+
+export interface PublicUnit {
+    id: number;
+    unit_number: string;
+    unit_type: string;
+    tower: string | null;
+    floor_number: number;
+    bedrooms: number;
+    bathrooms: number;
+    area_sqft: number;
+    price: number;
+    price_per_sqft: number;
+    is_corner_unit: boolean;
+    has_terrace: boolean;
+}
+
+export interface UnitMixEntry {
+    unit_type: string;
+    bedrooms: number;
+    total_units: number;
+    available_units: number;
+    min_area_sqft: number;
+    max_area_sqft: number;
+}
+
+/**
+ * What buyers compare projects on. Prices come from units still for sale.
+ */
+export interface ProjectComparison {
+    id: number;
+    name: string;
+    location: string;
+    city: string;
+    state: string;
+    project_type: ProjectType;
+    status: ProjectStatus;
+    image: string | null;
+    builder: { id: number; name: string } | null;
+    // Completion date once completed, expected completion before that
+    possession_date: Date | null;
+    rera_number: string | null;
+    amenities: string[];
+    total_units: number;
+    available_units: number;
+    price_range: { min: number; max: number } | null;
+    price_per_sqft_range: { min: number; max: number } | null;
+    unit_mix: UnitMixEntry[];
+}
+
+export const MAX_COMPARED_PROJECTS = 4;
+
+// Approved, active projects are the only ones buyers see
+const PUBLIC_PROJECT_WHERE = {
+    is_active: true,
+    approval_status: 'approved',
+};
+
+/**
+ * Buyer-facing project search. Configuration and price filters apply to a project's available
+ * units, so a project matches when at least one unit it still has for sale fits them.
+ */
+class ProjectSearchService {
+    async searchProjects(filters: ProjectSearchFilters, page: number, limit: number): Promise<{
+        projects: any[];
+        total: number;
+    }> {
+        const unitFilter = this.unitFilterSql(filters);
+        const hasUnitFilter = Boolean(filters.bedrooms?.length) || filters.min_price !== undefined || filters.max_price !== undefined;
+
+        const where: WhereOptions = { ...PUBLIC_PROJECT_WHERE };
+        const conditions: any[] = [];
+
+        if (filters.location) {
+            conditions.push({ location: { [Op.like]: `%${filters.location}%` } });
+        }
+        if (filters.city) {
+            conditions.push({ city: { [Op.like]: `%${filters.city}%` } });
+        }
+        if (filters.project_types?.length) {
+            conditions.push({ project_type: { [Op.in]: filters.project_types } });
+        }
+        if (filters.statuses?.length) {
+            conditions.push({ status: { [Op.in]: filters.statuses } });
+        }
+        if (filters.possession_from || filters.possession_to) {
+            conditions.push({
+                expected_completion: {
+                    ...(filters.possession_from && { [Op.gte]: filters.possession_from }),
+                    ...(filters.possession_to && { [Op.lte]: filters.possession_to }),
+                },
+            });
+        }
+        if (hasUnitFilter) {
+            conditions.push(literal(`EXISTS (SELECT 1 FROM project_units pu WHERE pu.project_id = \`Project\`.\`id\` AND ${unitFilter})`));
+        }
+
+        const availableFrom = `(SELECT MIN(pu.price) FROM project_units pu WHERE pu.project_id = \`Project\`.\`id\` AND ${unitFilter})`;
+        const order: Order = {
+            newest: [['created_at', 'DESC']],
+            // Projects with nothing available go last either way
+            price_asc: [[literal(`${availableFrom} IS NULL`), 'ASC'], [literal(availableFrom), 'ASC']],
+            price_desc: [[literal(`${availableFrom} IS NULL`), 'ASC'], [literal(availableFrom), 'DESC']],
+            possession: [[literal('`Project`.`expected_completion` IS NULL'), 'ASC'], ['expected_completion', 'ASC']],
+        }[filters.sort || 'newest'] as Order;
+
+        const { rows, count } = await Project.findAndCountAll({
+            where: conditions.length > 0 ? { ...where, [Op.and]: conditions } : where,
+            order: [...(order as any[]), ['id', 'DESC']],
+            limit,
+            offset: (page - 1) * limit,
+        });
+
+        const projectIds = rows.map(project => project.id);
+        const [availability, images, builders] = await Promise.all([
+            this.getAvailability(projectIds, filters),
+            ProjectImage.findAll({
+                where: { project_id: { [Op.in]: projectIds }, ...GALLERY_IMAGE_WHERE },
+                order: [['is_primary', 'DESC'], ['display_order', 'ASC']],
+            }),
+            User.findAll({
+                where: { id: { [Op.in]: Array.from(new Set(rows.map(project => project.builder_id))) } },
+                attributes: ['id', 'first_name', 'last_name', 'email'],
+            }),
+        ]);
+
+        const builderById = new Map(builders.map(builder => [builder.id, builder]));
+
+        const projects = rows.map(project => {
+            const builder = builderById.get(project.builder_id);
+            return {
+                id: project.id,
+                name: project.name,
+                description: project.description,
+                location: project.location,
+                city: project.city,
+                state: project.state,
+                project_type: project.project_type,
+                status: project.status,
+                total_units: project.total_units,
+                available_units: project.available_units,
+                expected_completion: project.expected_completion,
+                pricing: project.pricing,
+                amenities: project.amenities,
+                images: images
+                    .filter(image => image.project_id === project.id)
+                    .slice(0, 3)
+                    .map(image => image.image_url),
+                builder: builder ? {
+                    id: builder.id,
+                    first_name: builder.first_name,
+                    last_name: builder.last_name,
+                    email: builder.email,
+                } : null,
+                availability: availability.get(project.id) || { available_units: 0, available_from: null, configurations: [] },
+                created_at: project.created_at,
+            };
+        });
+
+        return { projects, total: count };
+    }
+
+    /**
+     * Available units of a public project, optionally one BHK configuration, with a summary of
+     * every configuration still for sale
+     */
+    async getPublicAvailability(projectId: number, bedrooms?: number): Promise<{
+        configurations: UnitConfiguration[];
+        units: PublicUnit[];
+    }> {
+        const project = await Project.findOne({ where: { id: projectId, ...PUBLIC_PROJECT_WHERE }, attributes: ['id'] });
+        if (!project) {
+            throw new NotFoundError('Project not found');
+        }
+
+        const [availability, units] = await Promise.all([
+            this.getAvailability([projectId], {}),
+            ProjectUnit.findAll({
+                where: {
+                    project_id: projectId,
+                    status: UnitStatus.AVAILABLE,
+                    ...(bedrooms !== undefined && { bedrooms }),
+                },
+                attributes: [
+                    'id', 'unit_number', 'unit_type', 'tower', 'floor_number', 'bedrooms', 'bathrooms',
+                    'area_sqft', 'price', 'price_per_sqft', 'is_corner_unit', 'has_terrace',
+                ],
+                order: [['price', 'ASC'], ['unit_number', 'ASC']],
+            }),
+        ]);
+
+        return {
+            configurations: availability.get(projectId)?.configurations || [],
+            units: units.map(unit => ({
+                id: unit.id,
+                unit_number: unit.unit_number,
+                unit_type: unit.unit_type,
+                tower: unit.tower || null,
+                floor_number: unit.floor_number,
+                bedrooms: unit.bedrooms,
+                bathrooms: unit.bathrooms,
+                area_sqft: Number(unit.area_sqft),
+                price: Number(unit.price),
+                price_per_sqft: Number(unit.price_per_sqft),
+                is_corner_unit: Boolean(unit.is_corner_unit),
+                has_terrace: Boolean(unit.has_terrace),
+            })),
+        };
+    }
+
+    /**
+     * Public projects side by side, in the order asked for
+     */
+    async compareProjects(projectIds: number[]): Promise<ProjectComparison[]> {
+        const ids = Array.from(new Set(projectIds));
+        if (ids.length < 2 || ids.length > MAX_COMPARED_PROJECTS) {
+            throw new ValidationError(`You can compare between 2 and ${MAX_COMPARED_PROJECTS} projects`);
+        }
+
+        const projects = await Project.findAll({ where: { id: { [Op.in]: ids }, ...PUBLIC_PROJECT_WHERE } });
+        if (projects.length !== ids.length) {
+            throw new NotFoundError('One or more projects not found');
+        }
+
+        const [mixRows, priceRows, images, builders] = await Promise.all([
+            ProjectUnit.findAll({
+                attributes: [
+                    'project_id',
+                    'unit_type',
+                    [fn('MIN', col('bedrooms')), 'bedrooms'],
+                    [fn('COUNT', col('id')), 'total_units'],
+                    [literal(`SUM(status = ${sequelize.escape(UnitStatus.AVAILABLE)})`), 'available_units'],
+                    [fn('MIN', col('area_sqft')), 'min_area_sqft'],
+                    [fn('MAX', col('area_sqft')), 'max_area_sqft'],
+                ],
+                where: { project_id: { [Op.in]: ids } },
+                group: ['project_id', 'unit_type'],
+                order: [[fn('MIN', col('bedrooms')), 'ASC'], ['unit_type', 'ASC']],
+                raw: true,
+            }) as unknown as Promise<Array<Record<string, string | number>>>,
+            ProjectUnit.findAll({
+                attributes: [
+                    'project_id',
+                    [fn('MIN', col('price')), 'min_price'],
+                    [fn('MAX', col('price')), 'max_price'],
+                    [fn('MIN', col('price_per_sqft')), 'min_price_per_sqft'],
+                    [fn('MAX', col('price_per_sqft')), 'max_price_per_sqft'],
+                ],
+                where: { project_id: { [Op.in]: ids }, status: UnitStatus.AVAILABLE },
+                group: ['project_id'],
+                raw: true,
+            }) as unknown as Promise<Array<Record<string, string | number>>>,
+            ProjectImage.findAll({
+                where: { project_id: { [Op.in]: ids }, ...GALLERY_IMAGE_WHERE },
+                order: [['is_primary', 'DESC'], ['display_order', 'ASC']],
+            }),
+            User.findAll({
+                where: { id: { [Op.in]: Array.from(new Set(projects.map(project => project.builder_id))) } },
+                attributes: ['id', 'first_name', 'last_name'],
+            }),
+        ]);
+
+        const projectById = new Map(projects.map(project => [project.id, project]));
+        const builderById = new Map(builders.map(builder => [builder.id, builder]));
+        const pricesByProject = new Map(priceRows.map(row => [Number(row.project_id), row]));
+
+        return ids.map(id => {
+            const project = projectById.get(id)!;
+            const builder = builderById.get(project.builder_id);
+            const prices = pricesByProject.get(id);
+            const unitMix = mixRows
+                .filter(row => Number(row.project_id) === id)
+                .map(row => ({
+                    unit_type: String(row.unit_type),
+                    bedrooms: Number(row.bedrooms),
+                    total_units: Number(row.total_units),
+                    available_units: Number(row.available_units),
+                    min_area_sqft: Number(row.min_area_sqft),
+                    max_area_sqft: Number(row.max_area_sqft),
+                }));
+
+            return {
+                id: project.id,
+                name: project.name,
+                location: project.location,
+                city: project.city,
+                state: project.state,
+                project_type: project.project_type,
+                status: project.status,
+                image: images.find(image => image.project_id === id)?.image_url || null,
+                builder: builder ? { id: builder.id, name: `${builder.first_name} ${builder.last_name}`.trim() } : null,
+                possession_date: project.actual_completion || project.expected_completion || null,
+                rera_number: project.rera_number || null,
+                amenities: project.amenities || [],
+                total_units: project.total_units,
+                available_units: project.available_units,
+                price_range: prices ? { min: Number(prices.min_price), max: Number(prices.max_price) } : null,
+                price_per_sqft_range: prices
+                    ? { min: Number(prices.min_price_per_sqft), max: Number(prices.max_price_per_sqft) }
+                    : null,
+                unit_mix: unitMix,
+            };
+        });
+    }
+
+    /**
+     * Availability summaries for several projects in one grouped query
+     */
+    private async getAvailability(projectIds: number[], filters: ProjectSearchFilters): Promise<Map<number, ProjectAvailability>> {
+        const result = new Map<number, ProjectAvailability>();
+        if (projectIds.length === 0) {
+            return result;
+        }
+
+        const rows = await ProjectUnit.findAll({
+            attributes: [
+                'project_id',
+                'bedrooms',
+                [fn('COUNT', col('id')), 'available_units'],
+                [fn('MIN', col('price')), 'min_price'],
+                [fn('MAX', col('price')), 'max_price'],
+                [fn('MIN', col('area_sqft')), 'min_area_sqft'],
+                [fn('MAX', col('area_sqft')), 'max_area_sqft'],
+            ],
+            where: {
+                project_id: { [Op.in]: projectIds },
+                status: UnitStatus.AVAILABLE,
+                ...(filters.bedrooms?.length && { bedrooms: { [Op.in]: filters.bedrooms } }),
+                ...((filters.min_price !== undefined || filters.max_price !== undefined) && {
+                    price: {
+                        ...(filters.min_price !== undefined && { [Op.gte]: filters.min_price }),
+                        ...(filters.max_price !== undefined && { [Op.lte]: filters.max_price }),
+                    },
+                }),
+            },
+            group: ['project_id', 'bedrooms'],
+            order: [['bedrooms', 'ASC']],
+            raw: true,
+        }) as unknown as Array<Record<string, string | number>>;
+
+        rows.forEach(row => {
+            const projectId = Number(row.project_id);
+            const summary = result.get(projectId) || { available_units: 0, available_from: null, configurations: [] };
+            const configuration: UnitConfiguration = {
+                bedrooms: Number(row.bedrooms),
+                available_units: Number(row.available_units),
+                min_price: Number(row.min_price),
+                max_price: Number(row.max_price),
+                min_area_sqft: Number(row.min_area_sqft),
+                max_area_sqft: Number(row.max_area_sqft),
+            };
+
+            summary.configurations.push(configuration);
+            summary.available_units += configuration.available_units;
+            summary.available_from = summary.available_from === null
+                ? configuration.min_price
+                : Math.min(summary.available_from, configuration.min_price);
+            result.set(projectId, summary);
+        });
+
+        return result;
+    }
+
+    /**
+     * SQL condition on `pu` (project_units) for available units matching the unit-level filters
+     */
+    private unitFilterSql(filters: ProjectSearchFilters): string {
+        const conditions = [`pu.status = ${sequelize.escape(UnitStatus.AVAILABLE)}`];
+
+        if (filters.bedrooms?.length) {
+            conditions.push(`pu.bedrooms IN (${filters.bedrooms.map(bedrooms => sequelize.escape(bedrooms)).join(', ')})`);
+        }
+        if (filters.min_price !== undefined) {
+            conditions.push(`pu.price >= ${sequelize.escape(filters.min_price)}`);
+        }
+        if (filters.max_price !== undefined) {
+            conditions.push(`pu.price <= ${sequelize.escape(filters.max_price)}`);
+        }
+
+        return conditions.join(' AND ');
+    }
+}
+
+export default ProjectSearchService;
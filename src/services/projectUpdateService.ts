@@ -0,0 +1,357 @@
+import { Op, UniqueConstraintError } from 'sequelize';
+import { Project } from '../models/Project';
+import { CONSTRUCTION_IMAGE_TYPE, ProjectImage } from '../models/ProjectImage';
+import { ProjectUpdate, ProjectUpdateType, ConstructionStage } from '../models/ProjectUpdate';
+import { Inquiry } from '../models/Inquiry';
+import { User } from '../models/User';
+import { ProjectPermission } from '../models/BuilderTeamMember';
+import { ImageServiceS3 } from './imageServiceS3';
+import emailService from './emailService';
+import ProjectAccessService from './projectAccessService';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errorResponse';
+
+export interface ProjectUpdateInput {
+    update_type: ProjectUpdateType;
+    title: string;
+    description?: string | null;
+    update_date?: string;
+    progress_percent?: number | null;
+    stages?: ConstructionStage[] | null;
+    report_year?: number | null;
+    report_quarter?: number | null;
+}
+
+export interface ProjectUpdatePhoto {
+    id: number;
+    url: string;
+    thumbnailUrl?: string;
+    mediumUrl?: string;
+    largeUrl?: string;
+}
+
+export type ProjectUpdateWithPhotos = ReturnType<ProjectUpdate['toJSON']> & { photos: ProjectUpdatePhoto[] };
+
+export interface CreatedProjectUpdate {
+    update: ProjectUpdateWithPhotos;
+    failedPhotos: Array<{ filename: string; error: string }>;
+}
+
+export interface PublicProjectUpdates {
+    timeline: {
+        status: string;
+        start_date: Date | null;
+        expected_completion: Date | null;
+        actual_completion: Date | null;
+        progress_percent: number | null;
+        last_updated: string | null;
+    };
+    updates: ProjectUpdateWithPhotos[];
+    pagination: {
+        page: number;
+        limit: number;
+        total: number;
+        totalPages: number;
+    };
+}
+
+const UPDATE_TYPE_LABELS: Record<ProjectUpdateType, string> = {
+    [ProjectUpdateType.MILESTONE]: 'Milestone Reached',
+    [ProjectUpdateType.PROGRESS]: 'Construction Progress Update',
+    [ProjectUpdateType.QUARTERLY_REPORT]: 'Quarterly Progress Report',
+};
+
+const today = (): string => new Date().toISOString().slice(0, 10);
+
+// First day of the quarter, as YYYY-MM-DD
+const quarterStart = (year: number, quarter: number): string =>
+    `${year}-${String((quarter - 1) * 3 + 1).padStart(2, '0')}-01`;
+
+/**
+ * Construction milestones, progress updates and quarterly reports builders post for their
+ * projects. Buyers see them as a public timeline, and everyone who enquired about the project
+ * is emailed when a new one is posted.
+ */
+class ProjectUpdateService {
+    private projectAccess = new ProjectAccessService();
+
+    /**
+     * All updates for a builder's project, latest first
+     */
+    async getUpdates(projectId: number, userId: number): Promise<ProjectUpdateWithPhotos[]> {
+        await this.getBuilderProject(projectId, userId, ProjectPermission.VIEW);
+
+        const updates = await ProjectUpdate.findAll({
+            where: { project_id: projectId },
+            order: [['update_date', 'DESC'], ['id', 'DESC']],
+        });
+
+        return this.withPhotos(updates);
+    }
+
+    /**
+     * Post an update with its site photos. Photos that fail to process are reported back rather
+     * than failing the update. Buyers are emailed in the background.
+     */
+    async createUpdate(
+        projectId: number,
+        userId: number,
+        input: ProjectUpdateInput,
+        photos: Express.Multer.File[] = []
+    ): Promise<CreatedProjectUpdate> {
+        const project = await this.getBuilderProject(projectId, userId, ProjectPermission.MANAGE_MARKETING);
+        const updateDate = input.update_date || today();
+
+        if (updateDate > today()) {
+            throw new ValidationError('Update date cannot be in the future');
+        }
+
+        const isReport = input.update_type === ProjectUpdateType.QUARTERLY_REPORT;
+        if (input.update_type !== ProjectUpdateType.MILESTONE && input.progress_percent == null) {
+            throw new ValidationError('Progress percentage is required for progress updates and quarterly reports');
+        }
+        if (isReport) {
+            if (!input.report_year || !input.report_quarter) {
+                throw new ValidationError('Report year and quarter are required for quarterly reports');
+            }
+            if (quarterStart(input.report_year, input.report_quarter) > today()) {
+                throw new ValidationError('Quarterly reports cannot be filed for a future quarter');
+            }
+
+            const existing = await ProjectUpdate.findOne({
+                where: { project_id: projectId, report_year: input.report_year, report_quarter: input.report_quarter },
+                attributes: ['id'],
+            });
+            if (existing) {
+                throw new ConflictError(`A report for Q${input.report_quarter} ${input.report_year} has already been filed`);
+            }
+        }
+
+        const imageIds: number[] = [];
+        const failedPhotos: CreatedProjectUpdate['failedPhotos'] = [];
+
+        for (const photo of photos) {
+            const result = await ImageServiceS3.processAndSaveProjectImage(projectId, photo, {
+                generateThumbnail: true,
+                optimize: true,
+                quality: 85,
+            });
+
+            if (result.success && result.imageId) {
+                imageIds.push(result.imageId);
+            } else {
+                failedPhotos.push({ filename: photo.originalname, error: result.error || 'Unknown error' });
+            }
+        }
+
+        const title = input.title.trim();
+
+        let update: ProjectUpdate;
+        try {
+            // Site photos are kept with the project's images, tagged so they stay out of its gallery
+            if (imageIds.length > 0) {
+                await ProjectImage.update(
+                    { image_type: CONSTRUCTION_IMAGE_TYPE, caption: title },
+                    { where: { id: imageIds } }
+                );
+            }
+
+            update = await ProjectUpdate.create({
+                project_id: projectId,
+                update_type: input.update_type,
+                title,
+                description: input.description?.trim() || null,
+                update_date: updateDate,
+                progress_percent: input.progress_percent ?? null,
+                stages: input.stages?.length ? input.stages : null,
+                report_year: isReport ? input.report_year : null,
+                report_quarter: isReport ? input.report_quarter : null,
+                // The unit position a RERA quarterly return is filed against
+                inventory_snapshot: isReport
+                    ? {
+                        total_units: project.total_units,
+                        available_units: project.available_units,
+                        blocked_units: project.blocked_units,
+                        sold_units: project.sold_units,
+                    }
+                    : null,
+                image_ids: imageIds.length > 0 ? imageIds : null,
+                created_by: userId,
+            });
+        } catch (error) {
+            await this.deletePhotos(imageIds, project.builder_id);
+            if (error instanceof UniqueConstraintError) {
+                throw new ConflictError(`A report for Q${input.report_quarter} ${input.report_year} has already been filed`);
+            }
+            throw error;
+        }
+
+        this.notifyInquirers(update.id).catch(error =>
+            console.error(`Failed to send notices for project update ${update.id}:`, error)
+        );
+
+        const [withPhotos] = await this.withPhotos([update]);
+        return { update: withPhotos, failedPhotos };
+    }
+
+    /**
+     * Remove an update along with its site photos
+     */
+    async deleteUpdate(projectId: number, userId: number, updateId: number): Promise<void> {
+        const project = await this.getBuilderProject(projectId, userId, ProjectPermission.MANAGE_MARKETING);
+
+        const update = await ProjectUpdate.findOne({ where: { id: updateId, project_id: projectId } });
+        if (!update) {
+            throw new NotFoundError('Project update not found');
+        }
+
+        await update.destroy();
+        await this.deletePhotos(update.image_ids || [], project.builder_id);
+    }
+
+    /**
+     * The construction timeline of a public project: its schedule, the latest reported
+     * progress, and a page of updates
+     */
+    async getPublicUpdates(projectId: number, page: number = 1, limit: number = 10): Promise<PublicProjectUpdates> {
+        const project = await Project.findOne({
+            where: { id: projectId, is_active: true, approval_status: 'approved' },
+            attributes: ['id', 'status', 'start_date', 'expected_completion', 'actual_completion'],
+        });
+        if (!project) {
+            throw new NotFoundError('Project not found');
+        }
+
+        const [{ count, rows }, latestProgress, latest] = await Promise.all([
+            ProjectUpdate.findAndCountAll({
+                where: { project_id: projectId },
+                order: [['update_date', 'DESC'], ['id', 'DESC']],
+                limit,
+                offset: (page - 1) * limit,
+            }),
+            ProjectUpdate.findOne({
+                where: { project_id: projectId, progress_percent: { [Op.ne]: null } },
+                order: [['update_date', 'DESC'], ['id', 'DESC']],
+                attributes: ['progress_percent'],
+            }),
+            ProjectUpdate.findOne({
+                where: { project_id: projectId },
+                order: [['update_date', 'DESC'], ['id', 'DESC']],
+                attributes: ['update_date'],
+            }),
+        ]);
+
+        return {
+            timeline: {
+                status: project.status,
+                start_date: project.start_date || null,
+                expected_completion: project.expected_completion || null,
+                actual_completion: project.actual_completion || null,
+                progress_percent: latestProgress ? Number(latestProgress.progress_percent) : null,
+                last_updated: latest?.update_date || null,
+            },
+            updates: await this.withPhotos(rows),
+            pagination: {
+                page,
+                limit,
+                total: count,
+                totalPages: Math.ceil(count / limit),
+            },
+        };
+    }
+
+    /**
+     * Email everyone who enquired about the project, once per address. Returns the number notified.
+     */
+    async notifyInquirers(updateId: number): Promise<number> {
+        const update = await ProjectUpdate.findByPk(updateId);
+        if (!update || update.notified_at) {
+            return 0;
+        }
+
+        const project = await Project.findByPk(update.project_id);
+        if (!project || !project.is_active || project.approval_status !== 'approved') {
+            return 0;
+        }
+
+        const inquiries = await Inquiry.findAll({
+            where: { project_id: project.id },
+            attributes: ['name', 'email', 'inquirer_id'],
+            order: [['created_at', 'DESC']],
+        });
+
+        // Builders don't need to hear about their own updates
+        const builder = await User.findByPk(project.builder_id, { attributes: ['email'] });
+        const recipients = new Map<string, string>();
+        inquiries.forEach(inquiry => {
+            const email = inquiry.email.trim().toLowerCase();
+            if (inquiry.inquirer_id !== project.builder_id && email !== builder?.email.toLowerCase() && !recipients.has(email)) {
+                recipients.set(email, inquiry.name);
+            }
+        });
+
+        let notified = 0;
+        for (const [email, name] of recipients) {
+            try {
+                await emailService.sendProjectUpdateNotice(email, {
+                    userName: name,
+                    project: {
+                        name: project.name,
+                        city: project.city,
+                        url: `${process.env.FRONTEND_URL}/project/${project.id}`,
+                    },
+                    update: {
+                        title: update.title,
+                        typeLabel: UPDATE_TYPE_LABELS[update.update_type],
+                        date: update.update_date,
+                        description: update.description,
+                        progressPercent: update.progress_percent != null ? Number(update.progress_percent) : null,
+                        photoCount: update.image_ids?.length || 0,
+                    },
+                });
+                notified++;
+            } catch (error) {
+                console.error(`Failed to send project update notice for update ${update.id}:`, error);
+            }
+        }
+
+        await update.update({ notified_at: new Date(), recipients_notified: notified });
+        return notified;
+    }
+
+    private async withPhotos(updates: ProjectUpdate[]): Promise<ProjectUpdateWithPhotos[]> {
+        const imageIds = updates.flatMap(update => update.image_ids || []);
+        const images = imageIds.length > 0
+            ? await ProjectImage.findAll({ where: { id: imageIds } })
+            : [];
+        const imagesById = new Map(images.map(image => [image.id, image]));
+
+        return updates.map(update => ({
+            ...update.toJSON(),
+            photos: (update.image_ids || [])
+                .map(id => imagesById.get(id))
+                .filter((image): image is ProjectImage => Boolean(image))
+                .map(image => ({
+                    id: image.id,
+                    url: image.image_url,
+                    thumbnailUrl: image.thumbnail_url,
+                    mediumUrl: image.medium_url,
+                    largeUrl: image.large_url,
+                })),
+        }));
+    }
+
+    private async deletePhotos(imageIds: number[], builderId: number): Promise<void> {
+        for (const imageId of imageIds) {
+            const result = await ImageServiceS3.deleteProjectImage(imageId, builderId);
+            if (!result.success) {
+                console.error(`Failed to delete construction photo ${imageId}:`, result.error);
+            }
+        }
+    }
+
+    private async getBuilderProject(projectId: number, userId: number, permission: ProjectPermission): Promise<Project> {
+        return this.projectAccess.authorize(projectId, userId, permission);
+    }
+}
+
+export default ProjectUpdateService;
@@ -1,10 +1,21 @@
-import { Property, PropertyType, ListingType, PropertyStatus } from '../models/Property';
+import { Property, PropertyType, ListingType, PropertyStatus, ListingState } from '../models/Property';
 import { PropertyImage } from '../models/PropertyImage';
+import { PropertyPriceHistory } from '../models/PropertyPriceHistory';
 import { User } from '../models/User';
-import { Op, WhereOptions, Order } from 'sequelize';
+import { Op, WhereOptions, FindAttributeOptions, Includeable, col, fn, literal, where } from 'sequelize';
 import { transformPropertiesWithImages, transformPropertyWithImages } from '../utils/imageUtils';
 import RedisConnection from '../config/redis';
+import sequelize from '../config/database';
 import CacheService from './cacheService';
+import ListingLifecycleService from './listingLifecycleService';
+import DuplicateDetectionService, { DuplicateMatch } from './duplicateDetectionService';
+import RecommendationService from './recommendationService';
+import { distanceSql, getBoundingBox, getPolygonsBoundingBox, GeoPolygon, polygonsSql } from '../utils/geoUtils';
+import { buildBooleanQuery, buildHighlightedSnippet, getFullTextTerms, highlightTerms } from '../utils/searchText';
+import { CursorKey, CursorPaginatedResult, findCursorPage, keysetOrder } from '../utils/cursorPagination';
+import { AmenityMatchMode, amenityFilterSql } from '../utils/amenityFilter';
+import { propertyEvents } from '../utils/propertyEvents';
+import { ApiError } from '../utils/errorResponse';
 
 export interface PropertySearchFilters {
     propertyType?: PropertyType;
@@ -20,10 +31,12 @@ export interface PropertySearchFilters {
     minArea?: number;
     maxArea?: number;
     amenities?: string[];
+    amenitiesMatch?: AmenityMatchMode; // 'all' (default): must have every amenity, 'any': at least one
     latitude?: number;
     longitude?: number;
     radius?: number; // in kilometers
-    sortBy?: 'price' | 'date' | 'relevance' | 'views';
+    polygons?: GeoPolygon[]; // Drawn map areas, [longitude, latitude] rings
+    sortBy?: 'price' | 'date' | 'relevance' | 'views' | 'distance';
     sortOrder?: 'asc' | 'desc';
     page?: number;
     limit?: number;
@@ -31,6 +44,7 @@ export interface PropertySearchFilters {
     isFeatured?: boolean;
     isActive?: boolean;
     keywords?: string; // For keyword search
+    includeFacets?: boolean; // Return facet counts alongside the results
 }
 
 export interface PropertyCreateData {
@@ -54,10 +68,109 @@ export interface PropertyCreateData {
     expiresAt?: Date;
     autoRenew?: boolean;
     renewalPeriodDays?: number;
+    submitForReview?: boolean; // false saves a draft; listings go public only once approved and published
 }
 
-export interface PropertyUpdateData extends Partial<PropertyCreateData> {
-    isActive?: boolean;
+export interface PropertyCreateResult {
+    property: Property;
+    duplicateWarnings: DuplicateMatch[]; // Likely duplicates the creator can see (their own or published listings)
+}
+
+// Visibility changes go through ListingLifecycleService rather than updates
+export type PropertyUpdateData = Partial<Omit<PropertyCreateData, 'submitForReview'>>;
+
+export interface PropertySearchSuggestion {
+    id: string;
+    text: string;
+    type: 'location' | 'property_type' | 'property';
+    highlight: string;
+    count?: number;
+    propertyId?: number;
+}
+
+export interface FacetBucket<T = string> {
+    value: T;
+    count: number;
+}
+
+export interface PriceBandFacet {
+    key: string;
+    label: string;
+    listingType: ListingType;
+    min: number;
+    max?: number;
+    count: number;
+}
+
+/**
+ * Result counts per filter option. Each facet is counted with every other active filter applied,
+ * but not its own, so the counts show what selecting that option would return.
+ */
+export interface PropertySearchFacets {
+    property_type: FacetBucket<PropertyType>[];
+    listing_type: FacetBucket<ListingType>[];
+    status: FacetBucket<PropertyStatus>[];
+    bedrooms: FacetBucket<number>[];
+    city: FacetBucket[];
+    amenities: FacetBucket[];
+    price_bands: PriceBandFacet[];
+}
+
+interface SearchConditions {
+    whereConditions: WhereOptions;
+    distanceExpression: string | null;
+    relevanceExpression: string | null;
+    keywordTerms: string[];
+}
+
+const MAX_CITY_FACETS = 20;
+
+const USER_PROPERTIES_SORT_KEYS: CursorKey[] = [
+    { name: 'created_at', direction: 'DESC', type: 'date' },
+    { name: 'id', direction: 'DESC' },
+];
+
+// Sort position for listings without coordinates when ordering by distance (beyond any real distance)
+const UNKNOWN_DISTANCE_KM = 99999;
+
+// Amenities counted in search facets (keys of PropertyAmenities)
+const FACET_AMENITIES = [
+    'parking', 'gym', 'swimming_pool', 'garden', 'security', 'elevator', 'power_backup', 'water_supply',
+    'internet', 'air_conditioning', 'furnished', 'pet_friendly', 'balcony', 'terrace', 'club_house', 'playground',
+];
+
+// Price bands in INR; sale and rent listings are bucketed separately
+const PRICE_BANDS: Omit<PriceBandFacet, 'count'>[] = [
+    { key: 'sale_under_25l', label: 'Under ₹25 L', listingType: ListingType.SALE, min: 0, max: 2500000 },
+    { key: 'sale_25l_50l', label: '₹25 L - ₹50 L', listingType: ListingType.SALE, min: 2500000, max: 5000000 },
+    { key: 'sale_50l_1cr', label: '₹50 L - ₹1 Cr', listingType: ListingType.SALE, min: 5000000, max: 10000000 },
+    { key: 'sale_1cr_2cr', label: '₹1 Cr - ₹2 Cr', listingType: ListingType.SALE, min: 10000000, max: 20000000 },
+    { key: 'sale_2cr_5cr', label: '₹2 Cr - ₹5 Cr', listingType: ListingType.SALE, min: 20000000, max: 50000000 },
+    { key: 'sale_above_5cr', label: 'Above ₹5 Cr', listingType: ListingType.SALE, min: 50000000 },
+    { key: 'rent_under_10k', label: 'Under ₹10 K', listingType: ListingType.RENT, min: 0, max: 10000 },
+    { key: 'rent_10k_25k', label: '₹10 K - ₹25 K', listingType: ListingType.RENT, min: 10000, max: 25000 },
+    { key: 'rent_25k_50k', label: '₹25 K - ₹50 K', listingType: ListingType.RENT, min: 25000, max: 50000 },
+    { key: 'rent_50k_1l', label: '₹50 K - ₹1 L', listingType: ListingType.RENT, min: 50000, max: 100000 },
+    { key: 'rent_above_1l', label: 'Above ₹1 L', listingType: ListingType.RENT, min: 100000 },
+];
+
+export interface PriceHistoryEntry {
+    price: number;
+    previousPrice: number | null;
+    changeAmount: number | null;
+    changePercent: number | null;
+    listingType: ListingType;
+    changedAt: Date;
+}
+
+export interface PropertyPriceHistoryResult {
+    propertyId: number;
+    listingType: ListingType;
+    currentPrice: number;
+    initialPrice: number;
+    lowestPrice: number;
+    highestPrice: number;
+    history: PriceHistoryEntry[]; // Oldest first
 }
 
 export interface PaginatedResult<T> {
@@ -75,40 +188,100 @@ export interface PaginatedResult<T> {
 class PropertyService {
     private redis: RedisConnection;
     private cacheService: CacheService;
+    private lifecycleService: ListingLifecycleService;
+    private duplicateService: DuplicateDetectionService;
+    private recommendationService: RecommendationService;
 
     constructor() {
         this.redis = RedisConnection.getInstance();
         this.cacheService = new CacheService();
+        this.lifecycleService = new ListingLifecycleService();
+        this.duplicateService = new DuplicateDetectionService();
+        this.recommendationService = new RecommendationService();
     }
 
-    async createProperty(userId: number, propertyData: PropertyCreateData): Promise<Property> {
+    /**
+     * Create a listing. Likely duplicates of existing listings above the block threshold are refused
+     * with a 409 DUPLICATE_LISTING error when the evidence is strong enough; the rest above the warn
+     * threshold are flagged for admin review.
+     */
+    async createProperty(
+        userId: number,
+        propertyData: PropertyCreateData,
+        source: 'create' | 'bulk_upload' = 'create'
+    ): Promise<PropertyCreateResult> {
         try {
-            // Set default expiration to 90 days if not provided
-            const defaultExpirationDate = new Date();
-            defaultExpirationDate.setDate(defaultExpirationDate.getDate() + 90);
-
-            const property = await Property.create({
-                user_id: userId,
-                title: propertyData.title,
-                description: propertyData.description,
-                property_type: propertyData.propertyType,
-                listing_type: propertyData.listingType,
-                status: propertyData.status,
-                price: propertyData.price,
-                area_sqft: propertyData.areaSqft,
-                bedrooms: propertyData.bedrooms,
-                bathrooms: propertyData.bathrooms,
+            const duplicateCheck = await this.duplicateService.assess({
+                propertyType: propertyData.propertyType,
+                listingType: propertyData.listingType,
                 address: propertyData.address,
                 city: propertyData.city,
-                state: propertyData.state,
-                postal_code: propertyData.postalCode,
+                postalCode: propertyData.postalCode,
                 latitude: propertyData.latitude,
                 longitude: propertyData.longitude,
-                amenities: propertyData.amenities,
-                is_featured: propertyData.isFeatured || false,
-                expires_at: propertyData.expiresAt || defaultExpirationDate,
-                auto_renew: propertyData.autoRenew || false,
-                renewal_period_days: propertyData.renewalPeriodDays || 30,
+                price: propertyData.price,
+                areaSqft: propertyData.areaSqft,
+                bedrooms: propertyData.bedrooms,
+            }, userId);
+
+            // Other owners' unpublished listings are flagged but not described to the creator
+            const visibleMatches = duplicateCheck.matches.filter(
+                match => match.ownerId === userId || match.listingState === ListingState.PUBLISHED
+            );
+
+            if (duplicateCheck.decision === 'block') {
+                throw new ApiError(
+                    'This listing appears to duplicate an existing one',
+                    409,
+                    'DUPLICATE_LISTING',
+                    { matches: visibleMatches }
+                );
+            }
+
+            // Set default expiration to 90 days if not provided
+            const defaultExpirationDate = new Date();
+            defaultExpirationDate.setDate(defaultExpirationDate.getDate() + 90);
+
+            const property = await sequelize.transaction(async (transaction) => {
+                const created = await Property.create({
+                    user_id: userId,
+                    title: propertyData.title,
+                    description: propertyData.description,
+                    property_type: propertyData.propertyType,
+                    listing_type: propertyData.listingType,
+                    status: propertyData.status,
+                    price: propertyData.price,
+                    area_sqft: propertyData.areaSqft,
+                    bedrooms: propertyData.bedrooms,
+                    bathrooms: propertyData.bathrooms,
+                    address: propertyData.address,
+                    city: propertyData.city,
+                    state: propertyData.state,
+                    postal_code: propertyData.postalCode,
+                    latitude: propertyData.latitude,
+                    longitude: propertyData.longitude,
+                    amenities: propertyData.amenities,
+                    is_featured: propertyData.isFeatured || false,
+                    expires_at: propertyData.expiresAt || defaultExpirationDate,
+                    auto_renew: propertyData.autoRenew || false,
+                    renewal_period_days: propertyData.renewalPeriodDays || 30,
+                    listing_state: propertyData.submitForReview === false ? ListingState.DRAFT : ListingState.SUBMITTED,
+                }, { transaction });
+
+                await this.lifecycleService.recordCreation(created, userId, transaction);
+
+                // The listing price is the first point of the price history
+                await PropertyPriceHistory.create({
+                    property_id: created.id,
+                    price: created.price,
+                    previous_price: null,
+                    listing_type: created.listing_type,
+                    changed_by: userId,
+                }, { transaction });
+
+                await this.duplicateService.recordFlags(created.id, duplicateCheck.matches, source, transaction);
+
+                return created;
             });
 
             // Clear related caches
@@ -145,7 +318,7 @@ class PropertyService {
             const { default: savedSearchService } = await import('./savedSearchService');
             // await savedSearchService.checkForNewMatches(property); // implement later to notify the user of matches
 
-            return property;
+            return { property, duplicateWarnings: visibleMatches };
         } catch (error) {
             console.error('Error creating property:', error);
             throw error;
@@ -209,34 +382,66 @@ class PropertyService {
                 return null;
             }
 
-            await property.update({
-                title: updateData.title,
-                description: updateData.description,
-                property_type: updateData.propertyType,
-                listing_type: updateData.listingType,
-                status: updateData.status,
-                price: updateData.price,
-                area_sqft: updateData.areaSqft,
-                bedrooms: updateData.bedrooms,
-                bathrooms: updateData.bathrooms,
-                address: updateData.address,
-                city: updateData.city,
-                state: updateData.state,
-                postal_code: updateData.postalCode,
-                latitude: updateData.latitude,
-                longitude: updateData.longitude,
-                amenities: updateData.amenities,
-                is_featured: updateData.isFeatured,
-                is_active: updateData.isActive,
-                expires_at: updateData.expiresAt,
-                auto_renew: updateData.autoRenew,
-                renewal_period_days: updateData.renewalPeriodDays,
+            const previousPrice = Number(property.price);
+            const previousListingType = property.listing_type;
+
+            const priceChanged = await sequelize.transaction(async (transaction) => {
+                await property.update({
+                    title: updateData.title,
+                    description: updateData.description,
+                    property_type: updateData.propertyType,
+                    listing_type: updateData.listingType,
+                    status: updateData.status,
+                    price: updateData.price,
+                    area_sqft: updateData.areaSqft,
+                    bedrooms: updateData.bedrooms,
+                    bathrooms: updateData.bathrooms,
+                    address: updateData.address,
+                    city: updateData.city,
+                    state: updateData.state,
+                    postal_code: updateData.postalCode,
+                    latitude: updateData.latitude,
+                    longitude: updateData.longitude,
+                    amenities: updateData.amenities,
+                    is_featured: updateData.isFeatured,
+                    expires_at: updateData.expiresAt,
+                    auto_renew: updateData.autoRenew,
+                    renewal_period_days: updateData.renewalPeriodDays,
+                }, { transaction });
+
+                if (updateData.price === undefined || Number(property.price) === previousPrice) {
+                    return false;
+                }
+
+                await PropertyPriceHistory.create({
+                    property_id: property.id,
+                    price: property.price,
+                    previous_price: previousPrice,
+                    listing_type: property.listing_type,
+                    changed_by: userId,
+                }, { transaction });
+
+                return true;
             });
 
             // Clear caches
             await this.clearPropertyCaches();
             await this.cacheService.invalidatePropertyRelatedCache(id);
 
+            // A sale listing turned into a rental is a different price, not a cheaper one
+            const price = Number(property.price);
+            if (priceChanged && price < previousPrice && property.listing_type === previousListingType) {
+                propertyEvents.emitPriceDrop({
+                    propertyId: property.id,
+                    listingType: property.listing_type,
+                    previousPrice,
+                    price,
+                    dropAmount: previousPrice - price,
+                    dropPercent: Math.round(((previousPrice - price) / previousPrice) * 10000) / 100,
+                    changedAt: new Date(),
+                });
+            }
+
             return property;
         } catch (error) {
             console.error('Error updating property:', error);
@@ -273,7 +478,10 @@ class PropertyService {
         }
     }
 
-    async searchProperties(filters: PropertySearchFilters, requestId: string = 'unknown'): Promise<PaginatedResult<Property>> {
+    async searchProperties(
+        filters: PropertySearchFilters,
+        requestId: string = 'unknown'
+    ): Promise<PaginatedResult<Property> & { facets?: PropertySearchFacets }> {
         try {
             console.log(`[${requestId}] === SEARCH SERVICE CALLED ===`);
             const page = filters.page || 1;
@@ -305,202 +513,7 @@ class PropertyService {
             //     }
             // }
 
-            // Build where conditions
-            let whereConditions: WhereOptions = {
-                is_active: filters.isActive !== undefined ? filters.isActive : true,
-            };
-
-            // Collect all basic conditions
-            const basicConditions: WhereOptions = {};
-
-            if (filters.propertyType) {
-                basicConditions.property_type = filters.propertyType;
-            }
-
-            if (filters.listingType) {
-                basicConditions.listing_type = filters.listingType;
-            }
-
-            if (filters.status) {
-                basicConditions.status = filters.status;
-            }
-
-            if (filters.minPrice || filters.maxPrice) {
-                basicConditions.price = {};
-                if (filters.minPrice) {
-                    (basicConditions.price as any)[Op.gte] = filters.minPrice;
-                }
-                if (filters.maxPrice) {
-                    (basicConditions.price as any)[Op.lte] = filters.maxPrice;
-                }
-            }
-
-            if (filters.bedrooms) {
-                basicConditions.bedrooms = filters.bedrooms;
-            }
-
-            if (filters.bathrooms) {
-                basicConditions.bathrooms = filters.bathrooms;
-            }
-
-            if (filters.minArea || filters.maxArea) {
-                basicConditions.area_sqft = {};
-                if (filters.minArea) {
-                    (basicConditions.area_sqft as any)[Op.gte] = filters.minArea;
-                }
-                if (filters.maxArea) {
-                    (basicConditions.area_sqft as any)[Op.lte] = filters.maxArea;
-                }
-            }
-
-            if (filters.userId) {
-                basicConditions.user_id = filters.userId;
-            }
-
-            if (filters.isFeatured !== undefined) {
-                basicConditions.is_featured = filters.isFeatured;
-            }
-
-            // Handle coordinate-based location search
-            if (filters.latitude && filters.longitude && filters.radius) {
-                // Using Haversine formula for radius search
-                const radiusInDegrees = filters.radius / 111; // Approximate conversion
-                basicConditions.latitude = {
-                    [Op.between]: [filters.latitude - radiusInDegrees, filters.latitude + radiusInDegrees],
-                };
-                basicConditions.longitude = {
-                    [Op.between]: [filters.longitude - radiusInDegrees, filters.longitude + radiusInDegrees],
-                };
-            }
-
-            // Handle location text search - search both city and state
-            if (filters.location) {
-                const locationConditions = {
-                    [Op.or]: [
-                        {
-                            city: {
-                                [Op.like]: `%${filters.location}%`,
-                            },
-                        },
-                        {
-                            state: {
-                                [Op.like]: `%${filters.location}%`,
-                            },
-                        },
-                        {
-                            address: {
-                                [Op.like]: `%${filters.location}%`,
-                            },
-                        },
-                    ],
-                };
-
-                // Combine all conditions
-                whereConditions = {
-                    [Op.and]: [
-                        whereConditions,
-                        basicConditions,
-                        locationConditions
-                    ]
-                };
-            } else {
-                // Handle separate city and state filters if location is not provided
-                if (filters.city) {
-                    basicConditions.city = {
-                        [Op.like]: `%${filters.city}%`,
-                    };
-                }
-
-                if (filters.state) {
-                    basicConditions.state = {
-                        [Op.like]: `%${filters.state}%`,
-                    };
-                }
-
-                // Combine basic conditions
-                whereConditions = {
-                    ...whereConditions,
-                    ...basicConditions
-                };
-            }
-
-            // Handle keywords search - search across multiple fields
-            if (filters.keywords) {
-                console.log(`[${requestId}] === KEYWORD SEARCH LOGIC ===`);
-                console.log(`[${requestId}] Keywords:`, filters.keywords);
-                console.log(`[${requestId}] WHERE CONDITIONS BEFORE:`, JSON.stringify(whereConditions, null, 2));
-
-                // Create keyword OR conditions
-                const keywordConditions = {
-                    [Op.or]: [
-                        {
-                            title: {
-                                [Op.like]: `%${filters.keywords}%`,
-                            },
-                        },
-                        {
-                            description: {
-                                [Op.like]: `%${filters.keywords}%`,
-                            },
-                        },
-                        {
-                            city: {
-                                [Op.like]: `%${filters.keywords}%`,
-                            },
-                        },
-                        {
-                            state: {
-                                [Op.like]: `%${filters.keywords}%`,
-                            },
-                        },
-                        {
-                            address: {
-                                [Op.like]: `%${filters.keywords}%`,
-                            },
-                        },
-                    ],
-                };
-
-                // Combine existing conditions with keyword conditions using AND
-                // Check if whereConditions already has an Op.and structure
-                if ((whereConditions as any)[Op.and]) {
-                    // If already using Op.and, add keyword conditions to the array
-                    (whereConditions as any)[Op.and].push(keywordConditions);
-                } else if (Object.keys(whereConditions).length > 0) {
-                    // If we have existing conditions but not in Op.and format, wrap everything
-                    whereConditions = {
-                        [Op.and]: [whereConditions, keywordConditions]
-                    };
-                } else {
-                    // No existing conditions, just use keyword conditions
-                    whereConditions = keywordConditions;
-                }
-
-                console.log(`[${requestId}] WHERE CONDITIONS AFTER:`, JSON.stringify(whereConditions, null, 2));
-                console.log(`[${requestId}] ===========================`);
-            }
-
-            // Handle amenities filtering
-            if (filters.amenities && filters.amenities.length > 0) {
-                // This is a simplified amenities search - in production, you might want more sophisticated JSON querying
-                const amenityConditions = filters.amenities.map(amenity => {
-                    const condition: any = {};
-                    condition[`amenities.${amenity}`] = true;
-                    return condition;
-                });
-
-                // Add amenities conditions to existing structure
-                if ((whereConditions as any)[Op.and]) {
-                    // If we already have an AND structure, add to it
-                    (whereConditions as any)[Op.and] = [...(whereConditions as any)[Op.and], ...amenityConditions];
-                } else {
-                    // Create new AND structure with existing conditions plus amenities
-                    const existingConditions = Object.keys(whereConditions).length > 0 ? [whereConditions] : [];
-                    whereConditions = {
-                        [Op.and]: [...existingConditions, ...amenityConditions]
-                    };
-                }
-            }
+            const { whereConditions, distanceExpression, relevanceExpression, keywordTerms } = this.buildSearchConditions(filters);
 
             // Debug: Log the final where conditions
             console.log(`[${requestId}] === SEARCH DEBUG ===`);
@@ -513,32 +526,7 @@ class PropertyService {
             console.log(`[${requestId}] Final whereConditions:`, JSON.stringify(whereConditions, null, 2));
             console.log(`[${requestId}] ===================`);
 
-            // Build order conditions
-            const orderConditions: Order = [];
-
-            if (filters.sortBy) {
-                switch (filters.sortBy) {
-                    case 'price':
-                        orderConditions.push(['price', filters.sortOrder || 'asc']);
-                        break;
-                    case 'date':
-                        orderConditions.push(['created_at', filters.sortOrder || 'desc']);
-                        break;
-                    case 'views':
-                        orderConditions.push(['views_count', filters.sortOrder || 'desc']);
-                        break;
-                    case 'relevance':
-                    default:
-                        // For relevance, prioritize featured listings first, then by date
-                        orderConditions.push(['is_featured', 'desc']);
-                        orderConditions.push(['created_at', 'desc']);
-                        break;
-                }
-            } else {
-                // Default sorting
-                orderConditions.push(['is_featured', 'desc']);
-                orderConditions.push(['created_at', 'desc']);
-            }
+            const orderConditions = keysetOrder(this.getSearchSortKeys(filters, distanceExpression, relevanceExpression));
 
             // Execute the query
             console.log(`[${requestId}] === EXECUTING DATABASE QUERY ===`);
@@ -547,19 +535,8 @@ class PropertyService {
 
             const { count, rows } = await Property.findAndCountAll({
                 where: whereConditions,
-                include: [
-                    {
-                        model: User,
-                        as: 'owner',
-                        attributes: ['id', 'first_name', 'last_name', 'role'],
-                    },
-                    {
-                        model: PropertyImage,
-                        as: 'images',
-                        limit: 1,
-                        order: [['display_order', 'ASC']],
-                    },
-                ],
+                attributes: this.getSearchAttributes(distanceExpression, relevanceExpression),
+                include: this.getSearchIncludes(),
                 order: orderConditions,
                 limit,
                 offset,
@@ -578,6 +555,7 @@ class PropertyService {
                     max_price: filters.maxPrice,
                     city: filters.city ? [filters.city] : undefined,
                     state: filters.state,
+                    bedrooms: filters.bedrooms ? [filters.bedrooms] : undefined,
                     keywords: filters.keywords,
                 };
                 await searchHistoryService.addToSearchHistory(filters.userId, searchCriteria, count);
@@ -591,8 +569,10 @@ class PropertyService {
                 }
             }
 
-            const result = {
-                data: transformPropertiesWithImages(rows),
+            const properties = transformPropertiesWithImages(rows);
+
+            const result: PaginatedResult<Property> & { facets?: PropertySearchFacets } = {
+                data: keywordTerms.length > 0 ? this.addSearchHighlights(properties, keywordTerms) : properties,
                 pagination: {
                     page,
                     limit,
@@ -603,6 +583,10 @@ class PropertyService {
                 },
             };
 
+            if (filters.includeFacets) {
+                result.facets = await this.getSearchFacets(filters);
+            }
+
             // Cache the search results (only for non-user specific searches)
             if (!filters.userId) {
                 const searchCriteria = {
@@ -624,6 +608,445 @@ class PropertyService {
         }
     }
 
+    /**
+     * Keyset-paginated variant of searchProperties: returns an opaque cursor for the next page
+     * instead of page numbers, so results don't skip or repeat when listings change while browsing.
+     */
+    async searchPropertiesByCursor(
+        filters: PropertySearchFilters,
+        cursor?: string
+    ): Promise<CursorPaginatedResult<Property> & { facets?: PropertySearchFacets }> {
+        try {
+            const { whereConditions, distanceExpression, relevanceExpression, keywordTerms } = this.buildSearchConditions(filters);
+
+            const { rows, pagination } = await findCursorPage(
+                Property,
+                {
+                    where: whereConditions,
+                    attributes: this.getSearchAttributes(distanceExpression, relevanceExpression),
+                    include: this.getSearchIncludes(),
+                },
+                this.getSearchSortKeys(filters, distanceExpression, relevanceExpression),
+                cursor,
+                filters.limit || 20
+            );
+
+            const properties = transformPropertiesWithImages(rows);
+            const result: CursorPaginatedResult<Property> & { facets?: PropertySearchFacets } = {
+                data: keywordTerms.length > 0 ? this.addSearchHighlights(properties, keywordTerms) : properties,
+                pagination,
+            };
+
+            // Facets don't change between pages, so only the first page computes them
+            if (filters.includeFacets && !cursor) {
+                result.facets = await this.getSearchFacets(filters);
+            }
+
+            return result;
+        } catch (error) {
+            console.error('Error searching properties by cursor:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Sort keys for a search, always ending with the id so that the order is total
+     */
+    private getSearchSortKeys(
+        filters: PropertySearchFilters,
+        distanceExpression: string | null,
+        relevanceExpression: string | null
+    ): CursorKey[] {
+        const direction = (fallback: 'ASC' | 'DESC'): 'ASC' | 'DESC' =>
+            filters.sortOrder ? (filters.sortOrder.toUpperCase() as 'ASC' | 'DESC') : fallback;
+
+        switch (filters.sortBy) {
+            case 'price':
+                return [{ name: 'price', direction: direction('ASC') }, { name: 'id', direction: direction('ASC') }];
+            case 'date':
+                return [
+                    { name: 'created_at', direction: direction('DESC'), type: 'date' },
+                    { name: 'id', direction: direction('DESC') },
+                ];
+            case 'views':
+                return [{ name: 'views_count', direction: direction('DESC') }, { name: 'id', direction: direction('DESC') }];
+            case 'distance':
+                if (distanceExpression) {
+                    // Listings without coordinates sort last
+                    return [
+                        {
+                            name: 'distance_km',
+                            direction: direction('ASC'),
+                            expression: `COALESCE(${distanceExpression}, ${UNKNOWN_DISTANCE_KM})`,
+                            nullValue: UNKNOWN_DISTANCE_KM,
+                        },
+                        { name: 'id', direction: 'ASC' },
+                    ];
+                }
+                // Without a reference point fall back to the default ordering
+                break;
+        }
+
+        // Default / relevance: rank keyword matches first, then featured listings, then by date
+        return [
+            ...(relevanceExpression
+                ? [{ name: 'relevance_score', direction: 'DESC' as const, expression: relevanceExpression }]
+                : []),
+            { name: 'is_featured', direction: 'DESC' },
+            { name: 'created_at', direction: 'DESC', type: 'date' },
+            { name: 'id', direction: 'DESC' },
+        ];
+    }
+
+    // Expose distance from the search point and keyword relevance on each result
+    private getSearchAttributes(
+        distanceExpression: string | null,
+        relevanceExpression: string | null
+    ): FindAttributeOptions | undefined {
+        const computedAttributes: [ReturnType<typeof literal>, string][] = [];
+        if (distanceExpression) {
+            computedAttributes.push([literal(distanceExpression), 'distance_km']);
+        }
+        if (relevanceExpression) {
+            computedAttributes.push([literal(relevanceExpression), 'relevance_score']);
+        }
+        return computedAttributes.length > 0 ? { include: computedAttributes } : undefined;
+    }
+
+    private getSearchIncludes(): Includeable[] {
+        return [
+            {
+                model: User,
+                as: 'owner',
+                attributes: ['id', 'first_name', 'last_name', 'role'],
+            },
+            {
+                model: PropertyImage,
+                as: 'images',
+                limit: 1,
+                order: [['display_order', 'ASC']],
+            },
+        ];
+    }
+
+    /**
+     * Where clause for a property search, plus the computed distance/relevance expressions it relies on
+     */
+    private buildSearchConditions(filters: PropertySearchFilters): SearchConditions {
+        // Build where conditions
+        let whereConditions: WhereOptions = {
+            is_active: filters.isActive !== undefined ? filters.isActive : true,
+        };
+
+        // Collect all basic conditions
+        const basicConditions: WhereOptions = {};
+
+        if (filters.propertyType) {
+            basicConditions.property_type = filters.propertyType;
+        }
+
+        if (filters.listingType) {
+            basicConditions.listing_type = filters.listingType;
+        }
+
+        if (filters.status) {
+            basicConditions.status = filters.status;
+        }
+
+        if (filters.minPrice || filters.maxPrice) {
+            basicConditions.price = {};
+            if (filters.minPrice) {
+                (basicConditions.price as any)[Op.gte] = filters.minPrice;
+            }
+            if (filters.maxPrice) {
+                (basicConditions.price as any)[Op.lte] = filters.maxPrice;
+            }
+        }
+
+        if (filters.bedrooms) {
+            basicConditions.bedrooms = filters.bedrooms;
+        }
+
+        if (filters.bathrooms) {
+            basicConditions.bathrooms = filters.bathrooms;
+        }
+
+        if (filters.minArea || filters.maxArea) {
+            basicConditions.area_sqft = {};
+            if (filters.minArea) {
+                (basicConditions.area_sqft as any)[Op.gte] = filters.minArea;
+            }
+            if (filters.maxArea) {
+                (basicConditions.area_sqft as any)[Op.lte] = filters.maxArea;
+            }
+        }
+
+        if (filters.userId) {
+            basicConditions.user_id = filters.userId;
+        }
+
+        if (filters.isFeatured !== undefined) {
+            basicConditions.is_featured = filters.isFeatured;
+        }
+
+        // Handle coordinate-based location search
+        const hasCenter = filters.latitude !== undefined && filters.longitude !== undefined;
+        const distanceExpression = hasCenter
+            ? distanceSql({ latitude: filters.latitude!, longitude: filters.longitude! })
+            : null;
+
+        if (hasCenter && filters.radius) {
+            // Bounding box narrows rows via the lat/long index; exact great-circle check is applied below
+            const box = getBoundingBox({ latitude: filters.latitude!, longitude: filters.longitude! }, filters.radius);
+            basicConditions.latitude = {
+                [Op.between]: [box.minLatitude, box.maxLatitude],
+            };
+            basicConditions.longitude = {
+                [Op.between]: [box.minLongitude, box.maxLongitude],
+            };
+        }
+
+        // Handle location text search - search both city and state
+        if (filters.location) {
+            const locationConditions = {
+                [Op.or]: [
+                    {
+                        city: {
+                            [Op.like]: `%${filters.location}%`,
+                        },
+                    },
+                    {
+                        state: {
+                            [Op.like]: `%${filters.location}%`,
+                        },
+                    },
+                    {
+                        address: {
+                            [Op.like]: `%${filters.location}%`,
+                        },
+                    },
+                ],
+            };
+
+            // Combine all conditions
+            whereConditions = {
+                [Op.and]: [
+                    whereConditions,
+                    basicConditions,
+                    locationConditions
+                ]
+            };
+        } else {
+            // Handle separate city and state filters if location is not provided
+            if (filters.city) {
+                basicConditions.city = {
+                    [Op.like]: `%${filters.city}%`,
+                };
+            }
+
+            if (filters.state) {
+                basicConditions.state = {
+                    [Op.like]: `%${filters.state}%`,
+                };
+            }
+
+            // Combine basic conditions
+            whereConditions = {
+                ...whereConditions,
+                ...basicConditions
+            };
+        }
+
+        // Handle keywords search - full-text match across title, description, address, city and amenities
+        const keywordTerms = filters.keywords ? getFullTextTerms(filters.keywords) : [];
+        const relevanceExpression = keywordTerms.length > 0 ? this.buildRelevanceSql(keywordTerms) : null;
+
+        if (filters.keywords) {
+            // Terms too short for the full-text index fall back to a substring match
+            const keywordConditions = keywordTerms.length > 0 ? literal(this.buildFullTextMatchSql(keywordTerms)) : {
+                [Op.or]: [
+                    {
+                        title: {
+                            [Op.like]: `%${filters.keywords}%`,
+                        },
+                    },
+                    {
+                        description: {
+                            [Op.like]: `%${filters.keywords}%`,
+                        },
+                    },
+                    {
+                        city: {
+                            [Op.like]: `%${filters.keywords}%`,
+                        },
+                    },
+                    {
+                        state: {
+                            [Op.like]: `%${filters.keywords}%`,
+                        },
+                    },
+                    {
+                        address: {
+                            [Op.like]: `%${filters.keywords}%`,
+                        },
+                    },
+                ],
+            };
+
+            // Combine existing conditions with keyword conditions using AND
+            // Check if whereConditions already has an Op.and structure
+            if ((whereConditions as any)[Op.and]) {
+                // If already using Op.and, add keyword conditions to the array
+                (whereConditions as any)[Op.and].push(keywordConditions);
+            } else if (Object.keys(whereConditions).length > 0) {
+                // If we have existing conditions but not in Op.and format, wrap everything
+                whereConditions = {
+                    [Op.and]: [whereConditions, keywordConditions]
+                };
+            } else {
+                // No existing conditions, just use keyword conditions
+                whereConditions = keywordConditions;
+            }
+        }
+
+        // Handle amenities filtering on the indexed amenity_keys array
+        if (filters.amenities && filters.amenities.length > 0) {
+            const amenityCondition = literal(amenityFilterSql(filters.amenities, filters.amenitiesMatch));
+
+            if ((whereConditions as any)[Op.and]) {
+                (whereConditions as any)[Op.and].push(amenityCondition);
+            } else {
+                whereConditions = {
+                    [Op.and]: [whereConditions, amenityCondition]
+                };
+            }
+        }
+
+        // Exact radius filter using the Haversine distance
+        if (distanceExpression && filters.radius) {
+            const radiusCondition = where(literal(distanceExpression), { [Op.lte]: filters.radius });
+
+            if ((whereConditions as any)[Op.and]) {
+                (whereConditions as any)[Op.and].push(radiusCondition);
+            } else {
+                whereConditions = {
+                    [Op.and]: [whereConditions, radiusCondition]
+                };
+            }
+        }
+
+        // Drawn area filter: bounding box pre-filter plus exact point-in-polygon check
+        if (filters.polygons && filters.polygons.length > 0) {
+            const box = getPolygonsBoundingBox(filters.polygons);
+            const polygonConditions = [
+                { latitude: { [Op.between]: [box.minLatitude, box.maxLatitude] } },
+                { longitude: { [Op.between]: [box.minLongitude, box.maxLongitude] } },
+                literal(polygonsSql(filters.polygons)),
+            ];
+
+            if ((whereConditions as any)[Op.and]) {
+                (whereConditions as any)[Op.and].push(...polygonConditions);
+            } else {
+                whereConditions = {
+                    [Op.and]: [whereConditions, ...polygonConditions]
+                };
+            }
+        }
+
+        return { whereConditions, distanceExpression, relevanceExpression, keywordTerms };
+    }
+
+    /**
+     * Facet counts for a search. Each facet drops its own filter so that sibling options stay countable;
+     * amenities matched with "all" are counted within the current results instead.
+     */
+    async getSearchFacets(filters: PropertySearchFilters): Promise<PropertySearchFacets> {
+        const [propertyType, listingType, status, bedrooms, city, amenities, priceBands] = await Promise.all([
+            this.countByColumn<PropertyType>({ ...filters, propertyType: undefined }, 'property_type'),
+            this.countByColumn<ListingType>({ ...filters, listingType: undefined }, 'listing_type'),
+            this.countByColumn<PropertyStatus>({ ...filters, status: undefined }, 'status'),
+            this.countByColumn<number>({ ...filters, bedrooms: undefined }, 'bedrooms'),
+            // Free-text location is the UI's city filter, so it is dropped along with city
+            this.countByColumn<string>({ ...filters, city: undefined, location: undefined }, 'city', MAX_CITY_FACETS),
+            this.countAmenities(filters.amenitiesMatch === 'any' ? { ...filters, amenities: undefined } : filters),
+            this.countPriceBands({ ...filters, minPrice: undefined, maxPrice: undefined }),
+        ]);
+
+        return {
+            property_type: propertyType,
+            listing_type: listingType,
+            status,
+            bedrooms: bedrooms.sort((a, b) => a.value - b.value),
+            city,
+            amenities,
+            price_bands: priceBands,
+        };
+    }
+
+    private async countByColumn<T extends string | number>(
+        filters: PropertySearchFilters,
+        column: string,
+        limit?: number
+    ): Promise<FacetBucket<T>[]> {
+        const { whereConditions } = this.buildSearchConditions(filters);
+
+        const rows = await Property.findAll({
+            attributes: [
+                [col(column), 'value'],
+                [fn('COUNT', col('id')), 'count'],
+            ],
+            where: {
+                [Op.and]: [whereConditions, { [column]: { [Op.ne]: null } }],
+            },
+            group: [column],
+            order: [[literal('`count`'), 'DESC']],
+            limit,
+            raw: true,
+        }) as unknown as Array<{ value: T; count: number | string }>;
+
+        return rows.map(row => ({ value: row.value, count: Number(row.count) }));
+    }
+
+    private async countAmenities(filters: PropertySearchFilters): Promise<FacetBucket[]> {
+        const { whereConditions } = this.buildSearchConditions(filters);
+
+        const [totals] = await Property.findAll({
+            attributes: FACET_AMENITIES.map(amenity => [
+                literal(`SUM(CASE WHEN '${amenity}' MEMBER OF(\`Property\`.\`amenity_keys\`) THEN 1 ELSE 0 END)`),
+                amenity,
+            ]),
+            where: whereConditions,
+            raw: true,
+        }) as unknown as Array<Record<string, number | string | null>>;
+
+        return FACET_AMENITIES
+            .map(amenity => ({ value: amenity, count: Number(totals?.[amenity] || 0) }))
+            .filter(bucket => bucket.count > 0)
+            .sort((a, b) => b.count - a.count);
+    }
+
+    private async countPriceBands(filters: PropertySearchFilters): Promise<PriceBandFacet[]> {
+        const { whereConditions } = this.buildSearchConditions(filters);
+        const bands = PRICE_BANDS.filter(band => !filters.listingType || band.listingType === filters.listingType);
+
+        // Band bounds are constants, so they can be inlined
+        const [totals] = await Property.findAll({
+            attributes: bands.map(band => [
+                literal(
+                    `SUM(CASE WHEN \`Property\`.\`listing_type\` = '${band.listingType}' ` +
+                    `AND \`Property\`.\`price\` >= ${band.min}` +
+                    (band.max !== undefined ? ` AND \`Property\`.\`price\` < ${band.max}` : '') +
+                    ' THEN 1 ELSE 0 END)'
+                ),
+                band.key,
+            ]),
+            where: whereConditions,
+            raw: true,
+        }) as unknown as Array<Record<string, number | string | null>>;
+
+        return bands.map(band => ({ ...band, count: Number(totals?.[band.key] || 0) }));
+    }
+
     async getUserProperties(userId: number, options: { page?: number; limit?: number } = {}): Promise<PaginatedResult<Property>> {
         try {
             const page = options.page || 1;
@@ -668,6 +1091,49 @@ class PropertyService {
         }
     }
 
+    /**
+     * Keyset-paginated variant of getUserProperties (newest first)
+     */
+    async getUserPropertiesByCursor(
+        userId: number,
+        options: { cursor?: string; limit?: number } = {}
+    ): Promise<CursorPaginatedResult<Property>> {
+        try {
+            const { rows, pagination } = await findCursorPage(
+                Property,
+                {
+                    where: { user_id: userId },
+                    include: [
+                        {
+                            model: PropertyImage,
+                            as: 'images',
+                            required: false,
+                        },
+                        {
+                            model: User,
+                            as: 'owner',
+                            attributes: ['id', 'first_name', 'last_name', 'email'],
+                        },
+                    ],
+                },
+                USER_PROPERTIES_SORT_KEYS,
+                options.cursor,
+                options.limit || 20
+            );
+
+            return {
+                data: transformPropertiesWithImages(rows),
+                pagination,
+            };
+        } catch (error) {
+            console.error('Error getting user properties by cursor:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Take a published listing down, or publish an approved/scheduled one
+     */
     async togglePropertyStatus(id: number, userId: number): Promise<Property | null> {
         try {
             const property = await Property.findOne({
@@ -678,15 +1144,13 @@ class PropertyService {
                 return null;
             }
 
-            await property.update({
-                is_active: !property.is_active,
-            });
+            const action = property.listing_state === ListingState.PUBLISHED ? 'archive' : 'publish';
+            const updated = await this.lifecycleService.transition(id, action, { userId });
 
             // Clear caches
             await this.clearPropertyCaches();
-            await this.redis.del(`property:details:${id}`);
 
-            return property;
+            return updated;
         } catch (error) {
             console.error('Error toggling property status:', error);
             throw error;
@@ -959,11 +1423,12 @@ class PropertyService {
     ): Promise<Property[]> {
         try {
             const filters: PropertySearchFilters = {
+                sortBy: 'distance',
+                ...additionalFilters,
                 latitude,
                 longitude,
                 radius: radiusKm,
                 isActive: true,
-                ...additionalFilters,
             };
 
             const result = await this.searchProperties(filters);
@@ -999,27 +1464,71 @@ class PropertyService {
         }
     }
 
-    async getSimilarProperties(propertyId: number, limit: number = 5): Promise<Property[]> {
+    /**
+     * Price changes of an active listing, oldest first. Listings created before price
+     * tracking have their price at migration time as the first entry.
+     */
+    async getPriceHistory(propertyId: number): Promise<PropertyPriceHistoryResult | null> {
         try {
-            const property = await Property.findByPk(propertyId);
+            const property = await Property.findOne({
+                where: { id: propertyId, is_active: true },
+                attributes: ['id', 'price', 'listing_type', 'created_at'],
+            });
+
             if (!property) {
-                return [];
+                return null;
             }
 
-            // Find similar properties based on type, city, and price range
-            const priceRange = property.price * 0.2; // 20% price range
-            const filters: PropertySearchFilters = {
-                propertyType: property.property_type,
-                city: property.city,
-                minPrice: property.price - priceRange,
-                maxPrice: property.price + priceRange,
-                limit,
-                isActive: true,
+            const entries = await PropertyPriceHistory.findAll({
+                where: { property_id: propertyId },
+                order: [['created_at', 'ASC'], ['id', 'ASC']],
+            });
+
+            const history: PriceHistoryEntry[] = entries.map(entry => ({
+                price: Number(entry.price),
+                previousPrice: entry.previous_price === null || entry.previous_price === undefined ? null : Number(entry.previous_price),
+                changeAmount: entry.changeAmount,
+                changePercent: entry.changePercent,
+                listingType: entry.listing_type,
+                changedAt: entry.created_at,
+            }));
+
+            const currentPrice = Number(property.price);
+            if (history.length === 0) {
+                history.push({
+                    price: currentPrice,
+                    previousPrice: null,
+                    changeAmount: null,
+                    changePercent: null,
+                    listingType: property.listing_type,
+                    changedAt: property.created_at,
+                });
+            }
+
+            // Min/max only over the current listing type; sale and rent prices aren't comparable
+            const comparablePrices = history
+                .filter(entry => entry.listingType === property.listing_type)
+                .map(entry => entry.price);
+
+            return {
+                propertyId: property.id,
+                listingType: property.listing_type,
+                currentPrice,
+                initialPrice: history[0].price,
+                lowestPrice: Math.min(...comparablePrices, currentPrice),
+                highestPrice: Math.max(...comparablePrices, currentPrice),
+                history,
             };
+        } catch (error) {
+            console.error('Error fetching property price history:', error);
+            throw error;
+        }
+    }
 
-            const result = await this.searchProperties(filters);
-            // Exclude the original property from results
-            return result.data.filter(p => p.id !== propertyId);
+    async getSimilarProperties(propertyId: number, limit: number = 5): Promise<Property[]> {
+        try {
+            // Same content similarity as personalised recommendations
+            return await this.recommendationService.getSimilarProperties(propertyId, limit);
         } catch (error) {
             console.error('Error finding similar properties:', error);
             throw error;
@@ -1110,23 +1619,12 @@ class PropertyService {
 
     async deactivateExpiredProperties(): Promise<number> {
         try {
-            const [affectedRows] = await Property.update(
-                { is_active: false },
-                {
-                    where: {
-                        expires_at: {
-                            [Op.lt]: new Date(),
-                        },
-                        auto_renew: false,
-                        is_active: true,
-                    },
-                }
-            );
+            const archived = await this.lifecycleService.archiveExpiredListings();
 
             // Clear caches after deactivation
             await this.clearPropertyCaches();
 
-            return affectedRows;
+            return archived;
         } catch (error) {
             console.error('Error deactivating expired properties:', error);
             throw error;
@@ -1329,6 +1827,107 @@ class PropertyService {
         return recommendations;
     }
 
+    async getSearchSuggestions(query: string, limit: number = 8): Promise<PropertySearchSuggestion[]> {
+        try {
+            const trimmed = query.trim();
+            const terms = getFullTextTerms(trimmed);
+            const suggestions: PropertySearchSuggestion[] = [];
+
+            // Cities starting with the query, most listings first
+            const cities = await Property.findAll({
+                attributes: ['city', [Property.sequelize!.fn('COUNT', Property.sequelize!.col('id')), 'count']],
+                where: {
+                    is_active: true,
+                    city: { [Op.like]: `${trimmed.replace(/[\\%_]/g, '\\$&')}%` },
+                },
+                group: ['city'],
+                order: [[Property.sequelize!.fn('COUNT', Property.sequelize!.col('id')), 'DESC']],
+                limit: 3,
+                raw: true,
+            }) as unknown as Array<{ city: string; count: number }>;
+
+            cities.forEach(row => suggestions.push({
+                id: `location_${row.city.toLowerCase()}`,
+                text: row.city,
+                type: 'location',
+                highlight: highlightTerms(row.city, [trimmed.toLowerCase()]),
+                count: Number(row.count),
+            }));
+
+            // Property types named by the query
+            Object.values(PropertyType)
+                .filter(type => terms.some(term => type.startsWith(term)))
+                .forEach(type => suggestions.push({
+                    id: `property_type_${type}`,
+                    text: type,
+                    type: 'property_type',
+                    highlight: highlightTerms(type, terms),
+                }));
+
+            // Best matching listings by relevance
+            if (terms.length > 0) {
+                const relevance = literal(this.buildRelevanceSql(terms));
+                const properties = await Property.findAll({
+                    attributes: ['id', 'title', 'city'],
+                    where: {
+                        [Op.and]: [
+                            { is_active: true },
+                            literal(this.buildFullTextMatchSql(terms)),
+                        ],
+                    },
+                    order: [[relevance, 'DESC']],
+                    limit: Math.max(limit - suggestions.length, 0),
+                });
+
+                properties.forEach(property => suggestions.push({
+                    id: `property_${property.id}`,
+                    text: property.title,
+                    type: 'property',
+                    highlight: highlightTerms(property.title, terms),
+                    propertyId: property.id,
+                }));
+            }
+
+            return suggestions.slice(0, limit);
+        } catch (error) {
+            console.error('Error fetching search suggestions:', error);
+            throw error;
+        }
+    }
+
+    // Every term must match somewhere in the combined full-text index
+    private buildFullTextMatchSql(terms: string[]): string {
+        const against = Property.sequelize!.escape(buildBooleanQuery(terms));
+        return 'MATCH(`Property`.`title`, `Property`.`description`, `Property`.`address`, `Property`.`city`, `Property`.`amenities_text`) ' +
+            `AGAINST (${against} IN BOOLEAN MODE)`;
+    }
+
+    // Weighted score: title > location > amenities > description, rounded so it can be a stable cursor key
+    private buildRelevanceSql(terms: string[]): string {
+        const against = `AGAINST (${Property.sequelize!.escape(buildBooleanQuery(terms, false))} IN BOOLEAN MODE)`;
+        return 'ROUND(' +
+            `5 * MATCH(\`Property\`.\`title\`) ${against} + ` +
+            `3 * MATCH(\`Property\`.\`address\`, \`Property\`.\`city\`) ${against} + ` +
+            `2 * MATCH(\`Property\`.\`amenities_text\`) ${against} + ` +
+            `MATCH(\`Property\`.\`description\`) ${against}` +
+            ', 6)';
+    }
+
+    private addSearchHighlights(properties: any[], terms: string[]): any[] {
+        return properties.map(property => ({
+            ...property,
+            relevance_score: property.relevance_score !== undefined
+                ? Math.round(Number(property.relevance_score) * 1000) / 1000
+                : undefined,
+            highlights: {
+                title: highlightTerms(property.title || '', terms),
+                description: property.description ? buildHighlightedSnippet(property.description, terms) : null,
+                address: highlightTerms(property.address || '', terms),
+                city: highlightTerms(property.city || '', terms),
+            },
+        }));
+    }
+
     private async clearPropertyCaches(): Promise<void> {
         try {
             // Clear search result caches
@@ -0,0 +1,169 @@
+import { Response } from 'express';
+import { RedisClientType } from 'redis';
+import RedisConnection from '../config/redis';
+
+export type RealtimeEventType =
+    | 'message:new'
+    | 'message:read'
+    | 'typing'
+    | 'unread_count';
+
+interface RealtimeEnvelope {
+    user_ids: number[];
+    event: RealtimeEventType;
+    data: unknown;
+}
+
+// Every server instance subscribes to this channel and delivers to its own streams
+const EVENTS_CHANNEL = 'realtime:events';
+
+// Comment lines keep idle streams from being closed by proxies
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// How long EventSource waits before reconnecting a dropped stream
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Pushes events to signed-in users over server-sent event streams.
+ * Events are published to Redis so users connected to other server instances get them
+ * too; without Redis they only reach streams held by this instance.
+ */
+class RealtimeService {
+    private redis = RedisConnection.getInstance();
+    private subscriber: RedisClientType | null = null;
+    private heartbeat: NodeJS.Timeout | null = null;
+    // Open streams by user; a user can have several tabs open
+    private streams = new Map<number, Set<Response>>();
+
+    async start(): Promise<void> {
+        if (this.heartbeat) {
+            console.log('Realtime events are already running');
+            return;
+        }
+
+        console.log('Starting realtime events...');
+        this.heartbeat = setInterval(() => this.writeToAll(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+        if (!this.redis.isReady()) {
+            console.warn('⚠️ Redis not ready, realtime events reach this instance only');
+            return;
+        }
+
+        try {
+            // A client in subscriber mode can't run other commands, so it gets its own connection
+            const subscriber = this.redis.getClient().duplicate();
+            subscriber.on('error', (error) => console.error('Realtime subscriber error:', error));
+            await subscriber.connect();
+            await subscriber.subscribe(EVENTS_CHANNEL, (payload) => this.handlePublished(payload));
+            this.subscriber = subscriber;
+        } catch (error) {
+            console.error('Failed to subscribe to realtime events:', error);
+            this.subscriber = null;
+        }
+    }
+
+    async stop(): Promise<void> {
+        if (this.heartbeat) {
+            clearInterval(this.heartbeat);
+            this.heartbeat = null;
+        }
+
+        for (const streams of this.streams.values()) {
+            streams.forEach(res => res.end());
+        }
+        this.streams.clear();
+
+        if (this.subscriber) {
+            try {
+                await this.subscriber.unsubscribe(EVENTS_CHANNEL);
+                await this.subscriber.quit();
+            } catch (error) {
+                console.error('Failed to close realtime subscriber:', error);
+            }
+            this.subscriber = null;
+        }
+        console.log('Realtime events stopped');
+    }
+
+    /**
+     * Turn a response into an event stream for a user, until the client disconnects
+     */
+    openStream(userId: number, res: Response): void {
+        res.status(200).set({
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive',
+            // Stops nginx from buffering the stream
+            'X-Accel-Buffering': 'no',
+        });
+        res.flushHeaders();
+        res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+        const streams = this.streams.get(userId) ?? new Set<Response>();
+        streams.add(res);
+        this.streams.set(userId, streams);
+
+        res.on('close', () => {
+            streams.delete(res);
+            if (streams.size === 0 && this.streams.get(userId) === streams) {
+                this.streams.delete(userId);
+            }
+        });
+    }
+
+    /**
+     * Send an event to every stream the users have open, on any server instance
+     */
+    async publish(userIds: number[], event: RealtimeEventType, data: unknown): Promise<void> {
+        const envelope: RealtimeEnvelope = { user_ids: [...new Set(userIds)], event, data };
+        if (envelope.user_ids.length === 0) {
+            return;
+        }
+
+        // Published events come back through our own subscription, so they are not delivered here as well
+        if (this.subscriber && this.redis.isReady()) {
+            try {
+                await this.redis.getClient().publish(EVENTS_CHANNEL, JSON.stringify(envelope));
+                return;
+            } catch (error) {
+                console.error('Failed to publish realtime event, delivering locally:', error);
+            }
+        }
+
+        this.deliver(envelope);
+    }
+
+    /**
+     * Send an event to streams held by this instance only, e.g. the one that just connected
+     */
+    sendTo(res: Response, event: RealtimeEventType, data: unknown): void {
+        res.write(this.format(event, data));
+    }
+
+    private handlePublished(payload: string): void {
+        try {
+            this.deliver(JSON.parse(payload) as RealtimeEnvelope);
+        } catch (error) {
+            console.error('Ignoring malformed realtime event:', error);
+        }
+    }
+
+    private deliver(envelope: RealtimeEnvelope): void {
+        const frame = this.format(envelope.event, envelope.data);
+        for (const userId of envelope.user_ids) {
+            this.streams.get(userId)?.forEach(res => res.write(frame));
+        }
+    }
+
+    private writeToAll(chunk: string): void {
+        for (const streams of this.streams.values()) {
+            streams.forEach(res => res.write(chunk));
+        }
+    }
+
+    private format(event: RealtimeEventType, data: unknown): string {
+        return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+    }
+}
+
+export default new RealtimeService();
@@ -0,0 +1,447 @@
+import { Op, WhereOptions, literal } from 'sequelize';
+import { Property } from '../models/Property';
+import { PropertyImage } from '../models/PropertyImage';
+import { UserFavorite } from '../models/UserFavorite';
+import { Inquiry } from '../models/Inquiry';
+import { SearchCriteria } from '../models/SavedSearch';
+import RedisConnection from '../config/redis';
+import searchHistoryService from './searchHistoryService';
+import { transformPropertyWithImages } from '../utils/imageUtils';
+import {
+    ListingFeatures,
+    describeListing,
+    describeSearch,
+    listingSimilarity,
+    popularityScore,
+    searchCriteriaMatch,
+    toListingFeatures,
+} from '../utils/recommendationScoring';
+
+export type RecommendationSource = 'favorite' | 'inquiry' | 'view' | 'search' | 'popular' | 'similar';
+
+export type RecommendedProperty = Property & {
+    recommendation_score: number;
+    recommendation_reason: string;
+    recommendation_source: RecommendationSource;
+};
+
+export interface RecommendationResult {
+    properties: RecommendedProperty[];
+    personalized: boolean; // False when nothing was known about the user
+}
+
+// Something the user engaged with; candidates are scored against either a listing or a past search
+interface RecommendationSeed {
+    source: Exclude<RecommendationSource, 'popular' | 'similar'>;
+    weight: number;
+    reason: string;
+    listing?: ListingFeatures;
+    criteria?: SearchCriteria;
+}
+
+interface ScoredCandidate {
+    id: number;
+    score: number;
+    reason: string;
+    source: RecommendationSource;
+}
+
+// How strongly each kind of engagement signals interest
+const SEED_WEIGHTS: Record<RecommendationSeed['source'], number> = {
+    inquiry: 1,
+    favorite: 0.9,
+    search: 0.75,
+    view: 0.6,
+};
+
+// Older engagement counts for less, down to half weight
+const RECENCY_DECAY = 0.05;
+const MIN_RECENCY_FACTOR = 0.5;
+
+const MAX_SEEDS_PER_SOURCE = 10;
+const MAX_VIEWED_PROPERTIES = 50;
+const VIEWED_PROPERTIES_TTL = 90 * 24 * 60 * 60; // 90 days in seconds
+const MAX_CANDIDATES = 300;
+const MAX_POPULAR_CANDIDATES = 100;
+const POPULAR_CACHE_TTL = 10 * 60; // 10 minutes in seconds
+
+// Candidates must match a seed at least this well to count as personalised
+const MIN_SIMILARITY = 0.5;
+
+// Share of the final score that comes from popularity rather than similarity
+const POPULARITY_WEIGHT = 0.15;
+
+const CANDIDATE_ATTRIBUTES = [
+    'id', 'user_id', 'property_type', 'listing_type', 'price', 'area_sqft', 'bedrooms', 'city',
+    'latitude', 'longitude', 'amenity_keys', 'views_count', 'is_featured', 'created_at',
+];
+
+const FAVORITES_COUNT = literal('(SELECT COUNT(*) FROM user_favorites WHERE user_favorites.property_id = Property.id)');
+
+/**
+ * Personalised recommendations from a user's favorites, inquiries, viewed listings and search
+ * history, scored by content similarity and falling back to popular listings.
+ */
+class RecommendationService {
+    private redis: RedisConnection;
+
+    constructor() {
+        this.redis = RedisConnection.getInstance();
+    }
+
+    /**
+     * Remember that a signed-in user opened a listing
+     */
+    async recordView(userId: number, propertyId: number): Promise<void> {
+        try {
+            if (!this.redis.isReady()) {
+                return;
+            }
+
+            const client = this.redis.getClient();
+            const key = `user:viewed_properties:${userId}`;
+
+            // Most recent first, without repeats
+            await client.lRem(key, 0, propertyId.toString());
+            await client.lPush(key, propertyId.toString());
+            await client.lTrim(key, 0, MAX_VIEWED_PROPERTIES - 1);
+            await client.expire(key, VIEWED_PROPERTIES_TTL);
+
+            // Lead scoring counts repeat visits to the same listing
+            const countsKey = `user:listing_view_counts:${userId}`;
+            await client.hIncrBy(countsKey, propertyId.toString(), 1);
+            await client.expire(countsKey, VIEWED_PROPERTIES_TTL);
+        } catch (error) {
+            console.warn('Failed to record viewed property:', error);
+        }
+    }
+
+    /**
+     * How many distinct listings a user viewed recently, and how often they opened one of them
+     */
+    async getViewHistory(userId: number, propertyId?: number | null): Promise<{ listingsViewed: number; listingViews: number }> {
+        try {
+            if (!this.redis.isReady()) {
+                return { listingsViewed: 0, listingViews: 0 };
+            }
+
+            const client = this.redis.getClient();
+            const [listingsViewed, listingViews] = await Promise.all([
+                client.lLen(`user:viewed_properties:${userId}`),
+                propertyId ? client.hGet(`user:listing_view_counts:${userId}`, propertyId.toString()) : Promise.resolve(null),
+            ]);
+
+            return { listingsViewed, listingViews: listingViews ? parseInt(listingViews) : 0 };
+        } catch (error) {
+            console.warn('Failed to load view history:', error);
+            return { listingsViewed: 0, listingViews: 0 };
+        }
+    }
+
+    /**
+     * Recommendations for a user, or popular listings for anonymous visitors
+     */
+    async getRecommendations(userId: number | null, limit: number = 8): Promise<RecommendationResult> {
+        if (!userId) {
+            return { properties: await this.getCachedPopular(limit), personalized: false };
+        }
+
+        const seeds = await this.getSeeds(userId);
+        const excludeIds = Array.from(new Set(seeds.filter(seed => seed.listing).map(seed => seed.listing!.id)));
+
+        const recommended = seeds.length > 0 ? await this.scoreCandidates(userId, seeds, excludeIds, limit) : [];
+
+        // Top up with popular listings the user hasn't seen
+        if (recommended.length < limit) {
+            const popular = await this.getPopularCandidates(
+                limit - recommended.length,
+                [...excludeIds, ...recommended.map(candidate => candidate.id)],
+                userId
+            );
+            recommended.push(...popular);
+        }
+
+        return {
+            properties: await this.loadProperties(recommended),
+            personalized: recommended.some(candidate => candidate.source !== 'popular'),
+        };
+    }
+
+    /**
+     * Listings most like the given one, using the same similarity as recommendations
+     */
+    async getSimilarProperties(propertyId: number, limit: number = 5): Promise<RecommendedProperty[]> {
+        const property = await Property.findByPk(propertyId);
+        if (!property) {
+            return [];
+        }
+
+        const seed = toListingFeatures(property);
+        const candidates = await Property.findAll({
+            where: {
+                is_active: true,
+                id: { [Op.ne]: propertyId },
+                listing_type: property.listing_type,
+                [Op.or]: [{ city: property.city }, { property_type: property.property_type }],
+            },
+            attributes: [...CANDIDATE_ATTRIBUTES, [FAVORITES_COUNT, 'favorites_count']],
+            order: [['created_at', 'DESC']],
+            limit: MAX_CANDIDATES,
+        });
+
+        const reason = `Similar to ${describeListing(seed)}`;
+        const scored = candidates
+            .map(candidate => ({
+                id: candidate.id,
+                similarity: listingSimilarity(seed, toListingFeatures(candidate)),
+                popularity: popularityScore(candidate.get({ plain: true }) as any),
+            }))
+            .filter(candidate => candidate.similarity >= MIN_SIMILARITY)
+            .map(candidate => ({
+                id: candidate.id,
+                score: this.combineScores(candidate.similarity, candidate.popularity),
+                reason,
+                source: 'similar' as RecommendationSource,
+            }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+
+        return this.loadProperties(scored);
+    }
+
+    private async getSeeds(userId: number): Promise<RecommendationSeed[]> {
+        const [favorites, inquiries, viewed, searches] = await Promise.all([
+            UserFavorite.findAll({
+                where: { user_id: userId },
+                include: [{ model: Property, as: 'property', attributes: CANDIDATE_ATTRIBUTES }],
+                order: [['created_at', 'DESC']],
+                limit: MAX_SEEDS_PER_SOURCE,
+            }),
+            Inquiry.findAll({
+                where: { inquirer_id: userId, property_id: { [Op.ne]: null } },
+                include: [{ model: Property, as: 'property', attributes: CANDIDATE_ATTRIBUTES }],
+                order: [['created_at', 'DESC']],
+                limit: MAX_SEEDS_PER_SOURCE,
+            }),
+            this.getViewedProperties(userId),
+            searchHistoryService.getSearchHistory(userId, { limit: MAX_SEEDS_PER_SOURCE }),
+        ]);
+
+        const seeds: RecommendationSeed[] = [];
+        const addListingSeeds = (source: RecommendationSeed['source'], properties: Property[], verb: string) => {
+            properties.forEach((property, index) => {
+                const listing = toListingFeatures(property);
+                seeds.push({
+                    source,
+                    weight: this.seedWeight(source, index),
+                    reason: `Because you ${verb} ${describeListing(listing)}`,
+                    listing,
+                });
+            });
+        };
+
+        addListingSeeds('inquiry', inquiries.map(inquiry => inquiry.property).filter(Boolean), 'enquired about');
+        addListingSeeds('favorite', favorites.map(favorite => favorite.property).filter(Boolean), 'saved');
+        addListingSeeds('view', viewed, 'viewed');
+
+        searches.forEach((entry, index) => {
+            seeds.push({
+                source: 'search',
+                weight: this.seedWeight('search', index),
+                reason: `Because you searched for ${describeSearch(entry.criteria)}`,
+                criteria: entry.criteria,
+            });
+        });
+
+        return seeds;
+    }
+
+    private async getViewedProperties(userId: number): Promise<Property[]> {
+        try {
+            if (!this.redis.isReady()) {
+                return [];
+            }
+
+            const ids = (await this.redis.getClient().lRange(`user:viewed_properties:${userId}`, 0, MAX_SEEDS_PER_SOURCE * 2 - 1))
+                .map(id => parseInt(id))
+                .filter(id => !isNaN(id));
+            if (ids.length === 0) {
+                return [];
+            }
+
+            const properties = await Property.findAll({ where: { id: ids }, attributes: CANDIDATE_ATTRIBUTES });
+            return ids
+                .map(id => properties.find(property => property.id === id))
+                .filter((property): property is Property => !!property);
+        } catch (error) {
+            console.warn('Failed to load viewed properties:', error);
+            return [];
+        }
+    }
+
+    private seedWeight(source: RecommendationSeed['source'], recencyIndex: number): number {
+        return SEED_WEIGHTS[source] * Math.max(MIN_RECENCY_FACTOR, 1 - recencyIndex * RECENCY_DECAY);
+    }
+
+    private combineScores(similarity: number, popularity: number): number {
+        return Math.round(((1 - POPULARITY_WEIGHT) * similarity + POPULARITY_WEIGHT * popularity) * 1000) / 1000;
+    }
+
+    /**
+     * Score listings in the cities and of the types the user engaged with against every seed,
+     * keeping each listing's best match so it can be explained
+     */
+    private async scoreCandidates(
+        userId: number,
+        seeds: RecommendationSeed[],
+        excludeIds: number[],
+        limit: number
+    ): Promise<ScoredCandidate[]> {
+        const cities = new Set<string>();
+        const propertyTypes = new Set<string>();
+        seeds.forEach(seed => {
+            if (seed.listing) {
+                cities.add(seed.listing.city);
+                propertyTypes.add(seed.listing.propertyType);
+            }
+            seed.criteria?.city?.forEach(city => cities.add(city));
+            seed.criteria?.property_type?.forEach(type => propertyTypes.add(type));
+        });
+
+        if (cities.size === 0 && propertyTypes.size === 0) {
+            return [];
+        }
+
+        const where: WhereOptions = {
+            is_active: true,
+            user_id: { [Op.ne]: userId },
+            [Op.or]: [
+                ...(cities.size > 0 ? [{ city: { [Op.in]: Array.from(cities) } }] : []),
+                ...(propertyTypes.size > 0 ? [{ property_type: { [Op.in]: Array.from(propertyTypes) } }] : []),
+            ],
+            ...(excludeIds.length > 0 && { id: { [Op.notIn]: excludeIds } }),
+        };
+
+        const candidates = await Property.findAll({
+            where,
+            attributes: [...CANDIDATE_ATTRIBUTES, [FAVORITES_COUNT, 'favorites_count']],
+            order: [['created_at', 'DESC']],
+            limit: MAX_CANDIDATES,
+        });
+
+        const scored: ScoredCandidate[] = [];
+        for (const candidate of candidates) {
+            const features = toListingFeatures(candidate);
+            let best: { match: number; seed: RecommendationSeed } | null = null;
+
+            for (const seed of seeds) {
+                const similarity = seed.listing
+                    ? listingSimilarity(seed.listing, features)
+                    : searchCriteriaMatch(seed.criteria!, features);
+                if (similarity === null || similarity < MIN_SIMILARITY) {
+                    continue;
+                }
+
+                const match = similarity * seed.weight;
+                if (!best || match > best.match) {
+                    best = { match, seed };
+                }
+            }
+
+            if (best) {
+                scored.push({
+                    id: candidate.id,
+                    score: this.combineScores(best.match, popularityScore(candidate.get({ plain: true }) as any)),
+                    reason: best.seed.reason,
+                    source: best.seed.source,
+                });
+            }
+        }
+
+        return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+    }
+
+    private async getPopularCandidates(limit: number, excludeIds: number[], userId?: number): Promise<ScoredCandidate[]> {
+        if (limit <= 0) {
+            return [];
+        }
+
+        const candidates = await Property.findAll({
+            where: {
+                is_active: true,
+                ...(userId && { user_id: { [Op.ne]: userId } }),
+                ...(excludeIds.length > 0 && { id: { [Op.notIn]: excludeIds } }),
+            },
+            attributes: [...CANDIDATE_ATTRIBUTES, [FAVORITES_COUNT, 'favorites_count']],
+            order: [['is_featured', 'DESC'], ['views_count', 'DESC'], ['created_at', 'DESC']],
+            limit: MAX_POPULAR_CANDIDATES,
+        });
+
+        return candidates
+            .map(candidate => ({
+                id: candidate.id,
+                score: popularityScore(candidate.get({ plain: true }) as any),
+                reason: candidate.is_featured ? 'Featured listing' : `Popular in ${candidate.city}`,
+                source: 'popular' as RecommendationSource,
+            }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+    }
+
+    private async getCachedPopular(limit: number): Promise<RecommendedProperty[]> {
+        const cacheKey = `recommendations:popular:${limit}`;
+
+        try {
+            const cached = await this.redis.get(cacheKey);
+            if (cached) {
+                return JSON.parse(cached);
+            }
+        } catch (error) {
+            console.warn('Failed to read popular recommendations from cache:', error);
+        }
+
+        const properties = await this.loadProperties(await this.getPopularCandidates(limit, []));
+
+        try {
+            await this.redis.setEx(cacheKey, POPULAR_CACHE_TTL, JSON.stringify(properties));
+        } catch (error) {
+            console.warn('Failed to cache popular recommendations:', error);
+        }
+
+        return properties;
+    }
+
+    /**
+     * Full listings with images, in score order, annotated with the score and explanation
+     */
+    private async loadProperties(scored: ScoredCandidate[]): Promise<RecommendedProperty[]> {
+        if (scored.length === 0) {
+            return [];
+        }
+
+        const properties = await Property.findAll({
+            where: { id: scored.map(candidate => candidate.id) },
+            include: [
+                {
+                    model: PropertyImage,
+                    as: 'images',
+                    required: false,
+                },
+            ],
+        });
+
+        return scored
+            .map(candidate => {
+                const property = properties.find(row => row.id === candidate.id);
+                return property && {
+                    ...transformPropertyWithImages(property),
+                    recommendation_score: candidate.score,
+                    recommendation_reason: candidate.reason,
+                    recommendation_source: candidate.source,
+                };
+            })
+            .filter((property): property is RecommendedProperty => !!property);
+    }
+}
+
+export default RecommendationService;
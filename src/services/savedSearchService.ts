@@ -2,9 +2,11 @@ import { SavedSearch, SearchCriteria } from '../models/SavedSearch';
 import { Property } from '../models/Property';
 import { PropertyImage } from '../models/PropertyImage';
 import { User } from '../models/User';
-import { Op } from 'sequelize';
+import { Op, literal } from 'sequelize';
 import RedisConnection from '../config/redis';
 import emailService from './emailService';
+import { getPolygonsBoundingBox, isPointInPolygons, polygonsSql } from '../utils/geoUtils';
+import { amenityFilterSql, hasAmenities } from '../utils/amenityFilter';
 
 export class SavedSearchService {
   private redis: RedisConnection;
@@ -287,25 +289,11 @@ export class SavedSearchService {
    */
   async checkForNewMatches(property: Property): Promise<void> {
     try {
-      // Find saved searches that might match this new property
-      const savedSearches = await SavedSearch.findAll({
-        include: [
-          {
-            model: User,
-            as: 'searchUser', // Use 'searchUser' instead of 'user' to match the association alias
-            attributes: ['id', 'email', 'first_name', 'last_name']
-          }
-        ],
-        where: {
-          is_active: true
-        }
-      });
+      const savedSearches = await this.findMatchingSearches(property);
 
       for (const savedSearch of savedSearches) {
-        if (this.doesPropertyMatchCriteria(property, savedSearch.search_criteria)) {
-          // Send notification email
-          await this.sendNewMatchNotification(savedSearch, property);
-        }
+        // Send notification email
+        await this.sendNewMatchNotification(savedSearch, property);
       }
     } catch (error) {
       console.error('Error checking for new matches:', error);
@@ -314,6 +302,23 @@ export class SavedSearchService {
     }
   }
 
+  /**
+   * Active saved searches whose criteria match the property, with their owner as `searchUser`
+   */
+  async findMatchingSearches(property: Property): Promise<SavedSearch[]> {
+    const savedSearches = await SavedSearch.findAll({
+      include: [
+        {
+          model: User,
+          as: 'searchUser', // Use 'searchUser' instead of 'user' to match the association alias
+          attributes: ['id', 'email', 'first_name', 'last_name']
+        }
+      ]
+    });
+
+    return savedSearches.filter(savedSearch => this.doesPropertyMatchCriteria(property, savedSearch.search_criteria));
+  }
+
   /**
    * Build Sequelize where clause from search criteria
    */
@@ -371,6 +376,20 @@ export class SavedSearchService {
       ];
     }
 
+    if (criteria.polygons?.length) {
+      const box = getPolygonsBoundingBox(criteria.polygons);
+      whereClause.latitude = { [Op.between]: [box.minLatitude, box.maxLatitude] };
+      whereClause.longitude = { [Op.between]: [box.minLongitude, box.maxLongitude] };
+      whereClause[Op.and] = [literal(polygonsSql(criteria.polygons))];
+    }
+
+    if (criteria.amenities?.length) {
+      whereClause[Op.and] = [
+        ...(whereClause[Op.and] || []),
+        literal(amenityFilterSql(criteria.amenities, criteria.amenities_match)),
+      ];
+    }
+
     return whereClause;
   }
 
@@ -435,6 +454,23 @@ export class SavedSearchService {
       }
     }
 
+    // Amenities check, same "all" / "any" semantics as the search filter
+    if (criteria.amenities?.length && !hasAmenities(property.amenities, criteria.amenities, criteria.amenities_match)) {
+      return false;
+    }
+
+    // Drawn area check
+    if (criteria.polygons?.length) {
+      if (property.latitude == null || property.longitude == null) {
+        return false;
+      }
+
+      const point = { latitude: Number(property.latitude), longitude: Number(property.longitude) };
+      if (!isPointInPolygons(point, criteria.polygons)) {
+        return false;
+      }
+    }
+
     return true;
   }
 
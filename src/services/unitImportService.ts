@@ -0,0 +1,383 @@
+import crypto from 'crypto';
+import { Op, Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import { Project } from '../models/Project';
+import { ProjectUnit, UnitStatus, UnitCountColumn, UNIT_STATUS_COUNTERS } from '../models/ProjectUnit';
+import { UnitReservation, ACTIVE_RESERVATION_STATUSES } from '../models/UnitReservation';
+import { ProjectPermission } from '../models/BuilderTeamMember';
+import { UnitSheetFormat, UnitSheetRow, UNIT_SHEET_CONTENT_TYPES, writeUnitSheet } from '../utils/unitSheet';
+import { ApiError, ValidationError } from '../utils/errorResponse';
+import ProjectAccessService from './projectAccessService';
+
+/**
+ * A parsed sheet row with the errors request validation found in it
+ */
+export interface ImportSheetRow {
+    row: number;
+    values: UnitSheetRow;
+    errors: string[];
+}
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'conflict';
+
+type ImportedField =
+    | 'tower' | 'unit_number' | 'unit_type' | 'floor_number' | 'area_sqft' | 'area_sqm' | 'price' | 'price_per_sqft'
+    | 'maintenance_charge' | 'parking_spaces' | 'balconies' | 'bathrooms' | 'bedrooms' | 'is_corner_unit' | 'has_terrace' | 'status';
+
+type ImportedValue = string | number | boolean | null;
+
+export interface ImportRowResult {
+    row: number;
+    action: ImportAction;
+    unit_id: number | null;
+    unit_number: string | null;
+    tower: string | null;
+    changes?: Partial<Record<ImportedField, { from: ImportedValue; to: ImportedValue }>>;
+    reasons?: string[];
+}
+
+export interface UnitImportPreview {
+    rows: ImportRowResult[];
+    summary: { created: number; updated: number; unchanged: number; conflicting: number };
+    // Fingerprint of the diff; applying requires the same one so nothing changes unseen
+    digest: string;
+}
+
+export interface UnitImportResult extends UnitImportPreview {
+    created: number[];
+    updated: number[];
+}
+
+const IMPORTED_FIELDS: ImportedField[] = [
+    'tower', 'unit_number', 'unit_type', 'floor_number', 'area_sqft', 'area_sqm', 'price', 'price_per_sqft',
+    'maintenance_charge', 'parking_spaces', 'balconies', 'bathrooms', 'bedrooms', 'is_corner_unit', 'has_terrace', 'status',
+];
+
+const DECIMAL_FIELDS: ImportedField[] = ['area_sqft', 'area_sqm', 'price', 'price_per_sqft', 'maintenance_charge'];
+const INTEGER_FIELDS: ImportedField[] = ['floor_number', 'parking_spaces', 'balconies', 'bathrooms', 'bedrooms'];
+const BOOLEAN_FIELDS: ImportedField[] = ['is_corner_unit', 'has_terrace'];
+
+const SQFT_TO_SQM = 0.092903;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const parseBoolean = (value: string): boolean => ['true', '1', 'yes', 'y'].includes(value.toLowerCase());
+
+/**
+ * Round-trip editing of a project's units through CSV or XLSX. An import is first previewed as a
+ * diff against the current units, and only applied once the builder confirms that same diff.
+ */
+class UnitImportService {
+    private projectAccess = new ProjectAccessService();
+
+    /**
+     * Every unit in the project as a sheet the builder can edit and import again
+     */
+    async exportUnits(projectId: number, userId: number, format: UnitSheetFormat): Promise<{
+        filename: string;
+        contentType: string;
+        body: Buffer;
+    }> {
+        const project = await this.getBuilderProject(projectId, userId, ProjectPermission.VIEW);
+
+        const units = await ProjectUnit.findAll({
+            where: { project_id: projectId },
+            order: [['tower', 'ASC'], ['floor_number', 'ASC'], ['unit_number', 'ASC']],
+        });
+
+        const rows: UnitSheetRow[] = units.map(unit => {
+            const fields = this.toFields(unit);
+            return {
+                id: String(unit.id),
+                ...Object.fromEntries(
+                    IMPORTED_FIELDS.map(field => [field, fields[field] === null ? '' : String(fields[field])])
+                ),
+            };
+        });
+
+        const slug = project.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || `project-${projectId}`;
+        return {
+            filename: `${slug}-units.${format}`,
+            contentType: UNIT_SHEET_CONTENT_TYPES[format],
+            body: await writeUnitSheet(rows, format),
+        };
+    }
+
+    /**
+     * What importing the rows would change, without changing anything
+     */
+    async previewImport(projectId: number, userId: number, rows: ImportSheetRow[]): Promise<UnitImportPreview> {
+        await this.getBuilderProject(projectId, userId, ProjectPermission.MANAGE_INVENTORY);
+        return this.diff(projectId, rows);
+    }
+
+    /**
+     * Create and update units as previewed. Conflicting rows are skipped. The diff is worked out
+     * again under lock and must match the previewed digest, otherwise nothing is applied.
+     */
+    async applyImport(projectId: number, userId: number, rows: ImportSheetRow[], digest: string): Promise<UnitImportResult> {
+        return sequelize.transaction(async (transaction) => {
+            await this.getBuilderProject(projectId, userId, ProjectPermission.MANAGE_INVENTORY, transaction);
+
+            const preview = await this.diff(projectId, rows, transaction);
+            if (preview.digest !== digest) {
+                throw new ApiError('Units have changed since the preview. Review the import again before applying it.', 409, 'CONFLICT');
+            }
+            if (preview.summary.created === 0 && preview.summary.updated === 0) {
+                throw new ValidationError('There are no changes to import');
+            }
+
+            const rowByNumber = new Map(rows.map(row => [row.row, row]));
+            const deltas: Partial<Record<UnitCountColumn, number>> = {};
+            const created: number[] = [];
+            const updated: number[] = [];
+
+            const toCreate = preview.rows.filter(result => result.action === 'create');
+            if (toCreate.length > 0) {
+                const units = await ProjectUnit.bulkCreate(
+                    toCreate.map(result => {
+                        const fields = this.toImportedFields(rowByNumber.get(result.row)!.values);
+                        return {
+                            project_id: projectId,
+                            unit_number: fields.unit_number as string,
+                            unit_type: fields.unit_type as string,
+                            floor_number: fields.floor_number as number,
+                            tower: (fields.tower as string | null) ?? undefined,
+                            area_sqft: fields.area_sqft as number,
+                            area_sqm: (fields.area_sqm as number | null) ?? round2((fields.area_sqft as number) * SQFT_TO_SQM),
+                            price: fields.price as number,
+                            price_per_sqft: (fields.price_per_sqft as number | null) ?? round2((fields.price as number) / (fields.area_sqft as number)),
+                            maintenance_charge: (fields.maintenance_charge as number | null) ?? undefined,
+                            parking_spaces: (fields.parking_spaces as number | null) ?? 0,
+                            balconies: (fields.balconies as number | null) ?? 0,
+                            bathrooms: fields.bathrooms as number,
+                            bedrooms: fields.bedrooms as number,
+                            status: (fields.status as UnitStatus | null) ?? UnitStatus.AVAILABLE,
+                            specifications: {},
+                            amenities: [],
+                            is_corner_unit: (fields.is_corner_unit as boolean | null) ?? false,
+                            has_terrace: (fields.has_terrace as boolean | null) ?? false,
+                        };
+                    }),
+                    { transaction }
+                );
+
+                units.forEach(unit => {
+                    created.push(unit.id);
+                    const column = UNIT_STATUS_COUNTERS[unit.status];
+                    deltas[column] = (deltas[column] || 0) + 1;
+                });
+                await Project.increment({ total_units: units.length }, { where: { id: projectId }, transaction });
+            }
+
+            const toUpdate = preview.rows.filter(result => result.action === 'update');
+            if (toUpdate.length > 0) {
+                const units = await ProjectUnit.findAll({
+                    where: { id: { [Op.in]: toUpdate.map(result => result.unit_id!) }, project_id: projectId },
+                    transaction,
+                });
+                const unitById = new Map(units.map(unit => [unit.id, unit]));
+
+                for (const result of toUpdate) {
+                    const unit = unitById.get(result.unit_id!)!;
+                    const changes = Object.fromEntries(
+                        Object.entries(result.changes || {}).map(([field, change]) => [field, change!.to])
+                    );
+
+                    if (changes.status !== undefined) {
+                        const from = UNIT_STATUS_COUNTERS[unit.status];
+                        const to = UNIT_STATUS_COUNTERS[changes.status as UnitStatus];
+                        deltas[from] = (deltas[from] || 0) - 1;
+                        deltas[to] = (deltas[to] || 0) + 1;
+                    }
+
+                    await unit.update(changes, { transaction });
+                    updated.push(unit.id);
+                }
+            }
+
+            const counterChanges = Object.fromEntries(Object.entries(deltas).filter(([, delta]) => delta !== 0));
+            if (Object.keys(counterChanges).length > 0) {
+                await Project.increment(counterChanges, { where: { id: projectId }, transaction });
+            }
+
+            return { ...preview, created, updated };
+        });
+    }
+
+    /**
+     * Classify each row against the project's current units
+     */
+    private async diff(projectId: number, rows: ImportSheetRow[], transaction?: Transaction): Promise<UnitImportPreview> {
+        const [units, reservations] = await Promise.all([
+            ProjectUnit.findAll({
+                where: { project_id: projectId },
+                transaction,
+                ...(transaction && { lock: transaction.LOCK.UPDATE }),
+            }),
+            UnitReservation.findAll({
+                where: { project_id: projectId, status: { [Op.in]: ACTIVE_RESERVATION_STATUSES } },
+                attributes: ['unit_id'],
+                transaction,
+            }),
+        ]);
+
+        const unitById = new Map(units.map(unit => [unit.id, unit]));
+        const unitByNumber = new Map(units.map(unit => [unit.unit_number.toLowerCase(), unit]));
+        const reservedUnitIds = new Set(reservations.map(reservation => reservation.unit_id));
+        const seenUnitIds = new Set<number>();
+        const seenUnitNumbers = new Set<string>();
+
+        const results = rows.map((sheetRow): ImportRowResult => {
+            const { row, values } = sheetRow;
+            const unitNumber = values.unit_number || null;
+            const result: ImportRowResult = { row, action: 'conflict', unit_id: null, unit_number: unitNumber, tower: values.tower || null };
+            const conflict = (...reasons: string[]): ImportRowResult => ({ ...result, action: 'conflict', reasons });
+
+            if (sheetRow.errors.length > 0) {
+                return conflict(...sheetRow.errors);
+            }
+
+            const rowUnitId = values.id ? parseInt(values.id, 10) : null;
+            if (values.id && (!Number.isInteger(rowUnitId) || String(rowUnitId) !== values.id)) {
+                return conflict(`Invalid unit id "${values.id}"`);
+            }
+
+            const numberKey = unitNumber!.toLowerCase();
+            if ((rowUnitId && seenUnitIds.has(rowUnitId)) || seenUnitNumbers.has(numberKey)) {
+                return conflict(`Unit ${unitNumber} appears more than once in the file`);
+            }
+            if (rowUnitId) seenUnitIds.add(rowUnitId);
+            seenUnitNumbers.add(numberKey);
+
+            const fields = this.toImportedFields(values);
+            if (fields.status === UnitStatus.RESERVED) {
+                return conflict('Units are reserved by placing a hold, not through an import');
+            }
+
+            const existing = rowUnitId ? unitById.get(rowUnitId) : unitByNumber.get(numberKey);
+            if (rowUnitId && !existing) {
+                return conflict(`Unit #${rowUnitId} does not belong to this project`);
+            }
+
+            const numberOwner = unitByNumber.get(numberKey);
+            if (existing && numberOwner && numberOwner.id !== existing.id) {
+                return conflict(`Unit number ${unitNumber} is already used by unit #${numberOwner.id}`);
+            }
+
+            if (!existing) {
+                return { ...result, action: 'create' };
+            }
+
+            const current = this.toFields(existing);
+            const changes: ImportRowResult['changes'] = {};
+            IMPORTED_FIELDS.forEach(field => {
+                const next = this.resolveField(field, fields, current);
+                if (next !== undefined && next !== current[field]) {
+                    changes[field] = { from: current[field], to: next };
+                }
+            });
+
+            const withUnit = { ...result, unit_id: existing.id };
+            if (Object.keys(changes).length === 0) {
+                return { ...withUnit, action: 'unchanged' };
+            }
+            if (changes.status && reservedUnitIds.has(existing.id)) {
+                return {
+                    ...withUnit,
+                    action: 'conflict',
+                    reasons: ['This unit has an active hold or booking. Release it before changing the status.'],
+                };
+            }
+
+            return { ...withUnit, action: 'update', changes };
+        });
+
+        const count = (action: ImportAction) => results.filter(result => result.action === action).length;
+        return {
+            rows: results,
+            summary: {
+                created: count('create'),
+                updated: count('update'),
+                unchanged: count('unchanged'),
+                conflicting: count('conflict'),
+            },
+            digest: crypto.createHash('sha256').update(JSON.stringify(results)).digest('hex'),
+        };
+    }
+
+    /**
+     * The value a row sets a field to, or undefined to keep the current one. Blank optional
+     * columns keep what is stored, and derived per-sqft figures follow edits to price or area
+     * unless they were edited themselves.
+     */
+    private resolveField(
+        field: ImportedField,
+        fields: Record<ImportedField, ImportedValue>,
+        current: Record<ImportedField, ImportedValue>
+    ): ImportedValue | undefined {
+        const value = fields[field];
+
+        if (field === 'price_per_sqft' && (value === null || value === current.price_per_sqft)) {
+            const price = fields.price as number;
+            const area = fields.area_sqft as number;
+            return price !== current.price || area !== current.area_sqft ? round2(price / area) : undefined;
+        }
+        if (field === 'area_sqm' && (value === null || value === current.area_sqm)) {
+            const area = fields.area_sqft as number;
+            return area !== current.area_sqft ? round2(area * SQFT_TO_SQM) : undefined;
+        }
+
+        return value === null && field !== 'tower' ? undefined : value;
+    }
+
+    /**
+     * Typed values from a sheet row; blank cells become null
+     */
+    private toImportedFields(values: UnitSheetRow): Record<ImportedField, ImportedValue> {
+        return Object.fromEntries(IMPORTED_FIELDS.map(field => {
+            const raw = values[field];
+            if (raw === undefined) return [field, null];
+            if (BOOLEAN_FIELDS.includes(field)) return [field, parseBoolean(raw)];
+            if (DECIMAL_FIELDS.includes(field)) return [field, round2(parseFloat(raw))];
+            if (INTEGER_FIELDS.includes(field)) return [field, parseInt(raw, 10)];
+            if (field === 'status') return [field, raw.toLowerCase()];
+            return [field, raw];
+        })) as Record<ImportedField, ImportedValue>;
+    }
+
+    /**
+     * A stored unit's importable fields, normalised the way sheet values are
+     */
+    private toFields(unit: ProjectUnit): Record<ImportedField, ImportedValue> {
+        return {
+            tower: unit.tower || null,
+            unit_number: unit.unit_number,
+            unit_type: unit.unit_type,
+            floor_number: unit.floor_number,
+            area_sqft: round2(Number(unit.area_sqft)),
+            area_sqm: round2(Number(unit.area_sqm)),
+            price: round2(Number(unit.price)),
+            price_per_sqft: round2(Number(unit.price_per_sqft)),
+            maintenance_charge: unit.maintenance_charge != null ? round2(Number(unit.maintenance_charge)) : null,
+            parking_spaces: unit.parking_spaces,
+            balconies: unit.balconies,
+            bathrooms: unit.bathrooms,
+            bedrooms: unit.bedrooms,
+            is_corner_unit: Boolean(unit.is_corner_unit),
+            has_terrace: Boolean(unit.has_terrace),
+            status: unit.status,
+        };
+    }
+
+    private async getBuilderProject(
+        projectId: number,
+        userId: number,
+        permission: ProjectPermission,
+        transaction?: Transaction
+    ): Promise<Project> {
+        return this.projectAccess.authorize(projectId, userId, permission, transaction);
+    }
+}
+
+export default UnitImportService;
@@ -0,0 +1,328 @@
+import { Op, Transaction, UniqueConstraintError } from 'sequelize';
+import sequelize from '../config/database';
+import config from '../config';
+import { Project } from '../models/Project';
+import { ProjectUnit, UnitStatus, UNIT_STATUS_COUNTERS } from '../models/ProjectUnit';
+import { UnitReservation, ReservationStatus, ACTIVE_RESERVATION_STATUSES } from '../models/UnitReservation';
+import { UnitPaymentSchedule, PaymentScheduleStatus } from '../models/UnitPaymentSchedule';
+import { ProjectPermission } from '../models/BuilderTeamMember';
+import { AuthorizationError, ConflictError, NotFoundError } from '../utils/errorResponse';
+import ProjectAccessService from './projectAccessService';
+
+export interface ReservationUser {
+    userId: number;
+}
+
+// Stale holds are released within this long of expiring
+const HOLD_EXPIRY_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Move one unit between the project's available/sold/blocked counters. Runs as a single
+ * UPDATE so it stays consistent with the unit's status change in the same transaction.
+ */
+export async function moveUnitCount(
+    projectId: number,
+    from: UnitStatus,
+    to: UnitStatus,
+    transaction?: Transaction
+): Promise<void> {
+    const fromColumn = UNIT_STATUS_COUNTERS[from];
+    const toColumn = UNIT_STATUS_COUNTERS[to];
+    if (fromColumn === toColumn) {
+        return;
+    }
+
+    await Project.increment({ [fromColumn]: -1, [toColumn]: 1 }, { where: { id: projectId }, transaction });
+}
+
+/**
+ * Buyers place time-limited holds on project units; the builder turns a hold into a booking
+ * or releases it, and holds nobody acted on are released when they expire.
+ */
+class UnitReservationService {
+    private scheduler: NodeJS.Timeout | null = null;
+    private projectAccess = new ProjectAccessService();
+
+    /**
+     * Start releasing expired holds
+     * This should be called when the application starts
+     */
+    start(): void {
+        if (this.scheduler) {
+            console.log('Unit reservation scheduler is already running');
+            return;
+        }
+
+        console.log('Starting unit reservation scheduler...');
+        this.scheduler = setInterval(() => {
+            this.expireStaleHolds().catch(error => console.error('Error expiring unit holds:', error));
+        }, HOLD_EXPIRY_INTERVAL_MS);
+    }
+
+    stop(): void {
+        if (this.scheduler) {
+            clearInterval(this.scheduler);
+            this.scheduler = null;
+        }
+        console.log('Unit reservation scheduler stopped');
+    }
+
+    /**
+     * Hold an available unit for a buyer. The unit row is locked for the duration of the
+     * transaction, so concurrent holds on the same unit are rejected.
+     */
+    async placeHold(projectId: number, unitId: number, buyerId: number, notes?: string): Promise<UnitReservation> {
+        try {
+            return await sequelize.transaction(async (transaction) => {
+                const project = await Project.findOne({
+                    where: { id: projectId, is_active: true, approval_status: 'approved' },
+                    transaction,
+                });
+                if (!project) {
+                    throw new NotFoundError('Project not found');
+                }
+                if (await this.projectAccess.getAccess(project, buyerId, transaction)) {
+                    throw new AuthorizationError('Builders and their team cannot hold units in their own projects');
+                }
+
+                const unit = await this.lockUnit(projectId, unitId, transaction);
+                if (unit.status !== UnitStatus.AVAILABLE) {
+                    throw new ConflictError('This unit is not available');
+                }
+
+                const activeHolds = await UnitReservation.count({
+                    where: { buyer_id: buyerId, status: ReservationStatus.HELD },
+                    transaction,
+                });
+                if (activeHolds >= config.reservations.maxActiveHoldsPerBuyer) {
+                    throw new ConflictError(`You can hold at most ${config.reservations.maxActiveHoldsPerBuyer} units at a time`);
+                }
+
+                const reservation = await UnitReservation.create({
+                    project_id: projectId,
+                    unit_id: unitId,
+                    buyer_id: buyerId,
+                    status: ReservationStatus.HELD,
+                    expires_at: new Date(Date.now() + config.reservations.holdMinutes * 60 * 1000),
+                    notes: notes?.trim() || null,
+                }, { transaction });
+
+                await this.setUnitStatus(unit, UnitStatus.RESERVED, transaction);
+                return reservation;
+            });
+        } catch (error) {
+            // Backstop for the unique key on active reservations
+            if (error instanceof UniqueConstraintError) {
+                throw new ConflictError('This unit is already reserved');
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Turn a buyer's hold into a booking; only the builder's sales team can do this
+     */
+    async confirmBooking(projectId: number, unitId: number, userId: number): Promise<UnitReservation> {
+        return sequelize.transaction(async (transaction) => {
+            await this.getBuilderProject(projectId, userId, ProjectPermission.MANAGE_SALES, transaction);
+
+            const unit = await this.lockUnit(projectId, unitId, transaction);
+            const reservation = await this.findActiveReservation(unitId, transaction);
+
+            if (!reservation || reservation.status !== ReservationStatus.HELD) {
+                throw new ConflictError('This unit has no hold to confirm');
+            }
+            if (reservation.expires_at && reservation.expires_at.getTime() <= Date.now()) {
+                throw new ConflictError('The hold on this unit has expired');
+            }
+
+            await reservation.update({
+                status: ReservationStatus.BOOKED,
+                expires_at: null,
+                booked_at: new Date(),
+                booked_by: userId,
+            }, { transaction });
+
+            await this.setUnitStatus(unit, UnitStatus.SOLD, transaction);
+            return reservation;
+        });
+    }
+
+    /**
+     * Give a unit back. Buyers can release their own holds; the builder's sales team can release any hold
+     * or cancel a booking.
+     */
+    async release(projectId: number, unitId: number, user: ReservationUser): Promise<UnitReservation> {
+        return sequelize.transaction(async (transaction) => {
+            const project = await Project.findByPk(projectId, { transaction });
+            const unit = await this.lockUnit(projectId, unitId, transaction);
+            const reservation = await this.findActiveReservation(unitId, transaction);
+
+            const isBuilder = !!project && await this.projectAccess.can(project, user.userId, ProjectPermission.MANAGE_SALES, transaction);
+            const isBuyer = !!reservation && reservation.buyer_id === user.userId;
+
+            if (!reservation || (!isBuilder && !isBuyer)) {
+                throw new NotFoundError('Reservation not found');
+            }
+            if (reservation.status === ReservationStatus.BOOKED && !isBuilder) {
+                throw new AuthorizationError('Only the builder can cancel a booking');
+            }
+
+            // A cancelled booking takes its payment schedule with it
+            if (reservation.status === ReservationStatus.BOOKED) {
+                await UnitPaymentSchedule.update(
+                    { status: PaymentScheduleStatus.CANCELLED, cancelled_at: new Date() },
+                    { where: { reservation_id: reservation.id, status: PaymentScheduleStatus.ACTIVE }, transaction }
+                );
+            }
+
+            await reservation.update({
+                status: ReservationStatus.RELEASED,
+                released_at: new Date(),
+                released_by: user.userId,
+            }, { transaction });
+
+            await this.setUnitStatus(unit, UnitStatus.AVAILABLE, transaction);
+            return reservation;
+        });
+    }
+
+    /**
+     * Current hold or booking on a unit, visible to its buyer and the builder's team
+     */
+    async getUnitReservation(projectId: number, unitId: number, user: ReservationUser): Promise<UnitReservation | null> {
+        const reservation = await UnitReservation.findOne({
+            where: {
+                project_id: projectId,
+                unit_id: unitId,
+                status: { [Op.in]: ACTIVE_RESERVATION_STATUSES },
+            },
+        });
+
+        if (!reservation || reservation.buyer_id === user.userId) {
+            return reservation;
+        }
+
+        const project = await Project.findByPk(projectId);
+        return project && await this.projectAccess.can(project, user.userId, ProjectPermission.VIEW) ? reservation : null;
+    }
+
+    /**
+     * Reservations across a builder's project, newest first
+     */
+    async getProjectReservations(projectId: number, userId: number, status?: ReservationStatus): Promise<UnitReservation[]> {
+        await this.getBuilderProject(projectId, userId, ProjectPermission.MANAGE_SALES);
+
+        return UnitReservation.findAll({
+            where: {
+                project_id: projectId,
+                ...(status && { status }),
+            },
+            order: [['created_at', 'DESC']],
+        });
+    }
+
+    /**
+     * A buyer's holds and bookings, newest first
+     */
+    async getBuyerReservations(buyerId: number): Promise<UnitReservation[]> {
+        return UnitReservation.findAll({
+            where: {
+                buyer_id: buyerId,
+                status: { [Op.in]: ACTIVE_RESERVATION_STATUSES },
+            },
+            order: [['created_at', 'DESC']],
+        });
+    }
+
+    /**
+     * Release holds past their expiry. Returns how many were released.
+     */
+    async expireStaleHolds(now: Date = new Date()): Promise<number> {
+        const stale = await UnitReservation.findAll({
+            where: {
+                status: ReservationStatus.HELD,
+                expires_at: { [Op.lte]: now },
+            },
+            attributes: ['id'],
+        });
+
+        let count = 0;
+        for (const { id } of stale) {
+            try {
+                const expired = await sequelize.transaction(async (transaction) => {
+                    const reservation = await UnitReservation.findByPk(id, { transaction, lock: transaction.LOCK.UPDATE });
+
+                    // Booked or released since it was selected
+                    if (!reservation || reservation.status !== ReservationStatus.HELD) {
+                        return false;
+                    }
+
+                    const unit = await this.lockUnit(reservation.project_id, reservation.unit_id, transaction);
+                    await reservation.update({ status: ReservationStatus.EXPIRED, released_at: now }, { transaction });
+                    await this.setUnitStatus(unit, UnitStatus.AVAILABLE, transaction);
+                    return true;
+                });
+
+                if (expired) {
+                    count++;
+                }
+            } catch (error) {
+                console.error(`Failed to expire unit reservation ${id}:`, error);
+            }
+        }
+
+        return count;
+    }
+
+    /**
+     * Whether a unit is currently held or booked
+     */
+    async hasActiveReservation(unitId: number, transaction?: Transaction): Promise<boolean> {
+        return (await UnitReservation.count({
+            where: { unit_id: unitId, status: { [Op.in]: ACTIVE_RESERVATION_STATUSES } },
+            transaction,
+        })) > 0;
+    }
+
+    private async getBuilderProject(
+        projectId: number,
+        userId: number,
+        permission: ProjectPermission,
+        transaction?: Transaction
+    ): Promise<Project> {
+        return this.projectAccess.authorize(projectId, userId, permission, transaction);
+    }
+
+    private async lockUnit(projectId: number, unitId: number, transaction: Transaction): Promise<ProjectUnit> {
+        const unit = await ProjectUnit.findOne({
+            where: { id: unitId, project_id: projectId },
+            transaction,
+            lock: transaction.LOCK.UPDATE,
+        });
+        if (!unit) {
+            throw new NotFoundError('Unit not found');
+        }
+        return unit;
+    }
+
+    private async findActiveReservation(unitId: number, transaction: Transaction): Promise<UnitReservation | null> {
+        return UnitReservation.findOne({
+            where: { unit_id: unitId, status: { [Op.in]: ACTIVE_RESERVATION_STATUSES } },
+            transaction,
+            lock: transaction.LOCK.UPDATE,
+        });
+    }
+
+    private async setUnitStatus(unit: ProjectUnit, status: UnitStatus, transaction: Transaction): Promise<void> {
+        const previous = unit.status;
+        if (previous === status) {
+            return;
+        }
+
+        await unit.update({ status }, { transaction });
+        await moveUnitCount(unit.project_id, previous, status, transaction);
+    }
+}
+
+export default UnitReservationService;
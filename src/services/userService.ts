@@ -2,6 +2,7 @@ import { User, UserRole } from '../models/User';
 import authService from './authService';
 import RedisConnection from '../config/redis';
 import emailService from './emailService';
+import LeadScoringService from './leadScoringService';
 
 export interface UpdateProfileData {
   firstName?: string;
@@ -23,9 +24,11 @@ export interface ResetPasswordData {
 
 class UserService {
   private redis: RedisConnection;
+  private leadScoringService: LeadScoringService;
 
   constructor() {
     this.redis = RedisConnection.getInstance();
+    this.leadScoringService = new LeadScoringService();
   }
 
   /**
@@ -165,6 +168,10 @@ class UserService {
 
     user.is_verified = true;
     await user.save();
+
+    // A verified email raises the score of the user's open leads
+    this.leadScoringService.rescoreLeads({ inquirerId: user.id })
+      .catch(error => console.error('Lead rescoring error:', error));
   }
 
   /**
@@ -0,0 +1,66 @@
+export type AmenityMatchMode = 'all' | 'any';
+
+export const AMENITY_MATCH_MODES: AmenityMatchMode[] = ['all', 'any'];
+
+export const MAX_AMENITY_FILTERS = 30;
+
+/**
+ * Canonical amenity key: lower-case words joined by underscores
+ * (e.g. "Swimming Pool" and "swimming-pool" both become "swimming_pool")
+ */
+export function normalizeAmenityKey(amenity: string): string {
+  return amenity
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Sorted, de-duplicated amenity keys from either a PropertyAmenities object
+ * (only amenities flagged true) or a list of amenity names
+ */
+export function toAmenityKeys(amenities?: Record<string, boolean | undefined> | string[] | null): string[] {
+  if (!amenities || typeof amenities !== 'object') {
+    return [];
+  }
+
+  const names = Array.isArray(amenities)
+    ? amenities.filter((amenity): amenity is string => typeof amenity === 'string')
+    : Object.entries(amenities).filter(([, available]) => available === true).map(([amenity]) => amenity);
+
+  return Array.from(new Set(names.map(normalizeAmenityKey).filter(Boolean))).sort();
+}
+
+/**
+ * MySQL condition on the indexed amenity_keys array. "all" uses JSON_CONTAINS and "any" JSON_OVERLAPS,
+ * both of which can use the multi-valued index. Keys are normalized to [a-z0-9_], so they can be inlined.
+ */
+export function amenityFilterSql(amenities: string[], mode: AmenityMatchMode = 'all', tableAlias: string = 'Property'): string {
+  const keys = toAmenityKeys(amenities);
+  const column = `\`${tableAlias}\`.\`amenity_keys\``;
+  const candidates = `CAST('${JSON.stringify(keys)}' AS JSON)`;
+
+  return mode === 'any'
+    ? `JSON_OVERLAPS(${column}, ${candidates})`
+    : `JSON_CONTAINS(${column}, ${candidates})`;
+}
+
+/**
+ * In-memory equivalent of amenityFilterSql for a property's amenities
+ */
+export function hasAmenities(
+  propertyAmenities: Record<string, boolean | undefined> | string[] | null | undefined,
+  required: string[],
+  mode: AmenityMatchMode = 'all'
+): boolean {
+  const wanted = toAmenityKeys(required);
+  if (wanted.length === 0) {
+    return true;
+  }
+
+  const available = new Set(toAmenityKeys(propertyAmenities));
+  return mode === 'any'
+    ? wanted.some(amenity => available.has(amenity))
+    : wanted.every(amenity => available.has(amenity));
+}
@@ -0,0 +1,19 @@
+// Indian mobile numbers are matched on their last 10 digits, with or without +91 or a leading 0
+const PHONE_DIGITS = 10;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * An email as contacts are matched on, or null if it is not a usable email
+ */
+export function normalizeEmail(email?: string | null): string | null {
+  const normalized = (email || '').trim().toLowerCase();
+  return EMAIL_PATTERN.test(normalized) ? normalized : null;
+}
+
+/**
+ * A phone number as contacts are matched on, or null if it has too few digits
+ */
+export function normalizePhone(phone?: string | null): string | null {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length >= PHONE_DIGITS ? digits.slice(-PHONE_DIGITS) : null;
+}
@@ -0,0 +1,150 @@
+import { FindOptions, Model, ModelStatic, Op, Order, WhereOptions, literal, where } from 'sequelize';
+import { ValidationError } from './errorResponse';
+
+export const MAX_CURSOR_PAGE_SIZE = 100;
+
+/**
+ * One column of a keyset sort. Computed sort keys (distance, relevance) give the SQL
+ * expression and read their value from the attribute aliased as `name`; when that attribute
+ * can be NULL the expression must coalesce to `nullValue`.
+ */
+export interface CursorKey {
+  name: string;
+  direction: 'ASC' | 'DESC';
+  expression?: string;
+  nullValue?: number;
+  type?: 'date';
+}
+
+export interface CursorPagination {
+  limit: number;
+  nextCursor: string | null;
+  hasNext: boolean;
+}
+
+export interface CursorPaginatedResult<T> {
+  data: T[];
+  pagination: CursorPagination;
+}
+
+interface CursorPayload {
+  s: string; // sort signature the cursor was issued for
+  v: unknown[]; // sort key values of the last row on the page
+}
+
+const sortSignature = (keys: CursorKey[]): string =>
+  keys.map(key => `${key.name}:${key.direction}`).join(',');
+
+/**
+ * Opaque token pointing just after the given sort key values
+ */
+export function encodeCursor(keys: CursorKey[], values: unknown[]): string {
+  const payload: CursorPayload = { s: sortSignature(keys), v: values };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a cursor token; throws when it is malformed or was issued for a different sort order
+ */
+export function decodeCursor(token: string, keys: CursorKey[]): unknown[] {
+  let payload: CursorPayload;
+
+  try {
+    payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+  } catch (error) {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  if (!payload || !Array.isArray(payload.v) || payload.v.length !== keys.length) {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  if (payload.s !== sortSignature(keys)) {
+    throw new ValidationError('Cursor does not match the requested sort order; start again without a cursor');
+  }
+
+  return payload.v.map((value, index) => (keys[index].type === 'date' && value !== null ? new Date(value as string) : value));
+}
+
+/**
+ * Whether a string is structurally a cursor token (used by request validators)
+ */
+export function isCursorToken(token: string): boolean {
+  try {
+    const payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    return typeof payload?.s === 'string' && Array.isArray(payload.v);
+  } catch (error) {
+    return false;
+  }
+}
+
+const keyOperand = (key: CursorKey) => (key.expression ? literal(key.expression) : key.name);
+
+const compare = (key: CursorKey, operator: symbol, value: unknown): WhereOptions =>
+  key.expression
+    ? where(literal(key.expression), { [operator]: value })
+    : { [key.name]: { [operator]: value } };
+
+/**
+ * Rows strictly after the cursor position:
+ * (k1 > v1) OR (k1 = v1 AND k2 > v2) OR ... with > / < following each key's direction
+ */
+export function buildKeysetCondition(keys: CursorKey[], values: unknown[]): WhereOptions {
+  const branches = keys.map((key, index) => {
+    const equalPrefix = keys.slice(0, index).map((prefixKey, prefixIndex) => compare(prefixKey, Op.eq, values[prefixIndex]));
+    const after = compare(key, key.direction === 'ASC' ? Op.gt : Op.lt, values[index]);
+    return { [Op.and]: [...equalPrefix, after] };
+  });
+
+  return { [Op.or]: branches };
+}
+
+export function keysetOrder(keys: CursorKey[]): Order {
+  return keys.map(key => [keyOperand(key), key.direction]);
+}
+
+const readKeyValue = (row: Model, key: CursorKey): unknown => {
+  const value = row.get(key.name);
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value === null || value === undefined) {
+    return key.nullValue ?? null;
+  }
+  return value;
+};
+
+/**
+ * Fetch one page in keyset order. Sort keys must be NOT NULL (coalesce computed ones),
+ * and the last key must be unique (the primary key) so every row has a stable position.
+ */
+export async function findCursorPage<M extends Model>(
+  model: ModelStatic<M>,
+  options: FindOptions,
+  keys: CursorKey[],
+  cursor: string | undefined,
+  limit: number
+): Promise<{ rows: M[]; pagination: CursorPagination }> {
+  const pageSize = Math.min(Math.max(limit, 1), MAX_CURSOR_PAGE_SIZE);
+  const afterCursor = cursor ? buildKeysetCondition(keys, decodeCursor(cursor, keys)) : null;
+
+  const rows = await model.findAll({
+    ...options,
+    where: afterCursor ? { [Op.and]: [options.where || {}, afterCursor] } : options.where,
+    order: keysetOrder(keys),
+    limit: pageSize + 1,
+  });
+
+  const hasNext = rows.length > pageSize;
+  const pageRows = hasNext ? rows.slice(0, pageSize) : rows;
+  const lastRow = pageRows[pageRows.length - 1];
+
+  return {
+    rows: pageRows,
+    pagination: {
+      limit: pageSize,
+      nextCursor: hasNext && lastRow ? encodeCursor(keys, keys.map(key => readKeyValue(lastRow, key))) : null,
+      hasNext,
+    },
+  };
+}
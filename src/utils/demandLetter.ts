@@ -0,0 +1,141 @@
+import PDFDocument from 'pdfkit';
+
+export interface DemandLetterData {
+  reference: string;
+  issuedOn: string;
+  builder: {
+    name: string;
+    email: string;
+    phone?: string | null;
+  };
+  buyer: {
+    name: string;
+    email: string;
+  };
+  project: {
+    name: string;
+    address: string;
+    city: string;
+    state: string;
+    pincode: string;
+    reraNumber?: string | null;
+  };
+  unit: {
+    unitNumber: string;
+    unitType: string;
+    tower?: string | null;
+    floorNumber: number;
+    areaSqft: number;
+  };
+  installment: {
+    sequence: number;
+    name: string;
+    percent: number;
+    amount: number;
+    paidAmount: number;
+    dueDate: string;
+  };
+  schedule: {
+    planName: string;
+    totalAmount: number;
+    paidAmount: number;
+    // Unpaid amounts of earlier installments that are past their due date
+    overdueAmount: number;
+  };
+}
+
+// The standard PDF fonts have no rupee sign
+const formatAmount = (amount: number): string =>
+  `Rs. ${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: string): string =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-IN', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+/**
+ * Render the demand letter for one installment as a PDF
+ */
+export function renderDemandLetter(data: DemandLetterData): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 50 });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const { builder, buyer, project, unit, installment, schedule } = data;
+    const dueNow = Math.max(0, installment.amount - installment.paidAmount);
+
+    // Letterhead
+    doc.font('Helvetica-Bold').fontSize(16).text(builder.name);
+    doc.font('Helvetica').fontSize(9).fillColor('#555555')
+      .text([builder.email, builder.phone].filter(Boolean).join('  |  '));
+    doc.moveDown(1.5).fillColor('#000000');
+
+    doc.fontSize(10)
+      .text(`Ref: ${data.reference}`)
+      .text(`Date: ${formatDate(data.issuedOn)}`);
+    doc.moveDown();
+
+    doc.text('To,')
+      .font('Helvetica-Bold').text(buyer.name)
+      .font('Helvetica').text(buyer.email);
+    doc.moveDown();
+
+    doc.font('Helvetica-Bold').fontSize(12)
+      .text(`Demand for Installment ${installment.sequence}: ${installment.name}`, { underline: true });
+    doc.moveDown(0.5);
+
+    doc.font('Helvetica').fontSize(10).text(
+      `Project: ${project.name}, ${project.address}, ${project.city}, ${project.state} - ${project.pincode}` +
+      (project.reraNumber ? ` (RERA No. ${project.reraNumber})` : '')
+    );
+    doc.text(
+      `Unit: ${unit.tower ? `Tower ${unit.tower}, ` : ''}Unit ${unit.unitNumber}, ` +
+      `Floor ${unit.floorNumber}, ${unit.unitType}, ${unit.areaSqft.toLocaleString('en-IN')} sqft`
+    );
+    doc.moveDown();
+
+    doc.text(
+      `Dear ${buyer.name}, as per the "${schedule.planName}" payment plan for your unit, the installment ` +
+      `"${installment.name}" (${installment.percent}% of the unit price) is now due. We request you to ` +
+      `pay the amount below on or before ${formatDate(installment.dueDate)}.`
+    );
+    doc.moveDown();
+
+    // Amounts
+    const rows: Array<[string, string]> = [
+      ['Unit price', formatAmount(schedule.totalAmount)],
+      [`Installment ${installment.sequence} (${installment.percent}%)`, formatAmount(installment.amount)],
+      ['Already paid towards this installment', formatAmount(installment.paidAmount)],
+      ['Amount due for this installment', formatAmount(dueNow)],
+      ['Overdue from earlier installments', formatAmount(schedule.overdueAmount)],
+    ];
+
+    const labelX = doc.page.margins.left;
+    const valueX = doc.page.width - doc.page.margins.right - 150;
+    rows.forEach(([label, value]) => {
+      const y = doc.y;
+      doc.font('Helvetica').text(label, labelX, y);
+      doc.text(value, valueX, y, { width: 150, align: 'right' });
+      doc.moveDown(0.3);
+    });
+
+    doc.moveDown(0.5);
+    const totalY = doc.y;
+    doc.font('Helvetica-Bold').text('Total payable', labelX, totalY);
+    doc.text(formatAmount(dueNow + schedule.overdueAmount), valueX, totalY, { width: 150, align: 'right' });
+    doc.moveDown();
+
+    doc.font('Helvetica').fontSize(9).fillColor('#555555')
+      .text(`Paid to date: ${formatAmount(schedule.paidAmount)} of ${formatAmount(schedule.totalAmount)}`, labelX);
+    doc.moveDown(1.5).fillColor('#000000').fontSize(10);
+
+    doc.text(`Please quote the reference ${data.reference} with your payment. Ignore this letter if you have already paid.`);
+    doc.moveDown(2);
+    doc.text('Yours sincerely,');
+    doc.font('Helvetica-Bold').text(builder.name);
+
+    doc.end();
+  });
+}
@@ -0,0 +1,204 @@
+import { haversineDistanceKm } from './geoUtils';
+import type { DuplicateSignals } from '../models/PropertyDuplicateFlag';
+
+/**
+ * The listing fields duplicate detection compares
+ */
+export interface DuplicateCandidate {
+  address: string;
+  city: string;
+  postalCode?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  price: number;
+  areaSqft?: number | null;
+  bedrooms?: number | null;
+  imageHashes?: string[];
+}
+
+// Relative weight of each signal; missing signals are left out and the rest re-weighted
+const SIGNAL_WEIGHTS: Record<keyof Omit<DuplicateSignals, 'distanceMeters'>, number> = {
+  address: 0.3,
+  distance: 0.2,
+  price: 0.2,
+  area: 0.15,
+  image: 0.15,
+};
+
+// Listings this close together are treated as the same spot; similarity falls to 0 at the far limit
+const SAME_SPOT_METERS = 50;
+const MAX_DISTANCE_METERS = 1000;
+
+// Relative difference at which price and area similarity reach 0
+const MAX_PRICE_DIFFERENCE = 0.2;
+const MAX_AREA_DIFFERENCE = 0.15;
+
+// Hamming distance (of 64 bits) at which two image hashes stop counting as the same photo
+export const MAX_IMAGE_HASH_DISTANCE = 12;
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  rd: 'road',
+  st: 'street',
+  ave: 'avenue',
+  apt: 'apartment',
+  apts: 'apartments',
+  bldg: 'building',
+  flr: 'floor',
+  fl: 'floor',
+  no: 'number',
+  opp: 'opposite',
+  nr: 'near',
+  sec: 'sector',
+  ph: 'phase',
+  blk: 'block',
+};
+
+/**
+ * Lower-cased address words with punctuation removed and common abbreviations expanded
+ * (e.g. "Flat 4B, M.G. Rd." becomes "flat 4b m g road")
+ */
+export function normalizeAddress(address: string): string {
+  return address
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean)
+    .map(word => ADDRESS_ABBREVIATIONS[word] || word)
+    .join(' ');
+}
+
+const bigrams = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  const compact = text.replace(/ /g, '');
+  for (let i = 0; i < compact.length - 1; i++) {
+    const pair = compact.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) || 0) + 1);
+  }
+  return counts;
+};
+
+/**
+ * Sørensen–Dice coefficient over character bigrams of the normalized addresses
+ */
+export function addressSimilarity(a: string, b: string): number {
+  const left = normalizeAddress(a);
+  const right = normalizeAddress(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftPairs = bigrams(left);
+  const rightPairs = bigrams(right);
+  let overlap = 0;
+  let total = 0;
+
+  leftPairs.forEach((count, pair) => {
+    overlap += Math.min(count, rightPairs.get(pair) || 0);
+    total += count;
+  });
+  rightPairs.forEach(count => {
+    total += count;
+  });
+
+  return total === 0 ? 0 : (2 * overlap) / total;
+}
+
+const relativeSimilarity = (a: number, b: number, maxDifference: number): number => {
+  const larger = Math.max(Math.abs(a), Math.abs(b));
+  if (larger === 0) return 1;
+  const difference = Math.abs(a - b) / larger;
+  return Math.max(0, 1 - difference / maxDifference);
+};
+
+/**
+ * Number of differing bits between two 64-bit hex hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let bits = 0;
+  while (diff > BigInt(0)) {
+    bits += Number(diff & BigInt(1));
+    diff >>= BigInt(1);
+  }
+  return bits;
+}
+
+/**
+ * Similarity of the closest pair of photos between two listings
+ */
+export function imageSimilarity(a: string[], b: string[]): number | null {
+  if (a.length === 0 || b.length === 0) return null;
+
+  let closest = 64;
+  for (const left of a) {
+    for (const right of b) {
+      closest = Math.min(closest, hammingDistance(left, right));
+    }
+  }
+
+  return Math.max(0, 1 - closest / MAX_IMAGE_HASH_DISTANCE);
+}
+
+const round = (value: number | null): number | null => (value === null ? null : Math.round(value * 1000) / 1000);
+
+const hasCoordinates = (candidate: DuplicateCandidate): boolean =>
+  candidate.latitude !== null && candidate.latitude !== undefined &&
+  candidate.longitude !== null && candidate.longitude !== undefined;
+
+/**
+ * Compare two listings signal by signal
+ */
+export function compareListings(a: DuplicateCandidate, b: DuplicateCandidate): DuplicateSignals {
+  let address = addressSimilarity(`${a.address} ${a.city}`, `${b.address} ${b.city}`);
+  // Different postal codes mean different places however alike the street names are
+  if (a.postalCode && b.postalCode && a.postalCode.replace(/\s/g, '') !== b.postalCode.replace(/\s/g, '')) {
+    address = Math.min(address, 0.5);
+  }
+
+  let distance: number | null = null;
+  let distanceMeters: number | null = null;
+  if (hasCoordinates(a) && hasCoordinates(b)) {
+    distanceMeters = haversineDistanceKm(
+      { latitude: Number(a.latitude), longitude: Number(a.longitude) },
+      { latitude: Number(b.latitude), longitude: Number(b.longitude) }
+    ) * 1000;
+    distance = distanceMeters <= SAME_SPOT_METERS
+      ? 1
+      : Math.max(0, 1 - (distanceMeters - SAME_SPOT_METERS) / (MAX_DISTANCE_METERS - SAME_SPOT_METERS));
+  }
+
+  const area = a.areaSqft && b.areaSqft ? relativeSimilarity(Number(a.areaSqft), Number(b.areaSqft), MAX_AREA_DIFFERENCE) : null;
+
+  return {
+    address: round(address),
+    distance: round(distance),
+    price: round(relativeSimilarity(Number(a.price), Number(b.price), MAX_PRICE_DIFFERENCE)),
+    area: round(area),
+    image: round(imageSimilarity(a.imageHashes || [], b.imageHashes || [])),
+    distanceMeters: distanceMeters === null ? null : Math.round(distanceMeters),
+  };
+}
+
+/**
+ * Weighted similarity from 0 to 1. A different bedroom count halves the score, since
+ * flats in the same building at similar prices are usually distinct units.
+ */
+export function scoreDuplicate(signals: DuplicateSignals, a?: DuplicateCandidate, b?: DuplicateCandidate): number {
+  let weighted = 0;
+  let totalWeight = 0;
+
+  (Object.keys(SIGNAL_WEIGHTS) as Array<keyof typeof SIGNAL_WEIGHTS>).forEach(signal => {
+    const value = signals[signal];
+    if (value !== null && value !== undefined) {
+      weighted += value * SIGNAL_WEIGHTS[signal];
+      totalWeight += SIGNAL_WEIGHTS[signal];
+    }
+  });
+
+  let score = totalWeight === 0 ? 0 : weighted / totalWeight;
+  if (a?.bedrooms && b?.bedrooms && Number(a.bedrooms) !== Number(b.bedrooms)) {
+    score *= 0.5;
+  }
+
+  return Math.round(score * 1000) / 1000;
+}
@@ -16,6 +16,7 @@ export interface SuccessResponse {
   warning?: {
     code: string;
     message: string;
+    details?: any;
   };
   timestamp: string;
 }
@@ -0,0 +1,246 @@
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LATITUDE = 111.045;
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface BoundingBox {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+}
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points in kilometers (Haversine formula)
+ */
+export function haversineDistanceKm(from: GeoPoint, to: GeoPoint): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLng / 2) * Math.sin(dLng / 2);
+
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Bounding box that fully contains a circle of the given radius.
+ * Used as a cheap, index-friendly pre-filter before the exact distance check.
+ */
+export function getBoundingBox(center: GeoPoint, radiusKm: number): BoundingBox {
+  const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+  const cosLat = Math.cos(toRadians(center.latitude));
+  // Near the poles a degree of longitude shrinks to nothing; fall back to the full range
+  const lngDelta = cosLat > 0.00001 ? radiusKm / (KM_PER_DEGREE_LATITUDE * cosLat) : 180;
+
+  return {
+    minLatitude: Math.max(center.latitude - latDelta, -90),
+    maxLatitude: Math.min(center.latitude + latDelta, 90),
+    minLongitude: Math.max(center.longitude - lngDelta, -180),
+    maxLongitude: Math.min(center.longitude + lngDelta, 180),
+  };
+}
+
+/**
+ * MySQL expression computing the great-circle distance (km, 2 decimals)
+ * between a fixed point and the latitude/longitude columns of a table alias.
+ */
+export function distanceSql(center: GeoPoint, tableAlias: string = 'Property'): string {
+  const lat = Number(center.latitude);
+  const lng = Number(center.longitude);
+
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) {
+    throw new Error('Invalid coordinates');
+  }
+
+  const latColumn = `\`${tableAlias}\`.\`latitude\``;
+  const lngColumn = `\`${tableAlias}\`.\`longitude\``;
+
+  return `ROUND(${EARTH_RADIUS_KM} * ACOS(LEAST(1, GREATEST(-1, ` +
+    `COS(RADIANS(${lat})) * COS(RADIANS(${latColumn})) * COS(RADIANS(${lngColumn}) - RADIANS(${lng})) + ` +
+    `SIN(RADIANS(${lat})) * SIN(RADIANS(${latColumn}))` +
+    '))), 2)';
+}
+
+
+/** Linear ring of [longitude, latitude] positions (GeoJSON axis order) */
+export type GeoRing = [number, number][];
+
+/** Outer ring followed by optional holes */
+export type GeoPolygon = GeoRing[];
+
+export const MAX_SEARCH_POLYGONS = 10;
+export const MAX_POLYGON_VERTICES = 500;
+
+const isValidPosition = (position: unknown): position is [number, number] =>
+  Array.isArray(position) &&
+  position.length >= 2 &&
+  typeof position[0] === 'number' &&
+  typeof position[1] === 'number' &&
+  Number.isFinite(position[0]) &&
+  Number.isFinite(position[1]) &&
+  position[0] >= -180 && position[0] <= 180 &&
+  position[1] >= -90 && position[1] <= 90;
+
+function normalizeRing(ring: unknown): GeoRing {
+  if (!Array.isArray(ring) || !ring.every(isValidPosition)) {
+    throw new Error('Invalid polygon: ring positions must be [longitude, latitude] pairs');
+  }
+
+  const positions: GeoRing = ring.map(position => [position[0], position[1]]);
+  const [firstLng, firstLat] = positions[0] || [];
+  const [lastLng, lastLat] = positions[positions.length - 1] || [];
+
+  // Close the ring if the client sent the vertices only
+  if (positions.length > 0 && (firstLng !== lastLng || firstLat !== lastLat)) {
+    positions.push([firstLng, firstLat]);
+  }
+
+  if (positions.length < 4) {
+    throw new Error('Invalid polygon: a ring needs at least 3 distinct vertices');
+  }
+
+  if (positions.length > MAX_POLYGON_VERTICES) {
+    throw new Error(`Invalid polygon: a ring may have at most ${MAX_POLYGON_VERTICES} vertices`);
+  }
+
+  return positions;
+}
+
+function normalizePolygon(coordinates: unknown): GeoPolygon {
+  if (!Array.isArray(coordinates) || coordinates.length === 0) {
+    throw new Error('Invalid polygon: coordinates must be a non-empty array of rings');
+  }
+
+  return coordinates.map(normalizeRing);
+}
+
+/**
+ * Normalize GeoJSON input into a list of polygons.
+ * Accepts a Polygon, MultiPolygon, Feature, FeatureCollection, a list of any of those,
+ * or polygons already in the normalized ring format.
+ */
+export function parseGeoPolygons(input: unknown): GeoPolygon[] {
+  const polygons: GeoPolygon[] = [];
+
+  const collect = (value: any): void => {
+    if (!value || typeof value !== 'object') {
+      throw new Error('Invalid polygon: expected GeoJSON geometry');
+    }
+
+    if (Array.isArray(value)) {
+      // A list of geometries, or polygons already in the normalized format: a list of
+      // polygons (positions three arrays deep) or a single polygon (two arrays deep)
+      if (Array.isArray(value[0]?.[0]?.[0])) {
+        value.forEach((polygon: unknown) => polygons.push(normalizePolygon(polygon)));
+      } else if (Array.isArray(value[0]?.[0])) {
+        polygons.push(normalizePolygon(value));
+      } else {
+        value.forEach(collect);
+      }
+      return;
+    }
+
+    switch (value.type) {
+      case 'Polygon':
+        polygons.push(normalizePolygon(value.coordinates));
+        break;
+      case 'MultiPolygon':
+        if (!Array.isArray(value.coordinates)) {
+          throw new Error('Invalid polygon: MultiPolygon coordinates must be an array');
+        }
+        value.coordinates.forEach((coordinates: unknown) => polygons.push(normalizePolygon(coordinates)));
+        break;
+      case 'Feature':
+        collect(value.geometry);
+        break;
+      case 'FeatureCollection':
+        if (!Array.isArray(value.features)) {
+          throw new Error('Invalid polygon: FeatureCollection features must be an array');
+        }
+        value.features.forEach(collect);
+        break;
+      default:
+        throw new Error(`Invalid polygon: unsupported geometry type "${value.type}"`);
+    }
+  };
+
+  collect(input);
+
+  if (polygons.length === 0) {
+    throw new Error('Invalid polygon: no polygons provided');
+  }
+
+  if (polygons.length > MAX_SEARCH_POLYGONS) {
+    throw new Error(`Invalid polygon: at most ${MAX_SEARCH_POLYGONS} polygons are allowed`);
+  }
+
+  return polygons;
+}
+
+function isPointInRing(point: GeoPoint, ring: GeoRing): boolean {
+  let inside = false;
+
+  // Ray casting: count edge crossings of a ray heading east from the point
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lngI, latI] = ring[i];
+    const [lngJ, latJ] = ring[j];
+
+    const crosses = (latI > point.latitude) !== (latJ > point.latitude) &&
+      point.longitude < ((lngJ - lngI) * (point.latitude - latI)) / (latJ - latI) + lngI;
+
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Whether a point lies inside any of the polygons (holes excluded)
+ */
+export function isPointInPolygons(point: GeoPoint, polygons: GeoPolygon[]): boolean {
+  return polygons.some(([outer, ...holes]) =>
+    isPointInRing(point, outer) && !holes.some(hole => isPointInRing(point, hole))
+  );
+}
+
+/**
+ * Smallest bounding box containing every polygon's outer ring
+ */
+export function getPolygonsBoundingBox(polygons: GeoPolygon[]): BoundingBox {
+  const positions = polygons.flatMap(([outer]) => outer);
+
+  return {
+    minLatitude: Math.min(...positions.map(([, lat]) => lat)),
+    maxLatitude: Math.max(...positions.map(([, lat]) => lat)),
+    minLongitude: Math.min(...positions.map(([lng]) => lng)),
+    maxLongitude: Math.max(...positions.map(([lng]) => lng)),
+  };
+}
+
+const ringToWkt = (ring: GeoRing): string =>
+  `(${ring.map(([lng, lat]) => `${Number(lng)} ${Number(lat)}`).join(', ')})`;
+
+/**
+ * MySQL condition matching rows whose latitude/longitude fall inside any polygon.
+ * Positions are validated numbers, so the WKT can be inlined safely.
+ */
+export function polygonsSql(polygons: GeoPolygon[], tableAlias: string = 'Property'): string {
+  const point = `POINT(\`${tableAlias}\`.\`longitude\`, \`${tableAlias}\`.\`latitude\`)`;
+
+  const conditions = polygons.map(polygon =>
+    `ST_Contains(ST_GeomFromText('POLYGON(${polygon.map(ringToWkt).join(', ')})'), ${point})`
+  );
+
+  return `(${conditions.join(' OR ')})`;
+}
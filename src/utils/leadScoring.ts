@@ -0,0 +1,252 @@
+/**
+ * What is known about an inquirer and the listing they asked about
+ */
+export interface LeadSignals {
+  // null when the inquiry was made without signing in
+  emailVerified: boolean | null;
+  phone?: string | null;
+  // Distinct listings the inquirer has viewed recently
+  listingsViewed: number;
+  savedThisListing: boolean;
+  otherListingsSaved: number;
+  message: string;
+  // From the message, or failing that the inquirer's saved searches
+  budget: PriceRange | null;
+  // A property's price, or the spread of a project's available units
+  listingPrice: PriceRange | null;
+  // How many times the inquirer opened this listing
+  listingViews: number;
+  // Inquiries made before this one with the same email
+  earlierInquiries: number;
+  siteVisitBooked: boolean;
+}
+
+export interface PriceRange {
+  min: number | null;
+  max: number | null;
+}
+
+export interface LeadScoreFactor {
+  key: string;
+  label: string;
+  points: number;
+  max_points: number;
+  detail: string;
+}
+
+export interface LeadScore {
+  score: number;
+  factors: LeadScoreFactor[];
+}
+
+// Points each factor can earn; they add up to 100
+const FACTOR_POINTS = {
+  verified_email: 15,
+  phone: 10,
+  browsing: 10,
+  saved: 10,
+  message: 15,
+  budget_fit: 20,
+  repeat_visits: 10,
+  site_visit: 10,
+};
+
+// Phrases that show the inquirer is close to buying
+const INTENT_KEYWORDS = [
+  'site visit',
+  'visit',
+  'home loan',
+  'loan',
+  'emi',
+  'down payment',
+  'token',
+  'booking',
+  'ready to move',
+  'possession',
+  'immediately',
+  'urgent',
+  'best price',
+  'final price',
+  'negotiable',
+  'registration',
+];
+
+// Message lengths that earn points on top of keywords
+const DETAILED_MESSAGE_LENGTH = 150;
+const SHORT_MESSAGE_LENGTH = 60;
+
+// How far over budget a listing still earns partial credit
+const OVER_BUDGET_TOLERANCE = 0.15;
+
+const UNIT_MULTIPLIERS: Record<string, number> = {
+  k: 1000,
+  thousand: 1000,
+  l: 100000,
+  lac: 100000,
+  lacs: 100000,
+  lakh: 100000,
+  lakhs: 100000,
+  cr: 10000000,
+  crore: 10000000,
+  crores: 10000000,
+};
+
+// An amount needs a currency marker or a unit, so "3 BHK" or "2nd floor" are not read as a budget
+const AMOUNT_PATTERN = /(₹|rs\.?|inr)?\s*(\d+(?:,\d+)*(?:\.\d+)?)\s*(crores?|cr|lakhs?|lacs?|l|thousand|k)?\b/gi;
+
+/**
+ * The budget an inquirer states in their message, e.g. "around 80 lakh" or "₹1-1.2 cr"
+ *
+ * One amount is taken as the most they will spend, two as a range. A unit after the
+ * second amount of a range also applies to the first.
+ */
+export function parseBudget(message: string): PriceRange | null {
+  const amounts: Array<{ value: number; unit?: string; hasCurrency: boolean }> = [];
+
+  for (const match of message.matchAll(AMOUNT_PATTERN)) {
+    const [, currency, digits, unit] = match;
+    amounts.push({
+      value: parseFloat(digits.replace(/,/g, '')),
+      unit: unit?.toLowerCase(),
+      hasCurrency: !!currency,
+    });
+  }
+
+  const values: number[] = [];
+  amounts.forEach((amount, index) => {
+    const next = amounts[index + 1];
+    const unit = amount.unit ?? (next && !next.hasCurrency ? next.unit : undefined);
+
+    if (unit) {
+      values.push(amount.value * UNIT_MULTIPLIERS[unit]);
+    } else if (amount.hasCurrency && amount.value >= 100000) {
+      values.push(amount.value);
+    }
+  });
+
+  if (values.length === 0) return null;
+  if (values.length === 1) return { min: null, max: values[0] };
+
+  const [first, second] = values;
+  return { min: Math.min(first, second), max: Math.max(first, second) };
+}
+
+const formatAmount = (amount: number): string => {
+  if (amount >= 10000000) return `₹${+(amount / 10000000).toFixed(2)} Cr`;
+  if (amount >= 100000) return `₹${+(amount / 100000).toFixed(2)} L`;
+  return `₹${amount.toLocaleString('en-IN')}`;
+};
+
+const factor = (key: keyof typeof FACTOR_POINTS, label: string, points: number, detail: string): LeadScoreFactor => ({
+  key,
+  label,
+  points: Math.min(FACTOR_POINTS[key], Math.round(points)),
+  max_points: FACTOR_POINTS[key],
+  detail,
+});
+
+function scoreBudgetFit(budget: PriceRange | null, listingPrice: PriceRange | null): LeadScoreFactor {
+  const label = 'Budget fit';
+  if (!budget) {
+    return factor('budget_fit', label, 0, 'No budget given');
+  }
+  if (!listingPrice || (listingPrice.min === null && listingPrice.max === null)) {
+    return factor('budget_fit', label, 0, 'Listing has no price to compare');
+  }
+
+  const lowestPrice = listingPrice.min ?? listingPrice.max!;
+  const highestPrice = listingPrice.max ?? listingPrice.min!;
+  const budgetMin = budget.min ?? 0;
+  const budgetMax = budget.max ?? Infinity;
+
+  if (lowestPrice <= budgetMax && highestPrice >= budgetMin) {
+    return factor('budget_fit', label, FACTOR_POINTS.budget_fit, 'Price is within budget');
+  }
+  if (highestPrice < budgetMin) {
+    return factor('budget_fit', label, 15, 'Price is below budget');
+  }
+  if (lowestPrice <= budgetMax * (1 + OVER_BUDGET_TOLERANCE)) {
+    return factor('budget_fit', label, 10, `Price is slightly over a budget of ${formatAmount(budgetMax)}`);
+  }
+  return factor('budget_fit', label, 0, `Price is well over a budget of ${formatAmount(budgetMax)}`);
+}
+
+function scoreMessage(message: string): LeadScoreFactor {
+  const text = message.toLowerCase();
+  const length = text.trim().length;
+  // "site visit" also contains "visit"; count the longer phrase only
+  const keywords = INTENT_KEYWORDS.filter(keyword =>
+    new RegExp(`\\b${keyword}\\b`).test(text) &&
+    !INTENT_KEYWORDS.some(other => other !== keyword && other.includes(keyword) && text.includes(other))
+  );
+
+  const lengthPoints = length >= DETAILED_MESSAGE_LENGTH ? 5 : length >= SHORT_MESSAGE_LENGTH ? 3 : 0;
+  const keywordPoints = Math.min(10, keywords.length * 2);
+
+  const detail = keywords.length > 0
+    ? `${length} characters; mentions ${keywords.join(', ')}`
+    : `${length} characters; no buying intent keywords`;
+  return factor('message', 'Message', lengthPoints + keywordPoints, detail);
+}
+
+/**
+ * Score a lead from 0 to 100, with the points each factor contributed
+ */
+export function scoreLead(signals: LeadSignals): LeadScore {
+  const phoneDigits = (signals.phone || '').replace(/\D/g, '');
+  const validPhone = /^[6-9]\d{9}$/.test(phoneDigits.slice(-10));
+
+  const savedPoints = (signals.savedThisListing ? 6 : 0) + Math.min(4, signals.otherListingsSaved);
+  const repeatPoints = (signals.listingViews >= 3 ? 10 : signals.listingViews === 2 ? 5 : 0) +
+    (signals.earlierInquiries > 0 ? 5 : 0);
+
+  const factors: LeadScoreFactor[] = [
+    factor(
+      'verified_email',
+      'Verified email',
+      signals.emailVerified ? FACTOR_POINTS.verified_email : signals.emailVerified === false ? 5 : 0,
+      signals.emailVerified
+        ? 'Signed in with a verified email'
+        : signals.emailVerified === false ? 'Signed in, email not verified' : 'Not signed in'
+    ),
+    factor(
+      'phone',
+      'Phone number',
+      validPhone ? FACTOR_POINTS.phone : 0,
+      validPhone ? 'Valid mobile number given' : 'No valid mobile number'
+    ),
+    factor(
+      'browsing',
+      'Listings viewed',
+      signals.listingsViewed,
+      `Viewed ${signals.listingsViewed} listing${signals.listingsViewed === 1 ? '' : 's'}`
+    ),
+    factor(
+      'saved',
+      'Saved listings',
+      savedPoints,
+      `${signals.savedThisListing ? 'Saved this listing' : 'Has not saved this listing'}; ` +
+        `${signals.otherListingsSaved} other${signals.otherListingsSaved === 1 ? '' : 's'} saved`
+    ),
+    scoreMessage(signals.message),
+    scoreBudgetFit(signals.budget, signals.listingPrice),
+    factor(
+      'repeat_visits',
+      'Repeat visits',
+      repeatPoints,
+      `Opened this listing ${signals.listingViews} time${signals.listingViews === 1 ? '' : 's'}` +
+        (signals.earlierInquiries > 0 ? `; ${signals.earlierInquiries} earlier inquir${signals.earlierInquiries === 1 ? 'y' : 'ies'}` : '')
+    ),
+    factor(
+      'site_visit',
+      'Site visit',
+      signals.siteVisitBooked ? FACTOR_POINTS.site_visit : 0,
+      signals.siteVisitBooked ? 'Site visit booked' : 'No site visit booked'
+    ),
+  ];
+
+  return {
+    score: factors.reduce((sum, f) => sum + f.points, 0),
+    factors,
+  };
+}
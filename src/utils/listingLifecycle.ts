@@ -0,0 +1,96 @@
+import { ListingState } from '../models/Property';
+
+export type ListingAction =
+  | 'submit'
+  | 'withdraw'
+  | 'start_review'
+  | 'approve'
+  | 'reject'
+  | 'publish'
+  | 'schedule'
+  | 'unschedule'
+  | 'archive'
+  | 'restore';
+
+export type LifecycleActor = 'owner' | 'admin' | 'system';
+
+export interface ListingTransition {
+  from: ListingState[];
+  to: ListingState;
+  actors: LifecycleActor[];
+  requiresReason?: boolean;
+  requiresPublishAt?: boolean;
+}
+
+/**
+ * Every allowed state change. Listings go live only after an admin approves them;
+ * an archived listing has to go through review again before it is relisted.
+ */
+export const LISTING_TRANSITIONS: Record<ListingAction, ListingTransition> = {
+  submit: {
+    from: [ListingState.DRAFT, ListingState.REJECTED],
+    to: ListingState.SUBMITTED,
+    actors: ['owner'],
+  },
+  withdraw: {
+    from: [ListingState.SUBMITTED, ListingState.UNDER_REVIEW],
+    to: ListingState.DRAFT,
+    actors: ['owner'],
+  },
+  start_review: {
+    from: [ListingState.SUBMITTED],
+    to: ListingState.UNDER_REVIEW,
+    actors: ['admin'],
+  },
+  approve: {
+    from: [ListingState.SUBMITTED, ListingState.UNDER_REVIEW],
+    to: ListingState.APPROVED,
+    actors: ['admin'],
+  },
+  reject: {
+    from: [ListingState.SUBMITTED, ListingState.UNDER_REVIEW],
+    to: ListingState.REJECTED,
+    actors: ['admin'],
+    requiresReason: true,
+  },
+  publish: {
+    from: [ListingState.APPROVED, ListingState.SCHEDULED],
+    to: ListingState.PUBLISHED,
+    actors: ['owner', 'admin', 'system'],
+  },
+  schedule: {
+    from: [ListingState.APPROVED, ListingState.SCHEDULED],
+    to: ListingState.SCHEDULED,
+    actors: ['owner', 'admin'],
+    requiresPublishAt: true,
+  },
+  unschedule: {
+    from: [ListingState.SCHEDULED],
+    to: ListingState.APPROVED,
+    actors: ['owner', 'admin'],
+  },
+  archive: {
+    from: [ListingState.DRAFT, ListingState.REJECTED, ListingState.APPROVED, ListingState.SCHEDULED, ListingState.PUBLISHED],
+    to: ListingState.ARCHIVED,
+    actors: ['owner', 'admin', 'system'],
+  },
+  restore: {
+    from: [ListingState.ARCHIVED],
+    to: ListingState.DRAFT,
+    actors: ['owner', 'admin'],
+  },
+};
+
+export const LISTING_ACTIONS = Object.keys(LISTING_TRANSITIONS) as ListingAction[];
+
+export function canTransition(state: ListingState, action: ListingAction, actors: LifecycleActor[]): boolean {
+  const transition = LISTING_TRANSITIONS[action];
+  return transition.from.includes(state) && transition.actors.some(actor => actors.includes(actor));
+}
+
+/**
+ * Actions the given actors may take on a listing in this state
+ */
+export function getAvailableActions(state: ListingState, actors: LifecycleActor[]): ListingAction[] {
+  return LISTING_ACTIONS.filter(action => canTransition(state, action, actors));
+}
@@ -0,0 +1,103 @@
+import type { PaymentPlanStage } from '../models/ProjectPaymentPlan';
+
+export type InstallmentStatus = 'pending' | 'partially_paid' | 'paid' | 'overdue';
+
+export interface GeneratedInstallment {
+  sequence: number;
+  name: string;
+  percent: number;
+  amount: number;
+  due_date: string;
+}
+
+/**
+ * The installment fields status and totals depend on
+ */
+export interface InstallmentSource {
+  amount: number | string;
+  paid_amount: number | string;
+  due_date: string;
+}
+
+export interface ScheduleSummary {
+  total_amount: number;
+  paid_amount: number;
+  outstanding_amount: number;
+  overdue_amount: number;
+  overdue_installments: number;
+  next_due_date: string | null;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Today's date as YYYY-MM-DD, the format DATEONLY columns are read and compared in
+ */
+export function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * A YYYY-MM-DD date moved forward by a number of days
+ */
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+/**
+ * Dated installments for a plan applied to a unit. Each stage's amount is rounded to the paisa
+ * and the last stage takes the rounding difference, so installments always add up to the total.
+ */
+export function buildInstallments(totalAmount: number, bookingDate: string, stages: PaymentPlanStage[]): GeneratedInstallment[] {
+  let allocated = 0;
+
+  return stages.map((stage, index) => {
+    const isLast = index === stages.length - 1;
+    const amount = isLast ? round2(totalAmount - allocated) : round2((totalAmount * stage.percent) / 100);
+    allocated = round2(allocated + amount);
+
+    return {
+      sequence: index + 1,
+      name: stage.name,
+      percent: stage.percent,
+      amount,
+      due_date: addDays(bookingDate, stage.due_after_days),
+    };
+  });
+}
+
+/**
+ * What is left to pay on an installment
+ */
+export function outstandingAmount(installment: InstallmentSource): number {
+  return Math.max(0, round2(Number(installment.amount) - Number(installment.paid_amount)));
+}
+
+/**
+ * Paid in full, or overdue once the due date has passed, whatever was paid towards it
+ */
+export function installmentStatus(installment: InstallmentSource, asOf: string = today()): InstallmentStatus {
+  if (outstandingAmount(installment) === 0) return 'paid';
+  if (installment.due_date < asOf) return 'overdue';
+  return Number(installment.paid_amount) > 0 ? 'partially_paid' : 'pending';
+}
+
+/**
+ * Paid, outstanding and overdue totals across a schedule's installments
+ */
+export function summarizeInstallments(installments: InstallmentSource[], asOf: string = today()): ScheduleSummary {
+  const unpaid = installments.filter(installment => outstandingAmount(installment) > 0);
+  const overdue = unpaid.filter(installment => installment.due_date < asOf);
+  const upcoming = unpaid.filter(installment => installment.due_date >= asOf).map(installment => installment.due_date).sort();
+
+  return {
+    total_amount: round2(installments.reduce((sum, installment) => sum + Number(installment.amount), 0)),
+    paid_amount: round2(installments.reduce((sum, installment) => sum + Number(installment.paid_amount), 0)),
+    outstanding_amount: round2(unpaid.reduce((sum, installment) => sum + outstandingAmount(installment), 0)),
+    overdue_amount: round2(overdue.reduce((sum, installment) => sum + outstandingAmount(installment), 0)),
+    overdue_installments: overdue.length,
+    next_due_date: upcoming[0] || null,
+  };
+}
@@ -0,0 +1,79 @@
+import path from 'path';
+import { Canvas, DOMMatrix, ImageData, Path2D, createCanvas } from '@napi-rs/canvas';
+
+type PdfJs = typeof import('pdfjs-dist/legacy/build/pdf');
+
+// Fonts PDFs may use without embedding them, shipped with pdf.js
+const STANDARD_FONT_DATA_URL = path.join(path.dirname(require.resolve('pdfjs-dist/package.json')), 'standard_fonts') + path.sep;
+
+let pdfjs: PdfJs | null = null;
+
+/**
+ * pdf.js fills in the browser globals it draws with from the native `canvas` package when it loads,
+ * so the ones from @napi-rs/canvas are put in place first
+ */
+const loadPdfJs = (): PdfJs => {
+  if (!pdfjs) {
+    const globals = globalThis as Record<string, unknown>;
+    globals.DOMMatrix ??= DOMMatrix;
+    globals.ImageData ??= ImageData;
+    globals.Path2D ??= Path2D;
+    pdfjs = require('pdfjs-dist/legacy/build/pdf') as PdfJs;
+  }
+  return pdfjs;
+};
+
+// pdf.js draws on canvases from this factory, since the one it ships with also needs `canvas`
+class CanvasFactory {
+  create(width: number, height: number) {
+    const canvas = createCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  }
+
+  reset(canvasAndContext: { canvas: Canvas }, width: number, height: number): void {
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: { canvas: Canvas | null; context: unknown }): void {
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+/**
+ * The first page of a PDF as a PNG of the given width, or null when the PDF can't be read
+ */
+export async function renderPdfFirstPage(buffer: Buffer, width: number): Promise<Buffer | null> {
+  const canvasFactory = new CanvasFactory();
+  const loadingTask = loadPdfJs().getDocument({
+    // pdf.js takes ownership of the data it is given, so it gets a copy
+    data: new Uint8Array(buffer),
+    canvasFactory,
+    standardFontDataUrl: STANDARD_FONT_DATA_URL,
+    isEvalSupported: false,
+    disableFontFace: true,
+    verbosity: 0,
+  });
+
+  try {
+    const document = await loadingTask.promise;
+    const page = await document.getPage(1);
+    const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+
+    const { canvas, context } = canvasFactory.create(Math.round(viewport.width), Math.round(viewport.height));
+    await page.render({
+      canvasContext: context as unknown as Parameters<typeof page.render>[0]['canvasContext'],
+      viewport,
+      // Pages without a background would otherwise come out transparent, and black once saved as JPEG
+      background: '#ffffff',
+    }).promise;
+
+    return canvas.toBuffer('image/png');
+  } catch (error) {
+    console.warn('PDF first page render failed:', error);
+    return null;
+  } finally {
+    await loadingTask.destroy();
+  }
+}
@@ -0,0 +1,39 @@
+import { EventEmitter } from 'events';
+import { ListingType } from '../models/Property';
+
+export interface PriceDropEvent {
+  propertyId: number;
+  listingType: ListingType;
+  previousPrice: number;
+  price: number;
+  dropAmount: number;
+  dropPercent: number;
+  changedAt: Date;
+}
+
+type PriceDropListener = (event: PriceDropEvent) => unknown;
+
+const PRICE_DROPPED = 'property:price_dropped';
+
+/**
+ * In-process bus for property lifecycle events. Listeners run after the change is saved
+ * and their failures are logged, never propagated back to the request that caused them.
+ */
+class PropertyEvents extends EventEmitter {
+  emitPriceDrop(event: PriceDropEvent): void {
+    this.emit(PRICE_DROPPED, event);
+  }
+
+  onPriceDrop(listener: PriceDropListener): () => void {
+    const handler = (event: PriceDropEvent) => {
+      Promise.resolve()
+        .then(() => listener(event))
+        .catch(error => console.error('Price drop listener failed:', error));
+    };
+
+    this.on(PRICE_DROPPED, handler);
+    return () => this.off(PRICE_DROPPED, handler);
+  }
+}
+
+export const propertyEvents = new PropertyEvents();
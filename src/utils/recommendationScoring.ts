@@ -0,0 +1,201 @@
+import { haversineDistanceKm } from './geoUtils';
+import { toAmenityKeys } from './amenityFilter';
+import type { SearchCriteria } from '../models/SavedSearch';
+
+/**
+ * The listing fields recommendations compare
+ */
+export interface ListingFeatures {
+  id: number;
+  propertyType: string;
+  listingType: string;
+  city: string;
+  price: number;
+  areaSqft?: number | null;
+  bedrooms?: number | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  amenityKeys: string[];
+}
+
+// Relative weight of each signal; missing signals are left out and the rest re-weighted
+const SIMILARITY_WEIGHTS = {
+  propertyType: 0.25,
+  location: 0.25,
+  price: 0.25,
+  bedrooms: 0.15,
+  area: 0.05,
+  amenities: 0.05,
+};
+
+// Listings this close count as the same neighbourhood; location similarity falls to 0 at the far limit
+const NEARBY_KM = 2;
+const MAX_DISTANCE_KM = 15;
+
+// Relative difference at which price and area similarity reach 0
+const MAX_PRICE_DIFFERENCE = 0.5;
+const MAX_AREA_DIFFERENCE = 0.5;
+
+// How far outside a searched price range a listing still earns partial credit
+const PRICE_RANGE_TOLERANCE = 0.2;
+
+/**
+ * Features of a Property instance or plain property row
+ */
+export function toListingFeatures(property: any): ListingFeatures {
+  return {
+    id: property.id,
+    propertyType: property.property_type,
+    listingType: property.listing_type,
+    city: property.city,
+    price: Number(property.price),
+    areaSqft: property.area_sqft ? Number(property.area_sqft) : null,
+    bedrooms: property.bedrooms ?? null,
+    latitude: property.latitude ?? null,
+    longitude: property.longitude ?? null,
+    amenityKeys: property.amenity_keys || toAmenityKeys(property.amenities),
+  };
+}
+
+const sameText = (a?: string | null, b?: string | null): boolean =>
+  !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const relativeSimilarity = (a: number, b: number, maxDifference: number): number => {
+  const larger = Math.max(Math.abs(a), Math.abs(b));
+  if (larger === 0) return 1;
+  return Math.max(0, 1 - Math.abs(a - b) / larger / maxDifference);
+};
+
+const hasCoordinates = (listing: ListingFeatures): boolean =>
+  listing.latitude !== null && listing.latitude !== undefined &&
+  listing.longitude !== null && listing.longitude !== undefined;
+
+const weightedAverage = (signals: Partial<Record<keyof typeof SIMILARITY_WEIGHTS, number | null>>): number => {
+  let weighted = 0;
+  let totalWeight = 0;
+
+  (Object.keys(SIMILARITY_WEIGHTS) as Array<keyof typeof SIMILARITY_WEIGHTS>).forEach(signal => {
+    const value = signals[signal];
+    if (value !== null && value !== undefined) {
+      weighted += value * SIMILARITY_WEIGHTS[signal];
+      totalWeight += SIMILARITY_WEIGHTS[signal];
+    }
+  });
+
+  return totalWeight === 0 ? 0 : weighted / totalWeight;
+};
+
+/**
+ * Content similarity from 0 to 1 between a listing the user engaged with and a candidate.
+ * Sale and rental listings are never similar to each other.
+ */
+export function listingSimilarity(seed: ListingFeatures, candidate: ListingFeatures): number {
+  if (seed.listingType !== candidate.listingType) {
+    return 0;
+  }
+
+  let location = sameText(seed.city, candidate.city) ? 1 : 0;
+  if (hasCoordinates(seed) && hasCoordinates(candidate)) {
+    const distanceKm = haversineDistanceKm(
+      { latitude: Number(seed.latitude), longitude: Number(seed.longitude) },
+      { latitude: Number(candidate.latitude), longitude: Number(candidate.longitude) }
+    );
+    location = distanceKm <= NEARBY_KM
+      ? 1
+      : Math.max(0, 1 - (distanceKm - NEARBY_KM) / (MAX_DISTANCE_KM - NEARBY_KM));
+  }
+
+  let bedrooms: number | null = null;
+  if (seed.bedrooms && candidate.bedrooms) {
+    const difference = Math.abs(Number(seed.bedrooms) - Number(candidate.bedrooms));
+    bedrooms = difference === 0 ? 1 : difference === 1 ? 0.5 : 0;
+  }
+
+  let amenities: number | null = null;
+  if (seed.amenityKeys.length > 0 && candidate.amenityKeys.length > 0) {
+    const shared = seed.amenityKeys.filter(key => candidate.amenityKeys.includes(key)).length;
+    amenities = shared / new Set([...seed.amenityKeys, ...candidate.amenityKeys]).size;
+  }
+
+  const score = weightedAverage({
+    propertyType: seed.propertyType === candidate.propertyType ? 1 : 0,
+    location,
+    price: relativeSimilarity(seed.price, candidate.price, MAX_PRICE_DIFFERENCE),
+    bedrooms,
+    area: seed.areaSqft && candidate.areaSqft
+      ? relativeSimilarity(Number(seed.areaSqft), Number(candidate.areaSqft), MAX_AREA_DIFFERENCE)
+      : null,
+    amenities,
+  });
+
+  return Math.round(score * 1000) / 1000;
+}
+
+/**
+ * How well a candidate fits a past search, from 0 to 1, or null when the search has no
+ * criteria a listing can be compared on (e.g. keywords only)
+ */
+export function searchCriteriaMatch(criteria: SearchCriteria, candidate: ListingFeatures): number | null {
+  if (criteria.listing_type && criteria.listing_type !== candidate.listingType) {
+    return 0;
+  }
+
+  const signals: Partial<Record<keyof typeof SIMILARITY_WEIGHTS, number | null>> = {};
+
+  if (criteria.property_type?.length) {
+    signals.propertyType = criteria.property_type.includes(candidate.propertyType as any) ? 1 : 0;
+  }
+  if (criteria.city?.length) {
+    signals.location = criteria.city.some(city => sameText(city, candidate.city)) ? 1 : 0;
+  }
+  if (criteria.bedrooms?.length && candidate.bedrooms) {
+    signals.bedrooms = criteria.bedrooms.includes(Number(candidate.bedrooms)) ? 1 : 0;
+  }
+  if (criteria.min_price || criteria.max_price) {
+    const min = criteria.min_price || 0;
+    const max = criteria.max_price || Infinity;
+    const outside = candidate.price < min
+      ? (min - candidate.price) / min
+      : candidate.price > max ? (candidate.price - max) / max : 0;
+    signals.price = Math.max(0, 1 - outside / PRICE_RANGE_TOLERANCE);
+  }
+
+  if (Object.keys(signals).length === 0) {
+    return null;
+  }
+
+  return Math.round(weightedAverage(signals) * 1000) / 1000;
+}
+
+const pluralize = (propertyType: string): string =>
+  propertyType.endsWith('s') ? propertyType : `${propertyType}s`;
+
+/**
+ * Short human description of a listing, e.g. "3BHK in Pune" or "villa in Goa"
+ */
+export function describeListing(listing: ListingFeatures): string {
+  const kind = listing.bedrooms ? `${listing.bedrooms}BHK` : listing.propertyType;
+  return `${kind} in ${listing.city}`;
+}
+
+/**
+ * Short human description of a search, e.g. "3BHK in Pune" or "apartments in Mumbai"
+ */
+export function describeSearch(criteria: SearchCriteria): string {
+  const kind = criteria.bedrooms?.length === 1
+    ? `${criteria.bedrooms[0]}BHK`
+    : criteria.property_type?.length === 1 ? pluralize(criteria.property_type[0]) : 'properties';
+  return criteria.city?.length ? `${kind} in ${criteria.city.join(', ')}` : kind;
+}
+
+/**
+ * Popularity from 0 to 1: log-scaled views and favorites, with a boost for featured and fresh listings
+ */
+export function popularityScore(listing: { views_count?: number; favorites_count?: number; is_featured?: boolean; created_at?: Date | string }): number {
+  const engagement = Math.log10(1 + (listing.views_count || 0) + 5 * (listing.favorites_count || 0)) / 4;
+  const ageDays = listing.created_at ? (Date.now() - new Date(listing.created_at).getTime()) / (24 * 60 * 60 * 1000) : Infinity;
+  const freshness = ageDays <= 30 ? 0.15 * (1 - ageDays / 30) : 0;
+  const featured = listing.is_featured ? 0.2 : 0;
+
+  return Math.round(Math.min(1, engagement + freshness + featured) * 1000) / 1000;
+}
@@ -0,0 +1,133 @@
+// InnoDB ignores tokens shorter than innodb_ft_min_token_size (3 by default)
+export const MIN_FULLTEXT_TERM_LENGTH = 3;
+
+const MAX_SEARCH_TERMS = 10;
+
+// InnoDB default full-text stopwords; they are never indexed, so they can't be required terms
+const FULLTEXT_STOPWORDS = new Set([
+  'a', 'about', 'an', 'are', 'as', 'at', 'be', 'by', 'com', 'de', 'en', 'for', 'from', 'how', 'i',
+  'in', 'is', 'it', 'la', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when',
+  'where', 'who', 'will', 'with', 'und', 'www',
+]);
+
+// Characters with special meaning in MySQL boolean mode full-text queries
+const BOOLEAN_OPERATORS = /[+\-<>()~*"@]/g;
+
+// Stems are matched as prefixes, so "-ies" is cut back to what the singular and plural share
+// ("amenities" -> "amenit", matching "amenity" and "amenities") rather than rewritten to "-y"
+const SUFFIX_RULES: Array<[RegExp, string]> = [
+  [/ies$/, ''],
+  [/(ss|us)es$/, '$1'],
+  [/(x|ch|sh)es$/, '$1'],
+  [/ments?$/, 'ment'],
+  [/ings?$/, ''],
+  [/ed$/, ''],
+  [/([^s])s$/, '$1'],
+];
+
+/**
+ * Light English stemmer: strips plural and common verb suffixes so that
+ * "villas", "apartments" and "furnished" match "villa", "apartment" and "furnish".
+ */
+export function stemTerm(term: string): string {
+  for (const [pattern, replacement] of SUFFIX_RULES) {
+    if (pattern.test(term)) {
+      const stemmed = term.replace(pattern, replacement);
+      return stemmed.length >= MIN_FULLTEXT_TERM_LENGTH ? stemmed : term;
+    }
+  }
+  return term;
+}
+
+/**
+ * Split a free-text query into lower-cased, de-duplicated terms
+ */
+export function tokenizeSearchQuery(query: string): string[] {
+  const terms = query
+    .toLowerCase()
+    .replace(BOOLEAN_OPERATORS, ' ')
+    .split(/[^\p{L}\p{N}_']+/u)
+    .map(term => term.replace(/^'+|'+$/g, ''))
+    .filter(Boolean);
+
+  return Array.from(new Set(terms)).slice(0, MAX_SEARCH_TERMS);
+}
+
+/**
+ * Terms that the full-text index can match, stemmed
+ */
+export function getFullTextTerms(query: string): string[] {
+  return Array.from(new Set(
+    tokenizeSearchQuery(query)
+      .filter(term => term.length >= MIN_FULLTEXT_TERM_LENGTH && !FULLTEXT_STOPWORDS.has(term))
+      .map(stemTerm)
+  ));
+}
+
+/**
+ * Boolean mode query where every stemmed term is required and matched as a prefix
+ * (e.g. "3 bedroom villas" -> "+bedroom* +villa*")
+ */
+export function buildBooleanQuery(terms: string[], requireAll: boolean = true): string {
+  return terms.map(term => `${requireAll ? '+' : ''}${term}*`).join(' ');
+}
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Wrap matched words in <mark> tags. The text is HTML-escaped first,
+ * so the result is safe to render as markup.
+ */
+export function highlightTerms(text: string, terms: string[]): string {
+  const escaped = escapeHtml(text);
+  if (terms.length === 0) {
+    return escaped;
+  }
+
+  // Match whole words starting with any stemmed term, like the prefix search does
+  const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])((?:${terms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}]*)`, 'giu');
+  return escaped.replace(pattern, '$1<mark>$2</mark>');
+}
+
+/**
+ * Short excerpt around the first matched term, with matches highlighted
+ */
+export function buildHighlightedSnippet(text: string, terms: string[], maxLength: number = 160): string {
+  const lower = text.toLowerCase();
+  const firstMatch = terms
+    .map(term => lower.indexOf(term))
+    .filter(index => index >= 0)
+    .sort((a, b) => a - b)[0];
+
+  if (text.length <= maxLength) {
+    return highlightTerms(text, terms);
+  }
+
+  const start = Math.max(0, (firstMatch ?? 0) - Math.floor(maxLength / 4));
+  const excerpt = text.slice(start, start + maxLength);
+
+  return `${start > 0 ? '…' : ''}${highlightTerms(excerpt, terms)}${start + maxLength < text.length ? '…' : ''}`;
+}
+
+/**
+ * Searchable text for a property's amenities JSON (only the amenities it has)
+ */
+export function amenitiesToSearchText(amenities?: Record<string, boolean | undefined> | null): string | null {
+  if (!amenities || typeof amenities !== 'object') {
+    return null;
+  }
+
+  const text = Object.entries(amenities)
+    .filter(([, available]) => available === true)
+    .map(([amenity]) => amenity.replace(/_/g, ' '))
+    .join(' ');
+
+  return text || null;
+}
@@ -1,7 +1,9 @@
 import { User, UserRole } from '../../models/User';
 import { Property } from '../../models/Property';
 import { Project } from '../../models/Project';
-import { Inquiry, InquiryStatus } from '../../models/Inquiry';
+import { Inquiry, LEAD_STAGE_STATUS, LeadStage } from '../../models/Inquiry';
+
+const withStage = (stage: LeadStage) => ({ stage, status: LEAD_STAGE_STATUS[stage] });
 
 export async function seedInquiries(users: User[]) {
   const buyers = users.filter(u => u.role === UserRole.BUYER);
@@ -17,7 +19,7 @@ export async function seedInquiries(users: User[]) {
       email: `inquirer${index + 1}@example.com`,
       phone: `+91-987654321${index}`,
       message: `I am interested in this ${property.property_type}. Please share more details about pricing and availability.`,
-      status: [InquiryStatus.NEW, InquiryStatus.CONTACTED, InquiryStatus.CLOSED, InquiryStatus.NEW, InquiryStatus.CONTACTED][index],
+      ...withStage([LeadStage.NEW, LeadStage.QUALIFIED, LeadStage.WON, LeadStage.NEW, LeadStage.NEGOTIATION][index]),
     })),
     // Project inquiries
     ...projects.slice(0, 3).map((project, index) => ({
@@ -27,7 +29,7 @@ export async function seedInquiries(users: User[]) {
       email: `project_inquirer${index + 1}@example.com`,
       phone: `+91-987654322${index}`,
       message: `I am interested in ${project.name}. Please provide details about available units and pricing.`,
-      status: [InquiryStatus.NEW, InquiryStatus.CONTACTED, InquiryStatus.NEW][index],
+      ...withStage([LeadStage.NEW, LeadStage.SITE_VISIT_SCHEDULED, LeadStage.CONTACTED][index]),
     })),
   ];
 
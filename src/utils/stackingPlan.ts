@@ -0,0 +1,142 @@
+import { UnitStatus } from '../models/ProjectUnit';
+import type { ReservationStatus } from '../models/UnitReservation';
+
+/**
+ * The unit fields a stacking plan cell needs
+ */
+export interface StackingPlanUnitSource {
+  id: number;
+  unit_number: string;
+  unit_type: string;
+  floor_number: number;
+  tower?: string | null;
+  status: UnitStatus;
+  price: number | string;
+  price_per_sqft?: number | string | null;
+  area_sqft: number | string;
+  bedrooms: number;
+  is_corner_unit?: boolean;
+}
+
+export interface StackingPlanUnit {
+  id: number;
+  unit_number: string;
+  unit_type: string;
+  status: UnitStatus;
+  price: number;
+  price_per_sqft: number | null;
+  area_sqft: number;
+  bedrooms: number;
+  is_corner_unit: boolean;
+  // Price per sqft scaled to 0 (cheapest in the project) .. 1 (most expensive)
+  price_heat: number | null;
+  reservation_status: ReservationStatus | null;
+}
+
+export interface StackingPlanFloor {
+  floor_number: number;
+  units: StackingPlanUnit[];
+}
+
+export interface StackingPlanTower {
+  tower: string | null;
+  // Top floor first, the way a building elevation is drawn
+  floors: StackingPlanFloor[];
+  unit_count: number;
+  max_units_per_floor: number;
+}
+
+export interface StackingPlan {
+  towers: StackingPlanTower[];
+  total_units: number;
+  status_counts: Record<UnitStatus, number>;
+  price_per_sqft: { min: number; max: number } | null;
+}
+
+const naturalCompare = (a: string, b: string): number =>
+  a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+const pricePerSqft = (unit: StackingPlanUnitSource): number | null => {
+  const stored = Number(unit.price_per_sqft);
+  if (stored > 0) return stored;
+
+  const area = Number(unit.area_sqft);
+  return area > 0 ? Number(unit.price) / area : null;
+};
+
+/**
+ * Group units into towers and floors. Units without a tower form their own group, listed last.
+ */
+export function buildStackingPlan(
+  units: StackingPlanUnitSource[],
+  reservations: Map<number, ReservationStatus> = new Map()
+): StackingPlan {
+  const statusCounts = Object.values(UnitStatus).reduce(
+    (counts, status) => ({ ...counts, [status]: 0 }),
+    {} as Record<UnitStatus, number>
+  );
+
+  const rates = units.map(pricePerSqft).filter((rate): rate is number => rate !== null);
+  const minRate = rates.length > 0 ? Math.min(...rates) : null;
+  const maxRate = rates.length > 0 ? Math.max(...rates) : null;
+
+  const towers = new Map<string | null, Map<number, StackingPlanUnit[]>>();
+
+  units.forEach(unit => {
+    statusCounts[unit.status] = (statusCounts[unit.status] || 0) + 1;
+
+    const rate = pricePerSqft(unit);
+    let heat: number | null = null;
+    if (rate !== null && minRate !== null && maxRate !== null) {
+      heat = maxRate === minRate ? 0 : Math.round(((rate - minRate) / (maxRate - minRate)) * 1000) / 1000;
+    }
+
+    const tower = unit.tower?.trim() || null;
+    if (!towers.has(tower)) towers.set(tower, new Map());
+    const floors = towers.get(tower)!;
+    if (!floors.has(unit.floor_number)) floors.set(unit.floor_number, []);
+
+    floors.get(unit.floor_number)!.push({
+      id: unit.id,
+      unit_number: unit.unit_number,
+      unit_type: unit.unit_type,
+      status: unit.status,
+      price: Number(unit.price),
+      price_per_sqft: rate === null ? null : Math.round(rate * 100) / 100,
+      area_sqft: Number(unit.area_sqft),
+      bedrooms: unit.bedrooms,
+      is_corner_unit: !!unit.is_corner_unit,
+      price_heat: heat,
+      reservation_status: reservations.get(unit.id) || null,
+    });
+  });
+
+  const towerNames = Array.from(towers.keys()).sort((a, b) => {
+    if (a === null) return 1;
+    if (b === null) return -1;
+    return naturalCompare(a, b);
+  });
+
+  return {
+    towers: towerNames.map(tower => {
+      const floors = Array.from(towers.get(tower)!.entries())
+        .sort(([a], [b]) => b - a)
+        .map(([floor_number, floorUnits]) => ({
+          floor_number,
+          units: floorUnits.sort((a, b) => naturalCompare(a.unit_number, b.unit_number)),
+        }));
+
+      return {
+        tower,
+        floors,
+        unit_count: floors.reduce((sum, floor) => sum + floor.units.length, 0),
+        max_units_per_floor: Math.max(...floors.map(floor => floor.units.length)),
+      };
+    }),
+    total_units: units.length,
+    status_counts: statusCounts,
+    price_per_sqft: minRate !== null && maxRate !== null
+      ? { min: Math.round(minRate * 100) / 100, max: Math.round(maxRate * 100) / 100 }
+      : null,
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * The rules a project price list is made of. Rates are per sqft of the unit's area.
+ */
+export interface PricingRules {
+  base_rate_per_sqft: number;
+  // Base rate overrides keyed by unit type, e.g. { "3BHK": 7200 }
+  unit_type_rates?: Record<string, number> | null;
+  floor_rise_per_sqft: number;
+  floor_rise_from_floor: number;
+  corner_plc_per_sqft: number;
+  terrace_plc_per_sqft: number;
+  parking_charge_per_space: number;
+}
+
+/**
+ * The unit fields pricing depends on
+ */
+export interface PricedUnitSource {
+  id: number;
+  unit_number: string;
+  unit_type: string;
+  tower?: string | null;
+  floor_number: number;
+  area_sqft: number | string;
+  parking_spaces?: number | null;
+  is_corner_unit?: boolean;
+  has_terrace?: boolean;
+}
+
+export interface UnitPriceBreakdown {
+  unit_id: number;
+  unit_number: string;
+  unit_type: string;
+  tower: string | null;
+  floor_number: number;
+  area_sqft: number;
+  base_amount: number;
+  floor_rise_amount: number;
+  plc_amount: number;
+  parking_amount: number;
+  total_price: number;
+  price_per_sqft: number;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Rules with every numeric field coerced, so DECIMAL columns read as strings can be used directly
+ */
+export function normalizePricingRules(rules: PricingRules): PricingRules {
+  const unitTypeRates = rules.unit_type_rates
+    ? Object.fromEntries(
+      Object.entries(rules.unit_type_rates)
+        .filter(([, rate]) => Number(rate) > 0)
+        .map(([unitType, rate]) => [unitType, Number(rate)])
+    )
+    : null;
+
+  return {
+    base_rate_per_sqft: Number(rules.base_rate_per_sqft),
+    unit_type_rates: unitTypeRates && Object.keys(unitTypeRates).length > 0 ? unitTypeRates : null,
+    floor_rise_per_sqft: Number(rules.floor_rise_per_sqft) || 0,
+    floor_rise_from_floor: Number(rules.floor_rise_from_floor) || 0,
+    corner_plc_per_sqft: Number(rules.corner_plc_per_sqft) || 0,
+    terrace_plc_per_sqft: Number(rules.terrace_plc_per_sqft) || 0,
+    parking_charge_per_space: Number(rules.parking_charge_per_space) || 0,
+  };
+}
+
+/**
+ * Price a unit:
+ *   area x (base rate + floor rise x floors from the starting floor + corner/terrace PLC)
+ *   + parking spaces x parking charge
+ */
+export function priceUnit(unit: PricedUnitSource, rules: PricingRules): UnitPriceBreakdown {
+  const area = Number(unit.area_sqft);
+  const baseRate = rules.unit_type_rates?.[unit.unit_type] ?? rules.base_rate_per_sqft;
+
+  // The starting floor carries one step of floor rise; floors below it carry none
+  const risingFloors = Math.max(0, unit.floor_number - rules.floor_rise_from_floor + 1);
+
+  const plcRate =
+    (unit.is_corner_unit ? rules.corner_plc_per_sqft : 0) +
+    (unit.has_terrace ? rules.terrace_plc_per_sqft : 0);
+
+  const baseAmount = round2(area * baseRate);
+  const floorRiseAmount = round2(area * rules.floor_rise_per_sqft * risingFloors);
+  const plcAmount = round2(area * plcRate);
+  const parkingAmount = round2((unit.parking_spaces || 0) * rules.parking_charge_per_space);
+  const totalPrice = round2(baseAmount + floorRiseAmount + plcAmount + parkingAmount);
+
+  return {
+    unit_id: unit.id,
+    unit_number: unit.unit_number,
+    unit_type: unit.unit_type,
+    tower: unit.tower || null,
+    floor_number: unit.floor_number,
+    area_sqft: area,
+    base_amount: baseAmount,
+    floor_rise_amount: floorRiseAmount,
+    plc_amount: plcAmount,
+    parking_amount: parkingAmount,
+    total_price: totalPrice,
+    // Same convention as unit creation: total price over area
+    price_per_sqft: area > 0 ? round2(totalPrice / area) : 0,
+  };
+}
+
+/**
+ * Lowest and highest total price across priced units, or null when there are none
+ */
+export function priceRange(items: Array<{ total_price: number | string }>): { min: number; max: number } | null {
+  if (items.length === 0) return null;
+  const prices = items.map(item => Number(item.total_price));
+  return { min: Math.min(...prices), max: Math.max(...prices) };
+}
@@ -0,0 +1,131 @@
+import ExcelJS from 'exceljs';
+import Papa from 'papaparse';
+
+export type UnitSheetFormat = 'csv' | 'xlsx';
+
+/**
+ * Columns of a unit export, in order. `id` ties a row back to the unit on re-import;
+ * rows without it are matched by unit number or created.
+ */
+export const UNIT_SHEET_COLUMNS = [
+  'id',
+  'tower',
+  'unit_number',
+  'unit_type',
+  'floor_number',
+  'area_sqft',
+  'area_sqm',
+  'price',
+  'price_per_sqft',
+  'maintenance_charge',
+  'parking_spaces',
+  'balconies',
+  'bathrooms',
+  'bedrooms',
+  'is_corner_unit',
+  'has_terrace',
+  'status',
+] as const;
+
+export type UnitSheetColumn = typeof UNIT_SHEET_COLUMNS[number];
+
+export type UnitSheetRow = Partial<Record<UnitSheetColumn, string>>;
+
+export interface ParsedSheetRow {
+  // Line in the file as the builder sees it, counting the header as 1
+  row: number;
+  values: UnitSheetRow;
+}
+
+// Written to workbooks as numbers so they can be edited with formulas
+const NUMERIC_COLUMNS: UnitSheetColumn[] = [
+  'id', 'floor_number', 'area_sqft', 'area_sqm', 'price', 'price_per_sqft',
+  'maintenance_charge', 'parking_spaces', 'balconies', 'bathrooms', 'bedrooms',
+];
+
+export const UNIT_SHEET_CONTENT_TYPES: Record<UnitSheetFormat, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+const normalizeHeader = (header: string): string => header.trim().toLowerCase().replace(/\s+/g, '_');
+
+/**
+ * The format of an uploaded sheet, from its file name
+ */
+export function sheetFormatOf(filename: string): UnitSheetFormat | null {
+  const extension = filename.toLowerCase().split('.').pop();
+  return extension === 'csv' || extension === 'xlsx' ? extension : null;
+}
+
+/**
+ * Write unit rows as CSV or as a single-sheet workbook
+ */
+export async function writeUnitSheet(rows: UnitSheetRow[], format: UnitSheetFormat): Promise<Buffer> {
+  if (format === 'csv') {
+    return Buffer.from(Papa.unparse({ fields: [...UNIT_SHEET_COLUMNS], data: rows.map(row => UNIT_SHEET_COLUMNS.map(column => row[column] ?? '')) }));
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Units');
+  sheet.columns = UNIT_SHEET_COLUMNS.map(column => ({ header: column, key: column, width: Math.max(12, column.length + 2) }));
+  sheet.getRow(1).font = { bold: true };
+  rows.forEach(row => sheet.addRow(Object.fromEntries(
+    Object.entries(row).map(([column, value]) => [
+      column,
+      NUMERIC_COLUMNS.includes(column as UnitSheetColumn) && value !== '' ? Number(value) : value,
+    ])
+  )));
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+/**
+ * Read rows from an uploaded CSV or workbook. Headers are matched case-insensitively, unknown
+ * columns are dropped and blank rows are skipped. Every value comes back as a trimmed string.
+ */
+export async function readUnitSheet(buffer: Buffer, format: UnitSheetFormat): Promise<ParsedSheetRow[]> {
+  const records: Array<{ row: number; record: Record<string, any> }> = [];
+
+  if (format === 'csv') {
+    const result = Papa.parse<Record<string, string>>(buffer.toString('utf-8').replace(/^\uFEFF/, ''), {
+      header: true,
+      transformHeader: normalizeHeader,
+    });
+    result.data.forEach((record, index) => records.push({ row: index + 2, record }));
+  } else {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer as any);
+    const sheet = workbook.worksheets[0];
+    if (!sheet) {
+      return [];
+    }
+
+    const headers: string[] = [];
+    sheet.getRow(1).eachCell((cell, column) => {
+      headers[column] = normalizeHeader(cell.text);
+    });
+
+    sheet.eachRow((row, rowNumber) => {
+      if (rowNumber === 1) return;
+      const record: Record<string, string> = {};
+      row.eachCell((cell, column) => {
+        if (headers[column]) record[headers[column]] = cell.text;
+      });
+      records.push({ row: rowNumber, record });
+    });
+  }
+
+  return records
+    .map(({ row, record }) => {
+      const values: UnitSheetRow = {};
+      UNIT_SHEET_COLUMNS.forEach(column => {
+        const value = record[column];
+        if (value !== undefined && value !== null && String(value).trim() !== '') {
+          values[column] = String(value).trim();
+        }
+      });
+      return { row, values };
+    })
+    .filter(({ values }) => Object.keys(values).length > 0);
+}